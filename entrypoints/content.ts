@@ -4,6 +4,63 @@
  */
 
 import type { AutomationCommand, AutomationResponse, ExtensionMessage } from '../lib/types/chrome-api';
+import type { ObservedElement, PageObservation, VisionElement } from '../lib/shared/contracts';
+import type { ElementFingerprint, ElementSelector, RecordedAction } from '../lib/automation-types';
+import type { CommandParameters } from '../lib/commands/types';
+import { dataExtractor } from '../lib/data-extraction';
+import { queryDeepSelector } from '../lib/deep-selector';
+import { domSelectors } from '../lib/dom-selectors';
+import { domWaiter } from '../lib/dom-waiter';
+import { captureFingerprint, findClosestElement } from '../lib/element-fingerprint';
+import { pageSnapshotter } from '../lib/page-snapshot';
+import { getStorageValue } from '../lib/utils/chrome-storage';
+import { formatTable } from '../lib/table-export';
+import { RECORDING_STORAGE_KEY } from '../lib/workflow-recorder';
+
+// Defaults for page observations sent to the agent loop
+const OBSERVATION_MAX_ELEMENTS = 40;
+const OBSERVATION_MAX_TEXT_LENGTH = 80;
+
+// Default number of boxes drawn on vision screenshots
+const VISION_MAX_ELEMENTS = 60;
+
+// Recorder: elements whose clicks are recorded, and how window scrolls are batched
+const RECORDER_CLICK_TARGETS = 'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], ' +
+  '[role="checkbox"], [role="tab"], [role="menuitem"], [role="option"], [onclick]';
+const RECORDER_SCROLL_DEBOUNCE = 400;
+const RECORDER_MIN_SCROLL = 50;
+const RECORDER_MAX_TEXT_SELECTOR_LENGTH = 80;
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'image', 'range', 'color'];
+
+// Search commands: engines to navigate to, and inputs tried when searching the current site
+const SEARCH_ENGINE_URLS: Record<string, string> = {
+  google: 'https://www.google.com/search?q=',
+  bing: 'https://www.bing.com/search?q=',
+  duckduckgo: 'https://duckduckgo.com/?q='
+};
+const SEARCH_INPUT_SELECTORS = [
+  'input[type="search"]',
+  '[role="searchbox"]',
+  'input[name="q"]',
+  'input[name="query"]',
+  'input[name="search"]',
+  'input[placeholder*="search" i]',
+  'input[aria-label*="search" i]'
+];
+
+// Login and logout commands: controls found by their text when no target is given
+const LOGIN_CONTROL_PATTERN = /^(log\s?in|sign\s?in)\b/i;
+const LOGOUT_CONTROL_PATTERN = /^(log\s?out|sign\s?out)\b/i;
+const TEXT_CONTROLS = 'a, button, input[type="submit"], input[type="button"], [role="button"], [role="menuitem"], [role="link"]';
+
+// Screenshots: captureVisibleTab allows two calls per second, and canvases have a maximum size
+const SCREENSHOT_CAPTURE_INTERVAL = 550;
+const SCREENSHOT_MAX_HEIGHT = 16384;
+
+let isRecording = false;
+let recordedScrollY = 0;
+let scrollTimer: ReturnType<typeof setTimeout> | null = null;
+let lastRecordedClick: Element | null = null;
 
 /**
  * Initialize the content script
@@ -17,6 +74,12 @@ function initialize(): void {
   // Inject Ray automation utilities into the page
   injectRayUtilities();
 
+  // Keep recording across page loads on the tab being recorded
+  resumeRecording();
+
+  // Pending waits cannot outlive the page, so answer them before it goes
+  window.addEventListener('pagehide', () => domWaiter.cancelAll('Page unloaded while waiting'));
+
   console.log('Ray Extension - Content script ready');
 }
 
@@ -40,6 +103,44 @@ async function handleMessage(
         await handleTabUpdated(message, sender, sendResponse);
         break;
 
+      case 'OBSERVE_PAGE':
+        await handleObservePage(message, sender, sendResponse);
+        break;
+
+      case 'GET_PAGE_SNAPSHOT':
+        await handleGetPageSnapshot(message, sender, sendResponse);
+        break;
+
+      case 'GET_VISION_ELEMENTS':
+        await handleGetVisionElements(message, sender, sendResponse);
+        break;
+
+      case 'START_RECORDING':
+        startRecording();
+        sendResponse({ success: true });
+        break;
+
+      case 'STOP_RECORDING':
+        stopRecording();
+        sendResponse({ success: true });
+        break;
+
+      case 'HEAL_SELECTOR':
+        handleHealSelector(message, sender, sendResponse);
+        break;
+
+      case 'WAIT_FOR_DOM':
+        await handleWaitForDom(message, sender, sendResponse);
+        break;
+
+      case 'EXTRACT_DATA':
+        handleExtractData(message, sender, sendResponse);
+        break;
+
+      case 'NEXT_PAGE':
+        await handleNextPage(message, sender, sendResponse);
+        break;
+
       default:
         console.warn('Ray Extension - Unknown message type:', message.type);
         sendResponse({ success: false, error: 'Unknown message type' });
@@ -95,6 +196,42 @@ async function handleExecuteCommand(
         result = await handleExtract(command);
         break;
 
+      case 'hover':
+        result = await handleHover(command);
+        break;
+
+      case 'drag':
+        result = await handleDrag(command);
+        break;
+
+      case 'upload':
+        result = await handleUpload(command);
+        break;
+
+      case 'download':
+        result = await handleDownload(command);
+        break;
+
+      case 'select':
+        result = await handleSelect(command);
+        break;
+
+      case 'search':
+        result = await handleSearch(command);
+        break;
+
+      case 'login':
+        result = await handleLogin(command);
+        break;
+
+      case 'logout':
+        result = await handleLogout(command);
+        break;
+
+      case 'screenshot':
+        result = await handleScreenshot(command);
+        break;
+
       default:
         throw new Error(`Unknown command type: ${command.type}`);
     }
@@ -131,6 +268,418 @@ async function handleTabUpdated(
   sendResponse({ success: true });
 }
 
+/**
+ * Handle page observation request from the agent loop
+ */
+async function handleObservePage(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  const maxElements = message.payload?.maxElements ?? OBSERVATION_MAX_ELEMENTS;
+  const maxTextLength = message.payload?.maxTextLength ?? OBSERVATION_MAX_TEXT_LENGTH;
+
+  const interactiveElements = await domSelectors.findInteractiveElements();
+  const elements: ObservedElement[] = interactiveElements
+    .slice(0, maxElements)
+    .map(element => describeElement(element, maxTextLength));
+
+  const observation: PageObservation = {
+    url: window.location.href,
+    title: document.title,
+    elements,
+    tree: message.payload?.includeTree
+      ? pageSnapshotter.snapshot(document.body, message.payload?.maxTokens).tree
+      : undefined,
+    timestamp: Date.now()
+  };
+
+  sendResponse({ success: true, observation });
+}
+
+/**
+ * Handle accessibility snapshot request
+ */
+async function handleGetPageSnapshot(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  const snapshot = pageSnapshotter.snapshot(document.body, message.payload?.maxTokens);
+  sendResponse({ success: true, snapshot });
+}
+
+/**
+ * Handle request for the visible interactive elements to box on a screenshot
+ */
+async function handleGetVisionElements(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  const maxElements = message.payload?.maxElements ?? VISION_MAX_ELEMENTS;
+  const elements: VisionElement[] = [];
+
+  for (const element of await domSelectors.findInteractiveElements()) {
+    if (elements.length >= maxElements) {
+      break;
+    }
+
+    const rect = element.getBoundingClientRect();
+    const visible = rect.width > 0 && rect.height > 0 &&
+      rect.bottom > 0 && rect.right > 0 &&
+      rect.top < window.innerHeight && rect.left < window.innerWidth;
+    if (!visible) {
+      continue;
+    }
+
+    const description = describeElement(element, OBSERVATION_MAX_TEXT_LENGTH);
+    elements.push({
+      ref: pageSnapshotter.getRef(element),
+      tag: description.tag,
+      role: description.role,
+      text: description.text || description.placeholder || description.name,
+      rect: { x: rect.left, y: rect.top, width: rect.width, height: rect.height }
+    });
+  }
+
+  sendResponse({ success: true, elements, viewportWidth: window.innerWidth });
+}
+
+/**
+ * Find the element closest to a recorded fingerprint and give it a selector that matches today's page
+ */
+function handleHealSelector(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): void {
+  const fingerprint: ElementFingerprint | undefined = message.payload?.fingerprint;
+  if (!fingerprint?.tag) {
+    sendResponse({ success: false, error: 'Fingerprint is required to heal a selector' });
+    return;
+  }
+
+  const match = findClosestElement(fingerprint, { threshold: message.payload?.threshold });
+  if (!match) {
+    sendResponse({ success: false, error: 'No element is close enough to the recorded fingerprint' });
+    return;
+  }
+
+  sendResponse({
+    success: true,
+    selector: getCssSelector(match.element),
+    score: match.score,
+    fingerprint: captureFingerprint(match.element)
+  });
+}
+
+/**
+ * Wait for a DOM condition, reporting how long it took
+ */
+async function handleWaitForDom(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  if (!message.payload?.condition || !message.payload?.timeout) {
+    sendResponse({ success: false, error: 'Condition and timeout are required to wait for the DOM' });
+    return;
+  }
+
+  sendResponse(await domWaiter.wait(message.payload));
+}
+
+/**
+ * Read the repeated records on the page as rows, inferring the schema unless one is given
+ */
+function handleExtractData(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): void {
+  const page = dataExtractor.extractPage(message.payload || {});
+  sendResponse({ success: true, ...page, url: window.location.href });
+}
+
+/**
+ * Load the next page of records, or report the URL the background should navigate to
+ */
+async function handleNextPage(
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  if (!message.payload?.pagination || !message.payload?.recordSelector) {
+    sendResponse({ success: false, error: 'Pagination and record selector are required to load the next page' });
+    return;
+  }
+
+  sendResponse({ success: true, ...(await dataExtractor.advancePage(message.payload)) });
+}
+
+/**
+ * Ask the background whether this tab is being recorded, recording the page load as navigation
+ */
+async function resumeRecording(): Promise<void> {
+  try {
+    // Only wake the service worker when some tab is being recorded
+    if (!(await getStorageValue(RECORDING_STORAGE_KEY, null))) {
+      return;
+    }
+
+    const response = await chrome.runtime.sendMessage({ type: 'recorder_page_loaded', url: window.location.href });
+    if (response?.recording) {
+      startRecording();
+    }
+  } catch (error) {
+    console.error('Ray Extension - Failed to resume recording:', error);
+  }
+}
+
+/**
+ * Start capturing user actions as automation commands
+ */
+function startRecording(): void {
+  if (isRecording) return;
+
+  isRecording = true;
+  recordedScrollY = window.scrollY;
+  document.addEventListener('click', recordClick, true);
+  document.addEventListener('input', recordInput, true);
+  document.addEventListener('change', recordChange, true);
+  document.addEventListener('submit', recordSubmit, true);
+  window.addEventListener('scroll', recordScroll, { passive: true });
+  console.log('Ray Extension - Recording started');
+}
+
+/**
+ * Stop capturing user actions
+ */
+function stopRecording(): void {
+  if (!isRecording) return;
+
+  isRecording = false;
+  lastRecordedClick = null;
+  if (scrollTimer) {
+    clearTimeout(scrollTimer);
+    scrollTimer = null;
+  }
+  document.removeEventListener('click', recordClick, true);
+  document.removeEventListener('input', recordInput, true);
+  document.removeEventListener('change', recordChange, true);
+  document.removeEventListener('submit', recordSubmit, true);
+  window.removeEventListener('scroll', recordScroll);
+  console.log('Ray Extension - Recording stopped');
+}
+
+/**
+ * Send a recorded action to the background
+ */
+function sendRecordedAction(action: RecordedAction): void {
+  chrome.runtime.sendMessage({ type: 'record_step', action }).catch(error => {
+    console.error('Ray Extension - Failed to record action:', error);
+  });
+}
+
+function recordClick(event: Event): void {
+  // Synthetic events come from scripts, including replays of earlier recordings
+  if (!event.isTrusted || !(event.target instanceof Element)) return;
+
+  const element = event.target.closest(RECORDER_CLICK_TARGETS) || event.target;
+  // Focusing a field or opening a select is captured by the value it ends up with
+  if (isTextField(element) || element instanceof HTMLSelectElement) return;
+  // Clicking a label also clicks its control; replaying the label click is enough
+  if (lastRecordedClick instanceof HTMLLabelElement && lastRecordedClick.control === element) return;
+
+  lastRecordedClick = element;
+  sendRecordedAction({ command: { type: 'click', ...describeRecordedTarget(element) } });
+}
+
+function recordInput(event: Event): void {
+  if (!event.isTrusted || !isTextField(event.target)) return;
+
+  const field = event.target as HTMLInputElement | HTMLTextAreaElement;
+  const masked = isMaskedField(field);
+  sendRecordedAction({
+    command: {
+      type: 'type',
+      ...describeRecordedTarget(field),
+      text: masked ? '' : field.value,
+      clearFirst: true
+    },
+    masked
+  });
+}
+
+function recordChange(event: Event): void {
+  if (!event.isTrusted || !(event.target instanceof HTMLSelectElement)) return;
+
+  sendRecordedAction({
+    command: { type: 'fillForm', ...describeRecordedTarget(event.target), value: event.target.value }
+  });
+}
+
+/**
+ * Forms submitted with Enter have no click to replay, so record one on the submit button
+ */
+function recordSubmit(event: Event): void {
+  if (!event.isTrusted || !(event.target instanceof HTMLFormElement)) return;
+
+  const submitter = (event as SubmitEvent).submitter ||
+    event.target.querySelector('[type="submit"], button:not([type])');
+  if (!submitter || submitter === lastRecordedClick) return;
+
+  lastRecordedClick = submitter;
+  sendRecordedAction({ command: { type: 'click', ...describeRecordedTarget(submitter) } });
+}
+
+function recordScroll(): void {
+  if (scrollTimer) {
+    clearTimeout(scrollTimer);
+  }
+
+  scrollTimer = setTimeout(() => {
+    scrollTimer = null;
+    const delta = window.scrollY - recordedScrollY;
+    if (Math.abs(delta) < RECORDER_MIN_SCROLL) return;
+
+    recordedScrollY = window.scrollY;
+    sendRecordedAction({
+      command: { type: 'scroll', direction: delta > 0 ? 'down' : 'up', amount: Math.round(Math.abs(delta)) }
+    });
+  }, RECORDER_SCROLL_DEBOUNCE);
+}
+
+/**
+ * Selector for a recorded target, keeping every generated candidate as a replay fallback
+ * and a fingerprint to heal the selector with once none of them match
+ */
+function describeRecordedTarget(element: Element): {
+  selector: string;
+  fallbackSelectors: ElementSelector[];
+  fingerprint: ElementFingerprint;
+} {
+  return {
+    selector: getCssSelector(element),
+    // Text candidates of large containers are whole paragraphs and never match again
+    fallbackSelectors: domSelectors.generateSelector(element).filter(candidate =>
+      candidate.strategy !== 'text' || candidate.value.length <= RECORDER_MAX_TEXT_SELECTOR_LENGTH
+    ),
+    fingerprint: captureFingerprint(element)
+  };
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+}
+
+/**
+ * Password and one-time code fields are never captured
+ */
+function isMaskedField(field: HTMLInputElement | HTMLTextAreaElement): boolean {
+  const autocomplete = field.getAttribute('autocomplete') || '';
+  return (field instanceof HTMLInputElement && field.type === 'password') ||
+    /(current|new)-password|one-time-code/.test(autocomplete);
+}
+
+/**
+ * Find the element a command targets, preferring a snapshot ref over the selector
+ * Selectors reach into open shadow roots and same-origin frames
+ */
+function resolveTarget(command: AutomationCommand): Element | null {
+  if (command.ref !== undefined) {
+    return pageSnapshotter.resolveRef(command.ref);
+  }
+
+  return command.selector ? queryDeepSelector(command.selector) : null;
+}
+
+/**
+ * Find a command's target or fail with the reason
+ */
+function requireTarget(command: AutomationCommand): Element {
+  if (!command.selector && command.ref === undefined) {
+    throw new Error(`Selector or ref is required for ${command.type} command`);
+  }
+
+  const element = resolveTarget(command);
+  if (!element) {
+    throw new Error(`Element not found: ${describeTarget(command)}`);
+  }
+  return element;
+}
+
+/**
+ * Intent parameters of a command, including those the model passed as free-form options
+ */
+function getParameters(command: AutomationCommand): CommandParameters & Record<string, any> {
+  return { ...command.options, ...command.parameters };
+}
+
+/**
+ * Describe a command's target for results and error messages
+ */
+function describeTarget(command: AutomationCommand): string {
+  return command.ref !== undefined ? `ref=${command.ref}` : command.selector || '';
+}
+
+/**
+ * Build a compact description of an interactive element
+ */
+function describeElement(element: Element, maxTextLength: number): ObservedElement {
+  const text = (element.textContent || (element as HTMLInputElement).value || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, maxTextLength);
+
+  return {
+    selector: getCssSelector(element),
+    tag: element.tagName.toLowerCase(),
+    role: element.getAttribute('role') || undefined,
+    text: text || element.getAttribute('aria-label') || undefined,
+    type: element.getAttribute('type') || undefined,
+    name: element.getAttribute('name') || undefined,
+    placeholder: element.getAttribute('placeholder') || undefined,
+    href: element.getAttribute('href') || undefined
+  };
+}
+
+/**
+ * Get a CSS selector that commands can use with querySelector
+ */
+function getCssSelector(element: Element): string {
+  for (const selector of domSelectors.generateSelector(element)) {
+    if (selector.strategy === 'css') {
+      return selector.value;
+    }
+    if (selector.strategy === 'attribute' && selector.attribute) {
+      return `[${selector.attribute}="${CSS.escape(selector.value)}"]`;
+    }
+  }
+
+  // Fall back to a structural path
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    const tagName = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    const sameTagSiblings = parent
+      ? Array.from(parent.children).filter(child => child.tagName === current!.tagName)
+      : [];
+
+    parts.unshift(sameTagSiblings.length > 1
+      ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(current) + 1})`
+      : tagName);
+
+    current = parent;
+  }
+
+  return parts.join(' > ');
+}
+
 /**
  * Handle navigate command
  */
@@ -147,20 +696,20 @@ async function handleNavigate(command: AutomationCommand): Promise<any> {
  * Handle click command
  */
 async function handleClick(command: AutomationCommand): Promise<any> {
-  if (!command.selector) {
-    throw new Error('Selector is required for click command');
+  if (!command.selector && command.ref === undefined) {
+    throw new Error('Selector or ref is required for click command');
   }
 
-  const element = document.querySelector(command.selector);
+  const element = resolveTarget(command);
   if (!element) {
-    throw new Error(`Element not found: ${command.selector}`);
+    throw new Error(`Element not found: ${describeTarget(command)}`);
   }
 
   const htmlElement = element as HTMLElement;
   htmlElement.click();
 
   return {
-    selector: command.selector,
+    selector: describeTarget(command),
     clicked: true,
     tagName: element.tagName,
     textContent: element.textContent?.substring(0, 100)
@@ -171,17 +720,17 @@ async function handleClick(command: AutomationCommand): Promise<any> {
  * Handle fill command
  */
 async function handleFill(command: AutomationCommand): Promise<any> {
-  if (!command.selector) {
-    throw new Error('Selector is required for fill command');
+  if (!command.selector && command.ref === undefined) {
+    throw new Error('Selector or ref is required for fill command');
   }
 
   if (!command.value) {
     throw new Error('Value is required for fill command');
   }
 
-  const element = document.querySelector(command.selector) as HTMLInputElement | HTMLTextAreaElement;
+  const element = resolveTarget(command) as HTMLInputElement | HTMLTextAreaElement;
   if (!element) {
-    throw new Error(`Element not found: ${command.selector}`);
+    throw new Error(`Element not found: ${describeTarget(command)}`);
   }
 
   // Set value and trigger events
@@ -190,7 +739,7 @@ async function handleFill(command: AutomationCommand): Promise<any> {
   element.dispatchEvent(new Event('change', { bubbles: true }));
 
   return {
-    selector: command.selector,
+    selector: describeTarget(command),
     value: command.value,
     filled: true,
     tagName: element.tagName
@@ -201,13 +750,13 @@ async function handleFill(command: AutomationCommand): Promise<any> {
  * Handle scroll command
  */
 async function handleScroll(command: AutomationCommand): Promise<any> {
-  const selector = command.selector;
+  const selector = describeTarget(command);
   let element: Element | Window = window;
 
   if (selector) {
-    const foundElement = document.querySelector(selector);
+    const foundElement = resolveTarget(command);
     if (!foundElement) {
-      throw new Error(`Element not found: ${command.selector}`);
+      throw new Error(`Element not found: ${selector}`);
     }
     element = foundElement;
   }
@@ -229,8 +778,10 @@ async function handleScroll(command: AutomationCommand): Promise<any> {
  * Handle submit command
  */
 async function handleSubmit(command: AutomationCommand): Promise<any> {
-  const selector = command.selector || 'form';
-  const element = document.querySelector(selector) as HTMLFormElement;
+  const selector = describeTarget(command) || 'form';
+  const target = command.ref !== undefined ? resolveTarget(command) : queryDeepSelector(selector);
+  // A ref may point at a control inside the form
+  const element = (target instanceof HTMLFormElement ? target : target?.closest('form')) as HTMLFormElement;
 
   if (!element) {
     throw new Error(`Form not found: ${selector}`);
@@ -265,13 +816,18 @@ async function handleWait(command: AutomationCommand): Promise<any> {
  * Handle extract command
  */
 async function handleExtract(command: AutomationCommand): Promise<any> {
-  if (!command.selector) {
-    throw new Error('Selector is required for extract command');
+  const parameters = getParameters(command);
+  if (parameters.extractType === 'data') {
+    return extractTable(command, parameters);
   }
 
-  const element = document.querySelector(command.selector);
+  if (!command.selector && command.ref === undefined) {
+    throw new Error('Selector or ref is required for extract command');
+  }
+
+  const element = resolveTarget(command);
   if (!element) {
-    throw new Error(`Element not found: ${command.selector}`);
+    throw new Error(`Element not found: ${describeTarget(command)}`);
   }
 
   const extracted = {
@@ -287,12 +843,511 @@ async function handleExtract(command: AutomationCommand): Promise<any> {
   };
 
   return {
-    selector: command.selector,
+    selector: describeTarget(command),
     extracted,
     success: true
   };
 }
 
+/**
+ * Extract the repeated records on the page as a table, within the selected element when given
+ */
+function extractTable(command: AutomationCommand, parameters: CommandParameters & Record<string, any>): any {
+  const { schema, rows } = dataExtractor.extractPage({
+    selector: command.selector,
+    recordSelector: parameters.recordSelector,
+    columns: parameters.columns,
+  });
+  const table = { columns: schema.columns.map(column => column.name), rows };
+  const format = parameters.outputFormat === 'text' ? undefined : parameters.outputFormat;
+
+  return {
+    selector: describeTarget(command),
+    extracted: { ...table, schema, url: window.location.href },
+    output: format ? formatTable(table, format) : undefined,
+    success: true
+  };
+}
+
+/**
+ * Handle hover command
+ */
+async function handleHover(command: AutomationCommand): Promise<any> {
+  const element = requireTarget(command);
+  element.scrollIntoView({ block: 'center' });
+
+  const point = getCenter(element);
+  for (const type of ['pointerover', 'pointerenter', 'mouseover', 'mouseenter', 'pointermove', 'mousemove']) {
+    dispatchPointerEvent(element, type, point);
+  }
+
+  return {
+    selector: describeTarget(command),
+    hovered: true,
+    tagName: element.tagName
+  };
+}
+
+/**
+ * Handle drag command, firing both HTML drag-and-drop and pointer events
+ * since drag libraries listen for one or the other
+ */
+async function handleDrag(command: AutomationCommand): Promise<any> {
+  const source = requireTarget(command);
+  const parameters = getParameters(command);
+
+  const target = parameters.targetRef !== undefined
+    ? pageSnapshotter.resolveRef(parameters.targetRef)
+    : parameters.targetSelector ? queryDeepSelector(parameters.targetSelector) : null;
+  if (!target) {
+    throw new Error(parameters.targetSelector || parameters.targetRef !== undefined
+      ? `Drop target not found: ${parameters.targetSelector ?? `ref=${parameters.targetRef}`}`
+      : 'Target selector or ref is required for drag command');
+  }
+
+  source.scrollIntoView({ block: 'center' });
+  const from = getCenter(source);
+  const to = getCenter(target);
+  const dataTransfer = new DataTransfer();
+
+  dispatchPointerEvent(source, 'pointerdown', from);
+  dispatchPointerEvent(source, 'mousedown', from);
+  source.dispatchEvent(new DragEvent('dragstart', { bubbles: true, cancelable: true, dataTransfer, ...from }));
+
+  dispatchPointerEvent(target, 'pointermove', to);
+  dispatchPointerEvent(target, 'mousemove', to);
+  target.dispatchEvent(new DragEvent('dragenter', { bubbles: true, cancelable: true, dataTransfer, ...to }));
+  target.dispatchEvent(new DragEvent('dragover', { bubbles: true, cancelable: true, dataTransfer, ...to }));
+  const drop = new DragEvent('drop', { bubbles: true, cancelable: true, dataTransfer, ...to });
+  target.dispatchEvent(drop);
+
+  dispatchPointerEvent(target, 'pointerup', to);
+  dispatchPointerEvent(target, 'mouseup', to);
+  source.dispatchEvent(new DragEvent('dragend', { bubbles: true, dataTransfer, ...to }));
+
+  return {
+    selector: describeTarget(command),
+    target: parameters.targetSelector ?? `ref=${parameters.targetRef}`,
+    dragged: true,
+    // A drop handler cancels the event when it accepts the drop
+    accepted: drop.defaultPrevented
+  };
+}
+
+/**
+ * Handle upload command
+ * Web pages cannot read local paths, so files come as content or from a URL (including data: URLs)
+ */
+async function handleUpload(command: AutomationCommand): Promise<any> {
+  const input = requireTarget(command);
+  if (!(input instanceof HTMLInputElement) || input.type !== 'file') {
+    throw new Error(`Element is not a file input: ${describeTarget(command)}`);
+  }
+
+  const files = await loadUploadFiles(getParameters(command));
+  if (files.length > 1 && !input.multiple) {
+    throw new Error(`File input accepts a single file: ${describeTarget(command)}`);
+  }
+
+  const dataTransfer = new DataTransfer();
+  files.forEach(file => dataTransfer.items.add(file));
+  input.files = dataTransfer.files;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+
+  return {
+    selector: describeTarget(command),
+    uploaded: true,
+    files: files.map(file => ({ name: file.name, size: file.size, type: file.type }))
+  };
+}
+
+/**
+ * Files for an upload command, from `files` or from fileName with content or filePath
+ */
+async function loadUploadFiles(parameters: CommandParameters & Record<string, any>): Promise<File[]> {
+  const sources: Array<{ name?: string; content?: string; url?: string; type?: string }> =
+    parameters.files ?? [{ name: parameters.fileName, content: parameters.content, url: parameters.filePath, type: parameters.mimeType }];
+
+  return Promise.all(sources.map(async source => {
+    const name = source.name || source.url?.split(/[/?#]/).filter(Boolean).pop() || 'upload';
+
+    if (source.content !== undefined) {
+      return new File([source.content], name, { type: source.type || 'text/plain' });
+    }
+
+    if (source.url && /^(https?|data|blob):/.test(source.url)) {
+      const response = await fetch(source.url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch file for upload: ${source.url} (${response.status})`);
+      }
+      const blob = await response.blob();
+      return new File([blob], name, { type: source.type || blob.type });
+    }
+
+    throw new Error('File content or a URL is required for upload command; local paths cannot be read from a web page');
+  }));
+}
+
+/**
+ * Handle download command, tracking the download through the background
+ */
+async function handleDownload(command: AutomationCommand): Promise<any> {
+  const parameters = getParameters(command);
+  const timeout = parameters.timeout ?? command.timeout;
+  let url = parameters.url ?? command.url;
+  let response: any;
+
+  if (!url && !command.selector && command.ref === undefined) {
+    throw new Error('URL, selector or ref is required for download command');
+  }
+
+  if (!url) {
+    const element = requireTarget(command);
+    const link = element.closest('a[href]') as HTMLAnchorElement | null;
+
+    if (link && !link.href.startsWith('javascript:')) {
+      url = link.href;
+    } else {
+      // The page starts the download itself; follow the first one that appears after the click
+      const startedAfter = new Date().toISOString();
+      (element as HTMLElement).click();
+      response = await chrome.runtime.sendMessage({ type: 'track_download', startedAfter, timeout });
+    }
+  }
+
+  if (url) {
+    response = await chrome.runtime.sendMessage({
+      type: 'start_download',
+      url: new URL(url, window.location.href).href,
+      filename: parameters.fileName,
+      timeout
+    });
+  }
+
+  if (!response?.success) {
+    throw new Error(response?.error || 'Download failed');
+  }
+  if (response.download.state === 'interrupted') {
+    throw new Error(`Download interrupted: ${response.download.error || response.download.url}`);
+  }
+
+  return {
+    selector: describeTarget(command) || undefined,
+    download: response.download
+  };
+}
+
+/**
+ * Handle select command, matching options by value, then by label
+ * Multiple selects take a comma-separated list
+ */
+async function handleSelect(command: AutomationCommand): Promise<any> {
+  const element = requireTarget(command);
+  if (!(element instanceof HTMLSelectElement)) {
+    throw new Error(`Element is not a select: ${describeTarget(command)}`);
+  }
+
+  const value = command.value ?? getParameters(command).value;
+  if (!value) {
+    throw new Error('Value is required for select command');
+  }
+
+  const options = Array.from(element.options);
+  const wanted = element.multiple ? value.split(',').map(part => part.trim()).filter(Boolean) : [value];
+  const selected = wanted.map(label => {
+    const option = findOption(options, label);
+    if (!option) {
+      throw new Error(`Option not found: ${label}`);
+    }
+    return option;
+  });
+
+  options.forEach(option => {
+    option.selected = selected.includes(option);
+  });
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+
+  return {
+    selector: describeTarget(command),
+    selected: selected.map(option => ({ value: option.value, label: option.label }))
+  };
+}
+
+function findOption(options: HTMLOptionElement[], wanted: string): HTMLOptionElement | undefined {
+  const label = normalizeText(wanted).toLowerCase();
+
+  return options.find(option => option.value === wanted) ||
+    options.find(option => normalizeText(option.label).toLowerCase() === label) ||
+    options.find(option => normalizeText(option.label).toLowerCase().includes(label));
+}
+
+/**
+ * Handle search command: search the current site, or go to a search engine
+ * when one is named or the page has no search box
+ */
+async function handleSearch(command: AutomationCommand): Promise<any> {
+  const parameters = getParameters(command);
+  const query = parameters.query ?? command.value;
+  if (!query) {
+    throw new Error('Query is required for search command');
+  }
+
+  const engine = parameters.searchEngine;
+  const input = engine && engine !== 'custom'
+    ? null
+    : command.selector || command.ref !== undefined ? requireTarget(command) : findSearchInput();
+
+  if (!input) {
+    if (engine === 'custom') {
+      throw new Error('Search input not found');
+    }
+
+    const url = SEARCH_ENGINE_URLS[engine || 'google'] + encodeURIComponent(query);
+    window.location.href = url;
+    return { query, engine: engine || 'google', url, navigated: true };
+  }
+
+  setFieldValue(input as HTMLInputElement, query);
+  submitFrom(input as HTMLInputElement);
+
+  return {
+    selector: command.selector ? describeTarget(command) : getCssSelector(input),
+    query,
+    submitted: true
+  };
+}
+
+function findSearchInput(): Element | null {
+  for (const selector of SEARCH_INPUT_SELECTORS) {
+    const input = Array.from(document.querySelectorAll(selector)).find(isVisible);
+    if (input) {
+      return input;
+    }
+  }
+  return null;
+}
+
+/**
+ * Handle login command
+ * Fills and submits the login form when credentials are given; otherwise opens the login
+ * form, or focuses it so the user can enter credentials themselves
+ */
+async function handleLogin(command: AutomationCommand): Promise<any> {
+  const parameters = getParameters(command);
+  const url = parameters.url ?? command.url;
+
+  if (url && !window.location.href.startsWith(new URL(url, window.location.href).href)) {
+    window.location.href = url;
+    return { url, navigated: true };
+  }
+
+  const target = command.selector || command.ref !== undefined ? requireTarget(command) : null;
+  const scope: ParentNode = target
+    ? (target instanceof HTMLFormElement ? target : target.closest('form') || target)
+    : document;
+  const password = Array.from(scope.querySelectorAll<HTMLInputElement>('input[type="password"]')).find(isVisible);
+
+  if (!password) {
+    const control = findControlByText(LOGIN_CONTROL_PATTERN);
+    if (!control) {
+      throw new Error('Login form not found');
+    }
+    (control as HTMLElement).click();
+    return { opened: true, control: getCssSelector(control) };
+  }
+
+  const form = password.form;
+  const username = findUsernameField(form || scope);
+  if (!parameters.username && !parameters.password) {
+    (username || password).focus();
+    return { form: form ? getCssSelector(form) : undefined, awaitingCredentials: true };
+  }
+
+  if (parameters.username) {
+    if (!username) {
+      throw new Error('Username field not found');
+    }
+    setFieldValue(username, parameters.username);
+  }
+  if (parameters.password) {
+    setFieldValue(password, parameters.password);
+  }
+  submitFrom(password);
+
+  return { form: form ? getCssSelector(form) : undefined, submitted: true };
+}
+
+function findUsernameField(scope: ParentNode): HTMLInputElement | undefined {
+  const fields = Array.from(scope.querySelectorAll<HTMLInputElement>('input'))
+    .filter(field => ['text', 'email', 'tel', ''].includes(field.type) && isVisible(field));
+
+  return fields.find(field => field.autocomplete === 'username') ||
+    fields.find(field => /user|email|login/i.test(`${field.name} ${field.id} ${field.type}`)) ||
+    fields[0];
+}
+
+/**
+ * Handle logout command
+ */
+async function handleLogout(command: AutomationCommand): Promise<any> {
+  const control = command.selector || command.ref !== undefined
+    ? requireTarget(command)
+    : findControlByText(LOGOUT_CONTROL_PATTERN);
+  if (!control) {
+    throw new Error('Logout control not found');
+  }
+
+  (control as HTMLElement).click();
+
+  return {
+    selector: command.selector ? describeTarget(command) : getCssSelector(control),
+    clicked: true
+  };
+}
+
+function findControlByText(pattern: RegExp): Element | undefined {
+  return Array.from(document.querySelectorAll(TEXT_CONTROLS)).find(element => {
+    const text = normalizeText(element.textContent || (element as HTMLInputElement).value || element.getAttribute('aria-label'));
+    return pattern.test(text) && isVisible(element);
+  });
+}
+
+/**
+ * Handle screenshot command
+ * The background captures the visible tab; elements, regions and full pages are
+ * stitched together here from captures taken while scrolling
+ */
+async function handleScreenshot(command: AutomationCommand): Promise<any> {
+  const parameters = getParameters(command);
+  const format = parameters.format === 'jpeg' ? 'jpeg' : 'png';
+  let area = parameters.region;
+
+  if (command.selector || command.ref !== undefined) {
+    const rect = requireTarget(command).getBoundingClientRect();
+    area = { x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height };
+  } else if (parameters.fullPage) {
+    area = { x: 0, y: 0, width: window.innerWidth, height: document.documentElement.scrollHeight };
+  }
+
+  if (!area) {
+    const dataUrl = await captureVisibleTab(format);
+    const scale = window.devicePixelRatio || 1;
+    return { dataUrl, format, width: Math.round(window.innerWidth * scale), height: Math.round(window.innerHeight * scale) };
+  }
+
+  return { ...(await captureArea(area, format)), format };
+}
+
+async function captureVisibleTab(format: 'png' | 'jpeg'): Promise<string> {
+  const response = await chrome.runtime.sendMessage({ type: 'capture_screenshot', format });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to capture screenshot');
+  }
+  return response.dataUrl;
+}
+
+/**
+ * Capture an area of the page in document coordinates, one viewport at a time
+ */
+async function captureArea(
+  area: { x: number; y: number; width: number; height: number },
+  format: 'png' | 'jpeg'
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  const scale = window.devicePixelRatio || 1;
+  const width = Math.min(area.width, window.innerWidth);
+  const height = Math.min(area.height, SCREENSHOT_MAX_HEIGHT / scale);
+  if (width <= 0 || height <= 0) {
+    throw new Error('Nothing to capture: the area is empty');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d')!;
+
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+
+  try {
+    for (let offset = 0; offset < height; offset += window.innerHeight) {
+      if (offset > 0) {
+        await new Promise(resolve => setTimeout(resolve, SCREENSHOT_CAPTURE_INTERVAL));
+      }
+
+      window.scrollTo(area.x, area.y + offset);
+      await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+      const image = await loadImage(await captureVisibleTab(format));
+      const slice = Math.min(window.innerHeight, height - offset);
+      // The last scroll may stop short of the requested position at the bottom of the page
+      context.drawImage(
+        image,
+        (area.x - window.scrollX) * scale, (area.y + offset - window.scrollY) * scale, width * scale, slice * scale,
+        0, offset * scale, width * scale, slice * scale
+      );
+    }
+  } finally {
+    window.scrollTo(scrollX, scrollY);
+  }
+
+  return { dataUrl: canvas.toDataURL(`image/${format}`), width: canvas.width, height: canvas.height };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load captured screenshot'));
+    image.src = src;
+  });
+}
+
+/**
+ * Set a form field's value the way typing would, so frameworks see the change
+ */
+function setFieldValue(field: HTMLInputElement | HTMLTextAreaElement, value: string): void {
+  field.focus();
+  field.value = value;
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+  field.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Submit the form a field belongs to, or press Enter in it when there is none
+ */
+function submitFrom(field: HTMLInputElement): void {
+  if (field.form) {
+    field.form.requestSubmit();
+    return;
+  }
+
+  for (const type of ['keydown', 'keypress', 'keyup']) {
+    field.dispatchEvent(new KeyboardEvent(type, { key: 'Enter', code: 'Enter', keyCode: 13, bubbles: true, cancelable: true }));
+  }
+}
+
+function getCenter(element: Element): { clientX: number; clientY: number } {
+  const rect = element.getBoundingClientRect();
+  return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+}
+
+function dispatchPointerEvent(element: Element, type: string, point: { clientX: number; clientY: number }): void {
+  // enter and leave events do not bubble
+  const init = { ...point, bubbles: !type.endsWith('enter'), cancelable: true, view: window, button: 0 };
+  element.dispatchEvent(type.startsWith('pointer') ? new PointerEvent(type, { ...init, pointerType: 'mouse' }) : new MouseEvent(type, init));
+}
+
+function isVisible(element: Element): boolean {
+  const style = window.getComputedStyle(element);
+  return style.display !== 'none' && style.visibility !== 'hidden' && element.getClientRects().length > 0;
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
 /**
  * Inject Ray utilities into the page context
  */
@@ -3,6 +3,8 @@
  * Handles user command input, validation, and keyboard shortcuts
  */
 
+import type { ClarificationPrompt } from '../../../lib/shared/contracts';
+
 export interface CommandInputOptions {
   maxLength?: number;
   placeholder?: string;
@@ -13,6 +15,7 @@ export interface CommandInputOptions {
 
 export interface CommandInputEvents {
   execute: (command: string) => void;
+  answer: (requestId: string, answer: string) => void;
   change: (command: string) => void;
   focus: () => void;
   blur: () => void;
@@ -28,6 +31,8 @@ export class CommandInput {
   private commandHistory: string[] = [];
   private historyIndex = -1;
   private autoSaveTimer: number | null = null;
+  private clarification: ClarificationPrompt | null = null;
+  private clarificationContainer: HTMLElement | null = null;
   private suggestions: string[] = [
     'Navigate to Google and search for AI browser extensions',
     'Fill out the contact form with my information',
@@ -374,6 +379,12 @@ export class CommandInput {
       return;
     }
 
+    // While a question is open, the input is the answer rather than a new command
+    if (this.clarification) {
+      this.submitAnswer(command);
+      return;
+    }
+
     // Add to history
     this.addToHistory(command);
 
@@ -389,6 +400,75 @@ export class CommandInput {
     this.clear();
   }
 
+  /**
+   * Show a clarifying question with suggested answers as chips
+   * The next submitted text (or a clicked chip) is sent as the answer
+   */
+  public showClarification(clarification: ClarificationPrompt): void {
+    this.clarification = clarification;
+
+    if (!this.clarificationContainer) {
+      this.clarificationContainer = document.createElement('div');
+      this.clarificationContainer.className = 'clarification-container';
+      this.clarificationContainer.setAttribute('role', 'status');
+      this.textarea.parentNode?.insertBefore(this.clarificationContainer, this.textarea);
+    }
+
+    this.clarificationContainer.innerHTML = '';
+
+    const question = document.createElement('p');
+    question.className = 'clarification-question';
+    question.textContent = clarification.question;
+    this.clarificationContainer.appendChild(question);
+
+    if (clarification.answers.length > 0) {
+      const answers = document.createElement('div');
+      answers.className = 'clarification-answers';
+
+      clarification.answers.forEach(answer => {
+        const chip = document.createElement('button');
+        chip.type = 'button';
+        chip.className = 'clarification-chip';
+        chip.textContent = answer;
+        chip.addEventListener('click', () => this.submitAnswer(answer));
+        answers.appendChild(chip);
+      });
+
+      this.clarificationContainer.appendChild(answers);
+    }
+
+    this.clarificationContainer.hidden = false;
+    this.hideSuggestions();
+    this.textarea.placeholder = 'Type your answer...';
+    this.textarea.focus();
+  }
+
+  /**
+   * Leave clarification mode, e.g. when the request is cancelled
+   */
+  public clearClarification(): void {
+    this.clarification = null;
+    this.textarea.placeholder = this.options.placeholder;
+
+    if (this.clarificationContainer) {
+      this.clarificationContainer.hidden = true;
+      this.clarificationContainer.innerHTML = '';
+    }
+  }
+
+  public isAwaitingAnswer(): boolean {
+    return this.clarification !== null;
+  }
+
+  private submitAnswer(answer: string): void {
+    if (!this.clarification) return;
+
+    const { requestId } = this.clarification;
+    this.clearClarification();
+    this.events.answer?.(requestId, answer);
+    this.clear();
+  }
+
   public clear(): void {
     this.textarea.value = '';
     this.updateCharCount();
@@ -440,5 +520,7 @@ export class CommandInput {
     if (suggestionsContainer) {
       suggestionsContainer.remove();
     }
+
+    this.clarificationContainer?.remove();
   }
 }
@@ -3,13 +3,14 @@
  * Displays real-time progress, status updates, and step-by-step execution tracking
  */
 
-export type StatusType = 'idle' | 'processing' | 'success' | 'error';
+export type StatusType = 'idle' | 'processing' | 'waiting' | 'success' | 'error';
 
 export interface StatusUpdate {
   status: StatusType;
   message: string;
   progress?: number;
   currentStep?: string;
+  plan?: string[];
   timestamp?: number;
 }
 
@@ -127,6 +128,10 @@ export class ExecutionStatus {
       this.updateProgress(statusUpdate.progress);
     }
 
+    if (statusUpdate.plan && this.options.showSteps) {
+      this.updatePlan(statusUpdate.plan);
+    }
+
     if (statusUpdate.currentStep && this.options.showSteps) {
       this.updateCurrentStep(statusUpdate.currentStep);
     }
@@ -145,7 +150,7 @@ export class ExecutionStatus {
 
   private updateStatusIcon(status: StatusType): void {
     // Remove all status classes
-    this.statusIcon.classList.remove('idle', 'processing', 'success', 'error');
+    this.statusIcon.classList.remove('idle', 'processing', 'waiting', 'success', 'error');
 
     // Add current status class
     this.statusIcon.classList.add(status);
@@ -169,6 +174,15 @@ export class ExecutionStatus {
           </svg>
         `;
         break;
+      case 'waiting':
+        this.statusIcon.innerHTML = `
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="12" cy="12" r="10"></circle>
+            <path d="M9.09 9a3 3 0 015.83 1c0 2-3 3-3 3"></path>
+            <line x1="12" y1="17" x2="12.01" y2="17"></line>
+          </svg>
+        `;
+        break;
       case 'success':
         this.statusIcon.innerHTML = `
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -291,6 +305,20 @@ export class ExecutionStatus {
     });
   }
 
+  public updatePlan(stepNames: string[]): void {
+    // Steps arrive incrementally while the model is still planning
+    stepNames.slice(0, this.options.maxSteps).forEach((stepName, index) => {
+      const existingStep = this.executionSteps[index];
+      if (existingStep) {
+        existingStep.name = stepName;
+      } else {
+        this.addExecutionStep(stepName);
+      }
+    });
+
+    this.stepDetails.hidden = false;
+  }
+
   public updateExecutionProgress(progress: number, message?: string, currentStep?: string): void {
     this.updateStatus({
       status: 'processing',
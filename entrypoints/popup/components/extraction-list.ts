@@ -0,0 +1,157 @@
+/**
+ * Extraction List Component
+ * Lists the latest extracted tables and downloads them as JSON, CSV or Markdown
+ */
+
+import type { ExtractionRecord, TableFormat } from '../../../lib/automation-types';
+import { TABLE_FORMATS, formatTable, getTableFile } from '../../../lib/table-export';
+
+const FORMAT_LABELS: Record<TableFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+};
+
+export class ExtractionList {
+  private container: HTMLElement;
+  private section: HTMLElement;
+
+  constructor(containerId: string) {
+    this.container = document.getElementById(containerId) as HTMLElement;
+
+    if (!this.container) {
+      throw new Error('Required DOM elements not found');
+    }
+
+    this.section = document.createElement('div');
+
+    // Initialize the component
+    this.init();
+  }
+
+  private init(): void {
+    this.render();
+    this.loadExtractions();
+  }
+
+  private render(): void {
+    this.section.className = 'extraction-section';
+    this.section.innerHTML = `
+      <h3 class="extraction-title">Extracted data</h3>
+      <ul class="extraction-list"></ul>
+      <div class="extraction-message" hidden></div>
+    `;
+
+    this.container.appendChild(this.section);
+  }
+
+  public async loadExtractions(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_extractions' });
+      if (response?.success) {
+        this.updateList(response.extractions);
+      }
+    } catch (error) {
+      console.error('Failed to load extractions:', error);
+    }
+  }
+
+  private updateList(extractions: ExtractionRecord[]): void {
+    const list = this.section.querySelector('.extraction-list');
+    if (!list) return;
+
+    list.innerHTML = '';
+    if (extractions.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'extraction-empty';
+      empty.textContent = 'No extracted data yet';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const extraction of extractions) {
+      list.appendChild(this.renderItem(extraction));
+    }
+  }
+
+  private renderItem(extraction: ExtractionRecord): HTMLElement {
+    // Names, columns and URLs come from page content, so never render them as HTML
+    const item = document.createElement('li');
+    item.className = 'extraction-item';
+
+    const header = document.createElement('div');
+    header.className = 'extraction-item-header';
+
+    const name = document.createElement('span');
+    name.className = 'extraction-item-name';
+    name.textContent = extraction.name;
+    name.title = extraction.table.url;
+
+    header.append(
+      name,
+      ...TABLE_FORMATS.map(format => this.createButton(FORMAT_LABELS[format], () => this.download(extraction, format))),
+      this.createButton('Delete', () => this.deleteExtraction(extraction))
+    );
+
+    const { table } = extraction;
+    const summary = document.createElement('div');
+    summary.className = 'extraction-item-summary';
+    summary.textContent = `${table.rows.length} row${table.rows.length === 1 ? '' : 's'} from ` +
+      `${table.pages} page${table.pages === 1 ? '' : 's'}, ${this.formatTime(table.extractedAt)}`;
+    summary.title = table.columns.join(', ');
+
+    item.append(header, summary);
+    return item;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'btn btn-ghost';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+  }
+
+  private download(extraction: ExtractionRecord, format: TableFormat): void {
+    const { fileName, mimeType } = getTableFile(extraction.name, format);
+    const url = URL.createObjectURL(new Blob([formatTable(extraction.table, format)], { type: mimeType }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private async deleteExtraction(extraction: ExtractionRecord): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'delete_extraction', extractionId: extraction.id });
+      if (!response?.success) {
+        this.showMessage(`Failed to delete extraction: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.updateList(response.extractions);
+    } catch (error) {
+      this.showMessage(`Failed to delete extraction: ${error}`, 'error');
+    }
+  }
+
+  private showMessage(message: string, type: 'success' | 'error'): void {
+    const messageElement = this.section.querySelector('.extraction-message') as HTMLElement | null;
+    if (!messageElement) return;
+
+    messageElement.textContent = message;
+    messageElement.className = `extraction-message message message-${type}`;
+    messageElement.hidden = false;
+
+    setTimeout(() => {
+      messageElement.hidden = true;
+    }, 5000);
+  }
+}
@@ -1,8 +1,13 @@
 /**
  * Settings Panel Component
- * Handles extension settings, API key management, and user preferences
+ * Handles extension settings, API key management, spend limits, command macros, input backends, and user preferences
  */
 
+import type { CommandMacro, MacroLibrary } from '../../../lib/commands/types';
+import type { SpendCap, SpendLimits, SpendRollup, SpendSummary } from '../../../lib/openrouter/types';
+import { formatCost } from '../../../lib/openrouter/pricing';
+import type { InputBackend } from '../../../lib/automation-types';
+
 export interface ExtensionSettings {
   apiKey?: string;
   theme: 'system' | 'light' | 'dark';
@@ -16,6 +21,8 @@ export interface SettingsPanelEvents {
   settingsChange: (settings: ExtensionSettings) => void;
   apiKeyChange: (apiKey: string) => void;
   themeChange: (theme: 'system' | 'light' | 'dark') => void;
+  spendLimitsChange: (limits: SpendLimits) => void;
+  macrosChange: (macros: CommandMacro[]) => void;
   panelShow: () => void;
   panelHide: () => void;
 }
@@ -37,6 +44,12 @@ export class SettingsPanel {
   private themeSelect: HTMLSelectElement;
   private notificationsCheckbox: HTMLInputElement;
   private timeoutInput: HTMLInputElement;
+  private spendSection: HTMLElement | null = null;
+  private macroSection: HTMLElement | null = null;
+  private inputSection: HTMLElement | null = null;
+  private inputOrigin: string | null = null;
+  private macros: CommandMacro[] = [];
+  private editingMacroId: string | null = null;
   private settings: ExtensionSettings;
   private events: Partial<SettingsPanelEvents>;
   private isVisible = false;
@@ -95,6 +108,15 @@ export class SettingsPanel {
     // Set up event listeners
     this.setupEventListeners();
 
+    // Show spend against the configured limits
+    this.renderSpendSection();
+
+    // List and edit command macros
+    this.renderMacroSection();
+
+    // Choose how clicks and typing reach the current site
+    this.renderInputSection();
+
     // Apply initial settings
     this.applySettings();
 
@@ -329,6 +351,469 @@ export class SettingsPanel {
     }, 5000);
   }
 
+  /**
+   * Build the spend section: usage bars for today and this month plus limit inputs
+   */
+  private renderSpendSection(): void {
+    this.spendSection = document.createElement('div');
+    this.spendSection.className = 'spend-section';
+
+    const capInput = (period: keyof SpendLimits, cap: keyof SpendCap, label: string) => `
+      <label class="spend-limit">
+        <span>${label}</span>
+        <input type="number" min="0" step="0.01" placeholder="No limit" data-period="${period}" data-cap="${cap}">
+      </label>
+    `;
+
+    this.spendSection.innerHTML = `
+      <h3 class="spend-title">Spend</h3>
+      <div class="spend-usage" data-period="daily"></div>
+      <div class="spend-usage" data-period="monthly"></div>
+      <div class="spend-limits">
+        ${capInput('daily', 'soft', 'Daily warning ($)')}
+        ${capInput('daily', 'hard', 'Daily limit ($)')}
+        ${capInput('monthly', 'soft', 'Monthly warning ($)')}
+        ${capInput('monthly', 'hard', 'Monthly limit ($)')}
+      </div>
+      <button type="button" class="btn btn-secondary spend-save">Save limits</button>
+      <div class="spend-message" hidden></div>
+    `;
+
+    this.spendSection.querySelector('.spend-save')?.addEventListener('click', () => this.saveSpendLimits());
+    this.panel.appendChild(this.spendSection);
+  }
+
+  private async loadSpendSummary(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_spend_summary' });
+      if (response?.success) {
+        this.updateSpendUI(response.summary);
+      }
+    } catch (error) {
+      console.error('Failed to load spend summary:', error);
+    }
+  }
+
+  private updateSpendUI(summary: SpendSummary): void {
+    if (!this.spendSection) return;
+
+    const periods: Array<[keyof SpendLimits, string, SpendRollup]> = [
+      ['daily', 'Today', summary.daily],
+      ['monthly', 'This month', summary.monthly],
+    ];
+
+    for (const [period, label, rollup] of periods) {
+      const usage = this.spendSection.querySelector(`.spend-usage[data-period="${period}"]`) as HTMLElement;
+      const cap = summary.limits[period];
+      const limit = cap.hard ?? cap.soft;
+      const ratio = limit ? Math.min(rollup.cost / limit, 1) : 0;
+      const state = cap.hard !== undefined && rollup.cost >= cap.hard
+        ? 'over'
+        : cap.soft !== undefined && rollup.cost >= cap.soft ? 'warning' : 'ok';
+
+      usage.innerHTML = `
+        <div class="spend-row">
+          <span>${label}</span>
+          <span class="spend-amount">${formatCost(rollup.cost)}${limit ? ` / ${formatCost(limit)}` : ''}</span>
+        </div>
+        <div class="spend-bar"><div class="spend-bar-fill ${state}" style="width: ${Math.round(ratio * 100)}%"></div></div>
+        <div class="spend-detail">${rollup.requests} requests, ${(rollup.promptTokens + rollup.completionTokens).toLocaleString()} tokens</div>
+      `;
+
+      for (const capName of ['soft', 'hard'] as Array<keyof SpendCap>) {
+        const input = this.spendSection.querySelector(
+          `input[data-period="${period}"][data-cap="${capName}"]`
+        ) as HTMLInputElement;
+        input.value = cap[capName] !== undefined ? String(cap[capName]) : '';
+      }
+    }
+  }
+
+  private async saveSpendLimits(): Promise<void> {
+    if (!this.spendSection) return;
+
+    const limits: SpendLimits = { daily: {}, monthly: {} };
+    const inputs = this.spendSection.querySelectorAll('input[data-period]') as NodeListOf<HTMLInputElement>;
+
+    for (const input of Array.from(inputs)) {
+      const period = input.dataset.period as keyof SpendLimits;
+      const cap = input.dataset.cap as keyof SpendCap;
+      const value = input.value.trim() === '' ? undefined : parseFloat(input.value);
+
+      if (value !== undefined && (isNaN(value) || value < 0)) {
+        this.showSpendMessage('Limits must be positive amounts', 'error');
+        return;
+      }
+      limits[period][cap] = value;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'update_spend_limits', limits });
+      if (!response?.success) {
+        this.showSpendMessage(`Failed to save limits: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.updateSpendUI(response.summary);
+      this.showSpendMessage('Spend limits saved', 'success');
+      this.events.spendLimitsChange?.(limits);
+    } catch (error) {
+      this.showSpendMessage(`Failed to save limits: ${error}`, 'error');
+    }
+  }
+
+  private showSpendMessage(message: string, type: 'success' | 'error'): void {
+    const messageElement = this.spendSection?.querySelector('.spend-message') as HTMLElement | null;
+    if (!messageElement) return;
+
+    messageElement.textContent = message;
+    messageElement.className = `spend-message message message-${type}`;
+    messageElement.hidden = false;
+
+    setTimeout(() => {
+      messageElement.hidden = true;
+    }, 5000);
+  }
+
+  /**
+   * Build the input section: the input backend used on the current tab's site
+   */
+  private renderInputSection(): void {
+    this.inputSection = document.createElement('div');
+    this.inputSection.className = 'input-section';
+    this.inputSection.innerHTML = `
+      <h3 class="input-title">Input</h3>
+      <label class="input-backend">
+        <span class="input-origin">This site</span>
+        <select class="input-backend-select" disabled>
+          <option value="auto">Automatic</option>
+          <option value="synthetic">Synthetic events only</option>
+          <option value="debugger">Trusted input (debugger)</option>
+        </select>
+      </label>
+      <div class="input-detail">Trusted input works on sites that ignore synthetic events, and shows a debugging banner while it runs</div>
+      <div class="input-message" hidden></div>
+    `;
+
+    const select = this.inputSection.querySelector('.input-backend-select') as HTMLSelectElement;
+    select.addEventListener('change', () => this.saveInputBackend(select));
+    this.panel.appendChild(this.inputSection);
+  }
+
+  private async loadInputBackend(): Promise<void> {
+    const select = this.inputSection?.querySelector('.input-backend-select') as HTMLSelectElement | null;
+    const label = this.inputSection?.querySelector('.input-origin') as HTMLElement | null;
+    if (!select || !label) return;
+
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const url = tab?.url ? new URL(tab.url) : null;
+      this.inputOrigin = url && (url.protocol === 'http:' || url.protocol === 'https:') ? url.origin : null;
+      label.textContent = this.inputOrigin ? url!.host : 'This site';
+      select.disabled = !this.inputOrigin;
+      if (!this.inputOrigin) return;
+
+      const response = await chrome.runtime.sendMessage({ type: 'get_input_backend', url: this.inputOrigin });
+      if (response?.success) {
+        select.value = response.backend;
+        select.dataset.saved = response.backend;
+      }
+    } catch (error) {
+      console.error('Failed to load input backend:', error);
+    }
+  }
+
+  private async saveInputBackend(select: HTMLSelectElement): Promise<void> {
+    if (!this.inputOrigin) return;
+
+    const backend = select.value as InputBackend;
+    const revert = () => {
+      select.value = select.dataset.saved || 'auto';
+    };
+
+    try {
+      // Trusted input needs the optional debugger permission, asked for the first time it is chosen
+      if (backend !== 'synthetic') {
+        const granted = await chrome.permissions.request({ permissions: ['debugger'] });
+        if (!granted) {
+          revert();
+          this.showInputMessage('Trusted input needs the debugger permission', 'error');
+          return;
+        }
+      }
+
+      const response = await chrome.runtime.sendMessage({ type: 'set_input_backend', origin: this.inputOrigin, backend });
+      if (!response?.success) {
+        revert();
+        this.showInputMessage(`Failed to save input backend: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      select.dataset.saved = backend;
+      this.showInputMessage('Input backend saved', 'success');
+    } catch (error) {
+      revert();
+      this.showInputMessage(`Failed to save input backend: ${error}`, 'error');
+    }
+  }
+
+  private showInputMessage(message: string, type: 'success' | 'error'): void {
+    const messageElement = this.inputSection?.querySelector('.input-message') as HTMLElement | null;
+    if (!messageElement) return;
+
+    messageElement.textContent = message;
+    messageElement.className = `input-message message message-${type}`;
+    messageElement.hidden = false;
+
+    setTimeout(() => {
+      messageElement.hidden = true;
+    }, 5000);
+  }
+
+  /**
+   * Build the macro section: saved macros, an editor, and JSON export/import
+   */
+  private renderMacroSection(): void {
+    this.macroSection = document.createElement('div');
+    this.macroSection.className = 'macro-section';
+
+    this.macroSection.innerHTML = `
+      <h3 class="macro-title">Macros</h3>
+      <ul class="macro-list"></ul>
+      <div class="macro-editor">
+        <input type="text" class="macro-trigger" placeholder="Trigger, e.g. standup {date:date}">
+        <input type="text" class="macro-description" placeholder="Description (optional)">
+        <select class="macro-kind">
+          <option value="template">Command template</option>
+          <option value="plan">Saved plan (JSON steps)</option>
+        </select>
+        <textarea class="macro-body" rows="3" placeholder="open jira.example.com and search for standup notes from {date}"></textarea>
+        <div class="macro-help">Parameters: {name}, {name:number}, {name:date}, {name:url}; add ? to make one optional.</div>
+      </div>
+      <div class="macro-actions">
+        <button type="button" class="btn btn-secondary macro-save">Save macro</button>
+        <button type="button" class="btn btn-secondary macro-cancel" hidden>Cancel edit</button>
+        <button type="button" class="btn btn-secondary macro-export">Export</button>
+        <button type="button" class="btn btn-secondary macro-import">Import</button>
+        <input type="file" class="macro-import-file" accept="application/json,.json" hidden>
+      </div>
+      <div class="macro-message" hidden></div>
+    `;
+
+    const fileInput = this.macroSection.querySelector('.macro-import-file') as HTMLInputElement;
+    this.macroSection.querySelector('.macro-save')?.addEventListener('click', () => this.saveMacro());
+    this.macroSection.querySelector('.macro-cancel')?.addEventListener('click', () => this.resetMacroEditor());
+    this.macroSection.querySelector('.macro-export')?.addEventListener('click', () => this.exportMacros());
+    this.macroSection.querySelector('.macro-import')?.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => this.importMacros(fileInput));
+    this.panel.appendChild(this.macroSection);
+  }
+
+  private async loadMacros(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_macros' });
+      if (response?.success) {
+        this.updateMacroList(response.macros);
+      }
+    } catch (error) {
+      console.error('Failed to load macros:', error);
+    }
+  }
+
+  private updateMacroList(macros: CommandMacro[]): void {
+    this.macros = macros;
+    const list = this.macroSection?.querySelector('.macro-list');
+    if (!list) return;
+
+    list.innerHTML = '';
+    if (macros.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'macro-empty';
+      empty.textContent = 'No macros yet';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const macro of macros) {
+      // Triggers and descriptions come from imported files, so never render them as HTML
+      const item = document.createElement('li');
+      item.className = 'macro-item';
+
+      const trigger = document.createElement('span');
+      trigger.className = 'macro-item-trigger';
+      trigger.textContent = macro.trigger;
+      trigger.title = macro.description || (macro.commands ? `${macro.commands.length} saved steps` : macro.template || '');
+
+      const edit = document.createElement('button');
+      edit.type = 'button';
+      edit.className = 'btn btn-ghost';
+      edit.textContent = 'Edit';
+      edit.addEventListener('click', () => this.editMacro(macro));
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'btn btn-ghost';
+      remove.textContent = 'Delete';
+      remove.addEventListener('click', () => this.deleteMacro(macro));
+
+      item.append(trigger, edit, remove);
+      list.appendChild(item);
+    }
+  }
+
+  private editMacro(macro: CommandMacro): void {
+    if (!this.macroSection) return;
+
+    this.editingMacroId = macro.id;
+    this.getMacroInput('.macro-trigger').value = macro.trigger;
+    this.getMacroInput('.macro-description').value = macro.description || '';
+    this.getMacroInput('.macro-kind').value = macro.commands ? 'plan' : 'template';
+    this.getMacroInput('.macro-body').value = macro.commands
+      ? JSON.stringify(macro.commands, null, 2)
+      : macro.template || '';
+    (this.macroSection.querySelector('.macro-cancel') as HTMLElement).hidden = false;
+  }
+
+  private resetMacroEditor(): void {
+    if (!this.macroSection) return;
+
+    this.editingMacroId = null;
+    for (const selector of ['.macro-trigger', '.macro-description', '.macro-body']) {
+      this.getMacroInput(selector).value = '';
+    }
+    this.getMacroInput('.macro-kind').value = 'template';
+    (this.macroSection.querySelector('.macro-cancel') as HTMLElement).hidden = true;
+  }
+
+  private getMacroInput(selector: string): HTMLInputElement {
+    return this.macroSection?.querySelector(selector) as HTMLInputElement;
+  }
+
+  private async saveMacro(): Promise<void> {
+    const body = this.getMacroInput('.macro-body').value.trim();
+    const isPlan = this.getMacroInput('.macro-kind').value === 'plan';
+
+    let commands: unknown;
+    if (isPlan) {
+      try {
+        commands = JSON.parse(body);
+      } catch {
+        this.showMacroMessage('Saved plan must be a JSON array of steps', 'error');
+        return;
+      }
+    }
+
+    const existing = this.macros.find(macro => macro.id === this.editingMacroId);
+    const macro = {
+      id: this.editingMacroId || undefined,
+      trigger: this.getMacroInput('.macro-trigger').value.trim(),
+      description: this.getMacroInput('.macro-description').value.trim(),
+      parameters: existing?.parameters,
+      template: isPlan ? undefined : body,
+      commands: isPlan ? commands : undefined,
+    };
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'save_macro', macro });
+      if (!response?.success) {
+        this.showMacroMessage(`Failed to save macro: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.resetMacroEditor();
+      this.updateMacroList(response.macros);
+      this.showMacroMessage(`Saved "${response.macro.trigger}"`, 'success');
+      this.events.macrosChange?.(response.macros);
+    } catch (error) {
+      this.showMacroMessage(`Failed to save macro: ${error}`, 'error');
+    }
+  }
+
+  private async deleteMacro(macro: CommandMacro): Promise<void> {
+    if (!confirm(`Delete the macro "${macro.trigger}"?`)) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'delete_macro', macroId: macro.id });
+      if (!response?.success) {
+        this.showMacroMessage(`Failed to delete macro: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      if (this.editingMacroId === macro.id) {
+        this.resetMacroEditor();
+      }
+      this.updateMacroList(response.macros);
+      this.events.macrosChange?.(response.macros);
+    } catch (error) {
+      this.showMacroMessage(`Failed to delete macro: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Download the macro library as a JSON file
+   */
+  private async exportMacros(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'export_macros' });
+      if (!response?.success) {
+        this.showMacroMessage(`Failed to export macros: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      const library: MacroLibrary = response.library;
+      const url = URL.createObjectURL(new Blob([JSON.stringify(library, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ray-macros-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      this.showMacroMessage(`Failed to export macros: ${error}`, 'error');
+    }
+  }
+
+  private async importMacros(fileInput: HTMLInputElement): Promise<void> {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+
+    let library: unknown;
+    try {
+      library = JSON.parse(await file.text());
+    } catch {
+      this.showMacroMessage('Import failed: the file is not valid JSON', 'error');
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'import_macros', library });
+      if (!response?.success) {
+        this.showMacroMessage(`Import failed: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.updateMacroList(response.macros);
+      const skipped = response.skipped.length > 0 ? `, skipped ${response.skipped.length}` : '';
+      this.showMacroMessage(`Imported ${response.imported} macros${skipped}`, skipped ? 'error' : 'success');
+      this.events.macrosChange?.(response.macros);
+    } catch (error) {
+      this.showMacroMessage(`Import failed: ${error}`, 'error');
+    }
+  }
+
+  private showMacroMessage(message: string, type: 'success' | 'error'): void {
+    const messageElement = this.macroSection?.querySelector('.macro-message') as HTMLElement | null;
+    if (!messageElement) return;
+
+    messageElement.textContent = message;
+    messageElement.className = `macro-message message message-${type}`;
+    messageElement.hidden = false;
+
+    setTimeout(() => {
+      messageElement.hidden = true;
+    }, 5000);
+  }
+
   private handleThemeChange(): void {
     this.settings.theme = this.themeSelect.value as 'system' | 'light' | 'dark';
     this.applyTheme();
@@ -399,6 +884,9 @@ export class SettingsPanel {
     this.panel.hidden = false;
     this.isVisible = true;
     this.events.panelShow?.();
+    this.loadSpendSummary();
+    this.loadMacros();
+    this.loadInputBackend();
 
     // Focus on first input
     setTimeout(() => {
@@ -0,0 +1,431 @@
+/**
+ * Workflow List Component
+ * Lists saved workflows with their schedule and last result, runs, edits or deletes them,
+ * and records new workflows from the user's own actions
+ */
+
+import type { RecordingSession, SavedWorkflow, WorkflowRunRecord } from '../../../lib/automation-types';
+
+export interface WorkflowListEvents {
+  workflowsChange: (workflows: SavedWorkflow[]) => void;
+  workflowRun: (run: WorkflowRunRecord) => void;
+}
+
+export class WorkflowList {
+  private container: HTMLElement;
+  private section: HTMLElement;
+  private workflows: SavedWorkflow[] = [];
+  private editingWorkflowId: string | null = null;
+  private expandedHistoryId: string | null = null;
+  private events: Partial<WorkflowListEvents>;
+
+  constructor(containerId: string, events: Partial<WorkflowListEvents> = {}) {
+    this.container = document.getElementById(containerId) as HTMLElement;
+
+    if (!this.container) {
+      throw new Error('Required DOM elements not found');
+    }
+
+    this.events = events;
+    this.section = document.createElement('div');
+
+    // Initialize the component
+    this.init();
+  }
+
+  private init(): void {
+    this.render();
+    this.loadWorkflows();
+    this.loadRecording();
+
+    // Scheduled runs finish while the popup is open
+    chrome.runtime.onMessage.addListener((message) => {
+      if (message?.type === 'workflow_run_completed') {
+        this.loadWorkflows();
+      }
+    });
+  }
+
+  private render(): void {
+    this.section.className = 'workflow-section';
+    this.section.innerHTML = `
+      <h3 class="workflow-title">Workflows</h3>
+      <div class="workflow-recorder">
+        <button type="button" class="btn btn-secondary workflow-record">Record</button>
+        <span class="workflow-recording-status" hidden></span>
+        <input type="text" class="workflow-recording-name" placeholder="Workflow name" hidden>
+        <button type="button" class="btn btn-secondary workflow-stop" hidden>Stop</button>
+      </div>
+      <ul class="workflow-list"></ul>
+      <div class="workflow-editor">
+        <textarea class="workflow-definition" rows="5" placeholder='{"version": 1, "name": "Dashboards", "steps": [...]}'></textarea>
+        <div class="workflow-schedule">
+          <input type="text" class="workflow-cron" placeholder="Schedule, e.g. 0 9 * * 1-5 or @daily (optional)">
+          <label class="workflow-enabled"><input type="checkbox" class="workflow-enabled-input" checked> Enabled</label>
+        </div>
+        <div class="workflow-help">Cron fields: minute hour day-of-month month day-of-week, in local time.</div>
+      </div>
+      <div class="workflow-actions">
+        <button type="button" class="btn btn-secondary workflow-save">Save workflow</button>
+        <button type="button" class="btn btn-secondary workflow-replay">Replay</button>
+        <button type="button" class="btn btn-secondary workflow-cancel" hidden>Cancel edit</button>
+      </div>
+      <div class="workflow-message" hidden></div>
+    `;
+
+    this.section.querySelector('.workflow-save')?.addEventListener('click', () => this.saveWorkflow());
+    this.section.querySelector('.workflow-replay')?.addEventListener('click', () => this.replayEditor());
+    this.section.querySelector('.workflow-cancel')?.addEventListener('click', () => this.resetEditor());
+    this.section.querySelector('.workflow-record')?.addEventListener('click', () => this.startRecording());
+    this.section.querySelector('.workflow-stop')?.addEventListener('click', () => this.stopRecording());
+    this.container.appendChild(this.section);
+  }
+
+  public async loadWorkflows(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_workflows' });
+      if (response?.success) {
+        this.updateList(response.workflows);
+      }
+    } catch (error) {
+      console.error('Failed to load workflows:', error);
+    }
+  }
+
+  private async loadRecording(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_recording' });
+      if (response?.success) {
+        this.updateRecorder(response.session);
+      }
+    } catch (error) {
+      console.error('Failed to load recording state:', error);
+    }
+  }
+
+  private updateRecorder(session: RecordingSession | null): void {
+    const status = this.section.querySelector('.workflow-recording-status') as HTMLElement;
+    (this.section.querySelector('.workflow-record') as HTMLElement).hidden = Boolean(session);
+    (this.section.querySelector('.workflow-stop') as HTMLElement).hidden = !session;
+    this.getInput('.workflow-recording-name').hidden = !session;
+    status.hidden = !session;
+
+    if (session) {
+      status.textContent = `Recording: ${session.steps.length} step${session.steps.length === 1 ? '' : 's'}`;
+    }
+  }
+
+  private async startRecording(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'start_recording' });
+      if (!response?.success) {
+        this.showMessage(`Failed to start recording: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.updateRecorder(response.session);
+      this.showMessage('Recording. Use the page as usual, then reopen Ray and press Stop.', 'success');
+    } catch (error) {
+      this.showMessage(`Failed to start recording: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Stop recording and open the recorded steps in the editor for review before saving
+   */
+  private async stopRecording(): Promise<void> {
+    const name = this.getInput('.workflow-recording-name').value.trim();
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'stop_recording', name });
+      if (!response?.success) {
+        this.showMessage(`Failed to stop recording: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      this.updateRecorder(null);
+      this.getInput('.workflow-recording-name').value = '';
+      this.resetEditor();
+      this.getInput('.workflow-definition').value = JSON.stringify(response.definition, null, 2);
+
+      const masked: string[] = response.maskedVariables || [];
+      this.showMessage(
+        masked.length > 0
+          ? `Recorded ${response.definition.steps.length} steps. Set ${masked.join(', ')} under variables before replaying.`
+          : `Recorded ${response.definition.steps.length} steps. Review them, then save or replay.`,
+        'success'
+      );
+    } catch (error) {
+      this.showMessage(`Failed to stop recording: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Replay the definition in the editor without saving it
+   */
+  private async replayEditor(): Promise<void> {
+    let definition: unknown;
+    try {
+      definition = JSON.parse(this.getInput('.workflow-definition').value);
+    } catch {
+      this.showMessage('Workflow definition must be valid JSON', 'error');
+      return;
+    }
+
+    this.showMessage('Replaying...', 'success');
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'replay_workflow', definition });
+      this.showMessage(
+        response?.success ? 'Replay finished' : `Replay failed: ${response?.error || 'Unknown error'}`,
+        response?.success ? 'success' : 'error'
+      );
+    } catch (error) {
+      this.showMessage(`Replay failed: ${error}`, 'error');
+    }
+  }
+
+  private updateList(workflows: SavedWorkflow[]): void {
+    this.workflows = workflows;
+    const list = this.section.querySelector('.workflow-list');
+    if (!list) return;
+
+    list.innerHTML = '';
+    if (workflows.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'workflow-empty';
+      empty.textContent = 'No saved workflows yet';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const workflow of workflows) {
+      list.appendChild(this.renderItem(workflow));
+    }
+  }
+
+  private renderItem(workflow: SavedWorkflow): HTMLElement {
+    // Names and summaries come from user-written definitions and page content, so never render them as HTML
+    const item = document.createElement('li');
+    item.className = 'workflow-item';
+
+    const header = document.createElement('div');
+    header.className = 'workflow-item-header';
+
+    const name = document.createElement('span');
+    name.className = 'workflow-item-name';
+    name.textContent = workflow.definition.name;
+    name.title = workflow.definition.description || '';
+
+    header.append(
+      name,
+      this.createButton('Run', () => this.runWorkflow(workflow)),
+      this.createButton('Edit', () => this.editWorkflow(workflow)),
+      this.createButton('History', () => this.toggleHistory(workflow)),
+      this.createButton('Delete', () => this.deleteWorkflow(workflow))
+    );
+
+    if (workflow.schedule) {
+      header.insertBefore(
+        this.createButton(workflow.schedule.enabled ? 'Pause' : 'Resume', () => this.toggleSchedule(workflow)),
+        header.children[2]
+      );
+    }
+
+    const schedule = document.createElement('div');
+    schedule.className = 'workflow-item-schedule';
+    schedule.textContent = this.describeSchedule(workflow);
+
+    const lastRun = document.createElement('div');
+    lastRun.className = `workflow-item-result ${workflow.lastRun ? (workflow.lastRun.success ? 'workflow-success' : 'workflow-failure') : ''}`;
+    lastRun.textContent = workflow.lastRun
+      ? `${this.formatTime(workflow.lastRun.finishedAt)}: ${workflow.lastRun.summary}`
+      : 'Never run';
+
+    item.append(header, schedule, lastRun);
+
+    if (this.expandedHistoryId === workflow.id) {
+      const history = document.createElement('ul');
+      history.className = 'workflow-history';
+      item.appendChild(history);
+      this.loadHistory(workflow, history);
+    }
+
+    return item;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'btn btn-ghost';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private describeSchedule(workflow: SavedWorkflow): string {
+    if (!workflow.schedule) {
+      return 'Manual only';
+    }
+    if (!workflow.schedule.enabled) {
+      return `${workflow.schedule.cron} (paused)`;
+    }
+    return workflow.schedule.nextRunAt
+      ? `${workflow.schedule.cron}, next run ${this.formatTime(workflow.schedule.nextRunAt)}`
+      : `${workflow.schedule.cron}, never fires`;
+  }
+
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+  }
+
+  private async loadHistory(workflow: SavedWorkflow, list: HTMLElement): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'get_workflow_history', workflowId: workflow.id });
+      if (!response?.success) return;
+
+      const runs: WorkflowRunRecord[] = response.history;
+      if (runs.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'workflow-empty';
+        empty.textContent = 'No runs yet';
+        list.appendChild(empty);
+        return;
+      }
+
+      for (const run of runs) {
+        const entry = document.createElement('li');
+        entry.className = `workflow-history-entry ${run.success ? 'workflow-success' : 'workflow-failure'}`;
+        entry.textContent = `${this.formatTime(run.startedAt)} (${run.trigger}): ${run.summary}`;
+        entry.title = Object.keys(run.outputs).length > 0 ? JSON.stringify(run.outputs, null, 2) : '';
+        list.appendChild(entry);
+      }
+    } catch (error) {
+      console.error('Failed to load workflow history:', error);
+    }
+  }
+
+  private toggleHistory(workflow: SavedWorkflow): void {
+    this.expandedHistoryId = this.expandedHistoryId === workflow.id ? null : workflow.id;
+    this.updateList(this.workflows);
+  }
+
+  private async runWorkflow(workflow: SavedWorkflow): Promise<void> {
+    this.showMessage(`Running "${workflow.definition.name}"...`, 'success');
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'run_workflow', workflowId: workflow.id });
+      if (response?.run) {
+        this.showMessage(response.run.summary, response.run.success ? 'success' : 'error');
+        this.events.workflowRun?.(response.run);
+      } else {
+        this.showMessage(`Failed to run workflow: ${response?.error || 'Unknown error'}`, 'error');
+      }
+      await this.loadWorkflows();
+    } catch (error) {
+      this.showMessage(`Failed to run workflow: ${error}`, 'error');
+    }
+  }
+
+  private async toggleSchedule(workflow: SavedWorkflow): Promise<void> {
+    if (!workflow.schedule) return;
+
+    await this.sendSave({
+      id: workflow.id,
+      definition: workflow.definition,
+      schedule: { cron: workflow.schedule.cron, enabled: !workflow.schedule.enabled },
+    });
+  }
+
+  private editWorkflow(workflow: SavedWorkflow): void {
+    this.editingWorkflowId = workflow.id;
+    this.getInput('.workflow-definition').value = JSON.stringify(workflow.definition, null, 2);
+    this.getInput('.workflow-cron').value = workflow.schedule?.cron || '';
+    this.getInput('.workflow-enabled-input').checked = workflow.schedule?.enabled !== false;
+    (this.section.querySelector('.workflow-cancel') as HTMLElement).hidden = false;
+  }
+
+  private resetEditor(): void {
+    this.editingWorkflowId = null;
+    this.getInput('.workflow-definition').value = '';
+    this.getInput('.workflow-cron').value = '';
+    this.getInput('.workflow-enabled-input').checked = true;
+    (this.section.querySelector('.workflow-cancel') as HTMLElement).hidden = true;
+  }
+
+  private getInput(selector: string): HTMLInputElement {
+    return this.section.querySelector(selector) as HTMLInputElement;
+  }
+
+  private async saveWorkflow(): Promise<void> {
+    let definition: unknown;
+    try {
+      definition = JSON.parse(this.getInput('.workflow-definition').value);
+    } catch {
+      this.showMessage('Workflow definition must be valid JSON', 'error');
+      return;
+    }
+
+    const cron = this.getInput('.workflow-cron').value.trim();
+    const saved = await this.sendSave({
+      id: this.editingWorkflowId || undefined,
+      definition,
+      schedule: cron ? { cron, enabled: this.getInput('.workflow-enabled-input').checked } : null,
+    });
+
+    if (saved) {
+      this.resetEditor();
+      this.showMessage(`Saved "${saved.definition.name}"`, 'success');
+    }
+  }
+
+  private async sendSave(workflow: Record<string, unknown>): Promise<SavedWorkflow | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'save_workflow', workflow });
+      if (!response?.success) {
+        this.showMessage(`Failed to save workflow: ${response?.error || 'Unknown error'}`, 'error');
+        return null;
+      }
+
+      this.updateList(response.workflows);
+      this.events.workflowsChange?.(response.workflows);
+      return response.workflow;
+    } catch (error) {
+      this.showMessage(`Failed to save workflow: ${error}`, 'error');
+      return null;
+    }
+  }
+
+  private async deleteWorkflow(workflow: SavedWorkflow): Promise<void> {
+    if (!confirm(`Delete the workflow "${workflow.definition.name}" and its run history?`)) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'delete_workflow', workflowId: workflow.id });
+      if (!response?.success) {
+        this.showMessage(`Failed to delete workflow: ${response?.error || 'Unknown error'}`, 'error');
+        return;
+      }
+
+      if (this.editingWorkflowId === workflow.id) {
+        this.resetEditor();
+      }
+      this.updateList(response.workflows);
+      this.events.workflowsChange?.(response.workflows);
+    } catch (error) {
+      this.showMessage(`Failed to delete workflow: ${error}`, 'error');
+    }
+  }
+
+  private showMessage(message: string, type: 'success' | 'error'): void {
+    const messageElement = this.section.querySelector('.workflow-message') as HTMLElement | null;
+    if (!messageElement) return;
+
+    messageElement.textContent = message;
+    messageElement.className = `workflow-message message message-${type}`;
+    messageElement.hidden = false;
+
+    setTimeout(() => {
+      messageElement.hidden = true;
+    }, 5000);
+  }
+}
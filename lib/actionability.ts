@@ -0,0 +1,301 @@
+/**
+ * Actionability checks for element interactions
+ * Before an interaction acts, its element must be attached, visible, stable (the same box over
+ * two animation frames), enabled and the topmost element at the point the action targets.
+ * Checks are retried, scrolling the element into view, until they pass or time out
+ */
+
+import { chromeApi } from './chrome-api-wrappers';
+import { queryDeepSelectorAll } from './deep-selector';
+import { executeScriptWithArgsInAllFrames, executeScriptWithArgsInFrames } from './utils/chrome-scripting';
+
+export type ActionabilityCheck = 'attached' | 'visible' | 'stable' | 'enabled' | 'hittable';
+
+export type ActionabilityReason = 'not_attached' | 'not_visible' | 'not_stable' | 'not_enabled' | 'obscured';
+
+export type ActionabilityAction = 'click' | 'type' | 'hover' | 'drag' | 'select';
+
+export interface ActionabilityResult {
+  actionable: boolean;
+  reason?: ActionabilityReason; // why the last attempt failed
+  message?: string;
+  point?: { x: number; y: number }; // viewport point the action should target
+  obscuredBy?: string; // the element covering the target, e.g. div#cookie-banner.overlay
+  attempts: number;
+}
+
+export interface ActionabilityOptions {
+  timeout?: number;
+  force?: boolean; // skip the checks and act right away
+}
+
+export interface ActionabilityConfig {
+  timeout: number;
+}
+
+const DEFAULT_CONFIG: ActionabilityConfig = {
+  timeout: 10000,
+};
+
+const TOP_FRAME_ID = 0;
+const LOCATE_RETRY_DELAY = 250;
+
+// Checks each action waits for; typing and selecting do not need the pointer to reach the element
+export const ACTION_CHECKS: Record<ActionabilityAction, ActionabilityCheck[]> = {
+  click: ['attached', 'visible', 'stable', 'enabled', 'hittable'],
+  type: ['attached', 'visible', 'stable', 'enabled'],
+  hover: ['attached', 'visible', 'stable', 'hittable'],
+  drag: ['attached', 'visible', 'stable', 'hittable'],
+  select: ['attached', 'visible', 'enabled'],
+};
+
+/**
+ * Error thrown when an element does not become actionable in time
+ */
+export class ActionabilityError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ActionabilityReason,
+    readonly selector: string,
+    readonly obscuredBy?: string
+  ) {
+    super(message);
+    this.name = 'ActionabilityError';
+  }
+}
+
+/**
+ * Reason an error reports an element as not actionable, also for errors whose message was rewrapped
+ */
+export function getActionabilityReason(error: Error): ActionabilityReason | undefined {
+  if (error instanceof ActionabilityError) {
+    return error.reason;
+  }
+
+  const match = /not actionable \((not_attached|not_visible|not_stable|not_enabled|obscured)\)/.exec(error.message);
+  return match ? match[1] as ActionabilityReason : undefined;
+}
+
+/**
+ * Check an element until it passes the given checks or the timeout passes
+ * Injected into the element's frame right after queryDeepSelectorAll, whose matches it checks;
+ * a detached match is reported at once so the caller can search again. Must stay self-contained
+ */
+export function checkActionability(
+  selector: string,
+  checks: ActionabilityCheck[],
+  timeout: number
+): Promise<ActionabilityResult> {
+  const retryDelays = [0, 20, 100, 100, 500];
+  const startTime = Date.now();
+
+  const nextFrame = () => new Promise(resolve => requestAnimationFrame(() => resolve(undefined)));
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const describe = (element: Element) => {
+    const id = element.id ? `#${element.id}` : '';
+    const className = typeof element.className === 'string' && element.className.trim()
+      ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+      : '';
+    return `${element.tagName.toLowerCase()}${id}${className}`;
+  };
+
+  const fail = (reason: ActionabilityReason, detail: string, obscuredBy?: string) => ({
+    actionable: false,
+    reason,
+    message: `${selector} is not actionable (${reason}): ${detail}`,
+    obscuredBy,
+  });
+
+  // Whether the element, or something inside it (including its shadow tree), is what the point hits
+  const receivesPointer = (element: Element, hit: Element | null) => {
+    let node: Node | null = hit;
+    while (node) {
+      if (node === element) {
+        return true;
+      }
+      node = node.parentNode || (node instanceof ShadowRoot ? node.host : null);
+    }
+    return false;
+  };
+
+  // What the deep search found in this frame, which reaches shadow roots, same-origin frames and locators
+  const findElement = (): Element | null => {
+    const deep = (globalThis as any).__rayDeepMatches;
+    if (deep?.selector === selector) {
+      return deep.elements[0] || null;
+    }
+    try {
+      return document.querySelector(selector);
+    } catch {
+      return null;
+    }
+  };
+
+  // Trusted input targets the top-level viewport, so points include the offsets of same-origin frames
+  const frameOffset = (view: Window) => {
+    const offset = { x: 0, y: 0 };
+    for (let frame = view.frameElement; frame; frame = frame.ownerDocument.defaultView?.frameElement || null) {
+      const frameRect = frame.getBoundingClientRect();
+      offset.x += frameRect.left + frame.clientLeft;
+      offset.y += frameRect.top + frame.clientTop;
+    }
+    return offset;
+  };
+
+  const attempt = async (): Promise<Omit<ActionabilityResult, 'attempts'>> => {
+    const element = findElement();
+    if (!element || !element.isConnected) {
+      return fail('not_attached', 'element not found');
+    }
+
+    // The element may live in a same-origin frame the deep search reached from this one
+    const view = element.ownerDocument.defaultView || window;
+    let rect = element.getBoundingClientRect();
+    if (checks.includes('visible')) {
+      const style = view.getComputedStyle(element);
+      if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' ||
+          style.display === 'none' || style.opacity === '0') {
+        return fail('not_visible', 'element is not visible');
+      }
+    }
+
+    const inViewport = rect.top >= 0 && rect.left >= 0 &&
+      rect.bottom <= view.innerHeight && rect.right <= view.innerWidth;
+    if (!inViewport) {
+      element.scrollIntoView({ behavior: 'auto', block: 'center', inline: 'center' });
+      rect = element.getBoundingClientRect();
+    }
+
+    if (checks.includes('stable')) {
+      await nextFrame();
+      const next = element.getBoundingClientRect();
+      if (next.top !== rect.top || next.left !== rect.left || next.width !== rect.width || next.height !== rect.height) {
+        return fail('not_stable', 'element is still moving');
+      }
+      rect = next;
+    }
+
+    if (checks.includes('enabled')) {
+      if (element.matches(':disabled') || element.closest('[aria-disabled="true"]')) {
+        return fail('not_enabled', 'element is disabled');
+      }
+    }
+
+    const point = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    if (checks.includes('hittable')) {
+      const hit = element.ownerDocument.elementFromPoint(point.x, point.y);
+      if (!receivesPointer(element, hit)) {
+        const obscuredBy = hit ? describe(hit) : undefined;
+        return fail('obscured', obscuredBy
+          ? `element is covered by ${obscuredBy} at (${Math.round(point.x)}, ${Math.round(point.y)})`
+          : 'element is outside the viewport', obscuredBy);
+      }
+    }
+
+    const offset = frameOffset(view);
+    return { actionable: true, point: { x: point.x + offset.x, y: point.y + offset.y } };
+  };
+
+  return (async () => {
+    for (let attempts = 1; ; attempts++) {
+      const result = await attempt();
+      const delay = retryDelays[Math.min(attempts, retryDelays.length - 1)];
+      if (result.actionable || result.reason === 'not_attached' || Date.now() - startTime + delay > timeout) {
+        return { ...result, attempts };
+      }
+      await sleep(delay);
+    }
+  })();
+}
+
+export class ActionabilityGate {
+  private config: ActionabilityConfig;
+
+  constructor(config: Partial<ActionabilityConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Check an element for an action without throwing
+   * The element is searched for like any command selector, in the given frame or else in every frame,
+   * and searched for again while it is missing or was replaced
+   */
+  async check(
+    selector: string,
+    checks: ActionabilityCheck[],
+    timeout: number = this.config.timeout,
+    tabId?: number,
+    frameId?: number
+  ): Promise<ActionabilityResult> {
+    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const deadline = Date.now() + timeout;
+    let attempts = 0;
+
+    for (;;) {
+      const targetFrameId = await this.locateFrame(targetTabId, selector, frameId);
+      const [response] = await executeScriptWithArgsInFrames(
+        targetTabId,
+        [targetFrameId],
+        checkActionability,
+        [selector, checks, Math.max(0, deadline - Date.now())]
+      );
+      const result: ActionabilityResult | undefined = response?.result;
+      attempts += result?.attempts || 1;
+
+      if (result?.actionable || (result && result.reason !== 'not_attached') || Date.now() + LOCATE_RETRY_DELAY > deadline) {
+        return result ? { ...result, attempts } : { actionable: false, reason: 'not_attached', attempts };
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCATE_RETRY_DELAY));
+    }
+  }
+
+  /**
+   * Wait until an element can take an action, returning the point to target
+   * Throws an ActionabilityError naming why it never could
+   */
+  async ensure(
+    selector: string,
+    action: ActionabilityAction,
+    options: ActionabilityOptions = {},
+    tabId?: number,
+    frameId?: number
+  ): Promise<{ x: number; y: number } | undefined> {
+    if (options.force) {
+      return undefined;
+    }
+
+    const result = await this.check(selector, ACTION_CHECKS[action], options.timeout, tabId, frameId);
+    if (!result?.actionable) {
+      throw new ActionabilityError(
+        `Cannot ${action}: ${result?.message || `${selector}: no response from page`}`,
+        result?.reason || 'not_attached',
+        selector,
+        result?.obscuredBy
+      );
+    }
+
+    return result.point;
+  }
+
+  /**
+   * Run the deep search so its matches are on the frame's global, returning the frame holding the element
+   * Without a match the top frame is checked, which reports the element as not attached
+   */
+  private async locateFrame(tabId: number, selector: string, frameId?: number): Promise<number> {
+    if (frameId !== undefined) {
+      await executeScriptWithArgsInFrames(tabId, [frameId], queryDeepSelectorAll, [selector]);
+      return frameId;
+    }
+
+    const results = await executeScriptWithArgsInAllFrames(tabId, queryDeepSelectorAll, [selector]);
+    const frameIds = results
+      .filter(result => Array.isArray(result.result) && result.result.length > 0)
+      .map(result => result.frameId)
+      .sort((a, b) => a - b);
+
+    return frameIds.length > 0 ? frameIds[0] : TOP_FRAME_ID;
+  }
+}
+
+export const actionabilityGate = new ActionabilityGate();
@@ -16,32 +16,47 @@ export interface NavigateCommand extends AutomationCommand {
   tabId?: number;
 }
 
+// How interactions reach the page
+// auto: synthetic events, retried as trusted input when they fail
+// synthetic: synthetic DOM events only
+// debugger: trusted input through chrome.debugger, falling back to synthetic events when it cannot be used
+export type InputBackend = 'auto' | 'synthetic' | 'debugger';
+
 // Click command
 export interface ClickCommand extends AutomationCommand {
   type: 'click';
   selector: string;
+  fallbackSelectors?: ElementSelector[]; // recorded alternatives, tried when selector no longer matches
+  fingerprint?: ElementFingerprint; // what the element looked like when recorded, used to heal the selector
   tabId?: number;
   waitForSelector?: boolean;
   timeout?: number;
+  inputBackend?: InputBackend; // overrides the backend saved for the page's origin
 }
 
 // Form fill command
 export interface FillFormCommand extends AutomationCommand {
   type: 'fillForm';
   selector: string;
+  fallbackSelectors?: ElementSelector[];
+  fingerprint?: ElementFingerprint;
   value: string;
   tabId?: number;
   clearFirst?: boolean;
+  inputBackend?: InputBackend;
 }
 
 // Type command
 export interface TypeCommand extends AutomationCommand {
   type: 'type';
   selector: string;
+  fallbackSelectors?: ElementSelector[];
+  fingerprint?: ElementFingerprint;
   text: string;
   tabId?: number;
   clearFirst?: boolean;
   delay?: number;
+  inputBackend?: InputBackend;
 }
 
 // Scroll command
@@ -50,6 +65,8 @@ export interface ScrollCommand extends AutomationCommand {
   direction: 'up' | 'down' | 'left' | 'right' | 'top' | 'bottom';
   amount?: number;
   selector?: string;
+  fallbackSelectors?: ElementSelector[];
+  fingerprint?: ElementFingerprint;
   tabId?: number;
 }
 
@@ -68,11 +85,58 @@ export interface WaitForElementCommand extends AutomationCommand {
   tabId?: number;
 }
 
+// Wait until a tab's network has been quiet for a while
+export interface WaitForNetworkIdleCommand extends AutomationCommand {
+  type: 'waitForNetworkIdle';
+  idleMs?: number; // how long the network must stay quiet
+  maxInflight?: number; // requests allowed to stay open, e.g. long polling
+  timeout?: number;
+  tabId?: number;
+}
+
+// Wait for a request whose URL matches a pattern: a substring, a glob with * and ** or /regex/flags
+export interface WaitForRequestCommand extends AutomationCommand {
+  type: 'waitForRequest';
+  urlPattern: string;
+  method?: string;
+  since?: number; // earliest start time to match; defaults to when the previous command started
+  timeout?: number;
+  tabId?: number;
+}
+
+// Wait for a response to a request whose URL matches a pattern
+export interface WaitForResponseCommand extends AutomationCommand {
+  type: 'waitForResponse';
+  urlPattern: string;
+  method?: string;
+  status?: number;
+  since?: number;
+  timeout?: number;
+  tabId?: number;
+}
+
 // Extract text command
 export interface ExtractTextCommand extends AutomationCommand {
   type: 'extractText';
   selector: string;
   attribute?: string;
+  all?: boolean; // extract every match as a list instead of the first one
+  tabId?: number;
+}
+
+// Extract a table of repeated records (table rows, list items or cards), following pagination
+export interface ExtractDataCommand extends AutomationCommand {
+  type: 'extractData';
+  selector?: string; // only look for records inside this element
+  recordSelector?: string; // detected when unset
+  columns?: ExtractionColumn[]; // inferred when unset
+  pagination?: ExtractionPagination;
+  nextSelector?: string; // the "next" control; detected when unset
+  maxPages?: number;
+  maxRows?: number;
+  dedupeBy?: string[]; // columns identifying a row; all columns when unset
+  format?: TableFormat; // also return the table formatted as output
+  name?: string; // shown in the popup's list of extractions
   tabId?: number;
 }
 
@@ -107,7 +171,7 @@ export interface SwitchTabCommand extends AutomationCommand {
 export interface WorkflowCommand extends AutomationCommand {
   type: 'workflow';
   name: string;
-  steps: AutomationCommand[];
+  steps: AnyAutomationCommand[];
   context?: Record<string, any>;
 }
 
@@ -120,7 +184,11 @@ export type AutomationCommandType =
   | 'scroll'
   | 'wait'
   | 'waitForElement'
+  | 'waitForNetworkIdle'
+  | 'waitForRequest'
+  | 'waitForResponse'
   | 'extractText'
+  | 'extractData'
   | 'screenshot'
   | 'createTab'
   | 'closeTab'
@@ -135,7 +203,11 @@ export type AnyAutomationCommand =
   | ScrollCommand
   | WaitCommand
   | WaitForElementCommand
+  | WaitForNetworkIdleCommand
+  | WaitForRequestCommand
+  | WaitForResponseCommand
   | ExtractTextCommand
+  | ExtractDataCommand
   | ScreenshotCommand
   | CreateTabCommand
   | CloseTabCommand
@@ -149,6 +221,7 @@ export interface AutomationResponse {
   timestamp: number;
   data?: any;
   error?: AutomationError;
+  frameId?: number; // frame the command's element was found in; 0 is the top frame
 }
 
 export interface AutomationError {
@@ -185,7 +258,8 @@ export type SelectorStrategy =
   | 'xpath'
   | 'text'
   | 'attribute'
-  | 'index';
+  | 'index'
+  | 'locator'; // role=, label=, placeholder=, alt=, title=, testid=, text=, chained with ` >> `
 
 export interface ElementSelector {
   strategy: SelectorStrategy;
@@ -247,3 +321,203 @@ export interface WorkflowExecutionResult {
   error?: string;
   timestamp: number;
 }
+
+// Declarative workflow stored as JSON
+export interface WorkflowDefinition {
+  version: number;
+  name: string;
+  description?: string;
+  variables?: Record<string, any>;
+  steps: WorkflowNode[];
+}
+
+// Command inside a workflow definition; any string field may contain {{variables}}
+export interface WorkflowDslCommand {
+  type: Exclude<AutomationCommandType, 'workflow'>;
+  [field: string]: any;
+}
+
+// Runs one command, optionally binding its result (e.g. extracted text) to a variable
+export interface WorkflowCommandNode {
+  type: 'command';
+  command: WorkflowDslCommand;
+  saveAs?: string;
+}
+
+// Assigns variables
+export interface WorkflowSetNode {
+  type: 'set';
+  values: Record<string, any>;
+}
+
+export interface WorkflowIfNode {
+  type: 'if';
+  condition: WorkflowCondition;
+  then: WorkflowNode[];
+  else?: WorkflowNode[];
+}
+
+// Runs its body once per item of a list, e.g. "{{prices}}" bound by an extractText with all: true
+export interface WorkflowForEachNode {
+  type: 'forEach';
+  items: string;
+  as: string;
+  do: WorkflowNode[];
+  maxIterations?: number;
+}
+
+// Repeats its body while the condition holds; exceeding maxIterations fails the workflow
+export interface WorkflowWhileNode {
+  type: 'while';
+  condition: WorkflowCondition;
+  do: WorkflowNode[];
+  maxIterations: number;
+}
+
+// Failing commands in the body go through error recovery first; the catch body runs if that fails
+export interface WorkflowTryNode {
+  type: 'try';
+  try: WorkflowNode[];
+  catch?: WorkflowNode[];
+  recover?: boolean;
+  errorVariable?: string;
+}
+
+export type WorkflowNode =
+  | WorkflowCommandNode
+  | WorkflowSetNode
+  | WorkflowIfNode
+  | WorkflowForEachNode
+  | WorkflowWhileNode
+  | WorkflowTryNode;
+
+// Conditions on page, element or variable state
+export type WorkflowCondition =
+  | { type: 'exists' | 'visible'; selector: string }
+  | { type: 'textContains'; text: string; selector?: string }
+  | { type: 'urlMatches'; pattern: string }
+  | { type: 'equals'; left: any; right: any }
+  | { type: 'truthy'; value: any }
+  | { type: 'not'; condition: WorkflowCondition }
+  | { type: 'and' | 'or'; conditions: WorkflowCondition[] };
+
+// Workflow definition validation result
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// Column of an extracted table; its selector is relative to the record, and unset for the record itself
+export interface ExtractionColumn {
+  name: string;
+  selector?: string;
+  attribute?: string; // read instead of the text, e.g. href or src
+}
+
+// Where records are and which columns they have, detected or given by the user or model
+export interface ExtractionSchema {
+  kind: 'table' | 'list' | 'custom';
+  recordSelector: string;
+  columns: ExtractionColumn[];
+}
+
+export type ExtractionPagination = 'none' | 'next' | 'scroll';
+
+export type TableFormat = 'json' | 'csv' | 'markdown';
+
+// Rows extracted from one or more pages
+export interface ExtractedTable {
+  columns: string[];
+  rows: Record<string, string>[];
+  schema: ExtractionSchema;
+  url: string; // first page
+  pages: number;
+  extractedAt: number;
+  output?: string; // the table in the requested format
+}
+
+// Extraction kept for download from the popup
+export interface ExtractionRecord {
+  id: string;
+  name: string;
+  table: ExtractedTable;
+}
+
+// Workflow saved to the library, optionally run on a schedule
+export interface SavedWorkflow {
+  id: string;
+  definition: WorkflowDefinition;
+  schedule?: WorkflowSchedule;
+  lastRun?: WorkflowRunRecord;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Cron-like schedule backed by chrome.alarms
+export interface WorkflowSchedule {
+  cron: string; // minute hour day-of-month month day-of-week, or @hourly/@daily/@weekly/@monthly
+  enabled: boolean;
+  nextRunAt?: number;
+}
+
+// Error a try block without a catch swallowed during a run
+export interface WorkflowFailure {
+  message: string;
+  step: number; // commands run when it failed
+}
+
+// One run of a saved workflow
+export interface WorkflowRunRecord {
+  id: string;
+  workflowId: string;
+  trigger: 'manual' | 'schedule';
+  startedAt: number;
+  finishedAt: number;
+  success: boolean;
+  stepCount: number;
+  summary: string;
+  outputs: Record<string, any>; // variables captured during the run (saveAs, set)
+  failures?: WorkflowFailure[]; // try blocks without a catch that failed
+  error?: string;
+}
+
+// Recording of user actions on a tab, turned into a workflow definition when it stops
+export interface RecordingSession {
+  id: string;
+  tabId: number;
+  startUrl: string;
+  currentUrl: string;
+  startedAt: number;
+  lastStepAt: number;
+  steps: WorkflowDslCommand[];
+  maskedVariables: string[]; // variables standing in for typed passwords
+}
+
+// What a recorded element looked like, so it can be found again after the page changes
+export interface ElementFingerprint {
+  tag: string;
+  role?: string;
+  name?: string; // accessible name
+  text?: string;
+  labels?: string[]; // <label>s, aria-labelledby, legends and nearby captions
+  attributes: Record<string, string>;
+  path: string[]; // ancestor tag names, outermost first
+  rect?: { x: number; y: number; width: number; height: number }; // document coordinates
+}
+
+// A broken selector replaced by the closest match for its fingerprint
+export interface SelectorHeal {
+  stepNumber: number;
+  commandType: string;
+  previousSelector: string;
+  selector: string;
+  score: number; // 0-1 similarity to the recorded fingerprint
+  fingerprint: ElementFingerprint;
+  timestamp: number;
+}
+
+// A user action captured by the content script recorder
+export interface RecordedAction {
+  command: WorkflowDslCommand;
+  masked?: boolean; // typed into a password field; the text was not captured
+}
@@ -9,6 +9,14 @@ import {
   RayError
 } from '../shared/contracts';
 import { Orchestrator } from '../orchestration/orchestrator';
+import { PROVIDER_DEFINITIONS, getProviderKeyStorageKey, isProviderId } from '../providers/config';
+import { ProviderId } from '../providers/types';
+import { debuggerInput, InputBackend } from '../debugger-input';
+import { downloadTracker } from '../download-tracker';
+import { extractionHistory } from '../extraction-history';
+import { workflowExecutor } from '../workflow-executor';
+import { WorkflowRecorder } from '../workflow-recorder';
+import { WorkflowScheduler } from '../workflow-scheduler';
 
 export interface MessageHandler {
   canHandle(message: any): boolean;
@@ -18,9 +26,17 @@ export interface MessageHandler {
 export class MessageRouter {
   private handlers: Map<string, MessageHandler> = new Map();
   private orchestrator: Orchestrator;
-
-  constructor(orchestrator: Orchestrator) {
+  private workflowScheduler: WorkflowScheduler;
+  private workflowRecorder: WorkflowRecorder;
+
+  constructor(
+    orchestrator: Orchestrator,
+    workflowScheduler: WorkflowScheduler = new WorkflowScheduler(),
+    workflowRecorder: WorkflowRecorder = new WorkflowRecorder()
+  ) {
     this.orchestrator = orchestrator;
+    this.workflowScheduler = workflowScheduler;
+    this.workflowRecorder = workflowRecorder;
     this.registerDefaultHandlers();
   }
 
@@ -77,6 +93,9 @@ export class MessageRouter {
     // Request cancellation handler
     this.registerHandler('cancel_request', new CancelRequestHandler(this.orchestrator));
 
+    // Clarification reply handler
+    this.registerHandler('answer_clarification', new AnswerClarificationHandler(this.orchestrator));
+
     // API key management handler
     this.registerHandler('update_api_key', new UpdateApiKeyHandler(this.orchestrator));
 
@@ -92,6 +111,34 @@ export class MessageRouter {
     // Settings handler
     this.registerHandler('get_settings', new GetSettingsHandler(this.orchestrator));
     this.registerHandler('update_settings', new UpdateSettingsHandler(this.orchestrator));
+
+    // Saved workflow library handlers
+    this.registerHandler('get_workflows', new GetWorkflowsHandler(this.workflowScheduler));
+    this.registerHandler('save_workflow', new SaveWorkflowHandler(this.workflowScheduler));
+    this.registerHandler('delete_workflow', new DeleteWorkflowHandler(this.workflowScheduler));
+    this.registerHandler('run_workflow', new RunWorkflowHandler(this.workflowScheduler));
+    this.registerHandler('get_workflow_history', new GetWorkflowHistoryHandler(this.workflowScheduler));
+    this.registerHandler('replay_workflow', new ReplayWorkflowHandler());
+
+    // Extracted table handlers
+    this.registerHandler('get_extractions', new GetExtractionsHandler());
+    this.registerHandler('delete_extraction', new DeleteExtractionHandler());
+
+    // Record-and-replay handlers
+    this.registerHandler('start_recording', new StartRecordingHandler(this.workflowRecorder));
+    this.registerHandler('stop_recording', new StopRecordingHandler(this.workflowRecorder));
+    this.registerHandler('get_recording', new GetRecordingHandler(this.workflowRecorder));
+    this.registerHandler('record_step', new RecordStepHandler(this.workflowRecorder));
+    this.registerHandler('recorder_page_loaded', new RecorderPageLoadedHandler(this.workflowRecorder));
+
+    // Content script command handlers for APIs content scripts cannot use
+    this.registerHandler('start_download', new StartDownloadHandler());
+    this.registerHandler('track_download', new TrackDownloadHandler());
+    this.registerHandler('capture_screenshot', new CaptureScreenshotHandler());
+
+    // Input backend handlers
+    this.registerHandler('get_input_backend', new GetInputBackendHandler());
+    this.registerHandler('set_input_backend', new SetInputBackendHandler());
   }
 }
 
@@ -106,7 +153,7 @@ class ExecuteCommandHandler implements MessageHandler {
   }
 
   async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
-    const { command, context, priority } = message;
+    const { command, context, priority, mode, options } = message;
 
     // Get user ID
     const userId = await this.getUserId();
@@ -119,13 +166,10 @@ class ExecuteCommandHandler implements MessageHandler {
       pageTitle: sender.tab?.title,
     };
 
-    // Execute command
-    const result = await this.orchestrator.processCommand(
-      command,
-      userId,
-      enhancedContext,
-      priority
-    );
+    // Execute command; agent mode re-plans after every step
+    const result = mode === 'agent'
+      ? await this.orchestrator.processAgentCommand(command, userId, enhancedContext, priority, options)
+      : await this.orchestrator.processCommand(command, userId, enhancedContext, priority, options);
 
     return {
       success: true,
@@ -199,6 +243,29 @@ class CancelRequestHandler implements MessageHandler {
   }
 }
 
+/**
+ * Clarification reply handler
+ */
+class AnswerClarificationHandler implements MessageHandler {
+  constructor(private orchestrator: Orchestrator) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'answer_clarification' && message.requestId && message.answer;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { requestId, answer } = message;
+
+    const result = await this.orchestrator.answerClarification(requestId, answer);
+
+    return {
+      success: true,
+      requestId: result.id,
+      status: result.status,
+    };
+  }
+}
+
 /**
  * Update API key handler
  */
@@ -211,19 +278,23 @@ class UpdateApiKeyHandler implements MessageHandler {
 
   async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
     const { apiKey } = message;
+    const dependencies = this.orchestrator.getDependencies();
+    const providerId: ProviderId = isProviderId(message.provider) ? message.provider : dependencies.llmProvider.id;
 
     try {
       // Validate API key format
-      if (!apiKey || typeof apiKey !== 'string' || apiKey.length < 10) {
+      const pattern = PROVIDER_DEFINITIONS[providerId].apiKeyPattern;
+      if (!apiKey || typeof apiKey !== 'string' || apiKey.length < 10 || (pattern && !pattern.test(apiKey))) {
         throw new Error('Invalid API key format');
       }
 
       // Store API key
-      await chrome.storage.local.set({ openrouter_api_key: apiKey });
+      await chrome.storage.local.set({ [getProviderKeyStorageKey(providerId)]: apiKey });
 
-      // Update orchestrator's OpenRouter client
-      const dependencies = this.orchestrator.getDependencies();
-      dependencies.openRouterClient.updateConfig({ apiKey });
+      // Update orchestrator's provider if the key belongs to it
+      if (providerId === dependencies.llmProvider.id) {
+        dependencies.llmProvider.updateConfig({ apiKey });
+      }
 
       return {
         success: true,
@@ -253,7 +324,7 @@ class GetStatisticsHandler implements MessageHandler {
     try {
       const orchestratorStats = this.orchestrator.getStatistics();
       const dependencies = this.orchestrator.getDependencies();
-      const openRouterStats = dependencies.openRouterClient.getUsageStats();
+      const openRouterStats = dependencies.llmProvider.getUsageStats();
       const contextStats = dependencies.contextManager.getStatistics();
       const executionStats = dependencies.executionEngine.getStatistics();
 
@@ -503,6 +574,497 @@ class UpdateSettingsHandler implements MessageHandler {
   }
 }
 
+/**
+ * Get saved workflows handler
+ */
+class GetWorkflowsHandler implements MessageHandler {
+  constructor(private workflowScheduler: WorkflowScheduler) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'get_workflows';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      return {
+        success: true,
+        workflows: await this.workflowScheduler.getLibrary().list(),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Create or update saved workflow handler
+ */
+class SaveWorkflowHandler implements MessageHandler {
+  constructor(private workflowScheduler: WorkflowScheduler) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'save_workflow' && message.workflow;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { workflow } = message;
+
+    try {
+      const saved = await this.workflowScheduler.saveWorkflow(workflow);
+      return {
+        success: true,
+        workflow: saved,
+        workflows: await this.workflowScheduler.getLibrary().list(),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Delete saved workflow handler
+ */
+class DeleteWorkflowHandler implements MessageHandler {
+  constructor(private workflowScheduler: WorkflowScheduler) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'delete_workflow' && message.workflowId;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { workflowId } = message;
+
+    try {
+      const deleted = await this.workflowScheduler.deleteWorkflow(workflowId);
+      return {
+        success: deleted,
+        error: deleted ? undefined : 'Workflow not found',
+        workflows: await this.workflowScheduler.getLibrary().list(),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Run saved workflow now handler
+ */
+class RunWorkflowHandler implements MessageHandler {
+  constructor(private workflowScheduler: WorkflowScheduler) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'run_workflow' && message.workflowId;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { workflowId, tabId } = message;
+
+    try {
+      const run = await this.workflowScheduler.runWorkflow(workflowId, 'manual', tabId ?? sender.tab?.id);
+      return {
+        success: run.success,
+        run,
+        error: run.error,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Saved workflow run history handler
+ */
+class GetWorkflowHistoryHandler implements MessageHandler {
+  constructor(private workflowScheduler: WorkflowScheduler) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'get_workflow_history' && message.workflowId;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { workflowId } = message;
+
+    try {
+      return {
+        success: true,
+        history: await this.workflowScheduler.getLibrary().getHistory(workflowId),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Replay an unsaved workflow definition handler (e.g. a recording being edited)
+ */
+class ReplayWorkflowHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'replay_workflow' && message.definition;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    const { definition, tabId, variables } = message;
+
+    try {
+      const response = await workflowExecutor.runWorkflowDefinition(definition, {
+        tabId: tabId ?? sender.tab?.id,
+        variables,
+      });
+      return {
+        success: response.success,
+        result: response.data,
+        error: response.error?.message,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Get extracted tables handler
+ */
+class GetExtractionsHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'get_extractions';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      return {
+        success: true,
+        extractions: await extractionHistory.list(),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Delete extracted table handler
+ */
+class DeleteExtractionHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'delete_extraction' && message.extractionId;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      const deleted = await extractionHistory.remove(message.extractionId);
+      return {
+        success: deleted,
+        error: deleted ? undefined : 'Extraction not found',
+        extractions: await extractionHistory.list(),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Start recording user actions handler
+ */
+class StartRecordingHandler implements MessageHandler {
+  constructor(private workflowRecorder: WorkflowRecorder) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'start_recording';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const tabId: number | undefined = message.tabId ?? sender.tab?.id ?? activeTab?.id;
+      if (tabId === undefined) {
+        throw new Error('No tab to record');
+      }
+
+      const tab = await chrome.tabs.get(tabId);
+      const session = await this.workflowRecorder.start(tabId, tab.url || '');
+
+      try {
+        await chrome.tabs.sendMessage(tabId, { type: 'START_RECORDING', payload: {} });
+      } catch {
+        // No content script on this page (e.g. chrome:// pages)
+        await this.workflowRecorder.stop();
+        throw new Error('Recording is not available on this page');
+      }
+
+      return {
+        success: true,
+        session,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Stop recording handler; returns the recording as a workflow definition
+ */
+class StopRecordingHandler implements MessageHandler {
+  constructor(private workflowRecorder: WorkflowRecorder) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'stop_recording';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      const { session, definition } = await this.workflowRecorder.stop(message.name);
+
+      chrome.tabs.sendMessage(session.tabId, { type: 'STOP_RECORDING', payload: {} }).catch(() => {
+        // The recorded tab may have been closed
+      });
+
+      return {
+        success: true,
+        definition,
+        maskedVariables: session.maskedVariables,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Current recording handler
+ */
+class GetRecordingHandler implements MessageHandler {
+  constructor(private workflowRecorder: WorkflowRecorder) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'get_recording';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    return {
+      success: true,
+      session: await this.workflowRecorder.getSession(),
+    };
+  }
+}
+
+/**
+ * Recorded action handler (from content script)
+ */
+class RecordStepHandler implements MessageHandler {
+  constructor(private workflowRecorder: WorkflowRecorder) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'record_step' && message.action;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      return {
+        success: await this.workflowRecorder.addAction(sender.tab?.id, message.action),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Page load handler (from content script); tells the page whether to keep recording
+ */
+class RecorderPageLoadedHandler implements MessageHandler {
+  constructor(private workflowRecorder: WorkflowRecorder) {}
+
+  canHandle(message: any): boolean {
+    return message.type === 'recorder_page_loaded' && message.url;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    return {
+      success: true,
+      recording: await this.workflowRecorder.recordPageLoad(sender.tab?.id, message.url),
+    };
+  }
+}
+
+/**
+ * Download a URL handler (from content script)
+ */
+class StartDownloadHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'start_download' && message.url;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      return {
+        success: true,
+        download: await downloadTracker.download(message.url, message.filename, message.timeout),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Follow a download the page started handler (from content script)
+ */
+class TrackDownloadHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'track_download' && message.startedAfter;
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      return {
+        success: true,
+        download: await downloadTracker.waitForNext(message.startedAfter, message.timeout),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Capture the visible part of the sender's tab handler (from content script)
+ */
+class CaptureScreenshotHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'capture_screenshot';
+  }
+
+  async handle(message: any, sender: chrome.runtime.MessageSender): Promise<any> {
+    try {
+      if (sender.tab?.windowId === undefined) {
+        throw new Error('Screenshots can only be requested from a tab');
+      }
+
+      const format = message.format === 'jpeg' ? 'jpeg' : 'png';
+      return {
+        success: true,
+        dataUrl: await chrome.tabs.captureVisibleTab(sender.tab.windowId, { format }),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+const INPUT_BACKENDS: InputBackend[] = ['auto', 'synthetic', 'debugger'];
+
+/**
+ * Get the input backend saved for a URL's origin handler
+ */
+class GetInputBackendHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'get_input_backend';
+  }
+
+  async handle(message: any): Promise<any> {
+    try {
+      return {
+        success: true,
+        backend: await debuggerInput.getBackend(message.url),
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+/**
+ * Save the input backend for an origin handler; a null backend restores the default
+ */
+class SetInputBackendHandler implements MessageHandler {
+  canHandle(message: any): boolean {
+    return message.type === 'set_input_backend' && typeof message.origin === 'string';
+  }
+
+  async handle(message: any): Promise<any> {
+    try {
+      if (message.backend !== null && !INPUT_BACKENDS.includes(message.backend)) {
+        throw new Error(`Unknown input backend: ${message.backend}`);
+      }
+
+      await debuggerInput.setBackend(message.origin, message.backend);
+      return { success: true };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
 /**
  * Message utility functions
  */
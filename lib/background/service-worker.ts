@@ -2,8 +2,25 @@
  * Main service worker for Ray Chrome Extension
  */
 
-import { OpenRouterClient } from '../openrouter/client';
 import { Orchestrator } from '../orchestration/orchestrator';
+import {
+  createProvider,
+  DEFAULT_PROVIDER_SETTINGS,
+  getProviderKeyStorageKey,
+  isProviderId,
+  LLMProvider,
+  PROVIDER_DEFINITIONS,
+  PROVIDER_SETTINGS_STORAGE_KEY,
+  ProviderId,
+  ProviderSettings
+} from '../providers';
+import { CostTracker } from '../openrouter/cost-tracker';
+import { OpenRouterEvent } from '../openrouter/types';
+import { MacroStore } from '../commands/macros';
+import { WorkflowScheduler } from '../workflow-scheduler';
+import { debuggerInput } from '../debugger-input';
+import { networkMonitor } from '../network-monitor';
+import { MessageRouter } from './message-handlers';
 import {
   AgentMessage,
   UIStatus,
@@ -20,8 +37,12 @@ export interface ServiceWorkerConfig {
 
 export class RayServiceWorker {
   private config: ServiceWorkerConfig;
-  private openRouterClient: OpenRouterClient;
+  private llmProvider: LLMProvider;
+  private providerSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+  private costTracker: CostTracker = new CostTracker();
   private orchestrator: Orchestrator;
+  private workflowScheduler: WorkflowScheduler = new WorkflowScheduler();
+  private messageRouter: MessageRouter | null = null;
   private isInitialized: boolean = false;
 
   constructor(config: Partial<ServiceWorkerConfig> = {}) {
@@ -33,6 +54,12 @@ export class RayServiceWorker {
       ...config,
     };
 
+    // Start with the default provider and a placeholder API key
+    // Replaced with the configured provider and key from storage on initialize
+    this.llmProvider = createProvider(DEFAULT_PROVIDER_SETTINGS.activeProvider, {
+      apiKey: 'placeholder-key',
+    });
+
     this.initializeComponents();
     this.setupEventListeners();
   }
@@ -46,8 +73,8 @@ export class RayServiceWorker {
     }
 
     try {
-      // Initialize API key from storage
-      await this.initializeApiKey();
+      // Initialize provider and API key from storage
+      await this.initializeProvider();
 
       // Setup message handlers
       this.setupMessageHandlers();
@@ -61,6 +88,12 @@ export class RayServiceWorker {
       // Setup storage listeners
       this.setupStorageListeners();
 
+      // Restore alarms for scheduled workflows
+      await this.workflowScheduler.syncAlarms();
+
+      // Detach debugger sessions a previous service worker left behind
+      await debuggerInput.detachStaleTabs();
+
       this.isInitialized = true;
       this.log('Service worker initialized successfully');
 
@@ -74,19 +107,14 @@ export class RayServiceWorker {
    * Initialize components
    */
   private initializeComponents(): void {
-    // Initialize OpenRouter client with placeholder API key
-    // Will be updated with actual key from storage
-    this.openRouterClient = new OpenRouterClient({
-      apiKey: 'placeholder-key',
-    });
-
     // Initialize orchestrator
-    this.orchestrator = new Orchestrator(this.openRouterClient, {
+    this.orchestrator = new Orchestrator(this.llmProvider, {
       enableAutoRetry: true,
       maxRetryAttempts: 3,
       enableProgressReporting: true,
       enableConfirmationForHighRisk: true,
       defaultTimeout: this.config.requestTimeout,
+      enableStreaming: true,
     });
 
     // Setup orchestrator event listeners
@@ -109,6 +137,12 @@ export class RayServiceWorker {
     chrome.tabs.onUpdated.addListener(this.onTabUpdated.bind(this));
     chrome.tabs.onActivated.addListener(this.onTabActivated.bind(this));
     chrome.tabs.onRemoved.addListener(this.onTabRemoved.bind(this));
+
+    // Scheduled workflow alarms
+    chrome.alarms.onAlarm.addListener(this.onAlarm.bind(this));
+
+    // Request tracking for network-aware waits
+    networkMonitor.start();
   }
 
   /**
@@ -224,25 +258,62 @@ export class RayServiceWorker {
       onStatusUpdate: (request, status) => {
         this.broadcastStatus(status);
       },
+
+      onPlanUpdated: (request, plan) => {
+        this.broadcastStatus({
+          status: 'processing',
+          message: `Planning... ${plan.length} step${plan.length === 1 ? '' : 's'} so far`,
+          currentStep: plan[plan.length - 1]?.description,
+          totalSteps: plan.length,
+          plan: plan.map(command => command.description),
+          timestamp: Date.now(),
+        });
+      },
     });
   }
 
   /**
-   * Initialize API key from storage
+   * Initialize provider and API key from storage
    */
-  private async initializeApiKey(): Promise<void> {
+  private async initializeProvider(): Promise<void> {
     try {
-      const result = await chrome.storage.local.get(['openrouter_api_key']);
-      if (result.openrouter_api_key) {
-        this.openRouterClient.updateConfig({
-          apiKey: result.openrouter_api_key,
-        });
-        this.log('API key loaded from storage');
-      } else {
-        this.log('No API key found in storage');
+      const result = await chrome.storage.local.get([PROVIDER_SETTINGS_STORAGE_KEY]);
+      const stored = result[PROVIDER_SETTINGS_STORAGE_KEY];
+      if (stored && isProviderId(stored.activeProvider)) {
+        this.providerSettings = { ...DEFAULT_PROVIDER_SETTINGS, ...stored };
       }
+
+      await this.activateProvider(this.providerSettings.activeProvider);
     } catch (error) {
-      this.logError('Failed to load API key from storage', error);
+      this.logError('Failed to load provider settings from storage', error);
+    }
+  }
+
+  /**
+   * Create the given provider from stored preferences and key, and hand it to the orchestrator
+   */
+  private async activateProvider(providerId: ProviderId): Promise<void> {
+    const keyStorageKey = getProviderKeyStorageKey(providerId);
+    const result = await chrome.storage.local.get([keyStorageKey]);
+    const preferences = this.providerSettings.providers[providerId] || {};
+
+    this.llmProvider = createProvider(providerId, {
+      ...preferences,
+      apiKey: result[keyStorageKey] || '',
+    });
+    this.llmProvider.setCostTracker(this.costTracker);
+    this.llmProvider.addEventListener('spend_warning', event => this.onSpendWarning(event));
+    this.llmProvider.addEventListener('model_fallback', event => {
+      if (event.type === 'model_fallback') {
+        this.log(`Model ${event.data.from} failed (${event.data.reason}), falling back to ${event.data.to}`);
+      }
+    });
+    this.orchestrator.setProvider(this.llmProvider);
+
+    if (result[keyStorageKey]) {
+      this.log(`API key loaded from storage for ${providerId}`);
+    } else if (PROVIDER_DEFINITIONS[providerId].requiresApiKey) {
+      this.log(`No API key found in storage for ${providerId}`);
     }
   }
 
@@ -303,14 +374,75 @@ export class RayServiceWorker {
           await this.handleCancelRequest(message, sender, sendResponse);
           break;
 
+        case 'answer_clarification':
+          await this.handleAnswerClarification(message, sender, sendResponse);
+          break;
+
         case 'update_api_key':
           await this.handleUpdateApiKey(message, sender, sendResponse);
           break;
 
+        case 'get_providers':
+          await this.handleGetProviders(message, sender, sendResponse);
+          break;
+
+        case 'update_provider':
+          await this.handleUpdateProvider(message, sender, sendResponse);
+          break;
+
         case 'get_statistics':
           await this.handleGetStatistics(message, sender, sendResponse);
           break;
 
+        case 'get_spend_summary':
+          await this.handleGetSpendSummary(message, sender, sendResponse);
+          break;
+
+        case 'update_spend_limits':
+          await this.handleUpdateSpendLimits(message, sender, sendResponse);
+          break;
+
+        case 'get_macros':
+          await this.handleGetMacros(message, sender, sendResponse);
+          break;
+
+        case 'save_macro':
+          await this.handleSaveMacro(message, sender, sendResponse);
+          break;
+
+        case 'delete_macro':
+          await this.handleDeleteMacro(message, sender, sendResponse);
+          break;
+
+        case 'export_macros':
+          await this.handleExportMacros(message, sender, sendResponse);
+          break;
+
+        case 'import_macros':
+          await this.handleImportMacros(message, sender, sendResponse);
+          break;
+
+        case 'get_workflows':
+        case 'save_workflow':
+        case 'delete_workflow':
+        case 'run_workflow':
+        case 'get_workflow_history':
+        case 'replay_workflow':
+        case 'get_extractions':
+        case 'delete_extraction':
+        case 'start_recording':
+        case 'stop_recording':
+        case 'get_recording':
+        case 'record_step':
+        case 'recorder_page_loaded':
+        case 'start_download':
+        case 'track_download':
+        case 'capture_screenshot':
+        case 'get_input_backend':
+        case 'set_input_backend':
+          sendResponse(await this.getMessageRouter().routeMessage(message, sender));
+          break;
+
         case 'command_response':
           // Response from content script
           await this.handleCommandResponse(message, sender, sendResponse);
@@ -326,6 +458,23 @@ export class RayServiceWorker {
     }
   }
 
+  /**
+   * Handle alarm event: run the scheduled workflow it belongs to
+   */
+  private async onAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    try {
+      const run = await this.workflowScheduler.handleAlarm(alarm);
+      if (run) {
+        this.log('Scheduled workflow finished', run.workflowId, run.summary);
+        chrome.runtime.sendMessage({ type: 'workflow_run_completed', run }).catch(() => {
+          // Popup might not be open, that's okay
+        });
+      }
+    } catch (error) {
+      this.logError('Failed to run scheduled workflow', error);
+    }
+  }
+
   /**
    * Handle tab updated event
    */
@@ -390,9 +539,10 @@ export class RayServiceWorker {
     areaName: string
   ): void {
     if (areaName === 'local') {
-      if (changes.openrouter_api_key) {
-        this.openRouterClient.updateConfig({
-          apiKey: changes.openrouter_api_key.newValue,
+      const keyStorageKey = getProviderKeyStorageKey(this.llmProvider.id);
+      if (changes[keyStorageKey]) {
+        this.llmProvider.updateConfig({
+          apiKey: changes[keyStorageKey].newValue || '',
         });
         this.log('API key updated');
       }
@@ -407,7 +557,7 @@ export class RayServiceWorker {
     sender: chrome.runtime.MessageSender,
     sendResponse: (response?: any) => void
   ): Promise<void> {
-    const { command, context, priority } = message;
+    const { command, context, priority, mode, options } = message;
 
     try {
       // Get user ID (could be from storage or generate one)
@@ -420,13 +570,10 @@ export class RayServiceWorker {
         currentUrl: sender.tab?.url,
       };
 
-      // Execute command through orchestrator
-      const result = await this.orchestrator.processCommand(
-        command,
-        userId,
-        enhancedContext,
-        priority
-      );
+      // Execute command through orchestrator; agent mode re-plans after every step
+      const result = mode === 'agent'
+        ? await this.orchestrator.processAgentCommand(command, userId, enhancedContext, priority, options)
+        : await this.orchestrator.processCommand(command, userId, enhancedContext, priority, options);
 
       sendResponse({ success: true, requestId: result.id });
 
@@ -481,6 +628,33 @@ export class RayServiceWorker {
     }
   }
 
+  /**
+   * Handle the user's reply to a clarifying question
+   */
+  private async handleAnswerClarification(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { requestId, answer } = message;
+
+    if (!requestId || typeof answer !== 'string' || !answer.trim()) {
+      sendResponse({ success: false, error: 'Request ID and answer required' });
+      return;
+    }
+
+    try {
+      const result = await this.orchestrator.answerClarification(requestId, answer.trim());
+      sendResponse({ success: true, requestId: result.id, status: result.status });
+    } catch (error) {
+      this.logError('Failed to answer clarification', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Handle update API key message
    */
@@ -490,14 +664,17 @@ export class RayServiceWorker {
     sendResponse: (response?: any) => void
   ): Promise<void> {
     const { apiKey } = message;
+    const providerId: ProviderId = isProviderId(message.provider) ? message.provider : this.llmProvider.id;
 
     if (apiKey) {
       try {
         // Store API key
-        await chrome.storage.local.set({ openrouter_api_key: apiKey });
+        await chrome.storage.local.set({ [getProviderKeyStorageKey(providerId)]: apiKey });
 
-        // Update client
-        this.openRouterClient.updateConfig({ apiKey });
+        // Update client if the key belongs to the active provider
+        if (providerId === this.llmProvider.id) {
+          this.llmProvider.updateConfig({ apiKey });
+        }
 
         sendResponse({ success: true });
         this.log('API key updated successfully');
@@ -514,6 +691,83 @@ export class RayServiceWorker {
     }
   }
 
+  /**
+   * Handle get providers message
+   */
+  private async handleGetProviders(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    try {
+      const providers = Object.values(PROVIDER_DEFINITIONS).map(definition => ({
+        id: definition.id,
+        name: definition.name,
+        requiresApiKey: definition.requiresApiKey,
+        capabilities: definition.capabilities,
+        preferences: this.providerSettings.providers[definition.id] || {},
+      }));
+
+      sendResponse({
+        success: true,
+        activeProvider: this.llmProvider.id,
+        capabilities: this.llmProvider.getCapabilities(),
+        models: await this.llmProvider.listModels(),
+        providers,
+      });
+
+    } catch (error) {
+      this.logError('Failed to get providers', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle update provider message
+   */
+  private async handleUpdateProvider(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { provider, preferences } = message;
+
+    if (!isProviderId(provider)) {
+      sendResponse({ success: false, error: 'Unknown provider' });
+      return;
+    }
+
+    try {
+      this.providerSettings = {
+        activeProvider: provider,
+        providers: {
+          ...this.providerSettings.providers,
+          [provider]: { ...this.providerSettings.providers[provider], ...preferences },
+        },
+      };
+
+      await chrome.storage.local.set({ [PROVIDER_SETTINGS_STORAGE_KEY]: this.providerSettings });
+      await this.activateProvider(provider);
+
+      sendResponse({
+        success: true,
+        activeProvider: provider,
+        capabilities: this.llmProvider.getCapabilities(),
+      });
+      this.log(`Switched LLM provider to ${provider}`);
+
+    } catch (error) {
+      this.logError('Failed to update provider', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Handle get statistics message
    */
@@ -525,7 +779,7 @@ export class RayServiceWorker {
     try {
       const orchestratorStats = this.orchestrator.getStatistics();
       const dependencies = this.orchestrator.getDependencies();
-      const openRouterStats = this.openRouterClient.getUsageStats();
+      const openRouterStats = this.llmProvider.getUsageStats();
       const contextStats = dependencies.contextManager.getStatistics();
       const executionStats = dependencies.executionEngine.getStatistics();
 
@@ -548,6 +802,215 @@ export class RayServiceWorker {
     }
   }
 
+  /**
+   * Handle get spend summary message
+   */
+  private async handleGetSpendSummary(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    try {
+      sendResponse({ success: true, summary: await this.costTracker.getSummary() });
+    } catch (error) {
+      this.logError('Failed to get spend summary', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle update spend limits message
+   */
+  private async handleUpdateSpendLimits(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { limits } = message;
+
+    if (!limits || typeof limits !== 'object') {
+      sendResponse({ success: false, error: 'Spend limits required' });
+      return;
+    }
+
+    try {
+      await this.costTracker.setLimits(limits);
+      sendResponse({ success: true, summary: await this.costTracker.getSummary() });
+      this.log('Spend limits updated', limits);
+
+    } catch (error) {
+      this.logError('Failed to update spend limits', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle get macros message
+   */
+  private async handleGetMacros(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    try {
+      sendResponse({ success: true, macros: await this.getMacroStore().list() });
+    } catch (error) {
+      this.logError('Failed to get macros', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle save macro message
+   */
+  private async handleSaveMacro(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { macro } = message;
+
+    if (!macro || typeof macro !== 'object') {
+      sendResponse({ success: false, error: 'Macro required' });
+      return;
+    }
+
+    try {
+      const store = this.getMacroStore();
+      const saved = await store.save(macro);
+      sendResponse({ success: true, macro: saved, macros: await store.list() });
+      this.log('Macro saved', saved.trigger);
+
+    } catch (error) {
+      this.logError('Failed to save macro', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle delete macro message
+   */
+  private async handleDeleteMacro(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { macroId } = message;
+
+    if (!macroId) {
+      sendResponse({ success: false, error: 'Macro ID required' });
+      return;
+    }
+
+    try {
+      const store = this.getMacroStore();
+      const removed = await store.remove(macroId);
+      sendResponse({ success: removed, macros: await store.list(), error: removed ? undefined : 'Macro not found' });
+
+    } catch (error) {
+      this.logError('Failed to delete macro', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle export macros message
+   */
+  private async handleExportMacros(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    try {
+      sendResponse({ success: true, library: await this.getMacroStore().exportLibrary() });
+    } catch (error) {
+      this.logError('Failed to export macros', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Handle import macros message
+   */
+  private async handleImportMacros(
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+  ): Promise<void> {
+    const { library, replaceExisting } = message;
+
+    if (!library) {
+      sendResponse({ success: false, error: 'Macro library required' });
+      return;
+    }
+
+    try {
+      const store = this.getMacroStore();
+      const result = await store.importLibrary(library, replaceExisting === true);
+      sendResponse({ success: true, ...result, macros: await store.list() });
+      this.log('Macros imported', result);
+
+    } catch (error) {
+      this.logError('Failed to import macros', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Macros live with the orchestrator's parser so edits apply to the next command
+   */
+  private getMacroStore(): MacroStore {
+    return this.orchestrator.getDependencies().commandParser.getMacroStore();
+  }
+
+  /**
+   * Saved workflow messages go through the router, which shares this worker's scheduler
+   */
+  private getMessageRouter(): MessageRouter {
+    if (!this.messageRouter) {
+      this.messageRouter = new MessageRouter(this.orchestrator, this.workflowScheduler);
+    }
+    return this.messageRouter;
+  }
+
+  /**
+   * Forward soft spend cap warnings to the popup
+   */
+  private onSpendWarning(event: OpenRouterEvent): void {
+    if (event.type !== 'spend_warning') {
+      return;
+    }
+
+    this.log('Spend warning', event.data.message);
+    chrome.runtime.sendMessage({
+      type: 'spend_warning',
+      message: event.data.message,
+    }).catch(() => {
+      // Popup might not be open, that's okay
+    });
+  }
+
   /**
    * Handle command response from content script
    */
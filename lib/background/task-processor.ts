@@ -2,7 +2,7 @@
  * Task processor for handling AI command processing in background
  */
 
-import { OpenRouterClient } from '../openrouter/client';
+import { LLMProvider } from '../providers/types';
 import { CommandParser } from '../commands/parser';
 import { CommandValidator } from '../commands/validator';
 import { 
@@ -51,7 +51,6 @@ export interface TaskResult {
 
 export class TaskProcessor {
   private config: TaskProcessorConfig;
-  private openRouterClient: OpenRouterClient;
   private commandParser: CommandParser;
   private commandValidator: CommandValidator;
   private taskQueue: Task[] = [];
@@ -61,7 +60,7 @@ export class TaskProcessor {
   private isProcessing: boolean = false;
 
   constructor(
-    openRouterClient: OpenRouterClient,
+    llmProvider: LLMProvider,
     config: Partial<TaskProcessorConfig> = {}
   ) {
     this.config = {
@@ -74,8 +73,7 @@ export class TaskProcessor {
       ...config,
     };
 
-    this.openRouterClient = openRouterClient;
-    this.commandParser = new CommandParser(openRouterClient);
+    this.commandParser = new CommandParser(llmProvider);
     this.commandValidator = new CommandValidator();
 
     this.startTaskProcessor();
@@ -8,12 +8,49 @@ import {
   AutomationResponse, 
   AutomationError, 
   TabInfo,
-  AutomationConfig 
+  AutomationConfig,
+  ExtractedTable,
+  ExtractionColumn,
+  InputBackend
 } from './automation-types';
+import { actionabilityGate } from './actionability';
 import { chromeApi } from './chrome-api-wrappers';
+import { debuggerInput, DispatchOptions } from './debugger-input';
+import { queryDeepSelectorAll } from './deep-selector';
+import { extractionHistory } from './extraction-history';
+import { networkMonitor } from './network-monitor';
+import { dedupeRows, formatTable } from './table-export';
+import { executeScriptWithArgsInAllFrames, executeScriptWithArgsInFrames } from './utils/chrome-scripting';
+
+const TOP_FRAME_ID = 0;
+const ELEMENT_POLL_INTERVAL = 250;
+
+// Frame a command's element was found in, reported back with its response
+interface ResolvedTarget {
+  frameId?: number;
+}
+
+// Focus an element for trusted typing, optionally selecting its contents so they are replaced
+const focusElement = (selector: string, selectContents: boolean) => {
+  const deep = (globalThis as any).__rayDeepMatches;
+  const element = (deep?.selector === selector && deep.elements[0]?.isConnected
+    ? deep.elements[0]
+    : document.querySelector(selector)) as HTMLElement | null;
+  if (!element) {
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  element.focus();
+  if (selectContents && (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+    element.select();
+  }
+  return true;
+};
 
 export class BrowserAutomation {
   private config: AutomationConfig;
+  // When the latest command per tab started; network waits match requests from the command before them
+  private commandStartTimes: Map<number | 'active', { current: number; previous: number }> = new Map();
   
   constructor(config?: Partial<AutomationConfig>) {
     this.config = {
@@ -34,6 +71,12 @@ export class BrowserAutomation {
    */
   async executeCommand(command: AnyAutomationCommand): Promise<AutomationResponse> {
     const startTime = Date.now();
+    const target: ResolvedTarget = {};
+    const tabKey = (command as any).tabId ?? 'active';
+    this.commandStartTimes.set(tabKey, {
+      current: startTime,
+      previous: this.commandStartTimes.get(tabKey)?.current ?? startTime
+    });
     
     try {
       let result: any;
@@ -44,19 +87,19 @@ export class BrowserAutomation {
           break;
           
         case 'click':
-          result = await this.executeClick(command);
+          result = await this.executeClick(command, target);
           break;
           
         case 'fillForm':
-          result = await this.executeFillForm(command);
+          result = await this.executeFillForm(command, target);
           break;
           
         case 'type':
-          result = await this.executeType(command);
+          result = await this.executeType(command, target);
           break;
           
         case 'scroll':
-          result = await this.executeScroll(command);
+          result = await this.executeScroll(command, target);
           break;
           
         case 'wait':
@@ -64,11 +107,27 @@ export class BrowserAutomation {
           break;
           
         case 'waitForElement':
-          result = await this.executeWaitForElement(command);
+          result = await this.executeWaitForElement(command, target);
+          break;
+          
+        case 'waitForNetworkIdle':
+          result = await this.executeWaitForNetworkIdle(command);
+          break;
+          
+        case 'waitForRequest':
+          result = await this.executeWaitForRequest(command);
+          break;
+          
+        case 'waitForResponse':
+          result = await this.executeWaitForResponse(command);
           break;
           
         case 'extractText':
-          result = await this.executeExtractText(command);
+          result = await this.executeExtractText(command, target);
+          break;
+          
+        case 'extractData':
+          result = await this.executeExtractData(command);
           break;
           
         case 'screenshot':
@@ -101,7 +160,8 @@ export class BrowserAutomation {
         commandId: command.id,
         success: true,
         timestamp: endTime,
-        data: result
+        data: result,
+        frameId: target.frameId
       };
       
     } catch (error) {
@@ -111,6 +171,7 @@ export class BrowserAutomation {
         commandId: command.id,
         success: false,
         timestamp: endTime,
+        frameId: target.frameId,
         error: {
           code: 'COMMAND_EXECUTION_FAILED',
           message: error.message,
@@ -136,15 +197,26 @@ export class BrowserAutomation {
   /**
    * Execute click command
    */
-  private async executeClick(command: any): Promise<boolean> {
+  private async executeClick(command: any, target: ResolvedTarget): Promise<boolean> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
     
-    if (command.waitForSelector !== false) {
-      await this.waitForElement(tabId, command.selector, command.timeout || this.config.defaultTimeout);
-    }
+    const frameId = target.frameId = command.waitForSelector !== false
+      ? await this.waitForElement(tabId, command.selector, command.timeout || this.config.defaultTimeout)
+      : await this.locateElement(tabId, command.selector) ?? TOP_FRAME_ID;
+    const point = await actionabilityGate.ensure(
+      command.selector,
+      'click',
+      { timeout: command.timeout || this.config.defaultTimeout },
+      tabId,
+      frameId
+    );
     
     const clickFunction = (selector: string) => {
-      const element = document.querySelector(selector);
+      // Prefer what the deep search just found in this frame
+      const deep = (globalThis as any).__rayDeepMatches;
+      const element = deep?.selector === selector && deep.elements[0]?.isConnected
+        ? deep.elements[0] as HTMLElement
+        : document.querySelector(selector);
       if (!element) {
         throw new Error(`Element not found: ${selector}`);
       }
@@ -174,17 +246,28 @@ export class BrowserAutomation {
       return true;
     };
     
-    return await chromeApi.executeScript(tabId, clickFunction, [command.selector]);
+    return await this.dispatchInput(
+      command,
+      tabId,
+      frameId,
+      async () => debuggerInput.click(tabId, this.requirePoint(point, command.selector)),
+      () => this.executeInFrame(tabId, frameId, clickFunction, [command.selector])
+    );
   }
 
   /**
    * Execute form fill command
    */
-  private async executeFillForm(command: any): Promise<boolean> {
+  private async executeFillForm(command: any, target: ResolvedTarget): Promise<boolean> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    const frameId = target.frameId = await this.locateElement(tabId, command.selector) ?? TOP_FRAME_ID;
+    await actionabilityGate.ensure(command.selector, 'type', { timeout: this.config.defaultTimeout }, tabId, frameId);
     
     const fillFunction = (selector: string, value: string, clearFirst: boolean) => {
-      const element = document.querySelector(selector) as HTMLInputElement;
+      const deep = (globalThis as any).__rayDeepMatches;
+      const element = (deep?.selector === selector && deep.elements[0]?.isConnected
+        ? deep.elements[0]
+        : document.querySelector(selector)) as HTMLInputElement;
       
       if (!element) {
         throw new Error(`Element not found: ${selector}`);
@@ -207,21 +290,38 @@ export class BrowserAutomation {
       return true;
     };
     
-    return await chromeApi.executeScript(
-      tabId, 
-      fillFunction, 
-      [command.selector, command.value, command.clearFirst || false]
+    return await this.dispatchInput(
+      command,
+      tabId,
+      frameId,
+      async () => {
+        await this.executeInFrame(tabId, frameId, focusElement, [command.selector, true]);
+        await debuggerInput.type(tabId, command.value);
+      },
+      () => this.executeInFrame(
+        tabId, 
+        frameId, 
+        fillFunction, 
+        [command.selector, command.value, command.clearFirst || false]
+      ),
+      // Keystrokes may already have reached the page
+      { repeatable: false }
     );
   }
 
   /**
    * Execute type command
    */
-  private async executeType(command: any): Promise<boolean> {
+  private async executeType(command: any, target: ResolvedTarget): Promise<boolean> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    const frameId = target.frameId = await this.locateElement(tabId, command.selector) ?? TOP_FRAME_ID;
+    await actionabilityGate.ensure(command.selector, 'type', { timeout: this.config.defaultTimeout }, tabId, frameId);
     
     const typeFunction = async (selector: string, text: string, clearFirst: boolean, delay: number) => {
-      const element = document.querySelector(selector) as HTMLInputElement;
+      const deep = (globalThis as any).__rayDeepMatches;
+      const element = (deep?.selector === selector && deep.elements[0]?.isConnected
+        ? deep.elements[0]
+        : document.querySelector(selector)) as HTMLInputElement;
       
       if (!element) {
         throw new Error(`Element not found: ${selector}`);
@@ -255,24 +355,42 @@ export class BrowserAutomation {
       return true;
     };
     
-    return await chromeApi.executeScript(
-      tabId, 
-      typeFunction, 
-      [command.selector, command.text, command.clearFirst || false, command.delay || 0]
+    return await this.dispatchInput(
+      command,
+      tabId,
+      frameId,
+      async () => {
+        await this.executeInFrame(tabId, frameId, focusElement, [command.selector, command.clearFirst || false]);
+        await debuggerInput.type(tabId, command.text, { clearFirst: command.clearFirst || false, delay: command.delay || 0 });
+      },
+      () => this.executeInFrame(
+        tabId, 
+        frameId, 
+        typeFunction, 
+        [command.selector, command.text, command.clearFirst || false, command.delay || 0]
+      ),
+      // Keystrokes may already have reached the page
+      { repeatable: false }
     );
   }
 
   /**
    * Execute scroll command
    */
-  private async executeScroll(command: any): Promise<boolean> {
+  private async executeScroll(command: any, target: ResolvedTarget): Promise<boolean> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    target.frameId = command.selector
+      ? await this.locateElement(tabId, command.selector) ?? TOP_FRAME_ID
+      : TOP_FRAME_ID;
     
     const scrollFunction = (direction: string, amount?: number, selector?: string) => {
       let element: Element | Window = window;
       
       if (selector) {
-        element = document.querySelector(selector) || window;
+        const deep = (globalThis as any).__rayDeepMatches;
+        element = (deep?.selector === selector && deep.elements[0]?.isConnected
+          ? deep.elements[0]
+          : document.querySelector(selector)) || window;
       }
       
       let scrollOptions: ScrollToOptions = { behavior: 'smooth' };
@@ -312,8 +430,9 @@ export class BrowserAutomation {
       return true;
     };
     
-    return await chromeApi.executeScript(
+    return await this.executeInFrame(
       tabId, 
+      target.frameId, 
       scrollFunction, 
       [command.direction, command.amount, command.selector]
     );
@@ -331,38 +450,167 @@ export class BrowserAutomation {
   /**
    * Execute wait for element command
    */
-  private async executeWaitForElement(command: any): Promise<boolean> {
+  private async executeWaitForElement(command: any, target: ResolvedTarget): Promise<boolean> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
-    return await this.waitForElement(tabId, command.selector, command.timeout || this.config.defaultTimeout);
+    target.frameId = await this.waitForElement(tabId, command.selector, command.timeout || this.config.defaultTimeout);
+    return true;
+  }
+
+  /**
+   * Execute wait for network idle command
+   */
+  private async executeWaitForNetworkIdle(command: any): Promise<any> {
+    const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    return networkMonitor.waitForNetworkIdle(tabId, {
+      idleMs: command.idleMs,
+      maxInflight: command.maxInflight,
+      timeout: command.timeout || this.config.defaultTimeout
+    });
+  }
+
+  /**
+   * Execute wait for request command
+   */
+  private async executeWaitForRequest(command: any): Promise<any> {
+    const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    return networkMonitor.waitForRequest(tabId, command.urlPattern, {
+      method: command.method,
+      since: command.since ?? this.getPreviousCommandStart(command),
+      timeout: command.timeout || this.config.defaultTimeout
+    });
+  }
+
+  /**
+   * Execute wait for response command
+   */
+  private async executeWaitForResponse(command: any): Promise<any> {
+    const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    return networkMonitor.waitForResponse(tabId, command.urlPattern, {
+      method: command.method,
+      status: command.status !== undefined ? Number(command.status) : undefined,
+      since: command.since ?? this.getPreviousCommandStart(command),
+      timeout: command.timeout || this.config.defaultTimeout
+    });
+  }
+
+  /**
+   * When the command before this one started, so a wait placed after a click still sees
+   * the request the click made even if it finished before the wait began
+   */
+  private getPreviousCommandStart(command: any): number {
+    return this.commandStartTimes.get(command.tabId ?? 'active')?.previous ?? Date.now();
   }
 
   /**
    * Execute extract text command
    */
-  private async executeExtractText(command: any): Promise<string> {
+  private async executeExtractText(command: any, target: ResolvedTarget): Promise<string | string[]> {
     const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    target.frameId = await this.locateElement(tabId, command.selector) ?? TOP_FRAME_ID;
     
-    const extractFunction = (selector: string, attribute?: string) => {
-      const element = document.querySelector(selector);
+    const extractFunction = (selector: string, attribute?: string, all?: boolean) => {
+      const read = (element: Element) => attribute
+        ? element.getAttribute(attribute) || ''
+        : element.textContent || '';
+
+      const deep = (globalThis as any).__rayDeepMatches;
+      const matches: Element[] = deep?.selector === selector
+        ? deep.elements.filter((element: Element) => element.isConnected)
+        : Array.from(document.querySelectorAll(selector));
+
+      // Lists are for looping over, so no matches is an empty list rather than an error
+      if (all) {
+        return matches.map(read);
+      }
+
+      const element = matches[0];
       
       if (!element) {
         throw new Error(`Element not found: ${selector}`);
       }
       
-      if (attribute) {
-        return element.getAttribute(attribute) || '';
-      }
-      
-      return element.textContent || '';
+      return read(element);
     };
     
-    return await chromeApi.executeScript(
+    return await this.executeInFrame(
       tabId, 
+      target.frameId, 
       extractFunction, 
-      [command.selector, command.attribute]
+      [command.selector, command.attribute, command.all === true]
     );
   }
 
+  /**
+   * Execute extract data command: read the page's repeated records as rows, following
+   * pagination up to maxPages, and keep the table for download from the popup
+   */
+  private async executeExtractData(command: any): Promise<ExtractedTable> {
+    const tabId = command.tabId || (await chromeApi.getActiveTab()).id;
+    const pagination = command.pagination || 'none';
+    const maxPages = pagination === 'none' ? 1 : command.maxPages || 10;
+    const maxRows = command.maxRows || Infinity;
+    const timeout = command.timeout || this.config.defaultTimeout;
+
+    let table: ExtractedTable | null = null;
+    while (table === null || table.pages < maxPages) {
+      const page = await this.sendToPage(tabId, 'EXTRACT_DATA', {
+        selector: command.selector,
+        recordSelector: table?.schema.recordSelector || command.recordSelector,
+        columns: table?.schema.columns || command.columns
+      });
+
+      if (!table) {
+        table = {
+          columns: page.schema.columns.map((column: ExtractionColumn) => column.name),
+          rows: [],
+          schema: page.schema,
+          url: page.url,
+          pages: 0,
+          extractedAt: Date.now()
+        };
+      }
+      table.pages++;
+
+      // Scrolling keeps earlier records on the page, so they are read again and dropped here
+      const found = page.rows.length;
+      table.rows = dedupeRows([...table.rows, ...page.rows], command.dedupeBy).slice(0, maxRows);
+      if (table.rows.length >= maxRows || table.pages >= maxPages || found === 0) {
+        break;
+      }
+
+      const next = await this.sendToPage(tabId, 'NEXT_PAGE', {
+        pagination,
+        recordSelector: table.schema.recordSelector,
+        nextSelector: command.nextSelector,
+        timeout
+      });
+      if (next.url) {
+        await chromeApi.navigateToUrl(tabId, next.url);
+        await chromeApi.waitForTabToLoad(tabId, timeout);
+      } else if (!next.advanced) {
+        break;
+      }
+    }
+
+    if (command.format) {
+      table.output = formatTable(table, command.format);
+    }
+
+    await extractionHistory.add(command.name || new URL(table.url).hostname, table);
+    return table;
+  }
+
+  /**
+   * Send a message to the tab's content script, throwing when it reports a failure
+   */
+  private async sendToPage(tabId: number, type: string, payload: any): Promise<any> {
+    const response = await chromeApi.sendMessage(tabId, { type, payload, timestamp: Date.now() });
+    if (!response?.success) {
+      throw new Error(response?.error || `No response from page to ${type}`);
+    }
+    return response;
+  }
+
   /**
    * Execute screenshot command
    */
@@ -425,39 +673,91 @@ export class BrowserAutomation {
   }
 
   /**
-   * Wait for an element to appear in the DOM
+   * Wait for an element to appear in any frame, returning the frame it is in
    */
-  private async waitForElement(tabId: number, selector: string, timeout: number): Promise<boolean> {
-    const waitFunction = (selector: string, timeoutMs: number) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = () => {
-          const element = document.querySelector(selector);
-          
-          if (element) {
-            resolve(true);
-            return;
-          }
-          
-          if (Date.now() - startTime > timeoutMs) {
-            reject(new Error(`Element not found within timeout: ${selector}`));
-            return;
-          }
-          
-          setTimeout(checkElement, 100);
-        };
-        
-        checkElement();
-      });
-    };
-    
+  private async waitForElement(tabId: number, selector: string, timeout: number): Promise<number> {
+    const startTime = Date.now();
+
     try {
-      return await chromeApi.executeScript(tabId, waitFunction, [selector, timeout]);
+      for (;;) {
+        const frameId = await this.locateElement(tabId, selector);
+        if (frameId !== null) {
+          return frameId;
+        }
+
+        if (Date.now() - startTime > timeout) {
+          throw new Error(`Element not found within timeout: ${selector}`);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, ELEMENT_POLL_INTERVAL));
+      }
     } catch (error) {
       throw new Error(`Failed to wait for element: ${error.message}`);
     }
   }
+
+  /**
+   * Find the frame holding a selector's element, searching open shadow roots and every frame
+   * Cross-origin frames can only be reached by injecting into them, so the search runs in all frames;
+   * null when none has a match
+   */
+  private async locateElement(tabId: number, selector: string): Promise<number | null> {
+    const results = await executeScriptWithArgsInAllFrames(tabId, queryDeepSelectorAll, [selector]);
+
+    // Elements come back as empty objects, so only the number of matches survives
+    const frameIds = results
+      .filter(result => Array.isArray(result.result) && result.result.length > 0)
+      .map(result => result.frameId)
+      .sort((a, b) => a - b);
+
+    return frameIds.length > 0 ? frameIds[0] : null;
+  }
+
+  /**
+   * Run a command's script in the frame its element was found in
+   */
+  /**
+   * Run an interaction with the input backend chosen for the command or the page's origin.
+   * Trusted input targets top-frame viewport points, so elements inside frames get synthetic events
+   */
+  private async dispatchInput(
+    command: any,
+    tabId: number,
+    frameId: number,
+    trusted: () => Promise<void>,
+    synthetic: () => Promise<boolean>,
+    options: DispatchOptions = {}
+  ): Promise<boolean> {
+    const backend: InputBackend | undefined = frameId === TOP_FRAME_ID ? command.inputBackend : 'synthetic';
+    return debuggerInput.dispatch(
+      (await chromeApi.getTab(tabId)).url,
+      backend,
+      async () => {
+        await trusted();
+        return true;
+      },
+      synthetic,
+      options
+    );
+  }
+
+  private requirePoint(point: { x: number; y: number } | undefined, selector: string): { x: number; y: number } {
+    if (!point) {
+      throw new Error(`No point to click for element: ${selector}`);
+    }
+    return point;
+  }
+
+  private async executeInFrame(
+    tabId: number,
+    frameId: number,
+    func: (...args: any[]) => any,
+    args: any[]
+  ): Promise<any> {
+    const [result] = await executeScriptWithArgsInFrames(tabId, [frameId], func, args);
+    return result?.result;
+  }
 }
 
 // Export singleton instance for convenience
+export const browserAutomation = new BrowserAutomation();
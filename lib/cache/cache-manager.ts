@@ -3,6 +3,7 @@
  */
 
 import { Logger, defaultLogger } from '../utils/logger';
+import { getCommandSignature, hashString, trigramSimilarity } from './semantic-key';
 
 export interface CacheEntry<T = any> {
   key: string;
@@ -24,6 +25,24 @@ export interface CacheConfig {
   enablePersistence: boolean;
   storageKey: string;
   evictionPolicy: 'lru' | 'lfu' | 'ttl' | 'size';
+  enableSimilarityLookup: boolean; // let paraphrased commands reuse cached values
+  similarityThreshold: number; // minimum trigram similarity for a semantic hit
+}
+
+// Key for values cached by command text rather than exact key
+export interface SemanticCacheKey {
+  text: string; // command text, normalised before use
+  scope: string; // entries are only shared within a scope, e.g. a page origin
+  fingerprint?: string; // page structure fingerprint; entries from another structure are dropped
+  model?: string; // model (or fallback chain) that produced the value
+  tools?: string[]; // names of the tools offered with the request
+  locale?: string; // language the command was written in
+}
+
+export interface SemanticCacheHit<T = any> {
+  key: string;
+  value: T;
+  similarity: number; // 1 for an exact match of the normalised structure
 }
 
 export interface CacheStatistics {
@@ -47,10 +66,11 @@ export class CacheManager {
   private cleanupTimer?: NodeJS.Timeout;
   private totalAccessTime: number = 0;
   private accessCount: number = 0;
+  private ready: Promise<void>;
 
   private constructor(config: Partial<CacheConfig> = {}, logger?: Logger) {
     this.config = {
-      maxSize: 100 * 1024 * 1024, // 100MB
+      maxSize: 8 * 1024 * 1024, // 8MB, within the chrome.storage.local quota
       maxAge: 30 * 60 * 1000, // 30 minutes
       cleanupInterval: 5 * 60 * 1000, // 5 minutes
       enableCompression: false,
@@ -58,6 +78,8 @@ export class CacheManager {
       enablePersistence: true,
       storageKey: 'ray_cache',
       evictionPolicy: 'lru',
+      enableSimilarityLookup: true,
+      similarityThreshold: 0.8,
       ...config,
     };
 
@@ -74,7 +96,7 @@ export class CacheManager {
       averageAccessTime: 0,
     };
 
-    this.initializeCache();
+    this.ready = this.initializeCache();
   }
 
   /**
@@ -91,6 +113,7 @@ export class CacheManager {
    * Get value from cache
    */
   async get<T = any>(key: string): Promise<T | null> {
+    await this.ready;
     const startTime = performance.now();
     
     try {
@@ -140,6 +163,8 @@ export class CacheManager {
     ttl?: number,
     metadata?: any
   ): Promise<void> {
+    await this.ready;
+
     try {
       const now = Date.now();
       const size = this.calculateSize(value);
@@ -199,6 +224,8 @@ export class CacheManager {
    * Check if key exists in cache
    */
   async has(key: string): Promise<boolean> {
+    await this.ready;
+
     try {
       const entry = this.cache.get(key);
       if (!entry) {
@@ -217,6 +244,140 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Look up a value by command text
+   * Falls back to the most similar command in the same scope when similarity lookup is enabled;
+   * only the command structure is fuzzy, its values (numbers, URLs, quoted text, selectors) must match exactly
+   */
+  async getSemantic<T = any>(semanticKey: SemanticCacheKey): Promise<SemanticCacheHit<T> | null> {
+    await this.ready;
+
+    const { structure, values } = getCommandSignature(semanticKey.text);
+    const variant = this.getSemanticVariant(semanticKey);
+    let best: { entry: CacheEntry<T>; similarity: number } | null = null;
+    let invalidated = 0;
+
+    for (const [key, entry] of this.cache.entries()) {
+      const metadata = entry.metadata;
+      if (!metadata?.semantic || metadata.scope !== semanticKey.scope || metadata.variant !== variant) {
+        continue;
+      }
+
+      // The page changed shape since this value was cached
+      const stale = semanticKey.fingerprint !== undefined && metadata.fingerprint !== semanticKey.fingerprint;
+      if (stale || this.isExpired(entry)) {
+        this.cache.delete(key);
+        invalidated++;
+        continue;
+      }
+
+      if (!this.sameValues(values, metadata.values)) {
+        continue;
+      }
+
+      const similarity = metadata.structure === structure
+        ? 1
+        : this.config.enableSimilarityLookup ? trigramSimilarity(structure, metadata.structure) : 0;
+      if (similarity >= this.config.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (invalidated > 0) {
+      this.statistics.deletes += invalidated;
+      this.logger.debug('CACHE', `Invalidated ${invalidated} entries for ${semanticKey.scope}`);
+    }
+
+    if (!best) {
+      this.statistics.misses++;
+      this.updateStatistics();
+      return null;
+    }
+
+    best.entry.accessCount++;
+    best.entry.lastAccessed = Date.now();
+    this.statistics.hits++;
+    this.updateStatistics();
+
+    this.logger.debug('CACHE', `Semantic cache hit: ${best.entry.key}`, { similarity: best.similarity });
+    return { key: best.entry.key, value: best.entry.value, similarity: best.similarity };
+  }
+
+  /**
+   * Store a value under normalised command text
+   */
+  async setSemantic<T = any>(semanticKey: SemanticCacheKey, value: T, ttl?: number): Promise<string> {
+    const { structure, values } = getCommandSignature(semanticKey.text);
+    const variant = this.getSemanticVariant(semanticKey);
+    const key = `${semanticKey.scope}|${structure}|${hashString(JSON.stringify([variant, values]))}`;
+
+    await this.set(key, value, ttl, {
+      semantic: true,
+      scope: semanticKey.scope,
+      variant,
+      structure,
+      values,
+      fingerprint: semanticKey.fingerprint,
+    });
+    return key;
+  }
+
+  /**
+   * Model, tools and locale of a semantic key; values are only shared between identical variants
+   */
+  private getSemanticVariant(semanticKey: SemanticCacheKey): string {
+    return JSON.stringify([semanticKey.model ?? '', [...(semanticKey.tools ?? [])].sort(), semanticKey.locale ?? '']);
+  }
+
+  private sameValues(a: string[], b: unknown): boolean {
+    return Array.isArray(b) && a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+
+  /**
+   * Delete every entry whose key starts with a prefix
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    await this.ready;
+
+    const keys = this.getKeys().filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.cache.delete(key));
+
+    if (keys.length > 0) {
+      this.statistics.deletes += keys.length;
+      this.updateStatistics();
+
+      if (this.config.enablePersistence) {
+        await this.persistCache();
+      }
+    }
+    return keys.length;
+  }
+
+  /**
+   * Evict entries under a prefix beyond a maximum count, using the eviction policy
+   */
+  async limitEntries(prefix: string, maxEntries: number): Promise<number> {
+    await this.ready;
+
+    const entries = Array.from(this.cache.entries()).filter(([key]) => key.startsWith(prefix));
+    if (entries.length <= maxEntries) {
+      return 0;
+    }
+
+    const evictCount = entries.length - maxEntries;
+    const sorted = this.sortForEviction(entries);
+    sorted.slice(0, evictCount).forEach(([key]) => this.cache.delete(key));
+
+    this.statistics.evictions += evictCount;
+    this.statistics.deletes += evictCount;
+    this.updateStatistics();
+
+    if (this.config.enablePersistence) {
+      await this.persistCache();
+    }
+    return evictCount;
+  }
+
   /**
    * Clear all cache entries
    */
@@ -373,53 +534,30 @@ export class CacheManager {
    */
   private getEntriesToEvict(requiredSize: number): string[] {
     const entries = Array.from(this.cache.entries());
-    
+    return this.evictFromSorted(this.sortForEviction(entries), requiredSize);
+  }
+
+  /**
+   * Order entries by eviction policy, first to evict first
+   */
+  private sortForEviction(entries: [string, CacheEntry][]): [string, CacheEntry][] {
     switch (this.config.evictionPolicy) {
-      case 'lru':
-        return this.evictLRU(entries, requiredSize);
       case 'lfu':
-        return this.evictLFU(entries, requiredSize);
+        // Least Frequently Used
+        return entries.sort((a, b) => a[1].accessCount - b[1].accessCount);
       case 'ttl':
-        return this.evictTTL(entries, requiredSize);
+        // Soonest to expire
+        return entries.sort((a, b) => (a[1].expiresAt || 0) - (b[1].expiresAt || 0));
       case 'size':
-        return this.evictBySize(entries, requiredSize);
+        // Largest first
+        return entries.sort((a, b) => b[1].size - a[1].size);
+      case 'lru':
       default:
-        return this.evictLRU(entries, requiredSize);
+        // Least Recently Used
+        return entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
     }
   }
 
-  /**
-   * Evict using Least Recently Used policy
-   */
-  private evictLRU(entries: [string, CacheEntry][], requiredSize: number): string[] {
-    const sorted = entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
-    return this.evictFromSorted(sorted, requiredSize);
-  }
-
-  /**
-   * Evict using Least Frequently Used policy
-   */
-  private evictLFU(entries: [string, CacheEntry][], requiredSize: number): string[] {
-    const sorted = entries.sort((a, b) => a[1].accessCount - b[1].accessCount);
-    return this.evictFromSorted(sorted, requiredSize);
-  }
-
-  /**
-   * Evict using Time To Live policy
-   */
-  private evictTTL(entries: [string, CacheEntry][], requiredSize: number): string[] {
-    const sorted = entries.sort((a, b) => (a[1].expiresAt || 0) - (b[1].expiresAt || 0));
-    return this.evictFromSorted(sorted, requiredSize);
-  }
-
-  /**
-   * Evict by size (largest first)
-   */
-  private evictBySize(entries: [string, CacheEntry][], requiredSize: number): string[] {
-    const sorted = entries.sort((a, b) => b[1].size - a[1].size);
-    return this.evictFromSorted(sorted, requiredSize);
-  }
-
   /**
    * Evict from sorted entries
    */
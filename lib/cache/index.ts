@@ -9,6 +9,16 @@ export {
   CacheStatistics,
   defaultCacheManager,
 } from './cache-manager';
+export type { SemanticCacheKey, SemanticCacheHit } from './cache-manager';
+
+export {
+  normalizeCommandText,
+  getCommandSignature,
+  trigramSimilarity,
+  fingerprintPageStructure,
+  hashString,
+} from './semantic-key';
+export type { CommandSignature } from './semantic-key';
 
 export {
   PerformanceOptimizer,
@@ -0,0 +1,145 @@
+/**
+ * Normalisation, similarity and fingerprint helpers for semantic cache keys
+ */
+
+// Verbs with the same meaning map to one canonical verb
+const CANONICAL_VERBS: Record<string, string> = {
+  open: 'navigate',
+  go: 'navigate',
+  visit: 'navigate',
+  load: 'navigate',
+  browse: 'navigate',
+  press: 'click',
+  tap: 'click',
+  hit: 'click',
+  type: 'fill',
+  enter: 'fill',
+  input: 'fill',
+  find: 'search',
+  lookup: 'search',
+  grab: 'extract',
+  get: 'extract',
+  scrape: 'extract',
+};
+
+// Filler words that do not change what a command does
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'on', 'in', 'into', 'for', 'of', 'at', 'up',
+  'please', 'can', 'could', 'you', 'me', 'my', 'just', 'now', 'page', 'site', 'website',
+]);
+
+// Values a command acts on: quoted text, URLs and domains, selectors and numbers
+const VALUE_PATTERN = new RegExp([
+  /(?<!\w)(?:"[^"]*"|'[^']*'|“[^”]*”)(?!\w)/.source,
+  /\b[a-z][a-z\d+.-]*:\/\/\S+/.source,
+  /\b(?:[\w-]+\.)+[a-z]{2,}(?:[/:?#]\S*)?/.source,
+  /(?<![\w.])[#.][a-z_-][\w-]*|\[[^\]]+\]/.source,
+  /\d+(?:[.,:]\d+)*/.source,
+].join('|'), 'giu');
+
+// Stands in for a value so commands differing only in values share a structure
+const VALUE_PLACEHOLDER = '0';
+
+export interface CommandSignature {
+  structure: string; // normalised command with its values replaced; compared by similarity
+  values: string[]; // values in order of appearance; compared exactly
+}
+
+/**
+ * Split a command into its structure and the values it acts on
+ * "delete row 12" and "delete row 13" share a structure but not their values, so they never share a key
+ */
+export function getCommandSignature(text: string): CommandSignature {
+  const values: string[] = [];
+  const structure = text.replace(VALUE_PATTERN, value => {
+    // Quoted text is typed or matched as written; everything else ignores case and trailing punctuation
+    values.push(/^["'“]/.test(value) ? value : value.toLowerCase().replace(/[.,;:!?)]+$/, ''));
+    return ` ${VALUE_PLACEHOLDER} `;
+  });
+
+  return { structure: normalizeCommandText(structure), values };
+}
+
+/**
+ * Reduce a (preprocessed) command to a canonical form so paraphrases share a key
+ * "open gmail" and "go to gmail" both become "navigate gmail"
+ */
+export function normalizeCommandText(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/\b(look up)\b/g, 'lookup')
+    .replace(/[^\p{L}\p{N}\s.@/-]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => CANONICAL_VERBS[word] || word);
+
+  // Abbreviation expansion can repeat words ("navigate to to"); keep one of each run
+  return words.filter((word, index) => word !== words[index - 1]).join(' ');
+}
+
+/**
+ * Character trigram similarity (Dice coefficient) between two strings, from 0 to 1
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const trigramsA = getTrigrams(a);
+  const trigramsB = getTrigrams(b);
+  if (trigramsA.size === 0 || trigramsB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  trigramsA.forEach(trigram => {
+    if (trigramsB.has(trigram)) {
+      shared++;
+    }
+  });
+
+  return (2 * shared) / (trigramsA.size + trigramsB.size);
+}
+
+/**
+ * Fingerprint of a page's structure from its accessibility snapshot
+ * Only roles and nesting count, so changing text or values keeps the fingerprint
+ */
+export function fingerprintPageStructure(tree: string): string {
+  const skeleton = tree
+    .split('\n')
+    .map(line => line.match(/^(\s*)- (\S+)/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, indent, role]) => `${indent.length}:${role}`)
+    .join('|');
+
+  return hashString(skeleton);
+}
+
+/**
+ * Compact 53-bit string hash (cyrb53), hex encoded
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+function getTrigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.substring(i, i + 3));
+  }
+  return trigrams;
+}
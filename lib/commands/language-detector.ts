@@ -0,0 +1,211 @@
+/**
+ * Language identification for commands using character n-gram models
+ * Models are trained on bundled sample commands, so detection runs offline
+ */
+
+import { CommandLocale, LanguageDetection } from './types';
+
+export const SUPPORTED_LOCALES: CommandLocale[] = ['en', 'es', 'fr', 'de', 'pt', 'ja'];
+
+export const LOCALE_NAMES: Record<CommandLocale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  ja: 'Japanese',
+};
+
+export interface LanguageDetectorConfig {
+  defaultLocale: CommandLocale;
+  ngramSizes: number[];
+  minTextLength: number; // shorter inputs fall back to the default locale
+}
+
+interface NGramModel {
+  counts: Map<string, number>;
+  totals: Map<number, number>;
+  vocabulary: Map<number, number>;
+}
+
+// Sample commands and everyday phrases per language; Japanese is identified by script instead
+const TRAINING_TEXT: Record<Exclude<CommandLocale, 'ja'>, string> = {
+  en: `go to the website and open the login page. click on the submit button. fill in the name field with my name.
+    type my email into the email input. search for cheap flights on google. scroll down to the bottom of the page.
+    scroll up a little. extract all links from the table. get the prices from the list. wait for five seconds.
+    wait two minutes until the page has loaded. log in with my account. log out of the site. select the second option
+    from the dropdown. hover over the menu. drag the file to the folder. upload the document. download the report.
+    take a screenshot of the whole page. press enter and then submit the form. what is this, where are they, which one.
+    it should be the first item with this title. please show me the next results and copy them for later.`,
+  es: `ve a la página web y abre la página de inicio de sesión. haz clic en el botón enviar. rellena el campo nombre con mi nombre.
+    escribe mi correo en el campo de correo. busca vuelos baratos en google. desplázate hacia abajo hasta el final de la página.
+    sube un poco. extrae todos los enlaces de la tabla. obtén los precios de la lista. espera cinco segundos.
+    espera dos minutos hasta que la página cargue. inicia sesión con mi cuenta. cierra sesión del sitio. selecciona la segunda opción
+    del menú desplegable. pasa el ratón sobre el menú. arrastra el archivo a la carpeta. sube el documento. descarga el informe.
+    haz una captura de pantalla de toda la página. pulsa intro y luego envía el formulario. qué es esto, dónde están, cuál.
+    debería ser el primer elemento con este título. por favor muéstrame los siguientes resultados y cópialos para después.`,
+  fr: `va sur le site web et ouvre la page de connexion. clique sur le bouton envoyer. remplis le champ nom avec mon nom.
+    tape mon adresse e-mail dans le champ e-mail. recherche des vols pas chers sur google. fais défiler vers le bas jusqu'en bas de la page.
+    remonte un peu. extrais tous les liens du tableau. récupère les prix de la liste. attends cinq secondes.
+    attends deux minutes jusqu'à ce que la page soit chargée. connecte-toi avec mon compte. déconnecte-toi du site. sélectionne la deuxième option
+    dans la liste déroulante. survole le menu. fais glisser le fichier vers le dossier. téléverse le document. télécharge le rapport.
+    prends une capture d'écran de toute la page. appuie sur entrée puis soumets le formulaire. qu'est-ce que c'est, où sont-ils, lequel.
+    ce devrait être le premier élément avec ce titre. s'il te plaît montre-moi les résultats suivants et copie-les pour plus tard.`,
+  de: `geh auf die webseite und öffne die anmeldeseite. klicke auf den button absenden. fülle das namensfeld mit meinem namen aus.
+    gib meine e-mail in das e-mail-feld ein. suche nach günstigen flügen bei google. scrolle nach unten bis zum ende der seite.
+    scrolle ein wenig nach oben. extrahiere alle links aus der tabelle. hole die preise aus der liste. warte fünf sekunden.
+    warte zwei minuten bis die seite geladen ist. melde dich mit meinem konto an. melde dich von der seite ab. wähle die zweite option
+    aus dem dropdown aus. fahre mit der maus über das menü. ziehe die datei in den ordner. lade das dokument hoch. lade den bericht herunter.
+    mach einen screenshot der ganzen seite. drücke die eingabetaste und sende dann das formular ab. was ist das, wo sind sie, welches.
+    es sollte der erste eintrag mit diesem titel sein. bitte zeig mir die nächsten ergebnisse und kopiere sie für später.`,
+  pt: `vá para o site e abra a página de login. clique no botão enviar. preencha o campo nome com o meu nome.
+    digite o meu e-mail no campo de e-mail. pesquise voos baratos no google. role para baixo até o final da página.
+    role um pouco para cima. extraia todos os links da tabela. obtenha os preços da lista. aguarde cinco segundos.
+    espere dois minutos até que a página carregue. faça login com a minha conta. saia do site. selecione a segunda opção
+    da lista suspensa. passe o mouse sobre o menu. arraste o arquivo para a pasta. envie o documento. baixe o relatório.
+    faça uma captura de tela da página inteira. pressione enter e depois envie o formulário. o que é isso, onde estão, qual deles.
+    deveria ser o primeiro item com este título. por favor mostre-me os próximos resultados e copie-os para depois.`,
+};
+
+const KANA_PATTERN = /[぀-ヿｦ-ﾟ]/g;
+const HAN_PATTERN = /[一-鿿㐀-䶿]/g;
+
+// URLs, e-mail addresses and quoted values say nothing about the language of the command itself
+const NON_LINGUISTIC_PATTERN = /https?:\/\/\S+|\S+@\S+\.\S+|"[^"]*"|'[^']*'|\d+/g;
+
+export class LanguageDetector {
+  private config: LanguageDetectorConfig;
+  private models = new Map<CommandLocale, NGramModel>();
+
+  constructor(config: Partial<LanguageDetectorConfig> = {}) {
+    this.config = {
+      defaultLocale: 'en',
+      ngramSizes: [1, 2, 3],
+      minTextLength: 3,
+      ...config,
+    };
+
+    (Object.keys(TRAINING_TEXT) as Array<keyof typeof TRAINING_TEXT>).forEach(locale => {
+      this.models.set(locale, this.train(TRAINING_TEXT[locale]));
+    });
+  }
+
+  /**
+   * Identify the language of a command
+   */
+  detect(input: string): LanguageDetection {
+    const text = input.replace(NON_LINGUISTIC_PATTERN, ' ').toLowerCase();
+
+    const japanese = this.detectJapanese(text);
+    if (japanese) {
+      return japanese;
+    }
+
+    const letters = text.replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+    if (letters.replace(/\s/g, '').length < this.config.minTextLength) {
+      return this.fallback();
+    }
+
+    const ngrams = this.extractNGrams(letters);
+    const scores = Array.from(this.models.entries()).map(([locale, model]) => ({
+      locale,
+      score: this.score(ngrams, model),
+    }));
+
+    // Average log-likelihoods differ by small margins; sharpen them into confidences
+    const best = Math.max(...scores.map(s => s.score));
+    const weights = scores.map(s => ({ language: s.locale, weight: Math.exp((s.score - best) * 8) }));
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+    const ranked = weights
+      .map(w => ({ language: w.language, confidence: w.weight / total }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return {
+      language: ranked[0].language,
+      confidence: ranked[0].confidence,
+      alternatives: ranked.slice(1),
+    };
+  }
+
+  /**
+   * Japanese is written in kana and kanji, which none of the other locales use
+   */
+  private detectJapanese(text: string): LanguageDetection | null {
+    const kana = (text.match(KANA_PATTERN) || []).length;
+    const han = (text.match(HAN_PATTERN) || []).length;
+    if (kana + han === 0) {
+      return null;
+    }
+
+    const latin = (text.match(/[a-zÀ-ɏ]/g) || []).length;
+    const ratio = (kana + han) / (kana + han + latin);
+    // Kanji without any kana could also be Chinese
+    const confidence = kana > 0 ? Math.max(ratio, 0.6) : Math.min(ratio, 0.6);
+
+    return {
+      language: 'ja',
+      confidence,
+      alternatives: [{ language: this.config.defaultLocale, confidence: 1 - confidence }],
+    };
+  }
+
+  private fallback(): LanguageDetection {
+    return {
+      language: this.config.defaultLocale,
+      confidence: 0.5,
+      alternatives: [],
+    };
+  }
+
+  private train(text: string): NGramModel {
+    const model: NGramModel = { counts: new Map(), totals: new Map(), vocabulary: new Map() };
+    const normalized = text.toLowerCase().replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+    for (const ngram of this.extractNGrams(normalized)) {
+      const count = model.counts.get(ngram) || 0;
+      if (count === 0) {
+        model.vocabulary.set(ngram.length, (model.vocabulary.get(ngram.length) || 0) + 1);
+      }
+      model.counts.set(ngram, count + 1);
+      model.totals.set(ngram.length, (model.totals.get(ngram.length) || 0) + 1);
+    }
+
+    return model;
+  }
+
+  /**
+   * Average add-one smoothed log-likelihood of the input's n-grams, longer n-grams weighted higher
+   */
+  private score(ngrams: string[], model: NGramModel): number {
+    let score = 0;
+    let weight = 0;
+
+    for (const ngram of ngrams) {
+      const n = ngram.length;
+      const total = model.totals.get(n) || 0;
+      const vocabulary = model.vocabulary.get(n) || 0;
+      score += n * Math.log(((model.counts.get(ngram) || 0) + 1) / (total + vocabulary + 1));
+      weight += n;
+    }
+
+    return weight > 0 ? score / weight : 0;
+  }
+
+  private extractNGrams(text: string): string[] {
+    const ngrams: string[] = [];
+
+    for (const word of text.split(' ')) {
+      const padded = ` ${word} `;
+      for (const size of this.config.ngramSizes) {
+        for (let i = 0; i + size <= padded.length; i++) {
+          const ngram = padded.substring(i, i + size);
+          if (ngram.trim()) {
+            ngrams.push(ngram);
+          }
+        }
+      }
+    }
+
+    return ngrams;
+  }
+}
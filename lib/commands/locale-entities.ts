@@ -0,0 +1,420 @@
+/**
+ * Locale-aware parsing of numbers, durations, dates and directions in commands
+ */
+
+import { CommandEntities, CommandLocale } from './types';
+
+type Direction = NonNullable<CommandEntities['directions']>;
+
+interface LocaleVocabulary {
+  decimalSeparator: '.' | ',';
+  dateOrder: 'mdy' | 'dmy' | 'ymd';
+  numberWords: Record<string, number>;
+  articles: string[]; // mean "one" before a unit ("a minute") but are not numbers on their own
+  durationUnits: Array<{ pattern: string; ms: number }>;
+  relativeDays: Record<string, number>;
+  months: string[];
+  directions: Record<string, Direction>;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+const VOCABULARY: Record<CommandLocale, LocaleVocabulary> = {
+  en: {
+    decimalSeparator: '.',
+    dateOrder: 'mdy',
+    numberWords: {
+      zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5,
+      six: 6, seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+    },
+    articles: ['a', 'an'],
+    durationUnits: [
+      { pattern: 'ms|milliseconds?', ms: 1 },
+      { pattern: 's|secs?|seconds?', ms: SECOND },
+      { pattern: 'm|mins?|minutes?', ms: MINUTE },
+      { pattern: 'h|hrs?|hours?', ms: HOUR },
+    ],
+    relativeDays: { today: 0, tomorrow: 1, yesterday: -1, 'day after tomorrow': 2 },
+    months: ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+    directions: { up: 'up', down: 'down', left: 'left', right: 'right', top: 'up', bottom: 'down' },
+  },
+  es: {
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    numberWords: {
+      cero: 0, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5,
+      seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, quince: 15, veinte: 20, treinta: 30,
+    },
+    articles: ['un', 'una'],
+    durationUnits: [
+      { pattern: 'ms|milisegundos?', ms: 1 },
+      { pattern: 's|seg|segundos?', ms: SECOND },
+      { pattern: 'min|minutos?', ms: MINUTE },
+      { pattern: 'h|horas?', ms: HOUR },
+    ],
+    relativeDays: { hoy: 0, 'mañana': 1, ayer: -1, 'pasado mañana': 2 },
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    directions: {
+      arriba: 'up', abajo: 'down', izquierda: 'left', derecha: 'right',
+      principio: 'up', inicio: 'up', final: 'down', fondo: 'down',
+    },
+  },
+  fr: {
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    numberWords: {
+      'zéro': 0, deux: 2, trois: 3, quatre: 4, cinq: 5,
+      six: 6, sept: 7, huit: 8, neuf: 9, dix: 10, quinze: 15, vingt: 20, trente: 30,
+    },
+    articles: ['un', 'une'],
+    durationUnits: [
+      { pattern: 'ms|millisecondes?', ms: 1 },
+      { pattern: 's|sec|secondes?', ms: SECOND },
+      { pattern: 'min|minutes?', ms: MINUTE },
+      { pattern: 'h|heures?', ms: HOUR },
+    ],
+    relativeDays: { "aujourd'hui": 0, demain: 1, hier: -1, 'après-demain': 2 },
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    directions: { haut: 'up', bas: 'down', gauche: 'left', droite: 'right' },
+  },
+  de: {
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    numberWords: {
+      null: 0, eins: 1, zwei: 2, drei: 3, vier: 4, 'fünf': 5,
+      sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10, 'fünfzehn': 15, zwanzig: 20, 'dreißig': 30,
+    },
+    articles: ['eine', 'einen', 'ein'],
+    durationUnits: [
+      { pattern: 'ms|millisekunden?', ms: 1 },
+      { pattern: 's|sek|sekunden?', ms: SECOND },
+      { pattern: 'min|minuten?', ms: MINUTE },
+      { pattern: 'std|stunden?', ms: HOUR },
+    ],
+    relativeDays: { heute: 0, morgen: 1, gestern: -1, 'übermorgen': 2 },
+    months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+    directions: {
+      oben: 'up', hoch: 'up', unten: 'down', runter: 'down', links: 'left', rechts: 'right',
+      anfang: 'up', ende: 'down',
+    },
+  },
+  pt: {
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    numberWords: {
+      zero: 0, dois: 2, duas: 2, 'três': 3, quatro: 4, cinco: 5,
+      seis: 6, sete: 7, oito: 8, nove: 9, dez: 10, quinze: 15, vinte: 20, trinta: 30,
+    },
+    articles: ['um', 'uma'],
+    durationUnits: [
+      { pattern: 'ms|milissegundos?', ms: 1 },
+      { pattern: 's|seg|segundos?', ms: SECOND },
+      { pattern: 'min|minutos?', ms: MINUTE },
+      { pattern: 'h|horas?', ms: HOUR },
+    ],
+    relativeDays: { hoje: 0, 'amanhã': 1, ontem: -1, 'depois de amanhã': 2 },
+    months: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+    directions: {
+      cima: 'up', baixo: 'down', esquerda: 'left', direita: 'right',
+      topo: 'up', 'início': 'up', inicio: 'up', final: 'down', fim: 'down',
+    },
+  },
+  ja: {
+    decimalSeparator: '.',
+    dateOrder: 'ymd',
+    numberWords: {},
+    articles: [],
+    durationUnits: [
+      { pattern: 'ミリ秒', ms: 1 },
+      { pattern: '秒間?', ms: SECOND },
+      { pattern: '分間?', ms: MINUTE },
+      { pattern: '時間', ms: HOUR },
+    ],
+    relativeDays: { '今日': 0, '明日': 1, '昨日': -1, '明後日': 2 },
+    months: [],
+    directions: { '上': 'up', '下': 'down', '左': 'left', '右': 'right', '一番上': 'up', '一番下': 'down' },
+  },
+};
+
+const KANJI_DIGITS: Record<string, number> = {
+  '〇': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+const KANJI_MULTIPLIERS: Record<string, number> = { '十': 10, '百': 100, '千': 1000 };
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+const KANJI_NUMBER = '[〇一二三四五六七八九十百千]+(?!番)';
+
+interface DateMatch {
+  index: number;
+  length: number;
+  value: Date;
+}
+
+/**
+ * Numbers in the command, honouring the locale's decimal and thousands separators and number words
+ * "1.234,5" is 1234.5 in German; "1,234.5" is 1234.5 in English
+ */
+export function parseLocaleNumbers(text: string, locale: CommandLocale): number[] {
+  const vocabulary = VOCABULARY[locale];
+  let stripped = normalizeDigits(text).replace(URL_PATTERN, match => ' '.repeat(match.length));
+
+  // Digits inside dates are not quantities
+  for (const date of findDates(stripped, locale, new Date())) {
+    stripped = stripped.slice(0, date.index) + ' '.repeat(date.length) + stripped.slice(date.index + date.length);
+  }
+
+  const numberPattern = locale === 'ja'
+    ? new RegExp(`[0-9]+(?:\\.[0-9]+)?|${KANJI_NUMBER}`, 'g')
+    : vocabulary.decimalSeparator === ','
+      ? /\d{1,3}(?:[.\u00a0\u202f]\d{3})+(?:,\d+)?|\d+(?:,\d+)?/g
+      : /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+  const matches: Array<{ index: number; value: number }> = [];
+  for (const match of stripped.matchAll(numberPattern)) {
+    matches.push({ index: match.index ?? 0, value: toNumber(match[0], locale) });
+  }
+
+  for (const [word, value] of Object.entries(vocabulary.numberWords)) {
+    for (const match of stripped.matchAll(wordPattern(word, locale))) {
+      matches.push({ index: match.index ?? 0, value });
+    }
+  }
+
+  return matches
+    .filter(match => !isNaN(match.value))
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.value);
+}
+
+/**
+ * Durations in milliseconds, e.g. "5 Sekunden", "dos minutos", "eine Minute", "3秒"
+ */
+export function parseLocaleDurations(text: string, locale: CommandLocale): number[] {
+  const vocabulary = VOCABULARY[locale];
+  const normalized = normalizeDigits(text);
+  const words = [...Object.keys(vocabulary.numberWords), ...vocabulary.articles].map(escapeRegExp);
+  const amount = locale === 'ja'
+    ? `[0-9]+(?:\\.[0-9]+)?|${KANJI_NUMBER}`
+    : ['\\d+(?:[.,]\\d+)?', ...words].join('|');
+
+  const durations: Array<{ index: number; value: number }> = [];
+  for (const unit of vocabulary.durationUnits) {
+    // Japanese has no spaces between words, so it cannot use word boundaries
+    const pattern = locale === 'ja'
+      ? new RegExp(`(${amount})\\s*(?:${unit.pattern})`, 'g')
+      : new RegExp(`(?<![\\p{L}\\d])(${amount})\\s*(?:${unit.pattern})(?![\\p{L}])`, 'giu');
+
+    for (const match of normalized.matchAll(pattern)) {
+      const word = match[1].toLowerCase();
+      const value = vocabulary.articles.includes(word) ? 1 : vocabulary.numberWords[word] ?? toNumber(word, locale, true);
+      if (!isNaN(value)) {
+        durations.push({ index: match.index ?? 0, value: value * unit.ms });
+      }
+    }
+  }
+
+  return durations.sort((a, b) => a.index - b.index).map(duration => duration.value);
+}
+
+/**
+ * Dates in the command: relative days ("morgen"), numeric dates in the locale's order and month names
+ */
+export function parseLocaleDates(text: string, locale: CommandLocale, now: Date = new Date()): Date[] {
+  const normalized = normalizeDigits(text).replace(URL_PATTERN, match => ' '.repeat(match.length));
+  return findDates(normalized, locale, now).map(date => date.value);
+}
+
+/**
+ * Scroll direction named in the command, including "top"/"bottom" style words
+ */
+export function parseLocaleDirection(text: string, locale: CommandLocale): Direction | undefined {
+  const directions = VOCABULARY[locale].directions;
+  const words = Object.keys(directions).sort((a, b) => b.length - a.length);
+
+  const word = words.find(candidate => wordPattern(candidate, locale).test(text));
+  return word ? directions[word] : undefined;
+}
+
+/**
+ * All locale-aware entities in one pass
+ */
+export function extractLocaleEntities(
+  text: string,
+  locale: CommandLocale,
+  now: Date = new Date()
+): Pick<CommandEntities, 'numbers' | 'dates' | 'waitTimes' | 'directions'> {
+  const entities: Pick<CommandEntities, 'numbers' | 'dates' | 'waitTimes' | 'directions'> = {};
+
+  const numbers = parseLocaleNumbers(text, locale);
+  if (numbers.length > 0) {
+    entities.numbers = numbers;
+  }
+
+  const dates = parseLocaleDates(text, locale, now);
+  if (dates.length > 0) {
+    entities.dates = dates;
+  }
+
+  const waitTimes = parseLocaleDurations(text, locale);
+  if (waitTimes.length > 0) {
+    entities.waitTimes = waitTimes;
+  }
+
+  const direction = parseLocaleDirection(text, locale);
+  if (direction) {
+    entities.directions = direction;
+  }
+
+  return entities;
+}
+
+/**
+ * Valid dates with their position in the text, in order of appearance
+ */
+function findDates(text: string, locale: CommandLocale, now: Date): DateMatch[] {
+  const vocabulary = VOCABULARY[locale];
+  const dates: DateMatch[] = [];
+
+  // Longer phrases first so "pasado mañana" is not also read as "mañana"
+  let remaining = text;
+  const relative = Object.keys(vocabulary.relativeDays).sort((a, b) => b.length - a.length);
+  for (const phrase of relative) {
+    remaining = remaining.replace(wordPattern(phrase, locale), (match: string, index: number) => {
+      dates.push({
+        index,
+        length: match.length,
+        value: new Date(now.getFullYear(), now.getMonth(), now.getDate() + vocabulary.relativeDays[phrase]),
+      });
+      return ' '.repeat(match.length);
+    });
+  }
+
+  for (const match of remaining.matchAll(buildDatePattern(locale))) {
+    const date = toDate(match.groups ?? {}, locale, now);
+    if (date) {
+      dates.push({ index: match.index ?? 0, length: match[0].length, value: date });
+    }
+  }
+
+  return dates.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Numeric and month-name date formats for a locale, with named day/month/year groups
+ */
+function buildDatePattern(locale: CommandLocale): RegExp {
+  const iso = '(?<isoYear>\\d{4})-(?<isoMonth>\\d{1,2})-(?<isoDay>\\d{1,2})';
+
+  if (locale === 'ja') {
+    return new RegExp(`${iso}|(?:(?<year>\\d{4})[年/])?(?<month>\\d{1,2})[月/](?<day>\\d{1,2})日?`, 'g');
+  }
+
+  // Dotted dates need the trailing dot ("12.03." or "12.03.2025") so decimals are not read as dates
+  const numeric = VOCABULARY[locale].dateOrder === 'mdy'
+    ? '(?<month>\\d{1,2})/(?<day>\\d{1,2})(?:/(?<year>\\d{2,4}))?'
+    : '(?<day>\\d{1,2})(?:/(?<month>\\d{1,2})(?:/(?<year>\\d{2,4}))?|\\.(?<dottedMonth>\\d{1,2})\\.(?<dottedYear>\\d{2,4})?)';
+  // Full month names and their three-letter abbreviations
+  const months = VOCABULARY[locale].months
+    .flatMap(month => [month, month.substring(0, 3)])
+    .sort((x, y) => y.length - x.length)
+    .join('|');
+  const named = locale === 'en'
+    ? `(?<monthName>${months})\\.?\\s+(?<nameDay>\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(?<nameYear>\\d{4}))?`
+    : `(?<nameDay>\\d{1,2})\\.?\\s+(?:de\\s+)?(?<monthName>${months})\\.?(?:\\s+(?:de\\s+)?(?<nameYear>\\d{4}))?`;
+
+  return new RegExp(`(?<![\\d.,/])(?:${iso}|${numeric}|${named})(?![\\p{L}\\d])`, 'giu');
+}
+
+function toDate(groups: Record<string, string | undefined>, locale: CommandLocale, now: Date): Date | null {
+  let year: string | undefined;
+  let month: number;
+  let day: string | undefined;
+
+  if (groups.isoYear) {
+    [year, month, day] = [groups.isoYear, parseInt(groups.isoMonth ?? '', 10) - 1, groups.isoDay];
+  } else if (groups.monthName) {
+    [year, month, day] = [groups.nameYear, lookupMonth(groups.monthName, locale), groups.nameDay];
+  } else {
+    const numericMonth = groups.month ?? groups.dottedMonth;
+    [year, month, day] = [groups.year ?? groups.dottedYear, parseInt(numericMonth ?? '', 10) - 1, groups.day];
+  }
+
+  const dayOfMonth = parseInt(day ?? '', 10);
+  if (!(month >= 0 && month <= 11) || !(dayOfMonth >= 1 && dayOfMonth <= 31)) {
+    return null;
+  }
+
+  let fullYear = year ? parseInt(year, 10) : now.getFullYear();
+  if (fullYear < 100) {
+    fullYear += 2000;
+  }
+
+  const date = new Date(fullYear, month, dayOfMonth);
+  // Reject rollovers such as 31 February
+  return date.getMonth() === month ? date : null;
+}
+
+/**
+ * Month index for a full or three-letter month name ("mär", "dezembro"), or -1
+ */
+function lookupMonth(name: string, locale: CommandLocale): number {
+  const word = name.toLowerCase();
+  return VOCABULARY[locale].months.findIndex(month => month === word || month.startsWith(word));
+}
+
+function toNumber(value: string, locale: CommandLocale, lenientDecimal = false): number {
+  if (locale === 'ja' && /[〇一二三四五六七八九十百千]/.test(value)) {
+    return parseKanjiNumber(value);
+  }
+
+  if (lenientDecimal) {
+    // Durations never use thousands separators, so either mark is a decimal point
+    return parseFloat(value.replace(',', '.'));
+  }
+
+  const { decimalSeparator } = VOCABULARY[locale];
+  const thousands = decimalSeparator === ',' ? /[.\u00a0\u202f]/g : /,/g;
+  return parseFloat(value.replace(thousands, '').replace(decimalSeparator, '.'));
+}
+
+/**
+ * Kanji numerals up to 9999, e.g. 三十 (30), 二百五十 (250)
+ */
+function parseKanjiNumber(value: string): number {
+  let total = 0;
+  let digit = 0;
+
+  for (const char of value) {
+    if (char in KANJI_DIGITS) {
+      digit = KANJI_DIGITS[char];
+    } else if (char in KANJI_MULTIPLIERS) {
+      total += KANJI_MULTIPLIERS[char] * (digit || 1);
+      digit = 0;
+    }
+  }
+
+  return total + digit;
+}
+
+/**
+ * Full-width digits (common in Japanese input) to ASCII
+ */
+function normalizeDigits(text: string): string {
+  return text.replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * Whole-word match that also works for accented words, where \b does not
+ * Japanese is written without spaces, so its words match anywhere
+ */
+function wordPattern(word: string, locale: CommandLocale): RegExp {
+  return locale === 'ja'
+    ? new RegExp(escapeRegExp(word), 'g')
+    : new RegExp(`(?<![\\p{L}'])${escapeRegExp(word)}(?![\\p{L}])`, 'giu');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,1100 @@
+/**
+ * Per-locale command pattern packs covering every command intent
+ * Patterns use named groups: url, target, value, field, query, engine, direction, edge, amount,
+ * duration, source, destination and file
+ */
+
+import { CommandLocale, CommandPattern } from './types';
+
+type PatternSpec = Omit<CommandPattern, 'locale' | 'optionalEntities'> & { optionalEntities?: string[] };
+
+// Matches the start of the command or a word boundary that also works before accented letters
+const START = '(?:^|\\s)';
+
+function pack(locale: CommandLocale, specs: PatternSpec[]): CommandPattern[] {
+  return specs.map(spec => ({
+    optionalEntities: [],
+    ...spec,
+    // English ids predate locale packs and stay unprefixed
+    id: locale === 'en' ? spec.id : `${locale}_${spec.id}`,
+    locale,
+  }));
+}
+
+function re(source: string): RegExp {
+  return new RegExp(source, 'i');
+}
+
+const ENGLISH = pack('en', [
+  {
+    id: 'navigate_to_url',
+    pattern: re(`${START}(?:go to|navigate to|open|visit)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['go to https://example.com', 'navigate to https://google.com'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re(`${START}(?:go to|navigate to|open|visit)\\s+(?:the\\s+)?(?<target>.+?)(?:\\s+website|\\s+site)?$`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['go to google', 'navigate to facebook'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re(`${START}(?:click|press|tap)(?:\\s+on)?\\s+(?:the\\s+)?(?<target>.+?)(?:\\s+button|\\s+link|\\s+element)?$`),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['click submit button', 'click on the login link'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re(`${START}(?:fill in|fill|type|enter)\\s+(?<value>.+?)\\s+in(?:to)?\\s+(?:the\\s+)?(?<field>.+?)(?:\\s+field|\\s+input|\\s+box)?$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['fill john in the name field', 'type password123 in the password input'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re(`${START}search\\s+(?:for\\s+)?(?<query>.+?)(?:\\s+on\\s+(?<engine>google|bing|duckduckgo))?$`),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['search for cats', 'search for restaurants on bing'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re(`${START}scroll\\s+(?<direction>up|down|left|right)(?:\\s+(?<amount>\\d+|page))?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['scroll down', 'scroll up 2'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re(`${START}scroll\\s+to\\s+(?:the\\s+)?(?<edge>top|bottom)(?:\\s+of\\s+the\\s+page)?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['scroll to bottom', 'scroll to the top of the page'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re(`${START}(?:extract|get|copy|save|scrape)\\s+(?<target>.+?)(?:\\s+from\\s+(?<source>.+?))?$`),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['extract all links', 'get the prices from the table'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re(`${START}wait\\s+(?:for\\s+)?(?<duration>\\S+(?:\\s*(?:ms|milliseconds?|s|secs?|seconds?|mins?|minutes?|h|hours?))?)$`),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['wait 5 seconds', 'wait for two minutes'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re(`${START}submit(?:\\s+(?:the\\s+)?(?<target>.+?))?$`),
+    intent: 'submit',
+    parameters: {},
+    examples: ['submit', 'submit the form'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re(`${START}(?:log ?in|sign ?in)(?:\\s+(?:to|on|at)\\s+(?<target>.+?))?(?:\\s+(?:as|with)\\s+(?<value>.+?))?$`),
+    intent: 'login',
+    parameters: {},
+    examples: ['log in', 'sign in to github as octocat'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re(`${START}(?:log ?out|sign ?out)(?:\\s+(?:of|from)\\s+(?<target>.+?))?$`),
+    intent: 'logout',
+    parameters: {},
+    examples: ['log out', 'sign out of gmail'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re(`${START}(?:select|choose|pick)\\s+(?<value>.+?)(?:\\s+(?:in|from)\\s+(?:the\\s+)?(?<field>.+?)(?:\\s+dropdown|\\s+list|\\s+menu)?)?$`),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['select germany from the country dropdown', 'choose large'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re(`${START}(?:hover|mouse)\\s+(?:over|on)\\s+(?:the\\s+)?(?<target>.+?)$`),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['hover over the menu', 'mouse over the avatar'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re(`${START}drag\\s+(?:the\\s+)?(?<target>.+?)\\s+(?:to|onto|into)\\s+(?:the\\s+)?(?<destination>.+?)$`),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['drag the card to done', 'drag file onto the upload area'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re(`${START}upload\\s+(?:the\\s+)?(?<file>.+?)(?:\\s+(?:to|into)\\s+(?:the\\s+)?(?<field>.+?))?$`),
+    intent: 'upload',
+    parameters: {},
+    examples: ['upload resume.pdf', 'upload the photo to the avatar field'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re(`${START}download\\s+(?:the\\s+)?(?<target>.+?)$`),
+    intent: 'download',
+    parameters: {},
+    examples: ['download the report', 'download invoice.pdf'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re(`${START}(?:take\\s+(?:a\\s+)?)?screenshot(?:\\s+of\\s+(?:the\\s+)?(?<target>.+?))?$`),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['take a screenshot', 'screenshot of the whole page'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+const SPANISH = pack('es', [
+  {
+    id: 'navigate_to_url',
+    pattern: re(`${START}(?:ve a|ir a|vaya a|navega a|navegar a|abre|abrir|visita|visitar)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['ve a https://example.com', 'abre https://google.es'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re(`${START}(?:ve a|ir a|vaya a|navega a|navegar a|abre|abrir|visita|visitar)\\s+(?:(?:el|la)\\s+)?(?:(?:sitio|página)\\s+(?:web\\s+)?(?:de\\s+)?)?(?<target>.+?)$`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['ve a google', 'abre la página de facebook'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re(`${START}(?:haz clic|hacer clic|haga clic|clic|pulsa|pulsar|presiona|presionar|toca)\\s+(?:en\\s+)?(?:(?:el|la|los|las)\\s+)?(?:(?:botón|enlace)\\s+(?:de\\s+)?)?(?<target>.+?)$`),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['haz clic en el botón enviar', 'pulsa iniciar sesión'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re(`${START}(?:escribe|escribir|introduce|introducir|ingresa|ingresar)\\s+(?<value>.+?)\\s+en\\s+(?:(?:el|la)\\s+)?(?:campo\\s+(?:de\\s+)?)?(?<field>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['escribe juan en el campo nombre'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_field_with',
+    pattern: re(`${START}(?:rellena|rellenar|completa|completar)\\s+(?:(?:el|la)\\s+)?(?:campo\\s+(?:de\\s+)?)?(?<field>.+?)\\s+con\\s+(?<value>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['rellena el campo nombre con juan'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re(`${START}(?:busca|buscar)\\s+(?<query>.+?)(?:\\s+en\\s+(?<engine>google|bing|duckduckgo))?$`),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['busca restaurantes', 'busca vuelos baratos en bing'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re(`${START}(?:desplázate|desplazate|desplaza|desplazar|desliza|deslizar)\\s+(?:hacia\\s+)?(?<direction>arriba|abajo|izquierda|derecha)(?:\\s+(?<amount>\\d+))?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['desplázate hacia abajo', 'desliza hacia arriba 2'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re(`${START}(?:desplázate|desplazate|desplaza|desplazar|ve)\\s+(?:hasta|hacia)\\s+(?:el\\s+)?(?<edge>principio|inicio|final|fondo)(?:\\s+de\\s+la\\s+página)?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['desplázate hasta el final de la página'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re(`${START}(?:extrae|extraer|obtén|obten|obtener|copia|copiar|guarda|guardar)\\s+(?<target>.+?)(?:\\s+(?:de|del|desde)\\s+(?<source>(?:la|el|los|las)\\s+.+?))?$`),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['extrae todos los enlaces', 'obtén los precios de la tabla'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re(`${START}(?:espera|esperar|aguarda)\\s+(?<duration>\\S+(?:\\s*(?:ms|milisegundos?|s|seg|segundos?|min|minutos?|h|horas?))?)$`),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['espera 5 segundos', 'espera dos minutos'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re(`${START}(?:envía|envia|enviar|manda)(?:\\s+(?:el|la)\\s+(?<target>.+?))?$`),
+    intent: 'submit',
+    parameters: {},
+    examples: ['envía el formulario'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re(`${START}(?:inicia sesión|iniciar sesión|inicia sesion|iniciar sesion|accede|acceder)(?:\\s+en\\s+(?<target>.+?))?(?:\\s+con\\s+(?<value>.+?))?$`),
+    intent: 'login',
+    parameters: {},
+    examples: ['inicia sesión', 'inicia sesión en github con mi cuenta'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re(`${START}(?:cierra sesión|cerrar sesión|cierra sesion|cerrar sesion)(?:\\s+(?:de|del|en)\\s+(?<target>.+?))?$`),
+    intent: 'logout',
+    parameters: {},
+    examples: ['cierra sesión', 'cierra sesión en gmail'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re(`${START}(?:selecciona|seleccionar|elige|elegir|escoge|escoger)\\s+(?<value>.+?)(?:\\s+en\\s+(?:(?:el|la)\\s+)?(?<field>.+?))?$`),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['selecciona españa en el menú país'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re(`${START}(?:pasa|pasar|coloca|colocar)\\s+el\\s+(?:ratón|raton|cursor)\\s+(?:sobre|por encima de|encima de)\\s+(?:(?:el|la)\\s+)?(?<target>.+?)$`),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['pasa el ratón sobre el menú'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re(`${START}(?:arrastra|arrastrar)\\s+(?:(?:el|la)\\s+)?(?<target>.+?)\\s+(?:a|al|hasta|hacia)\\s+(?:(?:el|la)\\s+)?(?<destination>.+?)$`),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['arrastra la tarjeta a hecho'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re(`${START}(?:sube|subir|carga|cargar)\\s+(?:el|la|los|las|mi|mis)\\s+(?<file>.+?)$`),
+    intent: 'upload',
+    parameters: {},
+    examples: ['sube el documento', 'carga mi currículum'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re(`${START}(?:descarga|descargar)\\s+(?:(?:el|la|los|las)\\s+)?(?<target>.+?)$`),
+    intent: 'download',
+    parameters: {},
+    examples: ['descarga el informe'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re(`${START}(?:(?:haz|hacer|toma|tomar)\\s+(?:una\\s+)?)?(?:captura de pantalla|pantallazo)(?:\\s+de\\s+(?:(?:el|la)\\s+)?(?<target>.+?))?$`),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['haz una captura de pantalla', 'captura de pantalla de la página'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+const FRENCH = pack('fr', [
+  {
+    id: 'navigate_to_url',
+    pattern: re(`${START}(?:va|vas|allez|aller|navigue|naviguez|naviguer)\\s+(?:sur|à|vers)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['va sur https://example.com'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'open_url',
+    pattern: re(`${START}(?:ouvre|ouvrez|ouvrir|visite|visitez|visiter)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['ouvre https://google.fr'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re(`${START}(?:(?:va|vas|allez|aller|navigue|naviguez|naviguer)\\s+(?:sur|à|vers)|ouvre|ouvrez|ouvrir|visite|visitez|visiter)\\s+(?:(?:le|la)\\s+)?(?:site\\s+(?:web\\s+)?(?:de\\s+)?)?(?<target>.+?)$`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['va sur google', 'ouvre le site de la banque'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re(`${START}(?:clique|cliquez|cliquer|appuie|appuyez|appuyer|touche|touchez)\\s+(?:sur\\s+)?(?:(?:le|la|les)\\s+|l')?(?:(?:bouton|lien)\\s+)?(?<target>.+?)$`),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['clique sur le bouton envoyer', 'cliquez sur connexion'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re(`${START}(?:tape|tapez|taper|saisis|saisissez|saisir|écris|écrivez|écrire|entre|entrez)\\s+(?<value>.+?)\\s+dans\\s+(?:(?:le|la)\\s+|l')?(?:champ\\s+)?(?<field>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['tape jean dans le champ nom'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_field_with',
+    pattern: re(`${START}(?:remplis|remplissez|remplir)\\s+(?:(?:le|la)\\s+|l')?(?:champ\\s+)?(?<field>.+?)\\s+avec\\s+(?<value>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['remplis le champ nom avec jean'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re(`${START}(?:recherche|recherchez|rechercher|cherche|cherchez|chercher)\\s+(?<query>.+?)(?:\\s+sur\\s+(?<engine>google|bing|duckduckgo))?$`),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['recherche des restaurants', 'cherche des vols sur bing'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re(`${START}(?:fais défiler|faites défiler|faire défiler|défile|défilez|défiler)\\s+(?:vers\\s+(?:le\\s+|la\\s+)?|en\\s+)?(?<direction>haut|bas|gauche|droite)(?:\\s+(?<amount>\\d+))?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['fais défiler vers le bas', 'défile vers la droite'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re(`${START}(?:fais défiler|faites défiler|défile|défilez|va|allez)\\s+(?:jusqu'en|jusqu'au|tout en)\\s+(?<edge>haut|bas)(?:\\s+de\\s+la\\s+page)?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['fais défiler jusqu\'en bas de la page', 'va tout en haut'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re(`${START}(?:extrais|extrayez|extraire|récupère|récupérez|récupérer|copie|copiez|copier|enregistre|enregistrez)\\s+(?<target>.+?)(?:\\s+(?:de|du|des)\\s+(?<source>(?:la|le|les)\\s+.+?|l'.+?))?$`),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['extrais tous les liens', 'récupère les prix du tableau'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re(`${START}(?:attends|attendez|attendre|patiente|patientez)\\s+(?<duration>\\S+(?:\\s*(?:ms|millisecondes?|s|sec|secondes?|min|minutes?|h|heures?))?)$`),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['attends 5 secondes', 'attendez deux minutes'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re(`${START}(?:soumets|soumettez|soumettre|envoie|envoyez|envoyer|valide|validez|valider)(?:\\s+(?:le|la)\\s+(?<target>.+?))?$`),
+    intent: 'submit',
+    parameters: {},
+    examples: ['soumets le formulaire', 'valide'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re(`${START}(?:connecte-toi|connectez-vous|se connecter|connexion)(?:\\s+(?:à|au|sur)\\s+(?<target>.+?))?(?:\\s+avec\\s+(?<value>.+?))?$`),
+    intent: 'login',
+    parameters: {},
+    examples: ['connecte-toi', 'connectez-vous à github avec mon compte'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re(`${START}(?:déconnecte-toi|déconnectez-vous|se déconnecter|déconnexion)(?:\\s+(?:de|du)\\s+(?<target>.+?))?$`),
+    intent: 'logout',
+    parameters: {},
+    examples: ['déconnecte-toi', 'déconnectez-vous de gmail'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re(`${START}(?:sélectionne|sélectionnez|sélectionner|choisis|choisissez|choisir)\\s+(?<value>.+?)(?:\\s+dans\\s+(?:(?:le|la)\\s+|l')?(?<field>.+?))?$`),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['sélectionne france dans la liste des pays'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re(`${START}(?:survole|survolez|survoler|passe la souris sur|passez la souris sur)\\s+(?:(?:le|la|les)\\s+|l')?(?<target>.+?)$`),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['survole le menu'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re(`${START}(?:fais glisser|faites glisser|glisse|glissez|déplace|déplacez)\\s+(?:(?:le|la|les)\\s+|l')?(?<target>.+?)\\s+(?:vers|sur|dans)\\s+(?:(?:le|la|les)\\s+|l')?(?<destination>.+?)$`),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['fais glisser la carte vers terminé'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re(`${START}(?:téléverse|téléversez|téléverser|importe|importez|importer)\\s+(?:(?:le|la|les|mon|ma|mes)\\s+|l')?(?<file>.+?)$`),
+    intent: 'upload',
+    parameters: {},
+    examples: ['téléverse le document', 'importe mon cv'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re(`${START}(?:télécharge|téléchargez|télécharger)\\s+(?:(?:le|la|les)\\s+|l')?(?<target>.+?)$`),
+    intent: 'download',
+    parameters: {},
+    examples: ['télécharge le rapport'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re(`${START}(?:(?:prends|prenez|prendre|fais|faites)\\s+(?:une\\s+)?)?capture d'écran(?:\\s+(?:de|du)\\s+(?:(?:la|le)\\s+)?(?<target>.+?))?$`),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['prends une capture d\'écran', 'capture d\'écran de la page'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+const GERMAN = pack('de', [
+  {
+    id: 'navigate_to_url',
+    pattern: re(`${START}(?:gehe?\\s+(?:zu|auf)|navigiere\\s+(?:zu|nach)|öffne|besuche|rufe)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['gehe zu https://example.com', 'öffne https://google.de'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re(`${START}(?:gehe?\\s+(?:zu|auf)|navigiere\\s+(?:zu|nach)|öffne|besuche)\\s+(?:(?:die|der|das)\\s+)?(?:webseite\\s+(?:von\\s+)?)?(?<target>.+?)(?:\\s+webseite|\\s+seite)?$`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['gehe zu google', 'öffne die webseite von spiegel'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re(`${START}(?:klicke|klick|drücke|drück|tippe)\\s+(?:auf\\s+)?(?:(?:den|die|das|dem)\\s+)?(?:(?:button|knopf|link|schaltfläche)\\s+)?(?<target>.+?)(?:[\\s-]+(?:button|knopf|link|schaltfläche))?$`),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['klicke auf anmelden', 'drücke den absenden-button'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re(`${START}(?:gib|gebe|tippe|schreibe|trage)\\s+(?<value>.+?)\\s+in\\s+(?:(?:das|den|die|dem)\\s+)?(?<field>.+?)(?:\\s+feld)?\\s+ein$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['gib max in das namensfeld ein'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_field_with',
+    pattern: re(`${START}(?:fülle|füll)\\s+(?:(?:das|den|die)\\s+)?(?<field>.+?)\\s+mit\\s+(?<value>.+?)(?:\\s+aus)?$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['fülle das namensfeld mit max aus'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re(`${START}(?:suche|such)\\s+(?:nach\\s+)?(?<query>.+?)(?:\\s+(?:auf|bei|mit|in)\\s+(?<engine>google|bing|duckduckgo))?$`),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['suche nach restaurants', 'suche günstige flüge bei bing'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re(`${START}(?:scrolle|scroll|blättere)\\s+(?:nach\\s+)?(?<direction>oben|unten|links|rechts|hoch|runter)(?:\\s+(?<amount>\\d+))?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['scrolle nach unten', 'scroll hoch'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re(`${START}(?:scrolle|scroll|gehe?)\\s+(?:ganz\\s+nach|zum|zur|an\\s+den)\\s+(?<edge>anfang|ende|oben|unten)(?:\\s+der\\s+seite)?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['scrolle ganz nach unten', 'geh zum anfang der seite'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re(`${START}(?:extrahiere|extrahier|hole|hol|kopiere|kopier|speichere|speicher)\\s+(?<target>.+?)(?:\\s+(?:aus|von)\\s+(?<source>.+?))?$`),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['extrahiere alle links', 'hole die preise aus der tabelle'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re(`${START}(?:warte|wart)\\s+(?<duration>\\S+(?:\\s*(?:ms|millisekunden?|s|sek|sekunden?|min|minuten?|std|stunden?))?)$`),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['warte 5 sekunden', 'warte eine minute'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re(`${START}(?:(?:sende|schicke|reiche)\\s+(?:(?:das|den|die)\\s+)?(?<target>.+?)\\s+ab|absenden|abschicken)$`),
+    intent: 'submit',
+    parameters: {},
+    examples: ['sende das formular ab', 'absenden'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re(`${START}(?:(?:melde|logge)\\s+dich(?:\\s+(?:bei|auf|in)\\s+(?<target>.+?))?\\s+(?:an|ein)|anmelden|einloggen)$`),
+    intent: 'login',
+    parameters: {},
+    examples: ['melde dich an', 'logge dich bei github ein'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re(`${START}(?:(?:melde|logge)\\s+dich(?:\\s+(?:bei|von|auf)\\s+(?<target>.+?))?\\s+(?:ab|aus)|abmelden|ausloggen)$`),
+    intent: 'logout',
+    parameters: {},
+    examples: ['melde dich ab', 'logge dich bei gmail aus'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re(`${START}(?:wähle|wähl|selektiere)\\s+(?<value>.+?)(?:\\s+(?:im|in\\s+der|aus\\s+dem|aus\\s+der)\\s+(?<field>.+?))?(?:\\s+aus)?$`),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['wähle deutschland im länder-dropdown aus'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re(`${START}(?:fahre|fahr|bewege|beweg|hovere)\\s+(?:mit\\s+der\\s+maus\\s+|die\\s+maus\\s+)?über\\s+(?:(?:den|die|das|dem)\\s+)?(?<target>.+?)$`),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['fahre mit der maus über das menü'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re(`${START}(?:ziehe|zieh|verschiebe)\\s+(?:(?:den|die|das)\\s+)?(?<target>.+?)\\s+(?:in|auf|nach|zu)\\s+(?:(?:den|die|das|dem|der)\\s+)?(?<destination>.+?)$`),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['ziehe die karte nach erledigt'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re(`${START}(?:lade|lad)\\s+(?:(?:den|die|das|mein|meine)\\s+)?(?<file>.+?)\\s+hoch$`),
+    intent: 'upload',
+    parameters: {},
+    examples: ['lade das dokument hoch'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re(`${START}(?:lade|lad)\\s+(?:(?:den|die|das)\\s+)?(?<target>.+?)\\s+herunter$`),
+    intent: 'download',
+    parameters: {},
+    examples: ['lade den bericht herunter'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re(`${START}(?:(?:mach|mache|erstelle)\\s+(?:einen|ein)\\s+)?(?:screenshot|bildschirmfoto)(?:\\s+(?:von|der|des)\\s+(?:(?:der|dem|die)\\s+)?(?<target>.+?))?$`),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['mach einen screenshot', 'screenshot der ganzen seite'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+const PORTUGUESE = pack('pt', [
+  {
+    id: 'navigate_to_url',
+    pattern: re(`${START}(?:vá para|va para|ir para|vai para|navegue para|navegar para|abra|abrir|acesse|acessar|visite|visitar)\\s+(?<url>https?:\\/\\/\\S+)`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['vá para https://example.com', 'abra https://google.com.br'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re(`${START}(?:vá para|va para|ir para|vai para|navegue para|navegar para|abra|abrir|acesse|acessar|visite|visitar)\\s+(?:(?:o|a)\\s+)?(?:site\\s+(?:do\\s+|da\\s+|de\\s+)?)?(?<target>.+?)$`),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['vá para o google', 'abra o site do banco'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re(`${START}(?:clique|clica|clicar|pressione|pressionar|toque|tocar)\\s+(?:em\\s+|no\\s+|na\\s+|nos\\s+|nas\\s+)?(?:(?:o|a)\\s+)?(?:(?:botão|link)\\s+(?:de\\s+)?)?(?<target>.+?)$`),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['clique no botão entrar', 'clique em enviar'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re(`${START}(?:digite|digitar|escreva|escrever|insira|inserir)\\s+(?<value>.+?)\\s+(?:em|no|na)\\s+(?:campo\\s+(?:de\\s+)?)?(?<field>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['digite joão no campo nome'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_field_with',
+    pattern: re(`${START}(?:preencha|preencher)\\s+(?:(?:o|a)\\s+)?(?:campo\\s+(?:de\\s+)?)?(?<field>.+?)\\s+com\\s+(?<value>.+?)$`),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['preencha o campo nome com joão'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re(`${START}(?:pesquise|pesquisar|procure|procurar|busque|buscar)\\s+(?:por\\s+)?(?<query>.+?)(?:\\s+(?:no|na|em)\\s+(?<engine>google|bing|duckduckgo))?$`),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['pesquise restaurantes', 'procure voos baratos no bing'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re(`${START}(?:role|rolar|rola|desça|descer|suba|subir)\\s+(?:para\\s+)?(?<direction>cima|baixo|esquerda|direita)(?:\\s+(?<amount>\\d+))?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['role para baixo', 'role para cima 2'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re(`${START}(?:role|rolar|vá|va)\\s+até\\s+(?:o\\s+)?(?<edge>topo|início|inicio|final|fim)(?:\\s+da\\s+página)?$`),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['role até o final da página', 'vá até o topo'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re(`${START}(?:extraia|extrair|obtenha|obter|copie|copiar|salve|salvar)\\s+(?<target>.+?)(?:\\s+(?:da|do|das|dos)\\s+(?<source>.+?))?$`),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['extraia todos os links', 'obtenha os preços da tabela'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re(`${START}(?:aguarde|aguardar|espere|esperar)\\s+(?:por\\s+)?(?<duration>\\S+(?:\\s*(?:ms|milissegundos?|s|seg|segundos?|min|minutos?|h|horas?))?)$`),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['aguarde 5 segundos', 'espere dois minutos'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re(`${START}(?:envie|enviar|submeta|submeter)(?:\\s+(?:o|a)\\s+(?<target>.+?))?$`),
+    intent: 'submit',
+    parameters: {},
+    examples: ['envie o formulário'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re(`${START}(?:faça login|fazer login|entre|entrar|logue|logar)(?:\\s+(?:no|na|em)\\s+(?<target>.+?))?(?:\\s+com\\s+(?<value>.+?))?$`),
+    intent: 'login',
+    parameters: {},
+    examples: ['faça login', 'entre no github com a minha conta'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re(`${START}(?:faça logout|fazer logout|saia|sair|deslogue|deslogar)(?:\\s+(?:do|da|de)\\s+(?<target>.+?))?$`),
+    intent: 'logout',
+    parameters: {},
+    examples: ['saia', 'faça logout do gmail'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re(`${START}(?:selecione|selecionar|escolha|escolher)\\s+(?<value>.+?)(?:\\s+(?:no|na|em)\\s+(?<field>.+?))?$`),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['selecione brasil na lista de países'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re(`${START}(?:passe|passar)\\s+o\\s+(?:mouse|cursor)\\s+(?:sobre|em cima de|por cima de)\\s+(?:(?:o|a)\\s+)?(?<target>.+?)$`),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['passe o mouse sobre o menu'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re(`${START}(?:arraste|arrastar)\\s+(?:(?:o|a)\\s+)?(?<target>.+?)\\s+(?:para|até)\\s+(?:(?:o|a)\\s+)?(?<destination>.+?)$`),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['arraste o cartão para concluído'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re(`${START}(?:faça upload|fazer upload|carregue|carregar|anexe|anexar)\\s+(?:d[oa]\\s+|(?:o|a)\\s+)?(?<file>.+?)$`),
+    intent: 'upload',
+    parameters: {},
+    examples: ['faça upload do documento', 'anexe o currículo'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re(`${START}(?:baixe|baixar|faça download|fazer download)\\s+(?:d[oa]\\s+|(?:o|a)\\s+)?(?<target>.+?)$`),
+    intent: 'download',
+    parameters: {},
+    examples: ['baixe o relatório'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re(`${START}(?:(?:tire|tirar|faça|fazer)\\s+(?:uma\\s+|um\\s+)?)?(?:captura de tela|screenshot)(?:\\s+(?:da|do|de)\\s+(?<target>.+?))?$`),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['tire uma captura de tela', 'captura de tela da página'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+// Japanese is verb-final and unspaced: objects come first and particles mark their role
+const JAPANESE = pack('ja', [
+  {
+    id: 'navigate_to_url',
+    pattern: re('(?<url>https?:\\/\\/[!-~]+?)\\s*(?:に|へ|を)?\\s*(?:移動|アクセス|開)'),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['https://example.com に移動', 'https://google.co.jp を開いて'],
+    confidence: 0.9,
+    requiredEntities: ['urls'],
+  },
+  {
+    id: 'navigate_search',
+    pattern: re('^(?<target>.+?)(?:のサイト|のページ)?\\s*(?:に|へ|を)\\s*(?:移動|アクセス|開)(?:して|く|いて)?(?:ください)?$'),
+    intent: 'navigate',
+    parameters: { url: '' },
+    examples: ['グーグルに移動', 'ヤフーのサイトを開いて'],
+    confidence: 0.7,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'click_element',
+    pattern: re('^(?<target>.+?)(?:ボタン|リンク)?\\s*を\\s*(?:クリック|押|タップ)(?:して|す|する)?(?:ください)?$'),
+    intent: 'click',
+    parameters: { selector: '', text: '' },
+    examples: ['ログインボタンをクリック', '送信を押してください'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'fill_form',
+    pattern: re('^(?<field>.+?)(?:欄|フィールド)?\\s*に\\s*(?<value>.+?)\\s*(?:と|を)\\s*(?:入力|記入)(?:して|する)?(?:ください)?$'),
+    intent: 'fill',
+    parameters: { value: '', selector: '' },
+    examples: ['名前欄に太郎と入力', 'メールに test@example.com を入力してください'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+    optionalEntities: ['selectors'],
+  },
+  {
+    id: 'search_query',
+    pattern: re('^(?:(?<engine>google|bing|duckduckgo)\\s*で\\s*)?(?<query>.+?)\\s*を\\s*(?:検索|調べ)(?:して|る)?(?:ください)?$'),
+    intent: 'search',
+    parameters: { query: '', searchEngine: 'google' },
+    examples: ['レストランを検索', 'bingで格安航空券を検索して'],
+    confidence: 0.9,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'scroll_direction',
+    pattern: re('^(?<direction>上|下|左|右)\\s*(?:に|へ)?\\s*(?:(?<amount>\\d+)\\s*回\\s*)?スクロール(?:して|する)?(?:ください)?$'),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'page' },
+    examples: ['下にスクロール', '上へ2回スクロールして'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+    optionalEntities: ['numbers'],
+  },
+  {
+    id: 'scroll_to_edge',
+    pattern: re('^(?:ページの)?(?<edge>一番上|一番下|上|下)\\s*まで\\s*スクロール(?:して|する)?(?:ください)?$'),
+    intent: 'scroll',
+    parameters: { direction: 'down', amount: 'to_bottom' },
+    examples: ['一番下までスクロール', 'ページの上までスクロールして'],
+    confidence: 0.95,
+    requiredEntities: ['directions'],
+  },
+  {
+    id: 'extract_data',
+    pattern: re('^(?:(?<source>.+?)\\s*から\\s*)?(?<target>.+?)\\s*を\\s*(?:抽出|取得|コピー|保存)(?:して|する)?(?:ください)?$'),
+    intent: 'extract',
+    parameters: { extractType: 'text' },
+    examples: ['すべてのリンクを抽出', '表から価格を取得して'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'wait_duration',
+    pattern: re('^(?<duration>\\S+?(?:ミリ秒|秒|分|時間))間?\\s*待(?:つ|って)(?:ください)?$'),
+    intent: 'wait',
+    parameters: { duration: 0 },
+    examples: ['5秒待つ', '二分間待ってください'],
+    confidence: 0.95,
+    requiredEntities: ['numbers'],
+  },
+  {
+    id: 'submit_form',
+    pattern: re('^(?:(?<target>.+?)\\s*を\\s*)?送信(?:して|する)?(?:ください)?$'),
+    intent: 'submit',
+    parameters: {},
+    examples: ['フォームを送信', '送信して'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'login',
+    pattern: re('^(?:(?<target>.+?)\\s*に\\s*)?(?:ログイン|サインイン)(?:して|する)?(?:ください)?$'),
+    intent: 'login',
+    parameters: {},
+    examples: ['ログイン', 'githubにログインして'],
+    confidence: 0.85,
+    requiredEntities: [],
+  },
+  {
+    id: 'logout',
+    pattern: re('^(?:(?<target>.+?)\\s*から\\s*)?(?:ログアウト|サインアウト)(?:して|する)?(?:ください)?$'),
+    intent: 'logout',
+    parameters: {},
+    examples: ['ログアウト', 'gmailからログアウトして'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+  {
+    id: 'select_option',
+    pattern: re('^(?:(?<field>.+?)\\s*で\\s*)?(?<value>.+?)\\s*を\\s*選(?:択|んで|ぶ)(?:して|する)?(?:ください)?$'),
+    intent: 'select',
+    parameters: { value: '' },
+    examples: ['国のリストで日本を選択', '大サイズを選んで'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'hover_element',
+    pattern: re('^(?<target>.+?)\\s*(?:に|の上に)\\s*(?:マウスを|カーソルを)?\\s*(?:ホバー|合わせ|乗せ)(?:して|る|て)?(?:ください)?$'),
+    intent: 'hover',
+    parameters: { text: '' },
+    examples: ['メニューにホバー', 'アイコンにカーソルを合わせて'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'drag_element',
+    pattern: re('^(?<target>.+?)\\s*を\\s*(?<destination>.+?)\\s*(?:に|へ|まで)\\s*(?:ドラッグ|移動)(?:して|する)?(?:ください)?$'),
+    intent: 'drag',
+    parameters: { text: '' },
+    examples: ['カードを完了にドラッグ'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'upload_file',
+    pattern: re('^(?<file>.+?)\\s*を\\s*アップロード(?:して|する)?(?:ください)?$'),
+    intent: 'upload',
+    parameters: {},
+    examples: ['履歴書をアップロード'],
+    confidence: 0.8,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'download_file',
+    pattern: re('^(?<target>.+?)\\s*を\\s*ダウンロード(?:して|する)?(?:ください)?$'),
+    intent: 'download',
+    parameters: {},
+    examples: ['レポートをダウンロード'],
+    confidence: 0.85,
+    requiredEntities: ['text'],
+  },
+  {
+    id: 'take_screenshot',
+    pattern: re('^(?:(?<target>.+?)\\s*の\\s*)?(?:スクリーンショット|スクショ|画面キャプチャ)\\s*(?:を)?\\s*(?:撮|取)?(?:って|る)?(?:ください)?$'),
+    intent: 'screenshot',
+    parameters: {},
+    examples: ['スクリーンショットを撮って', 'ページ全体のスクショ'],
+    confidence: 0.9,
+    requiredEntities: [],
+  },
+]);
+
+export const LOCALE_PATTERN_PACKS: Record<CommandLocale, CommandPattern[]> = {
+  en: ENGLISH,
+  es: SPANISH,
+  fr: FRENCH,
+  de: GERMAN,
+  pt: PORTUGUESE,
+  ja: JAPANESE,
+};
+
+/**
+ * Every locale's patterns, English first
+ */
+export function getAllLocalePatterns(): CommandPattern[] {
+  return Object.values(LOCALE_PATTERN_PACKS).flat();
+}
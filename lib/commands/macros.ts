@@ -0,0 +1,469 @@
+/**
+ * User-defined command macros and aliases
+ * A trigger such as "standup {date:date}" expands into a command template or a saved multi-step plan
+ */
+
+import { getStorageValue, onStorageChanged, setStorageValue } from '../utils/chrome-storage';
+import { COMMAND_SCHEMAS, TARGETED_COMMANDS, validateAgainstSchema } from '../openrouter/tools';
+import { AICommandType, ParsedAICommand } from '../openrouter/types';
+import { parseLocaleDates, parseLocaleNumbers } from './locale-entities';
+import { CommandLocale, CommandMacro, MacroLibrary, MacroParameter, MacroParameterType } from './types';
+
+export const MACROS_STORAGE_KEY = 'command_macros';
+export const MACRO_LIBRARY_VERSION = 1;
+
+const PARAMETER_TYPES: MacroParameterType[] = ['string', 'number', 'date', 'url'];
+
+// {name}, {name:type} or {name:type?}
+const PLACEHOLDER_PATTERN = /\{\s*([^{}:?\s]+)\s*(?::\s*([a-z]+))?\s*(\?)?\s*\}/gi;
+const PARAMETER_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+// Macro fields a user can define; ids, parameters and timestamps are filled in on save
+export type MacroDefinition = Pick<CommandMacro, 'trigger' | 'description' | 'template' | 'commands'> & {
+  id?: string;
+  parameters?: MacroParameter[];
+};
+
+export interface MacroMatch {
+  macro: CommandMacro;
+  values: Record<string, string>;
+}
+
+export interface MacroImportResult {
+  imported: number;
+  skipped: string[];
+}
+
+/**
+ * Parameters declared in a trigger, in the order they appear
+ */
+export function parseMacroTrigger(trigger: string): MacroParameter[] {
+  return Array.from(trigger.matchAll(PLACEHOLDER_PATTERN)).map(match => ({
+    name: match[1],
+    type: (match[2]?.toLowerCase() || 'string') as MacroParameterType,
+    optional: match[3] === '?',
+  }));
+}
+
+/**
+ * Problems with a macro definition; an empty list means it can be saved
+ */
+export function validateMacro(definition: any): string[] {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object') {
+    return ['Macro must be an object'];
+  }
+
+  const trigger = typeof definition.trigger === 'string' ? definition.trigger.trim() : '';
+  if (!trigger) {
+    errors.push('Trigger is required');
+  } else if (!trigger.replace(PLACEHOLDER_PATTERN, '').trim()) {
+    errors.push('Trigger needs at least one word besides its parameters');
+  }
+
+  const parameters = parseMacroTrigger(trigger);
+  const names = new Set<string>();
+  for (const parameter of parameters) {
+    if (!PARAMETER_NAME_PATTERN.test(parameter.name)) {
+      errors.push(`Invalid parameter name "${parameter.name}"`);
+    }
+    if (!PARAMETER_TYPES.includes(parameter.type)) {
+      errors.push(`Parameter "${parameter.name}" has unknown type "${parameter.type}"`);
+    }
+    if (names.has(parameter.name)) {
+      errors.push(`Parameter "${parameter.name}" is declared twice`);
+    }
+    names.add(parameter.name);
+  }
+
+  const hasTemplate = typeof definition.template === 'string' && definition.template.trim() !== '';
+  const hasCommands = Array.isArray(definition.commands) && definition.commands.length > 0;
+
+  if (hasTemplate === hasCommands) {
+    errors.push('Macro needs either a command template or a saved plan');
+  }
+
+  if (hasTemplate) {
+    for (const match of definition.template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!names.has(match[1])) {
+        errors.push(`Template uses undeclared parameter "${match[1]}"`);
+      }
+    }
+  }
+
+  if (hasCommands) {
+    definition.commands.forEach((cmd: any, index: number) => {
+      if (!cmd || typeof cmd.type !== 'string' || !COMMAND_SCHEMAS[cmd.type as AICommandType]) {
+        errors.push(`Step ${index + 1}: unknown command type "${cmd?.type}"`);
+        return;
+      }
+
+      validateAgainstSchema({ ...cmd.options, ...cmd }, COMMAND_SCHEMAS[cmd.type as AICommandType])
+        .forEach(error => errors.push(`Step ${index + 1}: ${error}`));
+
+      if (TARGETED_COMMANDS.includes(cmd.type) && !cmd.selector && cmd.ref === undefined) {
+        errors.push(`Step ${index + 1}: selector or ref is required`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Find the macro whose trigger matches the whole input, converting its parameters to their types
+ * Macros with longer literal triggers are tried first so "standup team {date}" beats "standup {text}"
+ */
+export function matchMacro(
+  input: string,
+  macros: CommandMacro[],
+  locale: CommandLocale,
+  now: Date = new Date()
+): MacroMatch | null {
+  const text = input.normalize('NFKC').trim().replace(/\s+/g, ' ').replace(/[.!?。！？]+$/, '');
+  const ordered = [...macros].sort((a, b) => literalLength(b.trigger) - literalLength(a.trigger));
+
+  for (const macro of ordered) {
+    const match = text.match(compileTrigger(macro.trigger));
+    if (!match) {
+      continue;
+    }
+
+    const values = convertParameters(macro.parameters, match.groups || {}, locale, now);
+    if (values) {
+      return { macro, values };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fill {name} placeholders in a template
+ */
+export function expandMacroTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined ? values[name] : placeholder
+  );
+}
+
+/**
+ * Copy of a saved plan with {name} placeholders filled in every string field
+ */
+export function expandMacroPlan(commands: ParsedAICommand[], values: Record<string, string>): ParsedAICommand[] {
+  const fill = (value: any): any => {
+    if (typeof value === 'string') {
+      return expandMacroTemplate(value, values);
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fill(entry)]));
+    }
+    return value;
+  };
+
+  return commands.map(command => fill(command));
+}
+
+/**
+ * Macros persisted in chrome.storage; every instance reloads when another one saves
+ */
+export class MacroStore {
+  private macros: CommandMacro[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private listening = false;
+
+  /**
+   * Load macros from storage (once, until they change)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * All saved macros
+   */
+  async list(): Promise<CommandMacro[]> {
+    await this.load();
+    return [...this.macros];
+  }
+
+  /**
+   * Create or update a macro; throws when the definition is invalid
+   */
+  async save(definition: MacroDefinition): Promise<CommandMacro> {
+    const errors = validateMacro(definition);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    await this.load();
+
+    const trigger = definition.trigger.trim();
+    const clash = this.macros.find(macro =>
+      macro.id !== definition.id && triggerKey(macro.trigger) === triggerKey(trigger)
+    );
+    if (clash) {
+      throw new Error(`A macro with the trigger "${clash.trigger}" already exists`);
+    }
+
+    const existing = this.macros.find(macro => macro.id === definition.id);
+    const now = Date.now();
+    const macro: CommandMacro = {
+      id: existing?.id || definition.id || `macro_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      trigger,
+      description: definition.description?.trim() || undefined,
+      parameters: this.mergeDefaults(parseMacroTrigger(trigger), definition.parameters),
+      template: definition.template?.trim() || undefined,
+      commands: definition.commands?.length ? definition.commands : undefined,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.macros = existing
+      ? this.macros.map(entry => (entry.id === macro.id ? macro : entry))
+      : [...this.macros, macro];
+    await this.persist();
+
+    return macro;
+  }
+
+  /**
+   * Delete a macro by ID
+   */
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+
+    const remaining = this.macros.filter(macro => macro.id !== id);
+    if (remaining.length === this.macros.length) {
+      return false;
+    }
+
+    this.macros = remaining;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * The whole library in its shareable JSON form
+   */
+  async exportLibrary(): Promise<MacroLibrary> {
+    await this.load();
+    return {
+      version: MACRO_LIBRARY_VERSION,
+      exportedAt: Date.now(),
+      macros: [...this.macros],
+    };
+  }
+
+  /**
+   * Add macros from an exported library; imported macros replace saved ones with the same trigger
+   */
+  async importLibrary(library: any, replaceExisting: boolean = false): Promise<MacroImportResult> {
+    if (!library || typeof library !== 'object' || !Array.isArray(library.macros)) {
+      throw new Error('Not a macro library: expected an object with a macros array');
+    }
+    if (typeof library.version !== 'number' || library.version > MACRO_LIBRARY_VERSION) {
+      throw new Error(`Unsupported macro library version: ${library.version}`);
+    }
+
+    await this.load();
+
+    const result: MacroImportResult = { imported: 0, skipped: [] };
+    const byTrigger = new Map<string, CommandMacro>(
+      replaceExisting ? [] : this.macros.map(macro => [triggerKey(macro.trigger), macro])
+    );
+    const now = Date.now();
+
+    library.macros.forEach((candidate: any, index: number) => {
+      const errors = validateMacro(candidate);
+      if (errors.length > 0) {
+        result.skipped.push(`${candidate?.trigger || `Macro ${index + 1}`}: ${errors[0]}`);
+        return;
+      }
+
+      const trigger = candidate.trigger.trim();
+      const existing = byTrigger.get(triggerKey(trigger));
+      byTrigger.set(triggerKey(trigger), {
+        id: existing?.id || `macro_${now}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+        trigger,
+        description: typeof candidate.description === 'string' ? candidate.description : undefined,
+        parameters: this.mergeDefaults(parseMacroTrigger(trigger), candidate.parameters),
+        template: candidate.template?.trim() || undefined,
+        commands: candidate.commands?.length ? candidate.commands : undefined,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      result.imported++;
+    });
+
+    this.macros = Array.from(byTrigger.values());
+    await this.persist();
+
+    return result;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    this.listenForChanges();
+
+    try {
+      const stored = await getStorageValue<CommandMacro[]>(MACROS_STORAGE_KEY, []);
+      this.macros = Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.error('Failed to load command macros:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await setStorageValue(MACROS_STORAGE_KEY, this.macros);
+    } catch (error) {
+      console.error('Failed to save command macros:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Macros are edited from the popup while the parser holds its own store, so reload on change
+   */
+  private listenForChanges(): void {
+    if (this.listening) {
+      return;
+    }
+
+    this.listening = true;
+    onStorageChanged((changes, areaName) => {
+      if (areaName === 'local' && changes[MACROS_STORAGE_KEY]) {
+        this.macros = changes[MACROS_STORAGE_KEY].newValue || [];
+        this.loadPromise = Promise.resolve();
+      }
+    });
+  }
+
+  /**
+   * Keep default values of parameters that are still declared in the trigger
+   */
+  private mergeDefaults(parameters: MacroParameter[], previous: unknown): MacroParameter[] {
+    const defaults = new Map(
+      (Array.isArray(previous) ? previous : [])
+        .filter((parameter: any) => typeof parameter?.defaultValue === 'string')
+        .map((parameter: any) => [parameter.name, parameter.defaultValue as string])
+    );
+
+    return parameters.map(parameter =>
+      defaults.has(parameter.name) ? { ...parameter, defaultValue: defaults.get(parameter.name) } : parameter
+    );
+  }
+}
+
+/**
+ * Regex for a trigger: literal words match case-insensitively, parameters capture the text between them
+ */
+function compileTrigger(trigger: string): RegExp {
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of trigger.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = match.index ?? 0;
+    const literal = trigger.slice(lastIndex, index);
+    const group = `(?<${match[1]}>.+?)`;
+
+    if (match[3] === '?') {
+      // An optional parameter takes the space before it along, so "standup" matches "standup {date?}"
+      source += literalSource(literal.replace(/\s+$/, ''));
+      source += /\s$/.test(literal) ? `(?:\\s+${group})?` : `${group}?`;
+    } else {
+      source += literalSource(literal) + group;
+    }
+    lastIndex = index + match[0].length;
+  }
+
+  source += literalSource(trigger.slice(lastIndex));
+  return new RegExp(`^${source.trim()}$`, 'iu');
+}
+
+function literalSource(literal: string): string {
+  return literal
+    .split(/(\s+)/)
+    .map(part => (/^\s+$/.test(part) ? '\\s+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+}
+
+/**
+ * Typed parameter values, or null when a value does not fit its type
+ */
+function convertParameters(
+  parameters: MacroParameter[],
+  groups: Record<string, string | undefined>,
+  locale: CommandLocale,
+  now: Date
+): Record<string, string> | null {
+  const values: Record<string, string> = {};
+
+  for (const parameter of parameters) {
+    const raw = groups[parameter.name]?.trim();
+
+    if (!raw) {
+      if (!parameter.optional) {
+        return null;
+      }
+      values[parameter.name] = parameter.defaultValue ?? (parameter.type === 'date' ? formatDate(now) : '');
+      continue;
+    }
+
+    const value = convertValue(raw, parameter.type, locale, now);
+    if (value === null) {
+      return null;
+    }
+    values[parameter.name] = value;
+  }
+
+  return values;
+}
+
+function convertValue(raw: string, type: MacroParameterType, locale: CommandLocale, now: Date): string | null {
+  switch (type) {
+    case 'number': {
+      const numbers = parseLocaleNumbers(raw, locale);
+      return numbers.length === 1 ? String(numbers[0]) : null;
+    }
+
+    case 'date': {
+      const dates = parseLocaleDates(raw, locale, now);
+      return dates.length > 0 ? formatDate(dates[0]) : null;
+    }
+
+    case 'url': {
+      if (/\s/.test(raw) || !/^(https?:\/\/)?[^\s/]+\.[^\s/]+/i.test(raw)) {
+        return null;
+      }
+      return /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    }
+
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function literalLength(trigger: string): number {
+  return trigger.replace(PLACEHOLDER_PATTERN, '').replace(/\s+/g, '').length;
+}
+
+function triggerKey(trigger: string): string {
+  return trigger.toLowerCase().replace(PLACEHOLDER_PATTERN, '{}').replace(/\s+/g, ' ').trim();
+}
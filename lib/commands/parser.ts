@@ -15,19 +15,39 @@ import {
   CommandParsingError,
   ElementInfo,
   UserPreferences,
-  SessionInfo
+  SessionInfo,
+  CommandLocale
 } from './types';
 import { AutomationCommand } from '../shared/contracts';
-import { OpenRouterClient } from '../openrouter/client';
+import { LLMProvider } from '../providers/types';
+import { CommandComplexity, ParsedAICommand, RequestOptions } from '../openrouter/types';
+import { SemanticCacheKey } from '../cache/cache-manager';
+import { fingerprintPageStructure } from '../cache/semantic-key';
+import { LanguageDetector, LOCALE_NAMES, SUPPORTED_LOCALES } from './language-detector';
+import { getAllLocalePatterns } from './locale-patterns';
+import { expandMacroPlan, expandMacroTemplate, MacroMatch, MacroStore, matchMacro } from './macros';
+import { PatternLearner } from './pattern-learner';
+import {
+  extractLocaleEntities,
+  parseLocaleDirection,
+  parseLocaleDurations,
+  parseLocaleNumbers
+} from './locale-entities';
+
+// Phrasing that chains several steps into one command
+const MULTI_STEP_PATTERN = /\b(then|after that|and then|afterwards|finally)\b|;/i;
 
 export class CommandParser {
   private patterns: CommandPattern[] = [];
-  private openRouterClient: OpenRouterClient;
+  private languageDetector = new LanguageDetector();
+  private macroStore = new MacroStore();
+  private patternLearner = new PatternLearner();
+  private llmProvider: LLMProvider;
   private context: CommandContext;
   private userPreferences: UserPreferences;
 
   constructor(
-    openRouterClient: OpenRouterClient,
+    llmProvider: LLMProvider,
     context: CommandContext = {},
     userPreferences: UserPreferences = {
       language: 'en',
@@ -37,7 +57,7 @@ export class CommandParser {
       enableSuggestions: true,
     }
   ) {
-    this.openRouterClient = openRouterClient;
+    this.llmProvider = llmProvider;
     this.context = context;
     this.userPreferences = userPreferences;
     this.initializePatterns();
@@ -48,30 +68,65 @@ export class CommandParser {
    */
   async parseCommand(
     input: string,
-    context?: CommandContext
+    context?: CommandContext,
+    options: RequestOptions = {}
   ): Promise<ParsingResult> {
     const startTime = Date.now();
     const mergedContext = { ...this.context, ...context };
     
     try {
+      // User macros take precedence over the built-in patterns
+      const macroResult = await this.applyMacros(input);
+      if (macroResult.result) {
+        return {
+          ...macroResult.result,
+          processingTime: Date.now() - startTime,
+        };
+      }
+      input = macroResult.input;
+
       // Detect language
       const language = this.detectLanguage(input);
+      const locale = this.toLocale(language.language);
       
+      // Replay a plan that has succeeded often enough on this site
+      const learnedPattern = await this.patternLearner.findPattern(input, mergedContext.currentUrl);
+      if (learnedPattern) {
+        return {
+          commands: learnedPattern.commands.map(command => ({ ...command, originalText: input })),
+          workflows: [],
+          confidence: learnedPattern.confidence,
+          requiresClarification: false,
+          errors: [],
+          warnings: [],
+          processingTime: Date.now() - startTime,
+          language: locale,
+          source: 'learned',
+          learnedPatternId: learnedPattern.id,
+        };
+      }
+
       // Preprocess input
-      const preprocessedInput = this.preprocessInput(input, language);
+      const preprocessedInput = this.preprocessInput(input);
       
-      // Try pattern matching first
-      const patternResult = this.tryPatternMatching(preprocessedInput, mergedContext);
+      // Try the detected language's patterns first
+      const patternResult = this.tryPatternMatching(preprocessedInput, mergedContext, locale);
       
       if (patternResult.confidence > 0.8) {
         return {
           ...patternResult,
           processingTime: Date.now() - startTime,
+          language: locale,
+          source: 'pattern',
         };
       }
       
-      // Use AI for complex parsing
-      const aiResult = await this.useAIParsing(preprocessedInput, mergedContext, language);
+      // Use AI for complex parsing, routed to a model suited to the command
+      const aiResult = await this.useAIParsing(preprocessedInput, mergedContext, language, {
+        complexity: this.estimateComplexity(preprocessedInput, patternResult),
+        semanticCache: this.buildSemanticCacheKey(preprocessedInput, mergedContext, locale),
+        ...options,
+      });
       
       // Merge results
       const mergedResult = this.mergeParsingResults(patternResult, aiResult);
@@ -79,6 +134,8 @@ export class CommandParser {
       return {
         ...mergedResult,
         processingTime: Date.now() - startTime,
+        language: locale,
+        source: mergedResult === patternResult ? 'pattern' : 'ai',
       };
 
     } catch (error) {
@@ -95,136 +152,99 @@ export class CommandParser {
     }
   }
 
+  /**
+   * Expand macro triggers; templates may expand into further macros, saved plans end expansion
+   */
+  private async applyMacros(input: string): Promise<{ input: string; result?: ParsingResult }> {
+    const macros = await this.macroStore.list();
+    const expanded = new Set<string>();
+    let text = input;
+
+    while (macros.length > 0) {
+      const locale = this.toLocale(this.detectLanguage(text).language);
+      const match = matchMacro(text, macros, locale);
+
+      // A macro that expands back into itself would never terminate
+      if (!match || expanded.has(match.macro.id)) {
+        break;
+      }
+      expanded.add(match.macro.id);
+
+      if (match.macro.commands) {
+        return { input: text, result: this.createMacroPlanResult(match, text, locale) };
+      }
+      text = expandMacroTemplate(match.macro.template || '', match.values);
+    }
+
+    return { input: text };
+  }
+
+  /**
+   * Commands of a saved plan; the user wrote the plan, so it needs no confirmation from the model
+   */
+  private createMacroPlanResult(match: MacroMatch, input: string, locale: CommandLocale): ParsingResult {
+    const commands = expandMacroPlan(match.macro.commands || [], match.values).map(step => ({
+      ...this.convertAICommand(step, input, locale),
+      confidence: 1,
+    }));
+
+    return {
+      commands,
+      workflows: [],
+      confidence: 1,
+      requiresClarification: false,
+      errors: [],
+      warnings: [],
+      processingTime: 0,
+      language: locale,
+      source: 'macro',
+    };
+  }
+
   /**
    * Detect the language of the input
    */
   private detectLanguage(input: string): LanguageDetection {
-    // Simple language detection based on common words
-    const englishWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
-    const spanishWords = ['el', 'la', 'y', 'o', 'pero', 'en', 'a', 'para', 'de', 'con', 'por'];
-    const frenchWords = ['le', 'la', 'et', 'ou', 'mais', 'dans', 'à', 'pour', 'de', 'avec', 'par'];
-    
-    const words = input.toLowerCase().split(/\s+/);
-    const englishCount = words.filter(word => englishWords.includes(word)).length;
-    const spanishCount = words.filter(word => spanishWords.includes(word)).length;
-    const frenchCount = words.filter(word => frenchWords.includes(word)).length;
-    
-    const total = englishCount + spanishCount + frenchCount;
-    
-    if (total === 0) {
-      return {
-        language: 'en',
-        confidence: 0.5,
-        alternatives: [],
-      };
-    }
-    
-    const englishConfidence = englishCount / total;
-    const spanishConfidence = spanishCount / total;
-    const frenchConfidence = frenchCount / total;
-    
-    const maxConfidence = Math.max(englishConfidence, spanishConfidence, frenchConfidence);
-    
-    if (maxConfidence === englishConfidence) {
-      return {
-        language: 'en',
-        confidence: maxConfidence,
-        alternatives: [
-          { language: 'es', confidence: spanishConfidence },
-          { language: 'fr', confidence: frenchConfidence },
-        ],
-      };
-    } else if (maxConfidence === spanishConfidence) {
-      return {
-        language: 'es',
-        confidence: maxConfidence,
-        alternatives: [
-          { language: 'en', confidence: englishConfidence },
-          { language: 'fr', confidence: frenchConfidence },
-        ],
-      };
-    } else {
-      return {
-        language: 'fr',
-        confidence: maxConfidence,
-        alternatives: [
-          { language: 'en', confidence: englishConfidence },
-          { language: 'es', confidence: spanishConfidence },
-        ],
-      };
-    }
+    return this.languageDetector.detect(input);
+  }
+
+  /**
+   * Narrow a language code to one with a pattern pack, falling back to the user's language
+   */
+  private toLocale(language: string): CommandLocale {
+    const candidates = [language, this.userPreferences.language];
+    return (candidates.find(candidate => SUPPORTED_LOCALES.includes(candidate as CommandLocale)) as CommandLocale) || 'en';
   }
 
   /**
    * Preprocess the input text
    */
-  private preprocessInput(input: string, language: LanguageDetection): string {
-    let processed = input.toLowerCase().trim();
+  private preprocessInput(input: string): string {
+    // NFKC folds full-width letters and digits, common in Japanese input, to their ASCII forms
+    let processed = input.normalize('NFKC').toLowerCase().trim();
     
     // Remove extra whitespace
     processed = processed.replace(/\s+/g, ' ');
     
-    // Expand common abbreviations
-    const abbreviations = {
-      'en': {
-        'click': 'click on',
-        'go': 'navigate to',
-        'search': 'search for',
-        'fill': 'fill in',
-        'type': 'type in',
-        'scroll': 'scroll down',
-      },
-      'es': {
-        'haz clic': 'click en',
-        'ir': 'navegar a',
-        'buscar': 'buscar en',
-        'rellenar': 'rellenar en',
-        'escribir': 'escribir en',
-        'desplazar': 'desplazar hacia abajo',
-      },
-      'fr': {
-        'cliquez': 'cliquez sur',
-        'aller': 'naviguer vers',
-        'rechercher': 'rechercher',
-        'remplir': 'remplir',
-        'écrire': 'écrire',
-        'défiler': 'défiler vers le bas',
-      },
-    };
-    
-    const langAbbrevs = abbreviations[language.language as keyof typeof abbreviations] || abbreviations.en;
-    
-    Object.entries(langAbbrevs).forEach(([abbr, expansion]) => {
-      const regex = new RegExp(`\\b${abbr}\\b`, 'g');
-      processed = processed.replace(regex, expansion);
-    });
-    
     return processed;
   }
 
   /**
    * Try to match against known patterns
    */
-  private tryPatternMatching(input: string, context: CommandContext): ParsingResult {
+  private tryPatternMatching(input: string, context: CommandContext, locale: CommandLocale): ParsingResult {
     const commands: EnhancedParsedCommand[] = [];
     const errors: CommandParsingError[] = [];
     const warnings: string[] = [];
     
-    let bestMatch: { pattern: CommandPattern; match: RegExpMatchArray; confidence: number } | null = null;
-    
-    // Find best matching pattern
-    for (const pattern of this.patterns) {
-      const match = input.match(pattern.pattern);
-      if (match) {
-        const confidence = this.calculatePatternConfidence(pattern, match, input, context);
-        if (!bestMatch || confidence > bestMatch.confidence) {
-          bestMatch = { pattern, match, confidence };
-        }
-      }
+    // Commands often borrow English verbs ("klick login"), so English patterns are the fallback
+    let bestMatch = this.findBestMatch(input, context, locale);
+    if (!bestMatch && locale !== 'en') {
+      bestMatch = this.findBestMatch(input, context, 'en');
     }
     
     if (bestMatch) {
-      const command = this.createCommandFromPattern(bestMatch.pattern, bestMatch.match, input, context);
+      const command = this.createCommandFromPattern(bestMatch.pattern, bestMatch.match, input, context, locale);
       commands.push(command);
     }
     
@@ -238,7 +258,7 @@ export class CommandParser {
         requiresClarification: true,
         clarificationQuestion: 'I didn\'t understand that command. Could you please be more specific?',
         originalText: input,
-        language: 'en',
+        language: locale,
         complexity: 'simple',
         requiredPermissions: [],
         securityLevel: 'low',
@@ -257,17 +277,48 @@ export class CommandParser {
     };
   }
 
+  /**
+   * Best match among the patterns for a locale and the locale-independent (custom) patterns
+   */
+  private findBestMatch(
+    input: string,
+    context: CommandContext,
+    locale: CommandLocale
+  ): { pattern: CommandPattern; match: RegExpMatchArray; confidence: number } | null {
+    let bestMatch: { pattern: CommandPattern; match: RegExpMatchArray; confidence: number } | null = null;
+    
+    for (const pattern of this.patterns) {
+      if (pattern.locale && pattern.locale !== locale) {
+        continue;
+      }
+
+      const match = input.match(pattern.pattern);
+      if (match) {
+        const confidence = this.calculatePatternConfidence(pattern, match, input, context, locale);
+        if (!bestMatch || confidence > bestMatch.confidence) {
+          bestMatch = { pattern, match, confidence };
+        }
+      }
+    }
+    
+    return bestMatch;
+  }
+
   /**
    * Use AI for command parsing
    */
   private async useAIParsing(
     input: string,
     context: CommandContext,
-    language: LanguageDetection
+    language: LanguageDetection,
+    options: RequestOptions = {}
   ): Promise<ParsingResult> {
     try {
       const contextPrompt = this.buildContextPrompt(context);
-      const languagePrompt = language.language !== 'en' ? `Please respond in ${language.language}.` : '';
+      const locale = this.toLocale(language.language);
+      const languagePrompt = `Command language: ${LOCALE_NAMES[locale]} (${locale}). ` +
+        `Write clarification questions and descriptions in ${LOCALE_NAMES[locale]}; ` +
+        'keep URLs, selectors and values to type exactly as the user wrote them.';
       
       const prompt = `
 Parse the following natural language command into structured automation commands:
@@ -291,23 +342,16 @@ Focus on browser automation tasks like navigation, clicking, form filling, scrol
 Be conservative and safe - never suggest actions that could be harmful.
 `;
 
-      const aiResponse = await this.openRouterClient.parseCommand(prompt, context);
+      const aiResponse = await this.llmProvider.parseCommand(prompt, context, options);
       
       const commands: EnhancedParsedCommand[] = [];
       
       for (const cmd of aiResponse.commands) {
         const enhancedCommand: EnhancedParsedCommand = {
-          intent: cmd.type as CommandIntent,
-          entities: this.extractEntitiesFromCommand(cmd),
-          parameters: this.extractParametersFromCommand(cmd),
+          ...this.convertAICommand(cmd, input, locale),
           confidence: cmd.confidence || aiResponse.confidence,
           requiresClarification: aiResponse.requiresClarification,
           clarificationQuestion: aiResponse.clarificationQuestion,
-          originalText: input,
-          language: language.language,
-          complexity: this.assessComplexity(cmd),
-          requiredPermissions: this.getRequiredPermissions(cmd),
-          securityLevel: this.assessSecurityLevel(cmd),
         };
         
         commands.push(enhancedCommand);
@@ -343,101 +387,7 @@ Be conservative and safe - never suggest actions that could be harmful.
    * Initialize command patterns
    */
   private initializePatterns(): void {
-    this.patterns = [
-      // Navigation patterns
-      {
-        id: 'navigate_to_url',
-        pattern: /\b(go to|navigate to|open|visit)\s+(https?:\/\/[^\s]+)/i,
-        intent: 'navigate',
-        parameters: { url: '' },
-        examples: ['go to https://example.com', 'navigate to https://google.com'],
-        confidence: 0.9,
-        requiredEntities: ['urls'],
-        optionalEntities: [],
-      },
-      {
-        id: 'navigate_search',
-        pattern: /\b(go to|navigate to|open|visit)\s+(.+?)(?:\s+website|\s+site)?$/i,
-        intent: 'navigate',
-        parameters: { url: '' },
-        examples: ['go to google', 'navigate to facebook'],
-        confidence: 0.7,
-        requiredEntities: ['text'],
-        optionalEntities: [],
-      },
-      
-      // Click patterns
-      {
-        id: 'click_element',
-        pattern: /\b(click|click on|press)\s+(?:the\s+)?(.+?)(?:\s+button|\s+link|\s+element)?$/i,
-        intent: 'click',
-        parameters: { selector: '', text: '' },
-        examples: ['click submit button', 'click on the login link'],
-        confidence: 0.8,
-        requiredEntities: ['text'],
-        optionalEntities: ['selectors'],
-      },
-      
-      // Fill patterns
-      {
-        id: 'fill_form',
-        pattern: /\b(fill|fill in|type|enter)\s+(.+?)\s+in(?:to)?\s+(.+?)(?:\s+field|\s+input)?$/i,
-        intent: 'fill',
-        parameters: { value: '', selector: '' },
-        examples: ['fill john in the name field', 'type password123 in the password input'],
-        confidence: 0.85,
-        requiredEntities: ['text'],
-        optionalEntities: ['selectors'],
-      },
-      
-      // Search patterns
-      {
-        id: 'search_query',
-        pattern: /\bsearch\s+(?:for\s+)?(.+?)(?:\s+on\s+(.+?))?$/i,
-        intent: 'search',
-        parameters: { query: '', searchEngine: 'google' },
-        examples: ['search for cats', 'search for restaurants on bing'],
-        confidence: 0.9,
-        requiredEntities: ['text'],
-        optionalEntities: ['text'],
-      },
-      
-      // Scroll patterns
-      {
-        id: 'scroll_direction',
-        pattern: /\bscroll\s+(up|down|left|right)(?:\s+(\d+|page|to\s+(?:top|bottom)))?$/i,
-        intent: 'scroll',
-        parameters: { direction: 'down', amount: 'page' },
-        examples: ['scroll down', 'scroll up 2', 'scroll to bottom'],
-        confidence: 0.95,
-        requiredEntities: ['directions'],
-        optionalEntities: ['numbers'],
-      },
-      
-      // Extract patterns
-      {
-        id: 'extract_data',
-        pattern: /\b(extract|get|copy|save)\s+(.+?)(?:\s+from\s+(.+?))?$/i,
-        intent: 'extract',
-        parameters: { extractType: 'text' },
-        examples: ['extract all links', 'get the prices from the table'],
-        confidence: 0.8,
-        requiredEntities: ['text'],
-        optionalEntities: ['text'],
-      },
-      
-      // Wait patterns
-      {
-        id: 'wait_duration',
-        pattern: /\bwait\s+(?:for\s+)?(\d+)\s+(seconds?|minutes?|ms)?$/i,
-        intent: 'wait',
-        parameters: { duration: 0 },
-        examples: ['wait 5 seconds', 'wait for 2 minutes'],
-        confidence: 0.95,
-        requiredEntities: ['numbers'],
-        optionalEntities: [],
-      },
-    ];
+    this.patterns = getAllLocalePatterns();
   }
 
   /**
@@ -447,7 +397,8 @@ Be conservative and safe - never suggest actions that could be harmful.
     pattern: CommandPattern,
     match: RegExpMatchArray,
     input: string,
-    context: CommandContext
+    context: CommandContext,
+    locale: CommandLocale
   ): number {
     let confidence = pattern.confidence;
     
@@ -458,7 +409,7 @@ Be conservative and safe - never suggest actions that could be harmful.
     confidence *= (0.5 + 0.5 * coverage);
     
     // Adjust based on required entities
-    const hasRequiredEntities = this.checkRequiredEntities(pattern, match, context);
+    const hasRequiredEntities = this.checkRequiredEntities(pattern, match, pattern.locale ?? locale);
     if (!hasRequiredEntities) {
       confidence *= 0.7;
     }
@@ -478,19 +429,21 @@ Be conservative and safe - never suggest actions that could be harmful.
     pattern: CommandPattern,
     match: RegExpMatchArray,
     input: string,
-    context: CommandContext
+    context: CommandContext,
+    locale: CommandLocale
   ): EnhancedParsedCommand {
-    const entities = this.extractEntities(pattern, match, context);
-    const parameters = this.extractParameters(pattern, match, entities);
+    const commandLocale = pattern.locale ?? locale;
+    const entities = this.extractEntities(pattern, match, commandLocale);
+    const parameters = this.extractParameters(pattern, match, entities, commandLocale);
     
     return {
       intent: pattern.intent,
       entities,
       parameters,
-      confidence: this.calculatePatternConfidence(pattern, match, input, context),
+      confidence: this.calculatePatternConfidence(pattern, match, input, context, locale),
       requiresClarification: false,
       originalText: input,
-      language: this.userPreferences.language,
+      language: commandLocale,
       complexity: 'simple',
       requiredPermissions: this.getRequiredPermissionsFromIntent(pattern.intent),
       securityLevel: this.assessSecurityLevelFromIntent(pattern.intent),
@@ -503,24 +456,20 @@ Be conservative and safe - never suggest actions that could be harmful.
   private extractEntities(
     pattern: CommandPattern,
     match: RegExpMatchArray,
-    context: CommandContext
+    locale: CommandLocale
   ): CommandEntities {
-    const entities: CommandEntities = {};
+    const input = match.input ?? match[0];
+    
+    // Numbers, dates, durations and directions in the command's own notation
+    const entities: CommandEntities = extractLocaleEntities(input, locale);
     
     // Extract URLs
     const urlRegex = /https?:\/\/[^\s]+/g;
-    const urls = match.input.match(urlRegex) || [];
+    const urls = input.match(urlRegex) || [];
     if (urls.length > 0) {
       entities.urls = urls;
     }
     
-    // Extract numbers
-    const numberRegex = /\b\d+(\.\d+)?\b/g;
-    const numbers = (match.input.match(numberRegex) || []).map(n => parseFloat(n));
-    if (numbers.length > 0) {
-      entities.numbers = numbers;
-    }
-    
     // Extract text content from capture groups
     const textContent = match.slice(1).filter(group => group && !group.match(/^https?:\/\//));
     if (textContent.length > 0) {
@@ -532,20 +481,25 @@ Be conservative and safe - never suggest actions that could be harmful.
 
   /**
    * Extract parameters from pattern match
+   * Locale patterns name their groups, since word order differs between languages
    */
   private extractParameters(
     pattern: CommandPattern,
     match: RegExpMatchArray,
-    entities: CommandEntities
+    entities: CommandEntities,
+    locale: CommandLocale
   ): CommandParameters {
     const parameters: CommandParameters = { ...pattern.parameters };
+    const groups = match.groups ?? {};
     
     // Fill parameters based on entities
     if (entities.urls && entities.urls.length > 0) {
       parameters.url = entities.urls[0];
     }
     
-    if (entities.text && entities.text.length > 0) {
+    if (match.groups) {
+      this.applyNamedGroups(groups, parameters, locale);
+    } else if (entities.text && entities.text.length > 0) {
       if (pattern.intent === 'click') {
         parameters.text = entities.text[0];
       } else if (pattern.intent === 'fill') {
@@ -558,29 +512,85 @@ Be conservative and safe - never suggest actions that could be harmful.
       }
     }
     
-    if (entities.numbers && entities.numbers.length > 0) {
-      if (pattern.intent === 'wait') {
-        parameters.duration = entities.numbers[0];
-      } else if (pattern.intent === 'scroll') {
-        parameters.amount = entities.numbers[0];
+    if (pattern.intent === 'wait') {
+      // Durations are in milliseconds; a bare number means seconds
+      if (entities.waitTimes && entities.waitTimes.length > 0) {
+        parameters.duration = entities.waitTimes[0];
+      } else if (entities.numbers && entities.numbers.length > 0) {
+        parameters.duration = entities.numbers[0] * 1000;
+      }
+    } else if (pattern.intent === 'scroll' && groups.amount) {
+      const amount = parseLocaleNumbers(groups.amount, locale)[0];
+      if (amount !== undefined) {
+        parameters.amount = amount;
       }
     }
     
     return parameters;
   }
 
+  /**
+   * Map a locale pattern's named groups onto command parameters
+   */
+  private applyNamedGroups(
+    groups: Record<string, string | undefined>,
+    parameters: CommandParameters,
+    locale: CommandLocale
+  ): void {
+    const { target, value, field, query, engine, direction, edge, source, destination, file } = groups;
+    
+    if (target) {
+      parameters.text = target.trim();
+    }
+    if (value) {
+      parameters.value = value.trim();
+    }
+    if (field) {
+      parameters.fieldName = field.trim();
+    }
+    if (query) {
+      parameters.query = query.trim();
+    }
+    if (engine === 'google' || engine === 'bing' || engine === 'duckduckgo') {
+      parameters.searchEngine = engine;
+    }
+    if (file) {
+      parameters.fileName = file.trim();
+    }
+    
+    const scrollDirection = direction ? parseLocaleDirection(direction, locale) : undefined;
+    if (scrollDirection) {
+      parameters.direction = scrollDirection;
+    }
+    
+    const edgeDirection = edge ? parseLocaleDirection(edge, locale) : undefined;
+    if (edgeDirection) {
+      parameters.direction = edgeDirection;
+      parameters.amount = edgeDirection === 'up' ? 'to_top' : 'to_bottom';
+    }
+    
+    if (source || destination) {
+      parameters.options = {
+        ...parameters.options,
+        ...(source ? { source: source.trim() } : {}),
+        ...(destination ? { destination: destination.trim() } : {}),
+      };
+    }
+  }
+
   /**
    * Check if required entities are present
    */
   private checkRequiredEntities(
     pattern: CommandPattern,
     match: RegExpMatchArray,
-    context: CommandContext
+    locale: CommandLocale
   ): boolean {
+    const input = match.input ?? match[0];
     for (const requiredEntity of pattern.requiredEntities) {
       switch (requiredEntity) {
         case 'urls':
-          if (!match.input.match(/https?:\/\/[^\s]+/)) {
+          if (!input.match(/https?:\/\/[^\s]+/)) {
             return false;
           }
           break;
@@ -590,12 +600,13 @@ Be conservative and safe - never suggest actions that could be harmful.
           }
           break;
         case 'numbers':
-          if (!match.input.match(/\b\d+(\.\d+)?\b/)) {
+          // "eine Minute" has no digits but is still an amount
+          if (parseLocaleNumbers(input, locale).length === 0 && parseLocaleDurations(input, locale).length === 0) {
             return false;
           }
           break;
         case 'directions':
-          if (!match.input.match(/\b(up|down|left|right)\b/i)) {
+          if (!parseLocaleDirection(input, locale)) {
             return false;
           }
           break;
@@ -618,7 +629,9 @@ Be conservative and safe - never suggest actions that could be harmful.
       contextPrompt += `Page title: ${context.pageTitle}\n`;
     }
     
-    if (context.availableElements && context.availableElements.length > 0) {
+    if (context.pageSnapshot) {
+      contextPrompt += `Page structure (target elements by their ref):\n${context.pageSnapshot}\n`;
+    } else if (context.availableElements && context.availableElements.length > 0) {
       contextPrompt += `Available elements:\n`;
       context.availableElements.slice(0, 10).forEach(element => {
         contextPrompt += `- ${element.selector}: ${element.text}\n`;
@@ -704,6 +717,7 @@ Be conservative and safe - never suggest actions that could be harmful.
     return {
       url: cmd.url,
       selector: cmd.selector,
+      ref: cmd.ref,
       value: cmd.value,
       text: cmd.text,
       duration: cmd.timeout || cmd.duration,
@@ -711,18 +725,56 @@ Be conservative and safe - never suggest actions that could be harmful.
       amount: cmd.amount,
       query: cmd.query,
       extractType: cmd.extractType,
+      inputBackend: cmd.inputBackend,
       options: cmd.options,
     };
   }
 
+  /**
+   * Cache key for AI plans: the preprocessed command on the current origin and page structure
+   */
+  private buildSemanticCacheKey(input: string, context: CommandContext, locale: CommandLocale): SemanticCacheKey {
+    let origin = 'none';
+    try {
+      if (context.currentUrl) {
+        origin = new URL(context.currentUrl).origin;
+      }
+    } catch {
+      // Unparseable URLs share the origin-less scope
+    }
+
+    return {
+      text: input,
+      scope: origin,
+      fingerprint: context.pageSnapshot ? fingerprintPageStructure(context.pageSnapshot) : undefined,
+      locale,
+    };
+  }
+
+  /**
+   * Estimate complexity before the AI call from the best pattern match and the phrasing
+   */
+  private estimateComplexity(input: string, patternResult: ParsingResult): CommandComplexity {
+    if (MULTI_STEP_PATTERN.test(input)) {
+      return 'complex';
+    }
+
+    const matched = patternResult.commands.find(cmd => cmd.intent !== 'unknown');
+    const complexity = matched ? this.assessComplexity(matched.parameters) : 'simple';
+    if (complexity === 'simple' && input.split(/\s+/).length > 12) {
+      return 'moderate';
+    }
+    return complexity;
+  }
+
   /**
    * Assess command complexity
    */
-  private assessComplexity(cmd: any): 'simple' | 'moderate' | 'complex' {
+  private assessComplexity(cmd: any): CommandComplexity {
     let complexity = 0;
     
     if (cmd.url) complexity += 1;
-    if (cmd.selector) complexity += 2;
+    if (cmd.selector || cmd.ref !== undefined) complexity += 2;
     if (cmd.value) complexity += 1;
     if (cmd.options && Object.keys(cmd.options).length > 0) complexity += 2;
     
@@ -814,6 +866,28 @@ Be conservative and safe - never suggest actions that could be harmful.
     return riskMap[intent] || 'low';
   }
 
+  /**
+   * Convert a single AI command into an enhanced parsed command
+   */
+  public convertAICommand(
+    cmd: ParsedAICommand,
+    originalText: string,
+    language: string = this.userPreferences.language
+  ): EnhancedParsedCommand {
+    return {
+      intent: cmd.type as CommandIntent,
+      entities: this.extractEntitiesFromCommand(cmd),
+      parameters: this.extractParametersFromCommand(cmd),
+      confidence: cmd.confidence ?? 0.5,
+      requiresClarification: false,
+      originalText,
+      language,
+      complexity: this.assessComplexity(cmd),
+      requiredPermissions: this.getRequiredPermissions(cmd),
+      securityLevel: this.assessSecurityLevel(cmd),
+    };
+  }
+
   /**
    * Update parser context
    */
@@ -828,6 +902,13 @@ Be conservative and safe - never suggest actions that could be harmful.
     this.userPreferences = { ...this.userPreferences, ...preferences };
   }
 
+  /**
+   * Switch the LLM provider used for AI parsing
+   */
+  public setProvider(llmProvider: LLMProvider): void {
+    this.llmProvider = llmProvider;
+  }
+
   /**
    * Add custom pattern
    */
@@ -853,4 +934,18 @@ Be conservative and safe - never suggest actions that could be harmful.
   public getPatterns(): CommandPattern[] {
     return [...this.patterns];
   }
+
+  /**
+   * Store of the user's macros, matched before any pattern
+   */
+  public getMacroStore(): MacroStore {
+    return this.macroStore;
+  }
+
+  /**
+   * Store of plans learned from successful executions
+   */
+  public getPatternLearner(): PatternLearner {
+    return this.patternLearner;
+  }
 }
@@ -0,0 +1,271 @@
+/**
+ * Learning loop that turns repeatedly successful LLM plans into local patterns
+ * A phrasing whose plan succeeds often enough on an origin is replayed without asking the model;
+ * patterns that keep failing are demoted and have to earn promotion again
+ */
+
+import { getStorageValue, setStorageValue } from '../utils/chrome-storage';
+import { EnhancedParsedCommand, LearnedPattern } from './types';
+
+export const LEARNED_PATTERNS_STORAGE_KEY = 'learned_patterns';
+
+export interface PatternLearnerConfig {
+  promotionThreshold: number; // successful runs before a plan is replayed locally
+  minConfidence: number; // promoted patterns below this are demoted
+  maxConsecutiveFailures: number;
+  maxPatterns: number;
+}
+
+export interface ExecutionOutcome {
+  command: string;
+  url?: string;
+  commands: EnhancedParsedCommand[];
+  succeeded: boolean;
+  learnedPatternId?: string; // set when the executed plan was a replayed pattern
+}
+
+// Values typed into these fields must never be written to storage
+const SENSITIVE_FIELD_PATTERN = /pass(word|wd|code)?|pin\b|otp|2fa|mfa|cvv|cvc|card|secret|token|ssn/i;
+
+export class PatternLearner {
+  private config: PatternLearnerConfig;
+  private patterns: LearnedPattern[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(config: Partial<PatternLearnerConfig> = {}) {
+    this.config = {
+      promotionThreshold: 3,
+      minConfidence: 0.6,
+      maxConsecutiveFailures: 2,
+      maxPatterns: 200,
+      ...config,
+    };
+  }
+
+  /**
+   * Load learned patterns from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Promoted pattern for a command on the page's origin
+   */
+  async findPattern(command: string, url?: string): Promise<LearnedPattern | null> {
+    const origin = this.getOrigin(url);
+    if (!origin) {
+      return null;
+    }
+
+    await this.load();
+
+    const phrasing = this.normalizePhrasing(command);
+    return this.patterns.find(pattern =>
+      pattern.promoted && pattern.origin === origin && pattern.pattern === phrasing
+    ) || null;
+  }
+
+  /**
+   * Feed an execution outcome back into the pattern store
+   */
+  async recordOutcome(outcome: ExecutionOutcome): Promise<LearnedPattern | null> {
+    const origin = this.getOrigin(outcome.url);
+    if (!origin || outcome.commands.length === 0 || !this.isLearnable(outcome.commands)) {
+      return null;
+    }
+
+    await this.load();
+
+    const phrasing = this.normalizePhrasing(outcome.command);
+    const planKey = this.getPlanKey(outcome.commands);
+    const now = Date.now();
+
+    let pattern = outcome.learnedPatternId
+      ? this.patterns.find(entry => entry.id === outcome.learnedPatternId)
+      : this.patterns.find(entry => entry.origin === origin && entry.pattern === phrasing);
+
+    if (!pattern) {
+      // Only successful plans are worth remembering
+      if (!outcome.succeeded) {
+        return null;
+      }
+
+      pattern = this.createPattern(phrasing, origin, outcome.commands, planKey, now);
+      this.patterns.push(pattern);
+    } else if (pattern.planKey !== planKey && !outcome.learnedPatternId) {
+      // The model planned differently this time; earlier runs say nothing about the new plan
+      if (!outcome.succeeded) {
+        return pattern;
+      }
+
+      Object.assign(pattern, this.createPattern(phrasing, origin, outcome.commands, planKey, now), {
+        id: pattern.id,
+        createdAt: pattern.createdAt,
+      });
+    }
+
+    if (outcome.succeeded) {
+      pattern.successCount++;
+      pattern.consecutiveFailures = 0;
+    } else {
+      pattern.failureCount++;
+      pattern.consecutiveFailures++;
+    }
+
+    pattern.lastUsed = now;
+    pattern.confidence = this.calculateConfidence(pattern);
+    pattern.promoted = this.shouldPromote(pattern);
+
+    this.prune();
+    await this.persist();
+
+    return pattern;
+  }
+
+  /**
+   * All learned patterns, promoted or not
+   */
+  async getPatterns(): Promise<LearnedPattern[]> {
+    await this.load();
+    return [...this.patterns];
+  }
+
+  /**
+   * Forget a learned pattern
+   */
+  async removePattern(id: string): Promise<boolean> {
+    await this.load();
+
+    const remaining = this.patterns.filter(pattern => pattern.id !== id);
+    if (remaining.length === this.patterns.length) {
+      return false;
+    }
+
+    this.patterns = remaining;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Forget everything that was learned
+   */
+  async clear(): Promise<void> {
+    this.patterns = [];
+    this.loadPromise = Promise.resolve();
+    await this.persist();
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await getStorageValue<LearnedPattern[]>(LEARNED_PATTERNS_STORAGE_KEY, []);
+      this.patterns = Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.error('Failed to load learned patterns:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await setStorageValue(LEARNED_PATTERNS_STORAGE_KEY, this.patterns);
+    } catch (error) {
+      console.error('Failed to save learned patterns:', error);
+    }
+  }
+
+  private createPattern(
+    phrasing: string,
+    origin: string,
+    commands: EnhancedParsedCommand[],
+    planKey: string,
+    now: number
+  ): LearnedPattern {
+    return {
+      id: `learned_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      pattern: phrasing,
+      intent: commands.length === 1 ? commands[0].intent : 'workflow',
+      parameters: { steps: commands.length },
+      successCount: 0,
+      failureCount: 0,
+      lastUsed: now,
+      confidence: 0,
+      origin,
+      commands: commands.map(command => ({ ...command, entities: {}, clarificationQuestion: undefined })),
+      planKey,
+      promoted: false,
+      consecutiveFailures: 0,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Laplace-smoothed success rate, so a single lucky run is not a certainty
+   */
+  private calculateConfidence(pattern: LearnedPattern): number {
+    return (pattern.successCount + 1) / (pattern.successCount + pattern.failureCount + 2);
+  }
+
+  private shouldPromote(pattern: LearnedPattern): boolean {
+    if (pattern.consecutiveFailures >= this.config.maxConsecutiveFailures) {
+      return false;
+    }
+    if (pattern.confidence < this.config.minConfidence) {
+      return false;
+    }
+    // A promoted pattern stays promoted through an occasional failure
+    return pattern.promoted || pattern.successCount >= this.config.promotionThreshold;
+  }
+
+  /**
+   * Plans that type into credential fields or carry high-risk steps are never stored
+   */
+  private isLearnable(commands: EnhancedParsedCommand[]): boolean {
+    return commands.every(command => {
+      if (command.securityLevel === 'high' || command.requiresClarification) {
+        return false;
+      }
+
+      const { selector, fieldName, fieldType } = command.parameters;
+      const isSensitiveField = fieldType === 'password' ||
+        SENSITIVE_FIELD_PATTERN.test(`${selector || ''} ${fieldName || ''}`);
+      return !(command.intent === 'fill' && isSensitiveField);
+    });
+  }
+
+  /**
+   * Drop the least recently used unpromoted patterns first once the store is full
+   */
+  private prune(): void {
+    if (this.patterns.length <= this.config.maxPatterns) {
+      return;
+    }
+
+    this.patterns = [...this.patterns]
+      .sort((a, b) => Number(b.promoted) - Number(a.promoted) || b.lastUsed - a.lastUsed)
+      .slice(0, this.config.maxPatterns);
+  }
+
+  private normalizePhrasing(command: string): string {
+    return command.normalize('NFKC').toLowerCase().trim().replace(/\s+/g, ' ').replace(/[.!?。！？]+$/, '');
+  }
+
+  private getPlanKey(commands: EnhancedParsedCommand[]): string {
+    return JSON.stringify(commands.map(command => [command.intent, command.parameters]));
+  }
+
+  private getOrigin(url?: string): string | null {
+    if (!url) {
+      return null;
+    }
+
+    try {
+      const origin = new URL(url).origin;
+      return origin === 'null' ? null : origin;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -2,7 +2,13 @@
  * Command type definitions for natural language processing
  */
 
-import { AutomationCommand, ParsedCommand, ExecutionContext } from '../shared/contracts';
+import {
+  AutomationCommand,
+  CommandPattern as SharedCommandPattern,
+  ParsedCommand,
+  ExecutionContext
+} from '../shared/contracts';
+import { ParsedAICommand } from '../openrouter/types';
 
 // Command intent types
 export type CommandIntent = 
@@ -45,6 +51,7 @@ export interface CommandParameters {
   
   // Interaction parameters
   selector?: string;
+  ref?: number; // element ref from a page snapshot
   value?: string;
   text?: string;
   
@@ -63,7 +70,7 @@ export interface CommandParameters {
   
   // Extraction parameters
   extractType?: 'text' | 'html' | 'attributes' | 'links' | 'images' | 'data';
-  outputFormat?: 'json' | 'text' | 'csv';
+  outputFormat?: 'json' | 'text' | 'csv' | 'markdown';
   
   // Search parameters
   query?: string;
@@ -78,6 +85,9 @@ export interface CommandParameters {
   region?: { x: number; y: number; width: number; height: number };
   format?: 'png' | 'jpeg';
   
+  // Input parameters
+  inputBackend?: AutomationCommand['inputBackend'];
+  
   // Custom options
   options?: Record<string, any>;
 }
@@ -105,6 +115,7 @@ export interface CommandPattern {
   confidence: number;
   requiredEntities: string[];
   optionalEntities: string[];
+  locale?: CommandLocale; // only tried for commands in this language; unset patterns apply to all
 }
 
 // Multi-step command workflow
@@ -129,10 +140,12 @@ export interface WorkflowCondition {
 
 // Command context for parsing
 export interface CommandContext {
+  tabId?: number; // tab the command runs in; the active tab when unset
   currentUrl?: string;
   pageTitle?: string;
   pageLanguage?: string;
   availableElements?: ElementInfo[];
+  pageSnapshot?: string; // serialized accessibility tree with element refs
   previousCommands?: string[];
   userPreferences?: UserPreferences;
   sessionInfo?: SessionInfo;
@@ -182,8 +195,57 @@ export interface ParsingResult {
   errors: string[];
   warnings: string[];
   processingTime: number;
+  language?: CommandLocale; // detected language of the command
+  source?: ParsingSource;
+  learnedPatternId?: string; // set when a learned plan was replayed
+}
+
+// Where the commands of a parsing result came from
+export type ParsingSource = 'pattern' | 'ai' | 'macro' | 'learned';
+
+// Types a macro parameter's value is converted to
+export type MacroParameterType = 'string' | 'number' | 'date' | 'url';
+
+// Parameter declared in a macro trigger as {name}, {name:type} or {name:type?}
+export interface MacroParameter {
+  name: string;
+  type: MacroParameterType;
+  optional: boolean;
+  defaultValue?: string; // used when an optional parameter is left out
 }
 
+// User-defined shortcut expanding into a command template or a saved plan
+export interface CommandMacro {
+  id: string;
+  trigger: string; // e.g. "standup {date:date}"
+  description?: string;
+  parameters: MacroParameter[];
+  template?: string; // natural-language command with {name} placeholders
+  commands?: ParsedAICommand[]; // saved plan; string fields may contain {name} placeholders
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Plan that succeeded for a phrasing on one origin; promoted plans are replayed without the LLM
+export interface LearnedPattern extends SharedCommandPattern {
+  origin: string;
+  commands: EnhancedParsedCommand[];
+  planKey: string; // identifies the plan, so a different plan for the phrasing starts over
+  promoted: boolean;
+  consecutiveFailures: number;
+  createdAt: number;
+}
+
+// Shareable JSON export of a macro library
+export interface MacroLibrary {
+  version: number;
+  exportedAt: number;
+  macros: CommandMacro[];
+}
+
+// Languages with pattern packs and locale-aware entity parsing
+export type CommandLocale = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ja';
+
 // Language detection result
 export interface LanguageDetection {
   language: string;
@@ -149,15 +149,15 @@ export class CommandValidator {
         break;
 
       case 'click':
-        if (!command.selector && !command.value) {
-          warnings.push('Click command should have either selector or value');
+        if (!command.selector && command.ref === undefined && !command.value) {
+          warnings.push('Click command should have a selector, ref or value');
         }
         permissions.push('dom_access');
         break;
 
       case 'fill':
-        if (!command.selector) {
-          errors.push('Selector is required for fill commands');
+        if (!command.selector && command.ref === undefined) {
+          errors.push('Selector or ref is required for fill commands');
         }
         if (!command.value) {
           errors.push('Value is required for fill commands');
@@ -0,0 +1,437 @@
+/**
+ * Data extraction engine for repeated page structures
+ * Runs in the content script: finds the table rows, list items or cards that repeat on a page,
+ * infers the columns they share, reads them as rows and moves to the next page of results
+ */
+
+import type { ExtractionColumn, ExtractionPagination, ExtractionSchema } from './automation-types';
+import { queryDeepSelector } from './deep-selector';
+import { domWaiter } from './dom-waiter';
+
+export interface ExtractPageOptions {
+  selector?: string; // only look for records inside this element
+  recordSelector?: string;
+  columns?: ExtractionColumn[];
+}
+
+export interface ExtractedPage {
+  schema: ExtractionSchema;
+  rows: Record<string, string>[];
+}
+
+export interface AdvancePageOptions {
+  pagination: Exclude<ExtractionPagination, 'none'>;
+  recordSelector: string;
+  nextSelector?: string;
+  timeout?: number;
+}
+
+// advanced: new records were loaded in place; url: the next page is another document to navigate to
+export interface PageAdvance {
+  advanced: boolean;
+  url?: string;
+}
+
+export interface DataExtractorConfig {
+  minRecords: number; // fewest repetitions that count as a structure
+  minCoverage: number; // share of records a column must appear in
+  maxColumns: number;
+  sampleSize: number; // records examined when inferring columns
+  maxCandidates: number; // elements examined when detecting records
+  quietMs: number; // how long the page must stay unchanged after loading more records
+  timeout: number; // how long to wait for more records
+}
+
+const DEFAULT_CONFIG: DataExtractorConfig = {
+  minRecords: 3,
+  minCoverage: 0.5,
+  maxColumns: 12,
+  sampleSize: 20,
+  maxCandidates: 5000,
+  quietMs: 500,
+  timeout: 10000,
+};
+
+// Controls that lead to the next page of results
+const NEXT_CONTROLS = 'a, button, [role="button"], [role="link"]';
+const NEXT_CONTROL_PATTERN = /^(next( page)?|older( posts)?|more results|load more|show more|›|»|→|>)$/i;
+
+// Classes that describe state rather than structure, so records differing in them still match
+const STATE_CLASS_PATTERN = /^(is-|has-)|^(active|selected|current|first|last|odd|even|hover|focus|open|disabled)$/i;
+
+interface FieldInfo {
+  column: ExtractionColumn;
+  count: number;
+}
+
+interface RecordGroup {
+  kind: ExtractionSchema['kind'];
+  recordSelector: string;
+  records: Element[];
+  columns?: ExtractionColumn[];
+  score: number;
+}
+
+export class DataExtractor {
+  private config: DataExtractorConfig;
+
+  constructor(config: Partial<DataExtractorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Read the records of the current page, detecting them and their columns unless given
+   */
+  extractPage(options: ExtractPageOptions = {}): ExtractedPage {
+    const scope = options.selector ? queryDeepSelector(options.selector) : document.body;
+    if (!scope) {
+      throw new Error(`Element not found: ${options.selector}`);
+    }
+
+    let group: RecordGroup | null;
+    if (options.recordSelector) {
+      const records = Array.from(scope.querySelectorAll(options.recordSelector));
+      group = { kind: 'custom', recordSelector: options.recordSelector, records, score: records.length };
+    } else {
+      group = this.detectRecords(scope);
+    }
+
+    if (!group || group.records.length === 0) {
+      throw new Error('No repeated records found on the page');
+    }
+
+    const schema: ExtractionSchema = {
+      kind: options.columns?.length ? 'custom' : group.kind,
+      recordSelector: group.recordSelector,
+      columns: options.columns?.length ? options.columns : group.columns || this.inferColumns(group.records),
+    };
+    if (schema.columns.length === 0) {
+      throw new Error(`No columns found in records matching ${schema.recordSelector}`);
+    }
+
+    const rows = group.records
+      .map(record => this.readRecord(record, schema.columns))
+      .filter(row => Object.values(row).some(value => value !== ''));
+
+    return { schema, rows };
+  }
+
+  /**
+   * Load the next page of records: scroll for more, click a "next" button, or return the URL a
+   * "next" link leads to so the caller can navigate there
+   */
+  async advancePage(options: AdvancePageOptions): Promise<PageAdvance> {
+    const before = this.getRecordSignature(options.recordSelector);
+
+    if (options.pagination === 'scroll') {
+      const records = document.querySelectorAll(options.recordSelector);
+      records[records.length - 1]?.scrollIntoView({ block: 'end' });
+      window.scrollTo(0, document.documentElement.scrollHeight);
+    } else {
+      const control = this.findNextControl(options.nextSelector);
+      if (!control) {
+        return { advanced: false };
+      }
+
+      const href = control.getAttribute('href');
+      if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+        const url = new URL(href, window.location.href);
+        if (url.href.split('#')[0] !== window.location.href.split('#')[0]) {
+          return { advanced: false, url: url.href };
+        }
+      }
+
+      (control as HTMLElement).click();
+    }
+
+    return { advanced: await this.waitForNewRecords(options.recordSelector, before, options.timeout) };
+  }
+
+  /**
+   * The repeated structure with the most content: table rows, or same-looking children of one element
+   */
+  private detectRecords(scope: Element): RecordGroup | null {
+    let best: RecordGroup | null = null;
+    const consider = (group: RecordGroup | null) => {
+      if (group && (!best || group.score > best.score)) {
+        best = group;
+      }
+    };
+
+    const tables = [scope, ...Array.from(scope.querySelectorAll('table'))].filter(element => element.tagName === 'TABLE');
+    for (const table of tables) {
+      consider(this.describeTable(table));
+    }
+
+    const candidates = [scope, ...Array.from(scope.querySelectorAll('*')).slice(0, this.config.maxCandidates)];
+    for (const container of candidates) {
+      if (container.children.length >= this.config.minRecords && container.tagName !== 'TBODY' &&
+          container.tagName !== 'THEAD' && container.tagName !== 'TR') {
+        consider(this.describeChildren(container));
+      }
+    }
+
+    return best;
+  }
+
+  private describeTable(table: Element): RecordGroup | null {
+    const rows = Array.from(table.querySelectorAll('tr')).filter(row =>
+      row.closest('table') === table && row.querySelector(':scope > td')
+    );
+    if (rows.length < this.config.minRecords) {
+      return null;
+    }
+
+    const headerRow = Array.from(table.querySelectorAll('tr')).find(row =>
+      row.closest('table') === table && row.querySelector(':scope > th')
+    );
+    const headers = headerRow ? Array.from(headerRow.children).map(cell => normalizeText(cell.textContent)) : [];
+    const cellCount = Math.max(...rows.map(row => row.children.length));
+
+    const columns: ExtractionColumn[] = [];
+    for (let index = 1; index <= Math.min(cellCount, this.config.maxColumns); index++) {
+      const name = headers[index - 1] || `column ${index}`;
+      const cellSelector = `:scope > :nth-child(${index})`;
+      columns.push({ name, selector: cellSelector });
+
+      // Cells that link somewhere also get the link's URL
+      const linked = rows.filter(row => row.querySelector(`${cellSelector} a[href]`)).length;
+      if (linked >= rows.length * this.config.minCoverage) {
+        columns.push({ name: `${name} url`, selector: `${cellSelector} a[href]`, attribute: 'href' });
+      }
+    }
+
+    return {
+      kind: 'table',
+      recordSelector: `${getCssPath(table)} tr:has(> td)`,
+      records: rows,
+      columns: uniqueNames(columns),
+      score: rows.length * columns.length * 2,
+    };
+  }
+
+  private describeChildren(container: Element): RecordGroup | null {
+    const groups = new Map<string, Element[]>();
+    for (const child of Array.from(container.children)) {
+      const signature = getSignature(child);
+      groups.set(signature, [...(groups.get(signature) || []), child]);
+    }
+
+    let records: Element[] = [];
+    let signature = '';
+    groups.forEach((members, key) => {
+      if (members.length > records.length) {
+        records = members;
+        signature = key;
+      }
+    });
+    if (records.length < this.config.minRecords || ['SCRIPT', 'STYLE', 'OPTION', 'BR'].includes(records[0].tagName)) {
+      return null;
+    }
+
+    const columns = this.inferColumns(records);
+    const averageText = records.reduce((sum, record) => sum + normalizeText(record.textContent).length, 0) / records.length;
+    if (columns.length === 0 || averageText < 2) {
+      return null;
+    }
+
+    // Menus repeat too, so favour records with several fields and some text, outside navigation
+    const inNavigation = container.closest('nav, header, footer, [role="navigation"], [role="menu"]');
+    const score = records.length * Math.min(columns.length, 8) * Math.min(averageText / 20, 3) * (inNavigation ? 0.2 : 1);
+
+    return {
+      kind: 'list',
+      recordSelector: `${getCssPath(container)} > ${signature}`,
+      records,
+      score,
+    };
+  }
+
+  /**
+   * Columns shared by most records: texts, link URLs and image sources at the same place in each
+   */
+  private inferColumns(records: Element[]): ExtractionColumn[] {
+    const sample = records.slice(0, this.config.sampleSize);
+    const fields = new Map<string, FieldInfo>();
+
+    const add = (column: ExtractionColumn, seen: Set<string>) => {
+      const key = `${column.selector || ''}@${column.attribute || ''}`;
+      if (seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+      const field = fields.get(key);
+      if (field) {
+        field.count++;
+      } else {
+        fields.set(key, { column, count: 1 });
+      }
+    };
+
+    for (const record of sample) {
+      const seen = new Set<string>();
+      const visit = (element: Element, path: string[]) => {
+        const selector = path.length > 0 ? `:scope > ${path.join(' > ')}` : undefined;
+        const name = getFieldName(element);
+
+        if (hasOwnText(element)) {
+          add({ name, selector }, seen);
+        }
+        if (element.tagName === 'A' && element.hasAttribute('href')) {
+          add({ name: `${name} url`, selector, attribute: 'href' }, seen);
+        }
+        if (element.tagName === 'IMG' && element.hasAttribute('src')) {
+          add({ name, selector, attribute: 'src' }, seen);
+        }
+
+        Array.from(element.children).forEach(child => {
+          if (!['SCRIPT', 'STYLE', 'SVG', 'svg', 'TEMPLATE'].includes(child.tagName)) {
+            visit(child, [...path, getPathSegment(child)]);
+          }
+        });
+      };
+      visit(record, []);
+    }
+
+    const columns = Array.from(fields.values())
+      .filter(field => field.count >= sample.length * this.config.minCoverage)
+      .slice(0, this.config.maxColumns)
+      .map(field => field.column);
+
+    return uniqueNames(columns);
+  }
+
+  private readRecord(record: Element, columns: ExtractionColumn[]): Record<string, string> {
+    const row: Record<string, string> = {};
+
+    for (const column of columns) {
+      const target = column.selector ? record.querySelector(column.selector) : record;
+      if (!target) {
+        row[column.name] = '';
+      } else if (column.attribute) {
+        // Properties resolve relative URLs
+        const property = (target as any)[column.attribute];
+        row[column.name] = (typeof property === 'string' && ['href', 'src'].includes(column.attribute)
+          ? property
+          : target.getAttribute(column.attribute)) || '';
+      } else {
+        row[column.name] = normalizeText(target.textContent);
+      }
+    }
+
+    return row;
+  }
+
+  private findNextControl(nextSelector?: string): Element | null {
+    if (nextSelector) {
+      return queryDeepSelector(nextSelector);
+    }
+
+    const relNext = document.querySelector('a[rel~="next"], link[rel~="next"]');
+    if (relNext) {
+      return relNext;
+    }
+
+    return Array.from(document.querySelectorAll(NEXT_CONTROLS)).find(control => {
+      const label = normalizeText(control.getAttribute('aria-label') || control.textContent);
+      const disabled = control.matches(':disabled') || control.getAttribute('aria-disabled') === 'true';
+      return !disabled && NEXT_CONTROL_PATTERN.test(label) && (control as HTMLElement).offsetParent !== null;
+    }) || null;
+  }
+
+  // Changes when records are added or replaced
+  private getRecordSignature(recordSelector: string): string {
+    const records = document.querySelectorAll(recordSelector);
+    return `${records.length}:${normalizeText(records[0]?.textContent).slice(0, 200)}:` +
+      normalizeText(records[records.length - 1]?.textContent).slice(0, 200);
+  }
+
+  /**
+   * Wait until the records change and the page settles again
+   */
+  private async waitForNewRecords(recordSelector: string, before: string, timeout = this.config.timeout): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      await domWaiter.wait({ condition: 'stable', quietMs: this.config.quietMs, timeout: deadline - Date.now() });
+      if (this.getRecordSignature(recordSelector) !== before) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function hasOwnText(element: Element): boolean {
+  return Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && normalizeText(node.textContent) !== '');
+}
+
+function getStableClasses(element: Element): string[] {
+  return Array.from(element.classList).filter(name => !STATE_CLASS_PATTERN.test(name)).sort();
+}
+
+// Selector matching elements that look alike: the tag with its structural classes
+function getSignature(element: Element): string {
+  return [element.tagName.toLowerCase(), ...getStableClasses(element).map(name => `.${CSS.escape(name)}`)].join('');
+}
+
+// Step from a parent to a child; same-tag siblings are told apart by position
+function getPathSegment(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const siblings = Array.from(element.parentElement?.children || []).filter(sibling => sibling.tagName === element.tagName);
+  if (siblings.length > 1) {
+    return `${tag}:nth-of-type(${siblings.indexOf(element) + 1})`;
+  }
+
+  const [className] = getStableClasses(element);
+  return className ? `${tag}.${CSS.escape(className)}` : tag;
+}
+
+function getCssPath(element: Element): string {
+  if (element.id && document.querySelectorAll(`#${CSS.escape(element.id)}`).length === 1) {
+    return `#${CSS.escape(element.id)}`;
+  }
+  if (element === document.body || !element.parentElement) {
+    return element.tagName.toLowerCase();
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const index = Array.from(element.parentElement.children).filter(sibling => sibling.tagName === element.tagName).indexOf(element) + 1;
+  return `${getCssPath(element.parentElement)} > ${tag}:nth-of-type(${index})`;
+}
+
+// Column name from what the element says it is, e.g. itemprop="price" or class="product-title"
+function getFieldName(element: Element): string {
+  const label = element.getAttribute('itemprop') || element.getAttribute('data-field') || getStableClasses(element)[0];
+  if (label) {
+    return label.replace(/[-_]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().trim();
+  }
+
+  switch (element.tagName) {
+    case 'A':
+      return 'link';
+    case 'IMG':
+      return 'image';
+    case 'TIME':
+      return 'date';
+    default:
+      return /^H[1-6]$/.test(element.tagName) ? 'title' : 'text';
+  }
+}
+
+// Give repeated names a number: text, text 2, text 3
+function uniqueNames(columns: ExtractionColumn[]): ExtractionColumn[] {
+  const counts = new Map<string, number>();
+  return columns.map(column => {
+    const count = (counts.get(column.name) || 0) + 1;
+    counts.set(column.name, count);
+    return count > 1 ? { ...column, name: `${column.name} ${count}` } : column;
+  });
+}
+
+export const dataExtractor = new DataExtractor();
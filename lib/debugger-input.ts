@@ -0,0 +1,411 @@
+/**
+ * Trusted input through the chrome.debugger protocol
+ * Events sent with the Input domain arrive as real user input (isTrusted), which rich text editors,
+ * controlled inputs and pointer-driven drag libraries require. Chrome shows a banner while the
+ * debugger is attached, so tabs are detached again once input has been idle for a while
+ */
+
+import type { InputBackend } from './automation-types';
+import type { ClickOptions, DragOptions, HoverOptions, TypeOptions } from './element-interaction';
+import { getStorageValue, setStorageValue } from './utils/chrome-storage';
+
+export type { InputBackend };
+
+export const INPUT_BACKENDS_STORAGE_KEY = 'input_backends';
+export const DEBUGGER_TABS_STORAGE_KEY = 'debugger_attached_tabs';
+export const DEBUGGER_PERMISSION = 'debugger';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DispatchOptions {
+  // Whether a failed attempt can be repeated with the other backend; typing cannot, once keystrokes
+  // may have reached the page, or the text would be entered twice
+  repeatable?: boolean;
+}
+
+export interface DebuggerInputConfig {
+  protocolVersion: string;
+  detachDelay: number; // idle time before detaching from a tab
+  defaultBackend: InputBackend; // for origins without a preference
+}
+
+const DEFAULT_CONFIG: DebuggerInputConfig = {
+  protocolVersion: '1.3',
+  detachDelay: 10000,
+  defaultBackend: 'auto',
+};
+
+// Input.dispatchMouseEvent / dispatchKeyEvent modifier bits
+const MODIFIER_ALT = 1;
+const MODIFIER_CTRL = 2;
+const MODIFIER_META = 4;
+const MODIFIER_SHIFT = 8;
+
+const MOUSE_BUTTONS = ['left', 'middle', 'right'] as const;
+
+// Keys sent as key events rather than text, with their DOM codes and Windows virtual key codes
+const SPECIAL_KEYS: Record<string, { key: string; code: string; keyCode: number }> = {
+  '\n': { key: 'Enter', code: 'Enter', keyCode: 13 },
+  '\r': { key: 'Enter', code: 'Enter', keyCode: 13 },
+  '\t': { key: 'Tab', code: 'Tab', keyCode: 9 },
+};
+
+/**
+ * Error thrown when the debugger cannot be used on a tab, before any input was sent
+ */
+export class DebuggerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DebuggerUnavailableError';
+  }
+}
+
+export class DebuggerInput {
+  private config: DebuggerInputConfig;
+  private attached: Map<number, ReturnType<typeof setTimeout> | null> = new Map();
+  private attaching: Map<number, Promise<void>> = new Map();
+  private backends: Record<string, InputBackend> | null = null;
+  private listening = false;
+
+  private readonly onDetach = (source: chrome.debugger.Debuggee) => {
+    if (source.tabId !== undefined) {
+      const timer = this.attached.get(source.tabId);
+      if (timer) clearTimeout(timer);
+      this.attached.delete(source.tabId);
+      this.saveAttachedTabs();
+    }
+  };
+
+  constructor(config: Partial<DebuggerInputConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Input backend for a page, from the origin's saved preference
+   */
+  async getBackend(url?: string): Promise<InputBackend> {
+    const origin = getOrigin(url);
+    const backends = await this.loadBackends();
+    return (origin && backends[origin]) || this.config.defaultBackend;
+  }
+
+  /**
+   * Save the input backend for an origin; null returns it to the default
+   */
+  async setBackend(origin: string, backend: InputBackend | null): Promise<void> {
+    const key = getOrigin(origin) || origin;
+    const backends = { ...(await this.loadBackends()) };
+    if (backend) {
+      backends[key] = backend;
+    } else {
+      delete backends[key];
+    }
+
+    this.backends = backends;
+    await setStorageValue(INPUT_BACKENDS_STORAGE_KEY, backends);
+  }
+
+  /**
+   * Run an interaction with the backend chosen for the command, or else the one saved for the page's origin,
+   * falling back to the other backend when the first one fails
+   */
+  async dispatch<T>(
+    url: string | undefined,
+    backend: InputBackend | undefined,
+    trusted: () => Promise<T>,
+    synthetic: () => Promise<T>,
+    options: DispatchOptions = {}
+  ): Promise<T> {
+    const repeatable = options.repeatable !== false;
+    const selected = backend || await this.getBackend(url);
+    if (selected === 'synthetic') {
+      return synthetic();
+    }
+
+    if (selected === 'debugger') {
+      try {
+        return await trusted();
+      } catch (error) {
+        if (!repeatable && !(error instanceof DebuggerUnavailableError)) {
+          throw error;
+        }
+        console.warn('Trusted input failed, using synthetic events:', error);
+        return synthetic();
+      }
+    }
+
+    try {
+      return await synthetic();
+    } catch (error) {
+      if (!repeatable) {
+        throw error;
+      }
+      console.warn('Synthetic events failed, retrying with trusted input:', error);
+      try {
+        return await trusted();
+      } catch (trustedError) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Detach from tabs a previous service worker left attached; the sessions outlive the worker
+   */
+  async detachStaleTabs(): Promise<void> {
+    const tabIds = (await getStorageValue<number[]>(DEBUGGER_TABS_STORAGE_KEY, [])) || [];
+    if (tabIds.length === 0 || !(await this.hasPermission())) {
+      return;
+    }
+
+    await Promise.all(tabIds.filter(tabId => !this.attached.has(tabId)).map(async tabId => {
+      try {
+        await chrome.debugger.detach({ tabId });
+      } catch (error) {
+        // Already detached, e.g. the tab closed
+      }
+    }));
+    await this.saveAttachedTabs();
+  }
+
+  /**
+   * Click at a viewport point
+   */
+  async click(tabId: number, point: Point, options: ClickOptions = {}): Promise<void> {
+    const button = options.rightClick ? 'right' : MOUSE_BUTTONS[options.button || 0] || 'left';
+    const modifiers = getModifiers(options);
+    const clickCount = options.doubleClick ? 2 : 1;
+
+    await this.withDebugger(tabId, async () => {
+      await this.mouse(tabId, 'mouseMoved', point, { modifiers });
+      for (let count = 1; count <= clickCount; count++) {
+        await this.mouse(tabId, 'mousePressed', point, { button, clickCount: count, modifiers });
+        if (options.holdDuration) {
+          await sleep(options.holdDuration);
+        }
+        await this.mouse(tabId, 'mouseReleased', point, { button, clickCount: count, modifiers });
+      }
+    });
+  }
+
+  /**
+   * Type text into the focused element
+   * Without a delay the text is inserted at once, like a paste; with one, each character is a key press
+   */
+  async type(tabId: number, text: string, options: TypeOptions = {}): Promise<void> {
+    await this.withDebugger(tabId, async () => {
+      if (options.clearFirst !== false) {
+        // The caller selected the current contents, so deleting them clears the field
+        await this.key(tabId, { key: 'Backspace', code: 'Backspace', keyCode: 8 });
+      }
+
+      if (!options.delay && !options.humanLike) {
+        await this.send(tabId, 'Input.insertText', { text });
+        return;
+      }
+
+      for (const char of text) {
+        const special = SPECIAL_KEYS[char];
+        if (special) {
+          await this.key(tabId, special, special.key === 'Enter' ? '\r' : undefined);
+        } else {
+          await this.key(tabId, { key: char, code: '', keyCode: 0 }, char);
+        }
+        await sleep(options.humanLike ? (options.delay || Math.random() * 100 + 50) : options.delay!);
+      }
+    });
+  }
+
+  /**
+   * Move the mouse onto a viewport point and stay there
+   */
+  async hover(tabId: number, point: Point, options: HoverOptions = {}): Promise<void> {
+    await this.withDebugger(tabId, async () => {
+      await this.mouse(tabId, 'mouseMoved', point);
+      if (options.duration) {
+        await sleep(options.duration);
+      }
+    });
+  }
+
+  /**
+   * Press at one point, move to another in steps and release
+   * Pointer-driven drag libraries follow these events; native HTML5 drag and drop does not
+   */
+  async drag(tabId: number, from: Point, to: Point, options: DragOptions = {}): Promise<void> {
+    const steps = options.steps || 10;
+    const stepDuration = (options.duration || 1000) / steps;
+
+    await this.withDebugger(tabId, async () => {
+      await this.mouse(tabId, 'mouseMoved', from);
+      await this.mouse(tabId, 'mousePressed', from, { button: 'left', clickCount: 1 });
+      for (let step = 1; step <= steps; step++) {
+        await sleep(stepDuration);
+        await this.mouse(tabId, 'mouseMoved', {
+          x: from.x + (to.x - from.x) * step / steps,
+          y: from.y + (to.y - from.y) * step / steps,
+        }, { button: 'left', buttons: 1 });
+      }
+      await this.mouse(tabId, 'mouseReleased', to, { button: 'left', clickCount: 1 });
+    });
+  }
+
+  /**
+   * Detach from every tab
+   */
+  async detachAll(): Promise<void> {
+    await Promise.all(Array.from(this.attached.keys()).map(tabId => this.detach(tabId)));
+  }
+
+  /**
+   * Run input against a tab with the debugger attached, restarting its idle detach timer
+   */
+  private async withDebugger(tabId: number, run: () => Promise<void>): Promise<void> {
+    await this.attach(tabId);
+
+    const timer = this.attached.get(tabId);
+    if (timer) clearTimeout(timer);
+    this.attached.set(tabId, null);
+
+    try {
+      await run();
+    } finally {
+      if (this.attached.has(tabId)) {
+        const pending = this.attached.get(tabId);
+        if (pending) clearTimeout(pending);
+        this.attached.set(tabId, setTimeout(() => this.detach(tabId), this.config.detachDelay));
+      }
+    }
+  }
+
+  private async attach(tabId: number): Promise<void> {
+    if (this.attached.has(tabId)) {
+      return;
+    }
+
+    // The permission is optional and granted from the settings panel
+    if (!(await this.hasPermission())) {
+      throw new DebuggerUnavailableError('Trusted input needs the debugger permission, which has not been granted');
+    }
+
+    if (!this.listening) {
+      chrome.debugger.onDetach.addListener(this.onDetach);
+      this.listening = true;
+    }
+
+    // Concurrent commands share one attach
+    let attaching = this.attaching.get(tabId);
+    if (!attaching) {
+      attaching = chrome.debugger.attach({ tabId }, this.config.protocolVersion)
+        .then(() => {
+          this.attached.set(tabId, null);
+          return this.saveAttachedTabs();
+        })
+        .finally(() => {
+          this.attaching.delete(tabId);
+        });
+      this.attaching.set(tabId, attaching);
+    }
+
+    try {
+      await attaching;
+    } catch (error) {
+      throw new DebuggerUnavailableError(`Failed to attach debugger to tab ${tabId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async detach(tabId: number): Promise<void> {
+    const timer = this.attached.get(tabId);
+    if (timer) clearTimeout(timer);
+    this.attached.delete(tabId);
+    await this.saveAttachedTabs();
+
+    try {
+      await chrome.debugger.detach({ tabId });
+    } catch (error) {
+      // Already detached, e.g. the tab closed
+    }
+  }
+
+  private async mouse(
+    tabId: number,
+    type: 'mouseMoved' | 'mousePressed' | 'mouseReleased',
+    point: Point,
+    params: Record<string, any> = {}
+  ): Promise<void> {
+    await this.send(tabId, 'Input.dispatchMouseEvent', { type, x: point.x, y: point.y, ...params });
+  }
+
+  private async key(
+    tabId: number,
+    key: { key: string; code: string; keyCode: number },
+    text?: string
+  ): Promise<void> {
+    const common = {
+      key: key.key,
+      code: key.code,
+      windowsVirtualKeyCode: key.keyCode || undefined,
+    };
+
+    await this.send(tabId, 'Input.dispatchKeyEvent', { type: text ? 'keyDown' : 'rawKeyDown', text, unmodifiedText: text, ...common });
+    await this.send(tabId, 'Input.dispatchKeyEvent', { type: 'keyUp', ...common });
+  }
+
+  private async send(tabId: number, method: string, params: Record<string, any>): Promise<void> {
+    try {
+      await chrome.debugger.sendCommand({ tabId }, method, params);
+    } catch (error) {
+      throw new Error(`${method} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async hasPermission(): Promise<boolean> {
+    try {
+      return await chrome.permissions.contains({ permissions: [DEBUGGER_PERMISSION] });
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Remember attached tabs, so a restarted service worker can detach them
+   */
+  private async saveAttachedTabs(): Promise<void> {
+    try {
+      await setStorageValue(DEBUGGER_TABS_STORAGE_KEY, Array.from(this.attached.keys()));
+    } catch (error) {
+      console.warn('Failed to save debugger tabs:', error);
+    }
+  }
+
+  private async loadBackends(): Promise<Record<string, InputBackend>> {
+    if (!this.backends) {
+      this.backends = (await getStorageValue<Record<string, InputBackend>>(INPUT_BACKENDS_STORAGE_KEY, {})) || {};
+    }
+    return this.backends;
+  }
+}
+
+function getModifiers(options: ClickOptions): number {
+  return (options.altKey ? MODIFIER_ALT : 0) |
+    (options.ctrlKey ? MODIFIER_CTRL : 0) |
+    (options.metaKey ? MODIFIER_META : 0) |
+    (options.shiftKey ? MODIFIER_SHIFT : 0);
+}
+
+function getOrigin(url?: string): string | null {
+  try {
+    return url ? new URL(url).origin : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const debuggerInput = new DebuggerInput();
@@ -0,0 +1,466 @@
+/**
+ * Deep selectors: what commands accept wherever they take a selector
+ *
+ * CSS selectors reach into open shadow roots and same-origin frames. `host >>> button` matches buttons
+ * anywhere inside `host`, including its shadow tree and, for an iframe host, its document. A selector
+ * without `>>>` matches in the light DOM first, then in every open shadow root and same-origin frame.
+ *
+ * Playwright-style locators target elements the way users see them and survive DOM refactors:
+ *   role=button[name="Save"]   ARIA role and accessible name; also [checked] [disabled] [expanded]
+ *                              [pressed] [selected] [level=2] and [include-hidden]
+ *   label=Email                form controls by their label, aria-labelledby or aria-label
+ *   placeholder=Search  alt=Logo  title=Close  testid=submit-button  text=Sign in
+ * Values match case-insensitively as a substring; "quoted" values must match the whole text and
+ * /regex/flags values are tested as a regular expression. testid= always matches exactly.
+ * Steps chain with ` >> `, each searching inside the previous matches, and `nth=N` picks one match
+ * (0-based, negative counts from the end): `role=dialog >> role=button[name="OK"] >> nth=0`.
+ */
+
+export const SHADOW_PIERCING_COMBINATOR = '>>>';
+export const LOCATOR_CHAIN_SEPARATOR = ' >> ';
+
+// Locator engines recognised before the `=` of a chain step; anything else is CSS
+export const LOCATOR_ENGINES = ['role', 'label', 'placeholder', 'alt', 'title', 'testid', 'text', 'css', 'nth'];
+
+/**
+ * All elements a deep selector or locator matches, light DOM matches first
+ *
+ * Self-contained so chrome.scripting can inject it as it is: browser automation runs it in every
+ * frame to find the one holding the element, and the matches are left on the frame's global for the
+ * command script injected right after it to act on. The ARIA role and name rules below mirror
+ * PageSnapshotter's for that reason.
+ */
+export function queryDeepSelectorAll(
+  selector: string,
+  root: Document | Element | ShadowRoot = document
+): Element[] {
+  type Scope = Document | Element | ShadowRoot;
+  type TextMatcher = (text: string) => boolean;
+
+  // A copy of LOCATOR_ENGINES, since an injected function cannot refer to module scope
+  const engineNames = ['role', 'label', 'placeholder', 'alt', 'title', 'testid', 'text', 'css', 'nth'];
+
+  // Elements from other frames fail instanceof checks, so node types and tag names are compared instead
+  const isElement = (node: Node): node is Element => node.nodeType === 1;
+  const tagOf = (element: Element) => element.tagName.toLowerCase();
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+  // The scope itself followed by every open shadow root and same-origin frame document inside it
+  const collectScopes = (scope: Scope, scopes: Scope[]): Scope[] => {
+    scopes.push(scope);
+
+    const elements = Array.from(scope.querySelectorAll('*'));
+    if (isElement(scope)) {
+      elements.unshift(scope);
+    }
+
+    for (const element of elements) {
+      if (element.shadowRoot) {
+        collectScopes(element.shadowRoot, scopes);
+      }
+
+      if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+        try {
+          const frameDocument = (element as HTMLIFrameElement).contentDocument;
+          if (frameDocument?.documentElement) {
+            collectScopes(frameDocument, scopes);
+          }
+        } catch {
+          // Cross-origin frames are searched by the copy of this function injected into them
+        }
+      }
+    }
+
+    return scopes;
+  };
+
+  const queryCss = (css: string, scopes: Scope[]): Element[] => {
+    const segments = css.split('>>>').map(segment => segment.trim());
+    if (segments.some(segment => !segment)) {
+      throw new Error(`Invalid selector: ${selector}`);
+    }
+
+    let current = scopes;
+    let matches: Element[] = [];
+
+    for (const segment of segments) {
+      const found = new Set<Element>();
+      for (const scope of current) {
+        for (const nested of collectScopes(scope, [])) {
+          nested.querySelectorAll(segment).forEach(element => found.add(element));
+        }
+      }
+      matches = Array.from(found);
+      current = matches;
+    }
+
+    return matches;
+  };
+
+  // Every element inside the scopes, shadow roots and same-origin frames included
+  const descendants = (scopes: Scope[]): Element[] => {
+    const found = new Set<Element>();
+    for (const scope of scopes) {
+      for (const nested of collectScopes(scope, [])) {
+        nested.querySelectorAll('*').forEach(element => found.add(element));
+      }
+    }
+    return Array.from(found);
+  };
+
+  const createTextMatcher = (source: string): TextMatcher => {
+    const value = source.trim();
+
+    const regex = /^\/(.+)\/([a-z]*)$/s.exec(value);
+    if (regex) {
+      const pattern = new RegExp(regex[1], regex[2]);
+      return text => pattern.test(normalize(text));
+    }
+
+    if (value.length >= 2 && /^(["']).*\1$/s.test(value)) {
+      const expected = normalize(value.slice(1, -1).replace(/\\(.)/g, '$1')).toLowerCase();
+      return text => normalize(text).toLowerCase() === expected;
+    }
+
+    const expected = normalize(value).toLowerCase();
+    return text => normalize(text).toLowerCase().includes(expected);
+  };
+
+  const isHidden = (element: Element): boolean => {
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      if (current.hasAttribute('hidden') || current.getAttribute('aria-hidden') === 'true') {
+        return true;
+      }
+    }
+
+    const view = element.ownerDocument.defaultView;
+    const style = view?.getComputedStyle(element);
+    if (style && (style.display === 'none' || style.visibility === 'hidden')) {
+      return true;
+    }
+
+    // display: none on an ancestor leaves the element without boxes
+    return tagOf(element) !== 'option' && element.getClientRects().length === 0;
+  };
+
+  const isInside = (element: Element, tags: string[]) => {
+    for (let current = element.parentElement; current; current = current.parentElement) {
+      if (tags.includes(tagOf(current))) return true;
+    }
+    return false;
+  };
+
+  const getRole = (element: Element): string | null => {
+    const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+    if (explicit) {
+      return explicit;
+    }
+
+    const tag = tagOf(element);
+    switch (tag) {
+      case 'a':
+      case 'area':
+        return element.hasAttribute('href') ? 'link' : null;
+      case 'button':
+        return 'button';
+      case 'input': {
+        const type = (element.getAttribute('type') || 'text').toLowerCase();
+        const inputRoles: Record<string, string> = {
+          button: 'button', submit: 'button', reset: 'button', image: 'button',
+          checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+        };
+        if (type === 'hidden') return null;
+        if (inputRoles[type]) return inputRoles[type];
+        return element.hasAttribute('list') ? 'combobox' : 'textbox';
+      }
+      case 'select':
+        return (element as HTMLSelectElement).multiple || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'img':
+        return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'ul': case 'ol': case 'menu':
+        return 'list';
+      case 'header':
+        return isInside(element, ['article', 'aside', 'main', 'nav', 'section']) ? null : 'banner';
+      case 'footer':
+        return isInside(element, ['article', 'aside', 'main', 'nav', 'section']) ? null : 'contentinfo';
+      case 'section':
+        return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+      case 'td':
+        return 'cell';
+      case 'th':
+        return element.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader';
+      default: {
+        const implicitRoles: Record<string, string> = {
+          li: 'listitem', nav: 'navigation', main: 'main', aside: 'complementary', form: 'form',
+          table: 'table', tr: 'row', thead: 'rowgroup', tbody: 'rowgroup', tfoot: 'rowgroup',
+          dialog: 'dialog', details: 'group', fieldset: 'group', option: 'option', progress: 'progressbar',
+          meter: 'meter', hr: 'separator', output: 'status', article: 'article', p: 'paragraph',
+          summary: 'button', figure: 'figure', optgroup: 'group', datalist: 'listbox',
+        };
+        return implicitRoles[tag] || null;
+      }
+    }
+  };
+
+  const nameFromContentRoles = new Set([
+    'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem', 'menuitemcheckbox',
+    'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab', 'tooltip', 'treeitem',
+  ]);
+
+  // Text of an element's subtree as it contributes to an accessible name
+  const textFromContent = (element: Element, visited: Set<Element>): string => {
+    const parts: string[] = [];
+
+    const childNodes = element.shadowRoot ? element.shadowRoot.childNodes : element.childNodes;
+    for (const node of Array.from(childNodes)) {
+      if (node.nodeType === 3) {
+        parts.push(node.textContent || '');
+      } else if (isElement(node) && !visited.has(node) && !isHidden(node)) {
+        parts.push(computeName(node, visited, true));
+      }
+    }
+
+    return normalize(parts.join(' '));
+  };
+
+  // Simplified accessible name computation (accname 1.2 with the HTML-AAM native sources)
+  const computeName = (element: Element, visited: Set<Element>, inContent: boolean): string => {
+    visited.add(element);
+    const document = element.ownerDocument;
+
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy && !inContent) {
+      const name = normalize(labelledBy.split(/\s+/)
+        .map(id => document.getElementById(id))
+        .filter((target): target is HTMLElement => Boolean(target))
+        .map(target => textFromContent(target, new Set([element])))
+        .join(' '));
+      if (name) return name;
+    }
+
+    const ariaLabel = normalize(element.getAttribute('aria-label'));
+    if (ariaLabel) return ariaLabel;
+
+    const tag = tagOf(element);
+    const type = (element.getAttribute('type') || '').toLowerCase();
+
+    if (tag === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+      const value = normalize(element.getAttribute('value'));
+      return value || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+    }
+    if (tag === 'input' && type === 'image') {
+      return normalize(element.getAttribute('alt') || element.getAttribute('value') || 'Submit');
+    }
+
+    if (inContent && ['input', 'textarea', 'select'].includes(tag)) {
+      // An embedded control contributes its value
+      return normalize((element as HTMLInputElement).value);
+    }
+
+    if (['input', 'textarea', 'select', 'meter', 'progress', 'output'].includes(tag)) {
+      const labels = Array.from((element as HTMLInputElement).labels || [])
+        .map(label => textFromContent(label, new Set([...visited, element])))
+        .filter(Boolean);
+      if (labels.length > 0) return normalize(labels.join(' '));
+    }
+
+    if (tag === 'img' || tag === 'area') {
+      const alt = normalize(element.getAttribute('alt'));
+      if (alt) return alt;
+    }
+
+    const captions: Record<string, string> = { fieldset: 'legend', table: 'caption', figure: 'figcaption' };
+    if (captions[tag]) {
+      const caption = Array.from(element.children).find(child => tagOf(child) === captions[tag]);
+      if (caption) {
+        const name = textFromContent(caption, visited);
+        if (name) return name;
+      }
+    }
+
+    const role = getRole(element);
+    if (inContent || (role && nameFromContentRoles.has(role))) {
+      const name = textFromContent(element, visited);
+      if (name) return name;
+    }
+
+    return normalize(element.getAttribute('title') || element.getAttribute('placeholder'));
+  };
+
+  const accessibleName = (element: Element) => computeName(element, new Set(), false);
+
+  const ariaState = (element: Element, state: string): string => {
+    const explicit = element.getAttribute(`aria-${state}`);
+    if (explicit !== null) return explicit;
+
+    if (state === 'checked' && (element as HTMLInputElement).checked !== undefined && tagOf(element) === 'input') {
+      return String((element as HTMLInputElement).checked);
+    }
+    if (state === 'disabled') {
+      return String(element.hasAttribute('disabled') || element.closest('fieldset[disabled]') !== null);
+    }
+    if (state === 'selected' && tagOf(element) === 'option') {
+      return String((element as HTMLOptionElement).selected);
+    }
+    if (state === 'expanded' && tagOf(element) === 'details') {
+      return String(element.hasAttribute('open'));
+    }
+    if (state === 'level') {
+      const heading = /^h([1-6])$/.exec(tagOf(element));
+      return heading ? heading[1] : '';
+    }
+    return 'false';
+  };
+
+  // role=button[name="Save"][pressed]
+  const matchRole = (source: string, candidates: Element[]): Element[] => {
+    const parsed = /^([\w-]+)\s*((?:\[.*\])?)$/s.exec(source.trim());
+    if (!parsed) {
+      throw new Error(`Invalid role locator: role=${source}`);
+    }
+
+    const role = parsed[1].toLowerCase();
+    let nameMatcher: TextMatcher | null = null;
+    let includeHidden = false;
+    const states: Array<[string, string]> = [];
+
+    const optionPattern = /\[\s*([\w-]+)\s*(?:=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/(?:[^/\\]|\\.)+\/[a-z]*|[^\]]*?))?\s*\]/g;
+    let option: RegExpExecArray | null;
+    let consumed = 0;
+    while ((option = optionPattern.exec(parsed[2])) !== null) {
+      consumed += option[0].length;
+      const [, key, value] = option;
+      if (key === 'name') {
+        nameMatcher = createTextMatcher(value ?? '');
+      } else if (key === 'include-hidden') {
+        includeHidden = value === undefined || value === 'true';
+      } else {
+        states.push([key, value === undefined ? 'true' : value.replace(/^["']|["']$/g, '')]);
+      }
+    }
+    if (consumed !== parsed[2].length) {
+      throw new Error(`Invalid role locator: role=${source}`);
+    }
+
+    return candidates.filter(element =>
+      getRole(element) === role &&
+      (includeHidden || !isHidden(element)) &&
+      states.every(([state, value]) => ariaState(element, state) === value) &&
+      (!nameMatcher || nameMatcher(accessibleName(element)))
+    );
+  };
+
+  const matchLabel = (matches: TextMatcher, candidates: Element[]): Element[] =>
+    candidates.filter(element => {
+      if (isHidden(element)) return false;
+
+      const labels = Array.from((element as HTMLInputElement).labels || []).map(label => label.textContent || '');
+      const labelledBy = (element.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+        .map(id => element.ownerDocument.getElementById(id)?.textContent || '');
+      const ariaLabel = element.getAttribute('aria-label');
+
+      return [...labels, ...labelledBy, ...(ariaLabel ? [ariaLabel] : [])].some(matches);
+    });
+
+  const matchAttribute = (attribute: string, matches: TextMatcher, candidates: Element[]): Element[] =>
+    candidates.filter(element => element.hasAttribute(attribute) && matches(element.getAttribute(attribute)!) && !isHidden(element));
+
+  // Deepest elements whose text matches, so a match is not reported again for each of its ancestors
+  const matchText = (matches: TextMatcher, candidates: Element[]): Element[] => {
+    const matching = candidates.filter(element =>
+      !['script', 'style', 'noscript', 'template'].includes(tagOf(element)) &&
+      !isHidden(element) &&
+      matches(element.textContent || '')
+    );
+    const matchingSet = new Set(matching);
+    return matching.filter(element => !Array.from(element.children).some(child => matchingSet.has(child)));
+  };
+
+  const runStep = (step: string, scopes: Scope[], previous: Element[] | null): Element[] => {
+    const engine = /^([a-z]+)\s*=(.*)$/s.exec(step);
+    const name = engine && engineNames.includes(engine[1]) ? engine[1] : 'css';
+    const value = engine && engineNames.includes(engine[1]) ? engine[2] : step;
+
+    if (name === 'nth') {
+      const index = Number(value.trim());
+      if (!Number.isInteger(index)) {
+        throw new Error(`Invalid nth locator: ${step}`);
+      }
+      const list = previous ?? [];
+      const element = list[index < 0 ? list.length + index : index];
+      return element ? [element] : [];
+    }
+
+    if (name === 'css') {
+      return queryCss(value, scopes);
+    }
+
+    const candidates = descendants(scopes);
+    switch (name) {
+      case 'role':
+        return matchRole(value, candidates);
+      case 'label':
+        return matchLabel(createTextMatcher(value), candidates);
+      case 'testid': {
+        const testId = value.trim().replace(/^(["'])(.*)\1$/s, '$2');
+        return candidates.filter(element => element.getAttribute('data-testid') === testId);
+      }
+      case 'text':
+        return matchText(createTextMatcher(value), candidates);
+      default:
+        return matchAttribute(name, createTextMatcher(value), candidates);
+    }
+  };
+
+  const steps = selector.split(/\s+>>\s+/).map(step => step.trim());
+  if (steps.some(step => !step)) {
+    throw new Error(`Invalid selector: ${selector}`);
+  }
+
+  let matches: Element[] | null = null;
+  for (const step of steps) {
+    const scopes: Scope[] = matches ?? [root];
+    matches = runStep(step, scopes, matches);
+  }
+
+  const result = matches ?? [];
+  (globalThis as any).__rayDeepMatches = { selector, elements: result };
+  return result;
+}
+
+/**
+ * First element a deep selector or locator matches, or null
+ */
+export function queryDeepSelector(
+  selector: string,
+  root: Document | Element | ShadowRoot = document
+): Element | null {
+  // Plain selectors that match in the light DOM need no deep search
+  if (!isLocator(selector) && !selector.includes(SHADOW_PIERCING_COMBINATOR)) {
+    const element = root.querySelector(selector);
+    if (element) {
+      return element;
+    }
+  }
+
+  return queryDeepSelectorAll(selector, root)[0] || null;
+}
+
+/**
+ * Whether a selector uses locator syntax rather than plain CSS
+ */
+export function isLocator(selector: string): boolean {
+  const engine = /^\s*([a-z]+)\s*=/.exec(selector);
+  return (engine !== null && LOCATOR_ENGINES.includes(engine[1])) || selector.includes(LOCATOR_CHAIN_SEPARATOR);
+}
+
+/**
+ * Quote a value for a locator so it matches the whole text
+ */
+export function quoteLocatorValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
@@ -4,6 +4,8 @@
  */
 
 import { ElementSelector, SelectorStrategy } from './automation-types';
+import { queryDeepSelectorAll, quoteLocatorValue } from './deep-selector';
+import { pageSnapshotter } from './page-snapshot';
 
 export class DomSelectors {
   private selectorCache: Map<string, Element[]> = new Map();
@@ -44,6 +46,10 @@ export class DomSelectors {
           elements = this.findByIndex(selector.value, selector.index!, context);
           break;
           
+        case 'locator':
+          elements = this.findByLocator(selector.value, context);
+          break;
+          
         default:
           throw new Error(`Unknown selector strategy: ${selector.strategy}`);
       }
@@ -71,11 +77,12 @@ export class DomSelectors {
   }
 
   /**
-   * Find elements by CSS selector
+   * Find elements by CSS selector, including inside open shadow roots and same-origin frames
+   * (`host >>> inner` scopes the search to a shadow host or iframe)
    */
   private findByCssSelector(selector: string, context: Element | Document): Element[] {
     try {
-      return Array.from(context.querySelectorAll(selector));
+      return queryDeepSelectorAll(selector, context);
     } catch (error) {
       throw new Error(`Invalid CSS selector: ${selector}`);
     }
@@ -137,12 +144,24 @@ export class DomSelectors {
    */
   private findByAttribute(attribute: string, value: string, context: Element | Document): Element[] {
     try {
-      return Array.from(context.querySelectorAll(`[${attribute}="${value}"]`));
+      return queryDeepSelectorAll(`[${attribute}="${value}"]`, context);
     } catch (error) {
       throw new Error(`Invalid attribute selector: ${attribute}="${value}"`);
     }
   }
 
+  /**
+   * Find elements by a role=, label=, placeholder=, alt=, title=, testid= or text= locator,
+   * optionally chained with ` >> ` and narrowed with `nth=`
+   */
+  private findByLocator(locator: string, context: Element | Document): Element[] {
+    try {
+      return queryDeepSelectorAll(locator, context);
+    } catch (error) {
+      throw new Error(`Invalid locator: ${locator}`);
+    }
+  }
+
   /**
    * Find elements by index
    */
@@ -198,6 +217,9 @@ export class DomSelectors {
       }
     }
     
+    // Semantic locators survive DOM refactors that break CSS paths
+    selectors.push(...this.generateLocators(element));
+    
     // Try name attribute (for form elements)
     if (element.hasAttribute('name')) {
       const nameSelector = `[name="${element.getAttribute('name')}"]`;
@@ -227,6 +249,44 @@ export class DomSelectors {
     return selectors;
   }
 
+  /**
+   * Generate role, label and placeholder locators that match only this element
+   */
+  private generateLocators(element: Element): ElementSelector[] {
+    const candidates: string[] = [];
+    
+    const role = pageSnapshotter.getRole(element);
+    if (role) {
+      const name = pageSnapshotter.getAccessibleName(element, role).replace(/\s+/g, ' ').trim();
+      if (name) {
+        candidates.push(`role=${role}[name=${quoteLocatorValue(name)}]`);
+      }
+    }
+    
+    const labels = Array.from((element as HTMLInputElement).labels || [])
+      .map(label => (label.textContent || '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    if (labels.length > 0) {
+      candidates.push(`label=${quoteLocatorValue(labels[0])}`);
+    }
+    
+    const placeholder = element.getAttribute('placeholder');
+    if (placeholder) {
+      candidates.push(`placeholder=${quoteLocatorValue(placeholder)}`);
+    }
+    
+    return candidates
+      .filter(locator => {
+        try {
+          const matches = queryDeepSelectorAll(locator);
+          return matches.length === 1 && matches[0] === element;
+        } catch {
+          return false;
+        }
+      })
+      .map(locator => ({ strategy: 'locator' as const, value: locator }));
+  }
+
   /**
    * Generate XPath for an element
    */
@@ -263,7 +323,8 @@ export class DomSelectors {
    * Generate cache key for selector
    */
   private generateCacheKey(selector: ElementSelector, context: Element | Document): string {
-    const contextId = context === document ? 'document' : this.getElementId(context);
+    // Documents of same-origin frames are contexts too, so test for an element rather than the top document
+    const contextId = context.nodeType === Node.ELEMENT_NODE ? this.getElementId(context as Element) : 'document';
     return `${selector.strategy}:${selector.value}:${contextId}`;
   }
 
@@ -442,6 +503,8 @@ export const domSelectors = new DomSelectors(); * DOM selector strategies for ro
  */
 
 import { ElementSelector, SelectorStrategy } from './automation-types';
+import { queryDeepSelectorAll, quoteLocatorValue } from './deep-selector';
+import { pageSnapshotter } from './page-snapshot';
 
 export class DomSelectors {
   private selectorCache: Map<string, Element[]> = new Map();
@@ -482,6 +545,10 @@ export class DomSelectors {
           elements = this.findByIndex(selector.value, selector.index!, context);
           break;
           
+        case 'locator':
+          elements = this.findByLocator(selector.value, context);
+          break;
+          
         default:
           throw new Error(`Unknown selector strategy: ${selector.strategy}`);
       }
@@ -509,11 +576,12 @@ export class DomSelectors {
   }
 
   /**
-   * Find elements by CSS selector
+   * Find elements by CSS selector, including inside open shadow roots and same-origin frames
+   * (`host >>> inner` scopes the search to a shadow host or iframe)
    */
   private findByCssSelector(selector: string, context: Element | Document): Element[] {
     try {
-      return Array.from(context.querySelectorAll(selector));
+      return queryDeepSelectorAll(selector, context);
     } catch (error) {
       throw new Error(`Invalid CSS selector: ${selector}`);
     }
@@ -575,12 +643,24 @@ export class DomSelectors {
    */
   private findByAttribute(attribute: string, value: string, context: Element | Document): Element[] {
     try {
-      return Array.from(context.querySelectorAll(`[${attribute}="${value}"]`));
+      return queryDeepSelectorAll(`[${attribute}="${value}"]`, context);
     } catch (error) {
       throw new Error(`Invalid attribute selector: ${attribute}="${value}"`);
     }
   }
 
+  /**
+   * Find elements by a role=, label=, placeholder=, alt=, title=, testid= or text= locator,
+   * optionally chained with ` >> ` and narrowed with `nth=`
+   */
+  private findByLocator(locator: string, context: Element | Document): Element[] {
+    try {
+      return queryDeepSelectorAll(locator, context);
+    } catch (error) {
+      throw new Error(`Invalid locator: ${locator}`);
+    }
+  }
+
   /**
    * Find elements by index
    */
@@ -636,6 +716,9 @@ export class DomSelectors {
       }
     }
     
+    // Semantic locators survive DOM refactors that break CSS paths
+    selectors.push(...this.generateLocators(element));
+    
     // Try name attribute (for form elements)
     if (element.hasAttribute('name')) {
       const nameSelector = `[name="${element.getAttribute('name')}"]`;
@@ -665,6 +748,44 @@ export class DomSelectors {
     return selectors;
   }
 
+  /**
+   * Generate role, label and placeholder locators that match only this element
+   */
+  private generateLocators(element: Element): ElementSelector[] {
+    const candidates: string[] = [];
+    
+    const role = pageSnapshotter.getRole(element);
+    if (role) {
+      const name = pageSnapshotter.getAccessibleName(element, role).replace(/\s+/g, ' ').trim();
+      if (name) {
+        candidates.push(`role=${role}[name=${quoteLocatorValue(name)}]`);
+      }
+    }
+    
+    const labels = Array.from((element as HTMLInputElement).labels || [])
+      .map(label => (label.textContent || '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    if (labels.length > 0) {
+      candidates.push(`label=${quoteLocatorValue(labels[0])}`);
+    }
+    
+    const placeholder = element.getAttribute('placeholder');
+    if (placeholder) {
+      candidates.push(`placeholder=${quoteLocatorValue(placeholder)}`);
+    }
+    
+    return candidates
+      .filter(locator => {
+        try {
+          const matches = queryDeepSelectorAll(locator);
+          return matches.length === 1 && matches[0] === element;
+        } catch {
+          return false;
+        }
+      })
+      .map(locator => ({ strategy: 'locator' as const, value: locator }));
+  }
+
   /**
    * Generate XPath for an element
    */
@@ -701,7 +822,8 @@ export class DomSelectors {
    * Generate cache key for selector
    */
   private generateCacheKey(selector: ElementSelector, context: Element | Document): string {
-    const contextId = context === document ? 'document' : this.getElementId(context);
+    // Documents of same-origin frames are contexts too, so test for an element rather than the top document
+    const contextId = context.nodeType === Node.ELEMENT_NODE ? this.getElementId(context as Element) : 'document';
     return `${selector.strategy}:${selector.value}:${contextId}`;
   }
 
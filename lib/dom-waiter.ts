@@ -0,0 +1,357 @@
+/**
+ * DOM waiter registry for element waits
+ * Lives in the content script and settles waits from observer callbacks instead of polling:
+ * MutationObserver for DOM changes, IntersectionObserver and ResizeObserver for layout changes
+ * that no mutation announces, so waits resolve on the change itself and short-lived states are seen
+ */
+
+import type { ElementSelector } from './automation-types';
+import { domSelectors } from './dom-selectors';
+
+export type DomWaitCondition =
+  | 'present'
+  | 'visible'
+  | 'hidden'
+  | 'clickable'
+  | 'all' // every selector matches
+  | 'stable' // no mutations for quietMs
+  | 'text'; // the page, or the selected element, shows the text
+
+export interface DomWaitRequest {
+  condition: DomWaitCondition;
+  selectors?: ElementSelector[]; // the element, all elements for 'all', or an optional scope for 'stable' and 'text'
+  text?: string;
+  quietMs?: number;
+  timeout: number;
+}
+
+export interface DomWaitResult {
+  success: boolean;
+  condition: DomWaitCondition;
+  elapsed: number; // from the wait being registered to it settling
+  checks: number; // times the condition was evaluated
+  mutations: number; // mutation records seen while waiting
+  matched: number; // elements satisfying the condition
+  error?: string;
+}
+
+const DEFAULT_QUIET_MS = 500;
+
+// Conditions that depend on layout, so their element is watched for size and viewport changes
+const LAYOUT_CONDITIONS: DomWaitCondition[] = ['visible', 'hidden', 'clickable'];
+
+interface Waiter {
+  request: DomWaitRequest;
+  startTime: number;
+  checks: number;
+  mutations: number;
+  checking: boolean;
+  pending: boolean; // a change arrived while a check was running
+  settled: boolean;
+  scope: Element | null;
+  observed: Element | null;
+  intersectionObserver?: IntersectionObserver;
+  resizeObserver?: ResizeObserver;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  quietTimer?: ReturnType<typeof setTimeout>;
+  lastError?: string;
+  resolve: (result: DomWaitResult) => void;
+}
+
+export class DomWaiter {
+  private waiters: Set<Waiter> = new Set();
+  private mutationObserver: MutationObserver | null = null;
+
+  private readonly onMutations = (records: MutationRecord[]) => {
+    for (const waiter of Array.from(this.waiters)) {
+      if (waiter.request.condition === 'stable') {
+        const relevant = waiter.scope
+          ? records.filter(record => waiter.scope!.contains(record.target)).length
+          : records.length;
+        if (relevant > 0) {
+          waiter.mutations += relevant;
+          this.restartQuietPeriod(waiter);
+        }
+        continue;
+      }
+
+      waiter.mutations += records.length;
+      this.evaluate(waiter);
+    }
+  };
+
+  // CSS transitions and animations change visibility without any mutation
+  private readonly onStyleSettled = () => {
+    for (const waiter of Array.from(this.waiters)) {
+      if (LAYOUT_CONDITIONS.includes(waiter.request.condition)) {
+        this.evaluate(waiter);
+      }
+    }
+  };
+
+  /**
+   * Register a wait and resolve once its condition holds or it times out
+   */
+  wait(request: DomWaitRequest): Promise<DomWaitResult> {
+    return new Promise(resolve => {
+      const waiter: Waiter = {
+        request,
+        startTime: Date.now(),
+        checks: 0,
+        mutations: 0,
+        checking: false,
+        pending: false,
+        settled: false,
+        scope: null,
+        observed: null,
+        resolve,
+      };
+
+      this.waiters.add(waiter);
+      this.connect();
+      waiter.timeoutId = setTimeout(() => {
+        this.settle(waiter, 0, waiter.lastError || `Condition '${request.condition}' not met within ${request.timeout}ms`);
+      }, request.timeout);
+
+      if (request.condition === 'stable') {
+        this.startStableWait(waiter);
+      } else {
+        this.evaluate(waiter);
+      }
+    });
+  }
+
+  /**
+   * Settle every pending wait as cancelled, e.g. when the page unloads
+   */
+  cancelAll(reason = 'Wait cancelled'): void {
+    for (const waiter of Array.from(this.waiters)) {
+      this.settle(waiter, 0, reason);
+    }
+  }
+
+  /**
+   * Number of waits still pending
+   */
+  get size(): number {
+    return this.waiters.size;
+  }
+
+  private async startStableWait(waiter: Waiter): Promise<void> {
+    const scopeSelector = waiter.request.selectors?.[0];
+    if (scopeSelector) {
+      try {
+        waiter.scope = await domSelectors.findElement(scopeSelector);
+      } catch (error) {
+        waiter.lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!waiter.scope) {
+        this.settle(waiter, 0, waiter.lastError || `Element not found: ${scopeSelector.value}`);
+        return;
+      }
+    }
+
+    this.restartQuietPeriod(waiter);
+  }
+
+  private restartQuietPeriod(waiter: Waiter): void {
+    if (waiter.settled) {
+      return;
+    }
+
+    if (waiter.quietTimer) clearTimeout(waiter.quietTimer);
+    waiter.checks++;
+    waiter.quietTimer = setTimeout(() => {
+      this.settle(waiter, waiter.scope ? 1 : 0);
+    }, waiter.request.quietMs ?? DEFAULT_QUIET_MS);
+  }
+
+  /**
+   * Check a waiter's condition; changes arriving during a check queue one more check
+   */
+  private async evaluate(waiter: Waiter): Promise<void> {
+    if (waiter.settled) {
+      return;
+    }
+    if (waiter.checking) {
+      waiter.pending = true;
+      return;
+    }
+
+    waiter.checking = true;
+    do {
+      waiter.pending = false;
+      waiter.checks++;
+
+      try {
+        const matched = await this.check(waiter);
+        if (matched !== null) {
+          this.settle(waiter, matched);
+        }
+      } catch (error) {
+        // Selectors may fail while the page is still building, so keep waiting like a miss
+        waiter.lastError = error instanceof Error ? error.message : String(error);
+      }
+    } while (waiter.pending && !waiter.settled);
+    waiter.checking = false;
+  }
+
+  /**
+   * Number of matched elements when the condition holds, otherwise null
+   */
+  private async check(waiter: Waiter): Promise<number | null> {
+    const { condition, selectors = [], text } = waiter.request;
+
+    if (condition === 'all') {
+      for (const selector of selectors) {
+        if (!(await domSelectors.findElement(selector))) {
+          return null;
+        }
+      }
+      return selectors.length;
+    }
+
+    if (condition === 'text') {
+      const scope = selectors[0] ? await domSelectors.findElement(selectors[0]) : document.body;
+      return scope && normalizeText(getText(scope)).includes(normalizeText(text || '')) ? 1 : null;
+    }
+
+    if (selectors.length === 0) {
+      throw new Error(`A selector is required to wait for '${condition}'`);
+    }
+
+    const element = await domSelectors.findElement(selectors[0]);
+    this.observeLayout(waiter, element);
+
+    switch (condition) {
+      case 'present':
+        return element ? 1 : null;
+      case 'visible':
+        return element && isVisible(element) ? 1 : null;
+      case 'hidden':
+        return !element || !isVisible(element) ? 0 : null;
+      case 'clickable':
+        return element && isClickable(element) ? 1 : null;
+      default:
+        throw new Error(`Unknown wait condition: ${condition}`);
+    }
+  }
+
+  /**
+   * Watch the waited-for element for size and viewport changes, following it when it is replaced
+   */
+  private observeLayout(waiter: Waiter, element: Element | null): void {
+    if (!LAYOUT_CONDITIONS.includes(waiter.request.condition) || element === waiter.observed) {
+      return;
+    }
+
+    this.disconnectLayout(waiter);
+    waiter.observed = element;
+    if (!element) {
+      return;
+    }
+
+    const recheck = () => this.evaluate(waiter);
+    if (typeof IntersectionObserver !== 'undefined') {
+      waiter.intersectionObserver = new IntersectionObserver(recheck, { threshold: [0, 0.5, 1] });
+      waiter.intersectionObserver.observe(element);
+    }
+    if (typeof ResizeObserver !== 'undefined') {
+      waiter.resizeObserver = new ResizeObserver(recheck);
+      waiter.resizeObserver.observe(element);
+    }
+  }
+
+  private disconnectLayout(waiter: Waiter): void {
+    waiter.intersectionObserver?.disconnect();
+    waiter.resizeObserver?.disconnect();
+    waiter.intersectionObserver = undefined;
+    waiter.resizeObserver = undefined;
+    waiter.observed = null;
+  }
+
+  private settle(waiter: Waiter, matched: number, error?: string): void {
+    if (waiter.settled) {
+      return;
+    }
+
+    waiter.settled = true;
+    clearTimeout(waiter.timeoutId);
+    if (waiter.quietTimer) clearTimeout(waiter.quietTimer);
+    this.disconnectLayout(waiter);
+    this.waiters.delete(waiter);
+    if (this.waiters.size === 0) {
+      this.disconnect();
+    }
+
+    waiter.resolve({
+      success: !error,
+      condition: waiter.request.condition,
+      elapsed: Date.now() - waiter.startTime,
+      checks: waiter.checks,
+      mutations: waiter.mutations,
+      matched,
+      error,
+    });
+  }
+
+  /**
+   * Observe the document while any wait is pending
+   */
+  private connect(): void {
+    if (this.mutationObserver) {
+      return;
+    }
+
+    this.mutationObserver = new MutationObserver(this.onMutations);
+    this.mutationObserver.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+    document.addEventListener('transitionend', this.onStyleSettled, true);
+    document.addEventListener('animationend', this.onStyleSettled, true);
+  }
+
+  private disconnect(): void {
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+    document.removeEventListener('transitionend', this.onStyleSettled, true);
+    document.removeEventListener('animationend', this.onStyleSettled, true);
+  }
+}
+
+function isVisible(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+  return (
+    rect.width > 0 &&
+    rect.height > 0 &&
+    style.visibility !== 'hidden' &&
+    style.display !== 'none' &&
+    style.opacity !== '0'
+  );
+}
+
+function isClickable(element: Element): boolean {
+  if (!isVisible(element) || (element as HTMLInputElement).disabled) {
+    return false;
+  }
+
+  // Not obscured by another element
+  const rect = element.getBoundingClientRect();
+  const elementAtPoint = document.elementFromPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
+  return elementAtPoint === element || element.contains(elementAtPoint);
+}
+
+function getText(element: Element): string {
+  return (element as HTMLElement).innerText ?? element.textContent ?? '';
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export const domWaiter = new DomWaiter();
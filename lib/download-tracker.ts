@@ -0,0 +1,143 @@
+/**
+ * Download tracker for download commands
+ * Starts downloads through chrome.downloads and follows them until they finish
+ */
+
+export interface DownloadRecord {
+  id: number;
+  url: string;
+  filename: string;
+  state: 'in_progress' | 'interrupted' | 'complete';
+  bytesReceived: number;
+  totalBytes: number;
+  mime?: string;
+  error?: string;
+}
+
+export interface DownloadTrackerConfig {
+  timeout: number; // how long to follow a download before reporting it as still in progress
+  detectTimeout: number; // how long a click may take to start a download
+}
+
+const DEFAULT_CONFIG: DownloadTrackerConfig = {
+  timeout: 60000,
+  detectTimeout: 10000,
+};
+
+export class DownloadTracker {
+  private config: DownloadTrackerConfig;
+
+  constructor(config: Partial<DownloadTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Download a URL and wait for it to finish
+   */
+  async download(url: string, filename?: string, timeout?: number): Promise<DownloadRecord> {
+    const id = await chrome.downloads.download({
+      url,
+      filename: filename || undefined,
+      conflictAction: 'uniquify',
+    });
+
+    if (id === undefined) {
+      throw new Error(`Failed to start download: ${chrome.runtime.lastError?.message || url}`);
+    }
+
+    return this.waitForCompletion(id, timeout);
+  }
+
+  /**
+   * Wait for the first download started after a point in time (e.g. by clicking a link) to finish
+   */
+  async waitForNext(startedAfter: string, timeout?: number): Promise<DownloadRecord> {
+    const id = await this.waitForStart(startedAfter);
+    return this.waitForCompletion(id, timeout);
+  }
+
+  /**
+   * Follow a download until it completes or is interrupted; a download still running
+   * after the timeout is reported as in progress rather than failed
+   */
+  async waitForCompletion(id: number, timeout: number = this.config.timeout): Promise<DownloadRecord> {
+    return new Promise((resolve, reject) => {
+      const finish = async () => {
+        clearTimeout(timeoutId);
+        chrome.downloads.onChanged.removeListener(listener);
+        try {
+          resolve(await this.getRecord(id));
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      const listener = (delta: chrome.downloads.DownloadDelta) => {
+        if (delta.id === id && (delta.state?.current === 'complete' || delta.state?.current === 'interrupted')) {
+          finish();
+        }
+      };
+
+      chrome.downloads.onChanged.addListener(listener);
+      const timeoutId = setTimeout(finish, timeout);
+
+      // The download may have finished before the listener was added
+      this.getRecord(id).then(record => {
+        if (record.state !== 'in_progress') {
+          finish();
+        }
+      }).catch(() => finish());
+    });
+  }
+
+  private waitForStart(startedAfter: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (id?: number) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        chrome.downloads.onCreated.removeListener(listener);
+        if (id === undefined) {
+          reject(new Error(`No download started within ${this.config.detectTimeout}ms`));
+        } else {
+          resolve(id);
+        }
+      };
+
+      const listener = (item: chrome.downloads.DownloadItem) => settle(item.id);
+      chrome.downloads.onCreated.addListener(listener);
+      const timeoutId = setTimeout(() => settle(), this.config.detectTimeout);
+
+      // The download may have started before the listener was added
+      chrome.downloads.search({ startedAfter, orderBy: ['startTime'], limit: 1 }).then(items => {
+        if (items.length > 0) {
+          settle(items[0].id);
+        }
+      }).catch(error => {
+        console.error('Failed to search downloads:', error);
+      });
+    });
+  }
+
+  private async getRecord(id: number): Promise<DownloadRecord> {
+    const [item] = await chrome.downloads.search({ id });
+    if (!item) {
+      throw new Error(`Download ${id} not found`);
+    }
+
+    return {
+      id: item.id,
+      url: item.finalUrl || item.url,
+      filename: item.filename,
+      state: item.state as DownloadRecord['state'],
+      bytesReceived: item.bytesReceived,
+      totalBytes: item.totalBytes,
+      mime: item.mime || undefined,
+      error: item.error || undefined,
+    };
+  }
+}
+
+export const downloadTracker = new DownloadTracker();
@@ -0,0 +1,294 @@
+/**
+ * Element fingerprints for self-healing selectors
+ * A fingerprint records what an element looked like when a selector was recorded; when the selector
+ * stops matching after a redeploy, the element in the current page that scores closest to it is used instead
+ */
+
+import { ElementFingerprint } from './automation-types';
+import { pageSnapshotter } from './page-snapshot';
+
+export interface FingerprintMatch {
+  element: Element;
+  score: number; // 0-1
+}
+
+export interface FingerprintMatchOptions {
+  threshold: number; // minimum score to accept a candidate
+  maxCandidates: number;
+}
+
+// How much each part of the fingerprint counts towards the score
+const FINGERPRINT_WEIGHTS = {
+  tag: 1,
+  role: 1,
+  name: 3,
+  text: 2,
+  labels: 2,
+  attributes: 2,
+  path: 1,
+  rect: 1,
+};
+
+export const DEFAULT_HEAL_THRESHOLD = 0.6;
+const MAX_HEAL_CANDIDATES = 5000;
+
+const MAX_TEXT_LENGTH = 120;
+const MAX_ATTRIBUTE_LENGTH = 200;
+const MAX_PATH_DEPTH = 8;
+const MAX_NEARBY_TEXT_LENGTH = 80;
+
+// Distance at which a candidate no longer gets any credit for its position
+const RECT_DISTANCE_LIMIT = 400;
+
+// Attributes that change on every render or only hold our own markers
+const IGNORED_ATTRIBUTES = new Set(['style', 'data-ray-target']);
+
+/**
+ * Capture the fingerprint of an element
+ */
+export function captureFingerprint(element: Element): ElementFingerprint {
+  const role = pageSnapshotter.getRole(element) || undefined;
+  const rect = element.getBoundingClientRect();
+
+  return {
+    tag: element.tagName.toLowerCase(),
+    role,
+    name: pageSnapshotter.getAccessibleName(element, role || '') || undefined,
+    text: normalizeText(element.textContent).substring(0, MAX_TEXT_LENGTH) || undefined,
+    labels: getNearbyLabels(element),
+    attributes: getAttributes(element),
+    path: getPath(element),
+    rect: {
+      x: Math.round(rect.left + window.scrollX),
+      y: Math.round(rect.top + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+  };
+}
+
+/**
+ * Similarity between a recorded fingerprint and another element's, from 0 to 1
+ * Only parts the recorded fingerprint has count, so sparse fingerprints are not penalised
+ */
+export function scoreFingerprint(expected: ElementFingerprint, actual: ElementFingerprint): number {
+  const parts: Array<[number, number]> = [
+    [FINGERPRINT_WEIGHTS.tag, expected.tag === actual.tag ? 1 : 0],
+  ];
+
+  if (expected.role) {
+    parts.push([FINGERPRINT_WEIGHTS.role, expected.role === actual.role ? 1 : 0]);
+  }
+  if (expected.name) {
+    parts.push([FINGERPRINT_WEIGHTS.name, textSimilarity(expected.name, actual.name)]);
+  }
+  if (expected.text) {
+    parts.push([FINGERPRINT_WEIGHTS.text, textSimilarity(expected.text, actual.text)]);
+  }
+  if (expected.labels?.length) {
+    parts.push([FINGERPRINT_WEIGHTS.labels, labelSimilarity(expected.labels, actual.labels || [])]);
+  }
+  if (Object.keys(expected.attributes).length > 0) {
+    parts.push([FINGERPRINT_WEIGHTS.attributes, attributeSimilarity(expected.attributes, actual.attributes)]);
+  }
+  if (expected.path.length > 0) {
+    parts.push([FINGERPRINT_WEIGHTS.path, pathSimilarity(expected.path, actual.path)]);
+  }
+  if (expected.rect && actual.rect) {
+    parts.push([FINGERPRINT_WEIGHTS.rect, rectSimilarity(expected.rect, actual.rect)]);
+  }
+
+  const total = parts.reduce((sum, [weight]) => sum + weight, 0);
+  return parts.reduce((sum, [weight, similarity]) => sum + weight * similarity, 0) / total;
+}
+
+/**
+ * Find the rendered element closest to a fingerprint, or null if none reaches the threshold
+ * or the best two candidates score the same, since picking either could act on the wrong element
+ */
+export function findClosestElement(
+  fingerprint: ElementFingerprint,
+  options: Partial<FingerprintMatchOptions> = {}
+): FingerprintMatch | null {
+  const threshold = options.threshold ?? DEFAULT_HEAL_THRESHOLD;
+  const maxCandidates = options.maxCandidates ?? MAX_HEAL_CANDIDATES;
+
+  let best: FingerprintMatch | null = null;
+  let runnerUp = 0;
+  let scanned = 0;
+
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    if (scanned++ >= maxCandidates) {
+      break;
+    }
+
+    // Cheap filter first: only elements of the same tag or role can be the same control
+    const sameTag = element.tagName.toLowerCase() === fingerprint.tag;
+    if (!sameTag && (!fingerprint.role || pageSnapshotter.getRole(element) !== fingerprint.role)) {
+      continue;
+    }
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) {
+      continue;
+    }
+
+    const score = scoreFingerprint(fingerprint, captureFingerprint(element));
+    if (!best || score > best.score) {
+      runnerUp = best?.score ?? 0;
+      best = { element, score };
+    } else if (score > runnerUp) {
+      runnerUp = score;
+    }
+  }
+
+  if (!best || best.score < threshold || best.score - runnerUp < 0.001) {
+    return null;
+  }
+  return best;
+}
+
+function getAttributes(element: Element): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const attribute of Array.from(element.attributes)) {
+    if (IGNORED_ATTRIBUTES.has(attribute.name) || attribute.name.startsWith('on') ||
+        attribute.value.length > MAX_ATTRIBUTE_LENGTH) {
+      continue;
+    }
+    attributes[attribute.name] = attribute.value;
+  }
+
+  return attributes;
+}
+
+/**
+ * Text a user would read as the element's label: <label>s, aria-labelledby targets,
+ * the enclosing fieldset's legend and a short caption right before the element
+ */
+function getNearbyLabels(element: Element): string[] | undefined {
+  const labels: string[] = [];
+
+  if ('labels' in element && (element as HTMLInputElement).labels) {
+    for (const label of Array.from((element as HTMLInputElement).labels!)) {
+      labels.push(normalizeText(label.textContent));
+    }
+  }
+
+  for (const id of (element.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)) {
+    labels.push(normalizeText(document.getElementById(id)?.textContent));
+  }
+
+  labels.push(normalizeText(element.closest('fieldset')?.querySelector('legend')?.textContent));
+
+  const caption = normalizeText(element.previousElementSibling?.textContent);
+  if (caption.length <= MAX_NEARBY_TEXT_LENGTH) {
+    labels.push(caption);
+  }
+
+  const unique = Array.from(new Set(labels.filter(Boolean)));
+  return unique.length > 0 ? unique : undefined;
+}
+
+function getPath(element: Element): string[] {
+  const path: string[] = [];
+  let current = element.parentElement;
+
+  while (current && current !== document.body && path.length < MAX_PATH_DEPTH) {
+    path.unshift(current.tagName.toLowerCase());
+    current = current.parentElement;
+  }
+
+  return path;
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient over character bigrams, tolerant of small wording changes
+ */
+function textSimilarity(expected: string, actual: string | undefined): number {
+  const a = normalizeText(expected).toLowerCase();
+  const b = normalizeText(actual).toLowerCase();
+
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+function labelSimilarity(expected: string[], actual: string[]): number {
+  const best = expected.map(label => Math.max(0, ...actual.map(candidate => textSimilarity(label, candidate))));
+  return best.reduce((sum, similarity) => sum + similarity, 0) / expected.length;
+}
+
+/**
+ * Same value scores fully, a changed value partly, and classes by how many tokens they share
+ */
+function attributeSimilarity(expected: Record<string, string>, actual: Record<string, string>): number {
+  const names = Object.keys(expected);
+
+  const total = names.reduce((sum, name) => {
+    if (!(name in actual)) return sum;
+    if (expected[name] === actual[name]) return sum + 1;
+
+    if (name === 'class') {
+      const recorded = new Set(expected[name].split(/\s+/).filter(Boolean));
+      const current = actual[name].split(/\s+/).filter(Boolean);
+      const shared = current.filter(token => recorded.has(token)).length;
+      return sum + shared / Math.max(recorded.size, current.length, 1);
+    }
+
+    return sum + 0.5 * textSimilarity(expected[name], actual[name]);
+  }, 0);
+
+  return total / names.length;
+}
+
+/**
+ * Share of ancestors that match, compared from the element outwards
+ */
+function pathSimilarity(expected: string[], actual: string[]): number {
+  const length = Math.max(expected.length, actual.length);
+  let matches = 0;
+
+  for (let i = 1; i <= Math.min(expected.length, actual.length); i++) {
+    if (expected[expected.length - i] === actual[actual.length - i]) {
+      matches++;
+    }
+  }
+
+  return matches / length;
+}
+
+function rectSimilarity(expected: NonNullable<ElementFingerprint['rect']>, actual: NonNullable<ElementFingerprint['rect']>): number {
+  const distance = Math.hypot(
+    expected.x + expected.width / 2 - (actual.x + actual.width / 2),
+    expected.y + expected.height / 2 - (actual.y + actual.height / 2)
+  );
+  const position = Math.max(0, 1 - distance / RECT_DISTANCE_LIMIT);
+
+  const widthRatio = Math.min(expected.width, actual.width) / Math.max(expected.width, actual.width, 1);
+  const heightRatio = Math.min(expected.height, actual.height) / Math.max(expected.height, actual.height, 1);
+
+  return (position + (widthRatio + heightRatio) / 2) / 2;
+}
@@ -4,7 +4,9 @@
  */
 
 import { ElementSelector } from './automation-types';
+import { actionabilityGate } from './actionability';
 import { chromeApi } from './chrome-api-wrappers';
+import { debuggerInput, DispatchOptions, InputBackend, Point } from './debugger-input';
 
 export interface ClickOptions {
   button?: number;
@@ -12,7 +14,9 @@ export interface ClickOptions {
   shiftKey?: boolean;
   altKey?: boolean;
   metaKey?: boolean;
-  force?: boolean;
+  force?: boolean; // skip actionability checks
+  timeout?: number; // how long to wait for the element to become actionable
+  inputBackend?: InputBackend; // overrides the backend saved for the page's origin
   doubleClick?: boolean;
   rightClick?: boolean;
   holdDuration?: number;
@@ -24,6 +28,9 @@ export interface TypeOptions {
   humanLike?: boolean;
   triggerEvents?: boolean;
   caseSensitive?: boolean;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
 }
 
 export interface ScrollOptions {
@@ -39,11 +46,22 @@ export interface DragOptions {
   toY?: number;
   duration?: number;
   steps?: number;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
 }
 
 export interface HoverOptions {
   duration?: number;
   moveDelay?: number;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
+}
+
+export interface SelectOptions {
+  force?: boolean;
+  timeout?: number;
 }
 
 export class ElementInteraction {
@@ -61,6 +79,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'click', options, targetTabId);
     
     const clickFunction = (selector: string, opts: ClickOptions) => {
       return new Promise((resolve, reject) => {
@@ -202,11 +221,18 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, clickFunction, [selector, options]);
-    } catch (error) {
-      throw new Error(`Failed to click element: ${error.message}`);
-    }
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => debuggerInput.click(targetTabId, point || await this.getInputPoint(selector, targetTabId), options),
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, clickFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to click element: ${error.message}`);
+        }
+      }
+    );
   }
 
   /**
@@ -219,6 +245,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    await actionabilityGate.ensure(selector, 'type', options, targetTabId);
     
     const typeFunction = async (selector: string, text: string, opts: TypeOptions) => {
       return new Promise((resolve, reject) => {
@@ -308,11 +335,52 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, typeFunction, [selector, text, options]);
-    } catch (error) {
-      throw new Error(`Failed to type text: ${error.message}`);
-    }
+    // Trusted typing goes to the focused element, with its contents selected when they are replaced
+    const focusFunction = (selector: string, selectContents: boolean) => {
+      const element = document.querySelector(selector) as HTMLElement;
+      if (!element) {
+        throw new Error(`Element not found: ${selector}`);
+      }
+      
+      element.focus();
+      if (selectContents) {
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.select();
+        } else if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          window.getSelection()?.removeAllRanges();
+          window.getSelection()?.addRange(range);
+        }
+      }
+      return true;
+    };
+    
+    const blurFunction = (selector: string) => {
+      (document.querySelector(selector) as HTMLElement | null)?.blur();
+      return true;
+    };
+    
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => {
+        await chromeApi.executeScript(targetTabId, focusFunction, [selector, options.clearFirst !== false]);
+        await debuggerInput.type(targetTabId, text, options);
+        if (options.triggerEvents !== false) {
+          await chromeApi.executeScript(targetTabId, blurFunction, [selector]);
+        }
+      },
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, typeFunction, [selector, text, options]);
+        } catch (error) {
+          throw new Error(`Failed to type text: ${error.message}`);
+        }
+      },
+      // Keystrokes may already have reached the page
+      { repeatable: false }
+    );
   }
 
   /**
@@ -324,6 +392,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'hover', options, targetTabId);
     
     const hoverFunction = (selector: string, opts: HoverOptions) => {
       return new Promise((resolve, reject) => {
@@ -394,11 +463,21 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, hoverFunction, [selector, options]);
-    } catch (error) {
-      throw new Error(`Failed to hover over element: ${error.message}`);
-    }
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => debuggerInput.hover(targetTabId, point || await this.getInputPoint(selector, targetTabId), {
+        ...options,
+        duration: options.duration || this.DEFAULT_HOVER_DURATION
+      }),
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, hoverFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to hover over element: ${error.message}`);
+        }
+      }
+    );
   }
 
   /**
@@ -410,6 +489,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'drag', options, targetTabId);
     
     const dragFunction = (selector: string, opts: DragOptions) => {
       return new Promise((resolve, reject) => {
@@ -532,10 +612,80 @@ export class ElementInteraction {
       });
     };
     
+    const trustedDrag = async () => {
+      const center = point || await this.getInputPoint(selector, targetTabId);
+      const from = { x: options.fromX || center.x, y: options.fromY || center.y };
+      const to = { x: options.toX || from.x + 100, y: options.toY || from.y };
+      await debuggerInput.drag(targetTabId, from, to, {
+        ...options,
+        duration: options.duration || this.DEFAULT_DRAG_DURATION,
+        steps: options.steps || this.DEFAULT_DRAG_STEPS
+      });
+    };
+    
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      trustedDrag,
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, dragFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to drag element: ${error.message}`);
+        }
+      }
+    );
+  }
+
+  /**
+   * Select options of a select element by value or visible label
+   */
+  async select(
+    selector: string, 
+    values: string | string[], 
+    options: SelectOptions = {}, 
+    tabId?: number
+  ): Promise<string[]> {
+    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    await actionabilityGate.ensure(selector, 'select', options, targetTabId);
+    
+    const selectFunction = (selector: string, wanted: string[]) => {
+      const element = document.querySelector(selector) as HTMLSelectElement;
+      if (!element || element.tagName !== 'SELECT') {
+        throw new Error(`Element is not a select: ${selector}`);
+      }
+      
+      const matches = wanted.map(value => {
+        const option = Array.from(element.options).find(option =>
+          option.value === value || option.label.trim() === value.trim()
+        );
+        if (!option) {
+          throw new Error(`Option not found: ${value}`);
+        }
+        return option;
+      });
+      
+      if (matches.length > 1 && !element.multiple) {
+        throw new Error(`Select does not allow multiple options: ${selector}`);
+      }
+      
+      Array.from(element.options).forEach(option => {
+        option.selected = matches.includes(option);
+      });
+      
+      element.dispatchEvent(new Event('input', { bubbles: true }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+      
+      return matches.map(option => option.value);
+    };
+    
     try {
-      return await chromeApi.executeScript(targetTabId, dragFunction, [selector, options]);
+      return await chromeApi.executeScript(targetTabId, selectFunction, [
+        selector,
+        Array.isArray(values) ? values : [values]
+      ]);
     } catch (error) {
-      throw new Error(`Failed to drag element: ${error.message}`);
+      throw new Error(`Failed to select option: ${error.message}`);
     }
   }
 
@@ -710,7 +860,42 @@ export class ElementInteraction {
    * Cleanup resources
    */
   cleanup(): void {
-    // No specific cleanup needed for ElementInteraction
+    // Remove the debugging banner from tabs that received trusted input
+    debuggerInput.detachAll();
+  }
+
+  /**
+   * Run an interaction with the input backend chosen for the command or the page's origin,
+   * falling back to the other backend when the first one fails
+   */
+  private async dispatchInput(
+    tabId: number,
+    backend: InputBackend | undefined,
+    trusted: () => Promise<void>,
+    synthetic: () => Promise<boolean>,
+    options: DispatchOptions = {}
+  ): Promise<boolean> {
+    return debuggerInput.dispatch(
+      (await chromeApi.getTab(tabId)).url,
+      backend,
+      async () => {
+        await trusted();
+        return true;
+      },
+      synthetic,
+      options
+    );
+  }
+
+  /**
+   * Center of an element in the viewport, scrolled into view, for trusted input
+   */
+  private async getInputPoint(selector: string, tabId: number): Promise<Point> {
+    const result = await actionabilityGate.check(selector, ['attached'], 0, tabId);
+    if (!result?.point) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+    return result.point;
   }
 }
 
@@ -720,7 +905,9 @@ export const elementInteraction = new ElementInteraction(); * Element interactio
  */
 
 import { ElementSelector } from './automation-types';
+import { actionabilityGate } from './actionability';
 import { chromeApi } from './chrome-api-wrappers';
+import { debuggerInput, DispatchOptions, InputBackend, Point } from './debugger-input';
 
 export interface ClickOptions {
   button?: number;
@@ -728,7 +915,9 @@ export interface ClickOptions {
   shiftKey?: boolean;
   altKey?: boolean;
   metaKey?: boolean;
-  force?: boolean;
+  force?: boolean; // skip actionability checks
+  timeout?: number; // how long to wait for the element to become actionable
+  inputBackend?: InputBackend; // overrides the backend saved for the page's origin
   doubleClick?: boolean;
   rightClick?: boolean;
   holdDuration?: number;
@@ -740,6 +929,9 @@ export interface TypeOptions {
   humanLike?: boolean;
   triggerEvents?: boolean;
   caseSensitive?: boolean;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
 }
 
 export interface ScrollOptions {
@@ -755,11 +947,22 @@ export interface DragOptions {
   toY?: number;
   duration?: number;
   steps?: number;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
 }
 
 export interface HoverOptions {
   duration?: number;
   moveDelay?: number;
+  force?: boolean;
+  timeout?: number;
+  inputBackend?: InputBackend;
+}
+
+export interface SelectOptions {
+  force?: boolean;
+  timeout?: number;
 }
 
 export class ElementInteraction {
@@ -777,6 +980,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'click', options, targetTabId);
     
     const clickFunction = (selector: string, opts: ClickOptions) => {
       return new Promise((resolve, reject) => {
@@ -918,11 +1122,18 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, clickFunction, [selector, options]);
-    } catch (error) {
-      throw new Error(`Failed to click element: ${error.message}`);
-    }
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => debuggerInput.click(targetTabId, point || await this.getInputPoint(selector, targetTabId), options),
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, clickFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to click element: ${error.message}`);
+        }
+      }
+    );
   }
 
   /**
@@ -935,6 +1146,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    await actionabilityGate.ensure(selector, 'type', options, targetTabId);
     
     const typeFunction = async (selector: string, text: string, opts: TypeOptions) => {
       return new Promise((resolve, reject) => {
@@ -1024,11 +1236,52 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, typeFunction, [selector, text, options]);
-    } catch (error) {
-      throw new Error(`Failed to type text: ${error.message}`);
-    }
+    // Trusted typing goes to the focused element, with its contents selected when they are replaced
+    const focusFunction = (selector: string, selectContents: boolean) => {
+      const element = document.querySelector(selector) as HTMLElement;
+      if (!element) {
+        throw new Error(`Element not found: ${selector}`);
+      }
+      
+      element.focus();
+      if (selectContents) {
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.select();
+        } else if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          window.getSelection()?.removeAllRanges();
+          window.getSelection()?.addRange(range);
+        }
+      }
+      return true;
+    };
+    
+    const blurFunction = (selector: string) => {
+      (document.querySelector(selector) as HTMLElement | null)?.blur();
+      return true;
+    };
+    
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => {
+        await chromeApi.executeScript(targetTabId, focusFunction, [selector, options.clearFirst !== false]);
+        await debuggerInput.type(targetTabId, text, options);
+        if (options.triggerEvents !== false) {
+          await chromeApi.executeScript(targetTabId, blurFunction, [selector]);
+        }
+      },
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, typeFunction, [selector, text, options]);
+        } catch (error) {
+          throw new Error(`Failed to type text: ${error.message}`);
+        }
+      },
+      // Keystrokes may already have reached the page
+      { repeatable: false }
+    );
   }
 
   /**
@@ -1040,6 +1293,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'hover', options, targetTabId);
     
     const hoverFunction = (selector: string, opts: HoverOptions) => {
       return new Promise((resolve, reject) => {
@@ -1110,11 +1364,21 @@ export class ElementInteraction {
       });
     };
     
-    try {
-      return await chromeApi.executeScript(targetTabId, hoverFunction, [selector, options]);
-    } catch (error) {
-      throw new Error(`Failed to hover over element: ${error.message}`);
-    }
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      async () => debuggerInput.hover(targetTabId, point || await this.getInputPoint(selector, targetTabId), {
+        ...options,
+        duration: options.duration || this.DEFAULT_HOVER_DURATION
+      }),
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, hoverFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to hover over element: ${error.message}`);
+        }
+      }
+    );
   }
 
   /**
@@ -1126,6 +1390,7 @@ export class ElementInteraction {
     tabId?: number
   ): Promise<boolean> {
     const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const point = await actionabilityGate.ensure(selector, 'drag', options, targetTabId);
     
     const dragFunction = (selector: string, opts: DragOptions) => {
       return new Promise((resolve, reject) => {
@@ -1248,10 +1513,80 @@ export class ElementInteraction {
       });
     };
     
+    const trustedDrag = async () => {
+      const center = point || await this.getInputPoint(selector, targetTabId);
+      const from = { x: options.fromX || center.x, y: options.fromY || center.y };
+      const to = { x: options.toX || from.x + 100, y: options.toY || from.y };
+      await debuggerInput.drag(targetTabId, from, to, {
+        ...options,
+        duration: options.duration || this.DEFAULT_DRAG_DURATION,
+        steps: options.steps || this.DEFAULT_DRAG_STEPS
+      });
+    };
+    
+    return this.dispatchInput(
+      targetTabId,
+      options.inputBackend,
+      trustedDrag,
+      async () => {
+        try {
+          return await chromeApi.executeScript(targetTabId, dragFunction, [selector, options]);
+        } catch (error) {
+          throw new Error(`Failed to drag element: ${error.message}`);
+        }
+      }
+    );
+  }
+
+  /**
+   * Select options of a select element by value or visible label
+   */
+  async select(
+    selector: string, 
+    values: string | string[], 
+    options: SelectOptions = {}, 
+    tabId?: number
+  ): Promise<string[]> {
+    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    await actionabilityGate.ensure(selector, 'select', options, targetTabId);
+    
+    const selectFunction = (selector: string, wanted: string[]) => {
+      const element = document.querySelector(selector) as HTMLSelectElement;
+      if (!element || element.tagName !== 'SELECT') {
+        throw new Error(`Element is not a select: ${selector}`);
+      }
+      
+      const matches = wanted.map(value => {
+        const option = Array.from(element.options).find(option =>
+          option.value === value || option.label.trim() === value.trim()
+        );
+        if (!option) {
+          throw new Error(`Option not found: ${value}`);
+        }
+        return option;
+      });
+      
+      if (matches.length > 1 && !element.multiple) {
+        throw new Error(`Select does not allow multiple options: ${selector}`);
+      }
+      
+      Array.from(element.options).forEach(option => {
+        option.selected = matches.includes(option);
+      });
+      
+      element.dispatchEvent(new Event('input', { bubbles: true }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+      
+      return matches.map(option => option.value);
+    };
+    
     try {
-      return await chromeApi.executeScript(targetTabId, dragFunction, [selector, options]);
+      return await chromeApi.executeScript(targetTabId, selectFunction, [
+        selector,
+        Array.isArray(values) ? values : [values]
+      ]);
     } catch (error) {
-      throw new Error(`Failed to drag element: ${error.message}`);
+      throw new Error(`Failed to select option: ${error.message}`);
     }
   }
 
@@ -1426,7 +1761,42 @@ export class ElementInteraction {
    * Cleanup resources
    */
   cleanup(): void {
-    // No specific cleanup needed for ElementInteraction
+    // Remove the debugging banner from tabs that received trusted input
+    debuggerInput.detachAll();
+  }
+
+  /**
+   * Run an interaction with the input backend chosen for the command or the page's origin,
+   * falling back to the other backend when the first one fails
+   */
+  private async dispatchInput(
+    tabId: number,
+    backend: InputBackend | undefined,
+    trusted: () => Promise<void>,
+    synthetic: () => Promise<boolean>,
+    options: DispatchOptions = {}
+  ): Promise<boolean> {
+    return debuggerInput.dispatch(
+      (await chromeApi.getTab(tabId)).url,
+      backend,
+      async () => {
+        await trusted();
+        return true;
+      },
+      synthetic,
+      options
+    );
+  }
+
+  /**
+   * Center of an element in the viewport, scrolled into view, for trusted input
+   */
+  private async getInputPoint(selector: string, tabId: number): Promise<Point> {
+    const result = await actionabilityGate.check(selector, ['attached'], 0, tabId);
+    if (!result?.point) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+    return result.point;
   }
 }
 
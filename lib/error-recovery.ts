@@ -3,7 +3,8 @@
  * Handles automation failures and provides recovery strategies
  */
 
-import { AutomationResponse, AutomationError } from './automation-types';
+import { AutomationResponse, AutomationError, SelectorHeal } from './automation-types';
+import { actionabilityGate, getActionabilityReason } from './actionability';
 import { chromeApi } from './chrome-api-wrappers';
 import { waitStrategies } from './wait-strategies';
 import { domSelectors } from './dom-selectors';
@@ -27,18 +28,68 @@ export interface RecoveryContext {
   originalError?: Error;
   retryCount?: number;
   maxRetries?: number;
+  healThreshold?: number;
+  onSelectorHealed?: (heal: SelectorHeal) => void;
 }
 
 export interface RecoveryOptions {
   enableRecovery?: boolean;
+  command?: any;
+  tabId?: number;
+  selector?: string;
   maxRetries?: number;
   retryDelay?: number;
   fallbackSelectors?: string[];
   customStrategies?: RecoveryStrategy[];
+  healThreshold?: number; // minimum fingerprint similarity for a healed selector
+  onSelectorHealed?: (heal: SelectorHeal) => void;
 }
 
 export class ErrorRecovery {
   private defaultStrategies: RecoveryStrategy[] = [
+    {
+      name: 'self_healing_selector',
+      description: 'Element not found - use the element closest to its recorded fingerprint',
+      canRecover: (error, context) => {
+        return error.message.includes('not found') && Boolean(context.command?.fingerprint);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const command = recoveryContext.command;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+
+        const response = await chromeApi.sendMessage(tabId, {
+          type: 'HEAL_SELECTOR',
+          payload: { fingerprint: command.fingerprint, threshold: recoveryContext.healThreshold },
+          timestamp: Date.now()
+        });
+
+        if (!response?.success || !response.selector) {
+          console.log(`Could not heal selector ${command.selector}: ${response?.error || 'no response from page'}`);
+          return false;
+        }
+
+        const heal: SelectorHeal = {
+          stepNumber: recoveryContext.stepNumber || 0,
+          commandType: command.type,
+          previousSelector: command.selector,
+          selector: response.selector,
+          score: response.score,
+          fingerprint: response.fingerprint,
+          timestamp: Date.now()
+        };
+
+        // The caller retries the same command object, so point it at the healed element
+        command.selector = heal.selector;
+        command.fingerprint = heal.fingerprint;
+        recoveryContext.onSelectorHealed?.(heal);
+
+        console.log(`Healed selector ${heal.previousSelector} -> ${heal.selector} (score ${heal.score.toFixed(2)})`);
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 0
+    },
     {
       name: 'element_not_found',
       description: 'Element not found - try alternative selectors',
@@ -109,6 +160,91 @@ export class ErrorRecovery {
       maxRetries: 3,
       retryDelay: 1000
     },
+    {
+      name: 'element_obscured',
+      description: 'Element covered by another element - dismiss overlays and check again',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'obscured' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        // Most modals, menus and popovers close on Escape
+        const dismissFunction = () => {
+          const target = document.activeElement || document.body;
+          for (const type of ['keydown', 'keyup']) {
+            target.dispatchEvent(new KeyboardEvent(type, {
+              key: 'Escape',
+              code: 'Escape',
+              keyCode: 27,
+              bubbles: true,
+              cancelable: true
+            }));
+          }
+          return true;
+        };
+        
+        await chromeApi.executeScript(tabId, dismissFunction);
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'visible', 'hittable'], 3000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still covered: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by dismissing the covering element');
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 500
+    },
+    {
+      name: 'element_not_stable',
+      description: 'Element still moving - wait for the page to settle',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'not_stable' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        await waitStrategies.waitForDomStable({ quietMs: 300, timeout: 5000, throwOnTimeout: false }, tabId);
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'visible', 'stable'], 3000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still not stable: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by waiting for the page to settle');
+        return true;
+      },
+      maxRetries: 2,
+      retryDelay: 0
+    },
+    {
+      name: 'element_disabled',
+      description: 'Element disabled - wait longer for it to be enabled',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'not_enabled' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'enabled'], 10000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still disabled: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by waiting for the element to be enabled');
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 0
+    },
     {
       name: 'element_not_visible',
       description: 'Element not visible - try scrolling and waiting',
@@ -365,7 +501,9 @@ export class ErrorRecovery {
       selector: options.selector,
       originalError: error,
       retryCount: 0,
-      maxRetries: options.maxRetries || 3
+      maxRetries: options.maxRetries || 3,
+      healThreshold: options.healThreshold,
+      onSelectorHealed: options.onSelectorHealed
     };
     
     // If recovery is disabled, return false
@@ -638,7 +776,8 @@ export const errorRecovery = new ErrorRecovery(); * Error recovery for browser a
  * Handles automation failures and provides recovery strategies
  */
 
-import { AutomationResponse, AutomationError } from './automation-types';
+import { AutomationResponse, AutomationError, SelectorHeal } from './automation-types';
+import { actionabilityGate, getActionabilityReason } from './actionability';
 import { chromeApi } from './chrome-api-wrappers';
 import { waitStrategies } from './wait-strategies';
 import { domSelectors } from './dom-selectors';
@@ -662,18 +801,68 @@ export interface RecoveryContext {
   originalError?: Error;
   retryCount?: number;
   maxRetries?: number;
+  healThreshold?: number;
+  onSelectorHealed?: (heal: SelectorHeal) => void;
 }
 
 export interface RecoveryOptions {
   enableRecovery?: boolean;
+  command?: any;
+  tabId?: number;
+  selector?: string;
   maxRetries?: number;
   retryDelay?: number;
   fallbackSelectors?: string[];
   customStrategies?: RecoveryStrategy[];
+  healThreshold?: number; // minimum fingerprint similarity for a healed selector
+  onSelectorHealed?: (heal: SelectorHeal) => void;
 }
 
 export class ErrorRecovery {
   private defaultStrategies: RecoveryStrategy[] = [
+    {
+      name: 'self_healing_selector',
+      description: 'Element not found - use the element closest to its recorded fingerprint',
+      canRecover: (error, context) => {
+        return error.message.includes('not found') && Boolean(context.command?.fingerprint);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const command = recoveryContext.command;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+
+        const response = await chromeApi.sendMessage(tabId, {
+          type: 'HEAL_SELECTOR',
+          payload: { fingerprint: command.fingerprint, threshold: recoveryContext.healThreshold },
+          timestamp: Date.now()
+        });
+
+        if (!response?.success || !response.selector) {
+          console.log(`Could not heal selector ${command.selector}: ${response?.error || 'no response from page'}`);
+          return false;
+        }
+
+        const heal: SelectorHeal = {
+          stepNumber: recoveryContext.stepNumber || 0,
+          commandType: command.type,
+          previousSelector: command.selector,
+          selector: response.selector,
+          score: response.score,
+          fingerprint: response.fingerprint,
+          timestamp: Date.now()
+        };
+
+        // The caller retries the same command object, so point it at the healed element
+        command.selector = heal.selector;
+        command.fingerprint = heal.fingerprint;
+        recoveryContext.onSelectorHealed?.(heal);
+
+        console.log(`Healed selector ${heal.previousSelector} -> ${heal.selector} (score ${heal.score.toFixed(2)})`);
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 0
+    },
     {
       name: 'element_not_found',
       description: 'Element not found - try alternative selectors',
@@ -744,6 +933,91 @@ export class ErrorRecovery {
       maxRetries: 3,
       retryDelay: 1000
     },
+    {
+      name: 'element_obscured',
+      description: 'Element covered by another element - dismiss overlays and check again',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'obscured' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        // Most modals, menus and popovers close on Escape
+        const dismissFunction = () => {
+          const target = document.activeElement || document.body;
+          for (const type of ['keydown', 'keyup']) {
+            target.dispatchEvent(new KeyboardEvent(type, {
+              key: 'Escape',
+              code: 'Escape',
+              keyCode: 27,
+              bubbles: true,
+              cancelable: true
+            }));
+          }
+          return true;
+        };
+        
+        await chromeApi.executeScript(tabId, dismissFunction);
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'visible', 'hittable'], 3000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still covered: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by dismissing the covering element');
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 500
+    },
+    {
+      name: 'element_not_stable',
+      description: 'Element still moving - wait for the page to settle',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'not_stable' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        await waitStrategies.waitForDomStable({ quietMs: 300, timeout: 5000, throwOnTimeout: false }, tabId);
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'visible', 'stable'], 3000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still not stable: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by waiting for the page to settle');
+        return true;
+      },
+      maxRetries: 2,
+      retryDelay: 0
+    },
+    {
+      name: 'element_disabled',
+      description: 'Element disabled - wait longer for it to be enabled',
+      canRecover: (error, context) => {
+        return getActionabilityReason(error) === 'not_enabled' && Boolean(context.selector);
+      },
+      recover: async (error, context) => {
+        const recoveryContext = context as RecoveryContext;
+        const tabId = recoveryContext.tabId ?? (await chromeApi.getActiveTab()).id;
+        
+        const result = await actionabilityGate.check(recoveryContext.selector!, ['attached', 'enabled'], 10000, tabId);
+        if (!result?.actionable) {
+          console.log(`Element still disabled: ${result?.message}`);
+          return false;
+        }
+        
+        console.log('Recovered by waiting for the element to be enabled');
+        return true;
+      },
+      maxRetries: 1,
+      retryDelay: 0
+    },
     {
       name: 'element_not_visible',
       description: 'Element not visible - try scrolling and waiting',
@@ -1000,7 +1274,9 @@ export class ErrorRecovery {
       selector: options.selector,
       originalError: error,
       retryCount: 0,
-      maxRetries: options.maxRetries || 3
+      maxRetries: options.maxRetries || 3,
+      healThreshold: options.healThreshold,
+      onSelectorHealed: options.onSelectorHealed
     };
     
     // If recovery is disabled, return false
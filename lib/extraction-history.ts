@@ -0,0 +1,97 @@
+/**
+ * Extraction history: the latest extracted tables, kept for download from the popup
+ */
+
+import type { ExtractedTable, ExtractionRecord } from './automation-types';
+import { getStorageValue, setStorageValue } from './utils/chrome-storage';
+
+export const EXTRACTION_HISTORY_STORAGE_KEY = 'extracted_tables';
+
+export interface ExtractionHistoryConfig {
+  maxEntries: number;
+}
+
+export class ExtractionHistory {
+  private config: ExtractionHistoryConfig;
+  private entries: ExtractionRecord[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(config: Partial<ExtractionHistoryConfig> = {}) {
+    this.config = {
+      maxEntries: 10,
+      ...config,
+    };
+  }
+
+  /**
+   * Load extractions from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Keep a table, dropping the oldest once the history is full
+   */
+  async add(name: string, table: ExtractedTable): Promise<ExtractionRecord> {
+    await this.load();
+
+    const record: ExtractionRecord = {
+      id: `extraction_${table.extractedAt}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      table,
+    };
+
+    this.entries = [record, ...this.entries].slice(0, this.config.maxEntries);
+    await this.persist();
+    return record;
+  }
+
+  /**
+   * Kept extractions, newest first
+   */
+  async list(): Promise<ExtractionRecord[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  async get(id: string): Promise<ExtractionRecord | null> {
+    await this.load();
+    return this.entries.find(entry => entry.id === id) || null;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+
+    const remaining = this.entries.filter(entry => entry.id !== id);
+    if (remaining.length === this.entries.length) {
+      return false;
+    }
+
+    this.entries = remaining;
+    await this.persist();
+    return true;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const entries = await getStorageValue<ExtractionRecord[]>(EXTRACTION_HISTORY_STORAGE_KEY, []);
+      this.entries = Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.error('Failed to load extraction history:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await setStorageValue(EXTRACTION_HISTORY_STORAGE_KEY, this.entries);
+    } catch (error) {
+      console.error('Failed to save extraction history:', error);
+    }
+  }
+}
+
+export const extractionHistory = new ExtractionHistory();
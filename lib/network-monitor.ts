@@ -0,0 +1,369 @@
+/**
+ * Network monitor for request-aware waits
+ * Follows every tab's requests through chrome.webRequest from the moment the extension starts,
+ * so waits see requests already in flight, fetch and XHR alike, and requests from any frame
+ */
+
+export interface NetworkRequest {
+  requestId: string;
+  tabId: number;
+  frameId: number;
+  url: string;
+  method: string;
+  type: string; // webRequest resource type; xmlhttprequest covers both fetch and XHR
+  startTime: number;
+  endTime?: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface NetworkIdleOptions {
+  idleMs: number; // how long the network must stay quiet
+  maxInflight: number; // requests allowed to stay open, e.g. long polling
+  timeout: number;
+}
+
+export interface NetworkIdleResult {
+  inflight: number;
+  waited: number;
+}
+
+export interface RequestWaitOptions {
+  timeout: number;
+  method?: string;
+  since?: number; // earliest start time to match; requests seen before the wait began count too
+}
+
+export interface ResponseWaitOptions extends RequestWaitOptions {
+  status?: number;
+}
+
+export interface NetworkMonitorConfig {
+  idleMs: number;
+  maxInflight: number;
+  timeout: number;
+  historySize: number; // finished requests kept per tab for waits that begin after them
+  ignoredTypes: string[]; // resource types that never count as network activity
+  longLivedTypes: string[]; // resource types that count as activity when they start but never stay in flight
+}
+
+const DEFAULT_CONFIG: NetworkMonitorConfig = {
+  idleMs: 500,
+  maxInflight: 0,
+  timeout: 30000,
+  historySize: 200,
+  ignoredTypes: ['ping', 'csp_report'],
+  longLivedTypes: ['websocket', 'media'],
+};
+
+interface TabNetworkState {
+  inflight: Map<string, NetworkRequest>;
+  history: NetworkRequest[];
+}
+
+type NetworkEvent = 'request' | 'response' | 'failure' | 'activity';
+type NetworkListener = (event: NetworkEvent, request: NetworkRequest) => void;
+
+export class NetworkMonitor {
+  private config: NetworkMonitorConfig;
+  private tabs: Map<number, TabNetworkState> = new Map();
+  private listeners: Set<NetworkListener> = new Set();
+  private started = false;
+
+  private readonly onBeforeRequest = (details: chrome.webRequest.WebRequestBodyDetails) => {
+    this.handleRequestStarted(details);
+    return undefined;
+  };
+
+  private readonly onCompleted = (details: chrome.webRequest.WebResponseCacheDetails) => {
+    this.handleRequestFinished(details.tabId, details.requestId, { statusCode: details.statusCode });
+  };
+
+  private readonly onErrorOccurred = (details: chrome.webRequest.WebResponseErrorDetails) => {
+    this.handleRequestFinished(details.tabId, details.requestId, { error: details.error });
+  };
+
+  private readonly onTabRemoved = (tabId: number) => {
+    this.tabs.delete(tabId);
+  };
+
+  constructor(config: Partial<NetworkMonitorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start following requests; call once when the service worker starts
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    const filter = { urls: ['<all_urls>'] };
+    chrome.webRequest.onBeforeRequest.addListener(this.onBeforeRequest, filter);
+    chrome.webRequest.onCompleted.addListener(this.onCompleted, filter);
+    chrome.webRequest.onErrorOccurred.addListener(this.onErrorOccurred, filter);
+    chrome.tabs.onRemoved.addListener(this.onTabRemoved);
+    this.started = true;
+  }
+
+  /**
+   * Stop following requests and forget what was seen
+   */
+  stop(): void {
+    chrome.webRequest.onBeforeRequest.removeListener(this.onBeforeRequest);
+    chrome.webRequest.onCompleted.removeListener(this.onCompleted);
+    chrome.webRequest.onErrorOccurred.removeListener(this.onErrorOccurred);
+    chrome.tabs.onRemoved.removeListener(this.onTabRemoved);
+    this.tabs.clear();
+    this.started = false;
+  }
+
+  /**
+   * Requests of a tab that have not finished yet
+   */
+  getInflightRequests(tabId: number): NetworkRequest[] {
+    return Array.from(this.tabs.get(tabId)?.inflight.values() || []);
+  }
+
+  /**
+   * Wait until no more than maxInflight requests have been open for idleMs
+   */
+  waitForNetworkIdle(tabId: number, options: Partial<NetworkIdleOptions> = {}): Promise<NetworkIdleResult> {
+    const idleMs = options.idleMs ?? this.config.idleMs;
+    const maxInflight = options.maxInflight ?? this.config.maxInflight;
+    const timeout = options.timeout ?? this.config.timeout;
+    const startTime = Date.now();
+
+    return new Promise((resolve, reject) => {
+      let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (error?: Error) => {
+        clearTimeout(timeoutId);
+        if (idleTimer) clearTimeout(idleTimer);
+        this.listeners.delete(listener);
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ inflight: this.getInflightRequests(tabId).length, waited: Date.now() - startTime });
+        }
+      };
+
+      // Any request starting restarts the quiet period; finishing ones may begin it
+      const update = (restart: boolean) => {
+        const busy = this.getInflightRequests(tabId).length > maxInflight;
+        if (idleTimer && (busy || restart)) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+        if (!busy && !idleTimer) {
+          idleTimer = setTimeout(() => finish(), idleMs);
+        }
+      };
+
+      const listener: NetworkListener = (event, request) => {
+        if (request.tabId === tabId) {
+          update(event === 'request' || event === 'activity');
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        const inflight = this.getInflightRequests(tabId);
+        finish(new Error(
+          `Network not idle within ${timeout}ms: ${inflight.length} request(s) in flight` +
+          (inflight.length > 0 ? `, e.g. ${inflight[0].url}` : '')
+        ));
+      }, timeout);
+
+      this.listeners.add(listener);
+      update(false);
+    });
+  }
+
+  /**
+   * Wait for a request whose URL matches a pattern to start
+   */
+  waitForRequest(tabId: number, urlPattern: string, options: Partial<RequestWaitOptions> = {}): Promise<NetworkRequest> {
+    const since = options.since ?? Date.now();
+
+    return this.waitForMatch(tabId, urlPattern, options.timeout, 'request', request =>
+      request.startTime >= since && matchesMethod(request, options.method) && matchesUrlPattern(request.url, urlPattern)
+    );
+  }
+
+  /**
+   * Wait for the response to a request whose URL matches a pattern; fails if that request fails
+   */
+  waitForResponse(tabId: number, urlPattern: string, options: Partial<ResponseWaitOptions> = {}): Promise<NetworkRequest> {
+    const since = options.since ?? Date.now();
+    const matchesRequest = (request: NetworkRequest) =>
+      request.startTime >= since && matchesMethod(request, options.method) && matchesUrlPattern(request.url, urlPattern);
+
+    return this.waitForMatch(tabId, urlPattern, options.timeout, 'response', request => {
+      if (!matchesRequest(request)) {
+        return false;
+      }
+      if (request.error) {
+        throw new Error(`Request to ${request.url} failed: ${request.error}`);
+      }
+      return request.statusCode !== undefined && (options.status === undefined || request.statusCode === options.status);
+    });
+  }
+
+  private waitForMatch(
+    tabId: number,
+    urlPattern: string,
+    timeout: number = this.config.timeout,
+    phase: 'request' | 'response',
+    matches: (request: NetworkRequest) => boolean
+  ): Promise<NetworkRequest> {
+    return new Promise((resolve, reject) => {
+      const finish = (request?: NetworkRequest, error?: Error) => {
+        clearTimeout(timeoutId);
+        this.listeners.delete(listener);
+        if (request) {
+          resolve(request);
+        } else {
+          reject(error);
+        }
+      };
+
+      const check = (request: NetworkRequest): boolean => {
+        try {
+          if (matches(request)) {
+            finish(request);
+            return true;
+          }
+        } catch (error) {
+          finish(undefined, error as Error);
+          return true;
+        }
+        return false;
+      };
+
+      const listener: NetworkListener = (event, request) => {
+        const relevant = phase === 'request' ? event === 'request' : event === 'response' || event === 'failure';
+        if (request.tabId === tabId && relevant) {
+          check(request);
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        finish(undefined, new Error(`No ${phase} matching ${urlPattern} within ${timeout}ms`));
+      }, timeout);
+
+      this.listeners.add(listener);
+
+      // The request may have been seen before the wait began
+      const state = this.tabs.get(tabId);
+      const seen = state
+        ? [...state.history, ...(phase === 'request' ? Array.from(state.inflight.values()) : [])]
+        : [];
+      seen.sort((a, b) => a.startTime - b.startTime).some(check);
+    });
+  }
+
+  private handleRequestStarted(details: chrome.webRequest.WebRequestBodyDetails): void {
+    if (details.tabId < 0 || this.config.ignoredTypes.includes(details.type)) {
+      return;
+    }
+
+    const state = this.getTabState(details.tabId);
+    if (details.type === 'main_frame') {
+      // The previous document's requests end with it
+      state.inflight.clear();
+    }
+
+    const request: NetworkRequest = {
+      requestId: details.requestId,
+      tabId: details.tabId,
+      frameId: details.frameId,
+      url: details.url,
+      method: details.method,
+      type: details.type,
+      startTime: details.timeStamp,
+    };
+
+    if (this.config.longLivedTypes.includes(details.type)) {
+      this.addToHistory(state, request);
+      this.notify('activity', request);
+      return;
+    }
+
+    // Redirects start again with the same request id
+    state.inflight.set(details.requestId, request);
+    this.notify('request', request);
+  }
+
+  private handleRequestFinished(
+    tabId: number,
+    requestId: string,
+    outcome: { statusCode?: number; error?: string }
+  ): void {
+    const state = this.tabs.get(tabId);
+    const request = state?.inflight.get(requestId);
+    if (!state || !request) {
+      return;
+    }
+
+    state.inflight.delete(requestId);
+    Object.assign(request, outcome, { endTime: Date.now() });
+    this.addToHistory(state, request);
+    this.notify(outcome.error ? 'failure' : 'response', request);
+  }
+
+  private getTabState(tabId: number): TabNetworkState {
+    let state = this.tabs.get(tabId);
+    if (!state) {
+      state = { inflight: new Map(), history: [] };
+      this.tabs.set(tabId, state);
+    }
+    return state;
+  }
+
+  private addToHistory(state: TabNetworkState, request: NetworkRequest): void {
+    state.history.push(request);
+    if (state.history.length > this.config.historySize) {
+      state.history.shift();
+    }
+  }
+
+  private notify(event: NetworkEvent, request: NetworkRequest): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event, request);
+      } catch (error) {
+        console.error('Network listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Whether a URL matches a pattern: /regex/flags, a glob where * stays within a path
+ * segment and ** crosses them, or otherwise a substring
+ * Only valid flags make a regex, so a path such as /api/profile stays a substring
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const regex = /^\/(.+)\/([dgimsuy]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(url);
+  }
+
+  if (pattern.includes('*')) {
+    const source = pattern
+      .split('**')
+      .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(url);
+  }
+
+  return url.includes(pattern);
+}
+
+function matchesMethod(request: NetworkRequest, method?: string): boolean {
+  return !method || request.method.toUpperCase() === method.toUpperCase();
+}
+
+export const networkMonitor = new NetworkMonitor();
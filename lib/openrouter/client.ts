@@ -12,31 +12,63 @@ import {
   OpenRouterClientConfig,
   OpenRouterError,
   RequestOptions,
-  APIResponseCache,
   UsageStats,
   OpenRouterEvent,
   OpenRouterEventListener,
   ParsedAIResponse,
+  ParsedAICommand,
+  AICommandType,
   RateLimitInfo,
   ValidationResult
 } from './types';
 import { 
   OpenRouterMessage, 
-  OpenRouterResponse 
+  OpenRouterResponse,
+  OpenRouterStreamChunk,
+  OpenRouterToolCall
 } from '../shared/contracts';
+import { SSEParser, StreamingCommandExtractor, ToolCallAccumulator } from './streaming';
+import { buildVisionContent, getMessageText, parseNumberedReply } from './vision';
+import { CostTracker } from './cost-tracker';
+import { calculateCost, getModelPricing, parsePerTokenPricing } from './pricing';
+import { CacheManager, SemanticCacheKey } from '../cache/cache-manager';
+import { hashString } from '../cache/semantic-key';
+import {
+  AUTOMATION_TOOLS,
+  COMMAND_SCHEMAS,
+  isCommandToolCall,
+  parseToolCalls,
+  TARGETED_COMMANDS,
+  toolCallToCommand,
+  validateAgainstSchema
+} from './tools';
+
+// Prompt tokens assumed per attached image when estimating request cost
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+// Prefix for response entries in the shared persistent cache
+const RESPONSE_CACHE_PREFIX = 'llm:';
+
+// Endpoint hosts that run on this machine, where requests cost nothing
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
 
 export class OpenRouterClient {
-  private config: OpenRouterClientConfig;
-  private cache: APIResponseCache = {};
+  protected config: OpenRouterClientConfig;
+  private responseCache: CacheManager = CacheManager.getInstance();
   private usageStats: UsageStats = {
     totalRequests: 0,
     successfulRequests: 0,
     failedRequests: 0,
     cachedRequests: 0,
     totalTokens: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalCost: 0,
     averageResponseTime: 0,
     lastRequestTime: 0,
   };
+  protected costTracker: CostTracker | null = null;
+  private modelPricingLoad: Promise<void> | null = null;
   private eventListeners: Map<string, OpenRouterEventListener[]> = new Map();
   private rateLimitInfo: RateLimitInfo | null = null;
 
@@ -51,56 +83,76 @@ export class OpenRouterClient {
       enableCache: true,
       cacheSize: OPENROUTER_CONFIG.MAX_CACHE_SIZE,
       cacheTTL: OPENROUTER_CONFIG.CACHE_TTL,
+      enableToolCalling: true,
       ...config,
     };
   }
 
   /**
    * Send a chat completion request to OpenRouter
+   * With `options.stream` set, content deltas are emitted as `stream_chunk` events while the response arrives
+   * Models in the chain are tried in order until one answers; `response.answeredBy` names it
    */
   async chatCompletion(
     messages: OpenRouterMessage[], 
     options: RequestOptions = {}
   ): Promise<RayOpenRouterResponse> {
-    const requestId = this.generateRequestId();
+    const requestId = options.requestId ?? this.generateRequestId();
     const startTime = Date.now();
 
-    this.emitEvent({ type: 'request_start', data: { requestId, prompt: messages[messages.length - 1]?.content || '' } });
+    this.emitEvent({ type: 'request_start', data: { requestId, prompt: getMessageText(messages[messages.length - 1]?.content || '') } });
 
     try {
       // Check cache first
       if (options.useCache !== false && this.config.enableCache) {
-        const cacheKey = this.generateCacheKey(messages, options);
-        const cachedResponse = this.getFromCache(cacheKey);
-        if (cachedResponse) {
+        const cached = await this.getFromCache(messages, options);
+        if (cached) {
+          const { key: cacheKey, response: cachedResponse } = cached;
           this.emitEvent({ type: 'cache_hit', data: { requestId, cacheKey } });
           this.usageStats.cachedRequests++;
+          if (options.stream) {
+            // Replay cached content so stream listeners behave the same as on a live request
+            this.emitEvent({
+              type: 'stream_chunk',
+              data: { requestId, delta: cachedResponse.choices[0]?.message?.content || '' },
+            });
+          }
           return { ...cachedResponse, requestId, cached: true };
         }
       }
 
-      // Make the API request
-      const response = await this.makeRequest(requestId, messages, options);
+      // Make the API request, falling back along the model chain
+      const { response, model, failedModels } = await this.requestWithFallback(
+        requestId,
+        messages,
+        options,
+        this.getModelChain(options)
+      );
       const processingTime = Date.now() - startTime;
 
       // Update usage stats
       this.updateUsageStats(response, processingTime, true);
+      const cost = await this.recordCost(response, model);
 
-      // Cache the response
-      if (this.config.enableCache && options.useCache !== false) {
-        const cacheKey = this.generateCacheKey(messages, options);
-        this.setCache(cacheKey, response);
-      }
-
-      this.emitEvent({ type: 'request_success', data: { requestId, response } });
-
-      return {
+      const result: RayOpenRouterResponse = {
         ...response,
         requestId,
         processingTime,
         cached: false,
+        cost,
+        answeredBy: model,
+        ...(failedModels.length > 0 ? { failedModels } : {}),
       };
 
+      // Cache the response
+      if (this.config.enableCache && options.useCache !== false) {
+        await this.setCache(messages, options, result);
+      }
+
+      this.emitEvent({ type: 'request_success', data: { requestId, response: result } });
+
+      return result;
+
     } catch (error) {
       const processingTime = Date.now() - startTime;
       this.updateUsageStats(null as any, processingTime, false);
@@ -113,51 +165,139 @@ export class OpenRouterClient {
 
   /**
    * Parse natural language command into automation commands
+   * When streaming, each command is emitted as a `stream_command` event as soon as its JSON object is complete
+   * With tool calling enabled, commands are requested as native tool calls instead of JSON content
+   * A model whose plan cannot be parsed hands the command to the next model in the chain,
+   * unless it already streamed commands that listeners may have started executing
    */
   async parseCommand(
     command: string, 
     context?: any,
     options: RequestOptions = {}
   ): Promise<ParsedAIResponse> {
+    const useTools = this.config.enableToolCalling !== false;
+    const systemPrompt = useTools ? OPENROUTER_CONFIG.TOOL_SYSTEM_PROMPT : OPENROUTER_CONFIG.SYSTEM_PROMPT;
+    const userPrompt = `Command: "${command}"${context ? `\n\nContext: ${JSON.stringify(context)}` : ''}`;
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: OPENROUTER_CONFIG.SYSTEM_PROMPT },
-      { 
-        role: 'user', 
-        content: `Command: "${command}"${context ? `\n\nContext: ${JSON.stringify(context)}` : ''}` 
-      }
+      {
+        role: 'system',
+        content: options.screenshot ? `${systemPrompt}\n\n${OPENROUTER_CONFIG.VISION_PROMPT}` : systemPrompt,
+      },
+      {
+        role: 'user',
+        content: options.screenshot ? buildVisionContent(userPrompt, options.screenshot) : userPrompt,
+      },
+      // Clarifying questions and the user's replies, so the model keeps the original intent
+      ...(options.conversation ?? []),
     ];
 
-    const response = await this.chatCompletion(messages, options);
-    
+    const requestId = options.requestId ?? this.generateRequestId();
+    let extractor = options.stream ? new StreamingCommandExtractor() : null;
+    let toolCommandCount = 0;
+    let commandsStreamed = false;
+    const streamListener: OpenRouterEventListener = (event) => {
+      if (!extractor) {
+        return;
+      }
+
+      if (event.type === 'stream_chunk' && event.data.requestId === requestId) {
+        for (const extracted of extractor.push(event.data.delta)) {
+          commandsStreamed = true;
+          this.emitEvent({
+            type: 'stream_command',
+            data: { requestId, index: extracted.index, command: extracted.command },
+          });
+        }
+      } else if (event.type === 'stream_tool_call' && event.data.requestId === requestId) {
+        if (!isCommandToolCall(event.data.toolCall)) {
+          return;
+        }
+
+        let toolCommand: ParsedAICommand;
+        try {
+          toolCommand = toolCallToCommand(event.data.toolCall);
+        } catch {
+          // Malformed calls are reported when the full response is validated
+          return;
+        }
+
+        commandsStreamed = true;
+        this.emitEvent({
+          type: 'stream_command',
+          data: { requestId, index: toolCommandCount++, command: toolCommand },
+        });
+      }
+    };
+
+    if (extractor) {
+      this.addEventListener('stream_chunk', streamListener);
+      this.addEventListener('stream_tool_call', streamListener);
+    }
+
+    // Screenshots and clarification replies make every request unique, so they bypass the cache
+    const baseOptions: RequestOptions = options.screenshot || options.conversation
+      ? { useCache: false, ...options }
+      : options;
+    const requestOptions: RequestOptions = useTools
+      ? { tools: AUTOMATION_TOOLS, toolChoice: 'auto', ...baseOptions, requestId }
+      : { ...baseOptions, requestId };
+
+    // Each model is pinned so a bad plan, not only a failed request, moves on to the next one
+    const models = this.getModelChain(options);
     try {
-      // Parse the AI response
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Empty response from AI model');
+      for (let i = 0; i < models.length; i++) {
+        const isLast = i === models.length - 1;
+        if (i > 0 && options.stream) {
+          // Restart command extraction for the new model's stream
+          extractor = new StreamingCommandExtractor();
+          toolCommandCount = 0;
+        }
+
+        try {
+          const response = await this.chatCompletion(messages, {
+            ...requestOptions,
+            model: models[i],
+            retries: isLast ? requestOptions.retries : 0,
+            // A cached plan that failed to parse would fail again
+            ...(i > 0 ? { useCache: false } : {}),
+          });
+          return this.parsePlanResponse(response, Boolean(options.screenshot));
+        } catch (error) {
+          const openRouterError = this.handleError(error, requestId);
+          // The next model would stream its own first step, which may then run a second time
+          if (isLast || commandsStreamed || !this.shouldFallback(openRouterError)) {
+            throw openRouterError;
+          }
+          this.emitFallback(requestId, models[i], models[i + 1], openRouterError);
+        }
+      }
+    } finally {
+      if (extractor) {
+        this.removeEventListener('stream_chunk', streamListener);
+        this.removeEventListener('stream_tool_call', streamListener);
       }
+    }
+
+    throw new Error('No model available to parse the command');
+  }
+
+  /**
+   * Turn a completion into a validated plan
+   */
+  private parsePlanResponse(response: RayOpenRouterResponse, vision: boolean): ParsedAIResponse {
+    try {
+      // Parse the AI response
+      const message = response.choices[0]?.message;
+      const toolCalls = message?.tool_calls;
+      const content = message?.content;
 
-      // Try to parse as JSON first
       let parsedResponse: ParsedAIResponse;
-      try {
-        parsedResponse = JSON.parse(content);
-      } catch {
-        // If not JSON, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsedResponse = JSON.parse(jsonMatch[0]);
-        } else {
-          // Fallback: create a basic response
-          parsedResponse = {
-            commands: [{
-              type: 'extract' as const,
-              description: content,
-              confidence: 0.5,
-            }],
-            confidence: 0.5,
-            requiresClarification: true,
-            clarificationQuestion: 'Could you please be more specific about what you want me to do?',
-          };
-        }
+      if (toolCalls && toolCalls.length > 0) {
+        parsedResponse = parseToolCalls(toolCalls);
+      } else if (content) {
+        parsedResponse = this.parseContentResponse(content, vision);
+      } else {
+        throw new Error('Empty response from AI model');
       }
 
       // Validate the response
@@ -166,40 +306,88 @@ export class OpenRouterClient {
         throw new Error(`Invalid AI response: ${validation.errors.join(', ')}`);
       }
 
-      return parsedResponse;
+      return { ...parsedResponse, answeredBy: response.answeredBy };
 
     } catch (error) {
       throw new OpenRouterError({
         code: OPENROUTER_ERRORS.INVALID_RESPONSE,
-        message: `Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Failed to parse AI response from ${response.answeredBy}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         timestamp: Date.now(),
         type: 'validation',
       });
     }
   }
 
+  /**
+   * Parse a JSON plan returned as message content
+   */
+  private parseContentResponse(content: string, vision: boolean = false): ParsedAIResponse {
+    try {
+      // Try to parse as JSON first
+      return JSON.parse(content);
+    } catch {
+      // If not JSON, try to extract JSON from the response
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        return JSON.parse(jsonMatch[0]);
+      }
+
+      // Vision replies may just name a box, e.g. "click 14"
+      const numberedCommands = vision ? parseNumberedReply(content) : [];
+      if (numberedCommands.length > 0) {
+        return {
+          commands: numberedCommands,
+          confidence: Math.min(...numberedCommands.map(cmd => cmd.confidence ?? 0)),
+          requiresClarification: false,
+        };
+      }
+
+      // Fallback: create a basic response
+      return {
+        commands: [{
+          type: 'extract' as const,
+          description: content,
+          confidence: 0.5,
+        }],
+        confidence: 0.5,
+        requiresClarification: true,
+        clarificationQuestion: 'Could you please be more specific about what you want me to do?',
+      };
+    }
+  }
+
   /**
    * Make the actual HTTP request to OpenRouter API
    */
   private async makeRequest(
     requestId: string,
     messages: OpenRouterMessage[],
+    model: string,
     options: RequestOptions
   ): Promise<OpenRouterResponse> {
     const url = `${this.config.baseUrl}${OPENROUTER_CONFIG.CHAT_ENDPOINT}`;
     
+    const { signal, tools, toolChoice, stream, ...bodyOptions } = options;
+    // Routing, vision and cache options are client-side only
+    delete bodyOptions.model;
+    delete bodyOptions.complexity;
+    delete bodyOptions.vision;
+    delete bodyOptions.screenshot;
+    delete bodyOptions.semanticCache;
+    delete bodyOptions.conversation;
+    // Providers without streaming support receive a plain request
+    const streaming = stream === true && this.config.enableStreaming !== false;
     const requestBody: RayOpenRouterRequest = {
-      model: this.config.model!,
+      model,
       messages,
       temperature: this.config.temperature,
       max_tokens: this.config.maxTokens,
-      ...options,
+      ...bodyOptions,
+      ...(streaming ? { stream: true } : {}),
+      ...(tools && tools.length > 0 ? { tools, tool_choice: toolChoice ?? 'auto' } : {}),
     };
 
-    const headers = {
-      ...OPENROUTER_CONFIG.DEFAULT_HEADERS,
-      'Authorization': `Bearer ${this.config.apiKey}`,
-    };
+    const headers = this.buildHeaders();
 
     let lastError: Error | null = null;
     const maxRetries = options.retries ?? this.config.retries!;
@@ -219,7 +407,7 @@ export class OpenRouterClient {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
-          signal: AbortSignal.timeout(options.timeout ?? this.config.timeout!),
+          signal: this.createRequestSignal(options.timeout ?? this.config.timeout!, signal),
         });
 
         // Handle rate limiting
@@ -246,7 +434,9 @@ export class OpenRouterClient {
           });
         }
 
-        const data: OpenRouterResponse = await response.json();
+        const data: OpenRouterResponse = streaming
+          ? await this.readStream(requestId, response, model)
+          : await response.json();
         
         // Update rate limit info from successful response
         this.updateRateLimitInfo(response);
@@ -255,6 +445,15 @@ export class OpenRouterClient {
 
       } catch (error) {
         lastError = error as Error;
+
+        if (signal?.aborted) {
+          throw new OpenRouterError({
+            code: OPENROUTER_ERRORS.CANCELLED,
+            message: 'Request cancelled',
+            timestamp: Date.now(),
+            type: 'cancelled',
+          });
+        }
         
         if (attempt < maxRetries && this.shouldRetry(error as OpenRouterError)) {
           const delay = this.calculateRetryDelay(attempt);
@@ -269,6 +468,137 @@ export class OpenRouterClient {
     throw lastError || new Error('Max retries exceeded');
   }
 
+  /**
+   * Build request headers, omitting authorization for keyless endpoints
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...(this.config.headers ?? OPENROUTER_CONFIG.DEFAULT_HEADERS),
+    };
+
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Read a server-sent event stream into a complete response
+   */
+  private async readStream(requestId: string, response: Response, model: string): Promise<OpenRouterResponse> {
+    if (!response.body) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.INVALID_RESPONSE,
+        message: 'Streaming response has no body',
+        timestamp: Date.now(),
+        type: 'api',
+      });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+    const toolCalls = new ToolCallAccumulator();
+    let toolCallIndex = 0;
+    const emitToolCalls = (completed: OpenRouterToolCall[]) => {
+      for (const toolCall of completed) {
+        this.emitEvent({ type: 'stream_tool_call', data: { requestId, index: toolCallIndex++, toolCall } });
+      }
+    };
+    const result: OpenRouterResponse = {
+      id: requestId,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      // Chunks name the model that answered; until then it is the one requested
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: '' },
+        finish_reason: 'stop',
+      }],
+      usage: {
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0,
+      },
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      const events = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const event of events) {
+        if (event === OPENROUTER_CONFIG.STREAM_DONE_MARKER) {
+          continue;
+        }
+
+        let chunk: OpenRouterStreamChunk;
+        try {
+          chunk = JSON.parse(event);
+        } catch {
+          continue;
+        }
+
+        result.id = chunk.id || result.id;
+        result.model = chunk.model || result.model;
+        result.created = chunk.created || result.created;
+        if (chunk.usage) {
+          result.usage = chunk.usage;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason) {
+          result.choices[0].finish_reason = choice.finish_reason;
+        }
+
+        const delta = choice?.delta?.content;
+        if (delta) {
+          result.choices[0].message.content += delta;
+          this.emitEvent({ type: 'stream_chunk', data: { requestId, delta } });
+        }
+
+        if (choice?.delta?.tool_calls) {
+          emitToolCalls(toolCalls.push(choice.delta.tool_calls));
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    emitToolCalls(toolCalls.flush());
+    const assembledToolCalls = toolCalls.getToolCalls();
+    if (assembledToolCalls.length > 0) {
+      result.choices[0].message.tool_calls = assembledToolCalls;
+    }
+
+    return result;
+  }
+
+  /**
+   * Combine the request timeout with an optional caller-provided abort signal
+   */
+  private createRequestSignal(timeout: number, signal?: AbortSignal): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    if (!signal) {
+      return timeoutSignal;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+
+    if (signal.aborted) {
+      abort();
+    } else {
+      signal.addEventListener('abort', abort, { once: true });
+      timeoutSignal.addEventListener('abort', abort, { once: true });
+    }
+
+    return controller.signal;
+  }
+
   /**
    * Validate the parsed AI response
    */
@@ -287,6 +617,16 @@ export class OpenRouterClient {
       response.commands.forEach((cmd: any, index: number) => {
         if (!cmd.type || typeof cmd.type !== 'string') {
           errors.push(`Command ${index}: missing or invalid type`);
+        } else if (!COMMAND_SCHEMAS[cmd.type as AICommandType]) {
+          errors.push(`Command ${index}: unknown type "${cmd.type}"`);
+        } else {
+          // Non-standard arguments such as drag targets travel in options
+          validateAgainstSchema({ ...cmd.options, ...cmd }, COMMAND_SCHEMAS[cmd.type as AICommandType])
+            .forEach(error => errors.push(`Command ${index}: ${error}`));
+
+          if (TARGETED_COMMANDS.includes(cmd.type) && !cmd.selector && cmd.ref === undefined) {
+            errors.push(`Command ${index}: selector or ref is required`);
+          }
         }
         
         if (!cmd.description || typeof cmd.description !== 'string') {
@@ -320,38 +660,59 @@ export class OpenRouterClient {
       model: this.config.model,
       temperature: this.config.temperature,
       ...options,
+      // Screenshots are not cached; the image data would only bloat the key
+      screenshot: undefined,
+      semanticCache: undefined,
+      // Per-call fields must not split cache entries
+      signal: undefined,
+      requestId: undefined,
+      stream: undefined,
+      // Tool definitions are static; their names are enough to tell requests apart
+      tools: options.tools?.map(tool => tool.function.name),
     };
-    return btoa(JSON.stringify(keyData));
+    return `${RESPONSE_CACHE_PREFIX}${hashString(JSON.stringify(keyData))}`;
   }
 
-  private getFromCache(key: string): RayOpenRouterResponse | null {
-    const entry = this.cache[key];
-    if (!entry) return null;
-
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      delete this.cache[key];
-      return null;
+  /**
+   * Requests with a semantic key match on the normalised command, so paraphrases share a response
+   */
+  private async getFromCache(
+    messages: OpenRouterMessage[],
+    options: RequestOptions
+  ): Promise<{ key: string; response: RayOpenRouterResponse } | null> {
+    if (options.semanticCache) {
+      const hit = await this.responseCache.getSemantic<RayOpenRouterResponse>(this.scopeSemanticKey(options.semanticCache, options));
+      return hit ? { key: hit.key, response: hit.value } : null;
     }
 
-    entry.hitCount++;
-    return entry.response;
+    const key = this.generateCacheKey(messages, options);
+    const response = await this.responseCache.get<RayOpenRouterResponse>(key);
+    return response ? { key, response } : null;
   }
 
-  private setCache(key: string, response: RayOpenRouterResponse): void {
-    // Remove oldest entries if cache is full
-    const cacheKeys = Object.keys(this.cache);
-    if (cacheKeys.length >= this.config.cacheSize!) {
-      const oldestKey = cacheKeys.reduce((oldest, current) => 
-        this.cache[current].timestamp < this.cache[oldest].timestamp ? current : oldest
-      );
-      delete this.cache[oldestKey];
+  private async setCache(
+    messages: OpenRouterMessage[],
+    options: RequestOptions,
+    response: RayOpenRouterResponse
+  ): Promise<void> {
+    if (options.semanticCache) {
+      await this.responseCache.setSemantic(this.scopeSemanticKey(options.semanticCache, options), response, this.config.cacheTTL);
+    } else {
+      await this.responseCache.set(this.generateCacheKey(messages, options), response, this.config.cacheTTL);
     }
 
-    this.cache[key] = {
-      response,
-      timestamp: Date.now(),
-      ttl: this.config.cacheTTL!,
-      hitCount: 0,
+    await this.responseCache.limitEntries(RESPONSE_CACHE_PREFIX, this.config.cacheSize!);
+  }
+
+  /**
+   * Responses are only shared between requests for the same models and tools
+   */
+  private scopeSemanticKey(semanticKey: SemanticCacheKey, options: RequestOptions): SemanticCacheKey {
+    return {
+      ...semanticKey,
+      scope: `${RESPONSE_CACHE_PREFIX}${semanticKey.scope}`,
+      model: this.getModelChain(options).join(','),
+      tools: options.tools?.map(tool => tool.function.name),
     };
   }
 
@@ -414,6 +775,74 @@ export class OpenRouterClient {
            error.type === 'rate_limit';
   }
 
+  /**
+   * Whether another model might succeed where this one failed
+   * Cancellation and rejected API keys end the chain, since every model would fail the same way
+   */
+  private shouldFallback(error: OpenRouterError): boolean {
+    if (error.type === 'cancelled' || error.type === 'auth') {
+      return false;
+    }
+    return error.statusCode !== 401 && error.statusCode !== 403;
+  }
+
+  /**
+   * Model routing
+   */
+  private getModelChain(options: RequestOptions): string[] {
+    if (options.model) {
+      return [options.model];
+    }
+
+    const routed = options.complexity ? this.config.modelRoutes?.[options.complexity] ?? [] : [];
+    const chain = [
+      ...routed,
+      this.config.model || OPENROUTER_CONFIG.DEFAULT_MODEL,
+      ...(this.config.fallbackModels ?? []),
+    ];
+    return chain.filter((model, index) => chain.indexOf(model) === index);
+  }
+
+  /**
+   * Send a request to each model in turn until one answers
+   * Models with a successor fail over immediately instead of waiting out retries
+   */
+  private async requestWithFallback(
+    requestId: string,
+    messages: OpenRouterMessage[],
+    options: RequestOptions,
+    models: string[]
+  ): Promise<{ response: OpenRouterResponse; model: string; failedModels: string[] }> {
+    const failedModels: string[] = [];
+    let lastError: OpenRouterError | null = null;
+
+    for (let i = 0; i < models.length; i++) {
+      const model = models[i];
+      const isLast = i === models.length - 1;
+
+      try {
+        // Refuse before sending if a hard spend cap would be exceeded
+        await this.enforceSpendLimits(requestId, messages, model);
+
+        const response = await this.makeRequest(requestId, messages, model, isLast ? options : { ...options, retries: 0 });
+        return { response, model, failedModels };
+      } catch (error) {
+        lastError = this.handleError(error, requestId);
+        if (isLast || !this.shouldFallback(lastError)) {
+          throw lastError;
+        }
+        failedModels.push(model);
+        this.emitFallback(requestId, model, models[i + 1], lastError);
+      }
+    }
+
+    throw lastError || new Error('No model available');
+  }
+
+  private emitFallback(requestId: string, from: string, to: string, error: OpenRouterError): void {
+    this.emitEvent({ type: 'model_fallback', data: { requestId, from, to, reason: error.message } });
+  }
+
   /**
    * Utility methods
    */
@@ -438,6 +867,8 @@ export class OpenRouterClient {
       this.usageStats.successfulRequests++;
       if (response?.usage) {
         this.usageStats.totalTokens += response.usage.total_tokens;
+        this.usageStats.promptTokens += response.usage.prompt_tokens;
+        this.usageStats.completionTokens += response.usage.completion_tokens;
       }
     } else {
       this.usageStats.failedRequests++;
@@ -448,6 +879,137 @@ export class OpenRouterClient {
     this.usageStats.averageResponseTime = totalTime / this.usageStats.totalRequests;
   }
 
+  /**
+   * Refuse requests that would exceed a hard spend cap and warn past soft caps
+   * Models without a known price are looked up in `/models` first; one that is still unknown would
+   * count as free, so it is refused under a hard cap and warned about otherwise
+   */
+  private async enforceSpendLimits(requestId: string, messages: OpenRouterMessage[], model: string): Promise<void> {
+    if (!this.costTracker) {
+      return;
+    }
+
+    const isLocal = this.isLocalEndpoint();
+    if (!isLocal && !this.costTracker.getPricing(model)) {
+      await this.loadModelPricing();
+    }
+    const priceKnown = isLocal || this.costTracker.getPricing(model) !== null;
+
+    const estimatedCost = this.costTracker.estimateCost(
+      model,
+      this.estimatePromptTokens(messages),
+      this.config.maxTokens || 0
+    );
+    const budget = await this.costTracker.checkBudget(estimatedCost);
+
+    budget.warnings.forEach(message => {
+      this.emitEvent({ type: 'spend_warning', data: { requestId, message } });
+    });
+
+    if (!budget.allowed) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.SPEND_LIMIT_EXCEEDED,
+        message: budget.reason || 'Spend limit reached',
+        timestamp: Date.now(),
+        type: 'quota',
+      });
+    }
+
+    if (priceKnown) {
+      return;
+    }
+
+    if (this.costTracker.hasHardLimit()) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.SPEND_LIMIT_EXCEEDED,
+        message: `No price is known for ${model}, so it cannot be used while a hard spend limit is set`,
+        timestamp: Date.now(),
+        type: 'quota',
+      });
+    }
+
+    this.emitEvent({
+      type: 'spend_warning',
+      data: { requestId, message: `No price is known for ${model}; its requests are not counted towards spend limits` },
+    });
+  }
+
+  /**
+   * Load provider-reported prices from `/models` into the cost tracker, once per endpoint
+   * A failed load is retried by the next request that needs it
+   */
+  private loadModelPricing(): Promise<void> {
+    if (!this.modelPricingLoad) {
+      this.modelPricingLoad = this.fetchModelPricing();
+    }
+    return this.modelPricingLoad;
+  }
+
+  private async fetchModelPricing(): Promise<void> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}${OPENROUTER_CONFIG.MODELS_ENDPOINT}`, {
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(this.config.timeout ?? OPENROUTER_CONFIG.REQUEST_TIMEOUT),
+      });
+      if (!response.ok) {
+        throw new Error(`Model list request failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const entries: any[] = Array.isArray(data?.data) ? data.data : [];
+      entries.forEach(entry => {
+        const pricing = parsePerTokenPricing(entry?.pricing);
+        if (typeof entry?.id === 'string' && pricing) {
+          this.costTracker?.setModelPricing(entry.id, pricing);
+        }
+      });
+    } catch (error) {
+      this.modelPricingLoad = null;
+      console.warn('Failed to load model pricing:', error);
+    }
+  }
+
+  /**
+   * Whether the endpoint runs on this machine (Ollama, LM Studio, ...)
+   */
+  private isLocalEndpoint(): boolean {
+    try {
+      return LOCAL_HOSTS.includes(new URL(this.config.baseUrl ?? '').hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Rough prompt size: about four characters per token plus a fixed allowance per image
+   */
+  private estimatePromptTokens(messages: OpenRouterMessage[]): number {
+    return messages.reduce((total, message) => {
+      const images = typeof message.content === 'string'
+        ? 0
+        : message.content.filter(part => part.type === 'image_url').length;
+      return total + Math.ceil(getMessageText(message.content).length / 4) + images * IMAGE_TOKEN_ESTIMATE;
+    }, 0);
+  }
+
+  /**
+   * Price a completed request by the model that answered it and record it in the rollups
+   */
+  private async recordCost(response: OpenRouterResponse, requestedModel: string): Promise<number> {
+    if (!response.usage) {
+      return 0;
+    }
+
+    const model = response.model || requestedModel;
+    const { prompt_tokens: promptTokens, completion_tokens: completionTokens } = response.usage;
+    const cost = this.costTracker
+      ? await this.costTracker.record(model, promptTokens, completionTokens)
+      : calculateCost(getModelPricing(model), promptTokens, completionTokens);
+
+    this.usageStats.totalCost += cost;
+    return cost;
+  }
+
   /**
    * Event handling
    */
@@ -482,15 +1044,29 @@ export class OpenRouterClient {
     return { ...this.usageStats };
   }
 
+  /**
+   * Share spend accounting and caps across clients
+   */
+  public setCostTracker(costTracker: CostTracker | null): void {
+    this.costTracker = costTracker;
+  }
+
   public getRateLimitInfo(): RateLimitInfo | null {
     return this.rateLimitInfo ? { ...this.rateLimitInfo } : null;
   }
 
   public clearCache(): void {
-    this.cache = {};
+    void this.responseCache.deleteByPrefix(RESPONSE_CACHE_PREFIX);
+  }
+
+  public getConfig(): OpenRouterClientConfig {
+    return { ...this.config };
   }
 
   public updateConfig(newConfig: Partial<OpenRouterClientConfig>): void {
+    if (newConfig.baseUrl !== undefined && newConfig.baseUrl !== this.config.baseUrl) {
+      this.modelPricingLoad = null;
+    }
     this.config = { ...this.config, ...newConfig };
   }
 } * OpenRouter API client implementation
@@ -506,31 +1082,63 @@ import {
   OpenRouterClientConfig,
   OpenRouterError,
   RequestOptions,
-  APIResponseCache,
   UsageStats,
   OpenRouterEvent,
   OpenRouterEventListener,
   ParsedAIResponse,
+  ParsedAICommand,
+  AICommandType,
   RateLimitInfo,
   ValidationResult
 } from './types';
 import { 
   OpenRouterMessage, 
-  OpenRouterResponse 
+  OpenRouterResponse,
+  OpenRouterStreamChunk,
+  OpenRouterToolCall
 } from '../shared/contracts';
+import { SSEParser, StreamingCommandExtractor, ToolCallAccumulator } from './streaming';
+import { buildVisionContent, getMessageText, parseNumberedReply } from './vision';
+import { CostTracker } from './cost-tracker';
+import { calculateCost, getModelPricing, parsePerTokenPricing } from './pricing';
+import { CacheManager, SemanticCacheKey } from '../cache/cache-manager';
+import { hashString } from '../cache/semantic-key';
+import {
+  AUTOMATION_TOOLS,
+  COMMAND_SCHEMAS,
+  isCommandToolCall,
+  parseToolCalls,
+  TARGETED_COMMANDS,
+  toolCallToCommand,
+  validateAgainstSchema
+} from './tools';
+
+// Prompt tokens assumed per attached image when estimating request cost
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+// Prefix for response entries in the shared persistent cache
+const RESPONSE_CACHE_PREFIX = 'llm:';
+
+// Endpoint hosts that run on this machine, where requests cost nothing
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
 
 export class OpenRouterClient {
-  private config: OpenRouterClientConfig;
-  private cache: APIResponseCache = {};
+  protected config: OpenRouterClientConfig;
+  private responseCache: CacheManager = CacheManager.getInstance();
   private usageStats: UsageStats = {
     totalRequests: 0,
     successfulRequests: 0,
     failedRequests: 0,
     cachedRequests: 0,
     totalTokens: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalCost: 0,
     averageResponseTime: 0,
     lastRequestTime: 0,
   };
+  protected costTracker: CostTracker | null = null;
+  private modelPricingLoad: Promise<void> | null = null;
   private eventListeners: Map<string, OpenRouterEventListener[]> = new Map();
   private rateLimitInfo: RateLimitInfo | null = null;
 
@@ -545,56 +1153,76 @@ export class OpenRouterClient {
       enableCache: true,
       cacheSize: OPENROUTER_CONFIG.MAX_CACHE_SIZE,
       cacheTTL: OPENROUTER_CONFIG.CACHE_TTL,
+      enableToolCalling: true,
       ...config,
     };
   }
 
   /**
    * Send a chat completion request to OpenRouter
+   * With `options.stream` set, content deltas are emitted as `stream_chunk` events while the response arrives
+   * Models in the chain are tried in order until one answers; `response.answeredBy` names it
    */
   async chatCompletion(
     messages: OpenRouterMessage[], 
     options: RequestOptions = {}
   ): Promise<RayOpenRouterResponse> {
-    const requestId = this.generateRequestId();
+    const requestId = options.requestId ?? this.generateRequestId();
     const startTime = Date.now();
 
-    this.emitEvent({ type: 'request_start', data: { requestId, prompt: messages[messages.length - 1]?.content || '' } });
+    this.emitEvent({ type: 'request_start', data: { requestId, prompt: getMessageText(messages[messages.length - 1]?.content || '') } });
 
     try {
       // Check cache first
       if (options.useCache !== false && this.config.enableCache) {
-        const cacheKey = this.generateCacheKey(messages, options);
-        const cachedResponse = this.getFromCache(cacheKey);
-        if (cachedResponse) {
+        const cached = await this.getFromCache(messages, options);
+        if (cached) {
+          const { key: cacheKey, response: cachedResponse } = cached;
           this.emitEvent({ type: 'cache_hit', data: { requestId, cacheKey } });
           this.usageStats.cachedRequests++;
+          if (options.stream) {
+            // Replay cached content so stream listeners behave the same as on a live request
+            this.emitEvent({
+              type: 'stream_chunk',
+              data: { requestId, delta: cachedResponse.choices[0]?.message?.content || '' },
+            });
+          }
           return { ...cachedResponse, requestId, cached: true };
         }
       }
 
-      // Make the API request
-      const response = await this.makeRequest(requestId, messages, options);
+      // Make the API request, falling back along the model chain
+      const { response, model, failedModels } = await this.requestWithFallback(
+        requestId,
+        messages,
+        options,
+        this.getModelChain(options)
+      );
       const processingTime = Date.now() - startTime;
 
       // Update usage stats
       this.updateUsageStats(response, processingTime, true);
+      const cost = await this.recordCost(response, model);
 
-      // Cache the response
-      if (this.config.enableCache && options.useCache !== false) {
-        const cacheKey = this.generateCacheKey(messages, options);
-        this.setCache(cacheKey, response);
-      }
-
-      this.emitEvent({ type: 'request_success', data: { requestId, response } });
-
-      return {
+      const result: RayOpenRouterResponse = {
         ...response,
         requestId,
         processingTime,
         cached: false,
+        cost,
+        answeredBy: model,
+        ...(failedModels.length > 0 ? { failedModels } : {}),
       };
 
+      // Cache the response
+      if (this.config.enableCache && options.useCache !== false) {
+        await this.setCache(messages, options, result);
+      }
+
+      this.emitEvent({ type: 'request_success', data: { requestId, response: result } });
+
+      return result;
+
     } catch (error) {
       const processingTime = Date.now() - startTime;
       this.updateUsageStats(null as any, processingTime, false);
@@ -607,51 +1235,139 @@ export class OpenRouterClient {
 
   /**
    * Parse natural language command into automation commands
+   * When streaming, each command is emitted as a `stream_command` event as soon as its JSON object is complete
+   * With tool calling enabled, commands are requested as native tool calls instead of JSON content
+   * A model whose plan cannot be parsed hands the command to the next model in the chain,
+   * unless it already streamed commands that listeners may have started executing
    */
   async parseCommand(
     command: string, 
     context?: any,
     options: RequestOptions = {}
   ): Promise<ParsedAIResponse> {
+    const useTools = this.config.enableToolCalling !== false;
+    const systemPrompt = useTools ? OPENROUTER_CONFIG.TOOL_SYSTEM_PROMPT : OPENROUTER_CONFIG.SYSTEM_PROMPT;
+    const userPrompt = `Command: "${command}"${context ? `\n\nContext: ${JSON.stringify(context)}` : ''}`;
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: OPENROUTER_CONFIG.SYSTEM_PROMPT },
-      { 
-        role: 'user', 
-        content: `Command: "${command}"${context ? `\n\nContext: ${JSON.stringify(context)}` : ''}` 
-      }
+      {
+        role: 'system',
+        content: options.screenshot ? `${systemPrompt}\n\n${OPENROUTER_CONFIG.VISION_PROMPT}` : systemPrompt,
+      },
+      {
+        role: 'user',
+        content: options.screenshot ? buildVisionContent(userPrompt, options.screenshot) : userPrompt,
+      },
+      // Clarifying questions and the user's replies, so the model keeps the original intent
+      ...(options.conversation ?? []),
     ];
 
-    const response = await this.chatCompletion(messages, options);
-    
+    const requestId = options.requestId ?? this.generateRequestId();
+    let extractor = options.stream ? new StreamingCommandExtractor() : null;
+    let toolCommandCount = 0;
+    let commandsStreamed = false;
+    const streamListener: OpenRouterEventListener = (event) => {
+      if (!extractor) {
+        return;
+      }
+
+      if (event.type === 'stream_chunk' && event.data.requestId === requestId) {
+        for (const extracted of extractor.push(event.data.delta)) {
+          commandsStreamed = true;
+          this.emitEvent({
+            type: 'stream_command',
+            data: { requestId, index: extracted.index, command: extracted.command },
+          });
+        }
+      } else if (event.type === 'stream_tool_call' && event.data.requestId === requestId) {
+        if (!isCommandToolCall(event.data.toolCall)) {
+          return;
+        }
+
+        let toolCommand: ParsedAICommand;
+        try {
+          toolCommand = toolCallToCommand(event.data.toolCall);
+        } catch {
+          // Malformed calls are reported when the full response is validated
+          return;
+        }
+
+        commandsStreamed = true;
+        this.emitEvent({
+          type: 'stream_command',
+          data: { requestId, index: toolCommandCount++, command: toolCommand },
+        });
+      }
+    };
+
+    if (extractor) {
+      this.addEventListener('stream_chunk', streamListener);
+      this.addEventListener('stream_tool_call', streamListener);
+    }
+
+    // Screenshots and clarification replies make every request unique, so they bypass the cache
+    const baseOptions: RequestOptions = options.screenshot || options.conversation
+      ? { useCache: false, ...options }
+      : options;
+    const requestOptions: RequestOptions = useTools
+      ? { tools: AUTOMATION_TOOLS, toolChoice: 'auto', ...baseOptions, requestId }
+      : { ...baseOptions, requestId };
+
+    // Each model is pinned so a bad plan, not only a failed request, moves on to the next one
+    const models = this.getModelChain(options);
     try {
-      // Parse the AI response
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Empty response from AI model');
+      for (let i = 0; i < models.length; i++) {
+        const isLast = i === models.length - 1;
+        if (i > 0 && options.stream) {
+          // Restart command extraction for the new model's stream
+          extractor = new StreamingCommandExtractor();
+          toolCommandCount = 0;
+        }
+
+        try {
+          const response = await this.chatCompletion(messages, {
+            ...requestOptions,
+            model: models[i],
+            retries: isLast ? requestOptions.retries : 0,
+            // A cached plan that failed to parse would fail again
+            ...(i > 0 ? { useCache: false } : {}),
+          });
+          return this.parsePlanResponse(response, Boolean(options.screenshot));
+        } catch (error) {
+          const openRouterError = this.handleError(error, requestId);
+          // The next model would stream its own first step, which may then run a second time
+          if (isLast || commandsStreamed || !this.shouldFallback(openRouterError)) {
+            throw openRouterError;
+          }
+          this.emitFallback(requestId, models[i], models[i + 1], openRouterError);
+        }
+      }
+    } finally {
+      if (extractor) {
+        this.removeEventListener('stream_chunk', streamListener);
+        this.removeEventListener('stream_tool_call', streamListener);
       }
+    }
+
+    throw new Error('No model available to parse the command');
+  }
+
+  /**
+   * Turn a completion into a validated plan
+   */
+  private parsePlanResponse(response: RayOpenRouterResponse, vision: boolean): ParsedAIResponse {
+    try {
+      // Parse the AI response
+      const message = response.choices[0]?.message;
+      const toolCalls = message?.tool_calls;
+      const content = message?.content;
 
-      // Try to parse as JSON first
       let parsedResponse: ParsedAIResponse;
-      try {
-        parsedResponse = JSON.parse(content);
-      } catch {
-        // If not JSON, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsedResponse = JSON.parse(jsonMatch[0]);
-        } else {
-          // Fallback: create a basic response
-          parsedResponse = {
-            commands: [{
-              type: 'extract' as const,
-              description: content,
-              confidence: 0.5,
-            }],
-            confidence: 0.5,
-            requiresClarification: true,
-            clarificationQuestion: 'Could you please be more specific about what you want me to do?',
-          };
-        }
+      if (toolCalls && toolCalls.length > 0) {
+        parsedResponse = parseToolCalls(toolCalls);
+      } else if (content) {
+        parsedResponse = this.parseContentResponse(content, vision);
+      } else {
+        throw new Error('Empty response from AI model');
       }
 
       // Validate the response
@@ -660,40 +1376,88 @@ export class OpenRouterClient {
         throw new Error(`Invalid AI response: ${validation.errors.join(', ')}`);
       }
 
-      return parsedResponse;
+      return { ...parsedResponse, answeredBy: response.answeredBy };
 
     } catch (error) {
       throw new OpenRouterError({
         code: OPENROUTER_ERRORS.INVALID_RESPONSE,
-        message: `Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Failed to parse AI response from ${response.answeredBy}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         timestamp: Date.now(),
         type: 'validation',
       });
     }
   }
 
+  /**
+   * Parse a JSON plan returned as message content
+   */
+  private parseContentResponse(content: string, vision: boolean = false): ParsedAIResponse {
+    try {
+      // Try to parse as JSON first
+      return JSON.parse(content);
+    } catch {
+      // If not JSON, try to extract JSON from the response
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        return JSON.parse(jsonMatch[0]);
+      }
+
+      // Vision replies may just name a box, e.g. "click 14"
+      const numberedCommands = vision ? parseNumberedReply(content) : [];
+      if (numberedCommands.length > 0) {
+        return {
+          commands: numberedCommands,
+          confidence: Math.min(...numberedCommands.map(cmd => cmd.confidence ?? 0)),
+          requiresClarification: false,
+        };
+      }
+
+      // Fallback: create a basic response
+      return {
+        commands: [{
+          type: 'extract' as const,
+          description: content,
+          confidence: 0.5,
+        }],
+        confidence: 0.5,
+        requiresClarification: true,
+        clarificationQuestion: 'Could you please be more specific about what you want me to do?',
+      };
+    }
+  }
+
   /**
    * Make the actual HTTP request to OpenRouter API
    */
   private async makeRequest(
     requestId: string,
     messages: OpenRouterMessage[],
+    model: string,
     options: RequestOptions
   ): Promise<OpenRouterResponse> {
     const url = `${this.config.baseUrl}${OPENROUTER_CONFIG.CHAT_ENDPOINT}`;
     
+    const { signal, tools, toolChoice, stream, ...bodyOptions } = options;
+    // Routing, vision and cache options are client-side only
+    delete bodyOptions.model;
+    delete bodyOptions.complexity;
+    delete bodyOptions.vision;
+    delete bodyOptions.screenshot;
+    delete bodyOptions.semanticCache;
+    delete bodyOptions.conversation;
+    // Providers without streaming support receive a plain request
+    const streaming = stream === true && this.config.enableStreaming !== false;
     const requestBody: RayOpenRouterRequest = {
-      model: this.config.model!,
+      model,
       messages,
       temperature: this.config.temperature,
       max_tokens: this.config.maxTokens,
-      ...options,
+      ...bodyOptions,
+      ...(streaming ? { stream: true } : {}),
+      ...(tools && tools.length > 0 ? { tools, tool_choice: toolChoice ?? 'auto' } : {}),
     };
 
-    const headers = {
-      ...OPENROUTER_CONFIG.DEFAULT_HEADERS,
-      'Authorization': `Bearer ${this.config.apiKey}`,
-    };
+    const headers = this.buildHeaders();
 
     let lastError: Error | null = null;
     const maxRetries = options.retries ?? this.config.retries!;
@@ -713,7 +1477,7 @@ export class OpenRouterClient {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
-          signal: AbortSignal.timeout(options.timeout ?? this.config.timeout!),
+          signal: this.createRequestSignal(options.timeout ?? this.config.timeout!, signal),
         });
 
         // Handle rate limiting
@@ -740,7 +1504,9 @@ export class OpenRouterClient {
           });
         }
 
-        const data: OpenRouterResponse = await response.json();
+        const data: OpenRouterResponse = streaming
+          ? await this.readStream(requestId, response, model)
+          : await response.json();
         
         // Update rate limit info from successful response
         this.updateRateLimitInfo(response);
@@ -749,6 +1515,15 @@ export class OpenRouterClient {
 
       } catch (error) {
         lastError = error as Error;
+
+        if (signal?.aborted) {
+          throw new OpenRouterError({
+            code: OPENROUTER_ERRORS.CANCELLED,
+            message: 'Request cancelled',
+            timestamp: Date.now(),
+            type: 'cancelled',
+          });
+        }
         
         if (attempt < maxRetries && this.shouldRetry(error as OpenRouterError)) {
           const delay = this.calculateRetryDelay(attempt);
@@ -763,6 +1538,137 @@ export class OpenRouterClient {
     throw lastError || new Error('Max retries exceeded');
   }
 
+  /**
+   * Build request headers, omitting authorization for keyless endpoints
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...(this.config.headers ?? OPENROUTER_CONFIG.DEFAULT_HEADERS),
+    };
+
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Read a server-sent event stream into a complete response
+   */
+  private async readStream(requestId: string, response: Response, model: string): Promise<OpenRouterResponse> {
+    if (!response.body) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.INVALID_RESPONSE,
+        message: 'Streaming response has no body',
+        timestamp: Date.now(),
+        type: 'api',
+      });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+    const toolCalls = new ToolCallAccumulator();
+    let toolCallIndex = 0;
+    const emitToolCalls = (completed: OpenRouterToolCall[]) => {
+      for (const toolCall of completed) {
+        this.emitEvent({ type: 'stream_tool_call', data: { requestId, index: toolCallIndex++, toolCall } });
+      }
+    };
+    const result: OpenRouterResponse = {
+      id: requestId,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      // Chunks name the model that answered; until then it is the one requested
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: '' },
+        finish_reason: 'stop',
+      }],
+      usage: {
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0,
+      },
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      const events = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const event of events) {
+        if (event === OPENROUTER_CONFIG.STREAM_DONE_MARKER) {
+          continue;
+        }
+
+        let chunk: OpenRouterStreamChunk;
+        try {
+          chunk = JSON.parse(event);
+        } catch {
+          continue;
+        }
+
+        result.id = chunk.id || result.id;
+        result.model = chunk.model || result.model;
+        result.created = chunk.created || result.created;
+        if (chunk.usage) {
+          result.usage = chunk.usage;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason) {
+          result.choices[0].finish_reason = choice.finish_reason;
+        }
+
+        const delta = choice?.delta?.content;
+        if (delta) {
+          result.choices[0].message.content += delta;
+          this.emitEvent({ type: 'stream_chunk', data: { requestId, delta } });
+        }
+
+        if (choice?.delta?.tool_calls) {
+          emitToolCalls(toolCalls.push(choice.delta.tool_calls));
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    emitToolCalls(toolCalls.flush());
+    const assembledToolCalls = toolCalls.getToolCalls();
+    if (assembledToolCalls.length > 0) {
+      result.choices[0].message.tool_calls = assembledToolCalls;
+    }
+
+    return result;
+  }
+
+  /**
+   * Combine the request timeout with an optional caller-provided abort signal
+   */
+  private createRequestSignal(timeout: number, signal?: AbortSignal): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    if (!signal) {
+      return timeoutSignal;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+
+    if (signal.aborted) {
+      abort();
+    } else {
+      signal.addEventListener('abort', abort, { once: true });
+      timeoutSignal.addEventListener('abort', abort, { once: true });
+    }
+
+    return controller.signal;
+  }
+
   /**
    * Validate the parsed AI response
    */
@@ -781,6 +1687,16 @@ export class OpenRouterClient {
       response.commands.forEach((cmd: any, index: number) => {
         if (!cmd.type || typeof cmd.type !== 'string') {
           errors.push(`Command ${index}: missing or invalid type`);
+        } else if (!COMMAND_SCHEMAS[cmd.type as AICommandType]) {
+          errors.push(`Command ${index}: unknown type "${cmd.type}"`);
+        } else {
+          // Non-standard arguments such as drag targets travel in options
+          validateAgainstSchema({ ...cmd.options, ...cmd }, COMMAND_SCHEMAS[cmd.type as AICommandType])
+            .forEach(error => errors.push(`Command ${index}: ${error}`));
+
+          if (TARGETED_COMMANDS.includes(cmd.type) && !cmd.selector && cmd.ref === undefined) {
+            errors.push(`Command ${index}: selector or ref is required`);
+          }
         }
         
         if (!cmd.description || typeof cmd.description !== 'string') {
@@ -814,38 +1730,59 @@ export class OpenRouterClient {
       model: this.config.model,
       temperature: this.config.temperature,
       ...options,
+      // Screenshots are not cached; the image data would only bloat the key
+      screenshot: undefined,
+      semanticCache: undefined,
+      // Per-call fields must not split cache entries
+      signal: undefined,
+      requestId: undefined,
+      stream: undefined,
+      // Tool definitions are static; their names are enough to tell requests apart
+      tools: options.tools?.map(tool => tool.function.name),
     };
-    return btoa(JSON.stringify(keyData));
+    return `${RESPONSE_CACHE_PREFIX}${hashString(JSON.stringify(keyData))}`;
   }
 
-  private getFromCache(key: string): RayOpenRouterResponse | null {
-    const entry = this.cache[key];
-    if (!entry) return null;
-
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      delete this.cache[key];
-      return null;
+  /**
+   * Requests with a semantic key match on the normalised command, so paraphrases share a response
+   */
+  private async getFromCache(
+    messages: OpenRouterMessage[],
+    options: RequestOptions
+  ): Promise<{ key: string; response: RayOpenRouterResponse } | null> {
+    if (options.semanticCache) {
+      const hit = await this.responseCache.getSemantic<RayOpenRouterResponse>(this.scopeSemanticKey(options.semanticCache, options));
+      return hit ? { key: hit.key, response: hit.value } : null;
     }
 
-    entry.hitCount++;
-    return entry.response;
+    const key = this.generateCacheKey(messages, options);
+    const response = await this.responseCache.get<RayOpenRouterResponse>(key);
+    return response ? { key, response } : null;
   }
 
-  private setCache(key: string, response: RayOpenRouterResponse): void {
-    // Remove oldest entries if cache is full
-    const cacheKeys = Object.keys(this.cache);
-    if (cacheKeys.length >= this.config.cacheSize!) {
-      const oldestKey = cacheKeys.reduce((oldest, current) => 
-        this.cache[current].timestamp < this.cache[oldest].timestamp ? current : oldest
-      );
-      delete this.cache[oldestKey];
+  private async setCache(
+    messages: OpenRouterMessage[],
+    options: RequestOptions,
+    response: RayOpenRouterResponse
+  ): Promise<void> {
+    if (options.semanticCache) {
+      await this.responseCache.setSemantic(this.scopeSemanticKey(options.semanticCache, options), response, this.config.cacheTTL);
+    } else {
+      await this.responseCache.set(this.generateCacheKey(messages, options), response, this.config.cacheTTL);
     }
 
-    this.cache[key] = {
-      response,
-      timestamp: Date.now(),
-      ttl: this.config.cacheTTL!,
-      hitCount: 0,
+    await this.responseCache.limitEntries(RESPONSE_CACHE_PREFIX, this.config.cacheSize!);
+  }
+
+  /**
+   * Responses are only shared between requests for the same models and tools
+   */
+  private scopeSemanticKey(semanticKey: SemanticCacheKey, options: RequestOptions): SemanticCacheKey {
+    return {
+      ...semanticKey,
+      scope: `${RESPONSE_CACHE_PREFIX}${semanticKey.scope}`,
+      model: this.getModelChain(options).join(','),
+      tools: options.tools?.map(tool => tool.function.name),
     };
   }
 
@@ -908,6 +1845,74 @@ export class OpenRouterClient {
            error.type === 'rate_limit';
   }
 
+  /**
+   * Whether another model might succeed where this one failed
+   * Cancellation and rejected API keys end the chain, since every model would fail the same way
+   */
+  private shouldFallback(error: OpenRouterError): boolean {
+    if (error.type === 'cancelled' || error.type === 'auth') {
+      return false;
+    }
+    return error.statusCode !== 401 && error.statusCode !== 403;
+  }
+
+  /**
+   * Model routing
+   */
+  private getModelChain(options: RequestOptions): string[] {
+    if (options.model) {
+      return [options.model];
+    }
+
+    const routed = options.complexity ? this.config.modelRoutes?.[options.complexity] ?? [] : [];
+    const chain = [
+      ...routed,
+      this.config.model || OPENROUTER_CONFIG.DEFAULT_MODEL,
+      ...(this.config.fallbackModels ?? []),
+    ];
+    return chain.filter((model, index) => chain.indexOf(model) === index);
+  }
+
+  /**
+   * Send a request to each model in turn until one answers
+   * Models with a successor fail over immediately instead of waiting out retries
+   */
+  private async requestWithFallback(
+    requestId: string,
+    messages: OpenRouterMessage[],
+    options: RequestOptions,
+    models: string[]
+  ): Promise<{ response: OpenRouterResponse; model: string; failedModels: string[] }> {
+    const failedModels: string[] = [];
+    let lastError: OpenRouterError | null = null;
+
+    for (let i = 0; i < models.length; i++) {
+      const model = models[i];
+      const isLast = i === models.length - 1;
+
+      try {
+        // Refuse before sending if a hard spend cap would be exceeded
+        await this.enforceSpendLimits(requestId, messages, model);
+
+        const response = await this.makeRequest(requestId, messages, model, isLast ? options : { ...options, retries: 0 });
+        return { response, model, failedModels };
+      } catch (error) {
+        lastError = this.handleError(error, requestId);
+        if (isLast || !this.shouldFallback(lastError)) {
+          throw lastError;
+        }
+        failedModels.push(model);
+        this.emitFallback(requestId, model, models[i + 1], lastError);
+      }
+    }
+
+    throw lastError || new Error('No model available');
+  }
+
+  private emitFallback(requestId: string, from: string, to: string, error: OpenRouterError): void {
+    this.emitEvent({ type: 'model_fallback', data: { requestId, from, to, reason: error.message } });
+  }
+
   /**
    * Utility methods
    */
@@ -932,6 +1937,8 @@ export class OpenRouterClient {
       this.usageStats.successfulRequests++;
       if (response?.usage) {
         this.usageStats.totalTokens += response.usage.total_tokens;
+        this.usageStats.promptTokens += response.usage.prompt_tokens;
+        this.usageStats.completionTokens += response.usage.completion_tokens;
       }
     } else {
       this.usageStats.failedRequests++;
@@ -942,6 +1949,137 @@ export class OpenRouterClient {
     this.usageStats.averageResponseTime = totalTime / this.usageStats.totalRequests;
   }
 
+  /**
+   * Refuse requests that would exceed a hard spend cap and warn past soft caps
+   * Models without a known price are looked up in `/models` first; one that is still unknown would
+   * count as free, so it is refused under a hard cap and warned about otherwise
+   */
+  private async enforceSpendLimits(requestId: string, messages: OpenRouterMessage[], model: string): Promise<void> {
+    if (!this.costTracker) {
+      return;
+    }
+
+    const isLocal = this.isLocalEndpoint();
+    if (!isLocal && !this.costTracker.getPricing(model)) {
+      await this.loadModelPricing();
+    }
+    const priceKnown = isLocal || this.costTracker.getPricing(model) !== null;
+
+    const estimatedCost = this.costTracker.estimateCost(
+      model,
+      this.estimatePromptTokens(messages),
+      this.config.maxTokens || 0
+    );
+    const budget = await this.costTracker.checkBudget(estimatedCost);
+
+    budget.warnings.forEach(message => {
+      this.emitEvent({ type: 'spend_warning', data: { requestId, message } });
+    });
+
+    if (!budget.allowed) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.SPEND_LIMIT_EXCEEDED,
+        message: budget.reason || 'Spend limit reached',
+        timestamp: Date.now(),
+        type: 'quota',
+      });
+    }
+
+    if (priceKnown) {
+      return;
+    }
+
+    if (this.costTracker.hasHardLimit()) {
+      throw new OpenRouterError({
+        code: OPENROUTER_ERRORS.SPEND_LIMIT_EXCEEDED,
+        message: `No price is known for ${model}, so it cannot be used while a hard spend limit is set`,
+        timestamp: Date.now(),
+        type: 'quota',
+      });
+    }
+
+    this.emitEvent({
+      type: 'spend_warning',
+      data: { requestId, message: `No price is known for ${model}; its requests are not counted towards spend limits` },
+    });
+  }
+
+  /**
+   * Load provider-reported prices from `/models` into the cost tracker, once per endpoint
+   * A failed load is retried by the next request that needs it
+   */
+  private loadModelPricing(): Promise<void> {
+    if (!this.modelPricingLoad) {
+      this.modelPricingLoad = this.fetchModelPricing();
+    }
+    return this.modelPricingLoad;
+  }
+
+  private async fetchModelPricing(): Promise<void> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}${OPENROUTER_CONFIG.MODELS_ENDPOINT}`, {
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(this.config.timeout ?? OPENROUTER_CONFIG.REQUEST_TIMEOUT),
+      });
+      if (!response.ok) {
+        throw new Error(`Model list request failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const entries: any[] = Array.isArray(data?.data) ? data.data : [];
+      entries.forEach(entry => {
+        const pricing = parsePerTokenPricing(entry?.pricing);
+        if (typeof entry?.id === 'string' && pricing) {
+          this.costTracker?.setModelPricing(entry.id, pricing);
+        }
+      });
+    } catch (error) {
+      this.modelPricingLoad = null;
+      console.warn('Failed to load model pricing:', error);
+    }
+  }
+
+  /**
+   * Whether the endpoint runs on this machine (Ollama, LM Studio, ...)
+   */
+  private isLocalEndpoint(): boolean {
+    try {
+      return LOCAL_HOSTS.includes(new URL(this.config.baseUrl ?? '').hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Rough prompt size: about four characters per token plus a fixed allowance per image
+   */
+  private estimatePromptTokens(messages: OpenRouterMessage[]): number {
+    return messages.reduce((total, message) => {
+      const images = typeof message.content === 'string'
+        ? 0
+        : message.content.filter(part => part.type === 'image_url').length;
+      return total + Math.ceil(getMessageText(message.content).length / 4) + images * IMAGE_TOKEN_ESTIMATE;
+    }, 0);
+  }
+
+  /**
+   * Price a completed request by the model that answered it and record it in the rollups
+   */
+  private async recordCost(response: OpenRouterResponse, requestedModel: string): Promise<number> {
+    if (!response.usage) {
+      return 0;
+    }
+
+    const model = response.model || requestedModel;
+    const { prompt_tokens: promptTokens, completion_tokens: completionTokens } = response.usage;
+    const cost = this.costTracker
+      ? await this.costTracker.record(model, promptTokens, completionTokens)
+      : calculateCost(getModelPricing(model), promptTokens, completionTokens);
+
+    this.usageStats.totalCost += cost;
+    return cost;
+  }
+
   /**
    * Event handling
    */
@@ -976,15 +2114,29 @@ export class OpenRouterClient {
     return { ...this.usageStats };
   }
 
+  /**
+   * Share spend accounting and caps across clients
+   */
+  public setCostTracker(costTracker: CostTracker | null): void {
+    this.costTracker = costTracker;
+  }
+
   public getRateLimitInfo(): RateLimitInfo | null {
     return this.rateLimitInfo ? { ...this.rateLimitInfo } : null;
   }
 
   public clearCache(): void {
-    this.cache = {};
+    void this.responseCache.deleteByPrefix(RESPONSE_CACHE_PREFIX);
+  }
+
+  public getConfig(): OpenRouterClientConfig {
+    return { ...this.config };
   }
 
   public updateConfig(newConfig: Partial<OpenRouterClientConfig>): void {
+    if (newConfig.baseUrl !== undefined && newConfig.baseUrl !== this.config.baseUrl) {
+      this.modelPricingLoad = null;
+    }
     this.config = { ...this.config, ...newConfig };
   }
 }
@@ -6,6 +6,7 @@ export const OPENROUTER_CONFIG = {
   // API endpoints
   BASE_URL: 'https://openrouter.ai/api/v1',
   CHAT_ENDPOINT: '/chat/completions',
+  MODELS_ENDPOINT: '/models',
   
   // Model configuration
   DEFAULT_MODEL: 'z-ai/glm-4.5-air:free',
@@ -31,6 +32,9 @@ export const OPENROUTER_CONFIG = {
   CACHE_TTL: 300000, // 5 minutes
   MAX_CACHE_SIZE: 100,
   
+  // Streaming
+  STREAM_DONE_MARKER: '[DONE]',
+  
   // Prompt engineering
   SYSTEM_PROMPT: `You are Ray, an intelligent browser automation assistant. Your role is to help users automate browser tasks by parsing their natural language commands and converting them into structured automation commands.
 
@@ -47,7 +51,8 @@ Response format:
   "commands": [
     {
       "type": "navigate|click|fill|scroll|submit|extract|wait",
-      "selector": "CSS selector if applicable",
+      "selector": "Locator such as role=button[name='Save'] or label=Email, or a CSS selector, if applicable",
+      "ref": "Element ref from the page snapshot, if one was provided",
       "value": "Value for fill commands",
       "url": "URL for navigate commands",
       "description": "Human-readable description"
@@ -57,6 +62,34 @@ Response format:
   "requiresClarification": false,
   "clarificationQuestion": "Question if clarification needed"
 }`,
+
+  // Prompt used when commands are returned through tool calls
+  TOOL_SYSTEM_PROMPT: `You are Ray, an intelligent browser automation assistant. Your role is to help users automate browser tasks by turning their natural language commands into calls to the provided automation tools.
+
+Rules:
+1. Call one tool per automation step, in the order the steps should run
+2. Be conservative and safe - never suggest actions that could be harmful
+3. Call request_clarification instead of guessing when a command is ambiguous
+4. When a page snapshot is provided, target elements by their ref; otherwise prefer locators by role and accessible name, label, placeholder, alt, title or test id (role=button[name="Save"], label=Email, placeholder=Search, testid=submit), chained with >> and narrowed with nth=N, over CSS selectors
+5. Include a short description for every step`,
+
+  // Appended to the system prompt when an annotated screenshot is attached
+  VISION_PROMPT: `The user message includes a screenshot of the visible page. Interactive elements are marked with numbered boxes, listed in the legend.
+Target elements by passing the box number as "ref". Use the screenshot to understand layout, icons and canvas content that the text alone does not describe.`,
+
+  // Prompt used by the observe–act agent loop
+  AGENT_SYSTEM_PROMPT: `You are Ray, an intelligent browser automation agent. You work towards the user's goal one action at a time: after every action you receive the updated page state and decide what to do next.
+
+Rules:
+1. Choose exactly one next action, targeting elements by their ref from the current page state (or by selector when no refs are shown)
+2. Be conservative and safe - never take actions that could be harmful
+3. When the goal is achieved, or cannot be achieved, finish the task with a short summary
+4. Learn from failed steps instead of repeating them
+
+If tools are available, call exactly one tool. Otherwise respond with JSON only:
+{"done": false, "command": {"type": "click", "ref": 12, "description": "Submit the form"}}
+or
+{"done": true, "success": true, "summary": "What was accomplished"}`,
 };
 
 // Error codes
@@ -68,6 +101,8 @@ export const OPENROUTER_ERRORS = {
   TIMEOUT: 'TIMEOUT',
   AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  CANCELLED: 'CANCELLED',
+  SPEND_LIMIT_EXCEEDED: 'SPEND_LIMIT_EXCEEDED',
 } as const;
 
 export type OpenRouterErrorType = typeof OPENROUTER_ERRORS[keyof typeof OPENROUTER_ERRORS]; * OpenRouter API configuration
@@ -77,6 +112,7 @@ export const OPENROUTER_CONFIG = {
   // API endpoints
   BASE_URL: 'https://openrouter.ai/api/v1',
   CHAT_ENDPOINT: '/chat/completions',
+  MODELS_ENDPOINT: '/models',
   
   // Model configuration
   DEFAULT_MODEL: 'gpt-oss-120b:free',
@@ -102,6 +138,9 @@ export const OPENROUTER_CONFIG = {
   CACHE_TTL: 300000, // 5 minutes
   MAX_CACHE_SIZE: 100,
   
+  // Streaming
+  STREAM_DONE_MARKER: '[DONE]',
+  
   // Prompt engineering
   SYSTEM_PROMPT: `You are Ray, an intelligent browser automation assistant. Your role is to help users automate browser tasks by parsing their natural language commands and converting them into structured automation commands.
 
@@ -118,7 +157,8 @@ Response format:
   "commands": [
     {
       "type": "navigate|click|fill|scroll|submit|extract|wait",
-      "selector": "CSS selector if applicable",
+      "selector": "Locator such as role=button[name='Save'] or label=Email, or a CSS selector, if applicable",
+      "ref": "Element ref from the page snapshot, if one was provided",
       "value": "Value for fill commands",
       "url": "URL for navigate commands",
       "description": "Human-readable description"
@@ -128,6 +168,34 @@ Response format:
   "requiresClarification": false,
   "clarificationQuestion": "Question if clarification needed"
 }`,
+
+  // Prompt used when commands are returned through tool calls
+  TOOL_SYSTEM_PROMPT: `You are Ray, an intelligent browser automation assistant. Your role is to help users automate browser tasks by turning their natural language commands into calls to the provided automation tools.
+
+Rules:
+1. Call one tool per automation step, in the order the steps should run
+2. Be conservative and safe - never suggest actions that could be harmful
+3. Call request_clarification instead of guessing when a command is ambiguous
+4. When a page snapshot is provided, target elements by their ref; otherwise prefer locators by role and accessible name, label, placeholder, alt, title or test id (role=button[name="Save"], label=Email, placeholder=Search, testid=submit), chained with >> and narrowed with nth=N, over CSS selectors
+5. Include a short description for every step`,
+
+  // Appended to the system prompt when an annotated screenshot is attached
+  VISION_PROMPT: `The user message includes a screenshot of the visible page. Interactive elements are marked with numbered boxes, listed in the legend.
+Target elements by passing the box number as "ref". Use the screenshot to understand layout, icons and canvas content that the text alone does not describe.`,
+
+  // Prompt used by the observe–act agent loop
+  AGENT_SYSTEM_PROMPT: `You are Ray, an intelligent browser automation agent. You work towards the user's goal one action at a time: after every action you receive the updated page state and decide what to do next.
+
+Rules:
+1. Choose exactly one next action, targeting elements by their ref from the current page state (or by selector when no refs are shown)
+2. Be conservative and safe - never take actions that could be harmful
+3. When the goal is achieved, or cannot be achieved, finish the task with a short summary
+4. Learn from failed steps instead of repeating them
+
+If tools are available, call exactly one tool. Otherwise respond with JSON only:
+{"done": false, "command": {"type": "click", "ref": 12, "description": "Submit the form"}}
+or
+{"done": true, "success": true, "summary": "What was accomplished"}`,
 };
 
 // Error codes
@@ -139,6 +207,8 @@ export const OPENROUTER_ERRORS = {
   TIMEOUT: 'TIMEOUT',
   AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  CANCELLED: 'CANCELLED',
+  SPEND_LIMIT_EXCEEDED: 'SPEND_LIMIT_EXCEEDED',
 } as const;
 
 export type OpenRouterErrorType = typeof OPENROUTER_ERRORS[keyof typeof OPENROUTER_ERRORS];
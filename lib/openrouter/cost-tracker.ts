@@ -0,0 +1,240 @@
+/**
+ * Spend accounting with daily and monthly rollups and configurable spend caps
+ * Rollups are persisted so totals survive service worker restarts
+ */
+
+import { calculateCost, formatCost, getModelPricing } from './pricing';
+import {
+  BudgetCheck,
+  ModelPricing,
+  ModelSpend,
+  SpendLimits,
+  SpendRollup,
+  SpendSummary
+} from './types';
+
+export const SPEND_ROLLUPS_STORAGE_KEY = 'llm_spend_rollups';
+export const SPEND_LIMITS_STORAGE_KEY = 'llm_spend_limits';
+
+// How many past periods to keep in storage
+const MAX_DAILY_ROLLUPS = 31;
+const MAX_MONTHLY_ROLLUPS = 12;
+
+interface StoredRollups {
+  daily: Record<string, SpendRollup>;
+  monthly: Record<string, SpendRollup>;
+}
+
+type SpendPeriod = keyof SpendLimits;
+
+export class CostTracker {
+  private rollups: StoredRollups = { daily: {}, monthly: {} };
+  private limits: SpendLimits = { daily: {}, monthly: {} };
+  private pricingOverrides: Record<string, ModelPricing> = {};
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load rollups and limits from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Price of a model, including prices reported by the provider
+   */
+  getPricing(model: string): ModelPricing | null {
+    return getModelPricing(model, this.pricingOverrides);
+  }
+
+  /**
+   * Use provider-reported pricing for a model
+   */
+  setModelPricing(model: string, pricing: ModelPricing): void {
+    this.pricingOverrides[model] = pricing;
+  }
+
+  /**
+   * Worst-case cost of a request before it is sent
+   */
+  estimateCost(model: string, promptTokens: number, maxCompletionTokens: number): number {
+    return calculateCost(this.getPricing(model), promptTokens, maxCompletionTokens);
+  }
+
+  /**
+   * Whether a daily or monthly hard cap is set
+   */
+  hasHardLimit(): boolean {
+    return this.limits.daily.hard !== undefined || this.limits.monthly.hard !== undefined;
+  }
+
+  /**
+   * Check a request's estimated cost against the daily and monthly caps
+   */
+  async checkBudget(estimatedCost: number): Promise<BudgetCheck> {
+    await this.load();
+
+    const warnings: string[] = [];
+    for (const period of ['daily', 'monthly'] as SpendPeriod[]) {
+      const cap = this.limits[period];
+      const spent = this.getCurrentRollup(period).cost;
+      const label = period === 'daily' ? 'Daily' : 'Monthly';
+
+      if (cap.hard !== undefined && spent + estimatedCost > cap.hard) {
+        return {
+          allowed: false,
+          reason: `${label} spend limit of ${formatCost(cap.hard)} reached (${formatCost(spent)} spent)`,
+          warnings,
+        };
+      }
+
+      if (cap.soft !== undefined && spent + estimatedCost >= cap.soft) {
+        warnings.push(`${label} spend is ${formatCost(spent)}, past the ${formatCost(cap.soft)} warning threshold`);
+      }
+    }
+
+    return { allowed: true, warnings };
+  }
+
+  /**
+   * Record the usage of a completed request and return its cost
+   */
+  async record(model: string, promptTokens: number, completionTokens: number): Promise<number> {
+    await this.load();
+
+    const cost = calculateCost(this.getPricing(model), promptTokens, completionTokens);
+    for (const period of ['daily', 'monthly'] as SpendPeriod[]) {
+      const rollup = this.getCurrentRollup(period);
+      this.addSpend(rollup, cost, promptTokens, completionTokens);
+      rollup.byModel[model] = rollup.byModel[model] || this.createSpend();
+      this.addSpend(rollup.byModel[model], cost, promptTokens, completionTokens);
+    }
+
+    this.pruneRollups();
+    await this.saveRollups();
+
+    return cost;
+  }
+
+  /**
+   * Current day and month spend with the configured limits
+   */
+  async getSummary(): Promise<SpendSummary> {
+    await this.load();
+
+    return {
+      daily: this.cloneRollup(this.getCurrentRollup('daily')),
+      monthly: this.cloneRollup(this.getCurrentRollup('monthly')),
+      limits: this.getLimits(),
+    };
+  }
+
+  getLimits(): SpendLimits {
+    return { daily: { ...this.limits.daily }, monthly: { ...this.limits.monthly } };
+  }
+
+  /**
+   * Update spend caps; pass undefined for a cap to remove it
+   */
+  async setLimits(limits: Partial<SpendLimits>): Promise<void> {
+    await this.load();
+
+    this.limits = {
+      daily: { ...this.limits.daily, ...limits.daily },
+      monthly: { ...this.limits.monthly, ...limits.monthly },
+    };
+
+    try {
+      await chrome.storage.local.set({ [SPEND_LIMITS_STORAGE_KEY]: this.limits });
+    } catch (error) {
+      console.error('Failed to save spend limits:', error);
+    }
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([SPEND_ROLLUPS_STORAGE_KEY, SPEND_LIMITS_STORAGE_KEY]);
+      const storedRollups = result[SPEND_ROLLUPS_STORAGE_KEY];
+      const storedLimits = result[SPEND_LIMITS_STORAGE_KEY];
+
+      if (storedRollups) {
+        this.rollups = {
+          daily: storedRollups.daily || {},
+          monthly: storedRollups.monthly || {},
+        };
+      }
+
+      if (storedLimits) {
+        this.limits = {
+          daily: storedLimits.daily || {},
+          monthly: storedLimits.monthly || {},
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load spend data:', error);
+    }
+  }
+
+  private async saveRollups(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [SPEND_ROLLUPS_STORAGE_KEY]: this.rollups });
+    } catch (error) {
+      console.error('Failed to save spend rollups:', error);
+    }
+  }
+
+  /**
+   * Get (or start) the rollup for the current day or month
+   */
+  private getCurrentRollup(period: SpendPeriod): SpendRollup {
+    const key = this.getPeriodKey(period, new Date());
+    const rollups = this.rollups[period];
+
+    if (!rollups[key]) {
+      rollups[key] = { period: key, ...this.createSpend(), byModel: {} };
+    }
+
+    return rollups[key];
+  }
+
+  /**
+   * Local-time period key: YYYY-MM-DD for days, YYYY-MM for months
+   */
+  private getPeriodKey(period: SpendPeriod, date: Date): string {
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return period === 'daily' ? `${month}-${String(date.getDate()).padStart(2, '0')}` : month;
+  }
+
+  /**
+   * Drop the oldest periods beyond the retention limits
+   */
+  private pruneRollups(): void {
+    const prune = (rollups: Record<string, SpendRollup>, keep: number) => {
+      Object.keys(rollups)
+        .sort()
+        .slice(0, -keep)
+        .forEach(key => delete rollups[key]);
+    };
+
+    prune(this.rollups.daily, MAX_DAILY_ROLLUPS);
+    prune(this.rollups.monthly, MAX_MONTHLY_ROLLUPS);
+  }
+
+  private createSpend(): ModelSpend {
+    return { cost: 0, promptTokens: 0, completionTokens: 0, requests: 0 };
+  }
+
+  private addSpend(spend: ModelSpend, cost: number, promptTokens: number, completionTokens: number): void {
+    spend.cost += cost;
+    spend.promptTokens += promptTokens;
+    spend.completionTokens += completionTokens;
+    spend.requests++;
+  }
+
+  private cloneRollup(rollup: SpendRollup): SpendRollup {
+    return JSON.parse(JSON.stringify(rollup));
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Per-model pricing tables and cost calculation
+ */
+
+import { ModelPricing } from './types';
+
+// Tokens per pricing unit (prices are quoted per million tokens)
+const TOKENS_PER_UNIT = 1_000_000;
+
+/**
+ * Known model prices in USD per million tokens
+ * Models that are not listed have no known price until the provider reports one
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'openai/gpt-4o': { prompt: 2.5, completion: 10 },
+  'openai/gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'anthropic/claude-3.5-sonnet': { prompt: 3, completion: 15 },
+  'anthropic/claude-3.5-haiku': { prompt: 0.8, completion: 4 },
+  'google/gemini-flash-1.5': { prompt: 0.075, completion: 0.3 },
+  'meta-llama/llama-3.1-70b-instruct': { prompt: 0.12, completion: 0.3 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+};
+
+const FREE_PRICING: ModelPricing = { prompt: 0, completion: 0 };
+
+/**
+ * Look up the price of a model, checking overrides first
+ * OpenRouter `:free` variants cost nothing; `vendor/model` ids also match bare model ids
+ */
+export function getModelPricing(
+  model: string,
+  overrides: Record<string, ModelPricing> = {}
+): ModelPricing | null {
+  if (overrides[model]) {
+    return overrides[model];
+  }
+
+  if (model.endsWith(':free')) {
+    return FREE_PRICING;
+  }
+
+  if (MODEL_PRICING[model]) {
+    return MODEL_PRICING[model];
+  }
+
+  const bareModel = model.includes('/') ? model.substring(model.indexOf('/') + 1) : model;
+  return MODEL_PRICING[bareModel] || null;
+}
+
+/**
+ * Cost of a request in USD; without pricing it counts as free
+ */
+export function calculateCost(pricing: ModelPricing | null, promptTokens: number, completionTokens: number): number {
+  if (!pricing) {
+    return 0;
+  }
+
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / TOKENS_PER_UNIT;
+}
+
+/**
+ * Convert OpenRouter `/models` pricing (USD per token, as strings) to per-million pricing
+ */
+export function parsePerTokenPricing(pricing: any): ModelPricing | undefined {
+  const prompt = parseFloat(pricing?.prompt);
+  const completion = parseFloat(pricing?.completion);
+  if (isNaN(prompt) || isNaN(completion)) {
+    return undefined;
+  }
+
+  return { prompt: prompt * TOKENS_PER_UNIT, completion: completion * TOKENS_PER_UNIT };
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,231 @@
+/**
+ * Streaming helpers for OpenRouter server-sent event responses
+ */
+
+import { OpenRouterToolCall, OpenRouterToolCallDelta } from '../shared/contracts';
+import { ParsedAICommand } from './types';
+
+export interface ExtractedCommand {
+  index: number;
+  command: ParsedAICommand;
+}
+
+/**
+ * Incremental parser for server-sent event streams
+ */
+export class SSEParser {
+  private buffer: string = '';
+  private dataLines: string[] = [];
+
+  /**
+   * Feed a decoded text chunk and return the payloads of all completed events
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const events: string[] = [];
+
+    let newlineIndex = this.buffer.search(/\r?\n/);
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      const lineEnd = this.buffer[newlineIndex] === '\r' ? newlineIndex + 2 : newlineIndex + 1;
+      this.buffer = this.buffer.slice(lineEnd);
+
+      if (line === '') {
+        // Blank line terminates the current event
+        if (this.dataLines.length > 0) {
+          events.push(this.dataLines.join('\n'));
+          this.dataLines = [];
+        }
+      } else if (line.startsWith('data:')) {
+        this.dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      // Comment lines (": keep-alive") and other fields are ignored
+
+      newlineIndex = this.buffer.search(/\r?\n/);
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush any event left without a terminating blank line
+   */
+  flush(): string[] {
+    const events = this.push('\n\n');
+    this.buffer = '';
+    return events;
+  }
+}
+
+/**
+ * Extracts command objects from a partially streamed JSON plan as soon as each one is complete
+ */
+export class StreamingCommandExtractor {
+  private text: string = '';
+  private position: number = 0;
+  private arrayStart: number = -1;
+  private depth: number = 0;
+  private inString: boolean = false;
+  private escaped: boolean = false;
+  private objectStart: number = -1;
+  private finished: boolean = false;
+  private emittedCount: number = 0;
+
+  /**
+   * Feed a content delta and return any newly completed commands
+   */
+  push(delta: string): ExtractedCommand[] {
+    this.text += delta;
+    const commands: ExtractedCommand[] = [];
+
+    if (this.finished) {
+      return commands;
+    }
+
+    if (this.arrayStart === -1 && !this.locateCommandsArray()) {
+      return commands;
+    }
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0 && char === '{') {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0 && char === ']') {
+          // End of the commands array
+          this.finished = true;
+          break;
+        }
+
+        this.depth--;
+        if (this.depth === 0 && char === '}' && this.objectStart !== -1) {
+          const command = this.parseCommand(this.text.slice(this.objectStart, this.position + 1));
+          if (command) {
+            commands.push({ index: this.emittedCount++, command });
+          }
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return commands;
+  }
+
+  /**
+   * Get the full text received so far
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Find the opening bracket of the "commands" array
+   */
+  private locateCommandsArray(): boolean {
+    const match = /"commands"\s*:\s*\[/.exec(this.text);
+    if (!match) {
+      return false;
+    }
+
+    this.arrayStart = match.index + match[0].length;
+    this.position = this.arrayStart;
+    return true;
+  }
+
+  /**
+   * Parse a single command object, ignoring malformed entries
+   */
+  private parseCommand(json: string): ParsedAICommand | null {
+    try {
+      const parsed = JSON.parse(json);
+      if (!parsed || typeof parsed.type !== 'string') {
+        return null;
+      }
+      return parsed as ParsedAICommand;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Assembles streamed tool call fragments into complete tool calls
+ */
+export class ToolCallAccumulator {
+  private calls: OpenRouterToolCall[] = [];
+  private emittedCount: number = 0;
+
+  /**
+   * Merge tool call deltas and return calls that can no longer change
+   */
+  push(deltas: OpenRouterToolCallDelta[]): OpenRouterToolCall[] {
+    for (const delta of deltas) {
+      const existing = this.calls[delta.index];
+      if (!existing) {
+        this.calls[delta.index] = {
+          id: delta.id || '',
+          type: 'function',
+          function: {
+            name: delta.function?.name || '',
+            arguments: delta.function?.arguments || '',
+          },
+        };
+        continue;
+      }
+
+      if (delta.id) {
+        existing.id = delta.id;
+      }
+      if (delta.function?.name) {
+        existing.function.name += delta.function.name;
+      }
+      if (delta.function?.arguments) {
+        existing.function.arguments += delta.function.arguments;
+      }
+    }
+
+    // A call is complete once the model has moved on to the next one
+    return this.release(this.calls.length - 1);
+  }
+
+  /**
+   * Release all remaining calls at the end of the stream
+   */
+  flush(): OpenRouterToolCall[] {
+    return this.release(this.calls.length);
+  }
+
+  /**
+   * Get all tool calls received so far
+   */
+  getToolCalls(): OpenRouterToolCall[] {
+    return this.calls.filter(Boolean);
+  }
+
+  private release(upTo: number): OpenRouterToolCall[] {
+    const released: OpenRouterToolCall[] = [];
+    for (; this.emittedCount < upTo; this.emittedCount++) {
+      if (this.calls[this.emittedCount]) {
+        released.push(this.calls[this.emittedCount]);
+      }
+    }
+    return released;
+  }
+}
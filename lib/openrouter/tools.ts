@@ -0,0 +1,471 @@
+/**
+ * Tool (function-calling) definitions for the automation command schema
+ */
+
+import { OpenRouterTool, OpenRouterToolCall } from '../shared/contracts';
+import { AICommandType, JSONSchema, ParsedAICommand, ParsedAIResponse } from './types';
+
+export const CLARIFICATION_TOOL_NAME = 'request_clarification';
+export const FINISH_TOOL_NAME = 'finish_task';
+
+// Confidence assumed for tool calls that do not report one
+const DEFAULT_TOOL_CONFIDENCE = 0.9;
+
+// Fields shared by every command
+const COMMON_PROPERTIES: Record<string, JSONSchema> = {
+  description: { type: 'string', description: 'Short human-readable description of the step' },
+  confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Confidence that this step is correct' },
+  timeout: { type: 'number', minimum: 0, description: 'Maximum time to wait for the step in milliseconds' },
+};
+
+// Locators by role and accessible name survive DOM changes that break generated CSS paths
+const selector = (description: string): JSONSchema => ({
+  type: 'string',
+  minLength: 1,
+  description: `${description}: a locator such as role=button[name="Save"], label=Email, placeholder=, alt=, title= or testid=, chained with >> and narrowed with nth=N, or a CSS selector`,
+});
+
+const INPUT_BACKEND_PROPERTY: JSONSchema = {
+  type: 'string',
+  enum: ['auto', 'synthetic', 'debugger'],
+  description: 'How to deliver the input: debugger for trusted input on pages that ignore synthetic events; omit to use the page default',
+};
+
+const REF_PROPERTY: JSONSchema = {
+  type: 'number',
+  minimum: 1,
+  description: 'Element ref from the page snapshot; preferred over selector when available',
+};
+
+/**
+ * Commands that must target an element through a selector or a snapshot ref
+ */
+export const TARGETED_COMMANDS: AICommandType[] = ['click', 'fill', 'select', 'hover', 'drag', 'upload'];
+
+/**
+ * Parameter schemas per command type
+ */
+export const COMMAND_SCHEMAS: Record<AICommandType, JSONSchema> = {
+  navigate: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', minLength: 1, description: 'Absolute URL to open' },
+      newTab: { type: 'boolean', description: 'Open the URL in a new tab' },
+    },
+    required: ['url'],
+  },
+  click: {
+    type: 'object',
+    properties: {
+      selector: selector('The element to click'),
+      ref: REF_PROPERTY,
+      text: { type: 'string', description: 'Visible text of the element, used as a fallback' },
+      inputBackend: INPUT_BACKEND_PROPERTY,
+    },
+  },
+  fill: {
+    type: 'object',
+    properties: {
+      selector: selector('The input to fill'),
+      ref: REF_PROPERTY,
+      value: { type: 'string', description: 'Text to enter' },
+      inputBackend: INPUT_BACKEND_PROPERTY,
+    },
+    required: ['value'],
+  },
+  scroll: {
+    type: 'object',
+    properties: {
+      direction: { type: 'string', enum: ['up', 'down', 'left', 'right'] },
+      amount: { type: ['number', 'string'], description: 'Pixels, or one of page, to_top, to_bottom, to_element' },
+      selector: selector('Element to scroll into view'),
+      ref: REF_PROPERTY,
+    },
+  },
+  submit: {
+    type: 'object',
+    properties: {
+      selector: selector('The form to submit'),
+      ref: REF_PROPERTY,
+    },
+  },
+  extract: {
+    type: 'object',
+    properties: {
+      selector: selector('The element to extract from'),
+      ref: REF_PROPERTY,
+      extractType: {
+        type: 'string',
+        enum: ['text', 'html', 'attributes', 'links', 'images', 'data'],
+        description: 'data reads repeated records (table rows, list items, cards) as a table',
+      },
+      outputFormat: { type: 'string', enum: ['json', 'text', 'csv', 'markdown'] },
+      recordSelector: { type: 'string', minLength: 1, description: 'For data: selector matching each record; detected when omitted' },
+      columns: {
+        type: 'array',
+        description: 'For data: columns to read from each record; inferred when omitted',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            selector: { type: 'string', description: 'Relative to the record, e.g. :scope > .price' },
+            attribute: { type: 'string', description: 'Read this attribute, e.g. href, instead of the text' },
+          },
+          required: ['name'],
+        },
+      },
+    },
+  },
+  wait: {
+    type: 'object',
+    properties: {
+      duration: { type: 'number', minimum: 0, description: 'Time to wait in milliseconds' },
+      selector: selector('Wait until this element appears'),
+      ref: REF_PROPERTY,
+    },
+  },
+  search: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1 },
+      searchEngine: { type: 'string', enum: ['google', 'bing', 'duckduckgo', 'custom'] },
+    },
+    required: ['query'],
+  },
+  login: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Login page URL, if navigation is needed' },
+      selector: selector('The login form'),
+      ref: REF_PROPERTY,
+    },
+  },
+  logout: {
+    type: 'object',
+    properties: {
+      selector: selector('The logout control'),
+      ref: REF_PROPERTY,
+    },
+  },
+  select: {
+    type: 'object',
+    properties: {
+      selector: selector('The select element'),
+      ref: REF_PROPERTY,
+      value: { type: 'string', description: 'Option label or value to select' },
+    },
+    required: ['value'],
+  },
+  hover: {
+    type: 'object',
+    properties: {
+      selector: selector('The element to hover'),
+      ref: REF_PROPERTY,
+      inputBackend: INPUT_BACKEND_PROPERTY,
+    },
+  },
+  drag: {
+    type: 'object',
+    properties: {
+      selector: selector('The element to drag'),
+      ref: REF_PROPERTY,
+      targetSelector: selector('The drop target'),
+      inputBackend: INPUT_BACKEND_PROPERTY,
+    },
+    required: ['targetSelector'],
+  },
+  upload: {
+    type: 'object',
+    properties: {
+      selector: selector('The file input'),
+      ref: REF_PROPERTY,
+      fileName: { type: 'string', minLength: 1 },
+    },
+    required: ['fileName'],
+  },
+  download: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'URL of the file to download' },
+      selector: selector('Link or button that starts the download'),
+      ref: REF_PROPERTY,
+      fileName: { type: 'string' },
+    },
+  },
+  screenshot: {
+    type: 'object',
+    properties: {
+      selector: selector('Limit the screenshot to this element'),
+      ref: REF_PROPERTY,
+      fullPage: { type: 'boolean' },
+      format: { type: 'string', enum: ['png', 'jpeg'] },
+    },
+  },
+};
+
+const TOOL_DESCRIPTIONS: Record<AICommandType, string> = {
+  navigate: 'Navigate the current tab to a URL',
+  click: 'Click an element on the page',
+  fill: 'Type a value into an input or textarea',
+  scroll: 'Scroll the page or an element',
+  submit: 'Submit a form',
+  extract: 'Extract content from the page',
+  wait: 'Wait for a duration or for an element to appear',
+  search: 'Search the web for a query',
+  login: 'Log in using the page login form',
+  logout: 'Log out of the current site',
+  select: 'Choose an option in a select element',
+  hover: 'Move the pointer over an element',
+  drag: 'Drag an element onto another element',
+  upload: 'Attach a file to a file input',
+  download: 'Download a file',
+  screenshot: 'Capture a screenshot of the page or an element',
+};
+
+const CLARIFICATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    question: { type: 'string', minLength: 1, description: 'Question to ask the user' },
+    alternatives: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Possible interpretations the user can choose from',
+    },
+  },
+  required: ['question'],
+};
+
+/**
+ * Tool definitions sent with command parsing requests
+ */
+export const AUTOMATION_TOOLS: OpenRouterTool[] = [
+  ...(Object.keys(COMMAND_SCHEMAS) as AICommandType[]).map(type => ({
+    type: 'function' as const,
+    function: {
+      name: type,
+      description: TOOL_DESCRIPTIONS[type],
+      parameters: {
+        ...COMMAND_SCHEMAS[type],
+        properties: { ...COMMAND_SCHEMAS[type].properties, ...COMMON_PROPERTIES },
+        required: [...(COMMAND_SCHEMAS[type].required || []), 'description'],
+      },
+    },
+  })),
+  {
+    type: 'function',
+    function: {
+      name: CLARIFICATION_TOOL_NAME,
+      description: 'Ask the user a question when the command is ambiguous',
+      parameters: CLARIFICATION_SCHEMA,
+    },
+  },
+];
+
+/**
+ * Tool definitions for agent loop steps, adding a "done" signal
+ */
+export const AGENT_TOOLS: OpenRouterTool[] = [
+  ...AUTOMATION_TOOLS,
+  {
+    type: 'function',
+    function: {
+      name: FINISH_TOOL_NAME,
+      description: 'Finish the task when the goal is achieved or cannot be achieved',
+      parameters: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', description: 'Whether the goal was achieved' },
+          summary: { type: 'string', minLength: 1, description: 'Short summary of the outcome' },
+        },
+        required: ['success', 'summary'],
+      },
+    },
+  },
+];
+
+/**
+ * Validate a value against a JSON schema, returning readable error messages
+ */
+export function validateAgainstSchema(value: any, schema: JSONSchema, path: string = ''): string[] {
+  const errors: string[] = [];
+  const label = path || 'value';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${label} must be of type ${types.join(' or ')}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${label} must not be empty`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items!, `${label}[${index}]`));
+    });
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const field of schema.required || []) {
+      if (value[field] === undefined || value[field] === null) {
+        errors.push(`${path ? `${path}.` : ''}${field} is required`);
+      }
+    }
+
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      if (value[field] !== undefined && value[field] !== null) {
+        errors.push(...validateAgainstSchema(value[field], fieldSchema, path ? `${path}.${field}` : field));
+      }
+    }
+
+    if (schema.additionalProperties === false && schema.properties) {
+      for (const field of Object.keys(value)) {
+        if (!(field in schema.properties)) {
+          errors.push(`${path ? `${path}.` : ''}${field} is not allowed`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Map a tool call onto an automation command
+ */
+export function toolCallToCommand(toolCall: OpenRouterToolCall): ParsedAICommand {
+  const type = toolCall.function.name as AICommandType;
+  if (!COMMAND_SCHEMAS[type]) {
+    throw new Error(`Unknown tool: ${toolCall.function.name}`);
+  }
+
+  const {
+    description,
+    confidence,
+    timeout,
+    selector,
+    ref,
+    value,
+    url,
+    text,
+    query,
+    direction,
+    amount,
+    duration,
+    extractType,
+    outputFormat,
+    inputBackend,
+    ...options
+  } = parseToolArguments(toolCall);
+
+  return {
+    type,
+    selector,
+    ref,
+    value,
+    url,
+    text,
+    query,
+    direction,
+    amount,
+    duration,
+    extractType,
+    outputFormat,
+    inputBackend,
+    description: description || TOOL_DESCRIPTIONS[type],
+    confidence,
+    timeout,
+    options: Object.keys(options).length > 0 ? options : undefined,
+  };
+}
+
+/**
+ * Build a parsed response from the tool calls of a completion
+ */
+export function parseToolCalls(toolCalls: OpenRouterToolCall[]): ParsedAIResponse {
+  const commands: ParsedAICommand[] = [];
+  let clarification: Record<string, any> | null = null;
+
+  for (const toolCall of toolCalls) {
+    if (toolCall.function.name === CLARIFICATION_TOOL_NAME) {
+      clarification = parseToolArguments(toolCall);
+      continue;
+    }
+    commands.push(toolCallToCommand(toolCall));
+  }
+
+  const confidences = commands.map(cmd => cmd.confidence ?? DEFAULT_TOOL_CONFIDENCE);
+  const confidence = confidences.length > 0
+    ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+    : 0;
+
+  return {
+    commands,
+    confidence,
+    requiresClarification: clarification !== null,
+    clarificationQuestion: clarification?.question,
+    alternativeCommands: clarification?.alternatives?.map((description: string) => ({
+      description,
+      commands: [],
+    })),
+  };
+}
+
+/**
+ * Check whether a tool call is a command rather than a clarification or control call
+ */
+export function isCommandToolCall(toolCall: OpenRouterToolCall): boolean {
+  return toolCall.function.name in COMMAND_SCHEMAS;
+}
+
+/**
+ * Parse the JSON arguments of a tool call
+ */
+export function parseToolArguments(toolCall: OpenRouterToolCall): Record<string, any> {
+  try {
+    const args = JSON.parse(toolCall.function.arguments || '{}');
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error('arguments must be an object');
+    }
+    return args;
+  } catch (error) {
+    throw new Error(
+      `Invalid arguments for tool ${toolCall.function.name}: ${error instanceof Error ? error.message : 'parse error'}`
+    );
+  }
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
@@ -2,7 +2,17 @@
  * OpenRouter API type definitions
  */
 
-import { OpenRouterMessage, OpenRouterRequest, OpenRouterResponse, RayError } from '../shared/contracts';
+import {
+  AnnotatedScreenshot,
+  OpenRouterMessage,
+  OpenRouterRequest,
+  OpenRouterResponse,
+  OpenRouterTool,
+  OpenRouterToolCall,
+  OpenRouterToolChoice,
+  RayError
+} from '../shared/contracts';
+import { SemanticCacheKey } from '../cache/cache-manager';
 
 // Enhanced request types for our specific use case
 export interface RayOpenRouterRequest extends OpenRouterRequest {
@@ -22,18 +32,50 @@ export interface RayOpenRouterResponse extends OpenRouterResponse {
   requestId: string;
   processingTime: number;
   cached: boolean;
+  cost?: number; // USD, from the model's pricing and reported usage
+  answeredBy: string; // model that produced the response, after any fallbacks
+  failedModels?: string[]; // models tried before it, in order
 }
 
+// Command types the model can produce
+export type AICommandType =
+  | 'navigate'
+  | 'click'
+  | 'fill'
+  | 'scroll'
+  | 'submit'
+  | 'extract'
+  | 'wait'
+  | 'search'
+  | 'login'
+  | 'logout'
+  | 'select'
+  | 'hover'
+  | 'drag'
+  | 'upload'
+  | 'download'
+  | 'screenshot';
+
 // Command parsing response from AI
 export interface ParsedAIResponse {
   commands: Array<{
-    type: 'navigate' | 'click' | 'fill' | 'scroll' | 'submit' | 'extract' | 'wait';
+    type: AICommandType;
     selector?: string;
+    ref?: number;
     value?: string;
     url?: string;
+    text?: string;
+    query?: string;
+    direction?: 'up' | 'down' | 'left' | 'right';
+    amount?: number | string;
+    duration?: number;
+    extractType?: 'text' | 'html' | 'attributes' | 'links' | 'images' | 'data';
+    outputFormat?: 'json' | 'text' | 'csv' | 'markdown';
+    inputBackend?: 'auto' | 'synthetic' | 'debugger'; // how clicks and typing reach the page
     description: string;
     confidence?: number;
     timeout?: number;
+    options?: Record<string, any>;
   }>;
   confidence: number;
   requiresClarification: boolean;
@@ -42,8 +84,12 @@ export interface ParsedAIResponse {
     description: string;
     commands: any[];
   }>;
+  answeredBy?: string; // model that produced the plan
 }
 
+// Single command entry from a parsed AI response
+export type ParsedAICommand = ParsedAIResponse['commands'][number];
+
 // API error response structure
 export interface OpenRouterAPIError {
   error: {
@@ -67,16 +113,37 @@ export interface RequestOptions {
   retries?: number;
   useCache?: boolean;
   priority?: 'low' | 'normal' | 'high';
+  stream?: boolean;
+  signal?: AbortSignal;
+  requestId?: string;
+  tools?: OpenRouterTool[];
+  toolChoice?: OpenRouterToolChoice;
+  vision?: boolean; // ground planning in an annotated screenshot
+  screenshot?: AnnotatedScreenshot;
+  model?: string; // pin a single model, skipping routing and fallback
+  complexity?: CommandComplexity; // selects the model route
+  semanticCache?: SemanticCacheKey; // cache by normalised command instead of exact messages
+  conversation?: OpenRouterMessage[]; // clarification turns that follow the command
 }
 
-// Cache entry for API responses
-export interface APIResponseCache {
-  [key: string]: {
-    response: RayOpenRouterResponse;
-    timestamp: number;
-    ttl: number;
-    hitCount: number;
-  };
+// Command complexity as scored by the command parser
+export type CommandComplexity = 'simple' | 'moderate' | 'complex';
+
+// Ordered model chains per command complexity
+export type ModelRoutes = Partial<Record<CommandComplexity, string[]>>;
+
+// Subset of JSON Schema used for tool parameters
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'>;
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  additionalProperties?: boolean;
 }
 
 // API client configuration
@@ -91,13 +158,41 @@ export interface OpenRouterClientConfig {
   enableCache?: boolean;
   cacheSize?: number;
   cacheTTL?: number;
+  enableToolCalling?: boolean;
+  enableStreaming?: boolean;
+  headers?: Record<string, string>;
+  modelRoutes?: ModelRoutes; // tried before the configured model
+  fallbackModels?: string[]; // tried after it
 }
 
 // Error handling types
-export interface OpenRouterError extends RayError {
-  type: 'network' | 'api' | 'rate_limit' | 'timeout' | 'auth' | 'quota' | 'validation';
+export interface OpenRouterErrorInit extends RayError {
+  type: 'network' | 'api' | 'rate_limit' | 'timeout' | 'auth' | 'quota' | 'validation' | 'cancelled';
+  statusCode?: number;
+  rateLimitInfo?: RateLimitInfo;
+}
+
+/**
+ * Error thrown by the OpenRouter client; carries the RayError fields so it can be reported as-is
+ */
+export class OpenRouterError extends Error implements OpenRouterErrorInit {
+  code: string;
+  details?: any;
+  timestamp: number;
+  type: OpenRouterErrorInit['type'];
   statusCode?: number;
   rateLimitInfo?: RateLimitInfo;
+
+  constructor(init: OpenRouterErrorInit) {
+    super(init.message);
+    this.name = 'OpenRouterError';
+    this.code = init.code;
+    this.details = init.details;
+    this.timestamp = init.timestamp;
+    this.type = init.type;
+    this.statusCode = init.statusCode;
+    this.rateLimitInfo = init.rateLimitInfo;
+  }
 }
 
 // Response validation result
@@ -115,10 +210,56 @@ export interface UsageStats {
   failedRequests: number;
   cachedRequests: number;
   totalTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalCost: number;
   averageResponseTime: number;
   lastRequestTime: number;
 }
 
+// Model pricing in USD per million tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+// Hard caps refuse requests, soft caps only warn (USD)
+export interface SpendCap {
+  soft?: number;
+  hard?: number;
+}
+
+export interface SpendLimits {
+  daily: SpendCap;
+  monthly: SpendCap;
+}
+
+export interface ModelSpend {
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+// Spend for one day (YYYY-MM-DD) or month (YYYY-MM)
+export interface SpendRollup extends ModelSpend {
+  period: string;
+  byModel: Record<string, ModelSpend>;
+}
+
+export interface SpendSummary {
+  daily: SpendRollup;
+  monthly: SpendRollup;
+  limits: SpendLimits;
+}
+
+// Outcome of checking a request against the spend caps
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  warnings: string[];
+}
+
 // Event types for monitoring
 export type OpenRouterEvent = 
   | { type: 'request_start'; data: { requestId: string; prompt: string } }
@@ -126,13 +267,28 @@ export type OpenRouterEvent =
   | { type: 'request_error'; data: { requestId: string; error: OpenRouterError } }
   | { type: 'cache_hit'; data: { requestId: string; cacheKey: string } }
   | { type: 'rate_limit'; data: { retryAfter: number } }
-  | { type: 'quota_exceeded'; data: { resetTime: number } };
+  | { type: 'quota_exceeded'; data: { resetTime: number } }
+  | { type: 'spend_warning'; data: { requestId: string; message: string } }
+  | { type: 'model_fallback'; data: { requestId: string; from: string; to: string; reason: string } }
+  | { type: 'stream_chunk'; data: { requestId: string; delta: string } }
+  | { type: 'stream_tool_call'; data: { requestId: string; index: number; toolCall: OpenRouterToolCall } }
+  | { type: 'stream_command'; data: { requestId: string; index: number; command: ParsedAICommand } };
 
 // Event listener type
 export type OpenRouterEventListener = (event: OpenRouterEvent) => void; * OpenRouter API type definitions
  */
 
-import { OpenRouterMessage, OpenRouterRequest, OpenRouterResponse, RayError } from '../shared/contracts';
+import {
+  AnnotatedScreenshot,
+  OpenRouterMessage,
+  OpenRouterRequest,
+  OpenRouterResponse,
+  OpenRouterTool,
+  OpenRouterToolCall,
+  OpenRouterToolChoice,
+  RayError
+} from '../shared/contracts';
+import { SemanticCacheKey } from '../cache/cache-manager';
 
 // Enhanced request types for our specific use case
 export interface RayOpenRouterRequest extends OpenRouterRequest {
@@ -152,18 +308,50 @@ export interface RayOpenRouterResponse extends OpenRouterResponse {
   requestId: string;
   processingTime: number;
   cached: boolean;
+  cost?: number; // USD, from the model's pricing and reported usage
+  answeredBy: string; // model that produced the response, after any fallbacks
+  failedModels?: string[]; // models tried before it, in order
 }
 
+// Command types the model can produce
+export type AICommandType =
+  | 'navigate'
+  | 'click'
+  | 'fill'
+  | 'scroll'
+  | 'submit'
+  | 'extract'
+  | 'wait'
+  | 'search'
+  | 'login'
+  | 'logout'
+  | 'select'
+  | 'hover'
+  | 'drag'
+  | 'upload'
+  | 'download'
+  | 'screenshot';
+
 // Command parsing response from AI
 export interface ParsedAIResponse {
   commands: Array<{
-    type: 'navigate' | 'click' | 'fill' | 'scroll' | 'submit' | 'extract' | 'wait';
+    type: AICommandType;
     selector?: string;
+    ref?: number;
     value?: string;
     url?: string;
+    text?: string;
+    query?: string;
+    direction?: 'up' | 'down' | 'left' | 'right';
+    amount?: number | string;
+    duration?: number;
+    extractType?: 'text' | 'html' | 'attributes' | 'links' | 'images' | 'data';
+    outputFormat?: 'json' | 'text' | 'csv' | 'markdown';
+    inputBackend?: 'auto' | 'synthetic' | 'debugger'; // how clicks and typing reach the page
     description: string;
     confidence?: number;
     timeout?: number;
+    options?: Record<string, any>;
   }>;
   confidence: number;
   requiresClarification: boolean;
@@ -172,8 +360,12 @@ export interface ParsedAIResponse {
     description: string;
     commands: any[];
   }>;
+  answeredBy?: string; // model that produced the plan
 }
 
+// Single command entry from a parsed AI response
+export type ParsedAICommand = ParsedAIResponse['commands'][number];
+
 // API error response structure
 export interface OpenRouterAPIError {
   error: {
@@ -197,16 +389,37 @@ export interface RequestOptions {
   retries?: number;
   useCache?: boolean;
   priority?: 'low' | 'normal' | 'high';
+  stream?: boolean;
+  signal?: AbortSignal;
+  requestId?: string;
+  tools?: OpenRouterTool[];
+  toolChoice?: OpenRouterToolChoice;
+  vision?: boolean; // ground planning in an annotated screenshot
+  screenshot?: AnnotatedScreenshot;
+  model?: string; // pin a single model, skipping routing and fallback
+  complexity?: CommandComplexity; // selects the model route
+  semanticCache?: SemanticCacheKey; // cache by normalised command instead of exact messages
+  conversation?: OpenRouterMessage[]; // clarification turns that follow the command
 }
 
-// Cache entry for API responses
-export interface APIResponseCache {
-  [key: string]: {
-    response: RayOpenRouterResponse;
-    timestamp: number;
-    ttl: number;
-    hitCount: number;
-  };
+// Command complexity as scored by the command parser
+export type CommandComplexity = 'simple' | 'moderate' | 'complex';
+
+// Ordered model chains per command complexity
+export type ModelRoutes = Partial<Record<CommandComplexity, string[]>>;
+
+// Subset of JSON Schema used for tool parameters
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'>;
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  additionalProperties?: boolean;
 }
 
 // API client configuration
@@ -221,13 +434,41 @@ export interface OpenRouterClientConfig {
   enableCache?: boolean;
   cacheSize?: number;
   cacheTTL?: number;
+  enableToolCalling?: boolean;
+  enableStreaming?: boolean;
+  headers?: Record<string, string>;
+  modelRoutes?: ModelRoutes; // tried before the configured model
+  fallbackModels?: string[]; // tried after it
 }
 
 // Error handling types
-export interface OpenRouterError extends RayError {
-  type: 'network' | 'api' | 'rate_limit' | 'timeout' | 'auth' | 'quota' | 'validation';
+export interface OpenRouterErrorInit extends RayError {
+  type: 'network' | 'api' | 'rate_limit' | 'timeout' | 'auth' | 'quota' | 'validation' | 'cancelled';
+  statusCode?: number;
+  rateLimitInfo?: RateLimitInfo;
+}
+
+/**
+ * Error thrown by the OpenRouter client; carries the RayError fields so it can be reported as-is
+ */
+export class OpenRouterError extends Error implements OpenRouterErrorInit {
+  code: string;
+  details?: any;
+  timestamp: number;
+  type: OpenRouterErrorInit['type'];
   statusCode?: number;
   rateLimitInfo?: RateLimitInfo;
+
+  constructor(init: OpenRouterErrorInit) {
+    super(init.message);
+    this.name = 'OpenRouterError';
+    this.code = init.code;
+    this.details = init.details;
+    this.timestamp = init.timestamp;
+    this.type = init.type;
+    this.statusCode = init.statusCode;
+    this.rateLimitInfo = init.rateLimitInfo;
+  }
 }
 
 // Response validation result
@@ -245,10 +486,56 @@ export interface UsageStats {
   failedRequests: number;
   cachedRequests: number;
   totalTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalCost: number;
   averageResponseTime: number;
   lastRequestTime: number;
 }
 
+// Model pricing in USD per million tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+// Hard caps refuse requests, soft caps only warn (USD)
+export interface SpendCap {
+  soft?: number;
+  hard?: number;
+}
+
+export interface SpendLimits {
+  daily: SpendCap;
+  monthly: SpendCap;
+}
+
+export interface ModelSpend {
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+// Spend for one day (YYYY-MM-DD) or month (YYYY-MM)
+export interface SpendRollup extends ModelSpend {
+  period: string;
+  byModel: Record<string, ModelSpend>;
+}
+
+export interface SpendSummary {
+  daily: SpendRollup;
+  monthly: SpendRollup;
+  limits: SpendLimits;
+}
+
+// Outcome of checking a request against the spend caps
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  warnings: string[];
+}
+
 // Event types for monitoring
 export type OpenRouterEvent = 
   | { type: 'request_start'; data: { requestId: string; prompt: string } }
@@ -256,7 +543,12 @@ export type OpenRouterEvent =
   | { type: 'request_error'; data: { requestId: string; error: OpenRouterError } }
   | { type: 'cache_hit'; data: { requestId: string; cacheKey: string } }
   | { type: 'rate_limit'; data: { retryAfter: number } }
-  | { type: 'quota_exceeded'; data: { resetTime: number } };
+  | { type: 'quota_exceeded'; data: { resetTime: number } }
+  | { type: 'spend_warning'; data: { requestId: string; message: string } }
+  | { type: 'model_fallback'; data: { requestId: string; from: string; to: string; reason: string } }
+  | { type: 'stream_chunk'; data: { requestId: string; delta: string } }
+  | { type: 'stream_tool_call'; data: { requestId: string; index: number; toolCall: OpenRouterToolCall } }
+  | { type: 'stream_command'; data: { requestId: string; index: number; command: ParsedAICommand } };
 
 // Event listener type
 export type OpenRouterEventListener = (event: OpenRouterEvent) => void;
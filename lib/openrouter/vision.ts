@@ -0,0 +1,97 @@
+/**
+ * Helpers for screenshot-grounded (vision) command planning
+ */
+
+import { AnnotatedScreenshot, OpenRouterContentPart, OpenRouterMessage } from '../shared/contracts';
+import { ParsedAICommand } from './types';
+
+// Confidence assigned to commands read from plain "click 14" style replies
+const NUMBERED_REPLY_CONFIDENCE = 0.7;
+
+interface NumberedReplyPattern {
+  pattern: RegExp;
+  type: 'click' | 'fill' | 'hover' | 'extract' | 'scroll';
+  refGroup: number;
+  valueGroup?: number;
+}
+
+const NUMBERED_REPLY_PATTERNS: NumberedReplyPattern[] = [
+  { pattern: /^(?:click|tap|press)\s+(?:on\s+)?(?:box\s+|element\s+)?#?(\d+)$/i, type: 'click', refGroup: 1 },
+  { pattern: /^(?:fill|type)\s+(?:box\s+|element\s+)?#?(\d+)\s+with\s+(.+)$/i, type: 'fill', refGroup: 1, valueGroup: 2 },
+  { pattern: /^type\s+(.+?)\s+into\s+(?:box\s+|element\s+)?#?(\d+)$/i, type: 'fill', refGroup: 2, valueGroup: 1 },
+  { pattern: /^hover\s+(?:over\s+)?(?:box\s+|element\s+)?#?(\d+)$/i, type: 'hover', refGroup: 1 },
+  { pattern: /^(?:extract|read)\s+(?:box\s+|element\s+)?#?(\d+)$/i, type: 'extract', refGroup: 1 },
+  { pattern: /^scroll\s+to\s+(?:box\s+|element\s+)?#?(\d+)$/i, type: 'scroll', refGroup: 1 },
+];
+
+/**
+ * Combine the prompt text, element legend and annotated screenshot into one user message
+ */
+export function buildVisionContent(text: string, screenshot: AnnotatedScreenshot): OpenRouterContentPart[] {
+  return [
+    {
+      type: 'text',
+      text: `${text}\n\nNumbered elements on the screenshot (use the number as ref):\n${screenshot.legend}`,
+    },
+    { type: 'image_url', image_url: { url: screenshot.image, detail: 'high' } },
+  ];
+}
+
+/**
+ * Get the text of a message, ignoring image parts
+ */
+export function getMessageText(content: OpenRouterMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Read plain replies such as "click 14" or "fill 3 with hello" as ref-targeted commands
+ * Returns an empty list when any line is not a numbered action
+ */
+export function parseNumberedReply(content: string): ParsedAICommand[] {
+  const lines = content
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:\d+[.)]\s+|[-*]\s+)/, '').replace(/[.`]+$/, '').trim())
+    .filter(Boolean);
+
+  const commands: ParsedAICommand[] = [];
+  for (const line of lines) {
+    const command = parseNumberedLine(line);
+    if (!command) {
+      return [];
+    }
+    commands.push(command);
+  }
+
+  return commands;
+}
+
+function parseNumberedLine(line: string): ParsedAICommand | null {
+  for (const { pattern, type, refGroup, valueGroup } of NUMBERED_REPLY_PATTERNS) {
+    const match = line.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    return {
+      type,
+      ref: Number(match[refGroup]),
+      value: valueGroup ? stripQuotes(match[valueGroup]) : undefined,
+      description: line,
+      confidence: NUMBERED_REPLY_CONFIDENCE,
+    };
+  }
+
+  return null;
+}
+
+function stripQuotes(value: string): string {
+  return value.trim().replace(/^["'](.*)["']$/, '$1');
+}
@@ -0,0 +1,160 @@
+/**
+ * Prompt building and decision parsing for the observe–act agent loop
+ */
+
+import { AnnotatedScreenshot, OpenRouterMessage, PageObservation } from '../shared/contracts';
+import { OPENROUTER_CONFIG } from '../openrouter/config';
+import { ParsedAICommand, RayOpenRouterResponse } from '../openrouter/types';
+import { FINISH_TOOL_NAME, parseToolArguments, parseToolCalls } from '../openrouter/tools';
+import { buildVisionContent, parseNumberedReply } from '../openrouter/vision';
+import { AgentTranscriptStep } from './context-manager';
+
+// What the model decided to do next
+export interface AgentDecision {
+  done: boolean;
+  success?: boolean;
+  summary?: string;
+  command?: ParsedAICommand;
+  clarificationQuestion?: string;
+}
+
+// Limits keeping the prompt compact
+const MAX_RESULT_LENGTH = 300;
+
+/**
+ * Build the messages for the next agent step, attaching the annotated screenshot in vision mode
+ */
+export function buildAgentMessages(
+  goal: string,
+  observation: PageObservation,
+  previousSteps: AgentTranscriptStep[],
+  step: number,
+  maxSteps: number,
+  screenshot?: AnnotatedScreenshot
+): OpenRouterMessage[] {
+  const sections = [
+    `Goal: ${goal}`,
+    `Step ${step} of ${maxSteps}`,
+  ];
+
+  if (previousSteps.length > 0) {
+    sections.push(`Previous steps:\n${previousSteps.map(formatStep).join('\n')}`);
+  }
+
+  sections.push(`Current page:\n${formatObservation(observation)}`);
+
+  const text = sections.join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: screenshot
+        ? `${OPENROUTER_CONFIG.AGENT_SYSTEM_PROMPT}\n\n${OPENROUTER_CONFIG.VISION_PROMPT}`
+        : OPENROUTER_CONFIG.AGENT_SYSTEM_PROMPT,
+    },
+    { role: 'user', content: screenshot ? buildVisionContent(text, screenshot) : text },
+  ];
+}
+
+/**
+ * Read the model's decision from a tool call or JSON content response
+ */
+export function parseAgentDecision(response: RayOpenRouterResponse): AgentDecision {
+  const message = response.choices[0]?.message;
+  const toolCalls = message?.tool_calls || [];
+
+  if (toolCalls.length > 0) {
+    const finishCall = toolCalls.find(call => call.function.name === FINISH_TOOL_NAME);
+    if (finishCall) {
+      const args = parseToolArguments(finishCall);
+      return { done: true, success: args.success !== false, summary: args.summary };
+    }
+
+    const parsed = parseToolCalls(toolCalls);
+    return {
+      done: false,
+      command: parsed.commands[0],
+      clarificationQuestion: parsed.requiresClarification ? parsed.clarificationQuestion : undefined,
+    };
+  }
+
+  const content = message?.content || '';
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    // Vision replies may just name a box, e.g. "click 14"
+    const [numberedCommand] = parseNumberedReply(content);
+    if (numberedCommand) {
+      return { done: false, command: numberedCommand };
+    }
+    throw new Error('Agent response contained no action');
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  if (parsed.done === true) {
+    return { done: true, success: parsed.success !== false, summary: parsed.summary };
+  }
+
+  // Accept a single command or the regular plan format, taking only the next step
+  const command = parsed.command || (Array.isArray(parsed.commands) ? parsed.commands[0] : undefined);
+  return {
+    done: false,
+    command,
+    clarificationQuestion: parsed.requiresClarification ? parsed.clarificationQuestion : undefined,
+  };
+}
+
+/**
+ * Summarize a previous step on one line
+ */
+function formatStep(step: AgentTranscriptStep): string {
+  if (step.clarification) {
+    return `${step.step}. asked "${step.clarification.question}" -> answer: ${step.clarification.answer ?? 'none'}`;
+  }
+
+  const action = step.action
+    ? `${step.action.type}${step.action.ref !== undefined ? ` ref=${step.action.ref}` : ''}` +
+      `${step.action.selector ? ` ${step.action.selector}` : ''}${step.action.url ? ` ${step.action.url}` : ''}` +
+      (step.action.description ? ` (${step.action.description})` : '')
+    : 'no action';
+
+  const outcome = step.error
+    ? `failed: ${step.error}`
+    : `ok${step.result !== undefined ? `: ${truncate(JSON.stringify(step.result), MAX_RESULT_LENGTH)}` : ''}`;
+
+  return `${step.step}. ${action} -> ${outcome}`;
+}
+
+/**
+ * Render the page observation for the prompt
+ */
+function formatObservation(observation: PageObservation): string {
+  const lines = [
+    `URL: ${observation.url}`,
+    `Title: ${observation.title}`,
+  ];
+
+  if (observation.tree) {
+    lines.push('Page structure:', observation.tree);
+  } else if (observation.elements.length === 0) {
+    lines.push('Interactive elements: none found');
+  } else {
+    lines.push('Interactive elements:');
+    for (const element of observation.elements) {
+      const details = [
+        element.role && `role=${element.role}`,
+        element.type && `type=${element.type}`,
+        element.name && `name=${element.name}`,
+        element.placeholder && `placeholder="${element.placeholder}"`,
+        element.href && `href=${truncate(element.href, 80)}`,
+      ].filter(Boolean).join(' ');
+
+      lines.push(`- ${element.selector} <${element.tag}>${element.text ? ` "${element.text}"` : ''}${details ? ` ${details}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
@@ -7,9 +7,11 @@ import {
   AutomationCommand, 
   UIStatus, 
   AgentMessage,
-  CacheEntry
+  CacheEntry,
+  PageObservation
 } from '../shared/contracts';
 import { EnhancedParsedCommand } from '../commands/types';
+import { ParsedAICommand } from '../openrouter/types';
 
 export interface ContextManagerConfig {
   maxHistorySize: number;
@@ -18,6 +20,27 @@ export interface ContextManagerConfig {
   storageKey: string;
 }
 
+// One observe–act iteration of the agent loop
+export interface AgentTranscriptStep {
+  step: number;
+  observation: PageObservation;
+  action?: ParsedAICommand;
+  result?: any;
+  error?: string;
+  clarification?: { question: string; answer?: string }; // asked instead of acting, with the user's reply
+  timestamp: number;
+}
+
+export interface AgentTranscript {
+  contextId: string;
+  goal: string;
+  status: 'running' | 'done' | 'failed' | 'max_steps' | 'cancelled' | 'needs_clarification' | 'needs_confirmation';
+  steps: AgentTranscriptStep[];
+  summary?: string;
+  startTime: number;
+  endTime?: number;
+}
+
 export class ContextManager {
   private config: ContextManagerConfig;
   private contexts: Map<string, ExecutionContext> = new Map();
@@ -25,6 +48,7 @@ export class ContextManager {
   private commandHistory: AutomationCommand[] = [];
   private statusHistory: UIStatus[] = [];
   private messageCache: Map<string, AgentMessage> = new Map();
+  private transcripts: Map<string, AgentTranscript> = new Map();
 
   constructor(config: Partial<ContextManagerConfig> = {}) {
     this.config = {
@@ -143,6 +167,87 @@ export class ContextManager {
     this.persistContexts();
   }
 
+  /**
+   * Start an agent transcript for a context
+   */
+  startTranscript(contextId: string, goal: string): AgentTranscript {
+    const transcript: AgentTranscript = {
+      contextId,
+      goal,
+      status: 'running',
+      steps: [],
+      startTime: Date.now(),
+    };
+
+    this.transcripts.set(contextId, transcript);
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Append a step to an agent transcript
+   */
+  addTranscriptStep(contextId: string, step: AgentTranscriptStep): void {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript) {
+      return;
+    }
+
+    transcript.steps.push(step);
+    this.persistContexts();
+  }
+
+  /**
+   * Mark an agent transcript as finished
+   */
+  completeTranscript(
+    contextId: string,
+    status: AgentTranscript['status'],
+    summary?: string
+  ): AgentTranscript | null {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript) {
+      return null;
+    }
+
+    transcript.status = status;
+    transcript.summary = summary;
+    transcript.endTime = Date.now();
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Continue a transcript that stopped for clarification, recording the user's answer
+   */
+  resumeTranscript(contextId: string, answer: string): AgentTranscript | null {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript || transcript.status !== 'needs_clarification') {
+      return null;
+    }
+
+    const lastStep = transcript.steps[transcript.steps.length - 1];
+    if (lastStep?.clarification) {
+      lastStep.clarification.answer = answer;
+    }
+
+    transcript.status = 'running';
+    transcript.summary = undefined;
+    transcript.endTime = undefined;
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Get the agent transcript for a context
+   */
+  getTranscript(contextId: string): AgentTranscript | null {
+    return this.transcripts.get(contextId) || null;
+  }
+
   /**
    * Set variable in context
    */
@@ -296,6 +401,7 @@ export class ContextManager {
 
     for (const id of expiredContexts) {
       this.contexts.delete(id);
+      this.transcripts.delete(id);
     }
 
     if (expiredContexts.length > 0) {
@@ -327,6 +433,7 @@ export class ContextManager {
       globalVariables: Array.from(this.globalVariables.entries()),
       commandHistory: this.commandHistory,
       statusHistory: this.statusHistory,
+      transcripts: Array.from(this.transcripts.values()),
     };
   }
 
@@ -366,6 +473,12 @@ export class ContextManager {
     if (data.statusHistory) {
       this.statusHistory = data.statusHistory;
     }
+
+    if (data.transcripts) {
+      this.transcripts = new Map(
+        data.transcripts.map((transcript: AgentTranscript) => [transcript.contextId, transcript])
+      );
+    }
   }
 
   /**
@@ -430,6 +543,7 @@ export class ContextManager {
     this.commandHistory = [];
     this.statusHistory = [];
     this.messageCache.clear();
+    this.transcripts.clear();
     this.persistContexts();
   }
 
@@ -466,9 +580,11 @@ import {
   AutomationCommand, 
   UIStatus, 
   AgentMessage,
-  CacheEntry
+  CacheEntry,
+  PageObservation
 } from '../shared/contracts';
 import { EnhancedParsedCommand } from '../commands/types';
+import { ParsedAICommand } from '../openrouter/types';
 
 export interface ContextManagerConfig {
   maxHistorySize: number;
@@ -477,6 +593,27 @@ export interface ContextManagerConfig {
   storageKey: string;
 }
 
+// One observe–act iteration of the agent loop
+export interface AgentTranscriptStep {
+  step: number;
+  observation: PageObservation;
+  action?: ParsedAICommand;
+  result?: any;
+  error?: string;
+  clarification?: { question: string; answer?: string }; // asked instead of acting, with the user's reply
+  timestamp: number;
+}
+
+export interface AgentTranscript {
+  contextId: string;
+  goal: string;
+  status: 'running' | 'done' | 'failed' | 'max_steps' | 'cancelled' | 'needs_clarification' | 'needs_confirmation';
+  steps: AgentTranscriptStep[];
+  summary?: string;
+  startTime: number;
+  endTime?: number;
+}
+
 export class ContextManager {
   private config: ContextManagerConfig;
   private contexts: Map<string, ExecutionContext> = new Map();
@@ -484,6 +621,7 @@ export class ContextManager {
   private commandHistory: AutomationCommand[] = [];
   private statusHistory: UIStatus[] = [];
   private messageCache: Map<string, AgentMessage> = new Map();
+  private transcripts: Map<string, AgentTranscript> = new Map();
 
   constructor(config: Partial<ContextManagerConfig> = {}) {
     this.config = {
@@ -602,6 +740,87 @@ export class ContextManager {
     this.persistContexts();
   }
 
+  /**
+   * Start an agent transcript for a context
+   */
+  startTranscript(contextId: string, goal: string): AgentTranscript {
+    const transcript: AgentTranscript = {
+      contextId,
+      goal,
+      status: 'running',
+      steps: [],
+      startTime: Date.now(),
+    };
+
+    this.transcripts.set(contextId, transcript);
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Append a step to an agent transcript
+   */
+  addTranscriptStep(contextId: string, step: AgentTranscriptStep): void {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript) {
+      return;
+    }
+
+    transcript.steps.push(step);
+    this.persistContexts();
+  }
+
+  /**
+   * Mark an agent transcript as finished
+   */
+  completeTranscript(
+    contextId: string,
+    status: AgentTranscript['status'],
+    summary?: string
+  ): AgentTranscript | null {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript) {
+      return null;
+    }
+
+    transcript.status = status;
+    transcript.summary = summary;
+    transcript.endTime = Date.now();
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Continue a transcript that stopped for clarification, recording the user's answer
+   */
+  resumeTranscript(contextId: string, answer: string): AgentTranscript | null {
+    const transcript = this.transcripts.get(contextId);
+    if (!transcript || transcript.status !== 'needs_clarification') {
+      return null;
+    }
+
+    const lastStep = transcript.steps[transcript.steps.length - 1];
+    if (lastStep?.clarification) {
+      lastStep.clarification.answer = answer;
+    }
+
+    transcript.status = 'running';
+    transcript.summary = undefined;
+    transcript.endTime = undefined;
+    this.persistContexts();
+
+    return transcript;
+  }
+
+  /**
+   * Get the agent transcript for a context
+   */
+  getTranscript(contextId: string): AgentTranscript | null {
+    return this.transcripts.get(contextId) || null;
+  }
+
   /**
    * Set variable in context
    */
@@ -755,6 +974,7 @@ export class ContextManager {
 
     for (const id of expiredContexts) {
       this.contexts.delete(id);
+      this.transcripts.delete(id);
     }
 
     if (expiredContexts.length > 0) {
@@ -786,6 +1006,7 @@ export class ContextManager {
       globalVariables: Array.from(this.globalVariables.entries()),
       commandHistory: this.commandHistory,
       statusHistory: this.statusHistory,
+      transcripts: Array.from(this.transcripts.values()),
     };
   }
 
@@ -825,6 +1046,12 @@ export class ContextManager {
     if (data.statusHistory) {
       this.statusHistory = data.statusHistory;
     }
+
+    if (data.transcripts) {
+      this.transcripts = new Map(
+        data.transcripts.map((transcript: AgentTranscript) => [transcript.contextId, transcript])
+      );
+    }
   }
 
   /**
@@ -889,6 +1116,7 @@ export class ContextManager {
     this.commandHistory = [];
     this.statusHistory = [];
     this.messageCache.clear();
+    this.transcripts.clear();
     this.persistContexts();
   }
 
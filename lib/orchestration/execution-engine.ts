@@ -10,6 +10,8 @@ import {
   RayError
 } from '../shared/contracts';
 import { EnhancedParsedCommand } from '../commands/types';
+import { actionabilityGate } from '../actionability';
+import { debuggerInput } from '../debugger-input';
 import { ContextManager } from './context-manager';
 
 export interface ExecutionEngineConfig {
@@ -94,7 +96,8 @@ export class ExecutionEngine {
   async executeCommands(
     commands: EnhancedParsedCommand[],
     contextId: string,
-    priority: ExecutionRequest['priority'] = 'normal'
+    priority: ExecutionRequest['priority'] = 'normal',
+    signal?: AbortSignal
   ): Promise<ExecutionResult> {
     // Convert parsed commands to automation commands
     const automationCommands = commands.map(cmd => this.convertToAutomationCommand(cmd));
@@ -106,7 +109,7 @@ export class ExecutionEngine {
       priority,
     };
 
-    return this.executeRequest(request);
+    return this.executeRequest(request, signal);
   }
 
   /**
@@ -210,7 +213,7 @@ export class ExecutionEngine {
   /**
    * Execute request
    */
-  private async executeRequest(request: ExecutionRequest): Promise<ExecutionResult> {
+  private async executeRequest(request: ExecutionRequest, signal?: AbortSignal): Promise<ExecutionResult> {
     return new Promise((resolve, reject) => {
       // Add to queue
       this.executionQueue.push(request);
@@ -223,6 +226,22 @@ export class ExecutionEngine {
 
       // Set up result handler
       const checkResult = () => {
+        // The caller gave up; drop the request if it is still queued, otherwise cancel it
+        if (signal?.aborted) {
+          this.executionQueue = this.executionQueue.filter(queued => queued !== request);
+          const execution = this.activeExecutions.get(request.id);
+          this.cancelExecution(request.id).then(() => resolve(execution ?? {
+            id: request.id,
+            contextId: request.contextId,
+            status: 'cancelled',
+            startTime: Date.now(),
+            endTime: Date.now(),
+            results: [],
+            errors: [],
+          }));
+          return;
+        }
+
         const result = this.activeExecutions.get(request.id);
         if (result && (result.status === 'completed' || result.status === 'failed' || result.status === 'cancelled')) {
           resolve(result);
@@ -438,7 +457,7 @@ export class ExecutionEngine {
 
     try {
       // Send command to content script for execution
-      const result = await this.sendCommandToContentScript(command, context.tabId);
+      const result = await this.dispatchCommand(command, context.tabId);
       
       commandResult.status = 'completed';
       commandResult.endTime = Date.now();
@@ -466,6 +485,65 @@ export class ExecutionEngine {
     }
   }
 
+  /**
+   * Run clicks and fills as synthetic events in the content script, or as trusted input
+   * through the debugger when the command or the page's origin asks for it
+   */
+  private async dispatchCommand(command: AutomationCommand, tabId?: number): Promise<any> {
+    const selector = command.selector;
+    if ((command.type !== 'click' && command.type !== 'fill') || !selector) {
+      return this.sendCommandToContentScript(command, tabId);
+    }
+
+    const tab = tabId
+      ? await chrome.tabs.get(tabId)
+      : (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+    if (!tab?.id) {
+      return this.sendCommandToContentScript(command, tabId);
+    }
+
+    const targetTabId = tab.id;
+    const trusted = async () => {
+      const point = await actionabilityGate.ensure(
+        selector,
+        command.type === 'click' ? 'click' : 'type',
+        { timeout: command.timeout || this.config.defaultTimeout },
+        targetTabId
+      );
+      if (!point) {
+        throw new Error(`Element not found: ${selector}`);
+      }
+
+      if (command.type === 'click') {
+        await debuggerInput.click(targetTabId, point);
+      } else {
+        // Select the current value so the typed text replaces it
+        await chrome.scripting.executeScript({
+          target: { tabId: targetTabId },
+          func: (selector: string) => {
+            const element = document.querySelector(selector) as HTMLElement | null;
+            element?.focus();
+            if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+              element.select();
+            }
+          },
+          args: [selector],
+        });
+        await debuggerInput.type(targetTabId, command.value || '');
+      }
+      return { success: true };
+    };
+
+    return debuggerInput.dispatch(
+      tab.url,
+      command.inputBackend,
+      trusted,
+      () => this.sendCommandToContentScript(command, targetTabId),
+      // Keystrokes may already have reached the page
+      { repeatable: command.type === 'click' }
+    );
+  }
+
   /**
    * Send command to content script
    */
@@ -542,9 +620,11 @@ export class ExecutionEngine {
       id: this.generateCommandId(),
       type: parsedCommand.intent as any,
       selector: parsedCommand.parameters.selector,
+      ref: parsedCommand.parameters.ref,
       value: parsedCommand.parameters.value,
       url: parsedCommand.parameters.url,
       timeout: parsedCommand.parameters.timeout,
+      inputBackend: parsedCommand.parameters.inputBackend,
       options: parsedCommand.parameters.options,
     };
   }
@@ -694,6 +774,8 @@ import {
   RayError
 } from '../shared/contracts';
 import { EnhancedParsedCommand } from '../commands/types';
+import { actionabilityGate } from '../actionability';
+import { debuggerInput } from '../debugger-input';
 import { ContextManager } from './context-manager';
 
 export interface ExecutionEngineConfig {
@@ -778,7 +860,8 @@ export class ExecutionEngine {
   async executeCommands(
     commands: EnhancedParsedCommand[],
     contextId: string,
-    priority: ExecutionRequest['priority'] = 'normal'
+    priority: ExecutionRequest['priority'] = 'normal',
+    signal?: AbortSignal
   ): Promise<ExecutionResult> {
     // Convert parsed commands to automation commands
     const automationCommands = commands.map(cmd => this.convertToAutomationCommand(cmd));
@@ -790,7 +873,7 @@ export class ExecutionEngine {
       priority,
     };
 
-    return this.executeRequest(request);
+    return this.executeRequest(request, signal);
   }
 
   /**
@@ -894,7 +977,7 @@ export class ExecutionEngine {
   /**
    * Execute request
    */
-  private async executeRequest(request: ExecutionRequest): Promise<ExecutionResult> {
+  private async executeRequest(request: ExecutionRequest, signal?: AbortSignal): Promise<ExecutionResult> {
     return new Promise((resolve, reject) => {
       // Add to queue
       this.executionQueue.push(request);
@@ -907,6 +990,22 @@ export class ExecutionEngine {
 
       // Set up result handler
       const checkResult = () => {
+        // The caller gave up; drop the request if it is still queued, otherwise cancel it
+        if (signal?.aborted) {
+          this.executionQueue = this.executionQueue.filter(queued => queued !== request);
+          const execution = this.activeExecutions.get(request.id);
+          this.cancelExecution(request.id).then(() => resolve(execution ?? {
+            id: request.id,
+            contextId: request.contextId,
+            status: 'cancelled',
+            startTime: Date.now(),
+            endTime: Date.now(),
+            results: [],
+            errors: [],
+          }));
+          return;
+        }
+
         const result = this.activeExecutions.get(request.id);
         if (result && (result.status === 'completed' || result.status === 'failed' || result.status === 'cancelled')) {
           resolve(result);
@@ -1122,7 +1221,7 @@ export class ExecutionEngine {
 
     try {
       // Send command to content script for execution
-      const result = await this.sendCommandToContentScript(command, context.tabId);
+      const result = await this.dispatchCommand(command, context.tabId);
       
       commandResult.status = 'completed';
       commandResult.endTime = Date.now();
@@ -1150,6 +1249,65 @@ export class ExecutionEngine {
     }
   }
 
+  /**
+   * Run clicks and fills as synthetic events in the content script, or as trusted input
+   * through the debugger when the command or the page's origin asks for it
+   */
+  private async dispatchCommand(command: AutomationCommand, tabId?: number): Promise<any> {
+    const selector = command.selector;
+    if ((command.type !== 'click' && command.type !== 'fill') || !selector) {
+      return this.sendCommandToContentScript(command, tabId);
+    }
+
+    const tab = tabId
+      ? await chrome.tabs.get(tabId)
+      : (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+    if (!tab?.id) {
+      return this.sendCommandToContentScript(command, tabId);
+    }
+
+    const targetTabId = tab.id;
+    const trusted = async () => {
+      const point = await actionabilityGate.ensure(
+        selector,
+        command.type === 'click' ? 'click' : 'type',
+        { timeout: command.timeout || this.config.defaultTimeout },
+        targetTabId
+      );
+      if (!point) {
+        throw new Error(`Element not found: ${selector}`);
+      }
+
+      if (command.type === 'click') {
+        await debuggerInput.click(targetTabId, point);
+      } else {
+        // Select the current value so the typed text replaces it
+        await chrome.scripting.executeScript({
+          target: { tabId: targetTabId },
+          func: (selector: string) => {
+            const element = document.querySelector(selector) as HTMLElement | null;
+            element?.focus();
+            if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+              element.select();
+            }
+          },
+          args: [selector],
+        });
+        await debuggerInput.type(targetTabId, command.value || '');
+      }
+      return { success: true };
+    };
+
+    return debuggerInput.dispatch(
+      tab.url,
+      command.inputBackend,
+      trusted,
+      () => this.sendCommandToContentScript(command, targetTabId),
+      // Keystrokes may already have reached the page
+      { repeatable: command.type === 'click' }
+    );
+  }
+
   /**
    * Send command to content script
    */
@@ -1226,9 +1384,11 @@ export class ExecutionEngine {
       id: this.generateCommandId(),
       type: parsedCommand.intent as any,
       selector: parsedCommand.parameters.selector,
+      ref: parsedCommand.parameters.ref,
       value: parsedCommand.parameters.value,
       url: parsedCommand.parameters.url,
       timeout: parsedCommand.parameters.timeout,
+      inputBackend: parsedCommand.parameters.inputBackend,
       options: parsedCommand.parameters.options,
     };
   }
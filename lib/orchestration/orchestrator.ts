@@ -7,6 +7,9 @@ import {
   ExecutionContext, 
   UIStatus, 
   AgentMessage,
+  AnnotatedScreenshot,
+  ClarificationPrompt,
+  OpenRouterMessage,
   RayError
 } from '../shared/contracts';
 import { 
@@ -15,11 +18,16 @@ import {
   CommandContext,
   ValidationResult
 } from '../commands/types';
-import { OpenRouterClient } from '../openrouter/client';
+import { LLMProvider } from '../providers/types';
+import { OpenRouterEventListener, ParsedAICommand, RequestOptions } from '../openrouter/types';
 import { CommandParser } from '../commands/parser';
 import { CommandValidator } from '../commands/validator';
+import { AGENT_TOOLS } from '../openrouter/tools';
 import { ContextManager } from './context-manager';
-import { ExecutionEngine, ExecutionEventListener } from './execution-engine';
+import { ExecutionEngine, ExecutionEventListener, ExecutionResult } from './execution-engine';
+import { PageObserver } from './page-observer';
+import { networkMonitor } from '../network-monitor';
+import { buildAgentMessages, parseAgentDecision } from './agent-loop';
 
 export interface OrchestratorConfig {
   enableAutoRetry: boolean;
@@ -27,6 +35,11 @@ export interface OrchestratorConfig {
   enableProgressReporting: boolean;
   enableConfirmationForHighRisk: boolean;
   defaultTimeout: number;
+  enableStreaming: boolean;
+  enableEarlyExecution: boolean;
+  enablePageSnapshots: boolean;
+  maxAgentSteps: number;
+  networkIdleTimeout: number; // how long to let the page's requests settle before observing it; 0 disables
 }
 
 export interface OrchestratorRequest {
@@ -36,12 +49,13 @@ export interface OrchestratorRequest {
   context?: CommandContext;
   priority?: 'low' | 'normal' | 'high' | 'critical';
   timeout?: number;
+  options?: RequestOptions;
   metadata?: Record<string, any>;
 }
 
 export interface OrchestratorResult {
   id: string;
-  status: 'pending' | 'parsing' | 'validating' | 'executing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'parsing' | 'validating' | 'waiting' | 'executing' | 'completed' | 'failed' | 'cancelled';
   startTime: number;
   endTime?: number;
   parsingResult?: ParsingResult;
@@ -64,20 +78,42 @@ export interface OrchestratorEventListener {
   onRequestCompleted?(request: OrchestratorRequest, result: OrchestratorResult): void;
   onRequestFailed?(request: OrchestratorRequest, error: RayError): void;
   onStatusUpdate?(request: OrchestratorRequest, status: UIStatus): void;
+  onPlanUpdated?(request: OrchestratorRequest, plan: ParsedAICommand[]): void;
+}
+
+// Request parked until the user answers a clarifying question
+interface PendingClarification {
+  request: OrchestratorRequest;
+  question: string;
+  contextId?: string; // agent requests continue their loop in this context
+}
+
+// Suggested answers shown with a clarifying question
+const MAX_CLARIFICATION_ANSWERS = 4;
+
+interface StreamingState {
+  plan: ParsedAICommand[];
+  earlyExecution?: {
+    command: EnhancedParsedCommand;
+    promise: Promise<ExecutionResult>;
+  };
 }
 
 export class Orchestrator {
   private config: OrchestratorConfig;
-  private openRouterClient: OpenRouterClient;
+  private llmProvider: LLMProvider;
   private commandParser: CommandParser;
   private commandValidator: CommandValidator;
   private contextManager: ContextManager;
   private executionEngine: ExecutionEngine;
+  private pageObserver: PageObserver;
   private activeRequests: Map<string, OrchestratorResult> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private pendingClarifications: Map<string, PendingClarification> = new Map();
   private eventListeners: OrchestratorEventListener[] = [];
 
   constructor(
-    openRouterClient: OpenRouterClient,
+    llmProvider: LLMProvider,
     config: Partial<OrchestratorConfig> = {}
   ) {
     this.config = {
@@ -86,14 +122,20 @@ export class Orchestrator {
       enableProgressReporting: true,
       enableConfirmationForHighRisk: true,
       defaultTimeout: 60000, // 1 minute
+      enableStreaming: false,
+      enableEarlyExecution: true,
+      enablePageSnapshots: true,
+      maxAgentSteps: 10,
+      networkIdleTimeout: 5000,
       ...config,
     };
 
-    this.openRouterClient = openRouterClient;
-    this.commandParser = new CommandParser(openRouterClient);
+    this.llmProvider = llmProvider;
+    this.commandParser = new CommandParser(llmProvider);
     this.commandValidator = new CommandValidator();
     this.contextManager = new ContextManager();
     this.executionEngine = new ExecutionEngine(this.contextManager);
+    this.pageObserver = new PageObserver();
 
     this.setupExecutionEngineListeners();
   }
@@ -105,7 +147,8 @@ export class Orchestrator {
     command: string,
     userId: string,
     context?: CommandContext,
-    priority: OrchestratorRequest['priority'] = 'normal'
+    priority: OrchestratorRequest['priority'] = 'normal',
+    options: RequestOptions = {}
   ): Promise<OrchestratorResult> {
     const request: OrchestratorRequest = {
       id: this.generateRequestId(),
@@ -113,11 +156,35 @@ export class Orchestrator {
       command,
       context,
       priority,
+      options,
     };
 
     return this.executeRequest(request);
   }
 
+  /**
+   * Work towards a goal step by step, observing the page and re-planning after every action
+   */
+  async processAgentCommand(
+    command: string,
+    userId: string,
+    context?: CommandContext,
+    priority: OrchestratorRequest['priority'] = 'normal',
+    options: RequestOptions = {}
+  ): Promise<OrchestratorResult> {
+    const request: OrchestratorRequest = {
+      id: this.generateRequestId(),
+      userId,
+      command,
+      context,
+      priority,
+      options,
+      metadata: { mode: 'agent' },
+    };
+
+    return this.executeAgentRequest(request);
+  }
+
   /**
    * Process parsed commands directly
    */
@@ -139,6 +206,31 @@ export class Orchestrator {
     return this.executeRequestWithParsedCommands(request, commands);
   }
 
+  /**
+   * Resume a request that is waiting for clarification
+   * The question and the reply are appended to the conversation, so the original command is re-planned with both
+   */
+  async answerClarification(requestId: string, answer: string): Promise<OrchestratorResult> {
+    const pending = this.pendingClarifications.get(requestId);
+    if (!pending) {
+      throw new Error(`No clarification pending for request ${requestId}`);
+    }
+    this.pendingClarifications.delete(requestId);
+
+    const { request, question, contextId } = pending;
+    if (contextId) {
+      return this.executeAgentRequest(request, { contextId, answer });
+    }
+
+    const conversation: OpenRouterMessage[] = [
+      ...(request.options?.conversation ?? []),
+      { role: 'assistant', content: question },
+      { role: 'user', content: answer },
+    ];
+
+    return this.executeRequest({ ...request, options: { ...request.options, conversation } });
+  }
+
   /**
    * Get request status
    */
@@ -157,6 +249,10 @@ export class Orchestrator {
 
     request.status = 'cancelled';
     request.endTime = Date.now();
+    this.pendingClarifications.delete(requestId);
+
+    // Abort any in-flight model request
+    this.abortControllers.get(requestId)?.abort();
 
     // Cancel execution if running
     if (request.executionResult) {
@@ -198,6 +294,10 @@ export class Orchestrator {
     this.activeRequests.set(request.id, result);
     this.notifyRequestStarted(request);
 
+    const abortController = new AbortController();
+    this.abortControllers.set(request.id, abortController);
+    const streamingState: StreamingState = { plan: [] };
+
     try {
       // Create execution context
       const context = this.contextManager.createContext(
@@ -217,21 +317,56 @@ export class Orchestrator {
       result.status = 'parsing';
       this.notifyParsingStarted(request);
 
-      const parsingResult = await this.commandParser.parseCommand(
-        request.command,
-        request.context
-      );
+      const parseContext = await this.withPageSnapshot(request);
+      const screenshot = this.supportsVision(request, result)
+        ? await this.captureScreenshot(request, result)
+        : undefined;
+
+      // Remove the listener from the same provider even if it is switched mid-request
+      const provider = this.llmProvider;
+      const streamListener = this.config.enableStreaming
+        ? this.createStreamListener(request, context.id, streamingState, abortController.signal)
+        : null;
+
+      if (streamListener) {
+        provider.addEventListener('stream_command', streamListener);
+      }
+
+      let parsingResult: ParsingResult;
+      try {
+        parsingResult = await this.commandParser.parseCommand(
+          request.command,
+          parseContext,
+          {
+            ...request.options,
+            screenshot,
+            stream: this.config.enableStreaming,
+            signal: abortController.signal,
+            requestId: request.id,
+          }
+        );
+      } finally {
+        if (streamListener) {
+          provider.removeEventListener('stream_command', streamListener);
+        }
+      }
+
+      // Cancelled while the model was still responding
+      if (abortController.signal.aborted) {
+        return result;
+      }
 
       result.parsingResult = parsingResult;
       result.warnings.push(...parsingResult.warnings);
 
       this.notifyParsingCompleted(request, parsingResult);
 
-      // Check if parsing requires clarification
+      // Ask the user instead of guessing; the request resumes with their answer
       if (parsingResult.requiresClarification) {
-        result.status = 'completed';
-        result.endTime = Date.now();
-        this.notifyRequestCompleted(request, result);
+        const question = parsingResult.clarificationQuestions?.[0]
+          || parsingResult.commands.find(cmd => cmd.clarificationQuestion)?.clarificationQuestion
+          || 'Could you tell me more about what you want to do?';
+        this.suspendForClarification(request, result, question, parsingResult.suggestions);
         return result;
       }
 
@@ -275,13 +410,16 @@ export class Orchestrator {
       result.status = 'executing';
       this.notifyExecutionStarted(request, validationResult.sanitizedCommands!);
 
-      const executionResult = await this.executionEngine.executeCommands(
-        validationResult.sanitizedCommands!,
+      const executionResult = await this.executeWithEarlyStart(
+        request,
         context.id,
-        request.priority
+        validationResult.sanitizedCommands!,
+        abortController.signal,
+        this.takeEarlyExecution(streamingState)
       );
 
       result.executionResult = executionResult;
+      this.learnFromExecution(request, parseContext, parsingResult, validationResult.sanitizedCommands!, executionResult);
 
       if (executionResult.status === 'completed') {
         result.status = 'completed';
@@ -295,6 +433,10 @@ export class Orchestrator {
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        return result;
+      }
+
       result.status = 'failed';
       result.endTime = Date.now();
       
@@ -307,11 +449,513 @@ export class Orchestrator {
 
       result.errors.push(rayError);
       this.notifyRequestFailed(request, rayError);
+    } finally {
+      // Clarification, failed validation, confirmation and cancellation all end before execution
+      await this.settleEarlyExecution(result, streamingState, abortController);
+      this.abortControllers.delete(request.id);
     }
 
     return result;
   }
 
+  /**
+   * Execute request as an observe–act loop
+   */
+  private async executeAgentRequest(
+    request: OrchestratorRequest,
+    clarification?: { contextId: string; answer: string }
+  ): Promise<OrchestratorResult> {
+    const result: OrchestratorResult = {
+      id: request.id,
+      status: 'pending',
+      startTime: Date.now(),
+      errors: [],
+      warnings: [],
+    };
+
+    this.activeRequests.set(request.id, result);
+    this.notifyRequestStarted(request);
+
+    const abortController = new AbortController();
+    this.abortControllers.set(request.id, abortController);
+
+    // An answered question continues in the same context, so the model sees the steps taken before it
+    const resumedContext = clarification && this.contextManager.getContext(clarification.contextId);
+    const context = resumedContext || this.contextManager.createContext(
+      request.userId,
+      request.context?.tabId,
+      request.context?.currentUrl
+    );
+
+    if (request.context && !resumedContext) {
+      this.contextManager.updateContext(context.id, {
+        variables: new Map(Object.entries(request.context)),
+      });
+    }
+
+    const transcript = (clarification && resumedContext && this.contextManager.resumeTranscript(context.id, clarification.answer))
+      || this.contextManager.startTranscript(context.id, request.command);
+    result.metadata = { contextId: context.id, transcript };
+    result.status = 'executing';
+
+    const provider = this.llmProvider;
+    const tools = provider.getCapabilities().tools ? AGENT_TOOLS : undefined;
+    const useVision = this.supportsVision(request, result);
+    const maxSteps = this.config.maxAgentSteps;
+
+    try {
+      for (let step = transcript.steps.length + 1; step <= maxSteps; step++) {
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        // Observe
+        await this.waitForNetworkIdle(request.context?.tabId);
+        const observation = await this.pageObserver.observe(request.context?.tabId);
+        const screenshot = useVision ? await this.captureScreenshot(request, result) : undefined;
+        const response = await provider.chatCompletion(
+          buildAgentMessages(request.command, observation, transcript.steps, step, maxSteps, screenshot),
+          {
+            tools,
+            toolChoice: tools ? 'required' : undefined,
+            signal: abortController.signal,
+            requestId: `${request.id}_step_${step}`,
+            useCache: false,
+            // Agent goals use the model route for complex commands
+            complexity: 'complex',
+          }
+        );
+
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        const decision = parseAgentDecision(response);
+
+        if (decision.done) {
+          this.contextManager.completeTranscript(context.id, decision.success ? 'done' : 'failed', decision.summary);
+          result.endTime = Date.now();
+
+          if (decision.success) {
+            result.status = 'completed';
+            this.notifyRequestCompleted(request, result);
+          } else {
+            result.status = 'failed';
+            result.errors.push({
+              code: 'AGENT_GOAL_FAILED',
+              message: decision.summary || 'The agent could not complete the task',
+              timestamp: Date.now(),
+            });
+            this.notifyRequestFailed(request, result.errors[0]);
+          }
+          return result;
+        }
+
+        // Wait for the user's answer; answerClarification picks the loop up at the next step
+        if (decision.clarificationQuestion) {
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            clarification: { question: decision.clarificationQuestion },
+            timestamp: Date.now(),
+          });
+          this.contextManager.completeTranscript(context.id, 'needs_clarification', decision.clarificationQuestion);
+          this.suspendForClarification(request, result, decision.clarificationQuestion, [], context.id);
+          return result;
+        }
+
+        if (!decision.command) {
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            error: 'No action was chosen',
+            timestamp: Date.now(),
+          });
+          continue;
+        }
+
+        // Act
+        const command = this.commandParser.convertAICommand(decision.command, request.command);
+        const validationResult = this.commandValidator.validateCommands([command], request.context);
+
+        if (!validationResult.isValid || !validationResult.sanitizedCommands?.length) {
+          // Let the model see why the action was rejected and choose another
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            action: decision.command,
+            error: validationResult.errors.join('; ') || 'Action was rejected by validation',
+            timestamp: Date.now(),
+          });
+          continue;
+        }
+
+        if (this.config.enableConfirmationForHighRisk && validationResult.requiresConfirmation) {
+          this.contextManager.completeTranscript(context.id, 'needs_confirmation', decision.command.description);
+          result.status = 'completed';
+          result.endTime = Date.now();
+          result.warnings.push('High-risk command requires user confirmation');
+          this.notifyRequestCompleted(request, result);
+          return result;
+        }
+
+        this.notifyStatusUpdate(request, {
+          status: 'processing',
+          message: `Step ${step} of up to ${maxSteps}: ${decision.command.description}`,
+          progress: Math.round((step / maxSteps) * 100),
+          currentStep: decision.command.description,
+          totalSteps: maxSteps,
+          timestamp: Date.now(),
+        });
+
+        const executionResult = await this.executionEngine.executeCommands(
+          validationResult.sanitizedCommands,
+          context.id,
+          request.priority,
+          abortController.signal
+        );
+
+        // Cancelled while the step ran; don't report it or observe the page again
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        result.executionResult = executionResult;
+
+        const commandResult = executionResult.results[0];
+        this.contextManager.addTranscriptStep(context.id, {
+          step,
+          observation,
+          action: decision.command,
+          result: commandResult?.result,
+          error: executionResult.status === 'completed'
+            ? undefined
+            : commandResult?.error?.message || executionResult.errors[0]?.message || 'Step failed',
+          timestamp: Date.now(),
+        });
+      }
+
+      // Budget exhausted without a done signal
+      this.contextManager.completeTranscript(context.id, 'max_steps');
+      result.status = 'failed';
+      result.endTime = Date.now();
+      result.errors.push({
+        code: 'AGENT_MAX_STEPS',
+        message: `Task not finished within ${maxSteps} steps`,
+        timestamp: Date.now(),
+      });
+      this.notifyRequestFailed(request, result.errors[0]);
+
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        this.contextManager.completeTranscript(context.id, 'cancelled');
+        return result;
+      }
+
+      this.contextManager.completeTranscript(context.id, 'failed');
+      result.status = 'failed';
+      result.endTime = Date.now();
+
+      const rayError: RayError = {
+        code: 'ORCHESTRATION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown orchestration error',
+        timestamp: Date.now(),
+        details: error,
+      };
+
+      result.errors.push(rayError);
+      this.notifyRequestFailed(request, rayError);
+    } finally {
+      this.abortControllers.delete(request.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create a listener that tracks the plan as commands stream in
+   */
+  private createStreamListener(
+    request: OrchestratorRequest,
+    contextId: string,
+    state: StreamingState,
+    signal: AbortSignal
+  ): OpenRouterEventListener {
+    return (event) => {
+      if (event.type !== 'stream_command' || event.data.requestId !== request.id) {
+        return;
+      }
+
+      state.plan[event.data.index] = event.data.command;
+      this.notifyPlanUpdated(request, [...state.plan]);
+
+      // Start the first step while the model is still planning the rest, and never start it twice
+      if (event.data.index === 0 && !state.earlyExecution && this.config.enableEarlyExecution) {
+        state.earlyExecution = this.startEarlyExecution(request, contextId, event.data.command, signal);
+      }
+    };
+  }
+
+  /**
+   * Validate and execute a single streamed command ahead of the full plan
+   */
+  private startEarlyExecution(
+    request: OrchestratorRequest,
+    contextId: string,
+    aiCommand: ParsedAICommand,
+    signal: AbortSignal
+  ): StreamingState['earlyExecution'] {
+    const command = this.commandParser.convertAICommand(aiCommand, request.command);
+    const validationResult = this.commandValidator.validateCommands([command], request.context);
+
+    // Anything that would need confirmation waits for the full plan
+    if (!validationResult.isValid ||
+        validationResult.requiresConfirmation ||
+        !validationResult.sanitizedCommands?.length) {
+      return undefined;
+    }
+
+    const sanitizedCommand = validationResult.sanitizedCommands[0];
+    this.notifyStatusUpdate(request, {
+      status: 'processing',
+      message: 'Executing first step while planning continues...',
+      currentStep: aiCommand.description,
+      timestamp: Date.now(),
+    });
+
+    return {
+      command: sanitizedCommand,
+      promise: this.executionEngine.executeCommands([sanitizedCommand], contextId, request.priority, signal),
+    };
+  }
+
+  /**
+   * Hand the streamed step to exactly one consumer, so its outcome is never reported twice
+   */
+  private takeEarlyExecution(state: StreamingState): StreamingState['earlyExecution'] {
+    const earlyExecution = state.earlyExecution;
+    state.earlyExecution = undefined;
+    return earlyExecution;
+  }
+
+  /**
+   * Wait for a streamed step when the request ends before its plan is executed
+   * A question or failed validation means the plan will not run, so the step is cancelled first;
+   * either way its outcome belongs in the result instead of an unhandled promise
+   */
+  private async settleEarlyExecution(
+    result: OrchestratorResult,
+    state: StreamingState,
+    abortController: AbortController
+  ): Promise<void> {
+    const earlyExecution = this.takeEarlyExecution(state);
+    if (!earlyExecution) {
+      return;
+    }
+
+    if (result.status === 'waiting' || result.status === 'failed') {
+      abortController.abort();
+    }
+
+    try {
+      const earlyResult = await earlyExecution.promise;
+      result.executionResult = earlyResult;
+      if (earlyResult.status !== 'cancelled') {
+        result.warnings.push('The first step ran before planning finished');
+      }
+    } catch (error) {
+      result.errors.push({
+        code: 'EARLY_EXECUTION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error in the first step',
+        timestamp: Date.now(),
+        details: error,
+      });
+    }
+  }
+
+  /**
+   * Execute the validated plan, reusing a step that was already started from the stream
+   */
+  private async executeWithEarlyStart(
+    request: OrchestratorRequest,
+    contextId: string,
+    commands: EnhancedParsedCommand[],
+    signal: AbortSignal,
+    earlyExecution?: StreamingState['earlyExecution']
+  ): Promise<ExecutionResult> {
+    if (!earlyExecution) {
+      return this.executionEngine.executeCommands(commands, contextId, request.priority, signal);
+    }
+
+    const earlyResult = await earlyExecution.promise;
+
+    // The final plan may differ when pattern and AI results were merged; the step cannot be undone,
+    // and running the new plan from the start could repeat it
+    if (commands.length === 0 || !this.isSameCommand(earlyExecution.command, commands[0])) {
+      return {
+        ...earlyResult,
+        status: 'failed',
+        endTime: Date.now(),
+        errors: [...earlyResult.errors, {
+          code: 'EARLY_EXECUTION_CONFLICT',
+          message: 'The first step ran before planning finished, but the final plan does not start with it',
+          timestamp: Date.now(),
+          details: { executed: earlyExecution.command, planned: commands[0] },
+        }],
+      };
+    }
+
+    const remainingCommands = commands.slice(1);
+    if (earlyResult.status !== 'completed' || remainingCommands.length === 0) {
+      return earlyResult;
+    }
+
+    const remainingResult = await this.executionEngine.executeCommands(
+      remainingCommands,
+      contextId,
+      request.priority,
+      signal
+    );
+
+    return {
+      ...remainingResult,
+      startTime: earlyResult.startTime,
+      results: [...earlyResult.results, ...remainingResult.results],
+      errors: [...earlyResult.errors, ...remainingResult.errors],
+    };
+  }
+
+  /**
+   * Feed the outcome of a model-planned or replayed plan back into the pattern learner
+   */
+  private learnFromExecution(
+    request: OrchestratorRequest,
+    parseContext: CommandContext | undefined,
+    parsingResult: ParsingResult,
+    commands: EnhancedParsedCommand[],
+    executionResult: ExecutionResult
+  ): void {
+    // Built-in patterns and macros already skip the model; cancelled runs say nothing about the plan
+    if ((parsingResult.source !== 'ai' && parsingResult.source !== 'learned') ||
+        (executionResult.status !== 'completed' && executionResult.status !== 'failed')) {
+      return;
+    }
+
+    this.commandParser.getPatternLearner().recordOutcome({
+      command: request.command,
+      url: parseContext?.currentUrl,
+      commands,
+      succeeded: executionResult.status === 'completed',
+      learnedPatternId: parsingResult.learnedPatternId,
+    }).catch(error => {
+      console.error('Failed to record execution outcome:', error);
+    });
+  }
+
+  /**
+   * Check whether two parsed commands describe the same action
+   */
+  private isSameCommand(a: EnhancedParsedCommand, b: EnhancedParsedCommand): boolean {
+    return a.intent === b.intent &&
+      JSON.stringify(a.parameters) === JSON.stringify(b.parameters);
+  }
+
+  /**
+   * Check whether vision mode was requested and the active model can use it
+   */
+  private supportsVision(request: OrchestratorRequest, result: OrchestratorResult): boolean {
+    if (!request.options?.vision) {
+      return false;
+    }
+
+    if (!this.llmProvider.getCapabilities().vision) {
+      result.warnings.push('Vision mode needs a vision-capable model; planning from page text only');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Capture the annotated screenshot sent with vision requests
+   */
+  private async captureScreenshot(
+    request: OrchestratorRequest,
+    result: OrchestratorResult
+  ): Promise<AnnotatedScreenshot | undefined> {
+    const screenshot = await this.pageObserver.screenshot(request.context?.tabId);
+    if (!screenshot) {
+      result.warnings.push('Could not capture the page for vision mode; planning from page text only');
+      return undefined;
+    }
+
+    return screenshot;
+  }
+
+  /**
+   * Attach an accessibility snapshot of the page so the model can target element refs
+   */
+  private async withPageSnapshot(request: OrchestratorRequest): Promise<CommandContext | undefined> {
+    if (!this.config.enablePageSnapshots || request.context?.pageSnapshot) {
+      return request.context;
+    }
+
+    await this.waitForNetworkIdle(request.context?.tabId);
+    const snapshot = await this.pageObserver.snapshot(request.context?.tabId);
+    return snapshot
+      ? { currentUrl: snapshot.url, ...request.context, pageSnapshot: snapshot.tree }
+      : request.context;
+  }
+
+  /**
+   * Let the page finish loading what the last action requested, so the model sees its result
+   * A page that never goes quiet (e.g. polling) is observed as it is once the timeout passes
+   */
+  private async waitForNetworkIdle(tabId?: number): Promise<void> {
+    if (this.config.networkIdleTimeout <= 0) {
+      return;
+    }
+
+    try {
+      const targetTabId = tabId ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+      if (targetTabId !== undefined) {
+        await networkMonitor.waitForNetworkIdle(targetTabId, { timeout: this.config.networkIdleTimeout });
+      }
+    } catch {
+      // Observe the page as it is
+    }
+  }
+
+  /**
+   * Park a request until the user answers the model's clarifying question
+   */
+  private suspendForClarification(
+    request: OrchestratorRequest,
+    result: OrchestratorResult,
+    question: string,
+    suggestions: string[] = [],
+    contextId?: string
+  ): void {
+    const clarification: ClarificationPrompt = {
+      requestId: request.id,
+      question,
+      answers: Array.from(new Set(suggestions)).slice(0, MAX_CLARIFICATION_ANSWERS),
+    };
+
+    this.pendingClarifications.set(request.id, { request, question, contextId });
+    result.status = 'waiting';
+
+    this.notifyStatusUpdate(request, {
+      status: 'waiting',
+      message: question,
+      clarification,
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Execute request with pre-parsed commands
    */
@@ -545,6 +1189,14 @@ export class Orchestrator {
     });
   }
 
+  private notifyPlanUpdated(request: OrchestratorRequest, plan: ParsedAICommand[]): void {
+    this.eventListeners.forEach(listener => {
+      if (listener.onPlanUpdated) {
+        listener.onPlanUpdated(request, plan);
+      }
+    });
+  }
+
   /**
    * Get active requests
    */
@@ -596,18 +1248,26 @@ export class Orchestrator {
     this.config = { ...this.config, ...newConfig };
   }
 
+  /**
+   * Switch the LLM provider used for subsequent requests
+   */
+  setProvider(llmProvider: LLMProvider): void {
+    this.llmProvider = llmProvider;
+    this.commandParser.setProvider(llmProvider);
+  }
+
   /**
    * Get dependencies
    */
   getDependencies(): {
-    openRouterClient: OpenRouterClient;
+    llmProvider: LLMProvider;
     commandParser: CommandParser;
     commandValidator: CommandValidator;
     contextManager: ContextManager;
     executionEngine: ExecutionEngine;
   } {
     return {
-      openRouterClient: this.openRouterClient,
+      llmProvider: this.llmProvider,
       commandParser: this.commandParser,
       commandValidator: this.commandValidator,
       contextManager: this.contextManager,
@@ -622,6 +1282,9 @@ import {
   ExecutionContext, 
   UIStatus, 
   AgentMessage,
+  AnnotatedScreenshot,
+  ClarificationPrompt,
+  OpenRouterMessage,
   RayError
 } from '../shared/contracts';
 import { 
@@ -630,11 +1293,16 @@ import {
   CommandContext,
   ValidationResult
 } from '../commands/types';
-import { OpenRouterClient } from '../openrouter/client';
+import { LLMProvider } from '../providers/types';
+import { OpenRouterEventListener, ParsedAICommand, RequestOptions } from '../openrouter/types';
 import { CommandParser } from '../commands/parser';
 import { CommandValidator } from '../commands/validator';
+import { AGENT_TOOLS } from '../openrouter/tools';
 import { ContextManager } from './context-manager';
-import { ExecutionEngine, ExecutionEventListener } from './execution-engine';
+import { ExecutionEngine, ExecutionEventListener, ExecutionResult } from './execution-engine';
+import { PageObserver } from './page-observer';
+import { networkMonitor } from '../network-monitor';
+import { buildAgentMessages, parseAgentDecision } from './agent-loop';
 
 export interface OrchestratorConfig {
   enableAutoRetry: boolean;
@@ -642,6 +1310,11 @@ export interface OrchestratorConfig {
   enableProgressReporting: boolean;
   enableConfirmationForHighRisk: boolean;
   defaultTimeout: number;
+  enableStreaming: boolean;
+  enableEarlyExecution: boolean;
+  enablePageSnapshots: boolean;
+  maxAgentSteps: number;
+  networkIdleTimeout: number; // how long to let the page's requests settle before observing it; 0 disables
 }
 
 export interface OrchestratorRequest {
@@ -651,12 +1324,13 @@ export interface OrchestratorRequest {
   context?: CommandContext;
   priority?: 'low' | 'normal' | 'high' | 'critical';
   timeout?: number;
+  options?: RequestOptions;
   metadata?: Record<string, any>;
 }
 
 export interface OrchestratorResult {
   id: string;
-  status: 'pending' | 'parsing' | 'validating' | 'executing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'parsing' | 'validating' | 'waiting' | 'executing' | 'completed' | 'failed' | 'cancelled';
   startTime: number;
   endTime?: number;
   parsingResult?: ParsingResult;
@@ -679,20 +1353,42 @@ export interface OrchestratorEventListener {
   onRequestCompleted?(request: OrchestratorRequest, result: OrchestratorResult): void;
   onRequestFailed?(request: OrchestratorRequest, error: RayError): void;
   onStatusUpdate?(request: OrchestratorRequest, status: UIStatus): void;
+  onPlanUpdated?(request: OrchestratorRequest, plan: ParsedAICommand[]): void;
+}
+
+// Request parked until the user answers a clarifying question
+interface PendingClarification {
+  request: OrchestratorRequest;
+  question: string;
+  contextId?: string; // agent requests continue their loop in this context
+}
+
+// Suggested answers shown with a clarifying question
+const MAX_CLARIFICATION_ANSWERS = 4;
+
+interface StreamingState {
+  plan: ParsedAICommand[];
+  earlyExecution?: {
+    command: EnhancedParsedCommand;
+    promise: Promise<ExecutionResult>;
+  };
 }
 
 export class Orchestrator {
   private config: OrchestratorConfig;
-  private openRouterClient: OpenRouterClient;
+  private llmProvider: LLMProvider;
   private commandParser: CommandParser;
   private commandValidator: CommandValidator;
   private contextManager: ContextManager;
   private executionEngine: ExecutionEngine;
+  private pageObserver: PageObserver;
   private activeRequests: Map<string, OrchestratorResult> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private pendingClarifications: Map<string, PendingClarification> = new Map();
   private eventListeners: OrchestratorEventListener[] = [];
 
   constructor(
-    openRouterClient: OpenRouterClient,
+    llmProvider: LLMProvider,
     config: Partial<OrchestratorConfig> = {}
   ) {
     this.config = {
@@ -701,14 +1397,20 @@ export class Orchestrator {
       enableProgressReporting: true,
       enableConfirmationForHighRisk: true,
       defaultTimeout: 60000, // 1 minute
+      enableStreaming: false,
+      enableEarlyExecution: true,
+      enablePageSnapshots: true,
+      maxAgentSteps: 10,
+      networkIdleTimeout: 5000,
       ...config,
     };
 
-    this.openRouterClient = openRouterClient;
-    this.commandParser = new CommandParser(openRouterClient);
+    this.llmProvider = llmProvider;
+    this.commandParser = new CommandParser(llmProvider);
     this.commandValidator = new CommandValidator();
     this.contextManager = new ContextManager();
     this.executionEngine = new ExecutionEngine(this.contextManager);
+    this.pageObserver = new PageObserver();
 
     this.setupExecutionEngineListeners();
   }
@@ -720,7 +1422,8 @@ export class Orchestrator {
     command: string,
     userId: string,
     context?: CommandContext,
-    priority: OrchestratorRequest['priority'] = 'normal'
+    priority: OrchestratorRequest['priority'] = 'normal',
+    options: RequestOptions = {}
   ): Promise<OrchestratorResult> {
     const request: OrchestratorRequest = {
       id: this.generateRequestId(),
@@ -728,11 +1431,35 @@ export class Orchestrator {
       command,
       context,
       priority,
+      options,
     };
 
     return this.executeRequest(request);
   }
 
+  /**
+   * Work towards a goal step by step, observing the page and re-planning after every action
+   */
+  async processAgentCommand(
+    command: string,
+    userId: string,
+    context?: CommandContext,
+    priority: OrchestratorRequest['priority'] = 'normal',
+    options: RequestOptions = {}
+  ): Promise<OrchestratorResult> {
+    const request: OrchestratorRequest = {
+      id: this.generateRequestId(),
+      userId,
+      command,
+      context,
+      priority,
+      options,
+      metadata: { mode: 'agent' },
+    };
+
+    return this.executeAgentRequest(request);
+  }
+
   /**
    * Process parsed commands directly
    */
@@ -754,6 +1481,31 @@ export class Orchestrator {
     return this.executeRequestWithParsedCommands(request, commands);
   }
 
+  /**
+   * Resume a request that is waiting for clarification
+   * The question and the reply are appended to the conversation, so the original command is re-planned with both
+   */
+  async answerClarification(requestId: string, answer: string): Promise<OrchestratorResult> {
+    const pending = this.pendingClarifications.get(requestId);
+    if (!pending) {
+      throw new Error(`No clarification pending for request ${requestId}`);
+    }
+    this.pendingClarifications.delete(requestId);
+
+    const { request, question, contextId } = pending;
+    if (contextId) {
+      return this.executeAgentRequest(request, { contextId, answer });
+    }
+
+    const conversation: OpenRouterMessage[] = [
+      ...(request.options?.conversation ?? []),
+      { role: 'assistant', content: question },
+      { role: 'user', content: answer },
+    ];
+
+    return this.executeRequest({ ...request, options: { ...request.options, conversation } });
+  }
+
   /**
    * Get request status
    */
@@ -772,6 +1524,10 @@ export class Orchestrator {
 
     request.status = 'cancelled';
     request.endTime = Date.now();
+    this.pendingClarifications.delete(requestId);
+
+    // Abort any in-flight model request
+    this.abortControllers.get(requestId)?.abort();
 
     // Cancel execution if running
     if (request.executionResult) {
@@ -813,6 +1569,10 @@ export class Orchestrator {
     this.activeRequests.set(request.id, result);
     this.notifyRequestStarted(request);
 
+    const abortController = new AbortController();
+    this.abortControllers.set(request.id, abortController);
+    const streamingState: StreamingState = { plan: [] };
+
     try {
       // Create execution context
       const context = this.contextManager.createContext(
@@ -832,21 +1592,56 @@ export class Orchestrator {
       result.status = 'parsing';
       this.notifyParsingStarted(request);
 
-      const parsingResult = await this.commandParser.parseCommand(
-        request.command,
-        request.context
-      );
+      const parseContext = await this.withPageSnapshot(request);
+      const screenshot = this.supportsVision(request, result)
+        ? await this.captureScreenshot(request, result)
+        : undefined;
+
+      // Remove the listener from the same provider even if it is switched mid-request
+      const provider = this.llmProvider;
+      const streamListener = this.config.enableStreaming
+        ? this.createStreamListener(request, context.id, streamingState, abortController.signal)
+        : null;
+
+      if (streamListener) {
+        provider.addEventListener('stream_command', streamListener);
+      }
+
+      let parsingResult: ParsingResult;
+      try {
+        parsingResult = await this.commandParser.parseCommand(
+          request.command,
+          parseContext,
+          {
+            ...request.options,
+            screenshot,
+            stream: this.config.enableStreaming,
+            signal: abortController.signal,
+            requestId: request.id,
+          }
+        );
+      } finally {
+        if (streamListener) {
+          provider.removeEventListener('stream_command', streamListener);
+        }
+      }
+
+      // Cancelled while the model was still responding
+      if (abortController.signal.aborted) {
+        return result;
+      }
 
       result.parsingResult = parsingResult;
       result.warnings.push(...parsingResult.warnings);
 
       this.notifyParsingCompleted(request, parsingResult);
 
-      // Check if parsing requires clarification
+      // Ask the user instead of guessing; the request resumes with their answer
       if (parsingResult.requiresClarification) {
-        result.status = 'completed';
-        result.endTime = Date.now();
-        this.notifyRequestCompleted(request, result);
+        const question = parsingResult.clarificationQuestions?.[0]
+          || parsingResult.commands.find(cmd => cmd.clarificationQuestion)?.clarificationQuestion
+          || 'Could you tell me more about what you want to do?';
+        this.suspendForClarification(request, result, question, parsingResult.suggestions);
         return result;
       }
 
@@ -890,13 +1685,16 @@ export class Orchestrator {
       result.status = 'executing';
       this.notifyExecutionStarted(request, validationResult.sanitizedCommands!);
 
-      const executionResult = await this.executionEngine.executeCommands(
-        validationResult.sanitizedCommands!,
+      const executionResult = await this.executeWithEarlyStart(
+        request,
         context.id,
-        request.priority
+        validationResult.sanitizedCommands!,
+        abortController.signal,
+        this.takeEarlyExecution(streamingState)
       );
 
       result.executionResult = executionResult;
+      this.learnFromExecution(request, parseContext, parsingResult, validationResult.sanitizedCommands!, executionResult);
 
       if (executionResult.status === 'completed') {
         result.status = 'completed';
@@ -910,6 +1708,10 @@ export class Orchestrator {
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        return result;
+      }
+
       result.status = 'failed';
       result.endTime = Date.now();
       
@@ -922,11 +1724,513 @@ export class Orchestrator {
 
       result.errors.push(rayError);
       this.notifyRequestFailed(request, rayError);
+    } finally {
+      // Clarification, failed validation, confirmation and cancellation all end before execution
+      await this.settleEarlyExecution(result, streamingState, abortController);
+      this.abortControllers.delete(request.id);
     }
 
     return result;
   }
 
+  /**
+   * Execute request as an observe–act loop
+   */
+  private async executeAgentRequest(
+    request: OrchestratorRequest,
+    clarification?: { contextId: string; answer: string }
+  ): Promise<OrchestratorResult> {
+    const result: OrchestratorResult = {
+      id: request.id,
+      status: 'pending',
+      startTime: Date.now(),
+      errors: [],
+      warnings: [],
+    };
+
+    this.activeRequests.set(request.id, result);
+    this.notifyRequestStarted(request);
+
+    const abortController = new AbortController();
+    this.abortControllers.set(request.id, abortController);
+
+    // An answered question continues in the same context, so the model sees the steps taken before it
+    const resumedContext = clarification && this.contextManager.getContext(clarification.contextId);
+    const context = resumedContext || this.contextManager.createContext(
+      request.userId,
+      request.context?.tabId,
+      request.context?.currentUrl
+    );
+
+    if (request.context && !resumedContext) {
+      this.contextManager.updateContext(context.id, {
+        variables: new Map(Object.entries(request.context)),
+      });
+    }
+
+    const transcript = (clarification && resumedContext && this.contextManager.resumeTranscript(context.id, clarification.answer))
+      || this.contextManager.startTranscript(context.id, request.command);
+    result.metadata = { contextId: context.id, transcript };
+    result.status = 'executing';
+
+    const provider = this.llmProvider;
+    const tools = provider.getCapabilities().tools ? AGENT_TOOLS : undefined;
+    const useVision = this.supportsVision(request, result);
+    const maxSteps = this.config.maxAgentSteps;
+
+    try {
+      for (let step = transcript.steps.length + 1; step <= maxSteps; step++) {
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        // Observe
+        await this.waitForNetworkIdle(request.context?.tabId);
+        const observation = await this.pageObserver.observe(request.context?.tabId);
+        const screenshot = useVision ? await this.captureScreenshot(request, result) : undefined;
+        const response = await provider.chatCompletion(
+          buildAgentMessages(request.command, observation, transcript.steps, step, maxSteps, screenshot),
+          {
+            tools,
+            toolChoice: tools ? 'required' : undefined,
+            signal: abortController.signal,
+            requestId: `${request.id}_step_${step}`,
+            useCache: false,
+            // Agent goals use the model route for complex commands
+            complexity: 'complex',
+          }
+        );
+
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        const decision = parseAgentDecision(response);
+
+        if (decision.done) {
+          this.contextManager.completeTranscript(context.id, decision.success ? 'done' : 'failed', decision.summary);
+          result.endTime = Date.now();
+
+          if (decision.success) {
+            result.status = 'completed';
+            this.notifyRequestCompleted(request, result);
+          } else {
+            result.status = 'failed';
+            result.errors.push({
+              code: 'AGENT_GOAL_FAILED',
+              message: decision.summary || 'The agent could not complete the task',
+              timestamp: Date.now(),
+            });
+            this.notifyRequestFailed(request, result.errors[0]);
+          }
+          return result;
+        }
+
+        // Wait for the user's answer; answerClarification picks the loop up at the next step
+        if (decision.clarificationQuestion) {
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            clarification: { question: decision.clarificationQuestion },
+            timestamp: Date.now(),
+          });
+          this.contextManager.completeTranscript(context.id, 'needs_clarification', decision.clarificationQuestion);
+          this.suspendForClarification(request, result, decision.clarificationQuestion, [], context.id);
+          return result;
+        }
+
+        if (!decision.command) {
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            error: 'No action was chosen',
+            timestamp: Date.now(),
+          });
+          continue;
+        }
+
+        // Act
+        const command = this.commandParser.convertAICommand(decision.command, request.command);
+        const validationResult = this.commandValidator.validateCommands([command], request.context);
+
+        if (!validationResult.isValid || !validationResult.sanitizedCommands?.length) {
+          // Let the model see why the action was rejected and choose another
+          this.contextManager.addTranscriptStep(context.id, {
+            step,
+            observation,
+            action: decision.command,
+            error: validationResult.errors.join('; ') || 'Action was rejected by validation',
+            timestamp: Date.now(),
+          });
+          continue;
+        }
+
+        if (this.config.enableConfirmationForHighRisk && validationResult.requiresConfirmation) {
+          this.contextManager.completeTranscript(context.id, 'needs_confirmation', decision.command.description);
+          result.status = 'completed';
+          result.endTime = Date.now();
+          result.warnings.push('High-risk command requires user confirmation');
+          this.notifyRequestCompleted(request, result);
+          return result;
+        }
+
+        this.notifyStatusUpdate(request, {
+          status: 'processing',
+          message: `Step ${step} of up to ${maxSteps}: ${decision.command.description}`,
+          progress: Math.round((step / maxSteps) * 100),
+          currentStep: decision.command.description,
+          totalSteps: maxSteps,
+          timestamp: Date.now(),
+        });
+
+        const executionResult = await this.executionEngine.executeCommands(
+          validationResult.sanitizedCommands,
+          context.id,
+          request.priority,
+          abortController.signal
+        );
+
+        // Cancelled while the step ran; don't report it or observe the page again
+        if (abortController.signal.aborted) {
+          this.contextManager.completeTranscript(context.id, 'cancelled');
+          return result;
+        }
+
+        result.executionResult = executionResult;
+
+        const commandResult = executionResult.results[0];
+        this.contextManager.addTranscriptStep(context.id, {
+          step,
+          observation,
+          action: decision.command,
+          result: commandResult?.result,
+          error: executionResult.status === 'completed'
+            ? undefined
+            : commandResult?.error?.message || executionResult.errors[0]?.message || 'Step failed',
+          timestamp: Date.now(),
+        });
+      }
+
+      // Budget exhausted without a done signal
+      this.contextManager.completeTranscript(context.id, 'max_steps');
+      result.status = 'failed';
+      result.endTime = Date.now();
+      result.errors.push({
+        code: 'AGENT_MAX_STEPS',
+        message: `Task not finished within ${maxSteps} steps`,
+        timestamp: Date.now(),
+      });
+      this.notifyRequestFailed(request, result.errors[0]);
+
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        this.contextManager.completeTranscript(context.id, 'cancelled');
+        return result;
+      }
+
+      this.contextManager.completeTranscript(context.id, 'failed');
+      result.status = 'failed';
+      result.endTime = Date.now();
+
+      const rayError: RayError = {
+        code: 'ORCHESTRATION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown orchestration error',
+        timestamp: Date.now(),
+        details: error,
+      };
+
+      result.errors.push(rayError);
+      this.notifyRequestFailed(request, rayError);
+    } finally {
+      this.abortControllers.delete(request.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create a listener that tracks the plan as commands stream in
+   */
+  private createStreamListener(
+    request: OrchestratorRequest,
+    contextId: string,
+    state: StreamingState,
+    signal: AbortSignal
+  ): OpenRouterEventListener {
+    return (event) => {
+      if (event.type !== 'stream_command' || event.data.requestId !== request.id) {
+        return;
+      }
+
+      state.plan[event.data.index] = event.data.command;
+      this.notifyPlanUpdated(request, [...state.plan]);
+
+      // Start the first step while the model is still planning the rest, and never start it twice
+      if (event.data.index === 0 && !state.earlyExecution && this.config.enableEarlyExecution) {
+        state.earlyExecution = this.startEarlyExecution(request, contextId, event.data.command, signal);
+      }
+    };
+  }
+
+  /**
+   * Validate and execute a single streamed command ahead of the full plan
+   */
+  private startEarlyExecution(
+    request: OrchestratorRequest,
+    contextId: string,
+    aiCommand: ParsedAICommand,
+    signal: AbortSignal
+  ): StreamingState['earlyExecution'] {
+    const command = this.commandParser.convertAICommand(aiCommand, request.command);
+    const validationResult = this.commandValidator.validateCommands([command], request.context);
+
+    // Anything that would need confirmation waits for the full plan
+    if (!validationResult.isValid ||
+        validationResult.requiresConfirmation ||
+        !validationResult.sanitizedCommands?.length) {
+      return undefined;
+    }
+
+    const sanitizedCommand = validationResult.sanitizedCommands[0];
+    this.notifyStatusUpdate(request, {
+      status: 'processing',
+      message: 'Executing first step while planning continues...',
+      currentStep: aiCommand.description,
+      timestamp: Date.now(),
+    });
+
+    return {
+      command: sanitizedCommand,
+      promise: this.executionEngine.executeCommands([sanitizedCommand], contextId, request.priority, signal),
+    };
+  }
+
+  /**
+   * Hand the streamed step to exactly one consumer, so its outcome is never reported twice
+   */
+  private takeEarlyExecution(state: StreamingState): StreamingState['earlyExecution'] {
+    const earlyExecution = state.earlyExecution;
+    state.earlyExecution = undefined;
+    return earlyExecution;
+  }
+
+  /**
+   * Wait for a streamed step when the request ends before its plan is executed
+   * A question or failed validation means the plan will not run, so the step is cancelled first;
+   * either way its outcome belongs in the result instead of an unhandled promise
+   */
+  private async settleEarlyExecution(
+    result: OrchestratorResult,
+    state: StreamingState,
+    abortController: AbortController
+  ): Promise<void> {
+    const earlyExecution = this.takeEarlyExecution(state);
+    if (!earlyExecution) {
+      return;
+    }
+
+    if (result.status === 'waiting' || result.status === 'failed') {
+      abortController.abort();
+    }
+
+    try {
+      const earlyResult = await earlyExecution.promise;
+      result.executionResult = earlyResult;
+      if (earlyResult.status !== 'cancelled') {
+        result.warnings.push('The first step ran before planning finished');
+      }
+    } catch (error) {
+      result.errors.push({
+        code: 'EARLY_EXECUTION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error in the first step',
+        timestamp: Date.now(),
+        details: error,
+      });
+    }
+  }
+
+  /**
+   * Execute the validated plan, reusing a step that was already started from the stream
+   */
+  private async executeWithEarlyStart(
+    request: OrchestratorRequest,
+    contextId: string,
+    commands: EnhancedParsedCommand[],
+    signal: AbortSignal,
+    earlyExecution?: StreamingState['earlyExecution']
+  ): Promise<ExecutionResult> {
+    if (!earlyExecution) {
+      return this.executionEngine.executeCommands(commands, contextId, request.priority, signal);
+    }
+
+    const earlyResult = await earlyExecution.promise;
+
+    // The final plan may differ when pattern and AI results were merged; the step cannot be undone,
+    // and running the new plan from the start could repeat it
+    if (commands.length === 0 || !this.isSameCommand(earlyExecution.command, commands[0])) {
+      return {
+        ...earlyResult,
+        status: 'failed',
+        endTime: Date.now(),
+        errors: [...earlyResult.errors, {
+          code: 'EARLY_EXECUTION_CONFLICT',
+          message: 'The first step ran before planning finished, but the final plan does not start with it',
+          timestamp: Date.now(),
+          details: { executed: earlyExecution.command, planned: commands[0] },
+        }],
+      };
+    }
+
+    const remainingCommands = commands.slice(1);
+    if (earlyResult.status !== 'completed' || remainingCommands.length === 0) {
+      return earlyResult;
+    }
+
+    const remainingResult = await this.executionEngine.executeCommands(
+      remainingCommands,
+      contextId,
+      request.priority,
+      signal
+    );
+
+    return {
+      ...remainingResult,
+      startTime: earlyResult.startTime,
+      results: [...earlyResult.results, ...remainingResult.results],
+      errors: [...earlyResult.errors, ...remainingResult.errors],
+    };
+  }
+
+  /**
+   * Feed the outcome of a model-planned or replayed plan back into the pattern learner
+   */
+  private learnFromExecution(
+    request: OrchestratorRequest,
+    parseContext: CommandContext | undefined,
+    parsingResult: ParsingResult,
+    commands: EnhancedParsedCommand[],
+    executionResult: ExecutionResult
+  ): void {
+    // Built-in patterns and macros already skip the model; cancelled runs say nothing about the plan
+    if ((parsingResult.source !== 'ai' && parsingResult.source !== 'learned') ||
+        (executionResult.status !== 'completed' && executionResult.status !== 'failed')) {
+      return;
+    }
+
+    this.commandParser.getPatternLearner().recordOutcome({
+      command: request.command,
+      url: parseContext?.currentUrl,
+      commands,
+      succeeded: executionResult.status === 'completed',
+      learnedPatternId: parsingResult.learnedPatternId,
+    }).catch(error => {
+      console.error('Failed to record execution outcome:', error);
+    });
+  }
+
+  /**
+   * Check whether two parsed commands describe the same action
+   */
+  private isSameCommand(a: EnhancedParsedCommand, b: EnhancedParsedCommand): boolean {
+    return a.intent === b.intent &&
+      JSON.stringify(a.parameters) === JSON.stringify(b.parameters);
+  }
+
+  /**
+   * Check whether vision mode was requested and the active model can use it
+   */
+  private supportsVision(request: OrchestratorRequest, result: OrchestratorResult): boolean {
+    if (!request.options?.vision) {
+      return false;
+    }
+
+    if (!this.llmProvider.getCapabilities().vision) {
+      result.warnings.push('Vision mode needs a vision-capable model; planning from page text only');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Capture the annotated screenshot sent with vision requests
+   */
+  private async captureScreenshot(
+    request: OrchestratorRequest,
+    result: OrchestratorResult
+  ): Promise<AnnotatedScreenshot | undefined> {
+    const screenshot = await this.pageObserver.screenshot(request.context?.tabId);
+    if (!screenshot) {
+      result.warnings.push('Could not capture the page for vision mode; planning from page text only');
+      return undefined;
+    }
+
+    return screenshot;
+  }
+
+  /**
+   * Attach an accessibility snapshot of the page so the model can target element refs
+   */
+  private async withPageSnapshot(request: OrchestratorRequest): Promise<CommandContext | undefined> {
+    if (!this.config.enablePageSnapshots || request.context?.pageSnapshot) {
+      return request.context;
+    }
+
+    await this.waitForNetworkIdle(request.context?.tabId);
+    const snapshot = await this.pageObserver.snapshot(request.context?.tabId);
+    return snapshot
+      ? { currentUrl: snapshot.url, ...request.context, pageSnapshot: snapshot.tree }
+      : request.context;
+  }
+
+  /**
+   * Let the page finish loading what the last action requested, so the model sees its result
+   * A page that never goes quiet (e.g. polling) is observed as it is once the timeout passes
+   */
+  private async waitForNetworkIdle(tabId?: number): Promise<void> {
+    if (this.config.networkIdleTimeout <= 0) {
+      return;
+    }
+
+    try {
+      const targetTabId = tabId ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+      if (targetTabId !== undefined) {
+        await networkMonitor.waitForNetworkIdle(targetTabId, { timeout: this.config.networkIdleTimeout });
+      }
+    } catch {
+      // Observe the page as it is
+    }
+  }
+
+  /**
+   * Park a request until the user answers the model's clarifying question
+   */
+  private suspendForClarification(
+    request: OrchestratorRequest,
+    result: OrchestratorResult,
+    question: string,
+    suggestions: string[] = [],
+    contextId?: string
+  ): void {
+    const clarification: ClarificationPrompt = {
+      requestId: request.id,
+      question,
+      answers: Array.from(new Set(suggestions)).slice(0, MAX_CLARIFICATION_ANSWERS),
+    };
+
+    this.pendingClarifications.set(request.id, { request, question, contextId });
+    result.status = 'waiting';
+
+    this.notifyStatusUpdate(request, {
+      status: 'waiting',
+      message: question,
+      clarification,
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Execute request with pre-parsed commands
    */
@@ -1160,6 +2464,14 @@ export class Orchestrator {
     });
   }
 
+  private notifyPlanUpdated(request: OrchestratorRequest, plan: ParsedAICommand[]): void {
+    this.eventListeners.forEach(listener => {
+      if (listener.onPlanUpdated) {
+        listener.onPlanUpdated(request, plan);
+      }
+    });
+  }
+
   /**
    * Get active requests
    */
@@ -1211,18 +2523,26 @@ export class Orchestrator {
     this.config = { ...this.config, ...newConfig };
   }
 
+  /**
+   * Switch the LLM provider used for subsequent requests
+   */
+  setProvider(llmProvider: LLMProvider): void {
+    this.llmProvider = llmProvider;
+    this.commandParser.setProvider(llmProvider);
+  }
+
   /**
    * Get dependencies
    */
   getDependencies(): {
-    openRouterClient: OpenRouterClient;
+    llmProvider: LLMProvider;
     commandParser: CommandParser;
     commandValidator: CommandValidator;
     contextManager: ContextManager;
     executionEngine: ExecutionEngine;
   } {
     return {
-      openRouterClient: this.openRouterClient,
+      llmProvider: this.llmProvider,
       commandParser: this.commandParser,
       commandValidator: this.commandValidator,
       contextManager: this.contextManager,
@@ -0,0 +1,179 @@
+/**
+ * Page observer for collecting compact page state from the content script
+ */
+
+import { AnnotatedScreenshot, PageObservation, PageSnapshot, VisionElement } from '../shared/contracts';
+import { annotateScreenshot, buildElementLegend } from './screenshot-annotator';
+
+export interface PageObserverConfig {
+  maxElements: number;
+  maxTextLength: number;
+  includeTree: boolean;
+  maxSnapshotTokens: number;
+  maxVisionElements: number;
+  timeout: number;
+}
+
+export class PageObserver {
+  private config: PageObserverConfig;
+
+  constructor(config: Partial<PageObserverConfig> = {}) {
+    this.config = {
+      maxElements: 40,
+      maxTextLength: 80,
+      includeTree: true,
+      maxSnapshotTokens: 1500,
+      maxVisionElements: 60,
+      timeout: 5000, // 5 seconds
+      ...config,
+    };
+  }
+
+  /**
+   * Observe the given tab (or the active tab)
+   * Pages without a content script (e.g. chrome:// URLs) yield an observation without elements
+   */
+  async observe(tabId?: number): Promise<PageObservation> {
+    const tab = await this.resolveTab(tabId);
+    const fallback: PageObservation = {
+      url: tab?.url || '',
+      title: tab?.title || '',
+      elements: [],
+      timestamp: Date.now(),
+    };
+
+    if (!tab?.id) {
+      return fallback;
+    }
+
+    try {
+      const response = await this.withTimeout(
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'OBSERVE_PAGE',
+          payload: {
+            maxElements: this.config.maxElements,
+            maxTextLength: this.config.maxTextLength,
+            includeTree: this.config.includeTree,
+            maxTokens: this.config.maxSnapshotTokens,
+          },
+          timestamp: Date.now(),
+        })
+      );
+
+      return response?.success && response.observation ? response.observation : fallback;
+    } catch (error) {
+      console.warn('Failed to observe page:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Take an accessibility snapshot of the given tab (or the active tab)
+   * Returns null when the page has no content script
+   */
+  async snapshot(tabId?: number): Promise<PageSnapshot | null> {
+    const tab = await this.resolveTab(tabId);
+    if (!tab?.id) {
+      return null;
+    }
+
+    try {
+      const response = await this.withTimeout(
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'GET_PAGE_SNAPSHOT',
+          payload: { maxTokens: this.config.maxSnapshotTokens },
+          timestamp: Date.now(),
+        })
+      );
+
+      return response?.success && response.snapshot ? response.snapshot : null;
+    } catch (error) {
+      console.warn('Failed to snapshot page:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Capture the visible tab with numbered boxes over its interactive elements
+   * Box numbers are snapshot refs, so commands can target them directly
+   */
+  async screenshot(tabId?: number): Promise<AnnotatedScreenshot | null> {
+    const tab = await this.resolveTab(tabId);
+    if (!tab?.id) {
+      return null;
+    }
+
+    try {
+      const response = await this.withTimeout(
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'GET_VISION_ELEMENTS',
+          payload: { maxElements: this.config.maxVisionElements },
+          timestamp: Date.now(),
+        })
+      );
+
+      if (!response?.success) {
+        return null;
+      }
+
+      // Only the active tab of a window can be captured
+      const elements: VisionElement[] = response.elements;
+      const capture = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+      const annotated = await annotateScreenshot(capture, elements, response.viewportWidth);
+
+      return {
+        image: annotated.url,
+        legend: buildElementLegend(elements),
+        elements,
+        width: annotated.width,
+        height: annotated.height,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.warn('Failed to capture annotated screenshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<PageObserverConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get the tab to observe
+   */
+  private async resolveTab(tabId?: number): Promise<chrome.tabs.Tab | null> {
+    try {
+      if (tabId) {
+        return await chrome.tabs.get(tabId);
+      }
+
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      return tab || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reject if the content script does not answer in time
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Page observation timeout')), this.config.timeout);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Draws numbered bounding boxes onto tab screenshots for vision-capable models
+ */
+
+import { VisionElement } from '../shared/contracts';
+
+export interface AnnotationOptions {
+  maxWidth: number;
+  boxColor: string;
+  labelTextColor: string;
+}
+
+export interface AnnotatedImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_ANNOTATION_OPTIONS: AnnotationOptions = {
+  maxWidth: 1280,
+  boxColor: '#e5004f',
+  labelTextColor: '#ffffff',
+};
+
+/**
+ * Overlay numbered boxes on a captured screenshot
+ * Element rects are in CSS pixels relative to the viewport; the capture is in device pixels
+ */
+export async function annotateScreenshot(
+  dataUrl: string,
+  elements: VisionElement[],
+  viewportWidth: number,
+  options: Partial<AnnotationOptions> = {}
+): Promise<AnnotatedImage> {
+  const { maxWidth, boxColor, labelTextColor } = { ...DEFAULT_ANNOTATION_OPTIONS, ...options };
+
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const outputScale = Math.min(1, maxWidth / bitmap.width);
+  const width = Math.round(bitmap.width * outputScale);
+  const height = Math.round(bitmap.height * outputScale);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return { url: dataUrl, width: bitmap.width, height: bitmap.height };
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const scale = width / viewportWidth;
+  const fontSize = 13;
+  context.lineWidth = 2;
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textBaseline = 'top';
+
+  for (const element of elements) {
+    const x = element.rect.x * scale;
+    const y = element.rect.y * scale;
+
+    context.strokeStyle = boxColor;
+    context.strokeRect(x, y, element.rect.width * scale, element.rect.height * scale);
+
+    // Label sits above the box, or inside it at the top edge of the viewport
+    const label = String(element.ref);
+    const labelWidth = context.measureText(label).width + 6;
+    const labelHeight = fontSize + 4;
+    const labelY = y >= labelHeight ? y - labelHeight : y;
+
+    context.fillStyle = boxColor;
+    context.fillRect(x, labelY, labelWidth, labelHeight);
+    context.fillStyle = labelTextColor;
+    context.fillText(label, x + 3, labelY + 2);
+  }
+
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return { url: await blobToDataUrl(blob), width, height };
+}
+
+/**
+ * List the numbered elements so the model can match boxes to text
+ */
+export function buildElementLegend(elements: VisionElement[]): string {
+  return elements
+    .map(element => {
+      const role = element.role && element.role !== element.tag ? ` role=${element.role}` : '';
+      const text = element.text ? ` "${element.text}"` : '';
+      return `[${element.ref}] <${element.tag}>${role}${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Encode a blob as a data URL (FileReader is not available in every worker context)
+ */
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const chunkSize = 0x8000;
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
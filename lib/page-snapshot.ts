@@ -0,0 +1,436 @@
+/**
+ * Accessibility-style page snapshots for LLM context
+ * Serializes the page into a pruned tree of roles, accessible names, states and values,
+ * with stable numeric refs that commands can target instead of CSS selectors
+ */
+
+import { PageSnapshot } from './shared/contracts';
+
+export interface PageSnapshotConfig {
+  maxTokens: number;
+  maxNameLength: number;
+  maxNodes: number;
+}
+
+interface SnapshotNode {
+  ref: number;
+  role: string;
+  name: string;
+  depth: number;
+  attributes: string[];
+  inViewport: boolean;
+}
+
+// Rough token estimate used for budgeting
+const CHARS_PER_TOKEN = 4;
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'meta', 'link', 'svg', 'canvas', 'iframe']);
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  a: 'link',
+  button: 'button',
+  select: 'combobox',
+  textarea: 'textbox',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  nav: 'navigation',
+  main: 'main',
+  header: 'banner',
+  footer: 'contentinfo',
+  aside: 'complementary',
+  form: 'form',
+  dialog: 'dialog',
+  table: 'table',
+  tr: 'row',
+  th: 'columnheader',
+  td: 'cell',
+  ul: 'list',
+  ol: 'list',
+  li: 'listitem',
+  img: 'img',
+  option: 'option',
+  summary: 'button',
+  fieldset: 'group',
+  p: 'paragraph',
+  label: 'label',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  checkbox: 'checkbox',
+  radio: 'radio',
+  button: 'button',
+  submit: 'button',
+  reset: 'button',
+  image: 'button',
+  range: 'slider',
+  number: 'spinbutton',
+  search: 'searchbox',
+};
+
+// Roles whose accessible name comes from their text content
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'link', 'button', 'heading', 'paragraph', 'option', 'cell', 'columnheader',
+  'tab', 'menuitem', 'label', 'clickable',
+]);
+
+// Roles whose subtree is summarized by the node itself
+const LEAF_ROLES = new Set([
+  'link', 'button', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'slider',
+  'spinbutton', 'img', 'heading', 'paragraph', 'option', 'switch', 'menuitem', 'tab', 'label',
+]);
+
+export class PageSnapshotter {
+  private config: PageSnapshotConfig;
+  private elementRefs: WeakMap<Element, number> = new WeakMap();
+  private refElements: Map<number, Element> = new Map();
+  private nextRef = 1;
+
+  constructor(config: Partial<PageSnapshotConfig> = {}) {
+    this.config = {
+      maxTokens: 1500,
+      maxNameLength: 80,
+      maxNodes: 3000,
+      ...config,
+    };
+  }
+
+  /**
+   * Take a snapshot of the page, keeping refs stable across snapshots
+   */
+  snapshot(root: Element = document.body, maxTokens: number = this.config.maxTokens): PageSnapshot {
+    this.pruneDisconnected();
+
+    const nodes: SnapshotNode[] = [];
+    this.collect(root, 0, nodes);
+
+    const { lines, truncated, tokenEstimate } = this.fitToBudget(nodes, maxTokens);
+
+    return {
+      url: window.location.href,
+      title: document.title,
+      tree: lines.join('\n'),
+      refCount: nodes.length,
+      truncated,
+      tokenEstimate,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Resolve a ref from a snapshot back to its element
+   */
+  resolveRef(ref: number): Element | null {
+    const element = this.refElements.get(ref);
+    return element && element.isConnected ? element : null;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<PageSnapshotConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Walk the DOM, flattening elements without a meaningful role
+   */
+  private collect(element: Element, depth: number, nodes: SnapshotNode[]): void {
+    if (nodes.length >= this.config.maxNodes || !this.isRendered(element)) {
+      return;
+    }
+
+    const role = this.getRole(element);
+    let childDepth = depth;
+
+    if (role) {
+      const name = this.getAccessibleName(element, role);
+
+      // Images and generic groups without a name add nothing for the model
+      if (name || !['img', 'group', 'label'].includes(role)) {
+        nodes.push({
+          ref: this.getRef(element),
+          role,
+          name,
+          depth,
+          attributes: this.getAttributes(element, role),
+          inViewport: this.isInViewport(element.getBoundingClientRect()),
+        });
+        childDepth = depth + 1;
+      }
+
+      if (LEAF_ROLES.has(role)) {
+        return;
+      }
+    }
+
+    for (const child of Array.from(element.children)) {
+      this.collect(child, childDepth, nodes);
+    }
+  }
+
+  /**
+   * Keep viewport nodes first, then fill the remaining budget in document order
+   */
+  private fitToBudget(
+    nodes: SnapshotNode[],
+    maxTokens: number
+  ): { lines: string[]; truncated: boolean; tokenEstimate: number } {
+    const lines = nodes.map(node => this.formatNode(node));
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const included: boolean[] = new Array(nodes.length).fill(false);
+    let usedChars = 0;
+
+    for (const inViewport of [true, false]) {
+      for (let i = 0; i < nodes.length; i++) {
+        if (nodes[i].inViewport !== inViewport) {
+          continue;
+        }
+
+        const cost = lines[i].length + 1;
+        if (usedChars + cost > maxChars) {
+          break;
+        }
+
+        included[i] = true;
+        usedChars += cost;
+      }
+    }
+
+    const output = lines.filter((_, i) => included[i]);
+    const omitted = nodes.length - output.length;
+    if (omitted > 0) {
+      output.push(`- ... ${omitted} more element${omitted === 1 ? '' : 's'} omitted`);
+    }
+
+    return {
+      lines: output,
+      truncated: omitted > 0,
+      tokenEstimate: Math.ceil(usedChars / CHARS_PER_TOKEN),
+    };
+  }
+
+  /**
+   * Render a node as one indented line
+   */
+  private formatNode(node: SnapshotNode): string {
+    const name = node.name ? ` ${JSON.stringify(node.name)}` : '';
+    const attributes = node.attributes.length > 0 ? ` ${node.attributes.join(' ')}` : '';
+    return `${'  '.repeat(node.depth)}- ${node.role}${name} [ref=${node.ref}]${attributes}`;
+  }
+
+  /**
+   * Get the explicit or implicit role of an element
+   */
+  getRole(element: Element): string | null {
+    const explicitRole = element.getAttribute('role');
+    if (explicitRole) {
+      return explicitRole.split(/\s+/)[0];
+    }
+
+    const tagName = element.tagName.toLowerCase();
+    if (tagName === 'input') {
+      const type = (element.getAttribute('type') || 'text').toLowerCase();
+      return INPUT_ROLES[type] || 'textbox';
+    }
+
+    if (tagName === 'a' && !element.hasAttribute('href')) {
+      return null;
+    }
+
+    if (IMPLICIT_ROLES[tagName]) {
+      return IMPLICIT_ROLES[tagName];
+    }
+
+    // Script-driven controls without semantic markup
+    const tabIndex = element.getAttribute('tabindex');
+    if (element.hasAttribute('onclick') || (tabIndex !== null && tabIndex !== '-1')) {
+      return 'clickable';
+    }
+
+    return null;
+  }
+
+  /**
+   * Compute a simplified accessible name
+   */
+  getAccessibleName(element: Element, role: string): string {
+    let name = '';
+
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      name = labelledBy
+        .split(/\s+/)
+        .map(id => document.getElementById(id)?.textContent || '')
+        .join(' ');
+    }
+
+    name = name || element.getAttribute('aria-label') || '';
+
+    if (!name && (element instanceof HTMLInputElement ||
+                  element instanceof HTMLTextAreaElement ||
+                  element instanceof HTMLSelectElement)) {
+      if (element instanceof HTMLInputElement && ['submit', 'button', 'reset'].includes(element.type)) {
+        name = element.value;
+      }
+      name = name ||
+        element.labels?.[0]?.textContent ||
+        element.getAttribute('placeholder') ||
+        '';
+    }
+
+    if (!name && element instanceof HTMLImageElement) {
+      name = element.alt;
+    }
+
+    if (!name && NAME_FROM_CONTENT_ROLES.has(role)) {
+      name = element.textContent || '';
+    }
+
+    name = name || element.getAttribute('title') || '';
+
+    return this.truncate(name.replace(/\s+/g, ' ').trim());
+  }
+
+  /**
+   * Collect states and form values
+   */
+  private getAttributes(element: Element, role: string): string[] {
+    const attributes: string[] = [];
+    const tagName = element.tagName.toLowerCase();
+
+    if (role === 'heading') {
+      const level = element.getAttribute('aria-level') || (/^h[1-6]$/.test(tagName) ? tagName[1] : '');
+      if (level) {
+        attributes.push(`level=${level}`);
+      }
+    }
+
+    if (element.hasAttribute('disabled') || element.getAttribute('aria-disabled') === 'true') {
+      attributes.push('disabled');
+    }
+
+    if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+      attributes.push(element.checked ? 'checked' : 'unchecked');
+    } else if (element.hasAttribute('aria-checked')) {
+      attributes.push(element.getAttribute('aria-checked') === 'true' ? 'checked' : 'unchecked');
+    }
+
+    const expanded = element.getAttribute('aria-expanded');
+    if (expanded !== null) {
+      attributes.push(expanded === 'true' ? 'expanded' : 'collapsed');
+    }
+
+    if (element.getAttribute('aria-selected') === 'true' ||
+        (element instanceof HTMLOptionElement && element.selected)) {
+      attributes.push('selected');
+    }
+
+    if (element.hasAttribute('required') || element.getAttribute('aria-required') === 'true') {
+      attributes.push('required');
+    }
+
+    if (element.hasAttribute('readonly')) {
+      attributes.push('readonly');
+    }
+
+    if (document.activeElement === element) {
+      attributes.push('focused');
+    }
+
+    const value = this.getValue(element);
+    if (value) {
+      attributes.push(`value=${JSON.stringify(value)}`);
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Get the current form value, masking passwords
+   */
+  private getValue(element: Element): string {
+    if (element instanceof HTMLSelectElement) {
+      return this.truncate(element.selectedOptions[0]?.textContent?.trim() || '');
+    }
+
+    if (element instanceof HTMLInputElement) {
+      if (['checkbox', 'radio', 'submit', 'button', 'reset', 'image'].includes(element.type)) {
+        return '';
+      }
+      if (element.type === 'password') {
+        return element.value ? '••••' : '';
+      }
+      return this.truncate(element.value);
+    }
+
+    if (element instanceof HTMLTextAreaElement) {
+      return this.truncate(element.value);
+    }
+
+    return '';
+  }
+
+  /**
+   * Check whether an element is rendered and exposed to assistive technology
+   */
+  private isRendered(element: Element): boolean {
+    if (SKIPPED_TAGS.has(element.tagName.toLowerCase())) {
+      return false;
+    }
+
+    if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') {
+      return false;
+    }
+
+    if (element instanceof HTMLInputElement && element.type === 'hidden') {
+      return false;
+    }
+
+    const style = window.getComputedStyle(element);
+    return style.display !== 'none' && style.visibility !== 'hidden';
+  }
+
+  private isInViewport(rect: DOMRect): boolean {
+    return rect.bottom > 0 &&
+      rect.right > 0 &&
+      rect.top < window.innerHeight &&
+      rect.left < window.innerWidth;
+  }
+
+  /**
+   * Get or assign the stable ref for an element
+   */
+  getRef(element: Element): number {
+    let ref = this.elementRefs.get(element);
+    if (ref === undefined) {
+      ref = this.nextRef++;
+      this.elementRefs.set(element, ref);
+      this.refElements.set(ref, element);
+    }
+    return ref;
+  }
+
+  /**
+   * Forget elements that were removed from the page
+   */
+  private pruneDisconnected(): void {
+    for (const [ref, element] of this.refElements) {
+      if (!element.isConnected) {
+        this.refElements.delete(ref);
+      }
+    }
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.config.maxNameLength
+      ? `${text.substring(0, this.config.maxNameLength)}…`
+      : text;
+  }
+}
+
+// Export singleton instance for convenience
+export const pageSnapshotter = new PageSnapshotter();
@@ -12,13 +12,15 @@ import {
   CommandSummary,
   ResponseSummary
 } from './response-processor';
+import { CommandLocale } from '../commands/types';
+import { isFeedbackLanguage, translate } from './feedback-translations';
 
 export interface FeedbackGeneratorConfig {
   enableEmoji: boolean;
   enableAnimations: boolean;
   enableSuggestions: boolean;
   enableProgressIndicators: boolean;
-  language: 'en' | 'es' | 'fr' | 'auto';
+  language: CommandLocale | 'auto'; // 'auto' replies in the language the command was written in
   detailLevel: 'brief' | 'normal' | 'detailed';
 }
 
@@ -72,7 +74,7 @@ export class FeedbackGenerator {
       enableAnimations: true,
       enableSuggestions: true,
       enableProgressIndicators: true,
-      language: 'en',
+      language: 'auto',
       detailLevel: 'normal',
       ...config,
     };
@@ -94,6 +96,7 @@ export class FeedbackGenerator {
       status,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -117,6 +120,7 @@ export class FeedbackGenerator {
       summary,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -133,6 +137,7 @@ export class FeedbackGenerator {
       error,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -152,6 +157,7 @@ export class FeedbackGenerator {
       result,
       context,
       config: this.config,
+      language: this.resolveLanguage(context, result?.language),
     });
   }
 
@@ -171,6 +177,7 @@ export class FeedbackGenerator {
       result,
       context,
       config: this.config,
+      language: this.resolveLanguage(context, result?.language),
     });
   }
 
@@ -192,6 +199,7 @@ export class FeedbackGenerator {
       message,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -215,6 +223,7 @@ export class FeedbackGenerator {
       currentStep,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -244,70 +253,20 @@ export class FeedbackGenerator {
   /**
    * Get localized text
    */
-  private getLocalizedText(key: string, fallback: string): string {
-    const translations: Record<string, Record<string, string>> = {
-      en: {
-        processing: 'Processing...',
-        success: 'Success!',
-        error: 'Error',
-        warning: 'Warning',
-        info: 'Information',
-        command_executed: 'Command executed',
-        commands_executed: 'Commands executed',
-        execution_failed: 'Execution failed',
-        parsing_failed: 'Parsing failed',
-        validation_failed: 'Validation failed',
-        needs_clarification: 'Needs clarification',
-        try_again: 'Try again',
-        learn_more: 'Learn more',
-        retry: 'Retry',
-        cancel: 'Cancel',
-        view_details: 'View details',
-        close: 'Close',
-      },
-      es: {
-        processing: 'Procesando...',
-        success: '¡Éxito!',
-        error: 'Error',
-        warning: 'Advertencia',
-        info: 'Información',
-        command_executed: 'Comando ejecutado',
-        commands_executed: 'Comandos ejecutados',
-        execution_failed: 'La ejecución falló',
-        parsing_failed: 'El análisis falló',
-        validation_failed: 'La validación falló',
-        needs_clarification: 'Necesita aclaración',
-        try_again: 'Intentar de nuevo',
-        learn_more: 'Aprender más',
-        retry: 'Reintentar',
-        cancel: 'Cancelar',
-        view_details: 'Ver detalles',
-        close: 'Cerrar',
-      },
-      fr: {
-        processing: 'Traitement en cours...',
-        success: 'Succès!',
-        error: 'Erreur',
-        warning: 'Avertissement',
-        info: 'Information',
-        command_executed: 'Commande exécutée',
-        commands_executed: 'Commandes exécutées',
-        execution_failed: 'L\'exécution a échoué',
-        parsing_failed: 'L\'analyse a échoué',
-        validation_failed: 'La validation a échoué',
-        needs_clarification: 'Nécessite une clarification',
-        try_again: 'Réessayer',
-        learn_more: 'En savoir plus',
-        retry: 'Réessayer',
-        cancel: 'Annuler',
-        view_details: 'Voir les détails',
-        close: 'Fermer',
-      },
-    };
+  private getLocalizedText(key: string, fallback: string, context?: any): string {
+    return translate(key, this.resolveLanguage(context), fallback);
+  }
+
+  /**
+   * Language for replies: the configured one, or with 'auto' the language detected for the command
+   */
+  private resolveLanguage(context?: any, detectedLanguage?: string): CommandLocale {
+    if (this.config.language !== 'auto') {
+      return this.config.language;
+    }
 
-    const lang = this.config.language === 'auto' ? 'en' : this.config.language;
-    const langTranslations = translations[lang] || translations.en;
-    return langTranslations[key] || fallback;
+    const language = detectedLanguage ?? context?.language;
+    return isFeedbackLanguage(language) ? language : 'en';
   }
 
   /**
@@ -348,9 +307,9 @@ export interface FeedbackTemplate {
 // Status feedback template
 class StatusFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { status, context, config } = data;
+    const { status, context, config, language } = data;
     
-    const localizedText = this.getLocalizedText(status.status, status.status);
+    const localizedText = translate(status.status, language, status.status);
     const emoji = this.getEmoji(status.status);
     
     return {
@@ -363,7 +322,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
         currentStep: status.currentStep,
         totalSteps: status.totalSteps,
       },
-      actions: this.createStatusActions(status),
+      actions: this.createStatusActions(status, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -375,18 +334,6 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private getLocalizedText(key: string, fallback: string): string {
-    // This would use the same localization logic as FeedbackGenerator
-    const translations: Record<string, string> = {
-      processing: 'Processing...',
-      success: 'Success!',
-      error: 'Error',
-      warning: 'Warning',
-      info: 'Information',
-    };
-    return translations[key] || fallback;
-  }
-
   private getEmoji(status: string): string {
     const emojis: Record<string, string> = {
       processing: '⏳',
@@ -398,14 +345,14 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
     return emojis[status] || '';
   }
 
-  private createStatusActions(status: UIStatus): FeedbackAction[] {
+  private createStatusActions(status: UIStatus, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (status.status === 'error') {
       actions.push({
         id: 'retry',
         type: 'primary',
-        label: 'Retry',
+        label: translate('retry', language, 'Retry'),
         action: 'retry',
         icon: '🔄',
         style: { variant: 'contained', color: '#007bff' },
@@ -416,7 +363,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'cancel',
         type: 'secondary',
-        label: 'Cancel',
+        label: translate('cancel', language, 'Cancel'),
         action: 'cancel',
         icon: '❌',
         style: { variant: 'outlined', color: '#dc3545' },
@@ -434,7 +381,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
 // Command results feedback template
 class CommandResultsFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { commands, results, summary, context, config } = data;
+    const { commands, results, summary, context, config, language } = data;
     
     const successCount = results.filter(r => r && r.success !== false).length;
     const totalCount = commands.length;
@@ -443,7 +390,9 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     return {
       id: this.generateId(),
       type: allSuccess ? 'success' : 'warning',
-      title: allSuccess ? 'Commands Completed' : 'Partial Success',
+      title: allSuccess
+        ? translate('commands_completed', language, 'Commands Completed')
+        : translate('partial_success', language, 'Partial Success'),
       message: summary.description,
       details: {
         summary,
@@ -453,7 +402,7 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
           success: results[index]?.success !== false,
         })),
       },
-      actions: this.createCommandActions(commands, results, allSuccess),
+      actions: this.createCommandActions(commands, results, allSuccess, language),
       metadata: {
         category: 'execution',
         priority: allSuccess ? 'normal' : 'high',
@@ -465,14 +414,19 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createCommandActions(commands: any[], results: any[], allSuccess: boolean): FeedbackAction[] {
+  private createCommandActions(
+    commands: any[],
+    results: any[],
+    allSuccess: boolean,
+    language: CommandLocale
+  ): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (!allSuccess) {
       actions.push({
         id: 'retry_failed',
         type: 'primary',
-        label: 'Retry Failed Commands',
+        label: translate('retry_failed', language, 'Retry Failed Commands'),
         action: 'retry',
         icon: '🔄',
         style: { variant: 'contained', color: '#007bff' },
@@ -482,7 +436,7 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'view_details',
       type: 'secondary',
-      label: 'View Details',
+      label: translate('view_details', language, 'View Details'),
       action: 'show_details',
       icon: '📋',
       style: { variant: 'outlined', color: '#6c757d' },
@@ -522,19 +476,19 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
 // Error feedback template
 class ErrorFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { error, context, config } = data;
+    const { error, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: 'error',
-      title: 'Error',
+      title: translate('error', language, 'Error'),
       message: error.message,
       details: {
         code: error.code,
         timestamp: error.timestamp,
         stack: error.stack,
       },
-      actions: this.createErrorActions(error),
+      actions: this.createErrorActions(error, language),
       metadata: {
         category: 'error',
         priority: 'high',
@@ -543,20 +497,20 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
         suggestions: this.generateErrorSuggestions(error),
         learnMore: {
           url: this.getHelpUrl(error.code),
-          text: 'Get help with this error',
+          text: translate('error_help', language, 'Get help with this error'),
         },
       },
       timestamp: Date.now(),
     };
   }
 
-  private createErrorActions(error: any): FeedbackAction[] {
+  private createErrorActions(error: any, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'retry',
       type: 'primary',
-      label: 'Try Again',
+      label: translate('try_again', language, 'Try Again'),
       action: 'retry',
       icon: '🔄',
       style: { variant: 'contained', color: '#007bff' },
@@ -565,7 +519,7 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'report',
       type: 'secondary',
-      label: 'Report Issue',
+      label: translate('report_issue', language, 'Report Issue'),
       action: 'report',
       url: 'https://github.com/ray-extension/issues',
       icon: '🐛',
@@ -616,23 +570,25 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
 // Parsing feedback template
 class ParsingFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { result, context, config } = data;
+    const { result, context, config, language } = data;
     
     const needsClarification = result.requiresClarification || result.confidence < 0.5;
     
     return {
       id: this.generateId(),
       type: needsClarification ? 'warning' : 'info',
-      title: needsClarification ? 'Needs Clarification' : 'Parsing Complete',
+      title: needsClarification
+        ? translate('needs_clarification', language, 'Needs Clarification')
+        : translate('parsing_complete', language, 'Parsing Complete'),
       message: needsClarification ? 
-        result.clarificationQuestion || 'Please provide more details' : 
-        'Command parsed successfully',
+        result.clarificationQuestion || translate('more_details_needed', language, 'Please provide more details') : 
+        translate('command_parsed', language, 'Command parsed successfully'),
       details: {
         confidence: result.confidence,
         commands: result.commands,
         warnings: result.warnings,
       },
-      actions: this.createParsingActions(result, needsClarification),
+      actions: this.createParsingActions(result, needsClarification, language),
       metadata: {
         category: 'parsing',
         priority: needsClarification ? 'high' : 'normal',
@@ -644,14 +600,14 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createParsingActions(result: any, needsClarification: boolean): FeedbackAction[] {
+  private createParsingActions(result: any, needsClarification: boolean, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (needsClarification) {
       actions.push({
         id: 'clarify',
         type: 'primary',
-        label: 'Provide More Details',
+        label: translate('provide_details', language, 'Provide More Details'),
         action: 'clarify',
         icon: '💬',
         style: { variant: 'contained', color: '#007bff' },
@@ -662,7 +618,7 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'execute_anyway',
         type: 'secondary',
-        label: 'Execute Anyway',
+        label: translate('execute_anyway', language, 'Execute Anyway'),
         action: 'execute',
         icon: '⚡',
         style: { variant: 'outlined', color: '#6c757d' },
@@ -695,21 +651,23 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
 // Validation feedback template
 class ValidationFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { result, context, config } = data;
+    const { result, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: result.isValid ? 'success' : 'error',
-      title: result.isValid ? 'Validation Passed' : 'Validation Failed',
+      title: result.isValid
+        ? translate('validation_passed', language, 'Validation Passed')
+        : translate('validation_failed', language, 'Validation Failed'),
       message: result.isValid ? 
-        'Commands are valid and ready to execute' : 
-        'Commands failed validation',
+        translate('commands_valid', language, 'Commands are valid and ready to execute') : 
+        translate('commands_invalid', language, 'Commands failed validation'),
       details: {
         errors: result.errors,
         warnings: result.warnings,
         sanitizedCommands: result.sanitizedCommands,
       },
-      actions: this.createValidationActions(result),
+      actions: this.createValidationActions(result, language),
       metadata: {
         category: 'validation',
         priority: result.isValid ? 'normal' : 'high',
@@ -721,14 +679,14 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createValidationActions(result: any): FeedbackAction[] {
+  private createValidationActions(result: any, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (!result.isValid) {
       actions.push({
         id: 'fix_issues',
         type: 'primary',
-        label: 'Fix Issues',
+        label: translate('fix_issues', language, 'Fix Issues'),
         action: 'fix',
         icon: '🔧',
         style: { variant: 'contained', color: '#007bff' },
@@ -739,7 +697,7 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'execute_sanitized',
         type: 'secondary',
-        label: 'Execute Sanitized Commands',
+        label: translate('execute_sanitized', language, 'Execute Sanitized Commands'),
         action: 'execute_sanitized',
         icon: '⚡',
         style: { variant: 'outlined', color: '#28a745' },
@@ -773,18 +731,18 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
 // Suggestion feedback template
 class SuggestionFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { type, message, context, config } = data;
+    const { type, message, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: 'suggestion',
-      title: 'Suggestion',
+      title: translate('suggestion', language, 'Suggestion'),
       message,
       details: {
         suggestionType: type,
         context,
       },
-      actions: this.createSuggestionActions(type, message),
+      actions: this.createSuggestionActions(type, message, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -796,13 +754,13 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createSuggestionActions(type: string, message: string): FeedbackAction[] {
+  private createSuggestionActions(type: string, message: string, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'accept',
       type: 'primary',
-      label: 'Accept',
+      label: translate('accept', language, 'Accept'),
       action: 'accept',
       icon: '✅',
       style: { variant: 'contained', color: '#28a745' },
@@ -811,7 +769,7 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'dismiss',
       type: 'secondary',
-      label: 'Dismiss',
+      label: translate('dismiss', language, 'Dismiss'),
       action: 'dismiss',
       icon: '❌',
       style: { variant: 'outlined', color: '#6c757d' },
@@ -828,15 +786,19 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
 // Progress feedback template
 class ProgressFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { current, total, currentStep, context, config } = data;
+    const { current, total, currentStep, context, config, language } = data;
     
     const percentage = Math.round((current / total) * 100);
-    const progressText = `${current} of ${total} (${percentage}%)`;
+    const progressText = translate('progress', language, `${current} of ${total} (${percentage}%)`, {
+      current,
+      total,
+      percentage,
+    });
     
     return {
       id: this.generateId(),
       type: 'info',
-      title: 'Processing',
+      title: translate('processing', language, 'Processing'),
       message: currentStep || progressText,
       details: {
         current,
@@ -844,7 +806,7 @@ class ProgressFeedbackTemplate implements FeedbackTemplate {
         percentage,
         currentStep,
       },
-      actions: this.createProgressActions(current, total),
+      actions: this.createProgressActions(current, total, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -856,13 +818,13 @@ class ProgressFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createProgressActions(current: number, total: number): FeedbackAction[] {
+  private createProgressActions(current: number, total: number, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'cancel',
       type: 'secondary',
-      label: 'Cancel',
+      label: translate('cancel', language, 'Cancel'),
       action: 'cancel',
       icon: '❌',
       style: { variant: 'outlined', color: '#dc3545' },
@@ -936,13 +898,15 @@ import {
   CommandSummary,
   ResponseSummary
 } from './response-processor';
+import { CommandLocale } from '../commands/types';
+import { isFeedbackLanguage, translate } from './feedback-translations';
 
 export interface FeedbackGeneratorConfig {
   enableEmoji: boolean;
   enableAnimations: boolean;
   enableSuggestions: boolean;
   enableProgressIndicators: boolean;
-  language: 'en' | 'es' | 'fr' | 'auto';
+  language: CommandLocale | 'auto'; // 'auto' replies in the language the command was written in
   detailLevel: 'brief' | 'normal' | 'detailed';
 }
 
@@ -996,7 +960,7 @@ export class FeedbackGenerator {
       enableAnimations: true,
       enableSuggestions: true,
       enableProgressIndicators: true,
-      language: 'en',
+      language: 'auto',
       detailLevel: 'normal',
       ...config,
     };
@@ -1018,6 +982,7 @@ export class FeedbackGenerator {
       status,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -1041,6 +1006,7 @@ export class FeedbackGenerator {
       summary,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -1057,6 +1023,7 @@ export class FeedbackGenerator {
       error,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -1076,6 +1043,7 @@ export class FeedbackGenerator {
       result,
       context,
       config: this.config,
+      language: this.resolveLanguage(context, result?.language),
     });
   }
 
@@ -1095,6 +1063,7 @@ export class FeedbackGenerator {
       result,
       context,
       config: this.config,
+      language: this.resolveLanguage(context, result?.language),
     });
   }
 
@@ -1116,6 +1085,7 @@ export class FeedbackGenerator {
       message,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -1139,6 +1109,7 @@ export class FeedbackGenerator {
       currentStep,
       context,
       config: this.config,
+      language: this.resolveLanguage(context),
     });
   }
 
@@ -1168,70 +1139,20 @@ export class FeedbackGenerator {
   /**
    * Get localized text
    */
-  private getLocalizedText(key: string, fallback: string): string {
-    const translations: Record<string, Record<string, string>> = {
-      en: {
-        processing: 'Processing...',
-        success: 'Success!',
-        error: 'Error',
-        warning: 'Warning',
-        info: 'Information',
-        command_executed: 'Command executed',
-        commands_executed: 'Commands executed',
-        execution_failed: 'Execution failed',
-        parsing_failed: 'Parsing failed',
-        validation_failed: 'Validation failed',
-        needs_clarification: 'Needs clarification',
-        try_again: 'Try again',
-        learn_more: 'Learn more',
-        retry: 'Retry',
-        cancel: 'Cancel',
-        view_details: 'View details',
-        close: 'Close',
-      },
-      es: {
-        processing: 'Procesando...',
-        success: '¡Éxito!',
-        error: 'Error',
-        warning: 'Advertencia',
-        info: 'Información',
-        command_executed: 'Comando ejecutado',
-        commands_executed: 'Comandos ejecutados',
-        execution_failed: 'La ejecución falló',
-        parsing_failed: 'El análisis falló',
-        validation_failed: 'La validación falló',
-        needs_clarification: 'Necesita aclaración',
-        try_again: 'Intentar de nuevo',
-        learn_more: 'Aprender más',
-        retry: 'Reintentar',
-        cancel: 'Cancelar',
-        view_details: 'Ver detalles',
-        close: 'Cerrar',
-      },
-      fr: {
-        processing: 'Traitement en cours...',
-        success: 'Succès!',
-        error: 'Erreur',
-        warning: 'Avertissement',
-        info: 'Information',
-        command_executed: 'Commande exécutée',
-        commands_executed: 'Commandes exécutées',
-        execution_failed: 'L\'exécution a échoué',
-        parsing_failed: 'L\'analyse a échoué',
-        validation_failed: 'La validation a échoué',
-        needs_clarification: 'Nécessite une clarification',
-        try_again: 'Réessayer',
-        learn_more: 'En savoir plus',
-        retry: 'Réessayer',
-        cancel: 'Annuler',
-        view_details: 'Voir les détails',
-        close: 'Fermer',
-      },
-    };
+  private getLocalizedText(key: string, fallback: string, context?: any): string {
+    return translate(key, this.resolveLanguage(context), fallback);
+  }
+
+  /**
+   * Language for replies: the configured one, or with 'auto' the language detected for the command
+   */
+  private resolveLanguage(context?: any, detectedLanguage?: string): CommandLocale {
+    if (this.config.language !== 'auto') {
+      return this.config.language;
+    }
 
-    const lang = this.config.language === 'auto' ? 'en' : this.config.language;
-    const langTranslations = translations[lang] || translations.en;
-    return langTranslations[key] || fallback;
+    const language = detectedLanguage ?? context?.language;
+    return isFeedbackLanguage(language) ? language : 'en';
   }
 
   /**
@@ -1272,9 +1193,9 @@ export interface FeedbackTemplate {
 // Status feedback template
 class StatusFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { status, context, config } = data;
+    const { status, context, config, language } = data;
     
-    const localizedText = this.getLocalizedText(status.status, status.status);
+    const localizedText = translate(status.status, language, status.status);
     const emoji = this.getEmoji(status.status);
     
     return {
@@ -1287,7 +1208,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
         currentStep: status.currentStep,
         totalSteps: status.totalSteps,
       },
-      actions: this.createStatusActions(status),
+      actions: this.createStatusActions(status, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -1299,18 +1220,6 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private getLocalizedText(key: string, fallback: string): string {
-    // This would use the same localization logic as FeedbackGenerator
-    const translations: Record<string, string> = {
-      processing: 'Processing...',
-      success: 'Success!',
-      error: 'Error',
-      warning: 'Warning',
-      info: 'Information',
-    };
-    return translations[key] || fallback;
-  }
-
   private getEmoji(status: string): string {
     const emojis: Record<string, string> = {
       processing: '⏳',
@@ -1322,14 +1231,14 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
     return emojis[status] || '';
   }
 
-  private createStatusActions(status: UIStatus): FeedbackAction[] {
+  private createStatusActions(status: UIStatus, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (status.status === 'error') {
       actions.push({
         id: 'retry',
         type: 'primary',
-        label: 'Retry',
+        label: translate('retry', language, 'Retry'),
         action: 'retry',
         icon: '🔄',
         style: { variant: 'contained', color: '#007bff' },
@@ -1340,7 +1249,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'cancel',
         type: 'secondary',
-        label: 'Cancel',
+        label: translate('cancel', language, 'Cancel'),
         action: 'cancel',
         icon: '❌',
         style: { variant: 'outlined', color: '#dc3545' },
@@ -1358,7 +1267,7 @@ class StatusFeedbackTemplate implements FeedbackTemplate {
 // Command results feedback template
 class CommandResultsFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { commands, results, summary, context, config } = data;
+    const { commands, results, summary, context, config, language } = data;
     
     const successCount = results.filter(r => r && r.success !== false).length;
     const totalCount = commands.length;
@@ -1367,7 +1276,9 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     return {
       id: this.generateId(),
       type: allSuccess ? 'success' : 'warning',
-      title: allSuccess ? 'Commands Completed' : 'Partial Success',
+      title: allSuccess
+        ? translate('commands_completed', language, 'Commands Completed')
+        : translate('partial_success', language, 'Partial Success'),
       message: summary.description,
       details: {
         summary,
@@ -1377,7 +1288,7 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
           success: results[index]?.success !== false,
         })),
       },
-      actions: this.createCommandActions(commands, results, allSuccess),
+      actions: this.createCommandActions(commands, results, allSuccess, language),
       metadata: {
         category: 'execution',
         priority: allSuccess ? 'normal' : 'high',
@@ -1389,14 +1300,19 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createCommandActions(commands: any[], results: any[], allSuccess: boolean): FeedbackAction[] {
+  private createCommandActions(
+    commands: any[],
+    results: any[],
+    allSuccess: boolean,
+    language: CommandLocale
+  ): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (!allSuccess) {
       actions.push({
         id: 'retry_failed',
         type: 'primary',
-        label: 'Retry Failed Commands',
+        label: translate('retry_failed', language, 'Retry Failed Commands'),
         action: 'retry',
         icon: '🔄',
         style: { variant: 'contained', color: '#007bff' },
@@ -1406,7 +1322,7 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'view_details',
       type: 'secondary',
-      label: 'View Details',
+      label: translate('view_details', language, 'View Details'),
       action: 'show_details',
       icon: '📋',
       style: { variant: 'outlined', color: '#6c757d' },
@@ -1446,19 +1362,19 @@ class CommandResultsFeedbackTemplate implements FeedbackTemplate {
 // Error feedback template
 class ErrorFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { error, context, config } = data;
+    const { error, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: 'error',
-      title: 'Error',
+      title: translate('error', language, 'Error'),
       message: error.message,
       details: {
         code: error.code,
         timestamp: error.timestamp,
         stack: error.stack,
       },
-      actions: this.createErrorActions(error),
+      actions: this.createErrorActions(error, language),
       metadata: {
         category: 'error',
         priority: 'high',
@@ -1467,20 +1383,20 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
         suggestions: this.generateErrorSuggestions(error),
         learnMore: {
           url: this.getHelpUrl(error.code),
-          text: 'Get help with this error',
+          text: translate('error_help', language, 'Get help with this error'),
         },
       },
       timestamp: Date.now(),
     };
   }
 
-  private createErrorActions(error: any): FeedbackAction[] {
+  private createErrorActions(error: any, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'retry',
       type: 'primary',
-      label: 'Try Again',
+      label: translate('try_again', language, 'Try Again'),
       action: 'retry',
       icon: '🔄',
       style: { variant: 'contained', color: '#007bff' },
@@ -1489,7 +1405,7 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'report',
       type: 'secondary',
-      label: 'Report Issue',
+      label: translate('report_issue', language, 'Report Issue'),
       action: 'report',
       url: 'https://github.com/ray-extension/issues',
       icon: '🐛',
@@ -1540,23 +1456,25 @@ class ErrorFeedbackTemplate implements FeedbackTemplate {
 // Parsing feedback template
 class ParsingFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { result, context, config } = data;
+    const { result, context, config, language } = data;
     
     const needsClarification = result.requiresClarification || result.confidence < 0.5;
     
     return {
       id: this.generateId(),
       type: needsClarification ? 'warning' : 'info',
-      title: needsClarification ? 'Needs Clarification' : 'Parsing Complete',
+      title: needsClarification
+        ? translate('needs_clarification', language, 'Needs Clarification')
+        : translate('parsing_complete', language, 'Parsing Complete'),
       message: needsClarification ? 
-        result.clarificationQuestion || 'Please provide more details' : 
-        'Command parsed successfully',
+        result.clarificationQuestion || translate('more_details_needed', language, 'Please provide more details') : 
+        translate('command_parsed', language, 'Command parsed successfully'),
       details: {
         confidence: result.confidence,
         commands: result.commands,
         warnings: result.warnings,
       },
-      actions: this.createParsingActions(result, needsClarification),
+      actions: this.createParsingActions(result, needsClarification, language),
       metadata: {
         category: 'parsing',
         priority: needsClarification ? 'high' : 'normal',
@@ -1568,14 +1486,14 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createParsingActions(result: any, needsClarification: boolean): FeedbackAction[] {
+  private createParsingActions(result: any, needsClarification: boolean, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (needsClarification) {
       actions.push({
         id: 'clarify',
         type: 'primary',
-        label: 'Provide More Details',
+        label: translate('provide_details', language, 'Provide More Details'),
         action: 'clarify',
         icon: '💬',
         style: { variant: 'contained', color: '#007bff' },
@@ -1586,7 +1504,7 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'execute_anyway',
         type: 'secondary',
-        label: 'Execute Anyway',
+        label: translate('execute_anyway', language, 'Execute Anyway'),
         action: 'execute',
         icon: '⚡',
         style: { variant: 'outlined', color: '#6c757d' },
@@ -1619,21 +1537,23 @@ class ParsingFeedbackTemplate implements FeedbackTemplate {
 // Validation feedback template
 class ValidationFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { result, context, config } = data;
+    const { result, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: result.isValid ? 'success' : 'error',
-      title: result.isValid ? 'Validation Passed' : 'Validation Failed',
+      title: result.isValid
+        ? translate('validation_passed', language, 'Validation Passed')
+        : translate('validation_failed', language, 'Validation Failed'),
       message: result.isValid ? 
-        'Commands are valid and ready to execute' : 
-        'Commands failed validation',
+        translate('commands_valid', language, 'Commands are valid and ready to execute') : 
+        translate('commands_invalid', language, 'Commands failed validation'),
       details: {
         errors: result.errors,
         warnings: result.warnings,
         sanitizedCommands: result.sanitizedCommands,
       },
-      actions: this.createValidationActions(result),
+      actions: this.createValidationActions(result, language),
       metadata: {
         category: 'validation',
         priority: result.isValid ? 'normal' : 'high',
@@ -1645,14 +1565,14 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createValidationActions(result: any): FeedbackAction[] {
+  private createValidationActions(result: any, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     if (!result.isValid) {
       actions.push({
         id: 'fix_issues',
         type: 'primary',
-        label: 'Fix Issues',
+        label: translate('fix_issues', language, 'Fix Issues'),
         action: 'fix',
         icon: '🔧',
         style: { variant: 'contained', color: '#007bff' },
@@ -1663,7 +1583,7 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
       actions.push({
         id: 'execute_sanitized',
         type: 'secondary',
-        label: 'Execute Sanitized Commands',
+        label: translate('execute_sanitized', language, 'Execute Sanitized Commands'),
         action: 'execute_sanitized',
         icon: '⚡',
         style: { variant: 'outlined', color: '#28a745' },
@@ -1697,18 +1617,18 @@ class ValidationFeedbackTemplate implements FeedbackTemplate {
 // Suggestion feedback template
 class SuggestionFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { type, message, context, config } = data;
+    const { type, message, context, config, language } = data;
     
     return {
       id: this.generateId(),
       type: 'suggestion',
-      title: 'Suggestion',
+      title: translate('suggestion', language, 'Suggestion'),
       message,
       details: {
         suggestionType: type,
         context,
       },
-      actions: this.createSuggestionActions(type, message),
+      actions: this.createSuggestionActions(type, message, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -1720,13 +1640,13 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createSuggestionActions(type: string, message: string): FeedbackAction[] {
+  private createSuggestionActions(type: string, message: string, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'accept',
       type: 'primary',
-      label: 'Accept',
+      label: translate('accept', language, 'Accept'),
       action: 'accept',
       icon: '✅',
       style: { variant: 'contained', color: '#28a745' },
@@ -1735,7 +1655,7 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
     actions.push({
       id: 'dismiss',
       type: 'secondary',
-      label: 'Dismiss',
+      label: translate('dismiss', language, 'Dismiss'),
       action: 'dismiss',
       icon: '❌',
       style: { variant: 'outlined', color: '#6c757d' },
@@ -1752,15 +1672,19 @@ class SuggestionFeedbackTemplate implements FeedbackTemplate {
 // Progress feedback template
 class ProgressFeedbackTemplate implements FeedbackTemplate {
   generate(data: any): UserFeedback {
-    const { current, total, currentStep, context, config } = data;
+    const { current, total, currentStep, context, config, language } = data;
     
     const percentage = Math.round((current / total) * 100);
-    const progressText = `${current} of ${total} (${percentage}%)`;
+    const progressText = translate('progress', language, `${current} of ${total} (${percentage}%)`, {
+      current,
+      total,
+      percentage,
+    });
     
     return {
       id: this.generateId(),
       type: 'info',
-      title: 'Processing',
+      title: translate('processing', language, 'Processing'),
       message: currentStep || progressText,
       details: {
         current,
@@ -1768,7 +1692,7 @@ class ProgressFeedbackTemplate implements FeedbackTemplate {
         percentage,
         currentStep,
       },
-      actions: this.createProgressActions(current, total),
+      actions: this.createProgressActions(current, total, language),
       metadata: {
         category: 'general',
         priority: 'normal',
@@ -1780,13 +1704,13 @@ class ProgressFeedbackTemplate implements FeedbackTemplate {
     };
   }
 
-  private createProgressActions(current: number, total: number): FeedbackAction[] {
+  private createProgressActions(current: number, total: number, language: CommandLocale): FeedbackAction[] {
     const actions: FeedbackAction[] = [];
     
     actions.push({
       id: 'cancel',
       type: 'secondary',
-      label: 'Cancel',
+      label: translate('cancel', language, 'Cancel'),
       action: 'cancel',
       icon: '❌',
       style: { variant: 'outlined', color: '#dc3545' },
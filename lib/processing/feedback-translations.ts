@@ -0,0 +1,265 @@
+/**
+ * Translated feedback text for every supported command language
+ */
+
+import { CommandLocale } from '../commands/types';
+
+export const FEEDBACK_TRANSLATIONS: Record<CommandLocale, Record<string, string>> = {
+  en: {
+    processing: 'Processing...',
+    success: 'Success!',
+    error: 'Error',
+    warning: 'Warning',
+    info: 'Information',
+    waiting: 'Waiting for your answer',
+    command_executed: 'Command executed',
+    commands_executed: 'Commands executed',
+    commands_completed: 'Commands completed',
+    partial_success: 'Partial success',
+    execution_failed: 'Execution failed',
+    parsing_failed: 'Parsing failed',
+    parsing_complete: 'Parsing complete',
+    command_parsed: 'Command parsed successfully',
+    validation_failed: 'Validation failed',
+    validation_passed: 'Validation passed',
+    commands_valid: 'Commands are valid and ready to execute',
+    commands_invalid: 'Commands failed validation',
+    needs_clarification: 'Needs clarification',
+    more_details_needed: 'Please provide more details',
+    provide_details: 'Provide more details',
+    execute_anyway: 'Execute anyway',
+    execute_sanitized: 'Execute sanitized commands',
+    fix_issues: 'Fix issues',
+    suggestion: 'Suggestion',
+    accept: 'Accept',
+    dismiss: 'Dismiss',
+    try_again: 'Try again',
+    retry_failed: 'Retry failed commands',
+    report_issue: 'Report issue',
+    error_help: 'Get help with this error',
+    learn_more: 'Learn more',
+    retry: 'Retry',
+    cancel: 'Cancel',
+    view_details: 'View details',
+    close: 'Close',
+    progress: '{current} of {total} ({percentage}%)',
+  },
+  es: {
+    processing: 'Procesando...',
+    success: '¡Éxito!',
+    error: 'Error',
+    warning: 'Advertencia',
+    info: 'Información',
+    waiting: 'Esperando tu respuesta',
+    command_executed: 'Comando ejecutado',
+    commands_executed: 'Comandos ejecutados',
+    commands_completed: 'Comandos completados',
+    partial_success: 'Éxito parcial',
+    execution_failed: 'La ejecución falló',
+    parsing_failed: 'El análisis falló',
+    parsing_complete: 'Análisis completado',
+    command_parsed: 'Comando analizado correctamente',
+    validation_failed: 'La validación falló',
+    validation_passed: 'Validación superada',
+    commands_valid: 'Los comandos son válidos y están listos para ejecutarse',
+    commands_invalid: 'Los comandos no superaron la validación',
+    needs_clarification: 'Necesita aclaración',
+    more_details_needed: 'Por favor, proporciona más detalles',
+    provide_details: 'Dar más detalles',
+    execute_anyway: 'Ejecutar de todos modos',
+    execute_sanitized: 'Ejecutar comandos depurados',
+    fix_issues: 'Corregir problemas',
+    suggestion: 'Sugerencia',
+    accept: 'Aceptar',
+    dismiss: 'Descartar',
+    try_again: 'Intentar de nuevo',
+    retry_failed: 'Reintentar comandos fallidos',
+    report_issue: 'Informar de un problema',
+    error_help: 'Obtener ayuda con este error',
+    learn_more: 'Aprender más',
+    retry: 'Reintentar',
+    cancel: 'Cancelar',
+    view_details: 'Ver detalles',
+    close: 'Cerrar',
+    progress: '{current} de {total} ({percentage}%)',
+  },
+  fr: {
+    processing: 'Traitement en cours...',
+    success: 'Succès!',
+    error: 'Erreur',
+    warning: 'Avertissement',
+    info: 'Information',
+    waiting: 'En attente de votre réponse',
+    command_executed: 'Commande exécutée',
+    commands_executed: 'Commandes exécutées',
+    commands_completed: 'Commandes terminées',
+    partial_success: 'Succès partiel',
+    execution_failed: 'L\'exécution a échoué',
+    parsing_failed: 'L\'analyse a échoué',
+    parsing_complete: 'Analyse terminée',
+    command_parsed: 'Commande analysée avec succès',
+    validation_failed: 'La validation a échoué',
+    validation_passed: 'Validation réussie',
+    commands_valid: 'Les commandes sont valides et prêtes à être exécutées',
+    commands_invalid: 'Les commandes n\'ont pas passé la validation',
+    needs_clarification: 'Nécessite une clarification',
+    more_details_needed: 'Veuillez fournir plus de détails',
+    provide_details: 'Fournir plus de détails',
+    execute_anyway: 'Exécuter quand même',
+    execute_sanitized: 'Exécuter les commandes nettoyées',
+    fix_issues: 'Corriger les problèmes',
+    suggestion: 'Suggestion',
+    accept: 'Accepter',
+    dismiss: 'Ignorer',
+    try_again: 'Réessayer',
+    retry_failed: 'Relancer les commandes échouées',
+    report_issue: 'Signaler un problème',
+    error_help: 'Obtenir de l\'aide sur cette erreur',
+    learn_more: 'En savoir plus',
+    retry: 'Réessayer',
+    cancel: 'Annuler',
+    view_details: 'Voir les détails',
+    close: 'Fermer',
+    progress: '{current} sur {total} ({percentage}%)',
+  },
+  de: {
+    processing: 'Wird verarbeitet...',
+    success: 'Erfolgreich!',
+    error: 'Fehler',
+    warning: 'Warnung',
+    info: 'Information',
+    waiting: 'Warte auf deine Antwort',
+    command_executed: 'Befehl ausgeführt',
+    commands_executed: 'Befehle ausgeführt',
+    commands_completed: 'Befehle abgeschlossen',
+    partial_success: 'Teilweise erfolgreich',
+    execution_failed: 'Ausführung fehlgeschlagen',
+    parsing_failed: 'Analyse fehlgeschlagen',
+    parsing_complete: 'Analyse abgeschlossen',
+    command_parsed: 'Befehl erfolgreich analysiert',
+    validation_failed: 'Validierung fehlgeschlagen',
+    validation_passed: 'Validierung bestanden',
+    commands_valid: 'Die Befehle sind gültig und bereit zur Ausführung',
+    commands_invalid: 'Die Befehle haben die Validierung nicht bestanden',
+    needs_clarification: 'Rückfrage nötig',
+    more_details_needed: 'Bitte gib mehr Details an',
+    provide_details: 'Mehr Details angeben',
+    execute_anyway: 'Trotzdem ausführen',
+    execute_sanitized: 'Bereinigte Befehle ausführen',
+    fix_issues: 'Probleme beheben',
+    suggestion: 'Vorschlag',
+    accept: 'Annehmen',
+    dismiss: 'Verwerfen',
+    try_again: 'Erneut versuchen',
+    retry_failed: 'Fehlgeschlagene Befehle wiederholen',
+    report_issue: 'Problem melden',
+    error_help: 'Hilfe zu diesem Fehler',
+    learn_more: 'Mehr erfahren',
+    retry: 'Wiederholen',
+    cancel: 'Abbrechen',
+    view_details: 'Details anzeigen',
+    close: 'Schließen',
+    progress: '{current} von {total} ({percentage}%)',
+  },
+  pt: {
+    processing: 'Processando...',
+    success: 'Sucesso!',
+    error: 'Erro',
+    warning: 'Aviso',
+    info: 'Informação',
+    waiting: 'Aguardando sua resposta',
+    command_executed: 'Comando executado',
+    commands_executed: 'Comandos executados',
+    commands_completed: 'Comandos concluídos',
+    partial_success: 'Sucesso parcial',
+    execution_failed: 'A execução falhou',
+    parsing_failed: 'A análise falhou',
+    parsing_complete: 'Análise concluída',
+    command_parsed: 'Comando analisado com sucesso',
+    validation_failed: 'A validação falhou',
+    validation_passed: 'Validação aprovada',
+    commands_valid: 'Os comandos são válidos e estão prontos para execução',
+    commands_invalid: 'Os comandos não passaram na validação',
+    needs_clarification: 'Precisa de esclarecimento',
+    more_details_needed: 'Por favor, forneça mais detalhes',
+    provide_details: 'Fornecer mais detalhes',
+    execute_anyway: 'Executar mesmo assim',
+    execute_sanitized: 'Executar comandos higienizados',
+    fix_issues: 'Corrigir problemas',
+    suggestion: 'Sugestão',
+    accept: 'Aceitar',
+    dismiss: 'Dispensar',
+    try_again: 'Tentar novamente',
+    retry_failed: 'Repetir comandos com falha',
+    report_issue: 'Relatar problema',
+    error_help: 'Obter ajuda com este erro',
+    learn_more: 'Saiba mais',
+    retry: 'Repetir',
+    cancel: 'Cancelar',
+    view_details: 'Ver detalhes',
+    close: 'Fechar',
+    progress: '{current} de {total} ({percentage}%)',
+  },
+  ja: {
+    processing: '処理中...',
+    success: '成功しました！',
+    error: 'エラー',
+    warning: '警告',
+    info: '情報',
+    waiting: '回答を待っています',
+    command_executed: 'コマンドを実行しました',
+    commands_executed: 'コマンドを実行しました',
+    commands_completed: 'コマンドが完了しました',
+    partial_success: '一部成功',
+    execution_failed: '実行に失敗しました',
+    parsing_failed: '解析に失敗しました',
+    parsing_complete: '解析が完了しました',
+    command_parsed: 'コマンドを正しく解析しました',
+    validation_failed: '検証に失敗しました',
+    validation_passed: '検証に合格しました',
+    commands_valid: 'コマンドは有効で、実行できます',
+    commands_invalid: 'コマンドが検証に失敗しました',
+    needs_clarification: '確認が必要です',
+    more_details_needed: '詳細を教えてください',
+    provide_details: '詳細を入力',
+    execute_anyway: 'このまま実行',
+    execute_sanitized: '修正済みのコマンドを実行',
+    fix_issues: '問題を修正',
+    suggestion: '提案',
+    accept: '承認',
+    dismiss: '閉じる',
+    try_again: 'もう一度試す',
+    retry_failed: '失敗したコマンドを再試行',
+    report_issue: '問題を報告',
+    error_help: 'このエラーのヘルプ',
+    learn_more: '詳しく見る',
+    retry: '再試行',
+    cancel: 'キャンセル',
+    view_details: '詳細を表示',
+    close: '閉じる',
+    progress: '{current} / {total} ({percentage}%)',
+  },
+};
+
+/**
+ * Translated text for a key, falling back to English and then to the given fallback
+ * `{name}` placeholders are filled from params
+ */
+export function translate(
+  key: string,
+  language: CommandLocale,
+  fallback: string,
+  params: Record<string, string | number> = {}
+): string {
+  const text = FEEDBACK_TRANSLATIONS[language]?.[key] ?? FEEDBACK_TRANSLATIONS.en[key] ?? fallback;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Narrow a detected language code to one with translations
+ */
+export function isFeedbackLanguage(language: unknown): language is CommandLocale {
+  return typeof language === 'string' && language in FEEDBACK_TRANSLATIONS;
+}
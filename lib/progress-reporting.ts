@@ -3,13 +3,13 @@
  * Handles status reporting to Casey and other components
  */
 
-import { AutomationResponse, WorkflowState } from './automation-types';
+import { AutomationResponse, SelectorHeal, WorkflowState } from './automation-types';
 import { chromeApi } from './chrome-api-wrappers';
 
 export interface ProgressReport {
   workflowId?: string;
   stepNumber?: number;
-  type: 'workflow_start' | 'workflow_complete' | 'workflow_error' | 'workflow_cancelled' | 'step_start' | 'step_complete' | 'step_error';
+  type: 'workflow_start' | 'workflow_complete' | 'workflow_error' | 'workflow_cancelled' | 'step_start' | 'step_complete' | 'step_error' | 'selector_healed';
   timestamp: number;
   data?: any;
   message?: string;
@@ -271,6 +271,32 @@ export class ProgressReporting {
     });
   }
 
+  /**
+   * Report a step whose broken selector was healed from its recorded fingerprint
+   * Never throttled, so every heal reaches the listeners that write it back
+   */
+  async reportSelectorHealed(
+    workflowId: string,
+    heal: SelectorHeal,
+    options: ProgressOptions = {}
+  ): Promise<void> {
+    const report: ProgressReport = {
+      workflowId,
+      stepNumber: heal.stepNumber,
+      type: 'selector_healed',
+      timestamp: Date.now(),
+      message: `Healed selector ${heal.previousSelector} -> ${heal.selector} (${Math.round(heal.score * 100)}% match)`,
+      data: heal
+    };
+
+    await this.sendReport(report, { ...options, throttleMs: 0 });
+
+    const workflowProgress = this.workflowProgress.get(workflowId);
+    if (workflowProgress) {
+      workflowProgress.warnings.push(report.message!);
+    }
+  }
+
   /**
    * Send progress report
    */
@@ -281,7 +307,7 @@ export class ProgressReporting {
     const lastTime = this.lastReportTime.get(report.workflowId || 'global') || 0;
     const now = Date.now();
     
-    if (now - lastTime < (mergedOptions.throttleMs || 100)) {
+    if (now - lastTime < (mergedOptions.throttleMs ?? 100)) {
       return; // Throttled
     }
     
@@ -536,13 +562,13 @@ export const progressReporting = new ProgressReporting(); * Progress reporting f
  * Handles status reporting to Casey and other components
  */
 
-import { AutomationResponse, WorkflowState } from './automation-types';
+import { AutomationResponse, SelectorHeal, WorkflowState } from './automation-types';
 import { chromeApi } from './chrome-api-wrappers';
 
 export interface ProgressReport {
   workflowId?: string;
   stepNumber?: number;
-  type: 'workflow_start' | 'workflow_complete' | 'workflow_error' | 'workflow_cancelled' | 'step_start' | 'step_complete' | 'step_error';
+  type: 'workflow_start' | 'workflow_complete' | 'workflow_error' | 'workflow_cancelled' | 'step_start' | 'step_complete' | 'step_error' | 'selector_healed';
   timestamp: number;
   data?: any;
   message?: string;
@@ -804,6 +830,32 @@ export class ProgressReporting {
     });
   }
 
+  /**
+   * Report a step whose broken selector was healed from its recorded fingerprint
+   * Never throttled, so every heal reaches the listeners that write it back
+   */
+  async reportSelectorHealed(
+    workflowId: string,
+    heal: SelectorHeal,
+    options: ProgressOptions = {}
+  ): Promise<void> {
+    const report: ProgressReport = {
+      workflowId,
+      stepNumber: heal.stepNumber,
+      type: 'selector_healed',
+      timestamp: Date.now(),
+      message: `Healed selector ${heal.previousSelector} -> ${heal.selector} (${Math.round(heal.score * 100)}% match)`,
+      data: heal
+    };
+
+    await this.sendReport(report, { ...options, throttleMs: 0 });
+
+    const workflowProgress = this.workflowProgress.get(workflowId);
+    if (workflowProgress) {
+      workflowProgress.warnings.push(report.message!);
+    }
+  }
+
   /**
    * Send progress report
    */
@@ -814,7 +866,7 @@ export class ProgressReporting {
     const lastTime = this.lastReportTime.get(report.workflowId || 'global') || 0;
     const now = Date.now();
     
-    if (now - lastTime < (mergedOptions.throttleMs || 100)) {
+    if (now - lastTime < (mergedOptions.throttleMs ?? 100)) {
       return; // Throttled
     }
     
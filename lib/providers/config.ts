@@ -0,0 +1,82 @@
+/**
+ * LLM provider definitions
+ */
+
+import { OPENROUTER_CONFIG } from '../openrouter/config';
+import { ProviderDefinition, ProviderId, ProviderSettings } from './types';
+
+export const PROVIDER_SETTINGS_STORAGE_KEY = 'llm_provider_settings';
+
+export const PROVIDER_DEFINITIONS: Record<ProviderId, ProviderDefinition> = {
+  openrouter: {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    baseUrl: OPENROUTER_CONFIG.BASE_URL,
+    defaultModel: OPENROUTER_CONFIG.DEFAULT_MODEL,
+    fallbackModels: ['openai/gpt-oss-20b:free'],
+    requiresApiKey: true,
+    apiKeyPattern: /^sk-or-[A-Za-z0-9_-]{16,}$/,
+    headers: {
+      'HTTP-Referer': 'https://ray-extension.com',
+      'X-Title': 'Ray Chrome Extension',
+    },
+    models: [
+      { id: OPENROUTER_CONFIG.DEFAULT_MODEL, name: 'GLM 4.5 Air (free)' },
+      { id: 'openai/gpt-4o-mini', name: 'GPT-4o mini', capabilities: { vision: true } },
+      { id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', capabilities: { vision: true } },
+      { id: 'meta-llama/llama-3.1-8b-instruct:free', name: 'Llama 3.1 8B (free)', capabilities: { tools: false } },
+      { id: 'openai/gpt-oss-20b:free', name: 'gpt-oss-20b (free)' },
+    ],
+    capabilities: { streaming: true, tools: true, vision: false },
+  },
+
+  // Any endpoint implementing the OpenAI chat completions API (OpenAI, vLLM, LM Studio, ...)
+  'openai-compatible': {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    baseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    requiresApiKey: false,
+    headers: {},
+    models: [
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini', capabilities: { vision: true } },
+      { id: 'gpt-4o', name: 'GPT-4o', capabilities: { vision: true } },
+    ],
+    capabilities: { streaming: true, tools: true, vision: false },
+  },
+
+  // Local Ollama server; a llama.cpp server works with its own base URL (http://localhost:8080/v1)
+  ollama: {
+    id: 'ollama',
+    name: 'Ollama (local)',
+    baseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    requiresApiKey: false,
+    headers: {},
+    models: [
+      { id: 'llama3.1', name: 'Llama 3.1' },
+      { id: 'qwen2.5', name: 'Qwen 2.5', capabilities: { tools: true } },
+      { id: 'llava', name: 'LLaVA', capabilities: { vision: true } },
+    ],
+    capabilities: { streaming: true, tools: false, vision: false },
+  },
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  activeProvider: 'openrouter',
+  providers: {},
+};
+
+/**
+ * Check whether a string names a known provider
+ */
+export function isProviderId(value: any): value is ProviderId {
+  return typeof value === 'string' && value in PROVIDER_DEFINITIONS;
+}
+
+/**
+ * Storage key holding a provider's API key (`openrouter_api_key`, `ollama_api_key`, ...)
+ */
+export function getProviderKeyStorageKey(id: ProviderId): string {
+  return `${id.replace(/-/g, '_')}_api_key`;
+}
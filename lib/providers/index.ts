@@ -0,0 +1,47 @@
+/**
+ * Pluggable LLM provider layer
+ */
+
+import { OllamaProvider, OpenAICompatibleProvider, OpenRouterProvider } from './openai-compatible-provider';
+import { LLMProvider, ProviderConfig, ProviderId } from './types';
+
+export type {
+  LLMProvider,
+  ProviderCapabilities,
+  ProviderConfig,
+  ProviderDefinition,
+  ProviderId,
+  ProviderModel,
+  ProviderPreferences,
+  ProviderSettings,
+} from './types';
+
+export {
+  PROVIDER_DEFINITIONS,
+  PROVIDER_SETTINGS_STORAGE_KEY,
+  DEFAULT_PROVIDER_SETTINGS,
+  isProviderId,
+  getProviderKeyStorageKey,
+} from './config';
+
+export {
+  OpenAICompatibleProvider,
+  OpenRouterProvider,
+  OllamaProvider,
+} from './openai-compatible-provider';
+
+/**
+ * Create a provider adapter by id
+ */
+export function createProvider(id: ProviderId, config: ProviderConfig = {}): LLMProvider {
+  switch (id) {
+    case 'openrouter':
+      return new OpenRouterProvider(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    default:
+      throw new Error(`Unknown LLM provider: ${id}`);
+  }
+}
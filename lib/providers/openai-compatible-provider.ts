@@ -0,0 +1,176 @@
+/**
+ * Provider adapters for OpenAI-style chat completion endpoints
+ */
+
+import { OpenRouterClient } from '../openrouter/client';
+import { OPENROUTER_CONFIG } from '../openrouter/config';
+import { parsePerTokenPricing } from '../openrouter/pricing';
+import { PROVIDER_DEFINITIONS } from './config';
+import {
+  LLMProvider,
+  ProviderCapabilities,
+  ProviderConfig,
+  ProviderDefinition,
+  ProviderId,
+  ProviderModel
+} from './types';
+
+/**
+ * Generic adapter for any endpoint implementing the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider extends OpenRouterClient implements LLMProvider {
+  readonly id: ProviderId;
+  protected definition: ProviderDefinition;
+  private capabilityOverrides: Partial<ProviderCapabilities>;
+  private models: ProviderModel[];
+
+  constructor(
+    config: ProviderConfig = {},
+    definition: ProviderDefinition = PROVIDER_DEFINITIONS['openai-compatible']
+  ) {
+    const { capabilities, ...clientConfig } = config;
+
+    super({
+      baseUrl: definition.baseUrl,
+      model: definition.defaultModel,
+      fallbackModels: definition.fallbackModels,
+      headers: {
+        'Content-Type': 'application/json',
+        ...definition.headers,
+      },
+      ...clientConfig,
+      apiKey: clientConfig.apiKey ?? '',
+    });
+
+    this.id = definition.id;
+    this.definition = definition;
+    this.capabilityOverrides = capabilities || {};
+    this.models = [...definition.models];
+    this.applyCapabilities();
+  }
+
+  /**
+   * Effective capabilities: provider defaults, narrowed by the model and any user overrides
+   */
+  getCapabilities(): ProviderCapabilities {
+    const model = this.models.find(m => m.id === this.config.model);
+    return {
+      ...this.definition.capabilities,
+      ...model?.capabilities,
+      ...this.capabilityOverrides,
+    };
+  }
+
+  /**
+   * List models available from the endpoint, falling back to the known defaults
+   */
+  async listModels(): Promise<ProviderModel[]> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}${OPENROUTER_CONFIG.MODELS_ENDPOINT}`, {
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(this.config.timeout ?? OPENROUTER_CONFIG.REQUEST_TIMEOUT),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Model list request failed: ${response.status}`);
+      }
+
+      const models = this.parseModelList(await response.json());
+      if (models.length > 0) {
+        // Remember reported capabilities for the selected model
+        this.models = models;
+        this.applyCapabilities();
+
+        // Reported prices take precedence over the built-in pricing table
+        models.forEach(model => {
+          if (model.pricing) {
+            this.costTracker?.setModelPricing(model.id, model.pricing);
+          }
+        });
+        return [...models];
+      }
+      return [...this.definition.models];
+    } catch {
+      return [...this.definition.models];
+    }
+  }
+
+  updateConfig(newConfig: ProviderConfig): void {
+    const { capabilities, ...clientConfig } = newConfig;
+    if (capabilities) {
+      this.capabilityOverrides = { ...this.capabilityOverrides, ...capabilities };
+    }
+
+    super.updateConfig(clientConfig);
+    this.applyCapabilities();
+  }
+
+  /**
+   * Map a `/models` response onto provider models
+   */
+  protected parseModelList(data: any): ProviderModel[] {
+    const entries: any[] = Array.isArray(data?.data) ? data.data : [];
+    return entries
+      .filter(entry => typeof entry?.id === 'string')
+      .map(entry => {
+        const known = this.definition.models.find(m => m.id === entry.id);
+        return {
+          id: entry.id,
+          name: entry.name || known?.name || entry.id,
+          contextLength: entry.context_length,
+          capabilities: known?.capabilities,
+        };
+      });
+  }
+
+  /**
+   * Keep client request features in line with the provider capabilities
+   */
+  private applyCapabilities(): void {
+    const capabilities = this.getCapabilities();
+    super.updateConfig({
+      enableStreaming: capabilities.streaming,
+      enableToolCalling: capabilities.tools,
+    });
+  }
+}
+
+/**
+ * OpenRouter adapter
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(config: ProviderConfig = {}) {
+    super(config, PROVIDER_DEFINITIONS.openrouter);
+  }
+
+  /**
+   * OpenRouter reports modalities, supported parameters and pricing for each model
+   */
+  protected parseModelList(data: any): ProviderModel[] {
+    const entries: any[] = Array.isArray(data?.data) ? data.data : [];
+    return super.parseModelList(data).map(model => {
+      const entry = entries.find(e => e?.id === model.id);
+      const inputModalities: string[] = entry?.architecture?.input_modalities || [];
+      const supportedParameters: string[] = entry?.supported_parameters || [];
+
+      return {
+        ...model,
+        pricing: parsePerTokenPricing(entry?.pricing),
+        capabilities: {
+          ...model.capabilities,
+          vision: inputModalities.includes('image'),
+          tools: supportedParameters.includes('tools'),
+        },
+      };
+    });
+  }
+}
+
+/**
+ * Local Ollama (or llama.cpp) server adapter; no API key required
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  constructor(config: ProviderConfig = {}) {
+    super(config, PROVIDER_DEFINITIONS.ollama);
+  }
+}
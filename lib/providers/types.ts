@@ -0,0 +1,86 @@
+/**
+ * LLM provider type definitions
+ */
+
+import { OpenRouterMessage } from '../shared/contracts';
+import { CostTracker } from '../openrouter/cost-tracker';
+import {
+  ModelPricing,
+  ModelRoutes,
+  OpenRouterClientConfig,
+  OpenRouterEventListener,
+  ParsedAIResponse,
+  RateLimitInfo,
+  RayOpenRouterResponse,
+  RequestOptions,
+  UsageStats
+} from '../openrouter/types';
+
+export type ProviderId = 'openrouter' | 'openai-compatible' | 'ollama';
+
+// Features a provider (or one of its models) supports
+export interface ProviderCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  vision: boolean;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  contextLength?: number;
+  capabilities?: Partial<ProviderCapabilities>;
+  pricing?: ModelPricing;
+}
+
+// Static description of a provider and its defaults
+export interface ProviderDefinition {
+  id: ProviderId;
+  name: string;
+  baseUrl: string;
+  defaultModel: string;
+  fallbackModels?: string[];
+  requiresApiKey: boolean;
+  apiKeyPattern?: RegExp;
+  headers: Record<string, string>;
+  models: ProviderModel[];
+  capabilities: ProviderCapabilities;
+}
+
+// Runtime configuration for a provider instance
+export interface ProviderConfig extends Partial<OpenRouterClientConfig> {
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+// User-editable settings for a single provider
+export interface ProviderPreferences {
+  baseUrl?: string;
+  model?: string;
+  modelRoutes?: ModelRoutes;
+  fallbackModels?: string[];
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+// Persisted provider selection
+export interface ProviderSettings {
+  activeProvider: ProviderId;
+  providers: Partial<Record<ProviderId, ProviderPreferences>>;
+}
+
+/**
+ * Interface every LLM backend implements
+ */
+export interface LLMProvider {
+  readonly id: ProviderId;
+  chatCompletion(messages: OpenRouterMessage[], options?: RequestOptions): Promise<RayOpenRouterResponse>;
+  parseCommand(command: string, context?: any, options?: RequestOptions): Promise<ParsedAIResponse>;
+  listModels(): Promise<ProviderModel[]>;
+  getCapabilities(): ProviderCapabilities;
+  addEventListener(eventType: string, listener: OpenRouterEventListener): void;
+  removeEventListener(eventType: string, listener: OpenRouterEventListener): void;
+  getUsageStats(): UsageStats;
+  setCostTracker(costTracker: CostTracker | null): void;
+  getRateLimitInfo(): RateLimitInfo | null;
+  clearCache(): void;
+  updateConfig(config: ProviderConfig): void;
+}
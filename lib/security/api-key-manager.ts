@@ -3,6 +3,9 @@
  * Handles secure storage, retrieval, and management of API keys
  */
 
+import { PROVIDER_DEFINITIONS } from '../providers/config';
+import { ProviderId } from '../providers/types';
+
 export interface ApiKeyInfo {
   key: string;
   createdAt: number;
@@ -13,21 +16,26 @@ export interface ApiKeyInfo {
 export class ApiKeyManager {
   private static readonly STORAGE_KEY = 'openrouterApiKey';
   private static readonly METADATA_KEY = 'openrouterApiKeyMetadata';
+  private static readonly PROVIDER_KEY_PREFIX = 'providerApiKey_';
+  private static readonly PROVIDER_METADATA_PREFIX = 'providerApiKeyMetadata_';
 
   /**
    * Store API key securely in chrome.storage.local
    * @param apiKey The API key to store
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is stored
    */
-  static async storeApiKey(apiKey: string): Promise<void> {
+  static async storeApiKey(apiKey: string, provider: ProviderId = 'openrouter'): Promise<void> {
     if (!apiKey || typeof apiKey !== 'string') {
       throw new Error('Invalid API key provided');
     }
 
+    const { keyStorageKey, metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
       // Store the encrypted API key
       await chrome.storage.local.set({
-        [this.STORAGE_KEY]: apiKey
+        [keyStorageKey]: apiKey
       });
 
       // Store metadata for tracking
@@ -38,7 +46,7 @@ export class ApiKeyManager {
       };
 
       await chrome.storage.local.set({
-        [this.METADATA_KEY]: metadata
+        [metadataStorageKey]: metadata
       });
 
     } catch (error) {
@@ -50,19 +58,22 @@ export class ApiKeyManager {
 
   /**
    * Retrieve API key securely from chrome.storage.local
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with the API key or null if not found
    */
-  static async getApiKey(): Promise<string | null> {
+  static async getApiKey(provider: ProviderId = 'openrouter'): Promise<string | null> {
+    const { keyStorageKey } = this.getStorageKeys(provider);
+
     try {
-      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
-      const apiKey = result[this.STORAGE_KEY];
+      const result = await chrome.storage.local.get([keyStorageKey]);
+      const apiKey = result[keyStorageKey];
 
       if (!apiKey || typeof apiKey !== 'string') {
         return null;
       }
 
       // Update last used timestamp
-      await this.updateLastUsed();
+      await this.updateLastUsed(provider);
 
       return apiKey;
     } catch (error) {
@@ -73,11 +84,12 @@ export class ApiKeyManager {
 
   /**
    * Check if an API key exists
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with true if key exists, false otherwise
    */
-  static async hasApiKey(): Promise<boolean> {
+  static async hasApiKey(provider: ProviderId = 'openrouter'): Promise<boolean> {
     try {
-      const apiKey = await this.getApiKey();
+      const apiKey = await this.getApiKey(provider);
       return apiKey !== null && apiKey.length > 0;
     } catch (error) {
       console.error('Failed to check API key existence:', error instanceof Error ? error.message : 'Unknown error');
@@ -87,11 +99,14 @@ export class ApiKeyManager {
 
   /**
    * Remove API key from storage
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is removed
    */
-  static async removeApiKey(): Promise<void> {
+  static async removeApiKey(provider: ProviderId = 'openrouter'): Promise<void> {
+    const { keyStorageKey, metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
-      await chrome.storage.local.remove([this.STORAGE_KEY, this.METADATA_KEY]);
+      await chrome.storage.local.remove([keyStorageKey, metadataStorageKey]);
     } catch (error) {
       console.error('Failed to remove API key:', error instanceof Error ? error.message : 'Unknown error');
       throw new Error('Failed to remove API key');
@@ -101,19 +116,20 @@ export class ApiKeyManager {
   /**
    * Rotate API key with new one
    * @param newApiKey The new API key to replace the old one
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is rotated
    */
-  static async rotateApiKey(newApiKey: string): Promise<void> {
+  static async rotateApiKey(newApiKey: string, provider: ProviderId = 'openrouter'): Promise<void> {
     if (!newApiKey || typeof newApiKey !== 'string') {
       throw new Error('Invalid new API key provided');
     }
 
     try {
       // Remove old key
-      await this.removeApiKey();
+      await this.removeApiKey(provider);
       
       // Store new key
-      await this.storeApiKey(newApiKey);
+      await this.storeApiKey(newApiKey, provider);
     } catch (error) {
       console.error('Failed to rotate API key:', error instanceof Error ? error.message : 'Unknown error');
       throw new Error('Failed to rotate API key');
@@ -122,12 +138,15 @@ export class ApiKeyManager {
 
   /**
    * Get API key metadata without exposing the key itself
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with the API key metadata
    */
-  static async getApiKeyMetadata(): Promise<ApiKeyInfo | null> {
+  static async getApiKeyMetadata(provider: ProviderId = 'openrouter'): Promise<ApiKeyInfo | null> {
+    const { metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
-      const result = await chrome.storage.local.get([this.METADATA_KEY]);
-      return result[this.METADATA_KEY] || null;
+      const result = await chrome.storage.local.get([metadataStorageKey]);
+      return result[metadataStorageKey] || null;
     } catch (error) {
       console.error('Failed to retrieve API key metadata:', error instanceof Error ? error.message : 'Unknown error');
       return null;
@@ -138,13 +157,13 @@ export class ApiKeyManager {
    * Update the last used timestamp for the API key
    * @private
    */
-  private static async updateLastUsed(): Promise<void> {
+  private static async updateLastUsed(provider: ProviderId): Promise<void> {
     try {
-      const metadata = await this.getApiKeyMetadata();
+      const metadata = await this.getApiKeyMetadata(provider);
       if (metadata) {
         metadata.lastUsed = Date.now();
         await chrome.storage.local.set({
-          [this.METADATA_KEY]: metadata
+          [this.getStorageKeys(provider).metadataStorageKey]: metadata
         });
       }
     } catch (error) {
@@ -156,21 +175,46 @@ export class ApiKeyManager {
   /**
    * Validate API key format and basic security requirements
    * @param apiKey The API key to validate
+   * @param provider The provider the key belongs to
    * @returns True if the API key appears valid, false otherwise
    */
-  static validateApiKeyFormat(apiKey: string): boolean {
+  static validateApiKeyFormat(apiKey: string, provider: ProviderId = 'openrouter'): boolean {
+    const definition = PROVIDER_DEFINITIONS[provider];
+
     if (!apiKey || typeof apiKey !== 'string') {
+      // Local and self-hosted endpoints may not need a key at all
+      return apiKey === '' && !definition.requiresApiKey;
+    }
+
+    if (apiKey.trim().length === 0) {
       return false;
     }
 
-    // Basic validation - should be a non-empty string
-    // Add more specific validation based on OpenRouter API key format
-    return apiKey.length > 0 && apiKey.trim().length > 0;
+    return definition.apiKeyPattern ? definition.apiKeyPattern.test(apiKey.trim()) : true;
+  }
+
+  /**
+   * Get the storage keys for a provider's API key and metadata
+   * OpenRouter keeps its original keys so existing installs keep working
+   * @private
+   */
+  private static getStorageKeys(provider: ProviderId): { keyStorageKey: string; metadataStorageKey: string } {
+    if (provider === 'openrouter') {
+      return { keyStorageKey: this.STORAGE_KEY, metadataStorageKey: this.METADATA_KEY };
+    }
+
+    return {
+      keyStorageKey: `${this.PROVIDER_KEY_PREFIX}${provider}`,
+      metadataStorageKey: `${this.PROVIDER_METADATA_PREFIX}${provider}`,
+    };
   }
 } * Secure API Key Management for Ray Chrome Extension
  * Handles secure storage, retrieval, and management of API keys
  */
 
+import { PROVIDER_DEFINITIONS } from '../providers/config';
+import { ProviderId } from '../providers/types';
+
 export interface ApiKeyInfo {
   key: string;
   createdAt: number;
@@ -181,21 +225,26 @@ export interface ApiKeyInfo {
 export class ApiKeyManager {
   private static readonly STORAGE_KEY = 'openrouterApiKey';
   private static readonly METADATA_KEY = 'openrouterApiKeyMetadata';
+  private static readonly PROVIDER_KEY_PREFIX = 'providerApiKey_';
+  private static readonly PROVIDER_METADATA_PREFIX = 'providerApiKeyMetadata_';
 
   /**
    * Store API key securely in chrome.storage.local
    * @param apiKey The API key to store
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is stored
    */
-  static async storeApiKey(apiKey: string): Promise<void> {
+  static async storeApiKey(apiKey: string, provider: ProviderId = 'openrouter'): Promise<void> {
     if (!apiKey || typeof apiKey !== 'string') {
       throw new Error('Invalid API key provided');
     }
 
+    const { keyStorageKey, metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
       // Store the encrypted API key
       await chrome.storage.local.set({
-        [this.STORAGE_KEY]: apiKey
+        [keyStorageKey]: apiKey
       });
 
       // Store metadata for tracking
@@ -206,7 +255,7 @@ export class ApiKeyManager {
       };
 
       await chrome.storage.local.set({
-        [this.METADATA_KEY]: metadata
+        [metadataStorageKey]: metadata
       });
 
     } catch (error) {
@@ -218,19 +267,22 @@ export class ApiKeyManager {
 
   /**
    * Retrieve API key securely from chrome.storage.local
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with the API key or null if not found
    */
-  static async getApiKey(): Promise<string | null> {
+  static async getApiKey(provider: ProviderId = 'openrouter'): Promise<string | null> {
+    const { keyStorageKey } = this.getStorageKeys(provider);
+
     try {
-      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
-      const apiKey = result[this.STORAGE_KEY];
+      const result = await chrome.storage.local.get([keyStorageKey]);
+      const apiKey = result[keyStorageKey];
 
       if (!apiKey || typeof apiKey !== 'string') {
         return null;
       }
 
       // Update last used timestamp
-      await this.updateLastUsed();
+      await this.updateLastUsed(provider);
 
       return apiKey;
     } catch (error) {
@@ -241,11 +293,12 @@ export class ApiKeyManager {
 
   /**
    * Check if an API key exists
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with true if key exists, false otherwise
    */
-  static async hasApiKey(): Promise<boolean> {
+  static async hasApiKey(provider: ProviderId = 'openrouter'): Promise<boolean> {
     try {
-      const apiKey = await this.getApiKey();
+      const apiKey = await this.getApiKey(provider);
       return apiKey !== null && apiKey.length > 0;
     } catch (error) {
       console.error('Failed to check API key existence:', error instanceof Error ? error.message : 'Unknown error');
@@ -255,11 +308,14 @@ export class ApiKeyManager {
 
   /**
    * Remove API key from storage
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is removed
    */
-  static async removeApiKey(): Promise<void> {
+  static async removeApiKey(provider: ProviderId = 'openrouter'): Promise<void> {
+    const { keyStorageKey, metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
-      await chrome.storage.local.remove([this.STORAGE_KEY, this.METADATA_KEY]);
+      await chrome.storage.local.remove([keyStorageKey, metadataStorageKey]);
     } catch (error) {
       console.error('Failed to remove API key:', error instanceof Error ? error.message : 'Unknown error');
       throw new Error('Failed to remove API key');
@@ -269,19 +325,20 @@ export class ApiKeyManager {
   /**
    * Rotate API key with new one
    * @param newApiKey The new API key to replace the old one
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves when the key is rotated
    */
-  static async rotateApiKey(newApiKey: string): Promise<void> {
+  static async rotateApiKey(newApiKey: string, provider: ProviderId = 'openrouter'): Promise<void> {
     if (!newApiKey || typeof newApiKey !== 'string') {
       throw new Error('Invalid new API key provided');
     }
 
     try {
       // Remove old key
-      await this.removeApiKey();
+      await this.removeApiKey(provider);
       
       // Store new key
-      await this.storeApiKey(newApiKey);
+      await this.storeApiKey(newApiKey, provider);
     } catch (error) {
       console.error('Failed to rotate API key:', error instanceof Error ? error.message : 'Unknown error');
       throw new Error('Failed to rotate API key');
@@ -290,12 +347,15 @@ export class ApiKeyManager {
 
   /**
    * Get API key metadata without exposing the key itself
+   * @param provider The provider the key belongs to
    * @returns Promise that resolves with the API key metadata
    */
-  static async getApiKeyMetadata(): Promise<ApiKeyInfo | null> {
+  static async getApiKeyMetadata(provider: ProviderId = 'openrouter'): Promise<ApiKeyInfo | null> {
+    const { metadataStorageKey } = this.getStorageKeys(provider);
+
     try {
-      const result = await chrome.storage.local.get([this.METADATA_KEY]);
-      return result[this.METADATA_KEY] || null;
+      const result = await chrome.storage.local.get([metadataStorageKey]);
+      return result[metadataStorageKey] || null;
     } catch (error) {
       console.error('Failed to retrieve API key metadata:', error instanceof Error ? error.message : 'Unknown error');
       return null;
@@ -306,13 +366,13 @@ export class ApiKeyManager {
    * Update the last used timestamp for the API key
    * @private
    */
-  private static async updateLastUsed(): Promise<void> {
+  private static async updateLastUsed(provider: ProviderId): Promise<void> {
     try {
-      const metadata = await this.getApiKeyMetadata();
+      const metadata = await this.getApiKeyMetadata(provider);
       if (metadata) {
         metadata.lastUsed = Date.now();
         await chrome.storage.local.set({
-          [this.METADATA_KEY]: metadata
+          [this.getStorageKeys(provider).metadataStorageKey]: metadata
         });
       }
     } catch (error) {
@@ -324,15 +384,37 @@ export class ApiKeyManager {
   /**
    * Validate API key format and basic security requirements
    * @param apiKey The API key to validate
+   * @param provider The provider the key belongs to
    * @returns True if the API key appears valid, false otherwise
    */
-  static validateApiKeyFormat(apiKey: string): boolean {
+  static validateApiKeyFormat(apiKey: string, provider: ProviderId = 'openrouter'): boolean {
+    const definition = PROVIDER_DEFINITIONS[provider];
+
     if (!apiKey || typeof apiKey !== 'string') {
+      // Local and self-hosted endpoints may not need a key at all
+      return apiKey === '' && !definition.requiresApiKey;
+    }
+
+    if (apiKey.trim().length === 0) {
       return false;
     }
 
-    // Basic validation - should be a non-empty string
-    // Add more specific validation based on OpenRouter API key format
-    return apiKey.length > 0 && apiKey.trim().length > 0;
+    return definition.apiKeyPattern ? definition.apiKeyPattern.test(apiKey.trim()) : true;
+  }
+
+  /**
+   * Get the storage keys for a provider's API key and metadata
+   * OpenRouter keeps its original keys so existing installs keep working
+   * @private
+   */
+  private static getStorageKeys(provider: ProviderId): { keyStorageKey: string; metadataStorageKey: string } {
+    if (provider === 'openrouter') {
+      return { keyStorageKey: this.STORAGE_KEY, metadataStorageKey: this.METADATA_KEY };
+    }
+
+    return {
+      keyStorageKey: `${this.PROVIDER_KEY_PREFIX}${provider}`,
+      metadataStorageKey: `${this.PROVIDER_METADATA_PREFIX}${provider}`,
+    };
   }
 }
@@ -8,10 +8,12 @@ export interface AutomationCommand {
   id: string;
   type: 'navigate' | 'click' | 'fill' | 'scroll' | 'submit' | 'extract' | 'wait';
   selector?: string;
+  ref?: number; // element ref from a page snapshot, used instead of selector
   value?: string;
   url?: string;
   tabId?: number;
   timeout?: number;
+  inputBackend?: 'auto' | 'synthetic' | 'debugger'; // overrides the backend saved for the page's origin
   options?: Record<string, any>;
 }
 
@@ -22,9 +24,18 @@ export interface UIStatus {
   progress?: number;
   currentStep?: string;
   totalSteps?: number;
+  plan?: string[];
+  clarification?: ClarificationPrompt; // set while status is 'waiting'
   timestamp: number;
 }
 
+// Question put to the user while a request waits for clarification
+export interface ClarificationPrompt {
+  requestId: string;
+  question: string;
+  answers: string[]; // suggested replies
+}
+
 // Security contract (Ellis ↔ All)
 export interface SecurityValidation {
   isValid: boolean;
@@ -45,6 +56,56 @@ export interface AgentMessage {
   priority?: 'low' | 'normal' | 'high' | 'critical';
 }
 
+// Page observation contract (content script → agent loop)
+export interface ObservedElement {
+  selector: string;
+  tag: string;
+  role?: string;
+  text?: string;
+  type?: string;
+  name?: string;
+  placeholder?: string;
+  href?: string;
+}
+
+export interface PageObservation {
+  url: string;
+  title: string;
+  elements: ObservedElement[];
+  tree?: string;
+  timestamp: number;
+}
+
+// Element marked with a numbered box on an annotated screenshot
+export interface VisionElement {
+  ref: number;
+  tag: string;
+  role?: string;
+  text?: string;
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+// Screenshot of the visible tab with numbered element boxes
+export interface AnnotatedScreenshot {
+  image: string; // data URL
+  legend: string;
+  elements: VisionElement[];
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+// Accessibility-style page snapshot with numeric element refs
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  tree: string;
+  refCount: number;
+  truncated: boolean;
+  tokenEstimate: number;
+  timestamp: number;
+}
+
 // Command types for natural language processing
 export interface ParsedCommand {
   intent: string;
@@ -70,9 +131,40 @@ export interface ExecutionContext {
 // OpenRouter API response types
 export interface OpenRouterMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | OpenRouterContentPart[];
+  tool_calls?: OpenRouterToolCall[];
+}
+
+// Multimodal message content for vision-capable models
+export type OpenRouterContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+// Tool (function) calling
+export interface OpenRouterTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
+export type OpenRouterToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
 export interface OpenRouterRequest {
   model: string;
   messages: OpenRouterMessage[];
@@ -80,6 +172,8 @@ export interface OpenRouterRequest {
   max_tokens?: number;
   top_p?: number;
   stream?: boolean;
+  tools?: OpenRouterTool[];
+  tool_choice?: OpenRouterToolChoice;
 }
 
 export interface OpenRouterResponse {
@@ -89,7 +183,7 @@ export interface OpenRouterResponse {
   model: string;
   choices: Array<{
     index: number;
-    message: OpenRouterMessage;
+    message: OpenRouterMessage & { content: string };
     finish_reason: string;
   }>;
   usage: {
@@ -99,6 +193,34 @@ export interface OpenRouterResponse {
   };
 }
 
+// Server-sent event chunk for streaming completions
+export interface OpenRouterStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: Partial<Omit<OpenRouterMessage, 'tool_calls' | 'content'>> & {
+      content?: string;
+      tool_calls?: OpenRouterToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenRouterResponse['usage'];
+}
+
+// Partial tool call fragment within a stream chunk
+export interface OpenRouterToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 // Error types
 export interface RayError {
   code: string;
@@ -136,10 +258,12 @@ export interface AutomationCommand {
   id: string;
   type: 'navigate' | 'click' | 'fill' | 'scroll' | 'submit' | 'extract' | 'wait';
   selector?: string;
+  ref?: number; // element ref from a page snapshot, used instead of selector
   value?: string;
   url?: string;
   tabId?: number;
   timeout?: number;
+  inputBackend?: 'auto' | 'synthetic' | 'debugger'; // overrides the backend saved for the page's origin
   options?: Record<string, any>;
 }
 
@@ -150,9 +274,18 @@ export interface UIStatus {
   progress?: number;
   currentStep?: string;
   totalSteps?: number;
+  plan?: string[];
+  clarification?: ClarificationPrompt; // set while status is 'waiting'
   timestamp: number;
 }
 
+// Question put to the user while a request waits for clarification
+export interface ClarificationPrompt {
+  requestId: string;
+  question: string;
+  answers: string[]; // suggested replies
+}
+
 // Security contract (Ellis ↔ All)
 export interface SecurityValidation {
   isValid: boolean;
@@ -173,6 +306,56 @@ export interface AgentMessage {
   priority?: 'low' | 'normal' | 'high' | 'critical';
 }
 
+// Page observation contract (content script → agent loop)
+export interface ObservedElement {
+  selector: string;
+  tag: string;
+  role?: string;
+  text?: string;
+  type?: string;
+  name?: string;
+  placeholder?: string;
+  href?: string;
+}
+
+export interface PageObservation {
+  url: string;
+  title: string;
+  elements: ObservedElement[];
+  tree?: string;
+  timestamp: number;
+}
+
+// Element marked with a numbered box on an annotated screenshot
+export interface VisionElement {
+  ref: number;
+  tag: string;
+  role?: string;
+  text?: string;
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+// Screenshot of the visible tab with numbered element boxes
+export interface AnnotatedScreenshot {
+  image: string; // data URL
+  legend: string;
+  elements: VisionElement[];
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+// Accessibility-style page snapshot with numeric element refs
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  tree: string;
+  refCount: number;
+  truncated: boolean;
+  tokenEstimate: number;
+  timestamp: number;
+}
+
 // Command types for natural language processing
 export interface ParsedCommand {
   intent: string;
@@ -198,9 +381,40 @@ export interface ExecutionContext {
 // OpenRouter API response types
 export interface OpenRouterMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | OpenRouterContentPart[];
+  tool_calls?: OpenRouterToolCall[];
+}
+
+// Multimodal message content for vision-capable models
+export type OpenRouterContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+// Tool (function) calling
+export interface OpenRouterTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
+export type OpenRouterToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
 export interface OpenRouterRequest {
   model: string;
   messages: OpenRouterMessage[];
@@ -208,6 +422,8 @@ export interface OpenRouterRequest {
   max_tokens?: number;
   top_p?: number;
   stream?: boolean;
+  tools?: OpenRouterTool[];
+  tool_choice?: OpenRouterToolChoice;
 }
 
 export interface OpenRouterResponse {
@@ -217,7 +433,7 @@ export interface OpenRouterResponse {
   model: string;
   choices: Array<{
     index: number;
-    message: OpenRouterMessage;
+    message: OpenRouterMessage & { content: string };
     finish_reason: string;
   }>;
   usage: {
@@ -227,6 +443,34 @@ export interface OpenRouterResponse {
   };
 }
 
+// Server-sent event chunk for streaming completions
+export interface OpenRouterStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: Partial<Omit<OpenRouterMessage, 'tool_calls' | 'content'>> & {
+      content?: string;
+      tool_calls?: OpenRouterToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenRouterResponse['usage'];
+}
+
+// Partial tool call fragment within a stream chunk
+export interface OpenRouterToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 // Error types
 export interface RayError {
   code: string;
@@ -0,0 +1,78 @@
+/**
+ * Table export for extracted data
+ * Formats extracted rows as JSON, CSV or Markdown and removes duplicate rows
+ */
+
+import type { ExtractedTable, TableFormat } from './automation-types';
+
+export const TABLE_FORMATS: TableFormat[] = ['json', 'csv', 'markdown'];
+
+// Leading characters spreadsheets treat as the start of a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?(\d[\d,]*(\.\d+)?|\.\d+)%?$/;
+
+const FILE_TYPES: Record<TableFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+/**
+ * Rows without duplicates, keeping the first of each; rows are the same when their trimmed key columns are
+ */
+export function dedupeRows(rows: Record<string, string>[], keyColumns?: string[]): Record<string, string>[] {
+  const seen = new Set<string>();
+
+  return rows.filter(row => {
+    const columns = keyColumns?.length ? keyColumns : Object.keys(row);
+    const key = JSON.stringify(columns.map(column => (row[column] || '').trim()));
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Format a table's rows
+ */
+export function formatTable(table: Pick<ExtractedTable, 'columns' | 'rows'>, format: TableFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(table.rows, null, 2);
+    case 'csv':
+      return [table.columns, ...table.rows.map(row => table.columns.map(column => row[column] || ''))]
+        .map(cells => cells.map(escapeCsv).join(','))
+        .join('\r\n');
+    case 'markdown':
+      return [
+        toMarkdownRow(table.columns),
+        toMarkdownRow(table.columns.map(() => '---')),
+        ...table.rows.map(row => toMarkdownRow(table.columns.map(column => row[column] || ''))),
+      ].join('\n');
+    default:
+      throw new Error(`Unknown table format: ${format}`);
+  }
+}
+
+/**
+ * File name and MIME type for downloading a table
+ */
+export function getTableFile(name: string, format: TableFormat): { fileName: string; mimeType: string } {
+  const { extension, mimeType } = FILE_TYPES[format];
+  const base = name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'extraction';
+  return { fileName: `${base}.${extension}`, mimeType };
+}
+
+// Quote fields holding separators, quotes or line breaks (RFC 4180)
+// Page text starting like a formula would run as one in a spreadsheet, so it is prefixed to stay text;
+// signed numbers such as -12.50 or +3% are left as numbers
+function escapeCsv(value: string): string {
+  const text = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toMarkdownRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')).join(' | ')} |`;
+}
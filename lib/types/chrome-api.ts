@@ -3,6 +3,8 @@
  * Provides type-safe interfaces for Chrome Extension APIs used across the project
  */
 
+import type { CommandIntent, CommandParameters } from '../commands/types';
+
 export interface TabInfo {
   id: number;
   url: string;
@@ -51,12 +53,14 @@ export interface ExtensionMessage {
  */
 export interface AutomationCommand {
   id: string;
-  type: 'navigate' | 'click' | 'fill' | 'scroll' | 'submit' | 'wait' | 'extract';
+  type: Exclude<CommandIntent, 'unknown'>;
   selector?: string;
+  ref?: number;
   value?: string;
   url?: string;
   tabId?: number;
   timeout?: number;
+  parameters?: CommandParameters; // intent-specific parameters, e.g. query, fileName or fullPage
   options?: Record<string, any>;
 }
 
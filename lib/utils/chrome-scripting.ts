@@ -96,6 +96,55 @@ export async function executeScriptInFrames<T = any>(
   }
 }
 
+/**
+ * Execute a function with arguments in all frames of a tab, cross-origin frames included
+ */
+export async function executeScriptWithArgsInAllFrames<T = any>(
+  tabId: number,
+  func: (...args: any[]) => T,
+  args: any[],
+  world?: 'ISOLATED' | 'MAIN'
+): Promise<chrome.scripting.InjectionResult<chrome.scripting.Awaited<T>>[]> {
+  try {
+    const injection: chrome.scripting.ScriptInjection<any[], T> = {
+      target: { tabId, allFrames: true },
+      func,
+      args,
+      world
+    };
+
+    return await chrome.scripting.executeScript(injection);
+  } catch (error) {
+    console.error('Failed to execute script with args in all frames:', error);
+    throw error;
+  }
+}
+
+/**
+ * Execute a function with arguments in specific frames of a tab
+ */
+export async function executeScriptWithArgsInFrames<T = any>(
+  tabId: number,
+  frameIds: number[],
+  func: (...args: any[]) => T,
+  args: any[],
+  world?: 'ISOLATED' | 'MAIN'
+): Promise<chrome.scripting.InjectionResult<chrome.scripting.Awaited<T>>[]> {
+  try {
+    const injection: chrome.scripting.ScriptInjection<any[], T> = {
+      target: { tabId, frameIds },
+      func,
+      args,
+      world
+    };
+
+    return await chrome.scripting.executeScript(injection);
+  } catch (error) {
+    console.error('Failed to execute script with args in frames:', error);
+    throw error;
+  }
+}
+
 /**
  * Inject CSS into a tab
  */
@@ -304,6 +353,55 @@ export async function executeScriptInFrames<T = any>(
   }
 }
 
+/**
+ * Execute a function with arguments in all frames of a tab, cross-origin frames included
+ */
+export async function executeScriptWithArgsInAllFrames<T = any>(
+  tabId: number,
+  func: (...args: any[]) => T,
+  args: any[],
+  world?: 'ISOLATED' | 'MAIN'
+): Promise<chrome.scripting.InjectionResult<chrome.scripting.Awaited<T>>[]> {
+  try {
+    const injection: chrome.scripting.ScriptInjection<any[], T> = {
+      target: { tabId, allFrames: true },
+      func,
+      args,
+      world
+    };
+
+    return await chrome.scripting.executeScript(injection);
+  } catch (error) {
+    console.error('Failed to execute script with args in all frames:', error);
+    throw error;
+  }
+}
+
+/**
+ * Execute a function with arguments in specific frames of a tab
+ */
+export async function executeScriptWithArgsInFrames<T = any>(
+  tabId: number,
+  frameIds: number[],
+  func: (...args: any[]) => T,
+  args: any[],
+  world?: 'ISOLATED' | 'MAIN'
+): Promise<chrome.scripting.InjectionResult<chrome.scripting.Awaited<T>>[]> {
+  try {
+    const injection: chrome.scripting.ScriptInjection<any[], T> = {
+      target: { tabId, frameIds },
+      func,
+      args,
+      world
+    };
+
+    return await chrome.scripting.executeScript(injection);
+  } catch (error) {
+    console.error('Failed to execute script with args in frames:', error);
+    throw error;
+  }
+}
+
 /**
  * Inject CSS into a tab
  */
@@ -4,16 +4,26 @@
  */
 
 import { ElementSelector, WaitStrategy } from './automation-types';
+import { automationOptimization } from './automation-optimization';
 import { chromeApi } from './chrome-api-wrappers';
-import { domSelectors } from './dom-selectors';
+import type { DomWaitRequest, DomWaitResult } from './dom-waiter';
 
 export interface WaitOptions {
   timeout?: number;
-  interval?: number;
+  interval?: number; // polling interval; element waits react to DOM changes and do not poll
   message?: string;
   throwOnTimeout?: boolean;
 }
 
+export interface WaitForDomStableOptions extends WaitOptions {
+  quietMs?: number; // how long the DOM must go without mutations
+  selector?: ElementSelector; // only watch this element's subtree
+}
+
+export interface WaitForTextOptions extends WaitOptions {
+  selector?: ElementSelector; // only look in this element
+}
+
 export interface WaitForNavigationOptions {
   timeout?: number;
   url?: string;
@@ -34,68 +44,19 @@ export class WaitStrategies {
 
   /**
    * Wait for an element to appear
+   * Unless throwOnTimeout is false, a wait that times out throws instead of resolving unsuccessful
    */
   async waitForElement(
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not found: ${selector.value}`;
-    const throwOnTimeout = options.throwOnTimeout !== false;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (element) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              if (opts.throwOnTimeout !== false) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-              } else {
-                resolve(null);
-              }
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              if (opts.throwOnTimeout !== false) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-              } else {
-                resolve(null);
-              }
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'present', selectors: [selector] },
+      options,
+      `Element not found: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -105,75 +66,13 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not visible: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (!element) {
-              if (Date.now() - startTime > opts.timeout!) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-                return;
-              }
-              
-              setTimeout(checkElement, opts.interval!);
-              return;
-            }
-            
-            // Check if element is visible
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isVisible = (
-              rect.width > 0 &&
-              rect.height > 0 &&
-              style.visibility !== 'hidden' &&
-              style.display !== 'none' &&
-              style.opacity !== '0'
-            );
-            
-            if (isVisible) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become visible within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become visible within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element visibility: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'visible', selectors: [selector] },
+      options,
+      `Element not visible: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -183,71 +82,13 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<boolean> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not hidden: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            
-            if (!element) {
-              resolve(true);
-              return;
-            }
-            
-            // Check if element is hidden
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isHidden = (
-              rect.width === 0 ||
-              rect.height === 0 ||
-              style.visibility === 'hidden' ||
-              style.display === 'none' ||
-              style.opacity === '0'
-            );
-            
-            if (isHidden) {
-              resolve(true);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become hidden within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become hidden within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element to be hidden: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'hidden', selectors: [selector] },
+      options,
+      `Element not hidden: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -257,83 +98,37 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not clickable: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (!element) {
-              if (Date.now() - startTime > opts.timeout!) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-                return;
-              }
-              
-              setTimeout(checkElement, opts.interval!);
-              return;
-            }
-            
-            // Check if element is visible and not disabled
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isVisible = (
-              rect.width > 0 &&
-              rect.height > 0 &&
-              style.visibility !== 'hidden' &&
-              style.display !== 'none' &&
-              style.opacity !== '0'
-            );
-            
-            const isDisabled = (element as HTMLInputElement).disabled;
-            
-            // Check if element is obscured by another element
-            const centerX = rect.left + rect.width / 2;
-            const centerY = rect.top + rect.height / 2;
-            const elementAtPoint = document.elementFromPoint(centerX, centerY);
-            const isObscured = elementAtPoint !== element && !element.contains(elementAtPoint);
-            
-            if (isVisible && !isDisabled && !isObscured) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become clickable within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become clickable within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element to be clickable: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'clickable', selectors: [selector] },
+      options,
+      `Element not clickable: ${selector.value}`,
+      tabId
+    );
+  }
+
+  /**
+   * Wait until the page, or one element of it, has gone quietMs without mutations
+   */
+  async waitForDomStable(options: WaitForDomStableOptions = {}, tabId?: number): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'stable', selectors: options.selector ? [options.selector] : undefined, quietMs: options.quietMs },
+      options,
+      'DOM did not become stable',
+      tabId
+    );
+  }
+
+  /**
+   * Wait for text to appear on the page, or in one element of it
+   */
+  async waitForText(text: string, options: WaitForTextOptions = {}, tabId?: number): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'text', selectors: options.selector ? [options.selector] : undefined, text },
+      options,
+      `Text not found: ${text}`,
+      tabId
+    );
   }
 
   /**
@@ -474,71 +269,13 @@ export class WaitStrategies {
     selectors: ElementSelector[], 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element[]> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || 'Elements not found within timeout';
-    
-    const waitFunction = (selectors: ElementSelector[], opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElements = async () => {
-          try {
-            const elements: Element[] = [];
-            let allFound = true;
-            
-            for (const selector of selectors) {
-              try {
-                const element = await domSelectors.findElement(selector);
-                if (element) {
-                  elements.push(element);
-                } else {
-                  allFound = false;
-                  break;
-                }
-              } catch (error) {
-                allFound = false;
-                break;
-              }
-            }
-            
-            if (allFound) {
-              resolve(elements);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || 'Elements not found within timeout'));
-              return;
-            }
-            
-            setTimeout(checkElements, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || 'Elements not found within timeout'));
-              return;
-            }
-            
-            setTimeout(checkElements, opts.interval!);
-          }
-        };
-        
-        checkElements();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selectors, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for elements: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'all', selectors },
+      options,
+      'Elements not found within timeout',
+      tabId
+    );
   }
 
   /**
@@ -613,6 +350,43 @@ export class WaitStrategies {
   cleanup(): void {
     // No specific cleanup needed for WaitStrategies
   }
+
+  /**
+   * Run a wait in the page's content script and record how long it took
+   */
+  private async waitInPage(
+    request: Omit<DomWaitRequest, 'timeout'>,
+    options: WaitOptions,
+    message: string,
+    tabId?: number
+  ): Promise<DomWaitResult> {
+    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
+
+    let result: DomWaitResult | undefined;
+    try {
+      result = await chromeApi.sendMessage(targetTabId, {
+        type: 'WAIT_FOR_DOM',
+        payload: { ...request, timeout },
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      throw new Error(`Failed to wait for ${request.condition}: ${error.message}`);
+    }
+
+    if (!result?.condition) {
+      throw new Error(`Failed to wait for ${request.condition}: ${result?.error || 'no response from page'}`);
+    }
+
+    const endTime = Date.now();
+    automationOptimization.recordMetrics(`wait_${request.condition}`, endTime - result.elapsed, endTime, result.success);
+
+    if (!result.success && options.throwOnTimeout !== false) {
+      throw new Error(options.message || `${message} (${result.error})`);
+    }
+
+    return result;
+  }
 }
 
 // Export singleton instance for convenience
@@ -621,16 +395,26 @@ export const waitStrategies = new WaitStrategies(); * Wait strategies for browse
  */
 
 import { ElementSelector, WaitStrategy } from './automation-types';
+import { automationOptimization } from './automation-optimization';
 import { chromeApi } from './chrome-api-wrappers';
-import { domSelectors } from './dom-selectors';
+import type { DomWaitRequest, DomWaitResult } from './dom-waiter';
 
 export interface WaitOptions {
   timeout?: number;
-  interval?: number;
+  interval?: number; // polling interval; element waits react to DOM changes and do not poll
   message?: string;
   throwOnTimeout?: boolean;
 }
 
+export interface WaitForDomStableOptions extends WaitOptions {
+  quietMs?: number; // how long the DOM must go without mutations
+  selector?: ElementSelector; // only watch this element's subtree
+}
+
+export interface WaitForTextOptions extends WaitOptions {
+  selector?: ElementSelector; // only look in this element
+}
+
 export interface WaitForNavigationOptions {
   timeout?: number;
   url?: string;
@@ -651,68 +435,19 @@ export class WaitStrategies {
 
   /**
    * Wait for an element to appear
+   * Unless throwOnTimeout is false, a wait that times out throws instead of resolving unsuccessful
    */
   async waitForElement(
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not found: ${selector.value}`;
-    const throwOnTimeout = options.throwOnTimeout !== false;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (element) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              if (opts.throwOnTimeout !== false) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-              } else {
-                resolve(null);
-              }
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              if (opts.throwOnTimeout !== false) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-              } else {
-                resolve(null);
-              }
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'present', selectors: [selector] },
+      options,
+      `Element not found: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -722,75 +457,13 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not visible: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (!element) {
-              if (Date.now() - startTime > opts.timeout!) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-                return;
-              }
-              
-              setTimeout(checkElement, opts.interval!);
-              return;
-            }
-            
-            // Check if element is visible
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isVisible = (
-              rect.width > 0 &&
-              rect.height > 0 &&
-              style.visibility !== 'hidden' &&
-              style.display !== 'none' &&
-              style.opacity !== '0'
-            );
-            
-            if (isVisible) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become visible within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become visible within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element visibility: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'visible', selectors: [selector] },
+      options,
+      `Element not visible: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -800,71 +473,13 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<boolean> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not hidden: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            
-            if (!element) {
-              resolve(true);
-              return;
-            }
-            
-            // Check if element is hidden
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isHidden = (
-              rect.width === 0 ||
-              rect.height === 0 ||
-              style.visibility === 'hidden' ||
-              style.display === 'none' ||
-              style.opacity === '0'
-            );
-            
-            if (isHidden) {
-              resolve(true);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become hidden within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become hidden within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element to be hidden: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'hidden', selectors: [selector] },
+      options,
+      `Element not hidden: ${selector.value}`,
+      tabId
+    );
   }
 
   /**
@@ -874,83 +489,37 @@ export class WaitStrategies {
     selector: ElementSelector, 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || `Element not clickable: ${selector.value}`;
-    
-    const waitFunction = (selector: ElementSelector, opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElement = async () => {
-          try {
-            const element = await domSelectors.findElement(selector);
-            if (!element) {
-              if (Date.now() - startTime > opts.timeout!) {
-                reject(new Error(opts.message || `Element not found within timeout`));
-                return;
-              }
-              
-              setTimeout(checkElement, opts.interval!);
-              return;
-            }
-            
-            // Check if element is visible and not disabled
-            const rect = element.getBoundingClientRect();
-            const style = window.getComputedStyle(element);
-            const isVisible = (
-              rect.width > 0 &&
-              rect.height > 0 &&
-              style.visibility !== 'hidden' &&
-              style.display !== 'none' &&
-              style.opacity !== '0'
-            );
-            
-            const isDisabled = (element as HTMLInputElement).disabled;
-            
-            // Check if element is obscured by another element
-            const centerX = rect.left + rect.width / 2;
-            const centerY = rect.top + rect.height / 2;
-            const elementAtPoint = document.elementFromPoint(centerX, centerY);
-            const isObscured = elementAtPoint !== element && !element.contains(elementAtPoint);
-            
-            if (isVisible && !isDisabled && !isObscured) {
-              resolve(element);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become clickable within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || `Element did not become clickable within timeout`));
-              return;
-            }
-            
-            setTimeout(checkElement, opts.interval!);
-          }
-        };
-        
-        checkElement();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selector, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for element to be clickable: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'clickable', selectors: [selector] },
+      options,
+      `Element not clickable: ${selector.value}`,
+      tabId
+    );
+  }
+
+  /**
+   * Wait until the page, or one element of it, has gone quietMs without mutations
+   */
+  async waitForDomStable(options: WaitForDomStableOptions = {}, tabId?: number): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'stable', selectors: options.selector ? [options.selector] : undefined, quietMs: options.quietMs },
+      options,
+      'DOM did not become stable',
+      tabId
+    );
+  }
+
+  /**
+   * Wait for text to appear on the page, or in one element of it
+   */
+  async waitForText(text: string, options: WaitForTextOptions = {}, tabId?: number): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'text', selectors: options.selector ? [options.selector] : undefined, text },
+      options,
+      `Text not found: ${text}`,
+      tabId
+    );
   }
 
   /**
@@ -1091,71 +660,13 @@ export class WaitStrategies {
     selectors: ElementSelector[], 
     options: WaitOptions = {},
     tabId?: number
-  ): Promise<Element[]> {
-    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const interval = options.interval || this.DEFAULT_INTERVAL;
-    const message = options.message || 'Elements not found within timeout';
-    
-    const waitFunction = (selectors: ElementSelector[], opts: WaitOptions) => {
-      return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        
-        const checkElements = async () => {
-          try {
-            const elements: Element[] = [];
-            let allFound = true;
-            
-            for (const selector of selectors) {
-              try {
-                const element = await domSelectors.findElement(selector);
-                if (element) {
-                  elements.push(element);
-                } else {
-                  allFound = false;
-                  break;
-                }
-              } catch (error) {
-                allFound = false;
-                break;
-              }
-            }
-            
-            if (allFound) {
-              resolve(elements);
-              return;
-            }
-            
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || 'Elements not found within timeout'));
-              return;
-            }
-            
-            setTimeout(checkElements, opts.interval!);
-          } catch (error) {
-            if (Date.now() - startTime > opts.timeout!) {
-              reject(new Error(opts.message || 'Elements not found within timeout'));
-              return;
-            }
-            
-            setTimeout(checkElements, opts.interval!);
-          }
-        };
-        
-        checkElements();
-      });
-    };
-    
-    try {
-      return await chromeApi.executeScript(targetTabId, waitFunction, [selectors, {
-        timeout,
-        interval,
-        message,
-        throwOnTimeout: true
-      }]);
-    } catch (error) {
-      throw new Error(`Failed to wait for elements: ${error.message}`);
-    }
+  ): Promise<DomWaitResult> {
+    return this.waitInPage(
+      { condition: 'all', selectors },
+      options,
+      'Elements not found within timeout',
+      tabId
+    );
   }
 
   /**
@@ -1230,6 +741,43 @@ export class WaitStrategies {
   cleanup(): void {
     // No specific cleanup needed for WaitStrategies
   }
+
+  /**
+   * Run a wait in the page's content script and record how long it took
+   */
+  private async waitInPage(
+    request: Omit<DomWaitRequest, 'timeout'>,
+    options: WaitOptions,
+    message: string,
+    tabId?: number
+  ): Promise<DomWaitResult> {
+    const targetTabId = tabId || (await chromeApi.getActiveTab()).id;
+    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
+
+    let result: DomWaitResult | undefined;
+    try {
+      result = await chromeApi.sendMessage(targetTabId, {
+        type: 'WAIT_FOR_DOM',
+        payload: { ...request, timeout },
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      throw new Error(`Failed to wait for ${request.condition}: ${error.message}`);
+    }
+
+    if (!result?.condition) {
+      throw new Error(`Failed to wait for ${request.condition}: ${result?.error || 'no response from page'}`);
+    }
+
+    const endTime = Date.now();
+    automationOptimization.recordMetrics(`wait_${request.condition}`, endTime - result.elapsed, endTime, result.success);
+
+    if (!result.success && options.throwOnTimeout !== false) {
+      throw new Error(options.message || `${message} (${result.error})`);
+    }
+
+    return result;
+  }
 }
 
 // Export singleton instance for convenience
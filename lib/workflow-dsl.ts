@@ -0,0 +1,536 @@
+/**
+ * Workflow DSL: schema validation and {{variable}} interpolation for declarative workflows
+ * Definitions are plain JSON data, so they can be saved and checked before running
+ */
+
+import {
+  SelectorHeal,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowDslCommand,
+  WorkflowNode,
+  WorkflowValidationResult
+} from './automation-types';
+import { validateAgainstSchema } from './openrouter/tools';
+import { JSONSchema } from './openrouter/types';
+
+export const WORKFLOW_DSL_VERSION = 1;
+export const MAX_LOOP_ITERATIONS = 1000;
+
+// Bound inside forEach bodies: { index, position, count }
+export const LOOP_VARIABLE = 'loop';
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const EXACT_VARIABLE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+// Numeric fields may also hold a {{variable}}
+const NUMBER_OR_VARIABLE: JSONSchema = { type: ['number', 'string'] };
+const TEXT: JSONSchema = { type: 'string', minLength: 1 };
+const TEXT_OR_NUMBER: JSONSchema = { type: ['string', 'number'] };
+const FALLBACK_SELECTORS: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      strategy: { type: 'string', enum: ['css', 'xpath', 'text', 'attribute', 'index', 'locator'] },
+      value: { type: 'string' },
+      attribute: { type: 'string' },
+      index: { type: 'integer' },
+    },
+    required: ['strategy', 'value'],
+    additionalProperties: false,
+  },
+};
+const FINGERPRINT: JSONSchema = {
+  type: 'object',
+  properties: {
+    tag: { type: 'string' },
+    role: { type: 'string' },
+    name: { type: 'string' },
+    text: { type: 'string' },
+    labels: { type: 'array', items: { type: 'string' } },
+    attributes: { type: 'object' },
+    path: { type: 'array', items: { type: 'string' } },
+    rect: {
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'number' }, width: { type: 'number' }, height: { type: 'number' } },
+      required: ['x', 'y', 'width', 'height'],
+    },
+  },
+  required: ['tag', 'attributes', 'path'],
+  additionalProperties: false,
+};
+
+const commandSchema = (properties: Record<string, JSONSchema>, required: string[]): JSONSchema => ({
+  type: 'object',
+  properties: { type: { type: 'string' }, tabId: NUMBER_OR_VARIABLE, ...properties },
+  required,
+  additionalProperties: false,
+});
+
+export const WORKFLOW_COMMAND_SCHEMAS: Record<WorkflowDslCommand['type'], JSONSchema> = {
+  navigate: commandSchema({ url: TEXT }, ['url']),
+  click: commandSchema(
+    {
+      selector: TEXT,
+      fallbackSelectors: FALLBACK_SELECTORS,
+      fingerprint: FINGERPRINT,
+      waitForSelector: { type: 'boolean' },
+      timeout: NUMBER_OR_VARIABLE,
+    },
+    ['selector']
+  ),
+  fillForm: commandSchema(
+    {
+      selector: TEXT,
+      fallbackSelectors: FALLBACK_SELECTORS,
+      fingerprint: FINGERPRINT,
+      value: TEXT_OR_NUMBER,
+      clearFirst: { type: 'boolean' },
+    },
+    ['selector', 'value']
+  ),
+  type: commandSchema(
+    {
+      selector: TEXT,
+      fallbackSelectors: FALLBACK_SELECTORS,
+      fingerprint: FINGERPRINT,
+      text: TEXT_OR_NUMBER,
+      clearFirst: { type: 'boolean' },
+      delay: NUMBER_OR_VARIABLE,
+    },
+    ['selector', 'text']
+  ),
+  scroll: commandSchema(
+    {
+      direction: { type: 'string', enum: ['up', 'down', 'left', 'right', 'top', 'bottom'] },
+      amount: NUMBER_OR_VARIABLE,
+      selector: TEXT,
+      fallbackSelectors: FALLBACK_SELECTORS,
+      fingerprint: FINGERPRINT,
+    },
+    ['direction']
+  ),
+  wait: commandSchema({ duration: NUMBER_OR_VARIABLE }, ['duration']),
+  waitForElement: commandSchema({ selector: TEXT, timeout: NUMBER_OR_VARIABLE }, ['selector']),
+  waitForNetworkIdle: commandSchema(
+    { idleMs: NUMBER_OR_VARIABLE, maxInflight: NUMBER_OR_VARIABLE, timeout: NUMBER_OR_VARIABLE },
+    []
+  ),
+  waitForRequest: commandSchema(
+    { urlPattern: TEXT, method: TEXT, since: NUMBER_OR_VARIABLE, timeout: NUMBER_OR_VARIABLE },
+    ['urlPattern']
+  ),
+  waitForResponse: commandSchema(
+    { urlPattern: TEXT, method: TEXT, status: NUMBER_OR_VARIABLE, since: NUMBER_OR_VARIABLE, timeout: NUMBER_OR_VARIABLE },
+    ['urlPattern']
+  ),
+  extractText: commandSchema({ selector: TEXT, attribute: TEXT, all: { type: 'boolean' } }, ['selector']),
+  extractData: commandSchema(
+    {
+      selector: TEXT,
+      recordSelector: TEXT,
+      columns: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { name: TEXT, selector: TEXT, attribute: TEXT },
+          required: ['name'],
+          additionalProperties: false,
+        },
+      },
+      pagination: { type: 'string', enum: ['none', 'next', 'scroll'] },
+      nextSelector: TEXT,
+      maxPages: NUMBER_OR_VARIABLE,
+      maxRows: NUMBER_OR_VARIABLE,
+      dedupeBy: { type: 'array', items: TEXT },
+      format: { type: 'string', enum: ['json', 'csv', 'markdown'] },
+      name: TEXT,
+      timeout: NUMBER_OR_VARIABLE,
+    },
+    []
+  ),
+  screenshot: commandSchema(
+    { format: { type: 'string', enum: ['png', 'jpeg'] }, quality: NUMBER_OR_VARIABLE },
+    []
+  ),
+  createTab: commandSchema({ url: TEXT, active: { type: 'boolean' } }, ['url']),
+  closeTab: commandSchema({}, ['tabId']),
+  switchTab: commandSchema({}, ['tabId']),
+};
+
+// Fields of each block besides its nested blocks, which are validated recursively
+const NODE_SCHEMAS: Record<WorkflowNode['type'], JSONSchema> = {
+  command: {
+    type: 'object',
+    properties: { type: { type: 'string' }, command: { type: 'object' }, saveAs: TEXT },
+    required: ['command'],
+    additionalProperties: false,
+  },
+  set: {
+    type: 'object',
+    properties: { type: { type: 'string' }, values: { type: 'object' } },
+    required: ['values'],
+    additionalProperties: false,
+  },
+  if: {
+    type: 'object',
+    properties: { type: { type: 'string' }, condition: { type: 'object' }, then: { type: 'array' }, else: { type: 'array' } },
+    required: ['condition', 'then'],
+    additionalProperties: false,
+  },
+  forEach: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      items: TEXT,
+      as: TEXT,
+      do: { type: 'array' },
+      maxIterations: { type: 'integer', minimum: 1, maximum: MAX_LOOP_ITERATIONS },
+    },
+    required: ['items', 'as', 'do'],
+    additionalProperties: false,
+  },
+  while: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      condition: { type: 'object' },
+      do: { type: 'array' },
+      maxIterations: { type: 'integer', minimum: 1, maximum: MAX_LOOP_ITERATIONS },
+    },
+    required: ['condition', 'do', 'maxIterations'],
+    additionalProperties: false,
+  },
+  try: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      try: { type: 'array' },
+      catch: { type: 'array' },
+      recover: { type: 'boolean' },
+      errorVariable: TEXT,
+    },
+    required: ['try'],
+    additionalProperties: false,
+  },
+};
+
+const CONDITION_SCHEMAS: Record<WorkflowCondition['type'], JSONSchema> = {
+  exists: { type: 'object', properties: { type: { type: 'string' }, selector: TEXT }, required: ['selector'], additionalProperties: false },
+  visible: { type: 'object', properties: { type: { type: 'string' }, selector: TEXT }, required: ['selector'], additionalProperties: false },
+  textContains: {
+    type: 'object',
+    properties: { type: { type: 'string' }, text: TEXT, selector: TEXT },
+    required: ['text'],
+    additionalProperties: false,
+  },
+  urlMatches: { type: 'object', properties: { type: { type: 'string' }, pattern: TEXT }, required: ['pattern'], additionalProperties: false },
+  equals: { type: 'object', properties: { type: { type: 'string' }, left: {}, right: {} }, required: ['left', 'right'], additionalProperties: false },
+  truthy: { type: 'object', properties: { type: { type: 'string' }, value: {} }, required: ['value'], additionalProperties: false },
+  not: { type: 'object', properties: { type: { type: 'string' }, condition: { type: 'object' } }, required: ['condition'], additionalProperties: false },
+  and: { type: 'object', properties: { type: { type: 'string' }, conditions: { type: 'array' } }, required: ['conditions'], additionalProperties: false },
+  or: { type: 'object', properties: { type: { type: 'string' }, conditions: { type: 'array' } }, required: ['conditions'], additionalProperties: false },
+};
+
+const DEFINITION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1, maximum: WORKFLOW_DSL_VERSION },
+    name: TEXT,
+    description: { type: 'string' },
+    variables: { type: 'object' },
+    steps: { type: 'array' },
+  },
+  required: ['version', 'name', 'steps'],
+  additionalProperties: false,
+};
+
+/**
+ * Check a workflow definition before it is saved or run
+ */
+export function validateWorkflowDefinition(definition: any): WorkflowValidationResult {
+  const errors = validateAgainstSchema(definition, DEFINITION_SCHEMA, 'workflow');
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Variables are bound at runtime in any order, so every binding anywhere counts as declared
+  const bindings = new Set<string>([LOOP_VARIABLE, ...Object.keys(definition.variables || {})]);
+  collectBindings(definition.steps, bindings);
+
+  for (const name of bindings) {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      errors.push(`Invalid variable name "${name}"`);
+    }
+  }
+
+  validateNodes(definition.steps, 'steps', bindings, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse and validate a serialised workflow; throws with every problem found
+ */
+export function parseWorkflowDefinition(source: string): WorkflowDefinition {
+  let definition: unknown;
+  try {
+    definition = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Workflow is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { valid, errors } = validateWorkflowDefinition(definition);
+  if (!valid) {
+    throw new Error(`Invalid workflow: ${errors.join('; ')}`);
+  }
+
+  return definition as WorkflowDefinition;
+}
+
+/**
+ * Value of a variable path such as "row.title", "prices[0]" or "prices.length"
+ */
+export function resolveVariable(expression: string, variables: Record<string, any>): any {
+  const [root, ...path] = expression.split(/\.|\[(\d+)\]/).filter(part => part !== undefined && part !== '');
+
+  if (!(root in variables)) {
+    throw new Error(`Unknown variable: ${root}`);
+  }
+
+  return path.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), variables[root]);
+}
+
+/**
+ * Replace {{variables}} in a value; a string that is a single {{variable}} keeps the variable's type
+ */
+export function interpolate(value: any, variables: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const exact = value.match(EXACT_VARIABLE_PATTERN);
+    if (exact) {
+      return resolveVariable(exact[1], variables);
+    }
+
+    return value.replace(VARIABLE_PATTERN, (_placeholder, expression: string) => {
+      const resolved = resolveVariable(expression, variables);
+      if (resolved === null || resolved === undefined) {
+        return '';
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, variables));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, interpolate(entry, variables)]));
+  }
+
+  return value;
+}
+
+/**
+ * Number of command blocks, counting loop bodies once
+ */
+export function countWorkflowCommands(nodes: WorkflowNode[]): number {
+  return nodes.reduce((count, node) => {
+    switch (node.type) {
+      case 'command':
+        return count + 1;
+      case 'if':
+        return count + countWorkflowCommands(node.then) + countWorkflowCommands(node.else || []);
+      case 'forEach':
+      case 'while':
+        return count + countWorkflowCommands(node.do);
+      case 'try':
+        return count + countWorkflowCommands(node.try) + countWorkflowCommands(node.catch || []);
+      default:
+        return count;
+    }
+  }, 0);
+}
+
+/**
+ * Copy of a definition with healed selectors written back into every command that used the broken one
+ * Selectors built from {{variables}} are left alone, since the heal only applies to one value of them
+ */
+export function applySelectorHeals(definition: WorkflowDefinition, heals: SelectorHeal[]): WorkflowDefinition {
+  const healed = new Map(heals.map(heal => [heal.previousSelector, heal]));
+
+  const applyToNodes = (nodes: WorkflowNode[]): WorkflowNode[] => nodes.map(node => {
+    switch (node.type) {
+      case 'command': {
+        const heal = healed.get(node.command.selector);
+        return heal
+          ? { ...node, command: { ...node.command, selector: heal.selector, fingerprint: heal.fingerprint } }
+          : node;
+      }
+      case 'if':
+        return { ...node, then: applyToNodes(node.then), ...(node.else && { else: applyToNodes(node.else) }) };
+      case 'forEach':
+      case 'while':
+        return { ...node, do: applyToNodes(node.do) };
+      case 'try':
+        return { ...node, try: applyToNodes(node.try), ...(node.catch && { catch: applyToNodes(node.catch) }) };
+      default:
+        return node;
+    }
+  });
+
+  return { ...definition, steps: applyToNodes(definition.steps) };
+}
+
+function collectBindings(nodes: any[], bindings: Set<string>): void {
+  for (const node of Array.isArray(nodes) ? nodes : []) {
+    if (!node || typeof node !== 'object') {
+      continue;
+    }
+
+    if (node.type === 'command' && typeof node.saveAs === 'string') {
+      bindings.add(node.saveAs);
+    }
+    if (node.type === 'set' && node.values && typeof node.values === 'object') {
+      Object.keys(node.values).forEach(name => bindings.add(name));
+    }
+    if (node.type === 'forEach' && typeof node.as === 'string') {
+      bindings.add(node.as);
+    }
+    if (node.type === 'try') {
+      bindings.add(typeof node.errorVariable === 'string' ? node.errorVariable : 'error');
+    }
+
+    for (const children of [node.then, node.else, node.do, node.try, node.catch]) {
+      collectBindings(children, bindings);
+    }
+  }
+}
+
+function validateNodes(nodes: any[], path: string, bindings: Set<string>, errors: string[]): void {
+  nodes.forEach((node, index) => validateNode(node, `${path}[${index}]`, bindings, errors));
+}
+
+function validateNode(node: any, path: string, bindings: Set<string>, errors: string[]): void {
+  if (!node || typeof node !== 'object' || !NODE_SCHEMAS[node.type as WorkflowNode['type']]) {
+    errors.push(`${path}: unknown block type "${node?.type}"`);
+    return;
+  }
+
+  const nodeErrors = validateAgainstSchema(node, NODE_SCHEMAS[node.type as WorkflowNode['type']], path);
+  if (nodeErrors.length > 0) {
+    errors.push(...nodeErrors);
+    return;
+  }
+
+  switch (node.type) {
+    case 'command':
+      validateCommand(node.command, `${path}.command`, errors);
+      checkReferences(node.command, `${path}.command`, bindings, errors);
+      break;
+
+    case 'set':
+      checkReferences(node.values, `${path}.values`, bindings, errors);
+      break;
+
+    case 'if':
+      validateCondition(node.condition, `${path}.condition`, bindings, errors);
+      validateNodes(node.then, `${path}.then`, bindings, errors);
+      validateNodes(node.else || [], `${path}.else`, bindings, errors);
+      break;
+
+    case 'forEach':
+      if (!EXACT_VARIABLE_PATTERN.test(node.items)) {
+        errors.push(`${path}.items must be a single {{variable}} holding a list`);
+      }
+      checkReferences(node.items, `${path}.items`, bindings, errors);
+      validateNodes(node.do, `${path}.do`, bindings, errors);
+      break;
+
+    case 'while':
+      validateCondition(node.condition, `${path}.condition`, bindings, errors);
+      validateNodes(node.do, `${path}.do`, bindings, errors);
+      break;
+
+    case 'try':
+      if (!node.catch && node.recover === false) {
+        errors.push(`${path}: a try block without catch needs error recovery`);
+      }
+      validateNodes(node.try, `${path}.try`, bindings, errors);
+      validateNodes(node.catch || [], `${path}.catch`, bindings, errors);
+      break;
+  }
+}
+
+function validateCommand(command: any, path: string, errors: string[]): void {
+  const schema = WORKFLOW_COMMAND_SCHEMAS[command.type as WorkflowDslCommand['type']];
+  if (!schema) {
+    errors.push(`${path}: unknown command type "${command.type}"`);
+    return;
+  }
+
+  errors.push(...validateAgainstSchema(command, schema, path));
+}
+
+function validateCondition(condition: any, path: string, bindings: Set<string>, errors: string[]): void {
+  const schema = CONDITION_SCHEMAS[condition?.type as WorkflowCondition['type']];
+  if (!schema) {
+    errors.push(`${path}: unknown condition type "${condition?.type}"`);
+    return;
+  }
+
+  const conditionErrors = validateAgainstSchema(condition, schema, path);
+  if (conditionErrors.length > 0) {
+    errors.push(...conditionErrors);
+    return;
+  }
+
+  switch (condition.type) {
+    case 'not':
+      validateCondition(condition.condition, `${path}.condition`, bindings, errors);
+      break;
+
+    case 'and':
+    case 'or':
+      condition.conditions.forEach((child: any, index: number) =>
+        validateCondition(child, `${path}.conditions[${index}]`, bindings, errors)
+      );
+      break;
+
+    case 'urlMatches':
+      // Patterns with variables are checked once they are interpolated
+      if (condition.pattern.match(VARIABLE_PATTERN)) {
+        checkReferences(condition, path, bindings, errors);
+        break;
+      }
+
+      try {
+        new RegExp(condition.pattern);
+      } catch {
+        errors.push(`${path}.pattern is not a valid regular expression`);
+      }
+      break;
+
+    default:
+      checkReferences(condition, path, bindings, errors);
+  }
+}
+
+/**
+ * Every {{variable}} must be bound somewhere in the workflow
+ */
+function checkReferences(value: any, path: string, bindings: Set<string>, errors: string[]): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(VARIABLE_PATTERN)) {
+      const root = match[1].split(/[.[]/)[0].trim();
+      if (!bindings.has(root)) {
+        errors.push(`${path}: unknown variable "${root}"`);
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => checkReferences(item, path, bindings, errors));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(entry => checkReferences(entry, path, bindings, errors));
+  }
+}
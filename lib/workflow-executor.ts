@@ -7,13 +7,30 @@ import {
   AnyAutomationCommand, 
   WorkflowCommand, 
   AutomationResponse, 
-  WorkflowState 
+  ElementFingerprint,
+  ElementSelector,
+  SelectorHeal,
+  WorkflowState,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowDslCommand,
+  WorkflowFailure,
+  WorkflowNode
 } from './automation-types';
 import { browserAutomation } from './browser-automation';
+import { chromeApi } from './chrome-api-wrappers';
+import {
+  countWorkflowCommands,
+  interpolate,
+  LOOP_VARIABLE,
+  MAX_LOOP_ITERATIONS,
+  validateWorkflowDefinition
+} from './workflow-dsl';
 import { tabManager } from './tab-manager';
 import { stateTracker } from './state-tracker';
 import { errorRecovery } from './error-recovery';
 import { progressReporting } from './progress-reporting';
+import { isLocator } from './deep-selector';
 
 export interface WorkflowOptions {
   continueOnError?: boolean;
@@ -22,6 +39,10 @@ export interface WorkflowOptions {
   timeout?: number;
   pauseOnStep?: boolean;
   reportProgress?: boolean;
+  tabId?: number; // tab that definition commands and page conditions target; defaults to the active tab
+  variables?: Record<string, any>; // override a definition's initial variables
+  maxCommands?: number; // total commands a definition may run, loops included
+  healThreshold?: number; // minimum fingerprint similarity for healing a recorded selector
 }
 
 export interface WorkflowStep {
@@ -33,6 +54,9 @@ export interface WorkflowStep {
   skipOnFailure?: boolean;
 }
 
+// A command carrying its step options inline, as conditional and retry steps are added
+export type WorkflowStepCommand = AnyAutomationCommand & Omit<WorkflowStep, 'command'>;
+
 export interface WorkflowContext {
   variables: Record<string, any>;
   previousResults: AutomationResponse[];
@@ -42,6 +66,27 @@ export interface WorkflowContext {
   workflowId: string;
 }
 
+// Interpolated definition command; the optional fields are the ones the interpreter reads or fills in
+type DefinitionCommand = AnyAutomationCommand & {
+  tabId?: number;
+  selector?: string;
+  fingerprint?: ElementFingerprint;
+  fallbackSelectors?: ElementSelector[];
+  timeout?: number;
+};
+
+// Interpreter state while a workflow definition runs
+interface DefinitionRun {
+  workflowId: string;
+  variables: Record<string, any>;
+  results: AutomationResponse[];
+  commandCount: number;
+  recoveryDepth: number; // > 0 inside try blocks that use error recovery
+  heals: SelectorHeal[]; // broken selectors replaced so far; later steps using them get the healed one
+  failures: WorkflowFailure[]; // errors swallowed by try blocks without a catch
+  options: WorkflowOptions;
+}
+
 export class WorkflowExecutor {
   private activeWorkflows: Map<string, WorkflowState> = new Map();
   private workflowQueue: WorkflowCommand[] = [];
@@ -138,11 +183,476 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Run a declarative workflow definition with variables, conditionals, loops and try/catch blocks
+   */
+  async runWorkflowDefinition(definition: WorkflowDefinition, options: WorkflowOptions = {}): Promise<AutomationResponse> {
+    const workflowId = `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const validation = validateWorkflowDefinition(definition);
+
+    if (!validation.valid) {
+      return {
+        commandId: workflowId,
+        success: false,
+        timestamp: Date.now(),
+        error: {
+          code: 'INVALID_WORKFLOW',
+          message: `Invalid workflow: ${validation.errors.join('; ')}`,
+          details: validation.errors
+        }
+      };
+    }
+
+    const run: DefinitionRun = {
+      workflowId,
+      variables: { ...definition.variables, ...options.variables },
+      results: [],
+      commandCount: 0,
+      recoveryDepth: 0,
+      heals: [],
+      failures: [],
+      options
+    };
+
+    try {
+      if (this.activeWorkflows.size >= this.maxConcurrentWorkflows) {
+        throw new Error(`Maximum concurrent workflows (${this.maxConcurrentWorkflows}) reached`);
+      }
+
+      const totalSteps = countWorkflowCommands(definition.steps);
+      const workflowState: WorkflowState = {
+        id: workflowId,
+        name: definition.name,
+        currentStep: 0,
+        totalSteps,
+        status: 'running',
+        startTime: Date.now(),
+        context: run.variables,
+        results: run.results
+      };
+
+      this.activeWorkflows.set(workflowId, workflowState);
+      await stateTracker.initializeWorkflow(workflowId, run.variables);
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowStart(workflowId, definition.name, totalSteps);
+      }
+
+      await this.runNodes(definition.steps, run);
+
+      workflowState.status = 'completed';
+      workflowState.endTime = Date.now();
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowComplete(workflowId, run.results);
+      }
+
+      return {
+        commandId: workflowId,
+        success: true,
+        timestamp: Date.now(),
+        data: {
+          workflowId,
+          results: run.results,
+          variables: run.variables,
+          heals: run.heals,
+          failures: run.failures,
+          duration: Date.now() - workflowState.startTime
+        }
+      };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const workflowState = this.activeWorkflows.get(workflowId);
+      if (workflowState) {
+        workflowState.status = 'failed';
+        workflowState.endTime = Date.now();
+      }
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowError(workflowId, message);
+      }
+
+      return {
+        commandId: workflowId,
+        success: false,
+        timestamp: Date.now(),
+        error: {
+          code: 'WORKFLOW_EXECUTION_FAILED',
+          message,
+          details: { results: run.results, variables: run.variables, heals: run.heals, failures: run.failures }
+        }
+      };
+    } finally {
+      if (this.activeWorkflows.has(workflowId)) {
+        this.activeWorkflows.delete(workflowId);
+        await stateTracker.cleanupWorkflow(workflowId);
+      }
+    }
+  }
+
+  /**
+   * Run a list of workflow blocks in order
+   */
+  private async runNodes(nodes: WorkflowNode[], run: DefinitionRun): Promise<void> {
+    for (const node of nodes) {
+      // cancelWorkflow removes the workflow while it is running
+      if (!this.activeWorkflows.has(run.workflowId)) {
+        throw new Error('Workflow was cancelled');
+      }
+
+      await this.runNode(node, run);
+    }
+  }
+
+  private async runNode(node: WorkflowNode, run: DefinitionRun): Promise<void> {
+    switch (node.type) {
+      case 'command': {
+        const data = await this.runDefinitionCommand(node.command, run);
+        if (node.saveAs) {
+          run.variables[node.saveAs] = data;
+          await stateTracker.updateContext(run.workflowId, node.saveAs, data);
+        }
+        break;
+      }
+
+      case 'set':
+        for (const [name, value] of Object.entries(node.values)) {
+          run.variables[name] = interpolate(value, run.variables);
+        }
+        break;
+
+      case 'if':
+        if (await this.evaluateCondition(node.condition, run)) {
+          await this.runNodes(node.then, run);
+        } else if (node.else) {
+          await this.runNodes(node.else, run);
+        }
+        break;
+
+      case 'forEach': {
+        const items = interpolate(node.items, run.variables);
+        if (!Array.isArray(items)) {
+          throw new Error(`forEach needs a list, but ${node.items} is ${typeof items}`);
+        }
+
+        const limit = Math.min(items.length, node.maxIterations || MAX_LOOP_ITERATIONS);
+        const previous = { ...run.variables };
+
+        try {
+          for (let index = 0; index < limit; index++) {
+            run.variables[node.as] = items[index];
+            run.variables[LOOP_VARIABLE] = { index, position: index + 1, count: items.length };
+            await this.runNodes(node.do, run);
+          }
+        } finally {
+          // Loop variables are scoped to the loop body
+          for (const name of [node.as, LOOP_VARIABLE]) {
+            if (name in previous) {
+              run.variables[name] = previous[name];
+            } else {
+              delete run.variables[name];
+            }
+          }
+        }
+        break;
+      }
+
+      case 'while': {
+        let iterations = 0;
+        while (await this.evaluateCondition(node.condition, run)) {
+          if (iterations >= node.maxIterations) {
+            throw new Error(`while loop still running after ${node.maxIterations} iterations`);
+          }
+          iterations++;
+          await this.runNodes(node.do, run);
+        }
+        break;
+      }
+
+      case 'try': {
+        const recover = node.recover !== false;
+        run.recoveryDepth += recover ? 1 : 0;
+
+        try {
+          await this.runNodes(node.try, run);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (!node.catch) {
+            // The run goes on, but its result still shows what failed
+            run.failures.push({ message, step: run.commandCount });
+            break;
+          }
+
+          run.variables[node.errorVariable || 'error'] = { message, step: run.commandCount };
+          await this.runNodes(node.catch, run);
+        } finally {
+          run.recoveryDepth -= recover ? 1 : 0;
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Run one definition command, returning its result data; failures throw so try blocks can catch them
+   */
+  private async runDefinitionCommand(template: WorkflowDslCommand, run: DefinitionRun): Promise<any> {
+    const maxCommands = run.options.maxCommands || MAX_LOOP_ITERATIONS;
+    if (run.commandCount >= maxCommands) {
+      throw new Error(`Workflow exceeded ${maxCommands} commands`);
+    }
+
+    const stepNumber = ++run.commandCount;
+    const command: DefinitionCommand = {
+      ...interpolate(template, run.variables),
+      id: `${run.workflowId}_step_${stepNumber}`,
+      timestamp: Date.now()
+    };
+
+    if (run.options.tabId !== undefined && command.tabId === undefined) {
+      command.tabId = run.options.tabId;
+    }
+
+    const recordedSelector = command.selector;
+    const earlierHeal = run.heals.find(heal => heal.previousSelector === recordedSelector);
+
+    if (earlierHeal) {
+      command.selector = earlierHeal.selector;
+      command.fingerprint = earlierHeal.fingerprint;
+    } else if (recordedSelector && command.fallbackSelectors?.length) {
+      command.selector = await this.resolveRecordedSelector({
+        id: command.id,
+        selector: recordedSelector,
+        fallbackSelectors: command.fallbackSelectors,
+        tabId: command.tabId
+      });
+    }
+
+    const workflowState = this.activeWorkflows.get(run.workflowId);
+    if (workflowState) {
+      workflowState.currentStep = stepNumber;
+    }
+
+    await stateTracker.updateStep(run.workflowId, stepNumber, command);
+    if (run.options.reportProgress !== false) {
+      await progressReporting.reportStepStart(run.workflowId, stepNumber, command.type);
+    }
+
+    const timeout = command.timeout || run.options.timeout || 30000;
+    let result = await this.executeStepWithTimeout(command, timeout, run.workflowId)
+      .catch(error => this.toFailedResponse(command, error));
+
+    // Inside a try block, or when a recorded fingerprint can heal the selector, give error
+    // recovery one chance before the step fails
+    if (!result.success && (run.recoveryDepth > 0 || command.fingerprint)) {
+      const error = new Error(result.error?.message || 'Command failed');
+      const heals: SelectorHeal[] = [];
+      const recovered = await errorRecovery.attemptRecovery(run.workflowId, stepNumber, error, {
+        command,
+        tabId: command.tabId,
+        selector: command.selector,
+        maxRetries: run.options.maxRetries,
+        healThreshold: run.options.healThreshold,
+        onSelectorHealed: heal => heals.push({ ...heal, stepNumber, previousSelector: recordedSelector || heal.previousSelector })
+      });
+
+      if (recovered) {
+        result = await this.executeStepWithTimeout(command, timeout, run.workflowId)
+          .catch(retryError => this.toFailedResponse(command, retryError));
+      }
+
+      // Only a heal that let the step succeed is kept
+      for (const heal of result.success ? heals : []) {
+        run.heals.push(heal);
+        if (run.options.reportProgress !== false) {
+          await progressReporting.reportSelectorHealed(run.workflowId, heal);
+        }
+      }
+    }
+
+    run.results.push(result);
+
+    if (!result.success) {
+      if (run.options.reportProgress !== false) {
+        await progressReporting.reportStepError(run.workflowId, stepNumber, result.error?.message || 'Command failed');
+      }
+      throw new Error(`Step ${stepNumber} (${command.type}) failed: ${result.error?.message}`);
+    }
+
+    if (run.options.reportProgress !== false) {
+      await progressReporting.reportStepComplete(run.workflowId, stepNumber, result);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Evaluate a condition on variables or on the page
+   */
+  private async evaluateCondition(condition: WorkflowCondition, run: DefinitionRun): Promise<boolean> {
+    switch (condition.type) {
+      case 'not':
+        return !(await this.evaluateCondition(condition.condition, run));
+
+      case 'and':
+        for (const child of condition.conditions) {
+          if (!(await this.evaluateCondition(child, run))) return false;
+        }
+        return true;
+
+      case 'or':
+        for (const child of condition.conditions) {
+          if (await this.evaluateCondition(child, run)) return true;
+        }
+        return false;
+
+      case 'equals':
+        return String(interpolate(condition.left, run.variables)) === String(interpolate(condition.right, run.variables));
+
+      case 'truthy': {
+        const value = interpolate(condition.value, run.variables);
+        if (Array.isArray(value)) return value.length > 0;
+        return Boolean(value) && value !== 'false' && value !== '0';
+      }
+
+      default: {
+        const tabId = run.options.tabId ?? (await chromeApi.getActiveTab()).id;
+        const resolved = interpolate(condition, run.variables);
+
+        // Patterns with variables are only known now, so they could not be checked with the definition
+        if (resolved.type === 'urlMatches') {
+          try {
+            new RegExp(resolved.pattern);
+          } catch {
+            throw new Error(`urlMatches pattern is not a valid regular expression: ${resolved.pattern}`);
+          }
+        }
+
+        // Runs in the page, so it must not reference anything outside itself
+        const checkPage = (check: any) => {
+          if (check.type === 'urlMatches') {
+            return new RegExp(check.pattern).test(window.location.href);
+          }
+
+          const element = check.selector ? document.querySelector(check.selector) : document.body;
+          if (!element) {
+            return false;
+          }
+
+          if (check.type === 'visible') {
+            const rect = element.getBoundingClientRect();
+            const style = window.getComputedStyle(element);
+            return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+          }
+
+          if (check.type === 'textContains') {
+            return (element.textContent || '').toLowerCase().includes(String(check.text).toLowerCase());
+          }
+
+          return true;
+        };
+
+        return Boolean(await chromeApi.executeScript(tabId, checkPage, [resolved]));
+      }
+    }
+  }
+
+  /**
+   * Selector for a recorded command: the recorded one if it still matches, otherwise the first
+   * fallback candidate that does, marked on the element so the command can target it with CSS
+   */
+  private async resolveRecordedSelector(command: {
+    id: string;
+    selector: string;
+    fallbackSelectors: ElementSelector[];
+    tabId?: number;
+  }): Promise<string> {
+    if (isLocator(command.selector)) {
+      return command.selector;
+    }
+
+    // Runs in the page, so it must not reference anything outside itself
+    const resolve = (selector: string, candidates: ElementSelector[], marker: string): string | null => {
+      try {
+        if (document.querySelector(selector)) {
+          return selector;
+        }
+      } catch {
+        // The recorded selector is not valid CSS here; try the fallbacks
+      }
+
+      const find = (candidate: ElementSelector): Element | null => {
+        switch (candidate.strategy) {
+          case 'css':
+            return document.querySelector(candidate.value);
+          case 'attribute':
+            return document.querySelector(`[${candidate.attribute}="${CSS.escape(candidate.value)}"]`);
+          case 'xpath':
+            return document.evaluate(
+              candidate.value, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null
+            ).singleNodeValue as Element | null;
+          case 'text': {
+            // Deepest element whose whole text is the recorded text
+            const matches = Array.from(document.body.querySelectorAll('*'))
+              .filter(element => element.textContent?.trim() === candidate.value);
+            return matches[matches.length - 1] || null;
+          }
+          case 'index':
+            return document.querySelectorAll(candidate.value)[candidate.index ?? 0] || null;
+          default:
+            return null;
+        }
+      };
+
+      for (const candidate of candidates) {
+        // Locators are resolved by the command itself, which waits for them in every frame
+        if (candidate.strategy === 'locator') {
+          return candidate.value;
+        }
+
+        try {
+          const element = find(candidate);
+          if (element) {
+            element.setAttribute('data-ray-target', marker);
+            return `[data-ray-target="${marker}"]`;
+          }
+        } catch {
+          continue;
+        }
+      }
+
+      return null;
+    };
+
+    try {
+      const tabId = command.tabId ?? (await chromeApi.getActiveTab()).id;
+      const resolved = await chromeApi.executeScript(tabId, resolve, [command.selector, command.fallbackSelectors, command.id]);
+      return resolved || command.selector;
+    } catch {
+      // Let the command itself wait for and report the recorded selector
+      return command.selector;
+    }
+  }
+
+  private toFailedResponse(command: AnyAutomationCommand, error: any): AutomationResponse {
+    return {
+      commandId: command.id,
+      success: false,
+      timestamp: Date.now(),
+      error: {
+        code: 'STEP_EXECUTION_FAILED',
+        message: error?.message || String(error),
+        details: error
+      }
+    };
+  }
+
   /**
    * Execute workflow steps
    */
   private async executeWorkflowSteps(
-    steps: AnyAutomationCommand[], 
+    steps: WorkflowStepCommand[], 
     workflowId: string, 
     options: WorkflowOptions
   ): Promise<AutomationResponse[]> {
@@ -403,14 +913,14 @@ export class WorkflowExecutor {
     command: AnyAutomationCommand, 
     condition: () => boolean
   ): WorkflowCommand {
-    const conditionalStep = {
+    const conditionalStep: WorkflowStepCommand = {
       ...command,
       condition
-    } as WorkflowStep;
+    };
     
     return {
       ...workflow,
-      steps: [...workflow.steps, conditionalStep as any]
+      steps: [...workflow.steps, conditionalStep]
     };
   }
 
@@ -422,15 +932,15 @@ export class WorkflowExecutor {
     command: AnyAutomationCommand, 
     maxRetries: number = 3
   ): WorkflowCommand {
-    const retryStep = {
+    const retryStep: WorkflowStepCommand = {
       ...command,
       maxRetries,
       retryCount: 0
-    } as WorkflowStep;
+    };
     
     return {
       ...workflow,
-      steps: [...workflow.steps, retryStep as any]
+      steps: [...workflow.steps, retryStep]
     };
   }
 
@@ -504,13 +1014,30 @@ import {
   AnyAutomationCommand, 
   WorkflowCommand, 
   AutomationResponse, 
-  WorkflowState 
+  ElementFingerprint,
+  ElementSelector,
+  SelectorHeal,
+  WorkflowState,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowDslCommand,
+  WorkflowFailure,
+  WorkflowNode
 } from './automation-types';
 import { browserAutomation } from './browser-automation';
+import { chromeApi } from './chrome-api-wrappers';
+import {
+  countWorkflowCommands,
+  interpolate,
+  LOOP_VARIABLE,
+  MAX_LOOP_ITERATIONS,
+  validateWorkflowDefinition
+} from './workflow-dsl';
 import { tabManager } from './tab-manager';
 import { stateTracker } from './state-tracker';
 import { errorRecovery } from './error-recovery';
 import { progressReporting } from './progress-reporting';
+import { isLocator } from './deep-selector';
 
 export interface WorkflowOptions {
   continueOnError?: boolean;
@@ -519,6 +1046,10 @@ export interface WorkflowOptions {
   timeout?: number;
   pauseOnStep?: boolean;
   reportProgress?: boolean;
+  tabId?: number; // tab that definition commands and page conditions target; defaults to the active tab
+  variables?: Record<string, any>; // override a definition's initial variables
+  maxCommands?: number; // total commands a definition may run, loops included
+  healThreshold?: number; // minimum fingerprint similarity for healing a recorded selector
 }
 
 export interface WorkflowStep {
@@ -530,6 +1061,9 @@ export interface WorkflowStep {
   skipOnFailure?: boolean;
 }
 
+// A command carrying its step options inline, as conditional and retry steps are added
+export type WorkflowStepCommand = AnyAutomationCommand & Omit<WorkflowStep, 'command'>;
+
 export interface WorkflowContext {
   variables: Record<string, any>;
   previousResults: AutomationResponse[];
@@ -539,6 +1073,27 @@ export interface WorkflowContext {
   workflowId: string;
 }
 
+// Interpolated definition command; the optional fields are the ones the interpreter reads or fills in
+type DefinitionCommand = AnyAutomationCommand & {
+  tabId?: number;
+  selector?: string;
+  fingerprint?: ElementFingerprint;
+  fallbackSelectors?: ElementSelector[];
+  timeout?: number;
+};
+
+// Interpreter state while a workflow definition runs
+interface DefinitionRun {
+  workflowId: string;
+  variables: Record<string, any>;
+  results: AutomationResponse[];
+  commandCount: number;
+  recoveryDepth: number; // > 0 inside try blocks that use error recovery
+  heals: SelectorHeal[]; // broken selectors replaced so far; later steps using them get the healed one
+  failures: WorkflowFailure[]; // errors swallowed by try blocks without a catch
+  options: WorkflowOptions;
+}
+
 export class WorkflowExecutor {
   private activeWorkflows: Map<string, WorkflowState> = new Map();
   private workflowQueue: WorkflowCommand[] = [];
@@ -635,11 +1190,476 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Run a declarative workflow definition with variables, conditionals, loops and try/catch blocks
+   */
+  async runWorkflowDefinition(definition: WorkflowDefinition, options: WorkflowOptions = {}): Promise<AutomationResponse> {
+    const workflowId = `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const validation = validateWorkflowDefinition(definition);
+
+    if (!validation.valid) {
+      return {
+        commandId: workflowId,
+        success: false,
+        timestamp: Date.now(),
+        error: {
+          code: 'INVALID_WORKFLOW',
+          message: `Invalid workflow: ${validation.errors.join('; ')}`,
+          details: validation.errors
+        }
+      };
+    }
+
+    const run: DefinitionRun = {
+      workflowId,
+      variables: { ...definition.variables, ...options.variables },
+      results: [],
+      commandCount: 0,
+      recoveryDepth: 0,
+      heals: [],
+      failures: [],
+      options
+    };
+
+    try {
+      if (this.activeWorkflows.size >= this.maxConcurrentWorkflows) {
+        throw new Error(`Maximum concurrent workflows (${this.maxConcurrentWorkflows}) reached`);
+      }
+
+      const totalSteps = countWorkflowCommands(definition.steps);
+      const workflowState: WorkflowState = {
+        id: workflowId,
+        name: definition.name,
+        currentStep: 0,
+        totalSteps,
+        status: 'running',
+        startTime: Date.now(),
+        context: run.variables,
+        results: run.results
+      };
+
+      this.activeWorkflows.set(workflowId, workflowState);
+      await stateTracker.initializeWorkflow(workflowId, run.variables);
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowStart(workflowId, definition.name, totalSteps);
+      }
+
+      await this.runNodes(definition.steps, run);
+
+      workflowState.status = 'completed';
+      workflowState.endTime = Date.now();
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowComplete(workflowId, run.results);
+      }
+
+      return {
+        commandId: workflowId,
+        success: true,
+        timestamp: Date.now(),
+        data: {
+          workflowId,
+          results: run.results,
+          variables: run.variables,
+          heals: run.heals,
+          failures: run.failures,
+          duration: Date.now() - workflowState.startTime
+        }
+      };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const workflowState = this.activeWorkflows.get(workflowId);
+      if (workflowState) {
+        workflowState.status = 'failed';
+        workflowState.endTime = Date.now();
+      }
+
+      if (options.reportProgress !== false) {
+        await progressReporting.reportWorkflowError(workflowId, message);
+      }
+
+      return {
+        commandId: workflowId,
+        success: false,
+        timestamp: Date.now(),
+        error: {
+          code: 'WORKFLOW_EXECUTION_FAILED',
+          message,
+          details: { results: run.results, variables: run.variables, heals: run.heals, failures: run.failures }
+        }
+      };
+    } finally {
+      if (this.activeWorkflows.has(workflowId)) {
+        this.activeWorkflows.delete(workflowId);
+        await stateTracker.cleanupWorkflow(workflowId);
+      }
+    }
+  }
+
+  /**
+   * Run a list of workflow blocks in order
+   */
+  private async runNodes(nodes: WorkflowNode[], run: DefinitionRun): Promise<void> {
+    for (const node of nodes) {
+      // cancelWorkflow removes the workflow while it is running
+      if (!this.activeWorkflows.has(run.workflowId)) {
+        throw new Error('Workflow was cancelled');
+      }
+
+      await this.runNode(node, run);
+    }
+  }
+
+  private async runNode(node: WorkflowNode, run: DefinitionRun): Promise<void> {
+    switch (node.type) {
+      case 'command': {
+        const data = await this.runDefinitionCommand(node.command, run);
+        if (node.saveAs) {
+          run.variables[node.saveAs] = data;
+          await stateTracker.updateContext(run.workflowId, node.saveAs, data);
+        }
+        break;
+      }
+
+      case 'set':
+        for (const [name, value] of Object.entries(node.values)) {
+          run.variables[name] = interpolate(value, run.variables);
+        }
+        break;
+
+      case 'if':
+        if (await this.evaluateCondition(node.condition, run)) {
+          await this.runNodes(node.then, run);
+        } else if (node.else) {
+          await this.runNodes(node.else, run);
+        }
+        break;
+
+      case 'forEach': {
+        const items = interpolate(node.items, run.variables);
+        if (!Array.isArray(items)) {
+          throw new Error(`forEach needs a list, but ${node.items} is ${typeof items}`);
+        }
+
+        const limit = Math.min(items.length, node.maxIterations || MAX_LOOP_ITERATIONS);
+        const previous = { ...run.variables };
+
+        try {
+          for (let index = 0; index < limit; index++) {
+            run.variables[node.as] = items[index];
+            run.variables[LOOP_VARIABLE] = { index, position: index + 1, count: items.length };
+            await this.runNodes(node.do, run);
+          }
+        } finally {
+          // Loop variables are scoped to the loop body
+          for (const name of [node.as, LOOP_VARIABLE]) {
+            if (name in previous) {
+              run.variables[name] = previous[name];
+            } else {
+              delete run.variables[name];
+            }
+          }
+        }
+        break;
+      }
+
+      case 'while': {
+        let iterations = 0;
+        while (await this.evaluateCondition(node.condition, run)) {
+          if (iterations >= node.maxIterations) {
+            throw new Error(`while loop still running after ${node.maxIterations} iterations`);
+          }
+          iterations++;
+          await this.runNodes(node.do, run);
+        }
+        break;
+      }
+
+      case 'try': {
+        const recover = node.recover !== false;
+        run.recoveryDepth += recover ? 1 : 0;
+
+        try {
+          await this.runNodes(node.try, run);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (!node.catch) {
+            // The run goes on, but its result still shows what failed
+            run.failures.push({ message, step: run.commandCount });
+            break;
+          }
+
+          run.variables[node.errorVariable || 'error'] = { message, step: run.commandCount };
+          await this.runNodes(node.catch, run);
+        } finally {
+          run.recoveryDepth -= recover ? 1 : 0;
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Run one definition command, returning its result data; failures throw so try blocks can catch them
+   */
+  private async runDefinitionCommand(template: WorkflowDslCommand, run: DefinitionRun): Promise<any> {
+    const maxCommands = run.options.maxCommands || MAX_LOOP_ITERATIONS;
+    if (run.commandCount >= maxCommands) {
+      throw new Error(`Workflow exceeded ${maxCommands} commands`);
+    }
+
+    const stepNumber = ++run.commandCount;
+    const command: DefinitionCommand = {
+      ...interpolate(template, run.variables),
+      id: `${run.workflowId}_step_${stepNumber}`,
+      timestamp: Date.now()
+    };
+
+    if (run.options.tabId !== undefined && command.tabId === undefined) {
+      command.tabId = run.options.tabId;
+    }
+
+    const recordedSelector = command.selector;
+    const earlierHeal = run.heals.find(heal => heal.previousSelector === recordedSelector);
+
+    if (earlierHeal) {
+      command.selector = earlierHeal.selector;
+      command.fingerprint = earlierHeal.fingerprint;
+    } else if (recordedSelector && command.fallbackSelectors?.length) {
+      command.selector = await this.resolveRecordedSelector({
+        id: command.id,
+        selector: recordedSelector,
+        fallbackSelectors: command.fallbackSelectors,
+        tabId: command.tabId
+      });
+    }
+
+    const workflowState = this.activeWorkflows.get(run.workflowId);
+    if (workflowState) {
+      workflowState.currentStep = stepNumber;
+    }
+
+    await stateTracker.updateStep(run.workflowId, stepNumber, command);
+    if (run.options.reportProgress !== false) {
+      await progressReporting.reportStepStart(run.workflowId, stepNumber, command.type);
+    }
+
+    const timeout = command.timeout || run.options.timeout || 30000;
+    let result = await this.executeStepWithTimeout(command, timeout, run.workflowId)
+      .catch(error => this.toFailedResponse(command, error));
+
+    // Inside a try block, or when a recorded fingerprint can heal the selector, give error
+    // recovery one chance before the step fails
+    if (!result.success && (run.recoveryDepth > 0 || command.fingerprint)) {
+      const error = new Error(result.error?.message || 'Command failed');
+      const heals: SelectorHeal[] = [];
+      const recovered = await errorRecovery.attemptRecovery(run.workflowId, stepNumber, error, {
+        command,
+        tabId: command.tabId,
+        selector: command.selector,
+        maxRetries: run.options.maxRetries,
+        healThreshold: run.options.healThreshold,
+        onSelectorHealed: heal => heals.push({ ...heal, stepNumber, previousSelector: recordedSelector || heal.previousSelector })
+      });
+
+      if (recovered) {
+        result = await this.executeStepWithTimeout(command, timeout, run.workflowId)
+          .catch(retryError => this.toFailedResponse(command, retryError));
+      }
+
+      // Only a heal that let the step succeed is kept
+      for (const heal of result.success ? heals : []) {
+        run.heals.push(heal);
+        if (run.options.reportProgress !== false) {
+          await progressReporting.reportSelectorHealed(run.workflowId, heal);
+        }
+      }
+    }
+
+    run.results.push(result);
+
+    if (!result.success) {
+      if (run.options.reportProgress !== false) {
+        await progressReporting.reportStepError(run.workflowId, stepNumber, result.error?.message || 'Command failed');
+      }
+      throw new Error(`Step ${stepNumber} (${command.type}) failed: ${result.error?.message}`);
+    }
+
+    if (run.options.reportProgress !== false) {
+      await progressReporting.reportStepComplete(run.workflowId, stepNumber, result);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Evaluate a condition on variables or on the page
+   */
+  private async evaluateCondition(condition: WorkflowCondition, run: DefinitionRun): Promise<boolean> {
+    switch (condition.type) {
+      case 'not':
+        return !(await this.evaluateCondition(condition.condition, run));
+
+      case 'and':
+        for (const child of condition.conditions) {
+          if (!(await this.evaluateCondition(child, run))) return false;
+        }
+        return true;
+
+      case 'or':
+        for (const child of condition.conditions) {
+          if (await this.evaluateCondition(child, run)) return true;
+        }
+        return false;
+
+      case 'equals':
+        return String(interpolate(condition.left, run.variables)) === String(interpolate(condition.right, run.variables));
+
+      case 'truthy': {
+        const value = interpolate(condition.value, run.variables);
+        if (Array.isArray(value)) return value.length > 0;
+        return Boolean(value) && value !== 'false' && value !== '0';
+      }
+
+      default: {
+        const tabId = run.options.tabId ?? (await chromeApi.getActiveTab()).id;
+        const resolved = interpolate(condition, run.variables);
+
+        // Patterns with variables are only known now, so they could not be checked with the definition
+        if (resolved.type === 'urlMatches') {
+          try {
+            new RegExp(resolved.pattern);
+          } catch {
+            throw new Error(`urlMatches pattern is not a valid regular expression: ${resolved.pattern}`);
+          }
+        }
+
+        // Runs in the page, so it must not reference anything outside itself
+        const checkPage = (check: any) => {
+          if (check.type === 'urlMatches') {
+            return new RegExp(check.pattern).test(window.location.href);
+          }
+
+          const element = check.selector ? document.querySelector(check.selector) : document.body;
+          if (!element) {
+            return false;
+          }
+
+          if (check.type === 'visible') {
+            const rect = element.getBoundingClientRect();
+            const style = window.getComputedStyle(element);
+            return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+          }
+
+          if (check.type === 'textContains') {
+            return (element.textContent || '').toLowerCase().includes(String(check.text).toLowerCase());
+          }
+
+          return true;
+        };
+
+        return Boolean(await chromeApi.executeScript(tabId, checkPage, [resolved]));
+      }
+    }
+  }
+
+  /**
+   * Selector for a recorded command: the recorded one if it still matches, otherwise the first
+   * fallback candidate that does, marked on the element so the command can target it with CSS
+   */
+  private async resolveRecordedSelector(command: {
+    id: string;
+    selector: string;
+    fallbackSelectors: ElementSelector[];
+    tabId?: number;
+  }): Promise<string> {
+    if (isLocator(command.selector)) {
+      return command.selector;
+    }
+
+    // Runs in the page, so it must not reference anything outside itself
+    const resolve = (selector: string, candidates: ElementSelector[], marker: string): string | null => {
+      try {
+        if (document.querySelector(selector)) {
+          return selector;
+        }
+      } catch {
+        // The recorded selector is not valid CSS here; try the fallbacks
+      }
+
+      const find = (candidate: ElementSelector): Element | null => {
+        switch (candidate.strategy) {
+          case 'css':
+            return document.querySelector(candidate.value);
+          case 'attribute':
+            return document.querySelector(`[${candidate.attribute}="${CSS.escape(candidate.value)}"]`);
+          case 'xpath':
+            return document.evaluate(
+              candidate.value, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null
+            ).singleNodeValue as Element | null;
+          case 'text': {
+            // Deepest element whose whole text is the recorded text
+            const matches = Array.from(document.body.querySelectorAll('*'))
+              .filter(element => element.textContent?.trim() === candidate.value);
+            return matches[matches.length - 1] || null;
+          }
+          case 'index':
+            return document.querySelectorAll(candidate.value)[candidate.index ?? 0] || null;
+          default:
+            return null;
+        }
+      };
+
+      for (const candidate of candidates) {
+        // Locators are resolved by the command itself, which waits for them in every frame
+        if (candidate.strategy === 'locator') {
+          return candidate.value;
+        }
+
+        try {
+          const element = find(candidate);
+          if (element) {
+            element.setAttribute('data-ray-target', marker);
+            return `[data-ray-target="${marker}"]`;
+          }
+        } catch {
+          continue;
+        }
+      }
+
+      return null;
+    };
+
+    try {
+      const tabId = command.tabId ?? (await chromeApi.getActiveTab()).id;
+      const resolved = await chromeApi.executeScript(tabId, resolve, [command.selector, command.fallbackSelectors, command.id]);
+      return resolved || command.selector;
+    } catch {
+      // Let the command itself wait for and report the recorded selector
+      return command.selector;
+    }
+  }
+
+  private toFailedResponse(command: AnyAutomationCommand, error: any): AutomationResponse {
+    return {
+      commandId: command.id,
+      success: false,
+      timestamp: Date.now(),
+      error: {
+        code: 'STEP_EXECUTION_FAILED',
+        message: error?.message || String(error),
+        details: error
+      }
+    };
+  }
+
   /**
    * Execute workflow steps
    */
   private async executeWorkflowSteps(
-    steps: AnyAutomationCommand[], 
+    steps: WorkflowStepCommand[], 
     workflowId: string, 
     options: WorkflowOptions
   ): Promise<AutomationResponse[]> {
@@ -900,14 +1920,14 @@ export class WorkflowExecutor {
     command: AnyAutomationCommand, 
     condition: () => boolean
   ): WorkflowCommand {
-    const conditionalStep = {
+    const conditionalStep: WorkflowStepCommand = {
       ...command,
       condition
-    } as WorkflowStep;
+    };
     
     return {
       ...workflow,
-      steps: [...workflow.steps, conditionalStep as any]
+      steps: [...workflow.steps, conditionalStep]
     };
   }
 
@@ -919,15 +1939,15 @@ export class WorkflowExecutor {
     command: AnyAutomationCommand, 
     maxRetries: number = 3
   ): WorkflowCommand {
-    const retryStep = {
+    const retryStep: WorkflowStepCommand = {
       ...command,
       maxRetries,
       retryCount: 0
-    } as WorkflowStep;
+    };
     
     return {
       ...workflow,
-      steps: [...workflow.steps, retryStep as any]
+      steps: [...workflow.steps, retryStep]
     };
   }
 
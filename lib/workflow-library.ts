@@ -0,0 +1,209 @@
+/**
+ * Saved workflow library: reusable workflow definitions with schedules and run history
+ */
+
+import { SavedWorkflow, WorkflowDefinition, WorkflowRunRecord, WorkflowSchedule } from './automation-types';
+import { getStorageValue, setStorageValue } from './utils/chrome-storage';
+import { validateWorkflowDefinition } from './workflow-dsl';
+import { parseCronExpression } from './workflow-schedule';
+
+export const WORKFLOW_LIBRARY_STORAGE_KEY = 'workflow_library';
+export const WORKFLOW_HISTORY_STORAGE_KEY = 'workflow_run_history';
+
+export interface WorkflowLibraryConfig {
+  maxWorkflows: number;
+  maxHistoryPerWorkflow: number;
+}
+
+// What the popup sends when creating or editing a workflow
+export interface WorkflowInput {
+  id?: string;
+  definition: WorkflowDefinition;
+  schedule?: Pick<WorkflowSchedule, 'cron' | 'enabled'> | null;
+}
+
+export class WorkflowLibrary {
+  private config: WorkflowLibraryConfig;
+  private workflows: SavedWorkflow[] = [];
+  private history: Record<string, WorkflowRunRecord[]> = {};
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(config: Partial<WorkflowLibraryConfig> = {}) {
+    this.config = {
+      maxWorkflows: 100,
+      maxHistoryPerWorkflow: 20,
+      ...config,
+    };
+  }
+
+  /**
+   * Load workflows and run history from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * All saved workflows
+   */
+  async list(): Promise<SavedWorkflow[]> {
+    await this.load();
+    return [...this.workflows];
+  }
+
+  async get(id: string): Promise<SavedWorkflow | null> {
+    await this.load();
+    return this.workflows.find(workflow => workflow.id === id) || null;
+  }
+
+  /**
+   * Create or update a workflow; throws when the definition or schedule is invalid
+   */
+  async save(input: WorkflowInput): Promise<SavedWorkflow> {
+    const validation = validateWorkflowDefinition(input?.definition);
+    if (!validation.valid) {
+      throw new Error(`Invalid workflow: ${validation.errors.join('; ')}`);
+    }
+
+    const cron = input.schedule?.cron?.trim();
+    if (cron) {
+      parseCronExpression(cron);
+    }
+
+    await this.load();
+
+    const existing = this.workflows.find(workflow => workflow.id === input.id);
+    if (!existing && this.workflows.length >= this.config.maxWorkflows) {
+      throw new Error(`Workflow library is full (${this.config.maxWorkflows} workflows)`);
+    }
+
+    const now = Date.now();
+    const workflow: SavedWorkflow = {
+      id: existing?.id || input.id || `saved_workflow_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      definition: input.definition,
+      schedule: cron ? { cron, enabled: input.schedule?.enabled !== false } : undefined,
+      lastRun: existing?.lastRun,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.workflows = existing
+      ? this.workflows.map(entry => (entry.id === workflow.id ? workflow : entry))
+      : [...this.workflows, workflow];
+    await this.persistWorkflows();
+
+    return workflow;
+  }
+
+  /**
+   * Replace a workflow's definition and keep its schedule, e.g. to save selectors healed during a run
+   */
+  async updateDefinition(id: string, definition: WorkflowDefinition): Promise<SavedWorkflow | null> {
+    const validation = validateWorkflowDefinition(definition);
+    if (!validation.valid) {
+      throw new Error(`Invalid workflow: ${validation.errors.join('; ')}`);
+    }
+
+    await this.load();
+
+    const workflow = this.workflows.find(entry => entry.id === id);
+    if (!workflow) {
+      return null;
+    }
+
+    workflow.definition = definition;
+    workflow.updatedAt = Date.now();
+    await this.persistWorkflows();
+    return workflow;
+  }
+
+  /**
+   * Delete a workflow and its run history
+   */
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+
+    const remaining = this.workflows.filter(workflow => workflow.id !== id);
+    if (remaining.length === this.workflows.length) {
+      return false;
+    }
+
+    this.workflows = remaining;
+    delete this.history[id];
+    await this.persistWorkflows();
+    await this.persistHistory();
+    return true;
+  }
+
+  /**
+   * Remember when the schedule next fires so the popup can show it
+   */
+  async setNextRun(id: string, nextRunAt: number | undefined): Promise<void> {
+    await this.load();
+
+    const workflow = this.workflows.find(entry => entry.id === id);
+    if (!workflow?.schedule || workflow.schedule.nextRunAt === nextRunAt) {
+      return;
+    }
+
+    workflow.schedule = { ...workflow.schedule, nextRunAt };
+    await this.persistWorkflows();
+  }
+
+  /**
+   * Add a run to the workflow's history and make it the last result
+   */
+  async recordRun(record: WorkflowRunRecord): Promise<void> {
+    await this.load();
+
+    const workflow = this.workflows.find(entry => entry.id === record.workflowId);
+    if (!workflow) {
+      return;
+    }
+
+    workflow.lastRun = record;
+    this.history[record.workflowId] = [record, ...(this.history[record.workflowId] || [])]
+      .slice(0, this.config.maxHistoryPerWorkflow);
+
+    await this.persistWorkflows();
+    await this.persistHistory();
+  }
+
+  /**
+   * Past runs of a workflow, newest first
+   */
+  async getHistory(id: string): Promise<WorkflowRunRecord[]> {
+    await this.load();
+    return [...(this.history[id] || [])];
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const workflows = await getStorageValue<SavedWorkflow[]>(WORKFLOW_LIBRARY_STORAGE_KEY, []);
+      const history = await getStorageValue<Record<string, WorkflowRunRecord[]>>(WORKFLOW_HISTORY_STORAGE_KEY, {});
+      this.workflows = Array.isArray(workflows) ? workflows : [];
+      this.history = history && typeof history === 'object' ? history : {};
+    } catch (error) {
+      console.error('Failed to load workflow library:', error);
+    }
+  }
+
+  private async persistWorkflows(): Promise<void> {
+    try {
+      await setStorageValue(WORKFLOW_LIBRARY_STORAGE_KEY, this.workflows);
+    } catch (error) {
+      console.error('Failed to save workflow library:', error);
+    }
+  }
+
+  private async persistHistory(): Promise<void> {
+    try {
+      await setStorageValue(WORKFLOW_HISTORY_STORAGE_KEY, this.history);
+    } catch (error) {
+      console.error('Failed to save workflow run history:', error);
+    }
+  }
+}
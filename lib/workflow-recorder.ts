@@ -0,0 +1,183 @@
+/**
+ * Background side of record-and-replay: collects actions the content script captures on a tab
+ * and turns them into a workflow definition that can be edited, saved and replayed
+ */
+
+import { RecordedAction, RecordingSession, WorkflowDefinition, WorkflowDslCommand } from './automation-types';
+import { getStorageValue, setStorageValue } from './utils/chrome-storage';
+import { WORKFLOW_DSL_VERSION } from './workflow-dsl';
+
+export const RECORDING_STORAGE_KEY = 'workflow_recording';
+
+export interface WorkflowRecorderConfig {
+  navigationGracePeriod: number; // page loads this soon after a click are caused by it
+  maxSteps: number;
+}
+
+export class WorkflowRecorder {
+  private config: WorkflowRecorderConfig;
+  private session: RecordingSession | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(config: Partial<WorkflowRecorderConfig> = {}) {
+    this.config = {
+      navigationGracePeriod: 3000,
+      maxSteps: 500,
+      ...config,
+    };
+  }
+
+  /**
+   * Load an in-progress recording from storage (once), so it survives the service worker being suspended
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  async getSession(): Promise<RecordingSession | null> {
+    await this.load();
+    return this.session;
+  }
+
+  async isRecording(tabId: number | undefined): Promise<boolean> {
+    await this.load();
+    return tabId !== undefined && this.session?.tabId === tabId;
+  }
+
+  /**
+   * Start recording on a tab; the first step navigates to the page the recording starts on
+   */
+  async start(tabId: number, url: string): Promise<RecordingSession> {
+    await this.load();
+
+    if (this.session) {
+      throw new Error(`Already recording on tab ${this.session.tabId}`);
+    }
+
+    const now = Date.now();
+    this.session = {
+      id: `recording_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      tabId,
+      startUrl: url,
+      currentUrl: url,
+      startedAt: now,
+      lastStepAt: now,
+      steps: url ? [{ type: 'navigate', url }] : [],
+      maskedVariables: [],
+    };
+    await this.persist();
+
+    return this.session;
+  }
+
+  /**
+   * Add a captured action, folding keystrokes and scrolls into the previous step where they continue it
+   */
+  async addAction(tabId: number | undefined, action: RecordedAction): Promise<boolean> {
+    const session = await this.getSession();
+    if (!session || session.tabId !== tabId || !action?.command?.type) {
+      return false;
+    }
+    if (session.steps.length >= this.config.maxSteps) {
+      throw new Error(`Recording is limited to ${this.config.maxSteps} steps`);
+    }
+
+    const command = { ...action.command };
+    const previous = session.steps[session.steps.length - 1];
+    const continuesPrevious = previous?.type === command.type && previous.selector === command.selector;
+
+    if (action.masked && command.type === 'type') {
+      // Typed passwords become a variable the user fills in before replaying
+      command.text = continuesPrevious ? previous.text : `{{${this.createMaskedVariable(session)}}}`;
+    }
+
+    if (continuesPrevious && (command.type === 'type' || command.type === 'fillForm')) {
+      session.steps[session.steps.length - 1] = command;
+    } else if (continuesPrevious && command.type === 'scroll' && previous.direction === command.direction) {
+      previous.amount = (previous.amount || 0) + (command.amount || 0);
+    } else {
+      session.steps.push(command);
+    }
+
+    session.lastStepAt = Date.now();
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Record a page load on the recording tab as navigation, unless a recorded click caused it
+   */
+  async recordPageLoad(tabId: number | undefined, url: string): Promise<boolean> {
+    const session = await this.getSession();
+    if (!session || session.tabId !== tabId) {
+      return false;
+    }
+
+    const previous = session.steps[session.steps.length - 1];
+    const causedByClick = previous?.type === 'click' &&
+      Date.now() - session.lastStepAt < this.config.navigationGracePeriod;
+
+    if (url !== session.currentUrl && !causedByClick) {
+      session.steps.push({ type: 'navigate', url });
+      session.lastStepAt = Date.now();
+    }
+
+    session.currentUrl = url;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Stop recording and return the recorded steps as a workflow definition
+   */
+  async stop(name?: string): Promise<{ session: RecordingSession; definition: WorkflowDefinition }> {
+    const session = await this.getSession();
+    if (!session) {
+      throw new Error('Not recording');
+    }
+
+    this.session = null;
+    await this.persist();
+
+    return { session, definition: this.toDefinition(session, name) };
+  }
+
+  private toDefinition(session: RecordingSession, name?: string): WorkflowDefinition {
+    const variables = Object.fromEntries(session.maskedVariables.map(variable => [variable, '']));
+
+    return {
+      version: WORKFLOW_DSL_VERSION,
+      name: name?.trim() || `Recording ${new Date(session.startedAt).toLocaleString()}`,
+      description: session.maskedVariables.length > 0
+        ? `Recorded on ${session.startUrl}. Set ${session.maskedVariables.join(', ')} before replaying; password fields were not captured.`
+        : `Recorded on ${session.startUrl}`,
+      variables: session.maskedVariables.length > 0 ? variables : undefined,
+      steps: session.steps.map((command: WorkflowDslCommand) => ({ type: 'command' as const, command })),
+    };
+  }
+
+  private createMaskedVariable(session: RecordingSession): string {
+    const variable = `password${session.maskedVariables.length + 1}`;
+    session.maskedVariables.push(variable);
+    return variable;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      this.session = await getStorageValue<RecordingSession | null>(RECORDING_STORAGE_KEY, null);
+    } catch (error) {
+      console.error('Failed to load workflow recording:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await setStorageValue(RECORDING_STORAGE_KEY, this.session);
+    } catch (error) {
+      console.error('Failed to save workflow recording:', error);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Cron-like schedule expressions for saved workflows
+ * Five fields (minute hour day-of-month month day-of-week) in local time, with lists, ranges,
+ * steps, month/day names and the @hourly/@daily/@weekly/@monthly/@yearly shorthands
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  restrictedDaysOfMonth: boolean;
+  restrictedDaysOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const CRON_SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+// Expressions that never match (e.g. "0 0 31 2 *") give up after this long
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression; throws with the offending field when it is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const source = String(expression ?? '').trim().toLowerCase();
+  const fields = (CRON_SHORTHANDS[source] || source).split(/\s+/);
+
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.filter(Boolean).length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index], expression)
+  );
+
+  // 7 is Sunday as well as 0
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // A field starting with * (including steps like */2) is not a restriction, so the day fields are ANDed
+    restrictedDaysOfMonth: !fields[2].startsWith('*'),
+    restrictedDaysOfWeek: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it never does
+ */
+export function getNextCronOccurrence(schedule: CronSchedule | string, after: number = Date.now()): number | null {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after + MAX_LOOKAHEAD_MS;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Like classic cron, a restricted day of month and day of week match if either does
+ */
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.restrictedDaysOfMonth && cron.restrictedDaysOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseCronField(source: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${field.name} ${reason}`);
+  };
+
+  for (const part of source.split(',')) {
+    const [range, stepSource, ...rest] = part.split('/');
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      fail(`has an invalid step in "${part}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        fail(`has an invalid range "${range}"`);
+      }
+      start = parseCronValue(from, field) ?? fail(`has an invalid value "${from}"`);
+      // "5/15" means every 15 from 5 to the end of the range
+      end = to !== undefined
+        ? parseCronValue(to, field) ?? fail(`has an invalid value "${to}"`)
+        : stepSource !== undefined ? field.max : start;
+    }
+
+    if (start > end) {
+      fail(`range "${range}" runs backwards`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCronValue(source: string, field: CronField): number | null {
+  const nameIndex = field.names?.indexOf(source) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (field.name === 'month' ? 1 : 0) : Number(source);
+
+  if (source === '' || !Number.isInteger(value) || value < field.min || value > field.max) {
+    return null;
+  }
+  return value;
+}
@@ -0,0 +1,261 @@
+/**
+ * Runs saved workflows on demand or on their cron schedule via chrome.alarms
+ */
+
+import { AutomationResponse, SavedWorkflow, SelectorHeal, WorkflowFailure, WorkflowRunRecord } from './automation-types';
+import { chromeApi } from './chrome-api-wrappers';
+import { applySelectorHeals } from './workflow-dsl';
+import { workflowExecutor } from './workflow-executor';
+import { WorkflowInput, WorkflowLibrary } from './workflow-library';
+import { getNextCronOccurrence } from './workflow-schedule';
+
+export const WORKFLOW_ALARM_PREFIX = 'ray-workflow:';
+
+// What the scheduler needs from an executor
+export type WorkflowRunner = Pick<typeof workflowExecutor, 'runWorkflowDefinition'>;
+
+export interface WorkflowSchedulerConfig {
+  maxOutputSize: number; // characters of captured variables kept per run
+}
+
+export class WorkflowScheduler {
+  private config: WorkflowSchedulerConfig;
+  private library: WorkflowLibrary;
+  private executor: WorkflowRunner;
+  private running: Set<string> = new Set();
+
+  constructor(
+    library: WorkflowLibrary = new WorkflowLibrary(),
+    executor: WorkflowRunner = workflowExecutor,
+    config: Partial<WorkflowSchedulerConfig> = {}
+  ) {
+    this.library = library;
+    this.executor = executor;
+    this.config = {
+      maxOutputSize: 20000,
+      ...config,
+    };
+  }
+
+  getLibrary(): WorkflowLibrary {
+    return this.library;
+  }
+
+  /**
+   * Save a workflow and (re)schedule its alarm
+   */
+  async saveWorkflow(input: WorkflowInput): Promise<SavedWorkflow> {
+    const workflow = await this.library.save(input);
+    await this.scheduleAlarm(workflow);
+    return (await this.library.get(workflow.id)) || workflow;
+  }
+
+  /**
+   * Delete a workflow and cancel its alarm
+   */
+  async deleteWorkflow(id: string): Promise<boolean> {
+    await chrome.alarms.clear(this.getAlarmName(id));
+    return this.library.remove(id);
+  }
+
+  /**
+   * Recreate alarms for every scheduled workflow and drop alarms whose workflow is gone
+   */
+  async syncAlarms(): Promise<void> {
+    const workflows = await this.library.list();
+    const scheduled = new Set(workflows.map(workflow => this.getAlarmName(workflow.id)));
+
+    for (const alarm of await chrome.alarms.getAll()) {
+      if (alarm.name.startsWith(WORKFLOW_ALARM_PREFIX) && !scheduled.has(alarm.name)) {
+        await chrome.alarms.clear(alarm.name);
+      }
+    }
+
+    for (const workflow of workflows) {
+      await this.scheduleAlarm(workflow);
+    }
+  }
+
+  /**
+   * Run the workflow an alarm belongs to, then schedule its next occurrence
+   */
+  async handleAlarm(alarm: chrome.alarms.Alarm): Promise<WorkflowRunRecord | null> {
+    if (!alarm.name.startsWith(WORKFLOW_ALARM_PREFIX)) {
+      return null;
+    }
+
+    const id = alarm.name.slice(WORKFLOW_ALARM_PREFIX.length);
+    const workflow = await this.library.get(id);
+    if (!workflow?.schedule?.enabled) {
+      await chrome.alarms.clear(alarm.name);
+      return null;
+    }
+
+    try {
+      return await this.runWorkflow(id, 'schedule');
+    } finally {
+      const current = await this.library.get(id);
+      if (current) {
+        await this.scheduleAlarm(current);
+      }
+    }
+  }
+
+  /**
+   * Run a saved workflow and record the outcome in its history
+   * Scheduled runs get their own background tab so they never take over the one the user is on
+   */
+  async runWorkflow(id: string, trigger: WorkflowRunRecord['trigger'], tabId?: number): Promise<WorkflowRunRecord> {
+    const workflow = await this.library.get(id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${id}`);
+    }
+    if (this.running.has(id)) {
+      throw new Error(`Workflow "${workflow.definition.name}" is already running`);
+    }
+
+    this.running.add(id);
+    const startedAt = Date.now();
+    let ownedTabId: number | undefined;
+    let record: WorkflowRunRecord;
+
+    try {
+      if (tabId === undefined && trigger === 'schedule') {
+        ownedTabId = (await chromeApi.createTab('about:blank', false)).id;
+      }
+
+      const response = await this.executor.runWorkflowDefinition(workflow.definition, {
+        tabId: tabId ?? ownedTabId,
+        reportProgress: trigger === 'manual',
+      });
+      await this.saveHeals(workflow, response);
+      record = this.createRunRecord(workflow, trigger, startedAt, response);
+
+    } catch (error) {
+      record = this.createRunRecord(workflow, trigger, startedAt, {
+        commandId: id,
+        success: false,
+        timestamp: Date.now(),
+        error: { code: 'WORKFLOW_EXECUTION_FAILED', message: error instanceof Error ? error.message : String(error) },
+      });
+
+    } finally {
+      this.running.delete(id);
+      if (ownedTabId !== undefined) {
+        await chromeApi.closeTab(ownedTabId).catch(() => {
+          // The workflow may have closed the tab itself
+        });
+      }
+    }
+
+    await this.library.recordRun(record);
+    return record;
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  private async scheduleAlarm(workflow: SavedWorkflow): Promise<void> {
+    const name = this.getAlarmName(workflow.id);
+
+    if (!workflow.schedule?.enabled) {
+      await chrome.alarms.clear(name);
+      await this.library.setNextRun(workflow.id, undefined);
+      return;
+    }
+
+    const nextRunAt = getNextCronOccurrence(workflow.schedule.cron) ?? undefined;
+    if (nextRunAt === undefined) {
+      await chrome.alarms.clear(name);
+    } else {
+      await chrome.alarms.create(name, { when: nextRunAt });
+    }
+    await this.library.setNextRun(workflow.id, nextRunAt);
+  }
+
+  /**
+   * Write selectors healed during a run back into the saved workflow, so later runs start from them
+   */
+  private async saveHeals(workflow: SavedWorkflow, response: AutomationResponse): Promise<void> {
+    const heals = this.getHeals(response);
+    if (heals.length === 0) {
+      return;
+    }
+
+    try {
+      await this.library.updateDefinition(workflow.id, applySelectorHeals(workflow.definition, heals));
+    } catch (error) {
+      console.error('Failed to save healed selectors:', error);
+    }
+  }
+
+  private getHeals(response: AutomationResponse): SelectorHeal[] {
+    const details = response.success ? response.data : response.error?.details;
+    return Array.isArray(details?.heals) ? details.heals : [];
+  }
+
+  private getAlarmName(id: string): string {
+    return `${WORKFLOW_ALARM_PREFIX}${id}`;
+  }
+
+  private createRunRecord(
+    workflow: SavedWorkflow,
+    trigger: WorkflowRunRecord['trigger'],
+    startedAt: number,
+    response: AutomationResponse
+  ): WorkflowRunRecord {
+    const finishedAt = Date.now();
+    const details = response.success ? response.data : response.error?.details;
+    const stepCount = Array.isArray(details?.results) ? details.results.length : 0;
+    const outputs = this.getOutputs(workflow, details?.variables);
+    const captured = Object.keys(outputs);
+    const healed = this.getHeals(response).length;
+    const failures: WorkflowFailure[] = Array.isArray(details?.failures) ? details.failures : [];
+
+    const summary = response.success
+      ? `Completed ${stepCount} step${stepCount === 1 ? '' : 's'} in ${((finishedAt - startedAt) / 1000).toFixed(1)}s` +
+        (captured.length > 0 ? `; captured ${captured.join(', ')}` : '') +
+        (healed > 0 ? `; healed ${healed} selector${healed === 1 ? '' : 's'}` : '') +
+        (failures.length > 0 ? `; ${failures.length} try block${failures.length === 1 ? '' : 's'} failed` : '')
+      : `Failed after ${stepCount} step${stepCount === 1 ? '' : 's'}: ${response.error?.message || 'Unknown error'}`;
+
+    return {
+      id: `run_${finishedAt}_${Math.random().toString(36).substr(2, 9)}`,
+      workflowId: workflow.id,
+      trigger,
+      startedAt,
+      finishedAt,
+      success: response.success,
+      stepCount,
+      summary,
+      outputs,
+      failures: failures.length > 0 ? failures : undefined,
+      error: response.success ? undefined : response.error?.message,
+    };
+  }
+
+  /**
+   * Variables the run produced, leaving out the definition's inputs and oversized values
+   */
+  private getOutputs(workflow: SavedWorkflow, variables: Record<string, any> | undefined): Record<string, any> {
+    const outputs: Record<string, any> = {};
+    let size = 0;
+
+    for (const [name, value] of Object.entries(variables || {})) {
+      if (workflow.definition.variables && name in workflow.definition.variables) {
+        continue;
+      }
+
+      const serialized = JSON.stringify(value) ?? '';
+      if (size + serialized.length > this.config.maxOutputSize) {
+        continue;
+      }
+
+      outputs[name] = value;
+      size += serialized.length;
+    }
+
+    return outputs;
+  }
+}
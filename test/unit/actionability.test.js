@@ -0,0 +1,144 @@
+/**
+ * Actionability Unit Tests
+ * Tests for the checks an element must pass before an interaction acts on it
+ */
+
+jest.mock('../../lib/chrome-api-wrappers', () => ({
+  chromeApi: { getActiveTab: jest.fn(async () => ({ id: 1 })) },
+}));
+
+// Scripts run in this page instead of a tab; every frame but the top one reports no match
+jest.mock('../../lib/utils/chrome-scripting', () => ({
+  executeScriptWithArgsInFrames: jest.fn(async (tabId, frameIds, func, args) =>
+    [{ frameId: frameIds[0], result: await func(...args) }]
+  ),
+  executeScriptWithArgsInAllFrames: jest.fn(async (tabId, func, args) =>
+    [{ frameId: 0, result: await func(...args) }, { frameId: 3, result: [] }]
+  ),
+}));
+
+const {
+  ACTION_CHECKS,
+  ActionabilityError,
+  ActionabilityGate,
+  checkActionability,
+  getActionabilityReason,
+} = require('../../lib/actionability');
+const { executeScriptWithArgsInFrames } = require('../../lib/utils/chrome-scripting');
+
+// jsdom has no layout, so boxes and hit testing are set per element
+const placeAt = (element, rect) => {
+  element.getBoundingClientRect = () => ({ ...rect, right: rect.left + rect.width, bottom: rect.top + rect.height });
+  return element;
+};
+
+describe('Actionability', () => {
+  let button;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete globalThis.__rayDeepMatches;
+    document.body.innerHTML = `
+      <button id="save">Save</button>
+      <div id="cookie-banner" class="overlay fixed bottom"></div>
+    `;
+    button = placeAt(document.getElementById('save'), { left: 10, top: 20, width: 80, height: 30 });
+    button.scrollIntoView = jest.fn();
+    document.elementFromPoint = jest.fn(() => button);
+  });
+
+  describe('checkActionability', () => {
+    test('should return the centre of an actionable element', async () => {
+      expect(await checkActionability('#save', ACTION_CHECKS.click, 1000)).toEqual({
+        actionable: true,
+        point: { x: 50, y: 35 },
+        attempts: 1,
+      });
+      expect(document.elementFromPoint).toHaveBeenCalledWith(50, 35);
+    });
+
+    test.each([
+      ['not_attached', () => button.remove(), 'element not found'],
+      ['not_visible', () => { button.style.visibility = 'hidden'; }, 'element is not visible'],
+      ['not_enabled', () => { button.disabled = true; }, 'element is disabled'],
+    ])('should report %s', async (reason, setup, detail) => {
+      setup();
+
+      const result = await checkActionability('#save', ACTION_CHECKS.click, 0);
+
+      expect(result).toMatchObject({ actionable: false, reason, message: `#save is not actionable (${reason}): ${detail}` });
+    });
+
+    test('should report a moving element as not stable', async () => {
+      let top = 20;
+      button.getBoundingClientRect = () => ({ left: 10, top: top++, width: 80, height: 30, right: 90, bottom: 80 });
+
+      expect((await checkActionability('#save', ACTION_CHECKS.click, 0)).reason).toBe('not_stable');
+    });
+
+    test('should name the element covering the target', async () => {
+      document.elementFromPoint.mockReturnValue(document.getElementById('cookie-banner'));
+
+      const result = await checkActionability('#save', ACTION_CHECKS.click, 0);
+
+      expect(result).toMatchObject({
+        reason: 'obscured',
+        obscuredBy: 'div#cookie-banner.overlay.fixed',
+        message: '#save is not actionable (obscured): element is covered by div#cookie-banner.overlay.fixed at (50, 35)',
+      });
+      expect((await checkActionability('#save', ACTION_CHECKS.type, 0)).actionable).toBe(true);
+    });
+
+    test('should scroll an element outside the viewport into view', async () => {
+      placeAt(button, { left: 10, top: 5000, width: 80, height: 30 });
+
+      await checkActionability('#save', ACTION_CHECKS.type, 0);
+
+      expect(button.scrollIntoView).toHaveBeenCalledWith({ behavior: 'auto', block: 'center', inline: 'center' });
+    });
+
+    test('should retry until the element becomes actionable', async () => {
+      button.disabled = true;
+      setTimeout(() => { button.disabled = false; }, 50);
+
+      const result = await checkActionability('#save', ACTION_CHECKS.click, 2000);
+
+      expect(result.actionable).toBe(true);
+      expect(result.attempts).toBeGreaterThan(1);
+    });
+  });
+
+  describe('ActionabilityGate', () => {
+    const gate = new ActionabilityGate();
+
+    test('should check the element in the frame holding it and return the point', async () => {
+      expect(await gate.ensure('#save', 'click', { timeout: 1000 }, 5)).toEqual({ x: 50, y: 35 });
+      expect(executeScriptWithArgsInFrames).toHaveBeenLastCalledWith(5, [0], checkActionability, ['#save', ACTION_CHECKS.click, expect.any(Number)]);
+    });
+
+    test('should throw an ActionabilityError with the reason', async () => {
+      document.elementFromPoint.mockReturnValue(document.getElementById('cookie-banner'));
+
+      const error = await gate.ensure('#save', 'click', { timeout: 0 }, 5).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ActionabilityError);
+      expect(error).toMatchObject({ reason: 'obscured', selector: '#save', obscuredBy: 'div#cookie-banner.overlay.fixed' });
+      expect(error.message).toMatch(/^Cannot click: #save is not actionable \(obscured\)/);
+    });
+
+    test('should skip the checks when forced', async () => {
+      expect(await gate.ensure('#missing', 'click', { force: true }, 5)).toBeUndefined();
+      expect(executeScriptWithArgsInFrames).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActionabilityReason', () => {
+    test('should read the reason from rewrapped error messages', () => {
+      const wrapped = new Error('Step 2 failed: Cannot type: #email is not actionable (not_enabled): element is disabled');
+
+      expect(getActionabilityReason(wrapped)).toBe('not_enabled');
+      expect(getActionabilityReason(new ActionabilityError('x', 'not_visible', '#a'))).toBe('not_visible');
+      expect(getActionabilityReason(new Error('Network error'))).toBeUndefined();
+    });
+  });
+});
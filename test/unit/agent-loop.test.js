@@ -0,0 +1,117 @@
+/**
+ * Agent Loop Unit Tests
+ * Tests for building agent step prompts and reading the model's next decision
+ */
+
+jest.mock('../../lib/openrouter/config', () => ({
+  OPENROUTER_CONFIG: {
+    AGENT_SYSTEM_PROMPT: 'agent prompt',
+    VISION_PROMPT: 'vision prompt',
+  },
+}));
+
+const { buildAgentMessages, parseAgentDecision } = require('../../lib/orchestration/agent-loop');
+
+const observation = {
+  url: 'https://example.com/login',
+  title: 'Sign in',
+  elements: [
+    { selector: '#email', tag: 'input', type: 'email', placeholder: 'Email' },
+    { selector: 'button.submit', tag: 'button', text: 'Sign in', role: 'button' },
+  ],
+};
+
+const toolResponse = (name, args) => ({
+  choices: [{
+    message: {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: `call_${name}`, type: 'function', function: { name, arguments: JSON.stringify(args) } }],
+    },
+  }],
+});
+
+const contentResponse = content => ({ choices: [{ message: { role: 'assistant', content } }] });
+
+describe('Agent loop', () => {
+  describe('buildAgentMessages', () => {
+    test('should describe the goal, step budget and interactive elements', () => {
+      const [system, user] = buildAgentMessages('Sign in as Ada', observation, [], 1, 10);
+
+      expect(system).toEqual({ role: 'system', content: 'agent prompt' });
+      expect(user.content).toContain('Goal: Sign in as Ada');
+      expect(user.content).toContain('Step 1 of 10');
+      expect(user.content).toContain('- #email <input> type=email placeholder="Email"');
+      expect(user.content).toContain('- button.submit <button> "Sign in" role=button');
+      expect(user.content).not.toContain('Previous steps');
+    });
+
+    test('should summarise previous steps with their outcomes', () => {
+      const steps = [
+        { step: 1, observation, action: { type: 'fill', selector: '#email', description: 'Enter email' }, timestamp: 1 },
+        { step: 2, observation, action: { type: 'click', ref: 4 }, error: 'Element is covered', timestamp: 2 },
+      ];
+
+      const [, user] = buildAgentMessages('Sign in', observation, steps, 3, 10);
+
+      expect(user.content).toContain('1. fill #email (Enter email) -> ok');
+      expect(user.content).toContain('2. click ref=4 -> failed: Element is covered');
+    });
+
+    test('should show answered clarification questions as steps', () => {
+      const steps = [
+        { step: 1, observation, clarification: { question: 'Which account?', answer: 'Work' }, timestamp: 1 },
+      ];
+
+      const [, user] = buildAgentMessages('Sign in', observation, steps, 2, 10);
+
+      expect(user.content).toContain('1. asked "Which account?" -> answer: Work');
+    });
+
+    test('should prefer the accessibility tree over the element list', () => {
+      const [, user] = buildAgentMessages('Sign in', { ...observation, tree: '[1] textbox "Email"' }, [], 1, 5);
+
+      expect(user.content).toContain('Page structure:\n[1] textbox "Email"');
+      expect(user.content).not.toContain('#email');
+    });
+  });
+
+  describe('parseAgentDecision', () => {
+    test('should read the finish tool as the end of the task', () => {
+      expect(parseAgentDecision(toolResponse('finish_task', { success: false, summary: 'No account' }))).toEqual({
+        done: true,
+        success: false,
+        summary: 'No account',
+      });
+    });
+
+    test('should take the first command tool call as the next action', () => {
+      const decision = parseAgentDecision(toolResponse('click', { selector: '#submit' }));
+
+      expect(decision.done).toBe(false);
+      expect(decision.command).toMatchObject({ type: 'click', selector: '#submit' });
+      expect(decision.clarificationQuestion).toBeUndefined();
+    });
+
+    test('should surface a clarification question', () => {
+      const decision = parseAgentDecision(toolResponse('request_clarification', { question: 'Which account?' }));
+
+      expect(decision.clarificationQuestion).toBe('Which account?');
+    });
+
+    test('should accept JSON content with a single command or a plan', () => {
+      expect(parseAgentDecision(contentResponse('{"done": true, "summary": "Signed in"}'))).toEqual({
+        done: true,
+        success: true,
+        summary: 'Signed in',
+      });
+      expect(parseAgentDecision(contentResponse('{"commands": [{"type": "scroll"}, {"type": "click"}]}')).command)
+        .toEqual({ type: 'scroll' });
+    });
+
+    test('should read numbered replies and reject replies without an action', () => {
+      expect(parseAgentDecision(contentResponse('click 14')).command).toMatchObject({ type: 'click', ref: 14 });
+      expect(() => parseAgentDecision(contentResponse('I am not sure'))).toThrow('Agent response contained no action');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Clarification Dialogue Unit Tests
+ * Tests for asking the user a question and sending their answer back
+ */
+
+require('../setup/chrome-mock.js');
+
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(async (key, defaultValue = null) => defaultValue),
+  setStorageValue: jest.fn(async () => undefined),
+  onStorageChanged: jest.fn(),
+}));
+
+const { CommandParser } = require('../../lib/commands/parser');
+const { CommandInput } = require('../../entrypoints/popup/components/command-input');
+
+describe('Clarification dialogue', () => {
+  describe('CommandParser', () => {
+    test('should pass the model question and alternatives on to the request', async () => {
+      const provider = {
+        parseCommand: jest.fn(async () => ({
+          commands: [],
+          confidence: 0.4,
+          requiresClarification: true,
+          clarificationQuestion: 'Which report do you mean?',
+          alternativeCommands: [{ description: 'Sales report' }, { description: 'Traffic report' }],
+        })),
+      };
+
+      const result = await new CommandParser(provider).parseCommand('sort out the report thing');
+
+      expect(result.requiresClarification).toBe(true);
+      expect(result.clarificationQuestions).toEqual(['Which report do you mean?']);
+      expect(result.suggestions).toEqual(['Sales report', 'Traffic report']);
+    });
+  });
+
+  describe('CommandInput', () => {
+    let events;
+    let input;
+    let textarea;
+
+    const clarification = { requestId: 'req_1', question: 'Which report do you mean?', answers: ['Sales', 'Traffic'] };
+
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div>
+          <textarea id="command"></textarea>
+          <span id="count"></span>
+          <button id="execute"></button>
+          <button id="clear"></button>
+        </div>
+      `;
+      events = { execute: jest.fn(), answer: jest.fn() };
+      input = new CommandInput('command', 'count', 'execute', 'clear', {
+        autoSave: false,
+        enableHistory: false,
+        enableSuggestions: false,
+      }, events);
+      textarea = document.getElementById('command');
+    });
+
+    test('should show the question with one chip per suggested answer', () => {
+      input.showClarification(clarification);
+
+      expect(document.querySelector('.clarification-question').textContent).toBe('Which report do you mean?');
+      expect(Array.from(document.querySelectorAll('.clarification-chip'), chip => chip.textContent)).toEqual(['Sales', 'Traffic']);
+      expect(textarea.placeholder).toBe('Type your answer...');
+      expect(input.isAwaitingAnswer()).toBe(true);
+    });
+
+    test('should answer with a clicked chip', () => {
+      input.showClarification(clarification);
+
+      document.querySelectorAll('.clarification-chip')[1].click();
+
+      expect(events.answer).toHaveBeenCalledWith('req_1', 'Traffic');
+      expect(input.isAwaitingAnswer()).toBe(false);
+    });
+
+    test('should send typed text as the answer instead of a new command', () => {
+      input.showClarification(clarification);
+      textarea.value = 'The quarterly one';
+
+      input.execute();
+
+      expect(events.answer).toHaveBeenCalledWith('req_1', 'The quarterly one');
+      expect(events.execute).not.toHaveBeenCalled();
+      expect(textarea.value).toBe('');
+    });
+
+    test('should go back to commands once the question is cleared', () => {
+      input.showClarification(clarification);
+      input.clearClarification();
+      textarea.value = 'Scroll down';
+
+      input.execute();
+
+      expect(events.execute).toHaveBeenCalledWith('Scroll down');
+      expect(textarea.placeholder).toBe('What would you like Ray to do?');
+      expect(document.querySelector('.clarification-container').hidden).toBe(true);
+    });
+  });
+});
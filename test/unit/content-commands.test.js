@@ -0,0 +1,346 @@
+/**
+ * Content Script Command Unit Tests
+ * Tests for the hover, drag, upload, download, select, search, login, logout
+ * and screenshot commands handled by entrypoints/content.ts
+ */
+
+// Mock Chrome APIs before importing modules
+require('../setup/chrome-mock.js');
+
+// Selector generation and storage are covered elsewhere
+jest.mock('../../lib/dom-selectors', () => ({
+  domSelectors: {
+    findElement: jest.fn(),
+    generateSelector: jest.fn(element => (element.id ? [{ strategy: 'css', value: `#${element.id}` }] : []))
+  }
+}));
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(() => Promise.resolve(null)),
+  setStorageValue: jest.fn(() => Promise.resolve())
+}));
+
+// jsdom has no layout, DataTransfer, DragEvent or PointerEvent; these stand in for the browser's
+class MockDataTransfer {
+  constructor() {
+    this.files = [];
+    this.items = { add: (file) => this.files.push(file) };
+  }
+}
+
+class MockDragEvent extends MouseEvent {
+  constructor(type, init = {}) {
+    super(type, init);
+    this.dataTransfer = init.dataTransfer;
+  }
+}
+
+global.DataTransfer = MockDataTransfer;
+global.DragEvent = MockDragEvent;
+global.PointerEvent = class extends MouseEvent {};
+Element.prototype.scrollIntoView = jest.fn();
+Element.prototype.getClientRects = function () {
+  return [this.getBoundingClientRect()];
+};
+chrome.runtime.getManifest = jest.fn(() => ({ version: '1.0.0' }));
+
+// Loading the content script registers its message listener
+require('../../entrypoints/content.ts');
+const handleMessage = chrome.runtime.onMessage.addListener.mock.calls[0][0];
+
+const execute = (payload) => new Promise(resolve => {
+  handleMessage({ type: 'EXECUTE_COMMAND', payload: { id: 'command-1', ...payload } }, {}, resolve);
+});
+
+const executeOrThrow = async (payload) => {
+  const response = await execute(payload);
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+  return response.result;
+};
+
+describe('Content Script Commands', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+
+    document.body.innerHTML = `
+      <nav>
+        <a href="/account" id="menu">Account</a>
+        <button id="logout">Log out</button>
+      </nav>
+      <form id="search-form">
+        <input type="search" name="q" id="search">
+      </form>
+      <form id="login-form">
+        <input type="email" id="email" autocomplete="username">
+        <input type="password" id="password">
+        <button type="submit">Sign in</button>
+      </form>
+      <select id="country">
+        <option value="us">United States</option>
+        <option value="gb">United Kingdom</option>
+        <option value="de">Germany</option>
+      </select>
+      <select id="tags" multiple>
+        <option value="news">News</option>
+        <option value="sport">Sport</option>
+        <option value="tech">Technology</option>
+      </select>
+      <input type="file" id="attachment">
+      <div id="card" draggable="true">Card</div>
+      <div id="column">Done</div>
+      <a href="/files/report.pdf" id="report">Report</a>
+      <button id="export">Export</button>
+    `;
+
+    document.querySelectorAll('form').forEach(form => {
+      form.requestSubmit = jest.fn();
+    });
+  });
+
+  describe('hover', () => {
+    test('should dispatch mouse events on the element', async () => {
+      const menu = document.querySelector('#menu');
+      const listener = jest.fn();
+      menu.addEventListener('mouseover', listener);
+      menu.addEventListener('mouseenter', listener);
+
+      const result = await executeOrThrow({ type: 'hover', selector: '#menu' });
+
+      expect(result.hovered).toBe(true);
+      expect(result.tagName).toBe('A');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject hover for non-existent element', async () => {
+      await expect(executeOrThrow({ type: 'hover', selector: '#missing' })).rejects.toThrow('Element not found: #missing');
+    });
+  });
+
+  describe('drag', () => {
+    test('should drop the element on the target', async () => {
+      const column = document.querySelector('#column');
+      column.addEventListener('dragover', event => event.preventDefault());
+      column.addEventListener('drop', event => event.preventDefault());
+
+      const result = await executeOrThrow({ type: 'drag', selector: '#card', options: { targetSelector: '#column' } });
+
+      expect(result.dragged).toBe(true);
+      expect(result.accepted).toBe(true);
+    });
+
+    test('should report a drop nobody handled', async () => {
+      const result = await executeOrThrow({ type: 'drag', selector: '#card', options: { targetSelector: '#column' } });
+
+      expect(result.accepted).toBe(false);
+    });
+
+    test('should reject drag without a target', async () => {
+      await expect(executeOrThrow({ type: 'drag', selector: '#card' }))
+        .rejects.toThrow('Target selector or ref is required for drag command');
+    });
+
+    test('should reject drag to a missing target', async () => {
+      await expect(executeOrThrow({ type: 'drag', selector: '#card', options: { targetSelector: '#missing' } }))
+        .rejects.toThrow('Drop target not found: #missing');
+    });
+  });
+
+  describe('upload', () => {
+    test('should set the file on the input', async () => {
+      const input = document.querySelector('#attachment');
+      // jsdom only accepts a real FileList through the setter
+      Object.defineProperty(input, 'files', { value: null, writable: true });
+      const changeListener = jest.fn();
+      input.addEventListener('change', changeListener);
+
+      const result = await executeOrThrow({
+        type: 'upload',
+        selector: '#attachment',
+        parameters: { fileName: 'notes.txt', content: 'hello' }
+      });
+
+      expect(result.uploaded).toBe(true);
+      expect(result.files).toEqual([{ name: 'notes.txt', size: 5, type: 'text/plain' }]);
+      expect(input.files[0].name).toBe('notes.txt');
+      expect(changeListener).toHaveBeenCalled();
+    });
+
+    test('should reject upload to an element that is not a file input', async () => {
+      await expect(executeOrThrow({ type: 'upload', selector: '#email', parameters: { fileName: 'a.txt', content: 'a' } }))
+        .rejects.toThrow('Element is not a file input: #email');
+    });
+
+    test('should reject upload of a local path', async () => {
+      await expect(executeOrThrow({ type: 'upload', selector: '#attachment', parameters: { filePath: 'C:\\notes.txt' } }))
+        .rejects.toThrow('File content or a URL is required for upload command');
+    });
+  });
+
+  describe('download', () => {
+    const completed = { id: 7, url: 'http://localhost/files/report.pdf', filename: 'report.pdf', state: 'complete' };
+
+    test('should download a link target through the background', async () => {
+      chrome.runtime.sendMessage.mockResolvedValueOnce({ success: true, download: completed });
+
+      const result = await executeOrThrow({ type: 'download', selector: '#report' });
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'start_download',
+        url: 'http://localhost/files/report.pdf',
+        filename: undefined,
+        timeout: undefined
+      });
+      expect(result.download).toEqual(completed);
+    });
+
+    test('should track the download a button starts', async () => {
+      chrome.runtime.sendMessage.mockResolvedValueOnce({ success: true, download: completed });
+      const clickSpy = jest.spyOn(document.querySelector('#export'), 'click');
+
+      await executeOrThrow({ type: 'download', selector: '#export' });
+
+      expect(clickSpy).toHaveBeenCalled();
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'track_download' }));
+    });
+
+    test('should reject an interrupted download', async () => {
+      chrome.runtime.sendMessage.mockResolvedValueOnce({
+        success: true,
+        download: { ...completed, state: 'interrupted', error: 'NETWORK_FAILED' }
+      });
+
+      await expect(executeOrThrow({ type: 'download', parameters: { url: '/files/report.pdf' } }))
+        .rejects.toThrow('Download interrupted: NETWORK_FAILED');
+    });
+
+    test('should reject download without URL or target', async () => {
+      await expect(executeOrThrow({ type: 'download' })).rejects.toThrow('URL, selector or ref is required for download command');
+    });
+  });
+
+  describe('select', () => {
+    test('should select an option by value', async () => {
+      const result = await executeOrThrow({ type: 'select', selector: '#country', value: 'gb' });
+
+      expect(document.querySelector('#country').value).toBe('gb');
+      expect(result.selected).toEqual([{ value: 'gb', label: 'United Kingdom' }]);
+    });
+
+    test('should select an option by label', async () => {
+      await executeOrThrow({ type: 'select', selector: '#country', value: 'germany' });
+
+      expect(document.querySelector('#country').value).toBe('de');
+    });
+
+    test('should select several options of a multiple select', async () => {
+      const result = await executeOrThrow({ type: 'select', selector: '#tags', value: 'News, tech' });
+
+      expect(result.selected.map(option => option.value)).toEqual(['news', 'tech']);
+    });
+
+    test('should reject an unknown option', async () => {
+      await expect(executeOrThrow({ type: 'select', selector: '#country', value: 'France' }))
+        .rejects.toThrow('Option not found: France');
+    });
+
+    test('should reject select on an element that is not a select', async () => {
+      await expect(executeOrThrow({ type: 'select', selector: '#email', value: 'a' }))
+        .rejects.toThrow('Element is not a select: #email');
+    });
+  });
+
+  describe('search', () => {
+    test('should search with the page search box', async () => {
+      const result = await executeOrThrow({ type: 'search', parameters: { query: 'chrome extensions' } });
+
+      expect(result.submitted).toBe(true);
+      expect(document.querySelector('#search').value).toBe('chrome extensions');
+      expect(document.querySelector('#search-form').requestSubmit).toHaveBeenCalled();
+    });
+
+    test('should navigate to a named search engine', async () => {
+      const result = await executeOrThrow({ type: 'search', parameters: { query: 'a b', searchEngine: 'duckduckgo' } });
+
+      expect(result.navigated).toBe(true);
+      expect(result.url).toBe('https://duckduckgo.com/?q=a%20b');
+    });
+
+    test('should fall back to a search engine when the page has no search box', async () => {
+      document.querySelector('#search').remove();
+
+      const result = await executeOrThrow({ type: 'search', parameters: { query: 'ray' } });
+
+      expect(result.engine).toBe('google');
+      expect(result.url).toBe('https://www.google.com/search?q=ray');
+    });
+
+    test('should reject search without query', async () => {
+      await expect(executeOrThrow({ type: 'search' })).rejects.toThrow('Query is required for search command');
+    });
+  });
+
+  describe('login', () => {
+    test('should fill and submit the login form', async () => {
+      const result = await executeOrThrow({ type: 'login', parameters: { username: 'ray@example.com', password: 'secret' } });
+
+      expect(result.submitted).toBe(true);
+      expect(document.querySelector('#email').value).toBe('ray@example.com');
+      expect(document.querySelector('#password').value).toBe('secret');
+      expect(document.querySelector('#login-form').requestSubmit).toHaveBeenCalled();
+    });
+
+    test('should wait for credentials when none are given', async () => {
+      const result = await executeOrThrow({ type: 'login' });
+
+      expect(result.awaitingCredentials).toBe(true);
+      expect(document.activeElement).toBe(document.querySelector('#email'));
+    });
+
+    test('should open the login form when the page has none', async () => {
+      document.querySelector('#login-form').remove();
+      document.body.insertAdjacentHTML('beforeend', '<button id="open-login">Log in</button>');
+      const clickSpy = jest.spyOn(document.querySelector('#open-login'), 'click');
+
+      const result = await executeOrThrow({ type: 'login' });
+
+      expect(result.opened).toBe(true);
+      expect(clickSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    test('should click the logout control found by its text', async () => {
+      const clickSpy = jest.spyOn(document.querySelector('#logout'), 'click');
+
+      const result = await executeOrThrow({ type: 'logout' });
+
+      expect(result.clicked).toBe(true);
+      expect(clickSpy).toHaveBeenCalled();
+    });
+
+    test('should reject logout when there is no logout control', async () => {
+      document.querySelector('#logout').remove();
+
+      await expect(executeOrThrow({ type: 'logout' })).rejects.toThrow('Logout control not found');
+    });
+  });
+
+  describe('screenshot', () => {
+    test('should capture the visible tab through the background', async () => {
+      chrome.runtime.sendMessage.mockResolvedValueOnce({ success: true, dataUrl: 'data:image/jpeg;base64,AAAA' });
+
+      const result = await executeOrThrow({ type: 'screenshot', parameters: { format: 'jpeg' } });
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ type: 'capture_screenshot', format: 'jpeg' });
+      expect(result.dataUrl).toBe('data:image/jpeg;base64,AAAA');
+    });
+
+    test('should report capture failures', async () => {
+      chrome.runtime.sendMessage.mockResolvedValueOnce({ success: false, error: 'Cannot capture chrome:// pages' });
+
+      await expect(executeOrThrow({ type: 'screenshot' })).rejects.toThrow('Cannot capture chrome:// pages');
+    });
+  });
+});
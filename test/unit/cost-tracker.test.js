@@ -0,0 +1,111 @@
+/**
+ * Cost Tracking Unit Tests
+ * Tests for model pricing, spend rollups and spend caps
+ */
+
+require('../setup/chrome-mock.js');
+
+const {
+  CostTracker,
+  SPEND_LIMITS_STORAGE_KEY,
+  SPEND_ROLLUPS_STORAGE_KEY,
+} = require('../../lib/openrouter/cost-tracker');
+const {
+  calculateCost,
+  formatCost,
+  getModelPricing,
+  parsePerTokenPricing,
+} = require('../../lib/openrouter/pricing');
+
+describe('Cost tracking', () => {
+  describe('pricing', () => {
+    test('should look up vendor and bare model ids and treat :free variants as free', () => {
+      expect(getModelPricing('openai/gpt-4o')).toEqual({ prompt: 2.5, completion: 10 });
+      expect(getModelPricing('azure/gpt-4o-mini')).toEqual({ prompt: 0.15, completion: 0.6 });
+      expect(getModelPricing('meta-llama/llama-3.1-8b-instruct:free')).toEqual({ prompt: 0, completion: 0 });
+      expect(getModelPricing('vendor/unknown-model')).toBeNull();
+    });
+
+    test('should prefer overrides over the built-in table', () => {
+      const overrides = { 'openai/gpt-4o': { prompt: 1, completion: 2 } };
+
+      expect(getModelPricing('openai/gpt-4o', overrides)).toEqual({ prompt: 1, completion: 2 });
+    });
+
+    test('should price tokens per million and convert per-token prices', () => {
+      expect(calculateCost({ prompt: 2.5, completion: 10 }, 1000, 500)).toBeCloseTo(0.0075);
+      expect(calculateCost(null, 1000, 500)).toBe(0);
+      expect(parsePerTokenPricing({ prompt: '0.0000025', completion: '0.00001' })).toEqual({ prompt: 2.5, completion: 10 });
+      expect(parsePerTokenPricing({ prompt: 'n/a' })).toBeUndefined();
+    });
+
+    test('should show sub-cent amounts with four decimals', () => {
+      expect(formatCost(0.0042)).toBe('$0.0042');
+      expect(formatCost(1.5)).toBe('$1.50');
+      expect(formatCost(0)).toBe('$0.00');
+    });
+  });
+
+  describe('CostTracker', () => {
+    let tracker;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      chrome.storage.local.get.mockResolvedValue({});
+      tracker = new CostTracker();
+    });
+
+    test('should add recorded usage to the daily and monthly rollups per model', async () => {
+      await tracker.record('openai/gpt-4o', 1000, 500);
+      await tracker.record('openai/gpt-4o', 1000, 500);
+      await tracker.record('openai/gpt-4o-mini', 2000, 0);
+
+      const { daily, monthly } = await tracker.getSummary();
+
+      expect(daily.requests).toBe(3);
+      expect(daily.promptTokens).toBe(4000);
+      expect(daily.cost).toBeCloseTo(0.0153);
+      expect(daily.byModel['openai/gpt-4o'].requests).toBe(2);
+      expect(monthly.cost).toBeCloseTo(daily.cost);
+      expect(chrome.storage.local.set).toHaveBeenLastCalledWith({
+        [SPEND_ROLLUPS_STORAGE_KEY]: expect.objectContaining({ daily: expect.any(Object) }),
+      });
+    });
+
+    test('should use provider-reported prices for unknown models', async () => {
+      expect(tracker.getPricing('vendor/new-model')).toBeNull();
+
+      tracker.setModelPricing('vendor/new-model', { prompt: 1, completion: 1 });
+
+      expect(await tracker.record('vendor/new-model', 500000, 500000)).toBeCloseTo(1);
+    });
+
+    test('should refuse requests past a hard cap and warn past a soft cap', async () => {
+      await tracker.setLimits({ daily: { soft: 0.01, hard: 0.02 } });
+      await tracker.record('openai/gpt-4o', 1000, 500);
+
+      expect(await tracker.checkBudget(0.001)).toEqual({ allowed: true, warnings: [] });
+
+      const warned = await tracker.checkBudget(0.003);
+      expect(warned.allowed).toBe(true);
+      expect(warned.warnings).toEqual(['Daily spend is $0.0075, past the $0.01 warning threshold']);
+
+      const refused = await tracker.checkBudget(0.02);
+      expect(refused.allowed).toBe(false);
+      expect(refused.reason).toBe('Daily spend limit of $0.02 reached ($0.0075 spent)');
+    });
+
+    test('should load stored limits and report whether a hard cap is set', async () => {
+      chrome.storage.local.get.mockResolvedValue({
+        [SPEND_LIMITS_STORAGE_KEY]: { monthly: { hard: 5 } },
+      });
+
+      expect((await tracker.getSummary()).limits).toEqual({ daily: {}, monthly: { hard: 5 } });
+      expect(tracker.hasHardLimit()).toBe(true);
+
+      await tracker.setLimits({ monthly: { hard: undefined } });
+
+      expect(tracker.hasHardLimit()).toBe(false);
+    });
+  });
+});
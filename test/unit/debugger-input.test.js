@@ -0,0 +1,172 @@
+/**
+ * Trusted Input Unit Tests
+ * Tests for input through the chrome.debugger protocol and choosing between input backends
+ */
+
+require('../setup/chrome-mock.js');
+
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(async (key, defaultValue = null) => defaultValue),
+  setStorageValue: jest.fn(async () => undefined),
+  onStorageChanged: jest.fn(),
+}));
+
+const { getStorageValue, setStorageValue } = require('../../lib/utils/chrome-storage');
+const {
+  DEBUGGER_TABS_STORAGE_KEY,
+  DebuggerInput,
+  DebuggerUnavailableError,
+  INPUT_BACKENDS_STORAGE_KEY,
+} = require('../../lib/debugger-input');
+
+// The shared chrome mock has no debugger API
+chrome.debugger = {
+  attach: jest.fn(async () => undefined),
+  detach: jest.fn(async () => undefined),
+  sendCommand: jest.fn(async () => undefined),
+  onDetach: { addListener: jest.fn() },
+};
+
+describe('DebuggerInput', () => {
+  let input;
+
+  const sent = () => chrome.debugger.sendCommand.mock.calls.map(([, method, params]) => [method, params.type]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chrome.permissions.contains.mockResolvedValue(true);
+    input = new DebuggerInput({ detachDelay: 30 });
+  });
+
+  afterEach(async () => {
+    await input.detachAll();
+  });
+
+  describe('backends', () => {
+    test('should save a backend per origin and fall back to the default', async () => {
+      await input.setBackend('https://docs.example.com/editor', 'debugger');
+
+      expect(await input.getBackend('https://docs.example.com/other')).toBe('debugger');
+      expect(await input.getBackend('https://example.com/')).toBe('auto');
+      expect(setStorageValue).toHaveBeenCalledWith(INPUT_BACKENDS_STORAGE_KEY, { 'https://docs.example.com': 'debugger' });
+
+      await input.setBackend('https://docs.example.com', null);
+      expect(await input.getBackend('https://docs.example.com/editor')).toBe('auto');
+    });
+
+    test('should load saved preferences once', async () => {
+      getStorageValue.mockResolvedValueOnce({ 'https://example.com': 'synthetic' });
+
+      expect(await input.getBackend('https://example.com/a')).toBe('synthetic');
+      expect(await input.getBackend('https://example.com/b')).toBe('synthetic');
+      expect(getStorageValue).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dispatch', () => {
+    const failing = message => jest.fn(async () => { throw new Error(message); });
+
+    test('should use the chosen backend', async () => {
+      const trusted = jest.fn(async () => 'trusted');
+      const synthetic = jest.fn(async () => 'synthetic');
+
+      expect(await input.dispatch(undefined, 'synthetic', trusted, synthetic)).toBe('synthetic');
+      expect(await input.dispatch(undefined, 'debugger', trusted, synthetic)).toBe('trusted');
+      expect(trusted).toHaveBeenCalledTimes(1);
+    });
+
+    test('should try synthetic events first and fall back to trusted input in auto mode', async () => {
+      const trusted = jest.fn(async () => 'trusted');
+
+      expect(await input.dispatch('https://example.com', undefined, trusted, failing('no effect'))).toBe('trusted');
+      await expect(input.dispatch('https://example.com', 'auto', failing('trusted failed'), failing('no effect')))
+        .rejects.toThrow('no effect');
+    });
+
+    test('should not repeat input that may already have reached the page', async () => {
+      const synthetic = jest.fn(async () => 'synthetic');
+
+      await expect(input.dispatch(undefined, 'debugger', failing('Input.insertText failed'), synthetic, { repeatable: false }))
+        .rejects.toThrow('Input.insertText failed');
+      await expect(input.dispatch(undefined, 'auto', jest.fn(), failing('typed half'), { repeatable: false }))
+        .rejects.toThrow('typed half');
+      expect(synthetic).not.toHaveBeenCalled();
+
+      const unavailable = jest.fn(async () => { throw new DebuggerUnavailableError('no permission'); });
+      expect(await input.dispatch(undefined, 'debugger', unavailable, synthetic, { repeatable: false })).toBe('synthetic');
+    });
+  });
+
+  describe('trusted input', () => {
+    test('should refuse to attach without the debugger permission', async () => {
+      chrome.permissions.contains.mockResolvedValue(false);
+
+      await expect(input.click(1, { x: 5, y: 5 })).rejects.toBeInstanceOf(DebuggerUnavailableError);
+      expect(chrome.debugger.attach).not.toHaveBeenCalled();
+    });
+
+    test('should report a failed attach as unavailable', async () => {
+      chrome.debugger.attach.mockRejectedValueOnce(new Error('Another debugger is already attached'));
+
+      await expect(input.click(1, { x: 5, y: 5 })).rejects.toThrow(
+        'Failed to attach debugger to tab 1: Another debugger is already attached'
+      );
+    });
+
+    test('should click with modifiers and attach once for concurrent commands', async () => {
+      await Promise.all([
+        input.click(1, { x: 10, y: 20 }, { doubleClick: true, shiftKey: true, ctrlKey: true }),
+        input.hover(1, { x: 0, y: 0 }),
+      ]);
+
+      expect(chrome.debugger.attach).toHaveBeenCalledTimes(1);
+      expect(chrome.debugger.attach).toHaveBeenCalledWith({ tabId: 1 }, '1.3');
+      expect(chrome.debugger.sendCommand).toHaveBeenCalledWith({ tabId: 1 }, 'Input.dispatchMouseEvent', {
+        type: 'mousePressed', x: 10, y: 20, button: 'left', clickCount: 2, modifiers: 10,
+      });
+      expect(setStorageValue).toHaveBeenCalledWith(DEBUGGER_TABS_STORAGE_KEY, [1]);
+    });
+
+    test('should insert text at once or press a key per character with a delay', async () => {
+      await input.type(1, 'hi');
+      expect(sent()).toEqual([
+        ['Input.dispatchKeyEvent', 'rawKeyDown'],
+        ['Input.dispatchKeyEvent', 'keyUp'],
+        ['Input.insertText', undefined],
+      ]);
+
+      chrome.debugger.sendCommand.mockClear();
+      await input.type(1, 'a\n', { delay: 1, clearFirst: false });
+      expect(chrome.debugger.sendCommand.mock.calls.map(([, , params]) => [params.type, params.key, params.text])).toEqual([
+        ['keyDown', 'a', 'a'],
+        ['keyUp', 'a', undefined],
+        ['keyDown', 'Enter', '\r'],
+        ['keyUp', 'Enter', undefined],
+      ]);
+    });
+
+    test('should detach once input has been idle and forget tabs detached elsewhere', async () => {
+      await input.hover(1, { x: 0, y: 0 });
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 1 });
+      expect(setStorageValue).toHaveBeenLastCalledWith(DEBUGGER_TABS_STORAGE_KEY, []);
+
+      await input.hover(2, { x: 0, y: 0 });
+      const [onDetach] = chrome.debugger.onDetach.addListener.mock.calls[0];
+      onDetach({ tabId: 2 });
+      await input.hover(2, { x: 0, y: 0 });
+
+      expect(chrome.debugger.attach).toHaveBeenCalledTimes(3);
+    });
+
+    test('should detach tabs a previous service worker left attached', async () => {
+      getStorageValue.mockResolvedValueOnce([4, 5]);
+
+      await input.detachStaleTabs();
+
+      expect(chrome.debugger.detach.mock.calls).toEqual([[{ tabId: 4 }], [{ tabId: 5 }]]);
+      expect(setStorageValue).toHaveBeenCalledWith(DEBUGGER_TABS_STORAGE_KEY, []);
+    });
+  });
+});
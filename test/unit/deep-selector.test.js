@@ -0,0 +1,142 @@
+/**
+ * Deep Selector Unit Tests
+ * Tests for selectors that reach into shadow roots and same-origin frames, and for locators
+ */
+
+const {
+  isLocator,
+  queryDeepSelector,
+  queryDeepSelectorAll,
+  quoteLocatorValue,
+} = require('../../lib/deep-selector');
+
+describe('Deep selectors', () => {
+  let host;
+  let frame;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button class="action">Light</button>
+      <settings-panel id="panel"></settings-panel>
+      <iframe id="frame"></iframe>
+    `;
+
+    host = document.getElementById('panel');
+    host.attachShadow({ mode: 'open' }).innerHTML = `
+      <button class="action">Shadow</button>
+      <nested-toggle></nested-toggle>
+    `;
+    host.shadowRoot.querySelector('nested-toggle').attachShadow({ mode: 'open' }).innerHTML =
+      '<button class="action">Nested</button>';
+
+    frame = document.getElementById('frame');
+    frame.contentDocument.body.innerHTML = '<form><button class="action">Framed</button></form>';
+  });
+
+  const texts = elements => elements.map(element => element.textContent);
+
+  test('should match in the light DOM first, then in shadow roots and frames', () => {
+    expect(texts(queryDeepSelectorAll('button.action'))).toEqual(['Light', 'Shadow', 'Nested', 'Framed']);
+  });
+
+  test('should pierce into a host with >>>', () => {
+    expect(texts(queryDeepSelectorAll('#panel >>> button'))).toEqual(['Shadow', 'Nested']);
+    expect(texts(queryDeepSelectorAll('#frame >>> form button'))).toEqual(['Framed']);
+    expect(texts(queryDeepSelectorAll('#panel >>> nested-toggle >>> button'))).toEqual(['Nested']);
+  });
+
+  test('should search from the given root', () => {
+    expect(texts(queryDeepSelectorAll('button', host))).toEqual(['Shadow', 'Nested']);
+  });
+
+  test('should return the first match or null', () => {
+    expect(queryDeepSelector('button.action').textContent).toBe('Light');
+    expect(queryDeepSelector('form button').textContent).toBe('Framed');
+    expect(queryDeepSelector('.missing')).toBeNull();
+  });
+
+  test('should reject an empty >>> segment', () => {
+    expect(() => queryDeepSelectorAll('#panel >>>')).toThrow('Invalid selector: #panel >>>');
+  });
+});
+
+describe('Locators', () => {
+  let getClientRects;
+
+  beforeAll(() => {
+    // jsdom has no layout; without a box every element would count as hidden
+    getClientRects = Element.prototype.getClientRects;
+    Element.prototype.getClientRects = () => [{}];
+  });
+
+  afterAll(() => {
+    Element.prototype.getClientRects = getClientRects;
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h2>Account</h2>
+      <form>
+        <label for="email">Email address</label>
+        <input id="email" type="email" placeholder="you@example.com">
+        <span id="pw-label">Password</span>
+        <input type="password" aria-labelledby="pw-label">
+        <input type="checkbox" aria-label="Remember me" checked>
+        <img src="logo.png" alt="Company logo">
+        <button title="Close dialog" data-testid="close">×</button>
+        <button type="submit">Save</button>
+        <button disabled>Save draft</button>
+        <button hidden>Save hidden</button>
+      </form>
+      <div role="dialog"><p>Delete it?</p><button>OK</button><button>Cancel</button></div>
+    `;
+  });
+
+  const query = selector => queryDeepSelectorAll(selector);
+  const texts = elements => elements.map(element => element.textContent);
+
+  test('should match roles by substring, exact or regex name', () => {
+    expect(texts(query('role=button[name=save]'))).toEqual(['Save', 'Save draft']);
+    expect(texts(query('role=button[name="Save"]'))).toEqual(['Save']);
+    expect(texts(query('role=button[name=/^save d/i]'))).toEqual(['Save draft']);
+    expect(query('role=heading[level=2]')[0].textContent).toBe('Account');
+  });
+
+  test('should filter roles by state and skip hidden elements unless asked', () => {
+    expect(texts(query('role=button[name=save][disabled]'))).toEqual(['Save draft']);
+    expect(query('role=checkbox[checked]')).toHaveLength(1);
+    expect(texts(query('role=button[name=save][include-hidden]'))).toEqual(['Save', 'Save draft', 'Save hidden']);
+  });
+
+  test('should find controls by label, aria-labelledby and aria-label', () => {
+    expect(query('label=email')[0].id).toBe('email');
+    expect(query('label="Password"')[0].type).toBe('password');
+    expect(query('label=remember')[0].type).toBe('checkbox');
+  });
+
+  test('should match placeholder, alt, title, test id and text', () => {
+    expect(query('placeholder=you@')[0].id).toBe('email');
+    expect(query('alt=logo')[0].tagName).toBe('IMG');
+    expect(query('title=close')[0].dataset.testid).toBe('close');
+    expect(query('testid=close')).toHaveLength(1);
+    expect(query('testid=clos')).toHaveLength(0);
+    expect(texts(query('text=delete it'))).toEqual(['Delete it?']);
+  });
+
+  test('should chain steps and pick matches with nth', () => {
+    expect(texts(query('role=dialog >> role=button'))).toEqual(['OK', 'Cancel']);
+    expect(texts(query('role=dialog >> role=button >> nth=-1'))).toEqual(['Cancel']);
+    expect(texts(query('form >> css=button[type=submit]'))).toEqual(['Save']);
+    expect(query('role=dialog >> role=button >> nth=5')).toEqual([]);
+    expect(() => query('role=button >> nth=first')).toThrow('Invalid nth locator: nth=first');
+    expect(() => query('role=button[name=Save')).toThrow('Invalid role locator: role=button[name=Save');
+  });
+
+  test('should tell locators from CSS and quote values', () => {
+    expect(isLocator('role=button')).toBe(true);
+    expect(isLocator('.panel >> nth=0')).toBe(true);
+    expect(isLocator('input[name=q]')).toBe(false);
+    expect(quoteLocatorValue('Say "hi"')).toBe('"Say \\"hi\\""');
+    expect(queryDeepSelector(`role=button[name=${quoteLocatorValue('OK')}]`).textContent).toBe('OK');
+  });
+});
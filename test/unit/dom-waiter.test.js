@@ -0,0 +1,126 @@
+/**
+ * DOM Waiter Unit Tests
+ * Tests for observer-driven element waits and their conditions
+ */
+
+jest.mock('../../lib/dom-selectors', () => ({
+  domSelectors: {
+    findElement: jest.fn(async selector => global.document.querySelector(selector.value)),
+  },
+}));
+
+const { DomWaiter } = require('../../lib/dom-waiter');
+
+const css = value => ({ type: 'css', value });
+
+// jsdom has no layout, so boxes and hit testing are set per element
+const giveBox = element => {
+  element.getBoundingClientRect = () => ({ left: 0, top: 0, width: 100, height: 20 });
+  return element;
+};
+
+describe('DomWaiter', () => {
+  let waiter;
+
+  beforeEach(() => {
+    waiter = new DomWaiter();
+    document.body.innerHTML = '<main id="app"></main>';
+    document.elementFromPoint = jest.fn(() => null);
+  });
+
+  afterEach(() => {
+    waiter.cancelAll();
+  });
+
+  const app = () => document.getElementById('app');
+
+  test('should resolve as soon as a mutation adds the element', async () => {
+    const wait = waiter.wait({ condition: 'present', selectors: [css('#result')], timeout: 1000 });
+
+    setTimeout(() => { app().innerHTML = '<div id="result"></div>'; }, 20);
+
+    const result = await wait;
+    expect(result).toMatchObject({ success: true, condition: 'present', matched: 1 });
+    expect(result.mutations).toBeGreaterThan(0);
+    expect(result.elapsed).toBeLessThan(1000);
+    expect(waiter.size).toBe(0);
+  });
+
+  test('should wait for an element to become visible and then hidden', async () => {
+    app().innerHTML = '<div id="toast" style="display: none">Saved</div>';
+    const toast = giveBox(document.getElementById('toast'));
+
+    const visible = waiter.wait({ condition: 'visible', selectors: [css('#toast')], timeout: 1000 });
+    toast.style.display = 'block';
+    expect(await visible).toMatchObject({ success: true, matched: 1 });
+
+    const hidden = waiter.wait({ condition: 'hidden', selectors: [css('#toast')], timeout: 1000 });
+    toast.remove();
+    expect(await hidden).toMatchObject({ success: true, matched: 0 });
+  });
+
+  test('should only count enabled, unobscured elements as clickable', async () => {
+    app().innerHTML = '<button id="save" disabled>Save</button><div id="overlay"></div>';
+    const button = giveBox(document.getElementById('save'));
+    document.elementFromPoint.mockReturnValue(document.getElementById('overlay'));
+
+    const clickable = waiter.wait({ condition: 'clickable', selectors: [css('#save')], timeout: 1000 });
+    button.disabled = false;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(waiter.size).toBe(1);
+
+    document.elementFromPoint.mockReturnValue(button);
+    document.getElementById('overlay').remove();
+
+    expect(await clickable).toMatchObject({ success: true, matched: 1 });
+  });
+
+  test('should wait for every selector with all and for text in a scope', async () => {
+    const all = waiter.wait({ condition: 'all', selectors: [css('#name'), css('#email')], timeout: 1000 });
+    const text = waiter.wait({ condition: 'text', selectors: [css('#app')], text: 'Order  CONFIRMED', timeout: 1000 });
+
+    app().innerHTML = '<input id="name">';
+    await new Promise(resolve => setTimeout(resolve, 10));
+    app().innerHTML += '<input id="email"><p>Your order\n confirmed</p>';
+
+    expect(await all).toMatchObject({ success: true, matched: 2 });
+    expect(await text).toMatchObject({ success: true, matched: 1 });
+  });
+
+  test('should resolve stable once mutations in the scope stop for the quiet period', async () => {
+    app().innerHTML = '<ul id="feed"></ul>';
+    const feed = document.getElementById('feed');
+    const outside = document.createElement('aside');
+    document.body.appendChild(outside);
+
+    const stable = waiter.wait({ condition: 'stable', selectors: [css('#feed')], quietMs: 200, timeout: 2000 });
+    for (let i = 0; i < 3; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      feed.appendChild(document.createElement('li'));
+      outside.textContent = String(i);
+    }
+
+    const result = await stable;
+    expect(result).toMatchObject({ success: true, matched: 1, mutations: 3 });
+    expect(result.elapsed).toBeGreaterThanOrEqual(260);
+  });
+
+  test('should report the last selector error or a timeout', async () => {
+    expect(await waiter.wait({ condition: 'visible', timeout: 50 })).toMatchObject({
+      success: false,
+      error: "A selector is required to wait for 'visible'",
+    });
+    expect(await waiter.wait({ condition: 'present', selectors: [css('#never')], timeout: 50 })).toMatchObject({
+      success: false,
+      error: "Condition 'present' not met within 50ms",
+    });
+  });
+
+  test('should settle pending waits when cancelled', async () => {
+    const wait = waiter.wait({ condition: 'present', selectors: [css('#never')], timeout: 1000 });
+
+    waiter.cancelAll('Page unloaded');
+
+    expect(await wait).toMatchObject({ success: false, error: 'Page unloaded' });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Element Fingerprint Unit Tests
+ * Tests for healing recorded selectors by finding the closest element after a redeploy
+ */
+
+const {
+  captureFingerprint,
+  findClosestElement,
+  scoreFingerprint,
+} = require('../../lib/element-fingerprint');
+
+describe('Element fingerprints', () => {
+  let getBoundingClientRect;
+
+  beforeAll(() => {
+    // jsdom has no layout; every element gets a visible box so it counts as a candidate
+    getBoundingClientRect = Element.prototype.getBoundingClientRect;
+    Element.prototype.getBoundingClientRect = function () {
+      return { left: 20, top: 40, width: 120, height: 32 };
+    };
+  });
+
+  afterAll(() => {
+    Element.prototype.getBoundingClientRect = getBoundingClientRect;
+  });
+
+  const recordCheckoutButton = () => {
+    document.body.innerHTML = `
+      <form>
+        <fieldset>
+          <legend>Payment</legend>
+          <button id="submit-order" class="btn primary" style="color: red" onclick="go()">Place order</button>
+        </fieldset>
+      </form>
+    `;
+    return captureFingerprint(document.getElementById('submit-order'));
+  };
+
+  test('should capture tag, role, name, labels, attributes and ancestors', () => {
+    expect(recordCheckoutButton()).toEqual({
+      tag: 'button',
+      role: 'button',
+      name: 'Place order',
+      text: 'Place order',
+      labels: ['Payment'],
+      attributes: { id: 'submit-order', class: 'btn primary' },
+      path: ['form', 'fieldset'],
+      rect: { x: 20, y: 40, width: 120, height: 32 },
+    });
+  });
+
+  test('should score an identical fingerprint fully and a different element low', () => {
+    const fingerprint = recordCheckoutButton();
+    const link = { tag: 'a', role: 'link', name: 'Privacy', attributes: { href: '/privacy' }, path: ['footer'] };
+
+    expect(scoreFingerprint(fingerprint, fingerprint)).toBe(1);
+    expect(scoreFingerprint(fingerprint, link)).toBeLessThan(0.3);
+  });
+
+  test('should find the element after its id, classes and wording changed', () => {
+    const fingerprint = recordCheckoutButton();
+    document.body.innerHTML = `
+      <form>
+        <fieldset>
+          <legend>Payment</legend>
+          <button id="back" class="btn">Back to cart</button>
+          <button id="checkout-submit" class="btn btn-primary">Place your order</button>
+        </fieldset>
+      </form>
+    `;
+
+    const match = findClosestElement(fingerprint);
+
+    expect(match.element.id).toBe('checkout-submit');
+    expect(match.score).toBeGreaterThan(0.6);
+  });
+
+  test('should not heal to a poor match or pick between identical candidates', () => {
+    const fingerprint = recordCheckoutButton();
+
+    document.body.innerHTML = '<nav><button>Menu</button></nav>';
+    expect(findClosestElement(fingerprint)).toBeNull();
+
+    document.body.innerHTML = `
+      <form><fieldset><legend>Payment</legend>
+        <button class="btn primary">Place order</button>
+        <button class="btn primary">Place order</button>
+      </fieldset></form>
+    `;
+    expect(findClosestElement(fingerprint)).toBeNull();
+  });
+
+  test('should honour a custom threshold', () => {
+    const fingerprint = recordCheckoutButton();
+    document.body.innerHTML = '<div><button class="btn">Order</button></div>';
+
+    expect(findClosestElement(fingerprint, { threshold: 0.95 })).toBeNull();
+    expect(findClosestElement(fingerprint, { threshold: 0.1 }).element.textContent).toBe('Order');
+  });
+});
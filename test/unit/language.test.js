@@ -0,0 +1,82 @@
+/**
+ * Multilingual Parsing Unit Tests
+ * Tests for n-gram language detection and locale-aware entity parsing
+ */
+
+const { LanguageDetector } = require('../../lib/commands/language-detector');
+const {
+  extractLocaleEntities,
+  parseLocaleDates,
+  parseLocaleDirection,
+  parseLocaleDurations,
+  parseLocaleNumbers,
+} = require('../../lib/commands/locale-entities');
+
+describe('Multilingual parsing', () => {
+  describe('LanguageDetector', () => {
+    const detector = new LanguageDetector();
+
+    test.each([
+      ['click on the submit button and wait for the page', 'en'],
+      ['haz clic en el botón de enviar y espera', 'es'],
+      ['clique sur le bouton envoyer et attends la page', 'fr'],
+      ['klicke auf den button und warte auf die seite', 'de'],
+      ['clique no botão enviar e aguarde a página', 'pt'],
+      ['送信ボタンをクリックしてください', 'ja'],
+    ])('should detect "%s" as %s', (input, language) => {
+      expect(detector.detect(input).language).toBe(language);
+    });
+
+    test('should ignore URLs, e-mail addresses and quoted values', () => {
+      expect(detector.detect('abre la página https://example.com/login-page-search').language).toBe('es');
+      expect(detector.detect('escribe "the quick brown fox jumps over the lazy dog" en el campo').language).toBe('es');
+    });
+
+    test('should fall back to the default locale for text that is too short', () => {
+      expect(new LanguageDetector({ defaultLocale: 'de' }).detect('ok').language).toBe('de');
+    });
+
+    test('should rank the other languages as alternatives', () => {
+      const detection = detector.detect('scroll down to the bottom of the page');
+
+      expect(detection.alternatives.map(alternative => alternative.language).sort()).toEqual(['de', 'es', 'fr', 'pt']);
+      expect(detection.confidence).toBeGreaterThan(detection.alternatives[0].confidence);
+    });
+  });
+
+  describe('locale entities', () => {
+    const now = new Date(2026, 0, 15);
+
+    test('should honour the locale decimal and thousands separators', () => {
+      expect(parseLocaleNumbers('type 1,234.5 into the field', 'en')).toEqual([1234.5]);
+      expect(parseLocaleNumbers('gib 1.234,5 in das feld ein', 'de')).toEqual([1234.5]);
+    });
+
+    test('should read number words and units as durations', () => {
+      expect(parseLocaleDurations('espera dos minutos', 'es')).toEqual([120000]);
+      expect(parseLocaleDurations('warte eine Minute', 'de')).toEqual([60000]);
+      expect(parseLocaleDurations('3秒待って', 'ja')).toEqual([3000]);
+    });
+
+    test('should read relative days and numeric dates in the locale order', () => {
+      expect(parseLocaleDates('réserve pour demain', 'fr', now)).toEqual([new Date(2026, 0, 16)]);
+      expect(parseLocaleDates('reserva para pasado mañana', 'es', now)).toEqual([new Date(2026, 0, 17)]);
+      expect(parseLocaleDates('book it for 03/04/2026', 'en', now)).toEqual([new Date(2026, 2, 4)]);
+      expect(parseLocaleDates('buche es für 03.04.2026', 'de', now)).toEqual([new Date(2026, 3, 3)]);
+    });
+
+    test('should read scroll directions', () => {
+      expect(parseLocaleDirection('fais défiler vers le bas', 'fr')).toBe('down');
+      expect(parseLocaleDirection('scroll to the top', 'en')).toBe('up');
+      expect(parseLocaleDirection('click the button', 'en')).toBeUndefined();
+    });
+
+    test('should not count date digits as quantities', () => {
+      expect(extractLocaleEntities('warte 5 Sekunden bis 03.04.2026', 'de', now)).toEqual({
+        numbers: [5],
+        dates: [new Date(2026, 3, 3)],
+        waitTimes: [5000],
+      });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Command Macros Unit Tests
+ * Tests for macro triggers, typed parameters, expansion and shared libraries
+ */
+
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(async (key, defaultValue = null) => defaultValue),
+  setStorageValue: jest.fn(async () => undefined),
+  onStorageChanged: jest.fn(),
+}));
+
+const { getStorageValue, onStorageChanged, setStorageValue } = require('../../lib/utils/chrome-storage');
+const {
+  MACROS_STORAGE_KEY,
+  MacroStore,
+  expandMacroPlan,
+  expandMacroTemplate,
+  matchMacro,
+  parseMacroTrigger,
+  validateMacro,
+} = require('../../lib/commands/macros');
+
+const macro = (trigger, fields = {}) => ({
+  id: trigger,
+  trigger,
+  parameters: parseMacroTrigger(trigger),
+  template: 'do it',
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+describe('Command macros', () => {
+  describe('parseMacroTrigger', () => {
+    test('should read names, types and optional markers', () => {
+      expect(parseMacroTrigger('standup {date:date?} for {team}')).toEqual([
+        { name: 'date', type: 'date', optional: true },
+        { name: 'team', type: 'string', optional: false },
+      ]);
+    });
+  });
+
+  describe('validateMacro', () => {
+    test('should accept a trigger with a template using its parameters', () => {
+      expect(validateMacro({ trigger: 'open {site:url}', template: 'Go to {site}' })).toEqual([]);
+    });
+
+    test('should report trigger and template problems', () => {
+      expect(validateMacro({ trigger: '{site} {site:colour}', template: 'Go to {page}' })).toEqual([
+        'Trigger needs at least one word besides its parameters',
+        'Parameter "site" has unknown type "colour"',
+        'Parameter "site" is declared twice',
+        'Template uses undeclared parameter "page"',
+      ]);
+    });
+
+    test('should require exactly one of a template or a saved plan', () => {
+      expect(validateMacro({ trigger: 'standup' })).toEqual(['Macro needs either a command template or a saved plan']);
+      expect(validateMacro({ trigger: 'standup', template: 'x', commands: [{ type: 'scroll' }] }))
+        .toContain('Macro needs either a command template or a saved plan');
+    });
+
+    test('should check each step of a saved plan', () => {
+      const errors = validateMacro({ trigger: 'login', commands: [{ type: 'teleport' }, { type: 'click' }] });
+
+      expect(errors).toContain('Step 1: unknown command type "teleport"');
+      expect(errors).toContain('Step 2: selector or ref is required');
+    });
+  });
+
+  describe('matchMacro', () => {
+    const now = new Date(2026, 0, 15);
+
+    test('should convert typed parameters', () => {
+      const macros = [macro('order {count:number} of {item}'), macro('open {site:url}')];
+
+      expect(matchMacro('Order 1,500 of widgets.', macros, 'en', now).values).toEqual({ count: '1500', item: 'widgets' });
+      expect(matchMacro('open example.com', macros, 'en', now).values).toEqual({ site: 'https://example.com' });
+      expect(matchMacro('order some of widgets', macros, 'en', now)).toBeNull();
+    });
+
+    test('should fill optional dates with today or the saved default', () => {
+      const withDefault = macro('report {date:date?}', {
+        parameters: [{ name: 'date', type: 'date', optional: true, defaultValue: '2026-01-01' }],
+      });
+
+      expect(matchMacro('standup', [macro('standup {date:date?}')], 'en', now).values).toEqual({ date: '2026-01-15' });
+      expect(matchMacro('standup tomorrow', [macro('standup {date:date?}')], 'en', now).values).toEqual({ date: '2026-01-16' });
+      expect(matchMacro('report', [withDefault], 'en', now).values).toEqual({ date: '2026-01-01' });
+    });
+
+    test('should prefer the trigger with more literal text', () => {
+      const generic = macro('standup {text}');
+      const team = macro('standup team {date:date}');
+
+      expect(matchMacro('standup team tomorrow', [generic, team], 'en', now).macro).toBe(team);
+    });
+  });
+
+  describe('expansion', () => {
+    test('should fill known placeholders and leave unknown ones', () => {
+      expect(expandMacroTemplate('Go to {site} on {date}', { site: 'https://example.com' }))
+        .toBe('Go to https://example.com on {date}');
+    });
+
+    test('should fill placeholders in every string field of a saved plan', () => {
+      const plan = [{ type: 'fill', selector: '#q', value: '{term}', options: { tags: ['{term}'], delay: 5 } }];
+
+      expect(expandMacroPlan(plan, { term: 'shoes' })).toEqual([
+        { type: 'fill', selector: '#q', value: 'shoes', options: { tags: ['shoes'], delay: 5 } },
+      ]);
+      expect(plan[0].value).toBe('{term}');
+    });
+  });
+
+  describe('MacroStore', () => {
+    let store;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      store = new MacroStore();
+    });
+
+    test('should save macros with their parameters and persist them', async () => {
+      const saved = await store.save({ trigger: ' open {site:url} ', template: 'Go to {site}' });
+
+      expect(saved.trigger).toBe('open {site:url}');
+      expect(saved.parameters).toEqual([{ name: 'site', type: 'url', optional: false }]);
+      expect(setStorageValue).toHaveBeenCalledWith(MACROS_STORAGE_KEY, [saved]);
+    });
+
+    test('should refuse invalid definitions and clashing triggers', async () => {
+      await store.save({ trigger: 'open {site}', template: 'Go to {site}' });
+
+      await expect(store.save({ trigger: 'open' })).rejects.toThrow('Macro needs either a command template or a saved plan');
+      await expect(store.save({ trigger: 'Open {page}', template: 'Go to {page}' }))
+        .rejects.toThrow('A macro with the trigger "open {site}" already exists');
+    });
+
+    test('should import valid macros and report skipped ones', async () => {
+      getStorageValue.mockResolvedValueOnce([macro('standup', { id: 'kept', createdAt: 1 })]);
+
+      const result = await store.importLibrary({
+        version: 1,
+        macros: [{ trigger: 'Standup', template: 'Open the board' }, { trigger: 'broken' }],
+      });
+
+      expect(result).toEqual({ imported: 1, skipped: ['broken: Macro needs either a command template or a saved plan'] });
+      const [standup] = await store.list();
+      expect(standup).toMatchObject({ id: 'kept', createdAt: 1, template: 'Open the board' });
+    });
+
+    test('should round-trip an exported library and reject newer versions', async () => {
+      await store.save({ trigger: 'open {site}', template: 'Go to {site}' });
+      const library = await store.exportLibrary();
+
+      const other = new MacroStore();
+      await other.importLibrary(JSON.parse(JSON.stringify(library)), true);
+
+      expect((await other.list()).map(entry => entry.trigger)).toEqual(['open {site}']);
+      await expect(other.importLibrary({ version: 99, macros: [] })).rejects.toThrow('Unsupported macro library version: 99');
+    });
+
+    test('should reload when another instance saves', async () => {
+      await store.load();
+      const [listener] = onStorageChanged.mock.calls[0];
+
+      listener({ [MACROS_STORAGE_KEY]: { newValue: [macro('standup')] } }, 'local');
+
+      expect((await store.list()).map(entry => entry.trigger)).toEqual(['standup']);
+    });
+  });
+});
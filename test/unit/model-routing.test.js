@@ -0,0 +1,51 @@
+/**
+ * Model Routing Unit Tests
+ * Tests for estimating command complexity to route AI parsing to a suitable model
+ */
+
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(async (key, defaultValue = null) => defaultValue),
+  setStorageValue: jest.fn(async () => undefined),
+  onStorageChanged: jest.fn(),
+}));
+
+const { CommandParser } = require('../../lib/commands/parser');
+
+const createProvider = () => ({
+  parseCommand: jest.fn(async () => ({ commands: [], confidence: 0.5, requiresClarification: false })),
+});
+
+describe('Model routing', () => {
+  let provider;
+  let parser;
+
+  const routedComplexity = async (input, options) => {
+    await parser.parseCommand(input, {}, options);
+    return provider.parseCommand.mock.calls[0][2].complexity;
+  };
+
+  beforeEach(() => {
+    provider = createProvider();
+    parser = new CommandParser(provider);
+  });
+
+  test('should route short commands without a pattern match as simple', async () => {
+    expect(await routedComplexity('tidy up the widgets')).toBe('simple');
+  });
+
+  test('should route chained steps as complex', async () => {
+    expect(await routedComplexity('open my inbox and then archive the newsletters')).toBe('complex');
+    provider.parseCommand.mockClear();
+    expect(await routedComplexity('open my inbox; archive the newsletters')).toBe('complex');
+  });
+
+  test('should route long single-step commands as moderate', async () => {
+    const input = 'find the cheapest flight that leaves in the morning and has no more than one stop';
+
+    expect(await routedComplexity(input)).toBe('moderate');
+  });
+
+  test('should let the caller choose the route', async () => {
+    expect(await routedComplexity('tidy up the widgets', { complexity: 'complex' })).toBe('complex');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Network Monitor Unit Tests
+ * Tests for network idle waits and waiting for matching requests and responses
+ */
+
+require('../setup/chrome-mock.js');
+
+const { NetworkMonitor, matchesUrlPattern } = require('../../lib/network-monitor');
+
+const createEvent = () => ({ addListener: jest.fn(), removeListener: jest.fn() });
+
+// The shared chrome mock has no webRequest API
+chrome.webRequest = {
+  onBeforeRequest: createEvent(),
+  onCompleted: createEvent(),
+  onErrorOccurred: createEvent(),
+};
+
+describe('NetworkMonitor', () => {
+  const tabId = 7;
+  let monitor;
+  let nextId;
+
+  const listenerOf = event => event.addListener.mock.calls[event.addListener.mock.calls.length - 1][0];
+
+  const startRequest = (url, fields = {}) => {
+    const requestId = String(nextId++);
+    listenerOf(chrome.webRequest.onBeforeRequest)({
+      requestId, tabId, frameId: 0, url, method: 'GET', type: 'xmlhttprequest', timeStamp: Date.now(), ...fields,
+    });
+    return requestId;
+  };
+
+  const complete = (requestId, statusCode = 200) =>
+    listenerOf(chrome.webRequest.onCompleted)({ requestId, tabId, statusCode });
+
+  const fail = (requestId, error) =>
+    listenerOf(chrome.webRequest.onErrorOccurred)({ requestId, tabId, error });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    nextId = 1;
+    monitor = new NetworkMonitor({ idleMs: 500, timeout: 5000 });
+    monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  describe('waitForNetworkIdle', () => {
+    test('should resolve once the network stays quiet for the idle period', async () => {
+      const first = startRequest('https://api.example.com/items');
+      const idle = monitor.waitForNetworkIdle(tabId);
+
+      jest.advanceTimersByTime(1000);
+      complete(first);
+      jest.advanceTimersByTime(300);
+      startRequest('https://api.example.com/more');
+      complete('2');
+      jest.advanceTimersByTime(499);
+
+      let settled = false;
+      idle.then(() => { settled = true; });
+      await Promise.resolve();
+      expect(settled).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      await expect(idle).resolves.toEqual({ inflight: 0, waited: 1800 });
+    });
+
+    test('should allow long-lived connections and the configured number of open requests', async () => {
+      startRequest('wss://live.example.com/socket', { type: 'websocket' });
+      startRequest('https://api.example.com/poll');
+
+      const idle = monitor.waitForNetworkIdle(tabId, { maxInflight: 1 });
+      jest.advanceTimersByTime(500);
+
+      await expect(idle).resolves.toEqual({ inflight: 1, waited: 500 });
+      expect(monitor.getInflightRequests(tabId).map(request => request.url)).toEqual(['https://api.example.com/poll']);
+    });
+
+    test('should name a pending request when it times out', async () => {
+      startRequest('https://api.example.com/slow');
+      const idle = monitor.waitForNetworkIdle(tabId, { timeout: 2000 });
+
+      jest.advanceTimersByTime(2000);
+
+      await expect(idle).rejects.toThrow(
+        'Network not idle within 2000ms: 1 request(s) in flight, e.g. https://api.example.com/slow'
+      );
+    });
+
+    test('should forget requests of the previous document on navigation', async () => {
+      startRequest('https://api.example.com/abandoned');
+      startRequest('https://example.com/next', { type: 'main_frame' });
+
+      expect(monitor.getInflightRequests(tabId).map(request => request.url)).toEqual(['https://example.com/next']);
+    });
+  });
+
+  describe('waitForRequest and waitForResponse', () => {
+    test('should match a response by URL pattern, method and status', async () => {
+      const response = monitor.waitForResponse(tabId, '**/api/orders/*', { method: 'post', status: 201 });
+
+      complete(startRequest('https://example.com/api/orders/1'), 201);
+      complete(startRequest('https://example.com/api/orders/2', { method: 'POST' }), 500);
+      complete(startRequest('https://example.com/api/orders/3', { method: 'POST' }), 201);
+
+      await expect(response).resolves.toMatchObject({ url: 'https://example.com/api/orders/3', statusCode: 201 });
+    });
+
+    test('should see requests that started before the wait', async () => {
+      jest.setSystemTime(1000);
+      const requestId = startRequest('https://example.com/api/search?q=shoes');
+      jest.setSystemTime(2000);
+
+      await expect(monitor.waitForRequest(tabId, 'search?q=', { since: 0 })).resolves.toMatchObject({ requestId });
+
+      complete(requestId);
+      await expect(monitor.waitForResponse(tabId, '/search\\?q=\\w+/', { since: 0 })).resolves.toMatchObject({ statusCode: 200 });
+    });
+
+    test('should fail when the matching request fails or never comes', async () => {
+      const response = monitor.waitForResponse(tabId, '/api/profile');
+      fail(startRequest('https://example.com/api/profile'), 'net::ERR_CONNECTION_RESET');
+
+      await expect(response).rejects.toThrow('Request to https://example.com/api/profile failed: net::ERR_CONNECTION_RESET');
+
+      const request = monitor.waitForRequest(tabId, '/api/missing', { timeout: 1000 });
+      jest.advanceTimersByTime(1000);
+      await expect(request).rejects.toThrow('No request matching /api/missing within 1000ms');
+    });
+  });
+
+  describe('matchesUrlPattern', () => {
+    test('should match globs, regexes and substrings', () => {
+      expect(matchesUrlPattern('https://example.com/api/users/1', 'https://example.com/api/users/*')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/api/users/1/posts', 'https://example.com/api/users/*')).toBe(false);
+      expect(matchesUrlPattern('https://example.com/api/users/1/posts', '**/users/**')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/api/users', '/users$/')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/api/users', 'api/users')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/api/profile', '/api/profile')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Page Snapshot Unit Tests
+ * Tests for the accessibility-style page tree and its numeric element refs
+ */
+
+const { PageSnapshotter } = require('../../lib/page-snapshot');
+
+describe('Page snapshot', () => {
+  let snapshotter;
+
+  beforeEach(() => {
+    snapshotter = new PageSnapshotter();
+    document.title = 'Sign in';
+    document.body.innerHTML = `
+      <main>
+        <h1>Welcome back</h1>
+        <form>
+          <label for="email">Email</label>
+          <input id="email" type="email" value="ada@example.com" required>
+          <input type="password" placeholder="Password" value="secret">
+          <input type="checkbox" aria-label="Remember me" checked>
+          <button type="submit" disabled>Sign in</button>
+        </form>
+        <a>Not a link</a>
+        <div hidden><button>Hidden</button></div>
+        <script>var ignored = true;</script>
+      </main>
+    `;
+  });
+
+  test('should serialize roles, names and states as an indented tree', () => {
+    const { tree, refCount, truncated, title } = snapshotter.snapshot();
+    const lines = tree.split('\n');
+
+    expect(title).toBe('Sign in');
+    expect(truncated).toBe(false);
+    expect(refCount).toBe(lines.length);
+    expect(lines[0]).toBe('- main [ref=1]');
+    expect(tree).toContain('  - heading "Welcome back" [ref=2] level=1');
+    expect(tree).toContain('    - textbox "Email" [ref=5] required value="ada@example.com"');
+    expect(tree).toContain('    - checkbox "Remember me" [ref=7] checked');
+    expect(tree).toContain('    - button "Sign in" [ref=8] disabled');
+  });
+
+  test('should mask password values and skip hidden, scripted and href-less elements', () => {
+    const { tree } = snapshotter.snapshot();
+
+    expect(tree).toContain('textbox "Password" [ref=6] value="••••"');
+    expect(tree).not.toContain('secret');
+    expect(tree).not.toContain('Hidden');
+    expect(tree).not.toContain('Not a link');
+    expect(tree).not.toContain('ignored');
+  });
+
+  test('should keep refs stable across snapshots and resolve them to elements', () => {
+    const button = document.querySelector('button');
+    const ref = snapshotter.getRef(button);
+
+    document.querySelector('h1').remove();
+    snapshotter.snapshot();
+
+    expect(snapshotter.getRef(button)).toBe(ref);
+    expect(snapshotter.resolveRef(ref)).toBe(button);
+  });
+
+  test('should stop resolving refs of removed elements', () => {
+    const heading = document.querySelector('h1');
+    const ref = snapshotter.getRef(heading);
+
+    heading.remove();
+
+    expect(snapshotter.resolveRef(ref)).toBeNull();
+  });
+
+  test('should truncate the tree to the token budget and say how much was left out', () => {
+    const { tree, truncated, tokenEstimate } = snapshotter.snapshot(document.body, 10);
+
+    expect(truncated).toBe(true);
+    expect(tokenEstimate).toBeLessThanOrEqual(10);
+    expect(tree).toMatch(/- \.\.\. \d+ more elements omitted$/);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Pattern Learning Unit Tests
+ * Tests for promoting successful plans to local patterns and demoting failing ones
+ */
+
+jest.mock('../../lib/utils/chrome-storage', () => ({
+  getStorageValue: jest.fn(async (key, defaultValue = null) => defaultValue),
+  setStorageValue: jest.fn(async () => undefined),
+  onStorageChanged: jest.fn(),
+}));
+
+const { setStorageValue } = require('../../lib/utils/chrome-storage');
+const { LEARNED_PATTERNS_STORAGE_KEY, PatternLearner } = require('../../lib/commands/pattern-learner');
+
+const command = (intent, parameters = {}, fields = {}) => ({
+  intent,
+  parameters,
+  confidence: 0.9,
+  entities: {},
+  securityLevel: 'low',
+  requiresClarification: false,
+  ...fields,
+});
+
+const url = 'https://shop.example.com/cart';
+const plan = [command('click', { selector: '#checkout' })];
+
+describe('PatternLearner', () => {
+  let learner;
+
+  const record = (succeeded, fields = {}) =>
+    learner.recordOutcome({ command: 'Check out now!', url, commands: plan, succeeded, ...fields });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    learner = new PatternLearner();
+  });
+
+  test('should promote a plan after enough successful runs on the same origin', async () => {
+    await record(true);
+    await record(true);
+    expect(await learner.findPattern('check out now', url)).toBeNull();
+
+    const pattern = await record(true);
+
+    expect(pattern).toMatchObject({ promoted: true, successCount: 3, confidence: 0.8, origin: 'https://shop.example.com' });
+    expect(await learner.findPattern('  CHECK out   now. ', 'https://shop.example.com/other')).toBe(pattern);
+    expect(await learner.findPattern('check out now', 'https://other.example.com/')).toBeNull();
+    expect(setStorageValue).toHaveBeenLastCalledWith(LEARNED_PATTERNS_STORAGE_KEY, [pattern]);
+  });
+
+  test('should keep a promoted pattern through one failure and demote it after repeated failures', async () => {
+    const { id } = await record(true);
+    await record(true);
+    await record(true);
+
+    expect((await record(false, { learnedPatternId: id })).promoted).toBe(true);
+
+    const demoted = await record(false, { learnedPatternId: id });
+    expect(demoted.promoted).toBe(false);
+    expect(demoted.consecutiveFailures).toBe(2);
+  });
+
+  test('should not remember failed plans or start over on a failed new plan', async () => {
+    expect(await record(false)).toBeNull();
+
+    const pattern = await record(true);
+    const otherPlan = [command('click', { selector: '#pay' })];
+
+    expect(await learner.recordOutcome({ command: 'check out now', url, commands: otherPlan, succeeded: false }))
+      .toMatchObject({ id: pattern.id, successCount: 1, failureCount: 0 });
+
+    const replaced = await learner.recordOutcome({ command: 'check out now', url, commands: otherPlan, succeeded: true });
+    expect(replaced).toMatchObject({ id: pattern.id, successCount: 1, commands: [expect.objectContaining({ parameters: { selector: '#pay' } })] });
+  });
+
+  test('should never learn credentials or high-risk steps', async () => {
+    const unsafe = [
+      [command('fill', { selector: '#password', value: 'hunter2' })],
+      [command('fill', { selector: '#field', fieldType: 'password' })],
+      [command('click', { selector: '#delete' }, { securityLevel: 'high' })],
+    ];
+
+    for (const commands of unsafe) {
+      expect(await learner.recordOutcome({ command: 'log in', url, commands, succeeded: true })).toBeNull();
+    }
+    expect(await learner.recordOutcome({ command: 'check out', url: 'about:blank', commands: plan, succeeded: true })).toBeNull();
+    expect(await learner.getPatterns()).toEqual([]);
+  });
+
+  test('should drop the least recently used unpromoted patterns when full', async () => {
+    learner = new PatternLearner({ maxPatterns: 2, promotionThreshold: 2 });
+    const nowSpy = jest.spyOn(Date, 'now');
+    const run = (text, time) => {
+      nowSpy.mockReturnValue(time);
+      return learner.recordOutcome({ command: text, url, commands: plan, succeeded: true });
+    };
+
+    await run('first', 1);
+    await run('first', 2);
+    await run('second', 3);
+    await run('third', 4);
+    nowSpy.mockRestore();
+
+    expect((await learner.getPatterns()).map(pattern => pattern.pattern).sort()).toEqual(['first', 'third']);
+  });
+});
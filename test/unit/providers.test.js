@@ -0,0 +1,135 @@
+/**
+ * LLM Provider Unit Tests
+ * Tests for provider lookup, capability resolution and model listing
+ */
+
+jest.mock('../../lib/openrouter/config', () => ({
+  OPENROUTER_CONFIG: {
+    BASE_URL: 'https://openrouter.ai/api/v1',
+    MODELS_ENDPOINT: '/models',
+    DEFAULT_MODEL: 'z-ai/glm-4.5-air:free',
+    REQUEST_TIMEOUT: 30000,
+  },
+}));
+
+// The real client sends requests; the adapters only need its config handling
+jest.mock('../../lib/openrouter/client', () => ({
+  OpenRouterClient: class {
+    constructor(config) {
+      this.config = config;
+      this.costTracker = null;
+    }
+
+    buildHeaders() {
+      return { ...this.config.headers };
+    }
+
+    updateConfig(config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    setCostTracker(costTracker) {
+      this.costTracker = costTracker;
+    }
+  },
+}));
+
+const {
+  createProvider,
+  getProviderKeyStorageKey,
+  isProviderId,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  OpenRouterProvider,
+} = require('../../lib/providers');
+
+const modelsResponse = data => ({ ok: true, json: async () => ({ data }) });
+
+describe('LLM providers', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    // jsdom has no AbortSignal.timeout
+    AbortSignal.timeout = AbortSignal.timeout || (() => new AbortController().signal);
+  });
+
+  describe('provider lookup', () => {
+    test('should recognise known provider ids only', () => {
+      expect(isProviderId('openrouter')).toBe(true);
+      expect(isProviderId('openai-compatible')).toBe(true);
+      expect(isProviderId('anthropic')).toBe(false);
+      expect(isProviderId(undefined)).toBe(false);
+    });
+
+    test('should store each provider key under its own storage key', () => {
+      expect(getProviderKeyStorageKey('openrouter')).toBe('openrouter_api_key');
+      expect(getProviderKeyStorageKey('openai-compatible')).toBe('openai_compatible_api_key');
+    });
+
+    test('should create the adapter for an id and reject unknown ids', () => {
+      expect(createProvider('openrouter')).toBeInstanceOf(OpenRouterProvider);
+      expect(createProvider('ollama')).toBeInstanceOf(OllamaProvider);
+      expect(createProvider('openai-compatible', { baseUrl: 'http://localhost:1234/v1' }).config.baseUrl)
+        .toBe('http://localhost:1234/v1');
+      expect(() => createProvider('anthropic')).toThrow('Unknown LLM provider: anthropic');
+    });
+  });
+
+  describe('capabilities', () => {
+    test('should narrow provider capabilities by the selected model', () => {
+      const provider = new OpenRouterProvider({ model: 'meta-llama/llama-3.1-8b-instruct:free' });
+
+      expect(provider.getCapabilities()).toEqual({ streaming: true, tools: false, vision: false });
+      expect(provider.config.enableToolCalling).toBe(false);
+    });
+
+    test('should let user overrides win over provider and model capabilities', () => {
+      const provider = new OllamaProvider({ capabilities: { tools: true } });
+
+      expect(provider.getCapabilities().tools).toBe(true);
+      expect(provider.config.enableToolCalling).toBe(true);
+
+      provider.updateConfig({ capabilities: { streaming: false } });
+
+      expect(provider.config.enableStreaming).toBe(false);
+    });
+  });
+
+  describe('listModels', () => {
+    test('should read OpenRouter modalities, tool support and pricing', async () => {
+      const setModelPricing = jest.fn();
+      const provider = new OpenRouterProvider({ model: 'vendor/seeing-model' });
+      provider.setCostTracker({ setModelPricing });
+      fetch.mockResolvedValue(modelsResponse([
+        {
+          id: 'vendor/seeing-model',
+          name: 'Seeing model',
+          context_length: 128000,
+          architecture: { input_modalities: ['text', 'image'] },
+          supported_parameters: ['tools'],
+          pricing: { prompt: '0.000001', completion: '0.000002' },
+        },
+      ]));
+
+      const [model] = await provider.listModels();
+
+      expect(fetch).toHaveBeenCalledWith('https://openrouter.ai/api/v1/models', expect.any(Object));
+      expect(model).toMatchObject({
+        id: 'vendor/seeing-model',
+        contextLength: 128000,
+        capabilities: { vision: true, tools: true },
+      });
+      expect(setModelPricing).toHaveBeenCalledWith('vendor/seeing-model', { prompt: 1, completion: 2 });
+      expect(provider.getCapabilities().vision).toBe(true);
+    });
+
+    test('should fall back to the known models when the endpoint fails', async () => {
+      const provider = new OpenAICompatibleProvider();
+      fetch.mockRejectedValue(new Error('offline'));
+
+      const models = await provider.listModels();
+
+      expect(fetch).toHaveBeenCalledWith('https://api.openai.com/v1/models', expect.any(Object));
+      expect(models.map(model => model.id)).toEqual(['gpt-4o-mini', 'gpt-4o']);
+    });
+  });
+});
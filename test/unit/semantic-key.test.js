@@ -0,0 +1,121 @@
+/**
+ * Semantic Cache Key Unit Tests
+ * Tests that paraphrased commands share cached plans while commands with different values never do
+ */
+
+// Mock Chrome APIs before importing modules
+require('../setup/chrome-mock.js');
+
+jest.mock('../../lib/utils/logger', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { Logger: jest.fn(() => logger), defaultLogger: logger };
+});
+
+const {
+  getCommandSignature,
+  normalizeCommandText,
+  trigramSimilarity,
+} = require('../../lib/cache/semantic-key');
+const { CacheManager } = require('../../lib/cache/cache-manager');
+
+// Commands that differ only in the value they act on
+const NEAR_MISSES = [
+  ['delete row 12', 'delete row 13'],
+  ['fill 12345 zip', 'fill 12346 zip'],
+  ['navigate example.com/a', 'navigate example.com/b'],
+  ['type "Hello" into the search box', 'type "hello" into the search box'],
+  ['click #submit', 'click #cancel'],
+];
+
+describe('Semantic cache keys', () => {
+  describe('normalizeCommandText', () => {
+    test('should map paraphrased verbs and drop filler words', () => {
+      expect(normalizeCommandText('open gmail')).toBe('navigate gmail');
+      expect(normalizeCommandText('Please go to the Gmail website')).toBe('navigate gmail');
+    });
+  });
+
+  describe('trigramSimilarity', () => {
+    test('should score identical text as 1 and unrelated text low', () => {
+      expect(trigramSimilarity('search running shoes', 'search running shoes')).toBe(1);
+      expect(trigramSimilarity('search running shoes', 'delete row')).toBeLessThan(0.2);
+    });
+
+    test('should score near-miss pairs above the default threshold on their own', () => {
+      // Why values cannot be compared by similarity
+      const [a, b] = NEAR_MISSES[0];
+      expect(trigramSimilarity(a, b)).toBeGreaterThan(0.8);
+    });
+  });
+
+  describe('getCommandSignature', () => {
+    test('should split numbers, URLs, quoted text and selectors from the structure', () => {
+      expect(getCommandSignature('delete row 12')).toEqual({ structure: 'delete row 0', values: ['12'] });
+      expect(getCommandSignature('go to example.com/a.')).toEqual({ structure: 'navigate 0', values: ['example.com/a'] });
+      expect(getCommandSignature('type "Hello World" into #search')).toEqual({
+        structure: 'fill 0',
+        values: ['"Hello World"', '#search'],
+      });
+      expect(getCommandSignature('open https://example.com/a?x=1').values).toEqual(['https://example.com/a?x=1']);
+    });
+
+    test('should leave apostrophes inside words alone', () => {
+      expect(getCommandSignature("click the user's avatar").values).toEqual([]);
+    });
+
+    test.each(NEAR_MISSES)('should keep the structure of "%s" and "%s" but not their values', (a, b) => {
+      const first = getCommandSignature(a);
+      const second = getCommandSignature(b);
+      expect(first.structure).toBe(second.structure);
+      expect(first.values).not.toEqual(second.values);
+    });
+  });
+
+  describe('CacheManager semantic lookup', () => {
+    let cache;
+    const scope = 'https://example.com';
+
+    beforeAll(() => {
+      cache = CacheManager.getInstance({ enablePersistence: false });
+    });
+
+    beforeEach(async () => {
+      await cache.clear();
+    });
+
+    afterAll(() => {
+      cache.destroy();
+    });
+
+    test.each(NEAR_MISSES)('should not return the plan for "%s" to "%s"', async (cached, requested) => {
+      await cache.setSemantic({ text: cached, scope }, { plan: cached });
+
+      expect(await cache.getSemantic({ text: requested, scope })).toBeNull();
+    });
+
+    test('should return the plan for a paraphrase with the same values', async () => {
+      await cache.setSemantic({ text: 'open example.com/a', scope }, { plan: 'a' });
+
+      const hit = await cache.getSemantic({ text: 'please go to example.com/a', scope });
+      expect(hit).toMatchObject({ value: { plan: 'a' }, similarity: 1 });
+    });
+
+    test('should return the plan for a similar structure with the same values', async () => {
+      await cache.setSemantic({ text: 'search for running shoes', scope }, { plan: 'shoes' });
+
+      const hit = await cache.getSemantic({ text: 'search running shoe', scope });
+      expect(hit?.value).toEqual({ plan: 'shoes' });
+      expect(hit?.similarity).toBeLessThan(1);
+    });
+
+    test('should not share plans across models, tools or locales', async () => {
+      const key = { text: 'delete row 12', scope, model: 'model-a', tools: ['click', 'fill'], locale: 'en' };
+      await cache.setSemantic(key, { plan: 'a' });
+
+      expect(await cache.getSemantic({ ...key, tools: ['fill', 'click'] })).not.toBeNull();
+      expect(await cache.getSemantic({ ...key, model: 'model-b' })).toBeNull();
+      expect(await cache.getSemantic({ ...key, tools: ['click'] })).toBeNull();
+      expect(await cache.getSemantic({ ...key, locale: 'de' })).toBeNull();
+    });
+  });
+});
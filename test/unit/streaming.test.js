@@ -0,0 +1,104 @@
+/**
+ * Streaming Unit Tests
+ * Tests for server-sent event parsing and incremental plan and tool call assembly
+ */
+
+const {
+  SSEParser,
+  StreamingCommandExtractor,
+  ToolCallAccumulator,
+} = require('../../lib/openrouter/streaming');
+
+describe('Streaming', () => {
+  describe('SSEParser', () => {
+    test('should return the payload of each completed event', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: {"a":1}\n\ndata: {"b":2}\n\n')).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    test('should hold events split across chunks until they are complete', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: {"a"')).toEqual([]);
+      expect(parser.push(':1}\n')).toEqual([]);
+      expect(parser.push('\n')).toEqual(['{"a":1}']);
+    });
+
+    test('should join multi-line data and accept CRLF line endings', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: first\r\ndata: second\r\n\r\n')).toEqual(['first\nsecond']);
+    });
+
+    test('should ignore comments and other fields', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push(': keep-alive\n\nevent: message\nid: 7\ndata: [DONE]\n\n')).toEqual(['[DONE]']);
+    });
+
+    test('should flush an event left without a blank line', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: last')).toEqual([]);
+      expect(parser.flush()).toEqual(['last']);
+      expect(parser.flush()).toEqual([]);
+    });
+  });
+
+  describe('StreamingCommandExtractor', () => {
+    test('should emit each command as soon as its object is complete', () => {
+      const extractor = new StreamingCommandExtractor();
+
+      expect(extractor.push('{"commands": [{"type": "navigate", "url": "https://exa')).toEqual([]);
+      expect(extractor.push('mple.com"}, {"type": "cli')).toEqual([
+        { index: 0, command: { type: 'navigate', url: 'https://example.com' } },
+      ]);
+      expect(extractor.push('ck", "selector": "a[title=\\"}\\"]"}], "confidence": 0.9}')).toEqual([
+        { index: 1, command: { type: 'click', selector: 'a[title="}"]' } },
+      ]);
+    });
+
+    test('should skip malformed entries without shifting indexes', () => {
+      const extractor = new StreamingCommandExtractor();
+
+      const commands = extractor.push('{"commands": [{"url": "x"}, {"type": "scroll"}]}');
+      expect(commands).toEqual([{ index: 0, command: { type: 'scroll' } }]);
+    });
+
+    test('should ignore text after the commands array', () => {
+      const extractor = new StreamingCommandExtractor();
+
+      extractor.push('{"commands": []');
+      expect(extractor.push(', "extra": [{"type": "click"}]}')).toEqual([]);
+      expect(extractor.getText()).toContain('"extra"');
+    });
+  });
+
+  describe('ToolCallAccumulator', () => {
+    test('should release a call once the model moves on to the next one', () => {
+      const accumulator = new ToolCallAccumulator();
+
+      expect(accumulator.push([
+        { index: 0, id: 'call_1', function: { name: 'navigate', arguments: '{"url":' } },
+      ])).toEqual([]);
+      expect(accumulator.push([{ index: 0, function: { arguments: '"https://example.com"}' } }])).toEqual([]);
+
+      const released = accumulator.push([{ index: 1, id: 'call_2', function: { name: 'click', arguments: '' } }]);
+      expect(released).toEqual([{
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'navigate', arguments: '{"url":"https://example.com"}' },
+      }]);
+    });
+
+    test('should release the remaining calls on flush exactly once', () => {
+      const accumulator = new ToolCallAccumulator();
+
+      accumulator.push([{ index: 0, id: 'call_1', function: { name: 'scroll', arguments: '{}' } }]);
+      expect(accumulator.flush().map(call => call.id)).toEqual(['call_1']);
+      expect(accumulator.flush()).toEqual([]);
+      expect(accumulator.getToolCalls()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Table Export Unit Tests
+ * Tests for duplicate row removal and JSON, CSV and Markdown formatting of extracted tables
+ */
+
+const { dedupeRows, formatTable, getTableFile } = require('../../lib/table-export');
+
+describe('Table export', () => {
+  describe('dedupeRows', () => {
+    test('should keep the first of rows whose values match after trimming', () => {
+      const rows = [
+        { name: 'Ada', city: 'London' },
+        { name: ' Ada ', city: 'London\n' },
+        { name: 'Grace', city: 'New York' },
+      ];
+
+      expect(dedupeRows(rows)).toEqual([rows[0], rows[2]]);
+    });
+
+    test('should treat values that differ only in case as different rows', () => {
+      const rows = [{ sku: 'abc-1' }, { sku: 'ABC-1' }];
+
+      expect(dedupeRows(rows)).toEqual(rows);
+    });
+
+    test('should compare only the key columns when given', () => {
+      const rows = [
+        { id: '1', price: '10' },
+        { id: '1', price: '12' },
+        { id: '2', price: '10' },
+      ];
+
+      expect(dedupeRows(rows, ['id'])).toEqual([rows[0], rows[2]]);
+    });
+  });
+
+  describe('formatTable', () => {
+    const table = {
+      columns: ['name', 'note'],
+      rows: [
+        { name: 'Ada', note: 'says "hi", twice' },
+        { name: 'Grace' },
+      ],
+    };
+
+    test('should format rows as JSON', () => {
+      expect(JSON.parse(formatTable(table, 'json'))).toEqual(table.rows);
+    });
+
+    test('should quote CSV fields with separators and quotes and fill missing cells', () => {
+      expect(formatTable(table, 'csv')).toBe('name,note\r\nAda,"says ""hi"", twice"\r\nGrace,');
+    });
+
+    test.each(['=SUM(A1:A2)', '+1+cmd', '-2-A1', '@cmd', '\tcmd'])('should keep the CSV cell %j from running as a formula', value => {
+      const csv = formatTable({ columns: ['value'], rows: [{ value }] }, 'csv');
+
+      expect(csv.split('\r\n')[1]).toBe(`'${value}`);
+    });
+
+    test('should quote prefixed cells that start with a carriage return', () => {
+      const csv = formatTable({ columns: ['value'], rows: [{ value: '\r=1' }] }, 'csv');
+
+      expect(csv.endsWith(`"'\r=1"`)).toBe(true);
+    });
+
+    test.each(['-12.50', '+3%', '-1,200', '+.5'])('should leave the signed number %j as a number', value => {
+      const csv = formatTable({ columns: ['value'], rows: [{ value }] }, 'csv');
+
+      expect(csv.split('\r\n')[1]).toBe(value.includes(',') ? `"${value}"` : value);
+    });
+
+    test('should prefix formula-like cells before quoting them', () => {
+      const csv = formatTable({ columns: ['value'], rows: [{ value: '=HYPERLINK("x","y")' }] }, 'csv');
+
+      expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""x"",""y"")"`);
+    });
+
+    test('should escape pipes and flatten line breaks in Markdown', () => {
+      const markdown = formatTable({ columns: ['a|b'], rows: [{ 'a|b': 'one\n two' }] }, 'markdown');
+
+      expect(markdown).toBe('| a\\|b |\n| --- |\n| one two |');
+    });
+
+    test('should throw on unknown formats', () => {
+      expect(() => formatTable(table, 'xml')).toThrow('Unknown table format: xml');
+    });
+  });
+
+  describe('getTableFile', () => {
+    test('should build a safe file name with the format extension', () => {
+      expect(getTableFile(' Prices / May ', 'markdown')).toEqual({ fileName: 'Prices-May.md', mimeType: 'text/markdown' });
+      expect(getTableFile('***', 'csv').fileName).toBe('extraction.csv');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tool Calling Unit Tests
+ * Tests for tool argument validation and mapping tool calls onto automation commands
+ */
+
+const {
+  CLARIFICATION_TOOL_NAME,
+  COMMAND_SCHEMAS,
+  parseToolCalls,
+  toolCallToCommand,
+  validateAgainstSchema,
+} = require('../../lib/openrouter/tools');
+
+const toolCall = (name, args, id = `call_${name}`) => ({
+  id,
+  type: 'function',
+  function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) },
+});
+
+describe('Tool calling', () => {
+  describe('validateAgainstSchema', () => {
+    test('should accept arguments that match a command schema', () => {
+      expect(validateAgainstSchema({ url: 'https://example.com', newTab: true }, COMMAND_SCHEMAS.navigate)).toEqual([]);
+      expect(validateAgainstSchema({ ref: 3, value: 'Ada' }, COMMAND_SCHEMAS.fill)).toEqual([]);
+    });
+
+    test('should report missing required fields', () => {
+      expect(validateAgainstSchema({}, COMMAND_SCHEMAS.navigate)).toEqual(['url is required']);
+    });
+
+    test('should report wrong types, empty strings, enums and ranges with the field path', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          size: { type: 'integer', minimum: 1, maximum: 10 },
+          mode: { type: 'string', enum: ['a', 'b'] },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+      };
+
+      expect(validateAgainstSchema({ name: '', size: 11, mode: 'c', tags: ['x', 2] }, schema, 'args')).toEqual([
+        'args.name must not be empty',
+        'args.size must be at most 10',
+        'args.mode must be one of a, b',
+        'args.tags[1] must be of type string',
+      ]);
+      expect(validateAgainstSchema({ size: 1.5 }, schema)).toEqual(['size must be of type integer']);
+    });
+
+    test('should reject unknown fields only when additional properties are disallowed', () => {
+      const schema = { type: 'object', properties: { a: { type: 'string' } } };
+
+      expect(validateAgainstSchema({ a: 'x', b: 1 }, schema)).toEqual([]);
+      expect(validateAgainstSchema({ a: 'x', b: 1 }, { ...schema, additionalProperties: false })).toEqual([
+        'b is not allowed',
+      ]);
+    });
+
+    test('should accept any of several types', () => {
+      const schema = { type: ['number', 'string'] };
+
+      expect(validateAgainstSchema(5, schema)).toEqual([]);
+      expect(validateAgainstSchema('5', schema)).toEqual([]);
+      expect(validateAgainstSchema(NaN, schema)).toEqual(['value must be of type number or string']);
+    });
+  });
+
+  describe('toolCallToCommand', () => {
+    test('should map known arguments onto the command and keep the rest as options', () => {
+      const command = toolCallToCommand(toolCall('click', {
+        selector: 'role=button[name="Save"]',
+        confidence: 0.7,
+        inputBackend: 'debugger',
+        modifiers: ['shift'],
+      }));
+
+      expect(command).toMatchObject({
+        type: 'click',
+        selector: 'role=button[name="Save"]',
+        confidence: 0.7,
+        inputBackend: 'debugger',
+        options: { modifiers: ['shift'] },
+      });
+      expect(command.description).toEqual(expect.any(String));
+    });
+
+    test('should throw on unknown tools and malformed arguments', () => {
+      expect(() => toolCallToCommand(toolCall('teleport', {}))).toThrow('Unknown tool: teleport');
+      expect(() => toolCallToCommand(toolCall('navigate', '{"url":'))).toThrow('Invalid arguments for tool navigate');
+      expect(() => toolCallToCommand(toolCall('navigate', '[]'))).toThrow('arguments must be an object');
+    });
+  });
+
+  describe('parseToolCalls', () => {
+    test('should build commands in call order and average their confidence', () => {
+      const response = parseToolCalls([
+        toolCall('navigate', { url: 'https://example.com', confidence: 0.5 }),
+        toolCall('click', { selector: '#submit', confidence: 1 }),
+      ]);
+
+      expect(response.commands.map(command => command.type)).toEqual(['navigate', 'click']);
+      expect(response.confidence).toBeCloseTo(0.75);
+      expect(response.requiresClarification).toBe(false);
+    });
+
+    test('should turn a clarification call into a question with alternatives', () => {
+      const response = parseToolCalls([
+        toolCall(CLARIFICATION_TOOL_NAME, { question: 'Which account?', alternatives: ['Work', 'Personal'] }),
+      ]);
+
+      expect(response).toMatchObject({
+        commands: [],
+        confidence: 0,
+        requiresClarification: true,
+        clarificationQuestion: 'Which account?',
+        alternativeCommands: [
+          { description: 'Work', commands: [] },
+          { description: 'Personal', commands: [] },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Vision Mode Unit Tests
+ * Tests for screenshot messages, element legends and numbered replies
+ */
+
+const { buildVisionContent, getMessageText, parseNumberedReply } = require('../../lib/openrouter/vision');
+const { buildElementLegend } = require('../../lib/orchestration/screenshot-annotator');
+
+const rect = { x: 0, y: 0, width: 10, height: 10 };
+
+describe('Vision mode', () => {
+  describe('buildElementLegend', () => {
+    test('should list each numbered box with its tag, role and text', () => {
+      const legend = buildElementLegend([
+        { ref: 1, tag: 'button', role: 'button', text: 'Sign in', rect },
+        { ref: 2, tag: 'a', role: 'link', rect },
+      ]);
+
+      expect(legend).toBe('[1] <button> "Sign in"\n[2] <a> role=link');
+    });
+  });
+
+  describe('buildVisionContent', () => {
+    test('should send the legend with the prompt and attach the screenshot', () => {
+      const content = buildVisionContent('Goal: sign in', { image: 'data:image/png;base64,AAA', legend: '[1] <button>' });
+
+      expect(content).toEqual([
+        {
+          type: 'text',
+          text: 'Goal: sign in\n\nNumbered elements on the screenshot (use the number as ref):\n[1] <button>',
+        },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAA', detail: 'high' } },
+      ]);
+      expect(getMessageText(content)).toBe(content[0].text);
+      expect(getMessageText('plain')).toBe('plain');
+    });
+  });
+
+  describe('parseNumberedReply', () => {
+    test('should read numbered actions as ref-targeted commands', () => {
+      const commands = parseNumberedReply('1. click box 14\n2. fill 3 with "ada@example.com"\n- type hello into #5.');
+
+      expect(commands.map(({ type, ref, value }) => ({ type, ref, value }))).toEqual([
+        { type: 'click', ref: 14, value: undefined },
+        { type: 'fill', ref: 3, value: 'ada@example.com' },
+        { type: 'fill', ref: 5, value: 'hello' },
+      ]);
+      expect(commands[0].confidence).toBe(0.7);
+    });
+
+    test('should return nothing when any line is not a numbered action', () => {
+      expect(parseNumberedReply('click 14\nthen wait for the page')).toEqual([]);
+      expect(parseNumberedReply('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Workflow DSL Unit Tests
+ * Tests for workflow definition validation and {{variable}} interpolation
+ */
+
+const {
+  countWorkflowCommands,
+  interpolate,
+  parseWorkflowDefinition,
+  resolveVariable,
+  validateWorkflowDefinition,
+} = require('../../lib/workflow-dsl');
+
+const definition = (steps, variables) => ({ version: 1, name: 'Test workflow', variables, steps });
+const command = (fields, saveAs) => ({ type: 'command', command: fields, ...(saveAs && { saveAs }) });
+
+describe('Workflow DSL', () => {
+  describe('validateWorkflowDefinition', () => {
+    test('should accept commands, loops and conditions that use bound variables', () => {
+      const result = validateWorkflowDefinition(definition([
+        command({ type: 'navigate', url: '{{baseUrl}}/search' }),
+        command({ type: 'extractText', selector: '.price', all: true }, 'prices'),
+        {
+          type: 'forEach',
+          items: '{{prices}}',
+          as: 'price',
+          do: [
+            {
+              type: 'if',
+              condition: { type: 'equals', left: '{{price}}', right: '0' },
+              then: [command({ type: 'click', selector: '#row-{{loop.index}}' })],
+            },
+          ],
+        },
+      ], { baseUrl: 'https://example.com' }));
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    test('should report missing fields, unknown blocks and unknown commands with their path', () => {
+      const { valid, errors } = validateWorkflowDefinition(definition([
+        command({ type: 'navigate' }),
+        { type: 'repeat' },
+        command({ type: 'teleport' }),
+      ]));
+
+      expect(valid).toBe(false);
+      expect(errors.some(error => error.startsWith('steps[0]') && error.includes('url'))).toBe(true);
+      expect(errors).toContain('steps[1]: unknown block type "repeat"');
+      expect(errors.some(error => error.startsWith('steps[2]') && error.includes('teleport'))).toBe(true);
+    });
+
+    test('should reject definitions without a version, name or steps', () => {
+      expect(validateWorkflowDefinition({ steps: [] }).valid).toBe(false);
+      expect(validateWorkflowDefinition(null).valid).toBe(false);
+    });
+
+    test('should report variables that are never bound', () => {
+      const { errors } = validateWorkflowDefinition(definition([
+        command({ type: 'navigate', url: '{{missing}}' }),
+      ]));
+
+      expect(errors).toEqual(['steps[0].command: unknown variable "missing"']);
+    });
+
+    test('should report invalid regular expressions in urlMatches conditions', () => {
+      const { valid, errors } = validateWorkflowDefinition(definition([
+        { type: 'if', condition: { type: 'urlMatches', pattern: '([a-z' }, then: [] },
+      ]));
+
+      expect(valid).toBe(false);
+      expect(errors).toEqual(['steps[0].condition.pattern is not a valid regular expression']);
+    });
+
+    test('should check variables instead of compiling urlMatches patterns built from them', () => {
+      const condition = pattern => definition([{ type: 'if', condition: { type: 'urlMatches', pattern }, then: [] }], { host: 'a' });
+
+      expect(validateWorkflowDefinition(condition('^https://{{host}}/(')).valid).toBe(true);
+      expect(validateWorkflowDefinition(condition('{{other}}')).errors).toEqual([
+        'steps[0].condition: unknown variable "other"',
+      ]);
+    });
+
+    test('should reject variable names that are not identifiers', () => {
+      const { errors } = validateWorkflowDefinition(definition([], { 'not-valid': 1 }));
+
+      expect(errors).toEqual(['Invalid variable name "not-valid"']);
+    });
+  });
+
+  describe('parseWorkflowDefinition', () => {
+    test('should parse a valid JSON definition', () => {
+      const source = JSON.stringify(definition([command({ type: 'navigate', url: 'https://example.com' })]));
+
+      expect(parseWorkflowDefinition(source).name).toBe('Test workflow');
+    });
+
+    test('should throw on invalid JSON and on invalid definitions', () => {
+      expect(() => parseWorkflowDefinition('name: yaml')).toThrow('Workflow is not valid JSON');
+      expect(() => parseWorkflowDefinition(JSON.stringify(definition([{ type: 'repeat' }])))).toThrow(
+        'Invalid workflow: steps[0]: unknown block type "repeat"'
+      );
+    });
+  });
+
+  describe('interpolation', () => {
+    const variables = {
+      name: 'Ada',
+      count: 3,
+      prices: [10, 20],
+      row: { title: 'First', tags: ['a'] },
+      empty: null,
+    };
+
+    test('should resolve nested paths, indexes and lengths', () => {
+      expect(resolveVariable('row.title', variables)).toBe('First');
+      expect(resolveVariable('prices[1]', variables)).toBe(20);
+      expect(resolveVariable('prices.length', variables)).toBe(2);
+      expect(resolveVariable('row.missing.deeper', variables)).toBeUndefined();
+    });
+
+    test('should throw on unknown variables', () => {
+      expect(() => resolveVariable('other', variables)).toThrow('Unknown variable: other');
+      expect(() => interpolate('Hi {{other}}', variables)).toThrow('Unknown variable: other');
+    });
+
+    test('should keep the type of a value that is a single variable', () => {
+      expect(interpolate('{{count}}', variables)).toBe(3);
+      expect(interpolate('{{ prices }}', variables)).toEqual([10, 20]);
+    });
+
+    test('should stringify variables embedded in text', () => {
+      expect(interpolate('{{name}} has {{count}} items', variables)).toBe('Ada has 3 items');
+      expect(interpolate('tags: {{row.tags}}, none: [{{empty}}]', variables)).toBe('tags: ["a"], none: []');
+    });
+
+    test('should interpolate arrays and objects recursively and leave other values alone', () => {
+      expect(interpolate({ url: '/users/{{name}}', values: ['{{count}}', 5], flag: true }, variables)).toEqual({
+        url: '/users/Ada',
+        values: [3, 5],
+        flag: true,
+      });
+    });
+  });
+
+  describe('countWorkflowCommands', () => {
+    test('should count commands in every branch and loop bodies once', () => {
+      const steps = [
+        command({ type: 'navigate', url: 'https://example.com' }),
+        { type: 'set', values: { a: 1 } },
+        {
+          type: 'if',
+          condition: { type: 'truthy', value: '{{a}}' },
+          then: [command({ type: 'click', selector: '#a' })],
+          else: [command({ type: 'click', selector: '#b' })],
+        },
+        { type: 'forEach', items: '{{a}}', as: 'item', do: [command({ type: 'click', selector: '#c' })] },
+        { type: 'try', try: [command({ type: 'click', selector: '#d' })], catch: [command({ type: 'click', selector: '#e' })] },
+      ];
+
+      expect(countWorkflowCommands(steps)).toBe(6);
+    });
+  });
+});
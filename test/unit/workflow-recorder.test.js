@@ -0,0 +1,124 @@
+/**
+ * Workflow Recorder Unit Tests
+ * Tests for folding captured keystrokes into steps and keeping typed passwords out of recordings
+ */
+
+jest.mock('../../lib/utils/chrome-storage', () => {
+  const store = new Map();
+  return {
+    store,
+    getStorageValue: jest.fn(async (key, defaultValue) => (store.has(key) ? store.get(key) : defaultValue)),
+    setStorageValue: jest.fn(async (key, value) => {
+      store.set(key, value);
+    }),
+  };
+});
+
+const storage = require('../../lib/utils/chrome-storage');
+const { RECORDING_STORAGE_KEY, WorkflowRecorder } = require('../../lib/workflow-recorder');
+
+const TAB_ID = 7;
+const type = (selector, text, masked) => ({ command: { type: 'type', selector, text }, ...(masked && { masked }) });
+
+describe('WorkflowRecorder', () => {
+  let recorder;
+
+  beforeEach(async () => {
+    storage.store.clear();
+    recorder = new WorkflowRecorder();
+    await recorder.start(TAB_ID, 'https://example.com/login');
+  });
+
+  const steps = async () => (await recorder.getSession()).steps;
+
+  describe('keystroke folding', () => {
+    test('should keep only the latest text typed into the same field', async () => {
+      await recorder.addAction(TAB_ID, type('#email', 'a'));
+      await recorder.addAction(TAB_ID, type('#email', 'ad'));
+      await recorder.addAction(TAB_ID, type('#email', 'ada@example.com'));
+
+      expect(await steps()).toEqual([
+        { type: 'navigate', url: 'https://example.com/login' },
+        { type: 'type', selector: '#email', text: 'ada@example.com' },
+      ]);
+    });
+
+    test('should start a new step when typing moves to another field or follows another action', async () => {
+      await recorder.addAction(TAB_ID, type('#email', 'ada'));
+      await recorder.addAction(TAB_ID, type('#name', 'Ada'));
+      await recorder.addAction(TAB_ID, { command: { type: 'click', selector: '#next' } });
+      await recorder.addAction(TAB_ID, type('#name', 'Ada L'));
+
+      expect((await steps()).slice(1).map(step => step.type === 'type' ? step.text : step.type)).toEqual([
+        'ada',
+        'Ada',
+        'click',
+        'Ada L',
+      ]);
+    });
+
+    test('should add up consecutive scrolls in the same direction', async () => {
+      const scroll = (direction, amount) => ({ command: { type: 'scroll', direction, amount } });
+      await recorder.addAction(TAB_ID, scroll('down', 100));
+      await recorder.addAction(TAB_ID, scroll('down', 250));
+      await recorder.addAction(TAB_ID, scroll('up', 50));
+
+      expect((await steps()).slice(1)).toEqual([
+        { type: 'scroll', direction: 'down', amount: 350 },
+        { type: 'scroll', direction: 'up', amount: 50 },
+      ]);
+    });
+
+    test('should ignore actions from other tabs', async () => {
+      expect(await recorder.addAction(TAB_ID + 1, type('#email', 'x'))).toBe(false);
+      expect(await steps()).toHaveLength(1);
+    });
+  });
+
+  describe('password masking', () => {
+    test('should record a variable instead of the typed password, folding keystrokes into it', async () => {
+      await recorder.addAction(TAB_ID, type('#password', '', true));
+      await recorder.addAction(TAB_ID, type('#password', '', true));
+
+      expect((await steps())[1]).toEqual({ type: 'type', selector: '#password', text: '{{password1}}' });
+      expect((await recorder.getSession()).maskedVariables).toEqual(['password1']);
+    });
+
+    test('should never store captured password text', async () => {
+      await recorder.addAction(TAB_ID, type('#password', 'hunter2', true));
+
+      expect(JSON.stringify(storage.store.get(RECORDING_STORAGE_KEY))).not.toContain('hunter2');
+    });
+
+    test('should use a new variable for each password field', async () => {
+      await recorder.addAction(TAB_ID, type('#password', '', true));
+      await recorder.addAction(TAB_ID, type('#confirm', '', true));
+
+      expect((await steps()).slice(1).map(step => step.text)).toEqual(['{{password1}}', '{{password2}}']);
+    });
+
+    test('should declare masked variables in the definition when recording stops', async () => {
+      await recorder.addAction(TAB_ID, type('#password', '', true));
+
+      const { definition } = await recorder.stop('Login');
+      expect(definition).toMatchObject({
+        name: 'Login',
+        variables: { password1: '' },
+        steps: [
+          { type: 'command', command: { type: 'navigate', url: 'https://example.com/login' } },
+          { type: 'command', command: { type: 'type', selector: '#password', text: '{{password1}}' } },
+        ],
+      });
+      expect(definition.description).toContain('Set password1 before replaying');
+      expect(await recorder.getSession()).toBeNull();
+    });
+  });
+
+  test('should resume a recording persisted by an earlier instance', async () => {
+    await recorder.addAction(TAB_ID, type('#email', 'ada'));
+
+    const restored = new WorkflowRecorder();
+    expect(await restored.isRecording(TAB_ID)).toBe(true);
+    expect((await restored.getSession()).steps).toHaveLength(2);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Workflow Schedule Unit Tests
+ * Tests for cron expression parsing and finding the next time a schedule fires
+ */
+
+const { getNextCronOccurrence, parseCronExpression } = require('../../lib/workflow-schedule');
+
+// Local time, like the schedules themselves; 1 January 2026 is a Thursday
+const at = (month, day, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+const sorted = set => Array.from(set).sort((a, b) => a - b);
+
+describe('Workflow schedule', () => {
+  describe('parseCronExpression', () => {
+    test('should expand lists, ranges and steps', () => {
+      const cron = parseCronExpression('0,30 9-17/4 1 * 1-5');
+
+      expect(sorted(cron.minutes)).toEqual([0, 30]);
+      expect(sorted(cron.hours)).toEqual([9, 13, 17]);
+      expect(sorted(cron.daysOfMonth)).toEqual([1]);
+      expect(cron.months.size).toBe(12);
+      expect(sorted(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+      expect(cron.restrictedDaysOfMonth).toBe(true);
+      expect(cron.restrictedDaysOfWeek).toBe(true);
+    });
+
+    test('should run a stepped single value to the end of the field', () => {
+      expect(sorted(parseCronExpression('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+    });
+
+    test('should accept month and day names, and 7 for Sunday', () => {
+      const cron = parseCronExpression('0 0 * JAN-MAR sun,7,sat');
+
+      expect(sorted(cron.months)).toEqual([1, 2, 3]);
+      expect(sorted(cron.daysOfWeek)).toEqual([0, 6]);
+    });
+
+    test('should expand shorthands', () => {
+      const cron = parseCronExpression('@weekly');
+
+      expect(sorted(cron.minutes)).toEqual([0]);
+      expect(sorted(cron.hours)).toEqual([0]);
+      expect(sorted(cron.daysOfWeek)).toEqual([0]);
+      expect(cron.restrictedDaysOfMonth).toBe(false);
+    });
+
+    test.each([
+      ['* * * *', 'expected 5 fields, got 4'],
+      ['60 * * * *', 'minute has an invalid value "60"'],
+      ['* * 0 * *', 'day of month has an invalid value "0"'],
+      ['* 5-2 * * *', 'hour range "5-2" runs backwards'],
+      ['*/0 * * * *', 'minute has an invalid step in "*/0"'],
+      ['* * * foo *', 'month has an invalid value "foo"'],
+      ['1-2-3 * * * *', 'minute has an invalid range "1-2-3"'],
+    ])('should reject "%s"', (expression, reason) => {
+      expect(() => parseCronExpression(expression)).toThrow(`Invalid cron expression "${expression}": ${reason}`);
+    });
+  });
+
+  describe('getNextCronOccurrence', () => {
+    test('should return the next matching minute strictly after the given time', () => {
+      expect(getNextCronOccurrence('*/15 * * * *', at(1, 15, 10, 7))).toBe(at(1, 15, 10, 15));
+      expect(getNextCronOccurrence('*/15 * * * *', at(1, 15, 10, 15))).toBe(at(1, 15, 10, 30));
+    });
+
+    test('should ignore seconds in the given time', () => {
+      expect(getNextCronOccurrence('* * * * *', at(1, 15, 10, 7) + 42000)).toBe(at(1, 15, 10, 8));
+    });
+
+    test('should roll over hours, days, months and years', () => {
+      expect(getNextCronOccurrence('0 9 * * *', at(1, 15, 10))).toBe(at(1, 16, 9));
+      expect(getNextCronOccurrence('@monthly', at(1, 15))).toBe(at(2, 1));
+      expect(getNextCronOccurrence('30 8 1 1 *', at(12, 31, 23, 59))).toBe(new Date(2027, 0, 1, 8, 30).getTime());
+    });
+
+    test('should match weekdays', () => {
+      // Friday 2 January, then Monday 5 January
+      expect(getNextCronOccurrence('0 9 * * mon-fri', at(1, 1, 10))).toBe(at(1, 2, 9));
+      expect(getNextCronOccurrence('0 9 * * mon-fri', at(1, 2, 10))).toBe(at(1, 5, 9));
+    });
+
+    test('should fire on either a restricted day of month or day of week', () => {
+      // The 10th, or any Sunday; Sunday 4 January comes first
+      expect(getNextCronOccurrence('0 0 10 * sun', at(1, 1))).toBe(at(1, 4));
+      expect(getNextCronOccurrence('0 0 10 * sun', at(1, 5))).toBe(at(1, 10));
+    });
+
+    test('should require both day fields when either starts with *', () => {
+      // Odd days that are also Mondays: 5 and 19 January, not Saturday 3 January
+      expect(parseCronExpression('0 9 */2 * 1').restrictedDaysOfMonth).toBe(false);
+      expect(getNextCronOccurrence('0 9 */2 * 1', at(1, 1, 10))).toBe(at(1, 5, 9));
+      expect(getNextCronOccurrence('0 9 */2 * 1', at(1, 5, 10))).toBe(at(1, 19, 9));
+    });
+
+    test('should find 29 February in the next leap year', () => {
+      expect(getNextCronOccurrence('0 0 29 2 *', at(1, 1))).toBe(new Date(2028, 1, 29).getTime());
+    });
+
+    test('should return null for schedules that never fire', () => {
+      expect(getNextCronOccurrence('0 0 31 2 *', at(1, 1))).toBeNull();
+    });
+
+    test('should accept a parsed schedule', () => {
+      expect(getNextCronOccurrence(parseCronExpression('@hourly'), at(1, 15, 10, 7))).toBe(at(1, 15, 11));
+    });
+  });
+});
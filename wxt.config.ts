@@ -10,7 +10,14 @@ export default defineConfig({
       'tabs',
       'scripting',
       'storage',
-      'activeTab'
+      'activeTab',
+      'alarms',
+      'downloads',
+      'webRequest'
+    ],
+    // Trusted input is opt-in per site, so the debugger permission is requested from the settings panel
+    optional_permissions: [
+      'debugger'
     ],
     host_permissions: [
       '<all_urls>'
@@ -35,7 +42,14 @@ export default defineConfig({
       'tabs',
       'scripting',
       'storage',
-      'activeTab'
+      'activeTab',
+      'alarms',
+      'downloads',
+      'webRequest'
+    ],
+    // Trusted input is opt-in per site, so the debugger permission is requested from the settings panel
+    optional_permissions: [
+      'debugger'
     ],
     host_permissions: [
       '<all_urls>'